@@ -26,7 +26,9 @@ import {
   useClientStudioTrainers,
   useClientCredits,
   useCreateClientBooking,
+  useServiceIntakeQuestions,
 } from '@/lib/hooks/use-client-booking';
+import { toIntakeAnswerInputs, type IntakeAnswers } from '@/components/shared/IntakeQuestionFields';
 import type {
   ClientService,
   StudioTrainer,
@@ -76,11 +78,13 @@ export default function ClientBookPage() {
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [selectedTrainerId, setSelectedTrainerId] = useState<string | null>(null);
   const [selectedTrainerName, setSelectedTrainerName] = useState<string>('');
+  const [intakeAnswers, setIntakeAnswers] = useState<IntakeAnswers>({});
 
   // React Query hooks
   const { data: services = [], isLoading: isLoadingServices } = useClientStudioServices();
   const { data: trainers = [], isLoading: isLoadingTrainers } = useClientStudioTrainers();
   const { data: credits = 0 } = useClientCredits();
+  const { data: intakeQuestions = [] } = useServiceIntakeQuestions(selectedService?.id);
   const bookingMutation = useCreateClientBooking();
 
   const currentStepIndex = STEPS.findIndex((s) => s.id === currentStep);
@@ -146,12 +150,13 @@ export default function ClientBookPage() {
     setError(null);
 
     try {
-      await bookingMutation.mutateAsync({
+      const result = await bookingMutation.mutateAsync({
         serviceId: selectedService.id,
         trainerId: selectedTrainerId,
         scheduledAt: selectedDate.toISOString(),
+        intakeAnswers: toIntakeAnswerInputs(intakeAnswers),
       });
-      router.push('/client/bookings?booked=true');
+      router.push(result.type === 'waitlist' ? '/client/bookings?waitlisted=true' : '/client/bookings?booked=true');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
     }
@@ -336,7 +341,7 @@ export default function ClientBookPage() {
             </h2>
             <TimeSlotPicker
               selectedTrainer={selectedTrainer}
-              serviceDuration={selectedService.duration}
+              serviceId={selectedService.id}
               onSelectSlot={handleTimeSlotSelect}
               selectedDate={selectedDate}
               selectedTime={selectedTime}
@@ -355,6 +360,11 @@ export default function ClientBookPage() {
             onBack={handleBack}
             isSubmitting={bookingMutation.isPending}
             error={error}
+            intakeQuestions={intakeQuestions}
+            intakeAnswers={intakeAnswers}
+            onIntakeAnswerChange={(questionId, answer) =>
+              setIntakeAnswers((prev) => ({ ...prev, [questionId]: answer }))
+            }
           />
         )}
       </div>
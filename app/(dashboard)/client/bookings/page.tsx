@@ -4,7 +4,18 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import { useUserStore } from '@/lib/stores/user-store';
-import { useClientBookings, useCancelClientBooking } from '@/lib/hooks/use-client-bookings';
+import {
+  useClientBookings,
+  useCancelClientBooking,
+  useRescheduleClientBooking,
+  useClientWaitlist,
+  useAcceptWaitlistOffer,
+  useLeaveWaitlist,
+  useClientBookingRequests,
+  useAcceptSuggestedTime,
+  useClientTimeProposals,
+  useAcceptTimeProposal,
+} from '@/lib/hooks/use-client-bookings';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,6 +28,8 @@ import {
   AlertTriangle,
   CheckCircle2,
   XCircle,
+  ListOrdered,
+  CalendarClock,
 } from 'lucide-react';
 import { format, isPast, isToday, isTomorrow, formatDistanceToNow } from 'date-fns';
 import {
@@ -28,16 +41,42 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import ContentHeader from '@/components/shared/ContentHeader';
-import type { ClientBooking } from '@/lib/hooks/use-client-bookings';
+import { TimeSlotPicker } from '@/components/client/booking/TimeSlotPicker';
+import type {
+  ClientBooking,
+  ClientWaitlistEntry,
+  ClientBookingRequest,
+  BookingTimeProposal,
+} from '@/lib/hooks/use-client-bookings';
 
 export default function ClientBookingsPage() {
   const { currentUser } = useUserStore();
   const searchParams = useSearchParams();
   const { data: bookings = [], isLoading, error: queryError, refetch } = useClientBookings(currentUser?.id);
   const cancelMutation = useCancelClientBooking();
+  const { data: waitlist = [] } = useClientWaitlist(currentUser?.id);
+  const acceptOfferMutation = useAcceptWaitlistOffer();
+  const leaveWaitlistMutation = useLeaveWaitlist();
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
+  const { data: counteredRequests = [] } = useClientBookingRequests(currentUser?.id);
+  const acceptSuggestedMutation = useAcceptSuggestedTime();
+  const [suggestedError, setSuggestedError] = useState<string | null>(null);
+  // Set when arriving from the "suggested new times" email link
+  const highlightedRequestId = searchParams.get('request');
+  const { data: timeProposals = [] } = useClientTimeProposals(currentUser?.id);
+  const acceptProposalMutation = useAcceptTimeProposal();
+  const [proposalError, setProposalError] = useState<string | null>(null);
+  // Set when arriving from the "trainer is away" email link
+  const highlightedProposalId = searchParams.get('proposal');
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<ClientBooking | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [showWaitlisted, setShowWaitlisted] = useState(false);
+  const rescheduleMutation = useRescheduleClientBooking();
+  const [rescheduleBooking, setRescheduleBooking] = useState<ClientBooking | null>(null);
+  const [rescheduleTime, setRescheduleTime] = useState<{ date: Date; time: string } | null>(null);
+  const [rescheduleError, setRescheduleError] = useState<string | null>(null);
+  const [showRescheduled, setShowRescheduled] = useState(false);
 
   const error = queryError ? 'Unable to load your bookings. Please try again.' : null;
 
@@ -49,8 +88,52 @@ export default function ClientBookingsPage() {
       const timer = setTimeout(() => setShowSuccess(false), 5000);
       return () => clearTimeout(timer);
     }
+    if (searchParams.get('waitlisted') === 'true') {
+      setShowWaitlisted(true);
+      const timer = setTimeout(() => setShowWaitlisted(false), 5000);
+      return () => clearTimeout(timer);
+    }
   }, [searchParams]);
 
+  const handleClaimOffer = async (entry: ClientWaitlistEntry) => {
+    setWaitlistError(null);
+    try {
+      await acceptOfferMutation.mutateAsync(entry.id);
+    } catch (err) {
+      setWaitlistError(err instanceof Error ? err.message : 'Failed to claim spot');
+    }
+  };
+
+  const handleAcceptSuggested = async (request: ClientBookingRequest, time: string) => {
+    setSuggestedError(null);
+    try {
+      await acceptSuggestedMutation.mutateAsync({ requestId: request.id, acceptedTime: time });
+      setShowSuccess(true);
+    } catch (err) {
+      setSuggestedError(err instanceof Error ? err.message : 'Failed to book this time');
+    }
+  };
+
+  const handleAcceptProposal = async (proposal: BookingTimeProposal, time: string) => {
+    setProposalError(null);
+    try {
+      await acceptProposalMutation.mutateAsync({ proposalId: proposal.id, acceptedTime: time });
+      setShowRescheduled(true);
+      setTimeout(() => setShowRescheduled(false), 5000);
+    } catch (err) {
+      setProposalError(err instanceof Error ? err.message : 'Failed to move to this time');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: ClientWaitlistEntry) => {
+    setWaitlistError(null);
+    try {
+      await leaveWaitlistMutation.mutateAsync(entry.id);
+    } catch (err) {
+      setWaitlistError(err instanceof Error ? err.message : 'Failed to leave waitlist');
+    }
+  };
+
   const handleCancelClick = (booking: ClientBooking) => {
     setSelectedBooking(booking);
     setCancelDialogOpen(true);
@@ -66,6 +149,28 @@ export default function ClientBookingsPage() {
     }
   };
 
+  const handleRescheduleClick = (booking: ClientBooking) => {
+    setRescheduleBooking(booking);
+    setRescheduleTime(null);
+    setRescheduleError(null);
+  };
+
+  const handleConfirmReschedule = async () => {
+    if (!rescheduleBooking || !rescheduleTime) return;
+    setRescheduleError(null);
+    try {
+      await rescheduleMutation.mutateAsync({
+        bookingId: rescheduleBooking.id,
+        scheduledAt: rescheduleTime.date.toISOString(),
+      });
+      setRescheduleBooking(null);
+      setShowRescheduled(true);
+      setTimeout(() => setShowRescheduled(false), 5000);
+    } catch (err) {
+      setRescheduleError(err instanceof Error ? err.message : 'Failed to reschedule booking');
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -162,6 +267,24 @@ export default function ClientBookingsPage() {
         </div>
       )}
 
+      {showRescheduled && (
+        <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center gap-3">
+          <CalendarClock className="text-green-600 dark:text-green-400" size={20} />
+          <p className="text-green-700 dark:text-green-300 font-medium">
+            Your session has been moved. We&apos;ve let your trainer know.
+          </p>
+        </div>
+      )}
+
+      {showWaitlisted && (
+        <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg flex items-center gap-3">
+          <ListOrdered className="text-amber-600 dark:text-amber-400" size={20} />
+          <p className="text-amber-700 dark:text-amber-300 font-medium">
+            That time was full, so you&apos;ve joined the waitlist. We&apos;ll let you know if a place opens up.
+          </p>
+        </div>
+      )}
+
       {/* Book New Session Button */}
       <div className="mb-6">
         <Link href="/client/book">
@@ -172,6 +295,113 @@ export default function ClientBookingsPage() {
         </Link>
       </div>
 
+      {/* Alternative times suggested by the trainer */}
+      {counteredRequests.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-heading-2 dark:text-gray-100 mb-4">
+            Suggested Times ({counteredRequests.length})
+          </h2>
+          {suggestedError && (
+            <p className="mb-3 text-sm text-red-600 dark:text-red-400">{suggestedError}</p>
+          )}
+          <div className="space-y-3">
+            {counteredRequests.map((request: ClientBookingRequest) => (
+              <Card
+                key={request.id}
+                className={
+                  request.id === highlightedRequestId
+                    ? 'border-2 border-wondrous-blue'
+                    : 'border-2 border-amber-300 dark:border-amber-700'
+                }
+              >
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2 mb-1">
+                    <CalendarClock size={16} className="text-amber-600 dark:text-amber-400" />
+                    <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                      {request.serviceName}
+                    </h3>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    {request.trainerName} couldn&apos;t make your preferred times. Pick one of these to book it:
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {request.suggestedTimes.map((time) => (
+                      <Button
+                        key={time}
+                        size="sm"
+                        variant="outline"
+                        className="border-wondrous-blue text-wondrous-blue hover:bg-wondrous-blue hover:text-white"
+                        onClick={() => handleAcceptSuggested(request, time)}
+                        disabled={acceptSuggestedMutation.isPending}
+                      >
+                        {getDateLabel(new Date(time))} at {format(new Date(time), 'h:mm a')}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Offered until {format(new Date(request.expiresAt), 'EEE d MMM, h:mm a')}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* New times offered while the trainer is away */}
+      {timeProposals.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-heading-2 dark:text-gray-100 mb-4">
+            Choose a New Time ({timeProposals.length})
+          </h2>
+          {proposalError && (
+            <p className="mb-3 text-sm text-red-600 dark:text-red-400">{proposalError}</p>
+          )}
+          <div className="space-y-3">
+            {timeProposals.map((proposal: BookingTimeProposal) => (
+              <Card
+                key={proposal.id}
+                className={
+                  proposal.id === highlightedProposalId
+                    ? 'border-2 border-wondrous-blue'
+                    : 'border-2 border-amber-300 dark:border-amber-700'
+                }
+              >
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2 mb-1">
+                    <CalendarClock size={16} className="text-amber-600 dark:text-amber-400" />
+                    <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                      {proposal.serviceName}
+                    </h3>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    {proposal.trainerName} is away on {getDateLabel(new Date(proposal.currentTime))} at{' '}
+                    {format(new Date(proposal.currentTime), 'h:mm a')}. Pick one of these to move your session at no extra cost:
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {proposal.proposedTimes.map((time) => (
+                      <Button
+                        key={time}
+                        size="sm"
+                        variant="outline"
+                        className="border-wondrous-blue text-wondrous-blue hover:bg-wondrous-blue hover:text-white"
+                        onClick={() => handleAcceptProposal(proposal, time)}
+                        disabled={acceptProposalMutation.isPending}
+                      >
+                        {getDateLabel(new Date(time))} at {format(new Date(time), 'h:mm a')}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Offered until {format(new Date(proposal.expiresAt), 'EEE d MMM, h:mm a')}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Upcoming Bookings */}
       <div className="mb-8">
         <h2 className="text-heading-2 dark:text-gray-100 mb-4">
@@ -220,17 +450,29 @@ export default function ClientBookingsPage() {
                         </div>
                       </div>
 
-                      {canCancel && booking.status === 'confirmed' && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-red-600 border-red-200 hover:bg-red-50"
-                          onClick={() => handleCancelClick(booking)}
-                        >
-                          <X size={14} className="mr-1" />
-                          Cancel
-                        </Button>
-                      )}
+                      <div className="flex flex-col gap-2">
+                        {booking.canReschedule && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRescheduleClick(booking)}
+                          >
+                            <CalendarClock size={14} className="mr-1" />
+                            Reschedule
+                          </Button>
+                        )}
+                        {canCancel && booking.status === 'confirmed' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 border-red-200 hover:bg-red-50"
+                            onClick={() => handleCancelClick(booking)}
+                          >
+                            <X size={14} className="mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -252,6 +494,78 @@ export default function ClientBookingsPage() {
         )}
       </div>
 
+      {/* Waitlist */}
+      {waitlist.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-heading-2 dark:text-gray-100 mb-4">
+            Waitlist ({waitlist.length})
+          </h2>
+          {waitlistError && (
+            <p className="mb-3 text-sm text-red-600 dark:text-red-400">{waitlistError}</p>
+          )}
+          <div className="space-y-3">
+            {waitlist.map((entry: ClientWaitlistEntry) => {
+              const scheduledDate = new Date(entry.scheduledAt);
+              const isOffered = entry.status === 'offered';
+
+              return (
+                <Card
+                  key={entry.id}
+                  className={isOffered ? 'border-2 border-amber-300 dark:border-amber-700' : undefined}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                            {entry.serviceName}
+                          </h3>
+                          {isOffered ? (
+                            <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+                              Spot available
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">#{entry.position} in line</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {getDateLabel(scheduledDate)} at {format(scheduledDate, 'h:mm a')} · With {entry.trainerName}
+                        </p>
+                        {isOffered && entry.offerExpiresAt && (
+                          <p className="text-xs text-amber-700 dark:text-amber-400 mt-1">
+                            Held for you until {format(new Date(entry.offerExpiresAt), 'h:mm a')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {isOffered && (
+                          <Button
+                            size="sm"
+                            className="bg-wondrous-blue hover:bg-wondrous-blue/90"
+                            onClick={() => handleClaimOffer(entry)}
+                            disabled={acceptOfferMutation.isPending}
+                          >
+                            Claim Spot
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleLeaveWaitlist(entry)}
+                          disabled={leaveWaitlistMutation.isPending}
+                        >
+                          {isOffered ? 'Decline' : 'Leave'}
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Past Bookings */}
       {pastBookings.length > 0 && (
         <div>
@@ -285,6 +599,60 @@ export default function ClientBookingsPage() {
         </div>
       )}
 
+      {/* Reschedule Dialog */}
+      <Dialog open={!!rescheduleBooking} onOpenChange={(open) => !open && setRescheduleBooking(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Reschedule Session</DialogTitle>
+            <DialogDescription>
+              {rescheduleBooking && (
+                <>
+                  {rescheduleBooking.serviceName} with {rescheduleBooking.trainerName}, currently{' '}
+                  {format(new Date(rescheduleBooking.scheduledAt), 'EEEE, MMMM d')} at{' '}
+                  {format(new Date(rescheduleBooking.scheduledAt), 'h:mm a')}. Pick a new time below.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {rescheduleBooking?.serviceId && rescheduleBooking.trainerId && (
+            <TimeSlotPicker
+              selectedTrainer={{ id: rescheduleBooking.trainerId }}
+              serviceId={rescheduleBooking.serviceId}
+              onSelectSlot={(date, time) => setRescheduleTime({ date, time })}
+              selectedDate={rescheduleTime?.date ?? null}
+              selectedTime={rescheduleTime?.time ?? null}
+              excludeBookingId={rescheduleBooking.id}
+            />
+          )}
+
+          {rescheduleError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{rescheduleError}</p>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRescheduleBooking(null)}
+              disabled={rescheduleMutation.isPending}
+            >
+              Keep Current Time
+            </Button>
+            <Button
+              className="bg-wondrous-blue hover:bg-wondrous-blue/90"
+              onClick={handleConfirmReschedule}
+              disabled={!rescheduleTime || rescheduleMutation.isPending}
+            >
+              {rescheduleMutation.isPending
+                ? 'Moving...'
+                : rescheduleTime
+                  ? `Move to ${format(rescheduleTime.date, 'EEE d MMM')}, ${format(rescheduleTime.date, 'h:mm a')}`
+                  : 'Choose a Time'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Cancel Confirmation Dialog */}
       <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
         <DialogContent>
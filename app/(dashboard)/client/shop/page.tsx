@@ -1,13 +1,22 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { PackageCard } from '@/components/client/shop/PackageCard';
 import { OfferCard } from '@/components/client/shop/OfferCard';
+import { MembershipCard } from '@/components/client/shop/MembershipCard';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Package, Gift, ShoppingBag, Loader2, AlertCircle, Lock, Shield } from 'lucide-react';
+import { Package, Gift, ShoppingBag, Loader2, AlertCircle, Lock, Shield, Repeat } from 'lucide-react';
 import { useToast } from '@/lib/hooks/use-toast';
-import { useShopPackages, useShopOffers, useClaimShopItem } from '@/lib/hooks/use-shop';
+import {
+  useShopPackages,
+  useShopOffers,
+  useShopMemberships,
+  useClaimShopItem,
+  useShopCheckout,
+  useCancelMembership,
+} from '@/lib/hooks/use-shop';
 import { useClientPackages } from '@/lib/hooks/use-client-bookings';
 import { useUserStore } from '@/lib/stores/user-store';
 
@@ -15,12 +24,33 @@ export default function ClientShopPage() {
   const { currentUser } = useUserStore();
   const { data: packages = [], isLoading: packagesLoading } = useShopPackages();
   const { data: offers = [], isLoading: offersLoading } = useShopOffers();
+  const { data: membershipData, isLoading: membershipsLoading } = useShopMemberships();
   const { data: packageData } = useClientPackages(currentUser?.id);
   const claimMutation = useClaimShopItem();
-  const loading = packagesLoading || offersLoading;
+  const checkoutMutation = useShopCheckout();
+  const cancelMembershipMutation = useCancelMembership();
+  const searchParams = useSearchParams();
+  const loading = packagesLoading || offersLoading || membershipsLoading;
   const [claimingId, setClaimingId] = useState<string | null>(null);
   const { toast } = useToast();
 
+  // Back from Stripe Checkout; credits arrive once the payment is confirmed
+  useEffect(() => {
+    const purchase = searchParams.get('purchase');
+    if (purchase === 'success') {
+      toast({ title: 'Payment received', description: 'Your credits will appear in your account shortly.' });
+    } else if (purchase === 'cancelled') {
+      toast({ title: 'Checkout cancelled', description: 'You have not been charged.' });
+    }
+
+    const membership = searchParams.get('membership');
+    if (membership === 'success') {
+      toast({ title: 'Welcome aboard', description: "Your membership credits will appear once the first payment is confirmed." });
+    } else if (membership === 'cancelled') {
+      toast({ title: 'Checkout cancelled', description: 'You have not been charged.' });
+    }
+  }, [searchParams, toast]);
+
   const credits = packageData?.totalCredits ?? null;
   const isLowCredits = credits !== null && credits <= 2;
 
@@ -56,6 +86,44 @@ export default function ClientShopPage() {
     }
   };
 
+  const handleBuy = async (type: 'package' | 'offer' | 'membership', id: string) => {
+    setClaimingId(id);
+    try {
+      // Redirects to Stripe on success, so the spinner stays until the page unloads
+      await checkoutMutation.mutateAsync({ type, id });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start checkout',
+        variant: 'destructive',
+      });
+      setClaimingId(null);
+    }
+  };
+
+  const handleCancelMembership = async (membershipId: string) => {
+    if (!window.confirm('Cancel your membership? You keep your sessions until the end of the current period.')) return;
+    setClaimingId(membershipId);
+    try {
+      await cancelMembershipMutation.mutateAsync(membershipId);
+      toast({ title: 'Membership cancelled', description: 'It ends at the end of the current period.' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to cancel membership',
+        variant: 'destructive',
+      });
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const membershipPlans = membershipData?.plans || [];
+  const memberships = membershipData?.memberships || [];
+  const failingMembership = memberships.find((m) => m.status === 'past_due' || m.status === 'unpaid');
+  // Memberships on plans that have since been withdrawn still need showing
+  const orphanMemberships = memberships.filter((m) => !membershipPlans.some((p) => p.id === m.planId));
+
   const freePackages = packages.filter((p) => p.isFree);
   const paidPackages = packages.filter((p) => !p.isFree);
   const freeOffers = offers.filter((o) => o.isFree);
@@ -73,7 +141,39 @@ export default function ClientShopPage() {
     );
   }
 
-  const hasItems = packages.length > 0 || offers.length > 0;
+  const hasItems = packages.length > 0 || offers.length > 0 || membershipPlans.length > 0 || memberships.length > 0;
+
+  const membershipCards = (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {orphanMemberships.map((m) => (
+        <MembershipCard
+          key={m.id}
+          id={m.planId}
+          name={m.planName}
+          priceCents={m.priceCents}
+          interval={m.interval}
+          creditsPerPeriod={m.creditsPerPeriod}
+          membership={m}
+          onJoin={(id) => handleBuy('membership', id)}
+          onCancel={handleCancelMembership}
+          isLoading={claimingId === m.id}
+        />
+      ))}
+      {membershipPlans.map((plan) => {
+        const membership = memberships.find((m) => m.planId === plan.id);
+        return (
+          <MembershipCard
+            key={plan.id}
+            {...plan}
+            membership={membership}
+            onJoin={(id) => handleBuy('membership', id)}
+            onCancel={handleCancelMembership}
+            isLoading={claimingId === plan.id || (!!membership && claimingId === membership.id)}
+          />
+        );
+      })}
+    </div>
+  );
 
   return (
     <div className="p-4 lg:p-8 max-w-7xl mx-auto pb-24 lg:pb-8">
@@ -99,6 +199,38 @@ export default function ClientShopPage() {
         </div>
       )}
 
+      {/* Failed Membership Payment Banner */}
+      {failingMembership && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-red-100 dark:bg-red-900/40 flex items-center justify-center shrink-0">
+              <AlertCircle className="text-red-600 dark:text-red-400" size={20} />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-red-800 dark:text-red-300">
+                Your {failingMembership.planName} payment didn&apos;t go through
+              </p>
+              <p className="text-xs text-red-600 dark:text-red-400">
+                Booking is paused until it&apos;s paid.
+                {failingMembership.latestInvoiceUrl && (
+                  <>
+                    {' '}
+                    <a
+                      href={failingMembership.latestInvoiceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium underline"
+                    >
+                      Pay now or update your card
+                    </a>
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {!hasItems ? (
         <Card className="p-8 text-center">
           <ShoppingBag className="mx-auto mb-4 text-gray-400" size={48} />
@@ -121,9 +253,23 @@ export default function ClientShopPage() {
               <Gift size={14} className="mr-1.5" />
               Offers ({offers.length})
             </TabsTrigger>
+            <TabsTrigger value="memberships">
+              <Repeat size={14} className="mr-1.5" />
+              Memberships ({membershipPlans.length + orphanMemberships.length})
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="all" className="space-y-8">
+            {/* Memberships Section */}
+            {(membershipPlans.length > 0 || orphanMemberships.length > 0) && (
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                  Memberships
+                </h2>
+                {membershipCards}
+              </div>
+            )}
+
             {/* Free Items Section */}
             {(freePackages.length > 0 || freeOffers.length > 0) && (
               <div>
@@ -137,6 +283,7 @@ export default function ClientShopPage() {
                       key={pkg.id}
                       {...pkg}
                       onClaim={handleClaimPackage}
+                      onBuy={(id) => handleBuy('package', id)}
                       isLoading={claimingId === pkg.id}
                     />
                   ))}
@@ -145,6 +292,7 @@ export default function ClientShopPage() {
                       key={offer.id}
                       {...offer}
                       onClaim={handleClaimOffer}
+                      onBuy={(id) => handleBuy('offer', id)}
                       isLoading={claimingId === offer.id}
                     />
                   ))}
@@ -164,6 +312,7 @@ export default function ClientShopPage() {
                       key={pkg.id}
                       {...pkg}
                       onClaim={handleClaimPackage}
+                      onBuy={(id) => handleBuy('package', id)}
                       isLoading={claimingId === pkg.id}
                     />
                   ))}
@@ -172,6 +321,7 @@ export default function ClientShopPage() {
                       key={offer.id}
                       {...offer}
                       onClaim={handleClaimOffer}
+                      onBuy={(id) => handleBuy('offer', id)}
                       isLoading={claimingId === offer.id}
                     />
                   ))}
@@ -193,6 +343,7 @@ export default function ClientShopPage() {
                     key={pkg.id}
                     {...pkg}
                     onClaim={handleClaimPackage}
+                    onBuy={(id) => handleBuy('package', id)}
                     isLoading={claimingId === pkg.id}
                   />
                 ))}
@@ -213,12 +364,24 @@ export default function ClientShopPage() {
                     key={offer.id}
                     {...offer}
                     onClaim={handleClaimOffer}
+                    onBuy={(id) => handleBuy('offer', id)}
                     isLoading={claimingId === offer.id}
                   />
                 ))}
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="memberships">
+            {membershipPlans.length === 0 && orphanMemberships.length === 0 ? (
+              <Card className="p-8 text-center">
+                <Repeat className="mx-auto mb-4 text-gray-400" size={48} />
+                <p className="text-gray-500">No memberships available</p>
+              </Card>
+            ) : (
+              membershipCards
+            )}
+          </TabsContent>
         </Tabs>
       )}
 
@@ -13,12 +13,18 @@ import {
   User, Bell, Shield, Palette, LogOut, Building2, Heart, CheckCircle2,
   AlertCircle, CalendarClock, Users, Lock, Loader2, Save,
   ListCheck, Plug, MessageSquare, Trash2, ChevronRight, AlertTriangle,
-  Scale, CreditCard, ExternalLink, FileText,
+  Scale, CreditCard, ExternalLink, FileText, MapPin, DoorOpen, CalendarDays, CalendarOff,
 } from 'lucide-react';
 import ContentHeader from '@/components/shared/ContentHeader';
 import { LogoUpload } from '@/components/shared/LogoUpload';
+import { LocationManager } from '@/components/studio-owner/LocationManager';
+import { ResourceManager } from '@/components/studio-owner/ResourceManager';
+import { CalendarFeedLink } from '@/components/shared/CalendarFeedLink';
+import { CalendarConnectionManager } from '@/components/shared/CalendarConnectionManager';
+import { LeaveRequestManager } from '@/components/shared/LeaveRequestManager';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils/cn';
+import { DEFAULT_TIMEZONE } from '@/lib/utils/timezone';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -34,6 +40,8 @@ interface ProfileData {
   business_slug: string;
   role: string;
   business_logo_url: string | null;
+  travel_buffer_minutes?: number;
+  timezone?: string | null;
 }
 
 interface CancellationPolicyData {
@@ -41,9 +49,12 @@ interface CancellationPolicyData {
   booking_cutoff_minutes?: number;
   buffer_minutes?: number;
   no_show_policy?: string;
+  no_show_action?: 'charge_full' | 'charge_partial' | 'no_charge';
+  no_show_undo_hours?: number;
   late_cancel_fee_percent?: number;
   late_cancel_fee_amount?: number;
   grace_period_minutes?: number;
+  max_reschedules?: number;
 }
 
 interface ClientTermsData {
@@ -61,6 +72,7 @@ interface StudioData {
   opening_hours: Record<string, { enabled: boolean; slots: { start: string; end: string }[] }>;
   session_types: string[] | null;
   client_terms: ClientTermsData | null;
+  timezone: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -120,18 +132,22 @@ const TABS: SettingsTab[] = [
   // Group 2: Communications
   { id: 'waitlist', label: 'Waitlist', icon: <ListCheck size={18} />, roles: ['solo_practitioner', 'studio_owner'], group: 2 },
   { id: 'notifications', label: 'Notifications', icon: <Bell size={18} />, roles: [], group: 2 },
+  { id: 'calendar_feed', label: 'Calendar Subscription', icon: <CalendarDays size={18} />, roles: [], group: 2 },
+  { id: 'time_off', label: 'Time Off', icon: <CalendarOff size={18} />, roles: ['solo_practitioner', 'studio_owner', 'studio_manager', 'trainer'], group: 2 },
+  { id: 'integrations', label: 'Integrations', icon: <Plug size={18} />, roles: ['solo_practitioner', 'studio_owner', 'trainer'], group: 2 },
   { id: 'appearance', label: 'Appearance', icon: <Palette size={18} />, roles: [], group: 2 },
   // Group 3: Legal & Management
   { id: 'legal', label: 'Legal & Compliance', icon: <Scale size={18} />, roles: ['solo_practitioner', 'studio_owner'], group: 3 },
   { id: 'privacy', label: 'Privacy & Security', icon: <Shield size={18} />, roles: [], group: 3 },
   { id: 'staff', label: 'Staff Management', icon: <Users size={18} />, roles: ['studio_owner'], group: 3 },
+  { id: 'locations', label: 'Locations', icon: <MapPin size={18} />, roles: ['studio_owner'], group: 3 },
+  { id: 'resources', label: 'Rooms & Equipment', icon: <DoorOpen size={18} />, roles: ['studio_owner'], group: 3 },
   { id: 'health', label: 'Health & Safety', icon: <Heart size={18} />, roles: ['client'], group: 3 },
   // Group 4: Danger
   { id: 'danger', label: 'Danger Zone', icon: <Trash2 size={18} />, roles: [], group: 4 },
 ];
 
 const COMING_SOON_TABS: SettingsTab[] = [
-  { id: 'integrations', label: 'Integrations', icon: <Plug size={18} />, roles: ['solo_practitioner', 'studio_owner'] },
   { id: 'sms', label: 'SMS Reminders', icon: <MessageSquare size={18} />, roles: ['solo_practitioner', 'studio_owner'] },
 ];
 
@@ -151,6 +167,9 @@ const DAY_NAMES: Record<string, string> = {
 
 const DAY_ORDER = ['1', '2', '3', '4', '5', '6', '0'];
 
+const TIMEZONES: string[] =
+  typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [DEFAULT_TIMEZONE];
+
 // ---------------------------------------------------------------------------
 // Brand colour presets
 // ---------------------------------------------------------------------------
@@ -227,6 +246,8 @@ export default function SettingsPage() {
     phone: '',
     bio: '',
     email: '',
+    travel_buffer_minutes: 0,
+    timezone: '',
   });
 
   const [emailConfirmationMessage, setEmailConfirmationMessage] = useState(false);
@@ -236,6 +257,7 @@ export default function SettingsPage() {
   });
 
   const [openingHours, setOpeningHours] = useState<StudioData['opening_hours']>({});
+  const [studioTimezone, setStudioTimezone] = useState(DEFAULT_TIMEZONE);
   const [clientTerms, setClientTerms] = useState<ClientTermsData>({ active: false, content: '', version: 1 });
   const [clientTermsDirty, setClientTermsDirty] = useState(false);
   const [savingTerms, setSavingTerms] = useState(false);
@@ -251,8 +273,11 @@ export default function SettingsPage() {
     booking_cutoff_hours: 2,
     buffer_minutes: 15,
     no_show_policy: '',
+    no_show_action: 'no_charge',
+    no_show_undo_hours: 24,
     late_cancel_fee_percent: 0,
     grace_period_minutes: 10,
+    max_reschedules: 2,
   });
 
   const [waitlistForm, setWaitlistForm] = useState({
@@ -283,6 +308,8 @@ export default function SettingsPage() {
         phone: profile.phone || '',
         bio: profile.bio || '',
         email: currentUser.email || '',
+        travel_buffer_minutes: profile.travel_buffer_minutes ?? 0,
+        timezone: profile.timezone || '',
       });
       setBusinessForm({
         business_name: profile.business_name || '',
@@ -296,6 +323,7 @@ export default function SettingsPage() {
   useEffect(() => {
     if (studio) {
       setOpeningHours(studio.opening_hours || {});
+      setStudioTimezone(studio.timezone || DEFAULT_TIMEZONE);
       const model = studio.booking_model || 'instant';
       const isSelfBooking = model !== 'request';
       setBookingForm({
@@ -307,11 +335,16 @@ export default function SettingsPage() {
       const cp = studio.cancellation_policy;
       if (cp) {
         setPolicyForm({
+          // Keep fields this form doesn't edit (e.g. refund tiers from onboarding)
+          ...cp,
           booking_cutoff_hours: cp.booking_cutoff_hours ?? 2,
           buffer_minutes: cp.buffer_minutes ?? 15,
           no_show_policy: cp.no_show_policy ?? '',
+          no_show_action: cp.no_show_action ?? 'no_charge',
+          no_show_undo_hours: cp.no_show_undo_hours ?? 24,
           late_cancel_fee_percent: cp.late_cancel_fee_percent ?? 0,
           grace_period_minutes: cp.grace_period_minutes ?? 10,
+          max_reschedules: cp.max_reschedules ?? 2,
         });
       }
       setWaitlistForm({
@@ -365,7 +398,7 @@ export default function SettingsPage() {
   const handleSaveBusiness = () => {
     profileMutation.mutate({ business_name: businessForm.business_name });
     if (isOperator) {
-      studioMutation.mutate({ opening_hours: openingHours });
+      studioMutation.mutate({ opening_hours: openingHours, timezone: studioTimezone });
     }
   };
 
@@ -601,6 +634,33 @@ export default function SettingsPage() {
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Fixed amount charged for late cancellations (e.g. &pound;10)</p>
             </div>
+            <div>
+              <Label htmlFor="maxReschedules">Client Reschedules per Booking</Label>
+              <Input id="maxReschedules" type="number" min={0} max={10} value={policyForm.max_reschedules ?? 2} onChange={(e) => setPolicyForm((f) => ({ ...f, max_reschedules: parseInt(e.target.value) || 0 }))} className="mt-1 w-full" />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Times a client can move a booking themselves, outside the cancellation window (0 to turn off)</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="noShowAction">No-Show Charge</Label>
+              <select
+                id="noShowAction"
+                value={policyForm.no_show_action ?? 'no_charge'}
+                onChange={(e) => setPolicyForm((f) => ({ ...f, no_show_action: e.target.value as CancellationPolicyData['no_show_action'] }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="charge_full">Charge full session</option>
+                <option value="charge_partial">Charge 50% (rounded down)</option>
+                <option value="no_charge">No charge</option>
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Applied automatically when a client isn&apos;t checked in by the end of the grace period</p>
+            </div>
+            <div>
+              <Label htmlFor="noShowUndo">No-Show Undo Window (hours)</Label>
+              <Input id="noShowUndo" type="number" min={0} max={168} value={policyForm.no_show_undo_hours ?? 24} onChange={(e) => setPolicyForm((f) => ({ ...f, no_show_undo_hours: parseInt(e.target.value) || 0 }))} className="mt-1 w-full" />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Time you have to undo a no-show before the charge is final</p>
+            </div>
           </div>
 
           <div>
@@ -656,6 +716,26 @@ export default function SettingsPage() {
             <Label htmlFor="phone">Phone Number</Label>
             <Input id="phone" type="tel" value={profileForm.phone} onChange={(e) => setProfileForm((p) => ({ ...p, phone: e.target.value }))} placeholder="+44 7700 900000" className="mt-1" />
           </div>
+          <div>
+            <Label htmlFor="travelBuffer">Travel Time Between Locations (min)</Label>
+            <Input id="travelBuffer" type="number" min={0} max={120} value={profileForm.travel_buffer_minutes} onChange={(e) => setProfileForm((p) => ({ ...p, travel_buffer_minutes: parseInt(e.target.value) || 0 }))} className="mt-1 w-full" />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Added between back-to-back sessions at different locations</p>
+          </div>
+          <div>
+            <Label htmlFor="trainerTimezone">Your Timezone</Label>
+            <select
+              id="trainerTimezone"
+              value={profileForm.timezone}
+              onChange={(e) => setProfileForm((p) => ({ ...p, timezone: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+            >
+              <option value="">Same as studio</option>
+              {(!profileForm.timezone || TIMEZONES.includes(profileForm.timezone) ? TIMEZONES : [profileForm.timezone, ...TIMEZONES]).map((tz) => (
+                <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Set this if you work in a different timezone from your studio</p>
+          </div>
           <div>
             <Label htmlFor="bio">Bio</Label>
             <textarea id="bio" value={profileForm.bio} onChange={(e) => setProfileForm((p) => ({ ...p, bio: e.target.value }))} placeholder="Tell your clients a bit about yourself..." rows={3} className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-wondrous-primary dark:bg-gray-700 dark:text-gray-100" />
@@ -731,6 +811,22 @@ export default function SettingsPage() {
             ))}
           </div>
 
+          {/* Timezone */}
+          <div>
+            <Label htmlFor="studioTimezone" className="text-base font-semibold">Timezone</Label>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">Opening hours, availability and client notifications use this timezone</p>
+            <select
+              id="studioTimezone"
+              value={studioTimezone}
+              onChange={(e) => setStudioTimezone(e.target.value)}
+              className="w-full max-w-xs px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+            >
+              {(TIMEZONES.includes(studioTimezone) ? TIMEZONES : [studioTimezone, ...TIMEZONES]).map((tz) => (
+                <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Opening Hours */}
           <div>
             <Label className="text-base font-semibold">Opening Hours</Label>
@@ -769,16 +865,16 @@ export default function SettingsPage() {
 
   const renderWaitlist = () => (
     <div className="space-y-6">
-      <SectionHeader icon={<ListCheck size={20} />} title="Waitlist" subtitle="Manage waitlist for fully-booked group classes" color="bg-cyan-100 dark:bg-cyan-900/30" iconColor="text-cyan-600 dark:text-cyan-400" />
+      <SectionHeader icon={<ListCheck size={20} />} title="Waitlist" subtitle="Manage waitlist for fully-booked sessions and group classes" color="bg-cyan-100 dark:bg-cyan-900/30" iconColor="text-cyan-600 dark:text-cyan-400" />
       {studioLoading ? <LoadingSpinner /> : (
         <div className="space-y-4">
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-sm text-blue-700 dark:text-blue-300">
-            Waitlist is available for group classes only. When a group class reaches capacity, clients can join a waitlist and will be notified if a spot opens up.
+            When a session is already booked or a group class reaches capacity, clients join the waitlist. If a spot opens up, the next person is offered a soft-hold for your soft-hold length and notified by email and SMS.
           </div>
           <div className="flex items-center justify-between py-2">
             <div>
               <p className="font-medium text-gray-900 dark:text-gray-100">Enable Waitlist</p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Allow clients to join a waitlist for full group classes</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Allow clients to join a waitlist for full sessions and group classes</p>
             </div>
             <ToggleSwitch checked={waitlistForm.enabled} onChange={(v) => setWaitlistForm((f) => ({ ...f, enabled: v }))} />
           </div>
@@ -985,6 +1081,50 @@ export default function SettingsPage() {
     </div>
   );
 
+  const renderLocations = () => (
+    <div className="space-y-6">
+      <SectionHeader icon={<MapPin size={20} />} title="Locations" subtitle="Sites your studio runs from, with their rooms and opening hours" color="bg-emerald-100 dark:bg-emerald-900/30" iconColor="text-emerald-600 dark:text-emerald-400" />
+      <LocationManager />
+    </div>
+  );
+
+  const renderResources = () => (
+    <div className="space-y-6">
+      <SectionHeader icon={<DoorOpen size={20} />} title="Rooms & Equipment" subtitle="Shared resources that can only be used by one session at a time" color="bg-orange-100 dark:bg-orange-900/30" iconColor="text-orange-600 dark:text-orange-400" />
+      <ResourceManager />
+    </div>
+  );
+
+  const renderCalendarFeed = () => (
+    <div className="space-y-6">
+      <SectionHeader icon={<CalendarDays size={20} />} title="Calendar Subscription" subtitle="See your bookings in the calendar app you already use" color="bg-blue-100 dark:bg-blue-900/30" iconColor="text-blue-600 dark:text-blue-400" />
+      <CalendarFeedLink
+        description={isClient ? 'Add your sessions to Google, Apple or Outlook Calendar' : 'Add the sessions you run to Google, Apple or Outlook Calendar'}
+      />
+      {currentRole === 'studio_owner' && (
+        <CalendarFeedLink
+          scope="studio"
+          title="Studio Calendar"
+          description="Every trainer's sessions in one subscription"
+        />
+      )}
+    </div>
+  );
+
+  const renderTimeOff = () => (
+    <div className="space-y-6">
+      <SectionHeader icon={<CalendarOff size={20} />} title="Time Off" subtitle="Request leave and keep those days free of bookings" color="bg-teal-100 dark:bg-teal-900/30" iconColor="text-teal-600 dark:text-teal-400" />
+      <LeaveRequestManager canManageBookings={currentRole === 'solo_practitioner'} />
+    </div>
+  );
+
+  const renderIntegrations = () => (
+    <div className="space-y-6">
+      <SectionHeader icon={<Plug size={20} />} title="Integrations" subtitle="Keep your bookings and personal calendar in step" color="bg-indigo-100 dark:bg-indigo-900/30" iconColor="text-indigo-600 dark:text-indigo-400" />
+      <CalendarConnectionManager />
+    </div>
+  );
+
   const renderHealth = () => (
     <div className="space-y-6">
       <SectionHeader icon={<Heart size={20} />} title="Health & Safety" subtitle="Your PAR-Q health questionnaire status" color="bg-blue-100 dark:bg-blue-900/30" iconColor="text-blue-600 dark:text-blue-400" />
@@ -1206,7 +1346,6 @@ export default function SettingsPage() {
         </div>
         <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Coming Soon</h3>
         <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm">
-          {tab.id === 'integrations' && 'Google Calendar, WhatsApp, and Zapier integrations are on the way.'}
           {tab.id === 'sms' && 'Automated SMS reminders for upcoming sessions.'}
         </p>
       </div>
@@ -1223,7 +1362,12 @@ export default function SettingsPage() {
     waitlist: renderWaitlist,
     legal: renderLegal,
     staff: renderStaff,
+    locations: renderLocations,
+    resources: renderResources,
     health: renderHealth,
+    calendar_feed: renderCalendarFeed,
+    time_off: renderTimeOff,
+    integrations: renderIntegrations,
     notifications: renderNotifications,
     appearance: renderAppearance,
     privacy: renderPrivacy,
@@ -48,6 +48,7 @@ import { InviteClientDialog } from '@/components/studio-owner/InviteClientDialog
 import { EditClientDialog } from '@/components/studio-owner/EditClientDialog';
 import { RewardCreditsDialog } from '@/components/studio-owner/RewardCreditsDialog';
 import { SendEmailDialog } from '@/components/shared/SendEmailDialog';
+import PaymentRefunds from '@/components/studio-owner/PaymentRefunds';
 import { format, formatDistanceToNow } from 'date-fns';
 import ContentHeader from '@/components/shared/ContentHeader';
 import { cn } from '@/lib/utils/cn';
@@ -1081,11 +1082,7 @@ export default function SoloClientsPage() {
               {clientDrawerTab === 'payments' && (
                 <div className="space-y-3">
                   <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">Payment History</h4>
-                  <div className="text-center py-8">
-                    <CreditCard className="mx-auto mb-2 text-gray-300 dark:text-gray-600" size={32} />
-                    <p className="text-sm text-gray-500 dark:text-gray-400">Coming soon</p>
-                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Payment history will appear here</p>
-                  </div>
+                  <PaymentRefunds clientId={selectedClient.id} showHeading={false} />
                 </div>
               )}
             </div>
@@ -44,6 +44,8 @@ import { EditClientDialog } from '@/components/studio-owner/EditClientDialog';
 import { RewardCreditsDialog } from '@/components/studio-owner/RewardCreditsDialog';
 import { SendEmailDialog } from '@/components/shared/SendEmailDialog';
 import BookingHistory from '@/components/studio-owner/BookingHistory';
+import ClientPackages from '@/components/studio-owner/ClientPackages';
+import PaymentRefunds from '@/components/studio-owner/PaymentRefunds';
 import { format } from 'date-fns';
 import ContentHeader from '@/components/shared/ContentHeader';
 import { cn } from '@/lib/utils/cn';
@@ -765,6 +767,16 @@ export default function ClientsPage() {
                         </div>
                       </div>
 
+                      {/* Packages */}
+                      <div className="mb-6">
+                        <ClientPackages clientId={selectedClient.id} />
+                      </div>
+
+                      {/* Payments */}
+                      <div className="mb-6">
+                        <PaymentRefunds clientId={selectedClient.id} />
+                      </div>
+
                       {/* Contact Actions */}
                       <div className="mb-6 space-y-2">
                         <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Contact</h4>
@@ -3,12 +3,17 @@
 import { DollarSign, TrendingUp, BarChart3 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import ContentHeader from '@/components/shared/ContentHeader';
+import { CreditReconciliationReport } from '@/components/studio-owner/CreditReconciliationReport';
 
 export default function StudioOwnerRevenuePage() {
   return (
     <div className="p-4 lg:p-8 max-w-7xl mx-auto">
       <ContentHeader context="Track your studio earnings and financial performance" />
 
+      <div className="mb-8">
+        <CreditReconciliationReport />
+      </div>
+
       <Card className="p-12 text-center">
         <CardContent className="space-y-4">
           <div className="w-16 h-16 mx-auto rounded-full bg-gradient-to-br from-green-100 to-emerald-100 dark:from-green-900/30 dark:to-emerald-900/30 flex items-center justify-center">
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useServices, useAddService, useUpdateService } from '@/lib/hooks/use-services';
 import { useCreditBundles, useSaveCreditBundle, useDeleteCreditBundle } from '@/lib/hooks/use-credit-bundles';
 import { useOffers, useSaveOffer, useDeleteOffer } from '@/lib/hooks/use-offers';
+import { useMembershipPlans, useSaveMembershipPlan } from '@/lib/hooks/use-memberships';
 import { useUserStore } from '@/lib/stores/user-store';
 import { Service, ServiceType } from '@/lib/types/service';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -27,11 +28,13 @@ import {
   CreditCard,
   Gift,
   Trash2,
+  Repeat,
   X,
 } from 'lucide-react';
 import ContentHeader from '@/components/shared/ContentHeader';
 import type { CreditBundle } from '@/lib/types/credit-bundle';
 import type { Offer } from '@/lib/hooks/use-offers';
+import { MEMBERSHIP_INTERVAL_LABELS, type MembershipInterval, type MembershipPlan } from '@/lib/types/membership';
 
 // Helper functions
 const getTypeIcon = (type: ServiceType) => {
@@ -90,6 +93,22 @@ export default function ServicesPage() {
     is_gift: false,
   });
 
+  // Memberships state
+  const { data: membershipPlans = [], isLoading: membershipsLoading } = useMembershipPlans();
+  const saveMembershipMutation = useSaveMembershipPlan();
+  const [showMembershipModal, setShowMembershipModal] = useState(false);
+  const [editingMembership, setEditingMembership] = useState<MembershipPlan | null>(null);
+  const [membershipError, setMembershipError] = useState<string | null>(null);
+  const [membershipForm, setMembershipForm] = useState({
+    name: '',
+    description: '',
+    price: 80,
+    interval: 'month' as MembershipInterval,
+    creditsPerPeriod: 8,
+    rolloverCap: 0,
+    unlimitedRollover: false,
+  });
+
   const activeServices = services.filter(s => s.isActive);
   const inactiveServices = services.filter(s => !s.isActive);
 
@@ -201,6 +220,57 @@ export default function ServicesPage() {
     deleteOfferMutation.mutate(offerId);
   };
 
+  // Membership handlers
+  const openMembershipModal = (plan?: MembershipPlan) => {
+    if (plan) {
+      setEditingMembership(plan);
+      setMembershipForm({
+        name: plan.name,
+        description: plan.description || '',
+        price: plan.priceCents / 100,
+        interval: plan.interval,
+        creditsPerPeriod: plan.creditsPerPeriod,
+        rolloverCap: plan.rolloverCap ?? 0,
+        unlimitedRollover: plan.rolloverCap === null,
+      });
+    } else {
+      setEditingMembership(null);
+      setMembershipForm({
+        name: '',
+        description: '',
+        price: 80,
+        interval: 'month',
+        creditsPerPeriod: 8,
+        rolloverCap: 0,
+        unlimitedRollover: false,
+      });
+    }
+    setMembershipError(null);
+    setShowMembershipModal(true);
+  };
+
+  const handleSaveMembership = async () => {
+    setMembershipError(null);
+    try {
+      await saveMembershipMutation.mutateAsync({
+        id: editingMembership?.id,
+        name: membershipForm.name,
+        description: membershipForm.description || null,
+        priceCents: Math.round(membershipForm.price * 100),
+        interval: membershipForm.interval,
+        creditsPerPeriod: membershipForm.creditsPerPeriod,
+        rolloverCap: membershipForm.unlimitedRollover ? null : membershipForm.rolloverCap,
+      });
+      setShowMembershipModal(false);
+    } catch (error) {
+      setMembershipError(error instanceof Error ? error.message : 'Failed to save membership');
+    }
+  };
+
+  const toggleMembershipStatus = (plan: MembershipPlan) => {
+    saveMembershipMutation.mutate({ id: plan.id, isActive: !plan.isActive });
+  };
+
   return (
     <div className="p-4 lg:p-8 max-w-7xl mx-auto pb-24 lg:pb-8">
       {/* Content Header */}
@@ -209,13 +279,14 @@ export default function ServicesPage() {
         stats={[
           { label: 'services', value: services.length, color: 'primary' },
           { label: 'packages', value: bundles.length, color: 'success' },
+          { label: 'memberships', value: membershipPlans.length, color: 'primary' },
           { label: 'offers', value: offers.length, color: 'magenta' },
         ]}
       />
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="mt-6">
-        <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:grid-cols-3 gap-1">
+        <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:grid-cols-4 gap-1">
           <TabsTrigger value="services" className="gap-2">
             <Clock size={16} className="hidden sm:inline" />
             Services
@@ -224,6 +295,10 @@ export default function ServicesPage() {
             <Package size={16} className="hidden sm:inline" />
             Packages
           </TabsTrigger>
+          <TabsTrigger value="memberships" className="gap-2">
+            <Repeat size={16} className="hidden sm:inline" />
+            Memberships
+          </TabsTrigger>
           <TabsTrigger value="offers" className="gap-2">
             <Gift size={16} className="hidden sm:inline" />
             Offers
@@ -373,6 +448,78 @@ export default function ServicesPage() {
           )}
         </TabsContent>
 
+        {/* Memberships Tab */}
+        <TabsContent value="memberships" className="mt-6">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100">Memberships</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Recurring plans that top up clients&apos; credits every period</p>
+            </div>
+            <Button onClick={() => openMembershipModal()} className="gap-2 bg-wondrous-magenta hover:bg-wondrous-magenta-dark">
+              <Plus size={18} />
+              <span className="hidden sm:inline">Create Membership</span>
+            </Button>
+          </div>
+
+          {membershipsLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-wondrous-blue border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : membershipPlans.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {membershipPlans.map((plan) => (
+                <Card key={plan.id} className={`hover:shadow-md transition-shadow dark:bg-gray-800 dark:border-gray-700 ${plan.isActive ? '' : 'opacity-60'}`}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center gap-2 mb-1.5">
+                      <Repeat className="w-5 h-5 text-wondrous-blue" />
+                      <CardTitle className="text-base dark:text-gray-100">{plan.name}</CardTitle>
+                    </div>
+                    {!plan.isActive && <Badge variant="secondary">Inactive</Badge>}
+                  </CardHeader>
+                  <CardContent className="py-3">
+                    <div className="space-y-2 mb-4">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Price</span>
+                        <span className="font-semibold text-wondrous-magenta">£{(plan.priceCents / 100).toFixed(2)} / {plan.interval}</span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Credits</span>
+                        <span className="font-semibold dark:text-gray-100">{plan.creditsPerPeriod} per {plan.interval}</span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Rollover</span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {plan.rolloverCap === null ? 'No limit' : plan.rolloverCap === 0 ? 'None' : `Up to ${plan.rolloverCap}`}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">Members</span>
+                        <span className="text-gray-500 dark:text-gray-400">{plan.activeMembers}</span>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openMembershipModal(plan)} className="flex-1 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700">
+                        <Edit size={14} className="mr-1" />Edit
+                      </Button>
+                      {plan.isActive ? (
+                        <Button variant="outline" size="sm" onClick={() => toggleMembershipStatus(plan)} className="flex-1 text-orange-600 dark:text-orange-400 dark:border-gray-600 dark:hover:bg-gray-700">
+                          <PowerOff size={14} className="mr-1" />Disable
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => toggleMembershipStatus(plan)} className="flex-1 text-green-600 dark:text-green-400 dark:border-gray-600 dark:hover:bg-gray-700">
+                          <Power size={14} className="mr-1" />Enable
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <EmptyState icon={Repeat} title="No memberships yet" description="Create a recurring plan, like 8 sessions a month" actionLabel="Create Membership" onAction={() => openMembershipModal()} />
+          )}
+        </TabsContent>
+
         {/* Offers Tab */}
         <TabsContent value="offers" className="mt-6">
           <div className="flex justify-between items-center mb-6">
@@ -488,6 +635,73 @@ export default function ServicesPage() {
         </div>
       )}
 
+      {/* Membership Modal */}
+      {showMembershipModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/50" onClick={() => setShowMembershipModal(false)} />
+          <div className="relative bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-md w-full p-6">
+            <button onClick={() => setShowMembershipModal(false)} className="absolute top-4 right-4 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+              <X size={20} />
+            </button>
+            <h2 className="text-xl font-bold mb-4 dark:text-gray-100">{editingMembership ? 'Edit Membership' : 'Create Membership'}</h2>
+            <div className="space-y-4">
+              <div>
+                <Label>Membership Name</Label>
+                <Input value={membershipForm.name} onChange={(e) => setMembershipForm({ ...membershipForm, name: e.target.value })} placeholder="e.g., Monthly 8" />
+              </div>
+              <div>
+                <Label>Description</Label>
+                <Input value={membershipForm.description} onChange={(e) => setMembershipForm({ ...membershipForm, description: e.target.value })} placeholder="Optional description" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Price (£)</Label>
+                  <Input type="number" step="0.01" value={membershipForm.price} onChange={(e) => setMembershipForm({ ...membershipForm, price: parseFloat(e.target.value) || 0 })} />
+                </div>
+                <div>
+                  <Label>Billed</Label>
+                  <select
+                    value={membershipForm.interval}
+                    onChange={(e) => setMembershipForm({ ...membershipForm, interval: e.target.value as MembershipInterval })}
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm dark:bg-gray-900 dark:border-gray-600"
+                  >
+                    {(Object.keys(MEMBERSHIP_INTERVAL_LABELS) as MembershipInterval[]).map((interval) => (
+                      <option key={interval} value={interval}>{MEMBERSHIP_INTERVAL_LABELS[interval]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Credits per Period</Label>
+                  <Input type="number" value={membershipForm.creditsPerPeriod} onChange={(e) => setMembershipForm({ ...membershipForm, creditsPerPeriod: parseInt(e.target.value) || 0 })} />
+                </div>
+                <div>
+                  <Label>Rollover Cap</Label>
+                  <Input type="number" min={0} value={membershipForm.rolloverCap} disabled={membershipForm.unlimitedRollover} onChange={(e) => setMembershipForm({ ...membershipForm, rolloverCap: parseInt(e.target.value) || 0 })} />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <input type="checkbox" id="unlimited_rollover" checked={membershipForm.unlimitedRollover} onChange={(e) => setMembershipForm({ ...membershipForm, unlimitedRollover: e.target.checked })} className="w-4 h-4" />
+                <Label htmlFor="unlimited_rollover">Roll over all unused credits</Label>
+              </div>
+              {editingMembership && editingMembership.activeMembers > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  A new price applies to new members; existing members stay on their current price.
+                </p>
+              )}
+              {membershipError && <p className="text-sm text-red-600 dark:text-red-400">{membershipError}</p>}
+              <div className="flex gap-3 pt-4">
+                <Button variant="outline" onClick={() => setShowMembershipModal(false)} className="flex-1">Cancel</Button>
+                <Button onClick={handleSaveMembership} disabled={saveMembershipMutation.isPending} className="flex-1 bg-wondrous-magenta hover:bg-wondrous-magenta-dark">
+                  {saveMembershipMutation.isPending ? 'Saving...' : editingMembership ? 'Update' : 'Create'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Offer Modal */}
       {showOfferModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
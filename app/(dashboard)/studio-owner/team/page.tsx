@@ -16,6 +16,7 @@ import {
   MoreVertical
 } from 'lucide-react';
 import { InviteTrainerDialog } from '@/components/studio-owner/InviteTrainerDialog';
+import { LeaveApprovals } from '@/components/studio-owner/LeaveApprovals';
 import ContentHeader from '@/components/shared/ContentHeader';
 import { useTrainers } from '@/lib/hooks/use-trainers';
 import { useTeamInvitations, useRevokeInvitation, type TeamInvitation } from '@/lib/hooks/use-invitations';
@@ -99,6 +100,9 @@ export default function TeamPage() {
         }
       />
 
+      {/* Time Off Section */}
+      <LeaveApprovals />
+
       {/* Pending Invitations Section */}
       {pendingInvitations.length > 0 && (
         <div className="mb-8">
@@ -1,18 +1,25 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { Fragment, useState, useMemo, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
-import { ChevronLeft, ChevronRight, Plus, Clock, User, X, Search, Calendar as CalendarIcon, Inbox, CheckCircle, XCircle, MessageSquare, AlertCircle, Play, AlertTriangle, UserX, CalendarX, Check, TrendingUp, Repeat, StickyNote, Dumbbell, Bell, CalendarDays, Timer, CreditCard, Mail } from "lucide-react";
+import { ChevronLeft, ChevronRight, Plus, Clock, User, X, Search, Calendar as CalendarIcon, Inbox, CheckCircle, XCircle, MessageSquare, AlertCircle, Play, AlertTriangle, UserX, CalendarX, Check, TrendingUp, Repeat, StickyNote, Dumbbell, Bell, CalendarDays, Timer, CreditCard, Mail, MapPin, UserRoundCog } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/lib/hooks/use-toast";
 import { useUserStore } from "@/lib/stores/user-store";
-import { useBookings, useAddSession, useUpdateSession, useCancelBooking } from "@/lib/hooks/use-bookings";
+import { useBookings, useAddSession, useUpdateSession, useCancelBooking, useCreateBookingSeries, useUpdateBookingSeries, useCheckInBooking, useClassRoster, useCompleteClass, useUndoNoShow, useRescheduleBooking } from "@/lib/hooks/use-bookings";
 import { useTemplates } from "@/lib/hooks/use-templates";
-import { useAvailability, useAddBlock, useDeleteBlock, getBlockedBlocks as getBlockedBlocksUtil, getBlocksForDate } from "@/lib/hooks/use-availability";
+import { useAvailability, useBookableSlots, useAddBlock, useDeleteBlock, getBlockedBlocks as getBlockedBlocksUtil, getBlocksForDate } from "@/lib/hooks/use-availability";
 import { useServices } from "@/lib/hooks/use-services";
-import { useBookingRequests, useAcceptBookingRequest, useDeclineBookingRequest } from "@/lib/hooks/use-booking-requests";
+import { useLocations } from "@/lib/hooks/use-locations";
+import { ResourceCalendarView } from "@/components/studio-owner/ResourceCalendarView";
+import { ReassignBookingsDialog } from "@/components/studio-owner/ReassignBookingsDialog";
+import BookingTimeline from "@/components/studio-owner/BookingTimeline";
+import PaymentRefunds from "@/components/studio-owner/PaymentRefunds";
+import BookingIntakeAnswers from "@/components/studio-owner/BookingIntakeAnswers";
+import { canManageTeam, hasPermission, PERMISSIONS, type Permission } from "@/lib/permissions";
+import { useBookingRequests, useAcceptBookingRequest, useDeclineBookingRequest, useSuggestAlternative } from "@/lib/hooks/use-booking-requests";
 import { useClients } from "@/lib/hooks/use-clients";
 import { useQueryClient } from "@tanstack/react-query";
 import {
@@ -32,9 +39,10 @@ import type { CalendarSession } from "@/lib/types/calendar";
 import type { SessionCompletionFormData } from "@/lib/types/session-completion";
 import type { SignOffMode } from "@/lib/types";
 import type { BlockReasonType, RecurrenceType } from "@/lib/types/availability";
+import type { SeriesFrequency, SeriesScope, SeriesOccurrenceFailure } from "@/lib/types/booking-series";
 import { cn } from "@/lib/utils/cn";
 
-type ViewMode = "day" | "week";
+type ViewMode = "day" | "week" | "resources";
 type CalendarTab = "schedule" | "requests";
 
 export default function TrainerCalendar() {
@@ -47,14 +55,22 @@ export default function TrainerCalendar() {
   const addSessionMutation = useAddSession();
   const updateSessionMutation = useUpdateSession();
   const cancelBookingMutation = useCancelBooking();
+  const createSeriesMutation = useCreateBookingSeries();
+  const updateSeriesMutation = useUpdateBookingSeries();
+  const checkInMutation = useCheckInBooking();
+  const completeClassMutation = useCompleteClass();
+  const undoNoShowMutation = useUndoNoShow();
+  const rescheduleMutation = useRescheduleBooking();
   const { data: templates = [] } = useTemplates(currentUser?.id);
   const { data: trainerAvailability } = useAvailability(currentUser?.id);
   const addBlockMutation = useAddBlock();
   const deleteBlockMutation = useDeleteBlock();
   const { data: services = [] } = useServices();
+  const { data: locations = [] } = useLocations();
   const { data: bookingRequests = [] } = useBookingRequests(currentUser?.id, 'pending');
   const acceptRequestMutation = useAcceptBookingRequest();
   const declineRequestMutation = useDeclineBookingRequest();
+  const suggestAlternativeMutation = useSuggestAlternative();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -70,6 +86,9 @@ export default function TrainerCalendar() {
       color: service.color,
       creditsRequired: service.creditsRequired,
       type: service.type, // '1-2-1' | 'duet' | 'group'
+      maxCapacity: service.maxCapacity || 1,
+      // Time kept free around each session of this service
+      buffers: { before: service.bufferBeforeMinutes || 0, after: service.bufferAfterMinutes || 0 },
     };
   };
 
@@ -228,6 +247,7 @@ export default function TrainerCalendar() {
   // Local state
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>("day");
+  const [locationFilter, setLocationFilter] = useState<string>("");
   const [calendarTab, setCalendarTab] = useState<CalendarTab>("schedule");
   const { data: rawClients = [] } = useClients(currentUser?.id);
   const clients = useMemo(() => rawClients.map((c) => ({
@@ -247,6 +267,10 @@ export default function TrainerCalendar() {
   const [selectedSignOffMode, setSelectedSignOffMode] = useState<string | null>(null);
   const [selectedBookingClient, setSelectedBookingClient] = useState<string | null>(null);
   const [searchClient, setSearchClient] = useState("");
+  const [repeatFrequency, setRepeatFrequency] = useState<SeriesFrequency | "none">("none");
+  const [repeatEndMode, setRepeatEndMode] = useState<"count" | "date">("count");
+  const [repeatCount, setRepeatCount] = useState<number>(8);
+  const [repeatEndDate, setRepeatEndDate] = useState<string>("");
 
   // Inline session details state (NO MODALS)
   const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
@@ -256,11 +280,37 @@ export default function TrainerCalendar() {
     notes: "",
   });
 
+  // Roster for the expanded group class (one booking per attendee)
+  const expandedSession = sessions.find((s) => s.id === expandedSessionId);
+  const { data: classRoster } = useClassRoster(
+    expandedSessionId ?? undefined,
+    !!expandedSession && isGroupClass(expandedSession.serviceTypeId ?? null)
+  );
+
+  // Suggest alternative times for a booking request (INLINE, NO MODALS)
+  const [suggestingRequestId, setSuggestingRequestId] = useState<string | null>(null);
+  const [suggestDate, setSuggestDate] = useState<string>("");
+  const [suggestedTimes, setSuggestedTimes] = useState<Date[]>([]);
+  const suggestingRequest = bookingRequests.find((r) => r.id === suggestingRequestId);
+  const { data: suggestableSlots = [], isLoading: isLoadingSuggestableSlots } = useBookableSlots(
+    { serviceId: suggestingRequest?.serviceId ?? "", from: suggestDate, to: suggestDate },
+    !!suggestingRequest
+  );
+
   // Reschedule state (INLINE, NO MODALS)
   const [reschedulingSessionId, setReschedulingSessionId] = useState<string | null>(null);
   const [rescheduleDate, setRescheduleDate] = useState<string>("");
   const [rescheduleTime, setRescheduleTime] = useState<string>("");
 
+  // Reassign state: a single session, or null to choose sessions in bulk
+  const [isReassignOpen, setIsReassignOpen] = useState(false);
+  const [reassignBookingId, setReassignBookingId] = useState<string | null>(null);
+  const canReassign = !!currentUser && canManageTeam(currentUser.role);
+  const canRefund = !!currentUser && hasPermission(currentUser.role, PERMISSIONS.FINANCE.MANAGE as Permission);
+
+  // Recurring series: whether actions apply to this occurrence or this and following
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("this");
+
   // Session setup panel state (for starting sessions without template/mode)
   const [showSessionSetupPanel, setShowSessionSetupPanel] = useState(false);
   const [setupSessionId, setSetupSessionId] = useState<string | null>(null);
@@ -299,6 +349,7 @@ export default function TrainerCalendar() {
   const [blockEndTime, setBlockEndTime] = useState<string>('17:00');
   const [blockReason, setBlockReason] = useState<BlockReasonType>('personal');
   const [blockNotes, setBlockNotes] = useState<string>('');
+  const [blockLocationId, setBlockLocationId] = useState<string>('');
 
   // Drag & drop reschedule state (week view)
   const [draggedSessionId, setDraggedSessionId] = useState<string | null>(null);
@@ -358,7 +409,7 @@ export default function TrainerCalendar() {
 
     // Check conflicts (excluding dragged session)
     const otherSessions = sessions.filter((s) => s.id !== draggedSessionId);
-    if (!isTimeAvailable(targetDate, serviceType.duration, otherSessions)) {
+    if (!isTimeAvailable(targetDate, serviceType.duration, otherSessions, undefined, serviceType.buffers)) {
       toast({
         variant: "destructive",
         title: "Time Conflict",
@@ -388,31 +439,27 @@ export default function TrainerCalendar() {
   const confirmReschedule = () => {
     if (!pendingReschedule || isRescheduling) return;
     setIsRescheduling(true);
-    const { sessionId, targetDate, session, oldDatetime } = pendingReschedule;
+    const { sessionId, targetDate, session } = pendingReschedule;
     setPendingReschedule(null);
 
-    updateSessionMutation.mutate(sessionId, { datetime: targetDate });
-
-    toast({
-      title: "Session Rescheduled",
-      description: `${session.clientName} moved to ${formatDate(targetDate)} at ${formatTime(targetDate)}`,
-    });
-
-    // Send reschedule notification email (fire-and-forget)
-    const client = clients.find((c) => c.id === session.clientId);
-    if (client) {
-      fetch('/api/email/reschedule', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          bookingId: session.id,
-          oldTime: oldDatetime.toISOString(),
-          newTime: targetDate.toISOString(),
-        }),
-      }).catch(() => {}).finally(() => setIsRescheduling(false));
-    } else {
-      setIsRescheduling(false);
-    }
+    // The server re-checks availability and moves the booking, its reminders and notifications together
+    rescheduleMutation.mutate(
+      { id: sessionId, scheduledAt: targetDate.toISOString() },
+      {
+        onSuccess: ({ warnings }) => {
+          toast({
+            title: "Session Rescheduled",
+            description: warnings.length > 0
+              ? `${session.clientName} moved to ${formatDate(targetDate)} at ${formatTime(targetDate)}. ${warnings.join('. ')}`
+              : `${session.clientName} moved to ${formatDate(targetDate)} at ${formatTime(targetDate)}`,
+          });
+        },
+        onError: (error: Error) => {
+          toast({ variant: "destructive", title: "Reschedule Failed", description: error.message });
+        },
+        onSettled: () => setIsRescheduling(false),
+      }
+    );
   };
 
   const cancelReschedule = () => {
@@ -473,10 +520,10 @@ export default function TrainerCalendar() {
   // Navigation
   const navigateDay = (direction: number) => {
     const newDate = new Date(currentDate);
-    if (viewMode === "day") {
-      newDate.setDate(currentDate.getDate() + direction);
-    } else {
+    if (viewMode === "week") {
       newDate.setDate(currentDate.getDate() + direction * 7);
+    } else {
+      newDate.setDate(currentDate.getDate() + direction);
     }
     setCurrentDate(newDate);
   };
@@ -495,16 +542,18 @@ export default function TrainerCalendar() {
 
     return sessions
       .filter((s) => s.datetime >= today && s.datetime < tomorrow)
+      .filter((s) => !locationFilter || s.locationId === locationFilter)
       .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
-  }, [currentDate, sessions]);
+  }, [currentDate, sessions, locationFilter]);
 
   // Get week dates and sessions
   const weekDates = getWeekDates(currentDate);
   const weekSessions = useMemo(() => {
     return sessions.filter((s) => {
-      return s.datetime >= weekDates[0] && s.datetime <= weekDates[6];
+      return s.datetime >= weekDates[0] && s.datetime <= weekDates[6]
+        && (!locationFilter || s.locationId === locationFilter);
     });
-  }, [sessions, weekDates]);
+  }, [sessions, weekDates, locationFilter]);
 
   // Time slots for quick booking
   const hours = Array.from({ length: 14 }, (_, i) => i + 6); // 6am-8pm
@@ -544,6 +593,7 @@ export default function TrainerCalendar() {
 
   // Handle session click
   const handleSessionClick = (sessionId: string) => {
+    setSeriesScope("this");
     // If clicking from week view, switch to day view and navigate to that session's date
     if (viewMode === "week") {
       const session = sessions.find(s => s.id === sessionId);
@@ -566,8 +616,18 @@ export default function TrainerCalendar() {
     setSelectedTemplateId(null);
     setSelectedSignOffMode(null);
     setSearchClient("");
+    setRepeatFrequency("none");
+    setRepeatEndMode("count");
+    setRepeatCount(8);
+    setRepeatEndDate("");
   };
 
+  // Summarise series dates that could not be booked or moved
+  const describeSeriesFailures = (failed: SeriesOccurrenceFailure[]) =>
+    failed
+      .map((f) => `${formatDate(new Date(f.scheduledAt))}: ${f.reason}`)
+      .join(" • ");
+
   // Open block time panel
   const openBlockTimePanel = () => {
     const today = new Date();
@@ -629,6 +689,7 @@ export default function TrainerCalendar() {
           recurrence: effectiveRecurrence,
           reason: blockReason,
           notes: blockNotes || undefined,
+          locationId: blockLocationId || undefined,
         };
         addBlockMutation.mutate(newBlock);
       });
@@ -653,6 +714,7 @@ export default function TrainerCalendar() {
         endDate: blockEndDate && blockEndDate !== blockDate ? blockEndDate : undefined,
         reason: blockReason,
         notes: blockNotes || undefined,
+        locationId: blockLocationId || undefined,
       };
       addBlockMutation.mutate(newBlock);
       toast({
@@ -698,8 +760,23 @@ export default function TrainerCalendar() {
       return;
     }
 
+    // Group classes: other attendees of the same class share the slot until it is full
+    const classmates = serviceType.maxCapacity > 1
+      ? sessions.filter(
+          (s) => s.serviceTypeId === serviceType.id && s.datetime.getTime() === datetime.getTime()
+        )
+      : [];
+    if (classmates.length >= serviceType.maxCapacity && classmates.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Class Full",
+        description: `${serviceType.name} already has ${classmates.length}/${serviceType.maxCapacity} attendees`,
+      });
+      return;
+    }
+
     // Check conflicts
-    if (!isTimeAvailable(datetime, serviceType.duration, sessions)) {
+    if (!isTimeAvailable(datetime, serviceType.duration, sessions.filter((s) => !classmates.includes(s)), undefined, serviceType.buffers)) {
       toast({
         variant: "destructive",
         title: "Time Conflict",
@@ -725,12 +802,18 @@ export default function TrainerCalendar() {
 
     // Update sessions
     addSessionMutation.mutate(newSession, {
-      onSuccess: () => {
+      onSuccess: (booking) => {
         queryClient.invalidateQueries({ queryKey: ['clients'] });
         toast({
           title: "Booking Confirmed",
           description: `${client.name} booked for ${formatTime(datetime)} • ${serviceType.name}`,
         });
+        if (booking?.warnings?.length) {
+          toast({
+            title: "Resource Double-Booked",
+            description: booking.warnings.join(". "),
+          });
+        }
         closeBookingPanel();
       },
       onError: (error: Error) => {
@@ -743,14 +826,110 @@ export default function TrainerCalendar() {
     });
   };
 
+  // Create a recurring series (weekly / fortnightly) starting at the selected slot
+  const handleCreateSeries = (clientId: string, serviceTypeId: string, datetime: Date) => {
+    const client = clients.find((c) => c.id === clientId);
+    const serviceType = getServiceType(serviceTypeId);
+    if (!client || !serviceType || repeatFrequency === "none") return;
+
+    if (repeatEndMode === "date" && !repeatEndDate) {
+      toast({
+        variant: "destructive",
+        title: "Missing End Date",
+        description: "Choose when the series should end",
+      });
+      return;
+    }
+
+    createSeriesMutation.mutate(
+      {
+        clientId: client.id,
+        serviceId: serviceType.id,
+        scheduledAt: datetime.toISOString(),
+        duration: serviceType.duration,
+        frequency: repeatFrequency,
+        ...(repeatEndMode === "date"
+          ? { endDate: repeatEndDate }
+          : { occurrenceCount: repeatCount }),
+        templateId: selectedTemplateId || undefined,
+        signOffMode: (selectedSignOffMode as SignOffMode) || undefined,
+      },
+      {
+        onSuccess: ({ bookings, failed }) => {
+          queryClient.invalidateQueries({ queryKey: ['clients'] });
+          toast({
+            variant: failed.length > 0 ? "warning" : undefined,
+            title: failed.length > 0
+              ? `${bookings.length} Sessions Booked, ${failed.length} Failed`
+              : `${bookings.length} Sessions Booked`,
+            description: failed.length > 0
+              ? describeSeriesFailures(failed)
+              : `${client.name} • ${serviceType.name} ${repeatFrequency} from ${formatDate(datetime)}`,
+          });
+          closeBookingPanel();
+        },
+        onError: (error: Error) => {
+          toast({
+            variant: "destructive",
+            title: "Series Not Booked",
+            description: error.message || "Could not create the recurring booking.",
+          });
+        },
+      }
+    );
+  };
+
+  // Skip a single occurrence of a recurring series
+  const handleSkipOccurrence = (sessionId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session?.seriesId) return;
+
+    updateSeriesMutation.mutate(
+      { seriesId: session.seriesId, input: { bookingId: sessionId, action: "skip" } },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Session Skipped",
+            description: `${session.clientName} - ${formatDate(session.datetime)} skipped, the rest of the series is unchanged`,
+          });
+          setExpandedSessionId(null);
+        },
+        onError: (error: Error) => {
+          toast({ variant: "destructive", title: "Skip Failed", description: error.message });
+        },
+      }
+    );
+  };
+
   // Check in client for group class
-  const handleCheckIn = (sessionId: string, status: 'checked-in' | 'late' | 'no-show') => {
-    updateSessionMutation.mutate(sessionId, { status });
+  const handleCheckIn = (sessionId: string, status: 'checked-in' | 'late' | 'no-show', clientName?: string) => {
+    if (status === 'checked-in') {
+      checkInMutation.mutate(sessionId);
+    } else {
+      updateSessionMutation.mutate(sessionId, { status });
+    }
     const session = sessions.find((s) => s.id === sessionId);
     const statusLabel = status === 'checked-in' ? 'Checked In' : status === 'late' ? 'Late' : 'No Show';
     toast({
       title: statusLabel,
-      description: `${session?.clientName} marked as ${statusLabel.toLowerCase()}`,
+      description: `${clientName ?? session?.clientName} marked as ${statusLabel.toLowerCase()}`,
+    });
+  };
+
+  // Complete a group class - credits are deducted per checked-in attendee
+  const handleCompleteClass = (sessionId: string) => {
+    completeClassMutation.mutate(sessionId, {
+      onSuccess: (result) => {
+        toast({
+          title: "Class Completed",
+          description: result.skipped > 0
+            ? `${result.completed} attendee${result.completed === 1 ? "" : "s"} completed, ${result.skipped} not checked in`
+            : `${result.completed} attendee${result.completed === 1 ? "" : "s"} completed`,
+        });
+      },
+      onError: (error: Error) => {
+        toast({ variant: "destructive", title: "Complete Failed", description: error.message });
+      },
     });
   };
 
@@ -864,6 +1043,23 @@ export default function TrainerCalendar() {
     });
   };
 
+  // Undo an automatic no-show before its charge is settled
+  const handleUndoNoShow = (sessionId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    undoNoShowMutation.mutate(sessionId, {
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ['clients'] });
+        toast({
+          title: "No Show Undone",
+          description: `${session?.clientName} is back to confirmed - no charge applied`,
+        });
+      },
+      onError: (error: Error) => {
+        toast({ variant: "destructive", title: "Undo Failed", description: error.message });
+      },
+    });
+  };
+
   // Cancel session
   const handleCancelSession = (sessionId: string) => {
     const session = sessions.find((s) => s.id === sessionId);
@@ -874,6 +1070,26 @@ export default function TrainerCalendar() {
 
     if (!serviceType || !client) return;
 
+    if (session.seriesId && seriesScope === "following") {
+      updateSeriesMutation.mutate(
+        { seriesId: session.seriesId, input: { bookingId: sessionId, action: "cancel", scope: "following" } },
+        {
+          onSuccess: ({ bookings }) => {
+            queryClient.invalidateQueries({ queryKey: ['clients'] });
+            toast({
+              title: "Series Cancelled",
+              description: `${session.clientName} - ${bookings.length} session${bookings.length !== 1 ? 's' : ''} from ${formatDate(session.datetime)} cancelled`,
+            });
+          },
+          onError: (error: Error) => {
+            toast({ variant: "destructive", title: "Cancel Failed", description: error.message });
+          },
+        }
+      );
+      setExpandedSessionId(null);
+      return;
+    }
+
     // Remove session
     cancelBookingMutation.mutate(sessionId);
 
@@ -901,6 +1117,7 @@ export default function TrainerCalendar() {
     setReschedulingSessionId(sessionId);
     setRescheduleDate(dateStr);
     setRescheduleTime(timeStr);
+    setSeriesScope("this");
   };
 
   // Submit reschedule
@@ -935,7 +1152,7 @@ export default function TrainerCalendar() {
 
     // Check conflicts (excluding current session)
     const otherSessions = sessions.filter((s) => s.id !== sessionId);
-    if (!isTimeAvailable(newDatetime, serviceType.duration, otherSessions)) {
+    if (!isTimeAvailable(newDatetime, serviceType.duration, otherSessions, undefined, serviceType.buffers)) {
       toast({
         variant: "destructive",
         title: "Time Conflict",
@@ -944,16 +1161,54 @@ export default function TrainerCalendar() {
       return;
     }
 
-    // Update session datetime
-    updateSessionMutation.mutate(sessionId, { datetime: newDatetime });
-
-    toast({
-      title: "Session Rescheduled",
-      description: `${session.clientName} rescheduled to ${formatDate(newDatetime)} at ${formatTime(newDatetime)}`,
-    });
+    // Move this and following occurrences together; the server re-validates each date
+    if (session.seriesId && seriesScope === "following") {
+      updateSeriesMutation.mutate(
+        {
+          seriesId: session.seriesId,
+          input: { bookingId: sessionId, action: "reschedule", scope: "following", scheduledAt: newDatetime.toISOString() },
+        },
+        {
+          onSuccess: ({ bookings, failed }) => {
+            toast({
+              variant: failed.length > 0 ? "warning" : undefined,
+              title: failed.length > 0
+                ? `${bookings.length} Moved, ${failed.length} Kept Original Time`
+                : "Series Rescheduled",
+              description: failed.length > 0
+                ? describeSeriesFailures(failed)
+                : `${session.clientName} now from ${formatDate(newDatetime)} at ${formatTime(newDatetime)}`,
+            });
+          },
+          onError: (error: Error) => {
+            toast({ variant: "destructive", title: "Reschedule Failed", description: error.message });
+          },
+        }
+      );
+      setReschedulingSessionId(null);
+      setExpandedSessionId(null);
+      return;
+    }
 
-    setReschedulingSessionId(null);
-    setExpandedSessionId(null);
+    // The server re-checks availability and moves the booking, its reminders and notifications together
+    rescheduleMutation.mutate(
+      { id: sessionId, scheduledAt: newDatetime.toISOString() },
+      {
+        onSuccess: ({ warnings }) => {
+          toast({
+            title: "Session Rescheduled",
+            description: warnings.length > 0
+              ? `${session.clientName} rescheduled to ${formatDate(newDatetime)} at ${formatTime(newDatetime)}. ${warnings.join('. ')}`
+              : `${session.clientName} rescheduled to ${formatDate(newDatetime)} at ${formatTime(newDatetime)}`,
+          });
+          setReschedulingSessionId(null);
+          setExpandedSessionId(null);
+        },
+        onError: (error: Error) => {
+          toast({ variant: "destructive", title: "Reschedule Failed", description: error.message });
+        },
+      }
+    );
   };
 
   // Close session setup panel
@@ -1014,7 +1269,7 @@ export default function TrainerCalendar() {
     if (!client || !serviceType) return;
 
     // Check conflicts
-    if (!isTimeAvailable(selectedTime, serviceType.duration, sessions)) {
+    if (!isTimeAvailable(selectedTime, serviceType.duration, sessions, undefined, serviceType.buffers)) {
       toast({
         variant: "destructive",
         title: "Time Conflict",
@@ -1084,6 +1339,54 @@ export default function TrainerCalendar() {
     });
   };
 
+  // Open the suggest-alternative picker, starting from tomorrow
+  const openSuggestAlternative = (requestId: string) => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    setSuggestingRequestId(requestId);
+    setSuggestDate(
+      `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, "0")}-${String(tomorrow.getDate()).padStart(2, "0")}`
+    );
+    setSuggestedTimes([]);
+  };
+
+  const toggleSuggestedTime = (datetime: Date) => {
+    setSuggestedTimes((prev) => {
+      if (prev.some((t) => t.getTime() === datetime.getTime())) {
+        return prev.filter((t) => t.getTime() !== datetime.getTime());
+      }
+      return prev.length >= 3 ? prev : [...prev, datetime];
+    });
+  };
+
+  // Send suggested times back to the client
+  const handleSuggestAlternative = (requestId: string) => {
+    const request = bookingRequests.find((r) => r.id === requestId);
+    if (!request || suggestedTimes.length === 0) return;
+
+    suggestAlternativeMutation.mutate(
+      {
+        requestId,
+        suggestedTimes: [...suggestedTimes]
+          .sort((a, b) => a.getTime() - b.getTime())
+          .map((t) => t.toISOString()),
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Alternatives Sent",
+            description: `${request.clientName ?? "Client"} has been emailed ${suggestedTimes.length} suggested time${suggestedTimes.length === 1 ? "" : "s"}`,
+          });
+          setSuggestingRequestId(null);
+          setSuggestedTimes([]);
+        },
+        onError: (error: Error) => {
+          toast({ variant: "destructive", title: "Could Not Send", description: error.message });
+        },
+      }
+    );
+  };
+
   // Get label for a blocked time slot
   const getBlockLabel = (datetime: Date): string => {
     if (!trainerAvailability) return 'BLOCKED';
@@ -1243,11 +1546,26 @@ export default function TrainerCalendar() {
                 </button>
               </div>
               <div className="font-bold text-xs lg:text-sm text-wondrous-grey-dark dark:text-gray-100 font-heading">
-                {viewMode === "day" ? (isMounted ? formatDate(currentDate) : "Loading...") : `Week View`}
+                {viewMode !== "week" ? (isMounted ? formatDate(currentDate) : "Loading...") : `Week View`}
               </div>
             </div>
 
-            <div className="flex gap-1">
+            <div className="flex items-center gap-1">
+              {locations.length > 0 && (
+                <select
+                  value={locationFilter}
+                  onChange={(e) => setLocationFilter(e.target.value)}
+                  className="mr-2 h-8 px-2 rounded-lg border border-wondrous-grey-light bg-white dark:bg-gray-800 text-[11px] lg:text-xs text-wondrous-grey-dark dark:text-gray-200"
+                  aria-label="Filter by location"
+                >
+                  <option value="">All locations</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={() => setViewMode("day")}
                 className={cn(
@@ -1274,6 +1592,34 @@ export default function TrainerCalendar() {
               >
                 Week
               </button>
+              {currentUser?.role === "studio_owner" && (
+                <button
+                  onClick={() => setViewMode("resources")}
+                  className={cn(
+                    "px-3 py-1 text-[11px] lg:text-xs font-medium transition-all",
+                    viewMode === "resources"
+                      ? "text-gray-900 dark:text-gray-100 border-b-2 border-wondrous-blue dark:border-wondrous-blue"
+                      : "text-gray-500 dark:text-gray-400 border-b-2 border-transparent hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                  aria-label="Resource view"
+                  aria-pressed={viewMode === "resources"}
+                >
+                  Resources
+                </button>
+              )}
+              {canReassign && (
+                <button
+                  onClick={() => {
+                    setReassignBookingId(null);
+                    setIsReassignOpen(true);
+                  }}
+                  className="ml-2 h-8 px-2.5 rounded-lg flex items-center gap-1 text-[11px] lg:text-xs font-semibold hover:opacity-80 bg-wondrous-grey-light text-wondrous-grey-dark active:scale-95 transition-transform"
+                  aria-label="Reassign sessions"
+                >
+                  <UserRoundCog size={14} />
+                  Reassign
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1417,6 +1763,15 @@ export default function TrainerCalendar() {
                               <span>{serviceType?.name}</span>
                               <span className="text-gray-400 dark:text-gray-500">&middot;</span>
                               <span>{serviceType?.duration} min</span>
+                              {session.locationName && (
+                                <>
+                                  <span className="text-gray-400 dark:text-gray-500">&middot;</span>
+                                  <span className="flex items-center gap-1">
+                                    <MapPin size={12} />
+                                    {session.locationName}
+                                  </span>
+                                </>
+                              )}
                             </div>
                           </div>
                           <div className="text-right">
@@ -1484,6 +1839,11 @@ export default function TrainerCalendar() {
                             className="border-t border-wondrous-grey-light dark:border-gray-700 bg-gray-50 dark:bg-gray-700"
                           >
                             <div className="p-4 space-y-3" onClick={(e) => e.stopPropagation()}>
+                              {/* Intake - what the client told us when booking */}
+                              {reschedulingSessionId !== session.id && completingSessionId !== session.id && (
+                                <BookingIntakeAnswers bookingId={session.id} />
+                              )}
+
                               {/* Reschedule Form - INLINE */}
                               {reschedulingSessionId === session.id ? (
                                 <div className="space-y-3">
@@ -1626,6 +1986,71 @@ export default function TrainerCalendar() {
                                 </div>
                               ) : (
                                 <>
+                                  {/* Class Roster - group classes only */}
+                                  {isGroupClass(session.serviceTypeId ?? null) && classRoster && (
+                                    <div>
+                                      <div className="flex items-center justify-between mb-2">
+                                        <div className="text-xs font-semibold text-wondrous-grey-dark dark:text-gray-200">
+                                          Class Roster ({classRoster.attendees.filter((a) => a.status !== "no-show").length}/{classRoster.capacity})
+                                        </div>
+                                        {classRoster.attendees.some((a) => a.status === "checked-in") && (
+                                          <Button
+                                            size="sm"
+                                            className="h-7 bg-green-600 hover:bg-green-700 text-white flex items-center gap-1 text-xs px-2"
+                                            disabled={completeClassMutation.isPending}
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              handleCompleteClass(session.id);
+                                            }}
+                                          >
+                                            <Check size={12} />
+                                            Complete Class
+                                          </Button>
+                                        )}
+                                      </div>
+                                      <div className="space-y-1.5">
+                                        {classRoster.attendees.map((attendee) => {
+                                          const attendeeStatus = getStatusBadge(attendee.status);
+                                          return (
+                                            <div
+                                              key={attendee.bookingId}
+                                              className="flex items-center gap-2 bg-white dark:bg-gray-800 rounded-lg px-3 py-2 border border-gray-200 dark:border-gray-600"
+                                            >
+                                              <span className="flex-1 min-w-0 truncate text-sm font-medium text-wondrous-grey-dark dark:text-gray-100">
+                                                {attendee.clientName}
+                                              </span>
+                                              {attendee.credits !== null && (
+                                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                                  {attendee.credits} credit{attendee.credits === 1 ? "" : "s"}
+                                                </span>
+                                              )}
+                                              {attendee.status === "confirmed" || attendee.status === "soft-hold" ? (
+                                                <Button
+                                                  size="sm"
+                                                  variant="outline"
+                                                  className="h-7 text-green-700 dark:text-green-400 border-green-300 dark:border-green-700 flex items-center gap-1 text-xs px-2"
+                                                  onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleCheckIn(attendee.bookingId, "checked-in", attendee.clientName);
+                                                  }}
+                                                >
+                                                  <Check size={12} /> Check In
+                                                </Button>
+                                              ) : (
+                                                <span
+                                                  style={{ background: attendeeStatus.bg, color: attendeeStatus.text }}
+                                                  className="px-2 py-0.5 rounded-full text-xs font-semibold"
+                                                >
+                                                  {attendeeStatus.label}
+                                                </span>
+                                              )}
+                                            </div>
+                                          );
+                                        })}
+                                      </div>
+                                    </div>
+                                  )}
+
                                   {/* Quick Actions */}
                                   <div>
                                     <div className="text-xs font-semibold mb-2 text-wondrous-grey-dark dark:text-gray-200">
@@ -1656,6 +2081,20 @@ export default function TrainerCalendar() {
                                           <Repeat size={14} />
                                           Quick Rebook
                                         </Button>
+                                      ) : session.status === "no-show" ? (
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          className="flex items-center gap-1"
+                                          disabled={undoNoShowMutation.isPending}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleUndoNoShow(session.id);
+                                          }}
+                                        >
+                                          <Repeat size={14} />
+                                          Undo No Show
+                                        </Button>
                                       ) : isGroupClass(session.serviceTypeId ?? null) ? (
                                         <div className="col-span-2 grid grid-cols-3 gap-1.5">
                                           <Button
@@ -1756,6 +2195,65 @@ export default function TrainerCalendar() {
                               </div>
                               )}
 
+                              {/* Reassign - studio owners and managers hand the session to another trainer */}
+                              {canReassign && (session.status === "confirmed" || session.status === "soft-hold") && completingSessionId !== session.id && reschedulingSessionId !== session.id && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="w-full text-xs flex items-center gap-1"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setReassignBookingId(session.id);
+                                    setIsReassignOpen(true);
+                                  }}
+                                >
+                                  <UserRoundCog size={12} />
+                                  Reassign Trainer
+                                </Button>
+                              )}
+
+                              {/* Series Scope - Only for recurring sessions */}
+                              {session.seriesId && session.status !== "completed" && completingSessionId !== session.id && (
+                              <div className="flex items-center gap-2">
+                                <div className="grid grid-cols-2 gap-1 flex-1 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                                  {([
+                                    { value: "this", label: "This session" },
+                                    { value: "following", label: "This & following" },
+                                  ] as const).map((option) => (
+                                    <button
+                                      key={option.value}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setSeriesScope(option.value);
+                                      }}
+                                      className={cn(
+                                        "rounded-md py-1 text-xs font-medium transition-all",
+                                        seriesScope === option.value
+                                          ? "bg-white dark:bg-gray-800 text-wondrous-magenta shadow-sm"
+                                          : "text-gray-600 dark:text-gray-300"
+                                      )}
+                                    >
+                                      {option.label}
+                                    </button>
+                                  ))}
+                                </div>
+                                {reschedulingSessionId !== session.id && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="text-xs flex items-center gap-1"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleSkipOccurrence(session.id);
+                                  }}
+                                >
+                                  <Repeat size={12} />
+                                  Skip
+                                </Button>
+                                )}
+                              </div>
+                              )}
+
                               {/* Cancel Button - Only for non-completed sessions and not rescheduling */}
                               {session.status !== "completed" && completingSessionId !== session.id && reschedulingSessionId !== session.id && (
                               <Button
@@ -1770,6 +2268,20 @@ export default function TrainerCalendar() {
                                 Cancel Session
                               </Button>
                               )}
+
+                              {/* Payments - refund a paid booking */}
+                              {canRefund && completingSessionId !== session.id && (
+                                <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
+                                  <PaymentRefunds bookingId={session.id} />
+                                </div>
+                              )}
+
+                              {/* History - who changed the booking, and when */}
+                              {completingSessionId !== session.id && (
+                                <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
+                                  <BookingTimeline bookingId={session.id} />
+                                </div>
+                              )}
                             </div>
                           </motion.div>
                         )}
@@ -1882,6 +2394,11 @@ export default function TrainerCalendar() {
           </div>
         )}
 
+        {/* RESOURCE VIEW (studio owners) */}
+        {viewMode === "resources" && (
+          <ResourceCalendarView date={currentDate} locationId={locationFilter || undefined} />
+        )}
+
         {/* WEEK VIEW */}
         {viewMode === "week" && (
           <div className="bg-white dark:bg-gray-800 rounded-xl p-2 lg:p-4 overflow-x-auto border-2 border-wondrous-grey-light dark:border-gray-700 shadow-md">
@@ -2018,53 +2535,85 @@ export default function TrainerCalendar() {
                         ? groupOverride.border
                         : serviceType.color;
 
+                    // Buffer time kept free around the session, drawn as hatched strips
+                    const bufferBefore = session.status === "cancelled" ? 0 : session.bufferBefore ?? serviceType.buffers.before;
+                    const bufferAfter = session.status === "cancelled" ? 0 : session.bufferAfter ?? serviceType.buffers.after;
+                    const bufferStyle = {
+                      left: `calc(${leftPosition}% + 2px)`,
+                      width: `calc(${columnWidth}% - 4px)`,
+                      background: `repeating-linear-gradient(45deg, ${serviceType.color}14, ${serviceType.color}14 4px, transparent 4px, transparent 8px)`,
+                    };
+
                     return (
-                      <div
-                        key={session.id}
-                        draggable={session.status !== 'cancelled'}
-                        onDragStart={(e) => handleDragStart(e, session.id)}
-                        onDragEnd={handleDragEnd}
-                        className={cn(
-                          "absolute rounded-md lg:rounded-lg shadow-sm p-1 lg:p-2 hover:shadow-md transition-all cursor-pointer overflow-hidden",
-                          session.status === "soft-hold"
-                            ? "border-2 border-dashed border-amber-400 dark:border-amber-600"
-                            : "border lg:border-2",
-                          draggedSessionId === session.id && "opacity-50"
+                      <Fragment key={session.id}>
+                        {bufferBefore > 0 && (
+                          <div
+                            className="absolute rounded-t-md pointer-events-none"
+                            title={`${bufferBefore} min buffer`}
+                            style={{
+                              ...bufferStyle,
+                              top: `${(hourOffset - bufferBefore / 60) * hourHeight}px`,
+                              height: `${(bufferBefore / 60) * hourHeight}px`,
+                            }}
+                          />
                         )}
-                        style={{
-                          top: `${hourOffset * hourHeight}px`,
-                          left: `calc(${leftPosition}% + 2px)`,
-                          width: `calc(${columnWidth}% - 4px)`,
-                          height: `${durationHours * hourHeight}px`,
-                          minHeight: "24px",
-                          background: cardBg,
-                          borderColor: cardBorder,
-                        }}
-                        onClick={() => { if (!draggedSessionId) handleSessionClick(session.id); }}
-                      >
-                        <div className="flex flex-col h-full justify-between text-xs lg:text-sm">
-                          <div>
-                            <div className="font-bold truncate text-[10px] lg:text-sm text-gray-900 dark:text-gray-100">
-                              <span className="hidden md:inline">{formatTime(session.datetime)} - {session.clientName}</span>
-                              <span className="md:hidden">{client?.initials}</span>
-                            </div>
-                            <div className="text-[9px] lg:text-xs text-gray-700 dark:text-gray-300 hidden sm:block">
-                              {serviceType.name}
+                        {bufferAfter > 0 && (
+                          <div
+                            className="absolute rounded-b-md pointer-events-none"
+                            title={`${bufferAfter} min buffer`}
+                            style={{
+                              ...bufferStyle,
+                              top: `${(hourOffset + durationHours) * hourHeight}px`,
+                              height: `${(bufferAfter / 60) * hourHeight}px`,
+                            }}
+                          />
+                        )}
+                        <div
+                          draggable={session.status !== 'cancelled'}
+                          onDragStart={(e) => handleDragStart(e, session.id)}
+                          onDragEnd={handleDragEnd}
+                          className={cn(
+                            "absolute rounded-md lg:rounded-lg shadow-sm p-1 lg:p-2 hover:shadow-md transition-all cursor-pointer overflow-hidden",
+                            session.status === "soft-hold"
+                              ? "border-2 border-dashed border-amber-400 dark:border-amber-600"
+                              : "border lg:border-2",
+                            draggedSessionId === session.id && "opacity-50"
+                          )}
+                          style={{
+                            top: `${hourOffset * hourHeight}px`,
+                            left: `calc(${leftPosition}% + 2px)`,
+                            width: `calc(${columnWidth}% - 4px)`,
+                            height: `${durationHours * hourHeight}px`,
+                            minHeight: "24px",
+                            background: cardBg,
+                            borderColor: cardBorder,
+                          }}
+                          onClick={() => { if (!draggedSessionId) handleSessionClick(session.id); }}
+                        >
+                          <div className="flex flex-col h-full justify-between text-xs lg:text-sm">
+                            <div>
+                              <div className="font-bold truncate text-[10px] lg:text-sm text-gray-900 dark:text-gray-100">
+                                <span className="hidden md:inline">{formatTime(session.datetime)} - {session.clientName}</span>
+                                <span className="md:hidden">{client?.initials}</span>
+                              </div>
+                              <div className="text-[9px] lg:text-xs text-gray-700 dark:text-gray-300 hidden sm:block">
+                                {serviceType.name}
+                              </div>
                             </div>
+                            {shouldShowStatusBadge(session.status) && (
+                              <div
+                                className="text-[9px] lg:text-xs font-semibold px-1 lg:px-1.5 py-0.5 rounded self-start hidden sm:block"
+                                style={{
+                                  background: session.status === "soft-hold" ? "#fef3c7" : statusInfo.bg,
+                                  color: session.status === "soft-hold" ? "#92400e" : statusInfo.text,
+                                }}
+                              >
+                                {session.status === "soft-hold" ? "Hold" : statusInfo.label}
+                              </div>
+                            )}
                           </div>
-                          {shouldShowStatusBadge(session.status) && (
-                            <div
-                              className="text-[9px] lg:text-xs font-semibold px-1 lg:px-1.5 py-0.5 rounded self-start hidden sm:block"
-                              style={{
-                                background: session.status === "soft-hold" ? "#fef3c7" : statusInfo.bg,
-                                color: session.status === "soft-hold" ? "#92400e" : statusInfo.text,
-                              }}
-                            >
-                              {session.status === "soft-hold" ? "Hold" : statusInfo.label}
-                            </div>
-                          )}
                         </div>
-                      </div>
+                      </Fragment>
                     );
                   });
                 })}
@@ -2175,7 +2724,9 @@ export default function TrainerCalendar() {
                                 const available = isTimeAvailable(
                                   timeDate,
                                   serviceType.duration,
-                                  sessions
+                                  sessions,
+                                  undefined,
+                                  serviceType.buffers
                                 );
 
                                 return (
@@ -2210,7 +2761,7 @@ export default function TrainerCalendar() {
                             {(() => {
                               const firstAvailableTime = request.preferredTimes
                                 .map((t: string) => new Date(t))
-                                .find((t: Date) => isTimeAvailable(t, serviceType.duration, sessions));
+                                .find((t: Date) => isTimeAvailable(t, serviceType.duration, sessions, undefined, serviceType.buffers));
                               return (
                                 <Button
                                   size="sm"
@@ -2240,17 +2791,96 @@ export default function TrainerCalendar() {
                               size="sm"
                               variant="outline"
                               className="text-wondrous-blue dark:text-blue-400 border-wondrous-blue dark:border-blue-400 hover:bg-wondrous-blue dark:hover:bg-blue-500 hover:text-white"
-                              onClick={() => {
-                                toast({
-                                  title: "Suggest Alternative",
-                                  description: "Feature coming soon",
-                                });
-                              }}
+                              onClick={() =>
+                                suggestingRequestId === request.id
+                                  ? setSuggestingRequestId(null)
+                                  : openSuggestAlternative(request.id)
+                              }
                             >
                               <Clock size={16} className="mr-1" />
                               Suggest Alt
                             </Button>
                           </div>
+
+                          {/* Suggest Alternative - INLINE */}
+                          {suggestingRequestId === request.id && (
+                            <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-wondrous-grey-light dark:border-gray-600 space-y-3">
+                              <div>
+                                <label className="text-xs font-semibold text-wondrous-grey-dark dark:text-gray-200 mb-2 flex items-center gap-1">
+                                  <CalendarIcon size={14} />
+                                  Pick up to 3 times
+                                </label>
+                                <Input
+                                  type="date"
+                                  value={suggestDate}
+                                  onChange={(e) => setSuggestDate(e.target.value)}
+                                  className="mt-1"
+                                />
+                              </div>
+                              {(() => {
+                                const slots = suggestableSlots.map((slot) => new Date(slot.startsAt));
+                                if (isLoadingSuggestableSlots) {
+                                  return (
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                      Loading free times...
+                                    </div>
+                                  );
+                                }
+                                return slots.length === 0 ? (
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    No free times within your availability on this day
+                                  </div>
+                                ) : (
+                                  <div className="grid grid-cols-4 gap-1.5">
+                                    {slots.map((slot) => {
+                                      const selected = suggestedTimes.some((t) => t.getTime() === slot.getTime());
+                                      return (
+                                        <button
+                                          key={slot.toISOString()}
+                                          onClick={() => toggleSuggestedTime(slot)}
+                                          className={cn(
+                                            "p-1.5 rounded-lg text-xs font-semibold border-2 transition-all",
+                                            selected
+                                              ? "bg-wondrous-blue border-wondrous-blue text-white"
+                                              : "bg-white dark:bg-gray-800 border-wondrous-grey-light dark:border-gray-600 text-wondrous-grey-dark dark:text-gray-200 hover:border-wondrous-blue"
+                                          )}
+                                        >
+                                          {formatTime(slot)}
+                                        </button>
+                                      );
+                                    })}
+                                  </div>
+                                );
+                              })()}
+                              {suggestedTimes.length > 0 && (
+                                <div className="text-xs text-gray-600 dark:text-gray-300">
+                                  Selected:{" "}
+                                  {[...suggestedTimes]
+                                    .sort((a, b) => a.getTime() - b.getTime())
+                                    .map((t) => `${formatDate(t)} ${formatTime(t)}`)
+                                    .join(", ")}
+                                </div>
+                              )}
+                              <div className="grid grid-cols-2 gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setSuggestingRequestId(null)}
+                                >
+                                  Cancel
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  className="bg-wondrous-blue hover:bg-wondrous-blue/90"
+                                  disabled={suggestedTimes.length === 0 || suggestAlternativeMutation.isPending}
+                                  onClick={() => handleSuggestAlternative(request.id)}
+                                >
+                                  <Mail size={14} className="mr-1" />
+                                  Send {suggestedTimes.length || ""} Time{suggestedTimes.length === 1 ? "" : "s"}
+                                </Button>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -2462,6 +3092,66 @@ export default function TrainerCalendar() {
                 </div>
               )}
 
+              {/* Repeat - INLINE */}
+              <div className="mb-4">
+                <div className="text-xs font-semibold mb-2 text-wondrous-grey-dark dark:text-gray-200 uppercase tracking-wide">
+                  Repeat
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { value: "none", label: "Once" },
+                    { value: "weekly", label: "Weekly" },
+                    { value: "fortnightly", label: "Fortnightly" },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setRepeatFrequency(option.value)}
+                      className={cn(
+                        "rounded-lg border-2 py-2 text-sm font-medium transition-all",
+                        repeatFrequency === option.value
+                          ? "border-wondrous-magenta bg-purple-50 text-wondrous-magenta dark:bg-purple-900/20"
+                          : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300"
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {repeatFrequency !== "none" && (
+                  <div className="mt-2 flex items-center gap-2 text-sm">
+                    <select
+                      value={repeatEndMode}
+                      onChange={(e) => setRepeatEndMode(e.target.value as "count" | "date")}
+                      className="border-2 border-wondrous-grey-light rounded-lg px-2 py-1.5 bg-white dark:bg-gray-700 dark:text-gray-100"
+                    >
+                      <option value="count">For</option>
+                      <option value="date">Until</option>
+                    </select>
+                    {repeatEndMode === "count" ? (
+                      <>
+                        <Input
+                          type="number"
+                          min={2}
+                          max={52}
+                          value={repeatCount}
+                          onChange={(e) => setRepeatCount(Math.max(2, Math.min(52, Number(e.target.value) || 2)))}
+                          className="border-2 border-wondrous-grey-light w-20"
+                        />
+                        <span className="text-gray-600 dark:text-gray-400">sessions</span>
+                      </>
+                    ) : (
+                      <Input
+                        type="date"
+                        value={repeatEndDate}
+                        min={selectedSlot ? selectedSlot.toISOString().split('T')[0] : undefined}
+                        onChange={(e) => setRepeatEndDate(e.target.value)}
+                        className="border-2 border-wondrous-grey-light flex-1"
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Client Search - INLINE */}
               <div className="mb-3 relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 dark:text-gray-500" size={16} />
@@ -2543,7 +3233,17 @@ export default function TrainerCalendar() {
                   const serviceType = services.find(s => s.id === selectedServiceType);
                   const hasEnoughCredits = serviceType && client.credits >= serviceType.creditsRequired;
 
-                  if (hasEnoughCredits) {
+                  if (repeatFrequency !== "none") {
+                    if (!hasEnoughCredits) {
+                      toast({
+                        variant: "destructive",
+                        title: "Insufficient Credits",
+                        description: `${client.name} needs credits before a recurring series can be booked`,
+                      });
+                      return;
+                    }
+                    handleCreateSeries(client.id, selectedServiceType, selectedSlot);
+                  } else if (hasEnoughCredits) {
                     handleCreateBooking(client.id, selectedServiceType, selectedSlot);
                   } else {
                     // Auto soft-hold + auto send top-up email
@@ -2962,6 +3662,27 @@ export default function TrainerCalendar() {
                 </div>
               </div>
 
+              {/* Location (multi-location studios) */}
+              {locations.length > 0 && (
+                <div className="mb-4">
+                  <label className="text-xs font-semibold mb-2 block text-wondrous-grey-dark dark:text-gray-200">
+                    Location
+                  </label>
+                  <select
+                    value={blockLocationId}
+                    onChange={(e) => setBlockLocationId(e.target.value)}
+                    className="w-full h-10 px-3 rounded-md border-2 border-wondrous-grey-light bg-white dark:bg-gray-800 text-sm"
+                  >
+                    <option value="">All locations</option>
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Notes */}
               <div className="mb-4">
                 <label className="text-xs font-semibold mb-2 block text-wondrous-grey-dark dark:text-gray-200">
@@ -2999,6 +3720,15 @@ export default function TrainerCalendar() {
         )}
       </AnimatePresence>
 
+      {canReassign && (
+        <ReassignBookingsDialog
+          open={isReassignOpen}
+          onOpenChange={setIsReassignOpen}
+          sessions={sessions}
+          bookingId={reassignBookingId}
+        />
+      )}
+
       {/* Drag & Drop Reschedule Confirmation Dialog */}
       {pendingReschedule && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
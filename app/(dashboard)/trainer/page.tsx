@@ -9,7 +9,7 @@ import { useUpcomingSessions } from '@/lib/hooks/use-upcoming-sessions';
 import { StatCard } from '@/components/shared/StatCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { FileText, Dumbbell, Calendar, Users, DollarSign, Clock, Inbox, TrendingUp, Sparkles, Share2, UserPlus } from 'lucide-react';
+import { FileText, Dumbbell, Calendar, CalendarClock, Users, DollarSign, Clock, Inbox, TrendingUp, Sparkles, Share2, UserPlus } from 'lucide-react';
 import { format } from 'date-fns';
 import type { TrainerDashboardStats, UpcomingSession } from '@/lib/types/dashboard';
 
@@ -33,6 +33,9 @@ export default function TrainerDashboard() {
     activeClients: analyticsData?.activeClients || 0,
     softHoldsCount: analyticsData?.softHoldsCount || 0,
     pendingRequests: pendingRequests.length,
+    packagesExpiringSoon: analyticsData?.packagesExpiringSoon || 0,
+    creditsExpiringSoon: analyticsData?.creditsExpiringSoon || 0,
+    creditsExpiredRecently: analyticsData?.creditsExpiredRecently || 0,
   };
 
   const upcomingSessions: UpcomingSession[] = upcomingSessionsData.map(s => ({
@@ -115,6 +118,26 @@ export default function TrainerDashboard() {
         </Link>
       </div>
 
+      {/* Package Expiry */}
+      {!isLoading && (stats.creditsExpiringSoon > 0 || stats.creditsExpiredRecently > 0) && (
+        <div className="mb-8 p-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-xl flex items-start gap-3">
+          <CalendarClock className="text-wondrous-orange shrink-0 mt-0.5" size={20} />
+          <div className="text-sm text-orange-800 dark:text-orange-300">
+            {stats.creditsExpiringSoon > 0 && (
+              <p className="font-medium">
+                {stats.creditsExpiringSoon} client credit{stats.creditsExpiringSoon !== 1 ? 's' : ''} across{' '}
+                {stats.packagesExpiringSoon} package{stats.packagesExpiringSoon !== 1 ? 's' : ''} expire in the next 14 days
+              </p>
+            )}
+            {stats.creditsExpiredRecently > 0 && (
+              <p className={stats.creditsExpiringSoon > 0 ? 'text-orange-700/80 dark:text-orange-300/80' : 'font-medium'}>
+                {stats.creditsExpiredRecently} credit{stats.creditsExpiredRecently !== 1 ? 's' : ''} expired unused in the last 30 days
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
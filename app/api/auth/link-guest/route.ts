@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { moveClientLedger } from '@/lib/services/credit-ledger-service';
 
 /**
  * POST /api/auth/link-guest
@@ -116,6 +117,14 @@ export async function POST(request: NextRequest) {
       // Non-fatal, continue
     }
 
+    // The credits came across with the record, so their ledger comes too
+    const { error: ledgerError } = await moveClientLedger(clientId, userId);
+
+    if (ledgerError) {
+      console.error('Error moving credit ledger:', ledgerError);
+      // Non-fatal, continue
+    }
+
     // Create a profile record for the user if it doesn't exist
     const { data: existingProfile } = await supabase
       .from('profiles')
@@ -12,8 +12,10 @@ import {
   sendBookingRequestCreatedEmail,
   sendBookingRequestAcceptedEmail,
   sendBookingRequestDeclinedEmail,
+  sendBookingRequestCounteredEmail,
   sendSoftHoldEmail,
 } from '@/lib/notifications/email-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
 
 async function authenticate() {
   const supabase = await createServerSupabaseClient();
@@ -79,6 +81,7 @@ export async function POST(request: NextRequest) {
         preferredTimes: data.preferred_times,
         notes: data.notes || undefined,
         requestId: data.id,
+        timezone: await getTrainerTimezone(trainerId),
       }).catch((err) => console.error('Failed to send booking request email:', err));
 
       // Send SMS notification to trainer if Telnyx is configured
@@ -117,14 +120,14 @@ export async function PUT(request: NextRequest) {
     const { data, error } = await updateBookingRequest(body.id, auth.studioId, auth.user.id, body);
     if (error) {
       const status = error.message === 'Booking request not found' ? 404
-        : error.message.includes('required') ? 400 : 500;
+        : error.message.includes('required') || error.message.includes('suggested time') ? 400 : 500;
       return NextResponse.json({ error: error.message }, { status });
     }
 
     const updatedRequest = data!.request;
 
     // Send email notification to client (fire-and-forget)
-    if (updatedRequest.client?.email && (body.status === 'accepted' || body.status === 'declined')) {
+    if (updatedRequest.client?.email && (body.status === 'accepted' || body.status === 'declined' || body.status === 'countered')) {
       const clientName = `${updatedRequest.client.first_name || ''} ${updatedRequest.client.last_name || ''}`.trim() || 'Client';
       const trainerId = updatedRequest.trainer_id || auth.user.id;
       const { data: trainer } = await auth.serviceClient
@@ -135,6 +138,7 @@ export async function PUT(request: NextRequest) {
       const trainerName = trainer
         ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your trainer'
         : 'Your trainer';
+      const timezone = await getTrainerTimezone(trainerId);
 
       if (body.status === 'accepted' && body.bookingStatus === 'soft-hold') {
         const booking = data!.booking as Record<string, unknown> | null;
@@ -146,6 +150,7 @@ export async function PUT(request: NextRequest) {
           sessionDatetime: body.acceptedTime || body.accepted_time,
           creditsRequired: updatedRequest.service?.credits_required ?? 1,
           holdExpiry: booking?.hold_expiry ? String(booking.hold_expiry) : new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          timezone,
         }).catch((err) => console.error('Failed to send soft hold email:', err));
       } else if (body.status === 'accepted') {
         sendBookingRequestAcceptedEmail({
@@ -155,7 +160,20 @@ export async function PUT(request: NextRequest) {
           serviceName: updatedRequest.service?.name ?? undefined,
           acceptedTime: body.acceptedTime || body.accepted_time,
           requestId: updatedRequest.id,
+          timezone,
         }).catch((err) => console.error('Failed to send booking accepted email:', err));
+      } else if (body.status === 'countered') {
+        sendBookingRequestCounteredEmail({
+          clientEmail: updatedRequest.client.email,
+          clientName,
+          trainerName,
+          serviceName: updatedRequest.service?.name ?? undefined,
+          suggestedTimes: updatedRequest.suggested_times || [],
+          chooseLink: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/client/bookings?request=${updatedRequest.id}`,
+          expiresAt: updatedRequest.expires_at,
+          requestId: updatedRequest.id,
+          timezone,
+        }).catch((err) => console.error('Failed to send booking countered email:', err));
       } else {
         sendBookingRequestDeclinedEmail({
           clientEmail: updatedRequest.client.email,
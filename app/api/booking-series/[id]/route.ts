@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import {
+  getBookingSeries,
+  updateSeriesOccurrences,
+} from '@/lib/services/booking-series-service';
+
+const ACTIONS = ['skip', 'cancel', 'reschedule'];
+
+/**
+ * Authenticate and load the series, verifying the user is its trainer or in its studio.
+ */
+async function loadAuthorizedSeries(seriesId: string) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data, error } = await getBookingSeries(seriesId);
+
+  if (error) {
+    return {
+      response: NextResponse.json(
+        { error: 'Failed to fetch booking series', details: error.message },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!data) {
+    return { response: NextResponse.json({ error: 'Booking series not found' }, { status: 404 }) };
+  }
+
+  if (data.series.trainer_id !== user.id) {
+    const profile = await lookupUserProfile(createServiceRoleClient(), user);
+    const studioId = profile?.studio_id || user.id;
+    if (data.series.studio_id !== studioId) {
+      return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+    }
+  }
+
+  return { data, user };
+}
+
+/**
+ * GET /api/booking-series/[id]
+ * Fetches a series with its occurrences and exceptions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadAuthorizedSeries(id);
+    if (result.response) return result.response;
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/booking-series/[id]
+ * Skips, cancels or reschedules an occurrence.
+ * Body: { bookingId, action: 'skip' | 'cancel' | 'reschedule', scope?: 'this' | 'following', scheduledAt? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadAuthorizedSeries(id);
+    if (result.response) return result.response;
+
+    const body = await request.json();
+
+    if (!body.bookingId) {
+      return NextResponse.json({ error: 'bookingId is required' }, { status: 400 });
+    }
+
+    if (!ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.action === 'reschedule' && !body.scheduledAt) {
+      return NextResponse.json({ error: 'scheduledAt is required' }, { status: 400 });
+    }
+
+    const { data, error } = await updateSeriesOccurrences(id, {
+      bookingId: body.bookingId,
+      action: body.action,
+      scope: body.scope === 'following' ? 'following' : 'this',
+      scheduledAt: body.scheduledAt,
+      reason: body.reason,
+      actorId: result.user.id,
+    });
+
+    if (error || !data) {
+      const status = error?.message.includes('not found')
+        ? 404
+        : error?.message.includes('Cannot change')
+        ? 400
+        : 500;
+      return NextResponse.json({ error: error?.message || 'Failed to update series' }, { status });
+    }
+
+    if (data.updated.length === 0 && data.failed.length > 0) {
+      return NextResponse.json(
+        { error: data.failed[0].reason, failed: data.failed },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { createBookingSeries } from '@/lib/services/booking-series-service';
+
+const FREQUENCIES = ['weekly', 'fortnightly'];
+
+/**
+ * POST /api/booking-series
+ * Creates a recurring booking series. Occurrences that fail validation are
+ * returned in `failed` rather than failing the whole request.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceRoleClient();
+    const profile = await lookupUserProfile(serviceClient, user);
+    const studioId = profile?.studio_id || user.id;
+
+    const body = await request.json();
+
+    if (!body.clientId || !body.scheduledAt || !body.duration) {
+      return NextResponse.json(
+        { error: 'clientId, scheduledAt and duration are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!FREQUENCIES.includes(body.frequency)) {
+      return NextResponse.json(
+        { error: `frequency must be one of: ${FREQUENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!body.endDate && !body.occurrenceCount) {
+      return NextResponse.json(
+        { error: 'Either endDate or occurrenceCount is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await createBookingSeries({
+      studioId,
+      userId: user.id,
+      input: {
+        trainerId: body.trainerId,
+        clientId: body.clientId,
+        serviceId: body.serviceId,
+        scheduledAt: body.scheduledAt,
+        duration: body.duration,
+        frequency: body.frequency,
+        endDate: body.endDate,
+        occurrenceCount: body.occurrenceCount ? Number(body.occurrenceCount) : undefined,
+        templateId: body.templateId,
+        signOffMode: body.signOffMode,
+        notes: body.notes,
+      },
+    });
+
+    if (error || !data) {
+      return NextResponse.json(
+        { error: error?.message || 'Failed to create booking series' },
+        { status: 500 }
+      );
+    }
+
+    if (data.bookings.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the series dates could be booked', failed: data.failed },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
 
 /**
  * POST /api/bookings/[id]/check-in
@@ -90,6 +91,15 @@ export async function POST(
       );
     }
 
+    await recordBookingEvent({
+      bookingId: id,
+      eventType: 'checked_in',
+      source: 'trainer',
+      actorId: user.id,
+      oldStatus: existingBooking.status,
+      newStatus: 'checked-in',
+    });
+
     return NextResponse.json({ booking: data });
   } catch (error) {
     console.error('Unexpected error:', error);
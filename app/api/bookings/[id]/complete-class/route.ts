@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { completeClass } from '@/lib/services/booking-service';
+
+/**
+ * POST /api/bookings/[id]/complete-class
+ * Completes every checked-in attendee of the group class this booking belongs to,
+ * deducting credits per attendee
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { data, error } = await completeClass(id, user.id);
+
+    if (error) {
+      const status = error.message.includes('not found')
+        ? 404
+        : error.message.includes('Cannot complete')
+        ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
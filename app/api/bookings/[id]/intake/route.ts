@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { getBookingIntakeAnswers } from '@/lib/services/intake-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * GET /api/bookings/[id]/intake
+ * What the client answered to the service's intake questions when booking
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { id } = await params;
+    const { data, error } = await getBookingIntakeAnswers({ bookingId: id, studioId: auth.studioId });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json({ answers: data });
+  } catch (error) {
+    console.error('Error fetching booking intake answers:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { rescheduleBooking } from '@/lib/services/booking-service';
+
+/**
+ * POST /api/bookings/[id]/reschedule
+ * Moves a booking to a new time. Availability and conflicts are re-checked,
+ * and the booking and its reminders are updated together.
+ *
+ * Body: { scheduledAt: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!body.scheduledAt) {
+      return NextResponse.json({ error: 'scheduledAt is required' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceRoleClient();
+
+    const { data: existingBooking } = await serviceClient
+      .from('ta_bookings')
+      .select('trainer_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existingBooking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    // Verify ownership: user must be the trainer or in the same studio
+    const trainerId = existingBooking.trainer_id as string;
+    if (user.id !== trainerId) {
+      const { data: userStaff } = await serviceClient
+        .from('bs_staff')
+        .select('studio_id')
+        .eq('id', user.id)
+        .single();
+
+      const sameStudio = userStaff?.studio_id
+        ? await serviceClient
+            .from('bs_staff')
+            .select('id')
+            .eq('id', trainerId)
+            .eq('studio_id', userStaff.studio_id)
+            .single()
+            .then(({ data }: { data: unknown }) => !!data)
+        : false;
+
+      if (!sameStudio) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const { data, error, warnings } = await rescheduleBooking({
+      bookingId: id,
+      scheduledAt: body.scheduledAt,
+      actorId: user.id,
+      source: 'trainer',
+    });
+
+    if (error) {
+      const message = error.message;
+      let status = 500;
+      if (message.includes('not found')) status = 404;
+      else if (message.includes('conflict') || message.includes('changed')) status = 409;
+      else if (
+        message.includes('required') ||
+        message.includes('must') ||
+        message.includes('Cannot') ||
+        message.includes('outside') ||
+        message.includes('Outside') ||
+        message.includes('closed') ||
+        message.includes('unavailable')
+      ) status = 400;
+      return NextResponse.json({ error: message }, { status });
+    }
+
+    return NextResponse.json({ booking: data, warnings }, { status: 200 });
+  } catch (error) {
+    console.error('Error in POST /api/bookings/[id]/reschedule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getClassRoster } from '@/lib/services/group-class-service';
+
+/**
+ * GET /api/bookings/[id]/roster
+ * Returns the attendees of the class instance this booking belongs to
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { data, error } = await getClassRoster(id);
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json({ roster: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -108,7 +108,7 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { data, error } = await updateBooking(id, body);
+    const { data, error } = await updateBooking(id, body, { source: 'trainer', actorId: user.id });
 
     if (error) {
       return NextResponse.json(
@@ -157,9 +157,12 @@ export async function DELETE(
     const { searchParams } = new URL(request.url);
     const hardDelete = searchParams.get('hardDelete') === 'true';
 
-    const { data, error } = await deleteBooking(id, hardDelete);
+    const { data, error } = await deleteBooking(id, hardDelete, { source: 'trainer', actorId: user.id });
 
     if (error) {
+      if (error.message.includes('cannot be deleted')) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       const action = hardDelete ? 'delete' : 'cancel';
       return NextResponse.json(
         { error: `Failed to ${action} booking`, details: error.message },
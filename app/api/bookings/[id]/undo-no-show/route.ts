@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { undoNoShow } from '@/lib/services/no-show-service';
+
+/**
+ * POST /api/bookings/[id]/undo-no-show
+ * Reverses an automatic no-show while its charge is still inside the undo window
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { data, error } = await undoNoShow(id, user.id);
+
+    if (error) {
+      const status = error.message.includes('not found')
+        ? 404
+        : error.message === 'Forbidden'
+        ? 403
+        : error.message.includes('Cannot undo')
+        ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { canManageTeam } from '@/lib/permissions';
+import { getReassignCandidates, reassignBookings } from '@/lib/services/booking-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+function errorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('required') || message.includes('Cannot')) return 400;
+  return 500;
+}
+
+/**
+ * GET /api/bookings/reassign?bookingIds=a,b
+ * The studio's trainers who could take these bookings, and why any can't
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!canManageTeam(auth.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const bookingIds = (searchParams.get('bookingIds') || '').split(',').filter(Boolean);
+
+    const { data, error } = await getReassignCandidates({ studioId: auth.studioId, bookingIds });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: errorStatus(error.message) });
+    }
+    return NextResponse.json({ candidates: data });
+  } catch (error) {
+    console.error('Error fetching reassign candidates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bookings/reassign
+ * Hand bookings to another trainer in the studio; each client is told
+ * their trainer has changed
+ * Body: { bookingIds: string[], trainerId: string }
+ * Returns which bookings moved and why any didn't
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!canManageTeam(auth.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { data, error } = await reassignBookings({
+      studioId: auth.studioId,
+      bookingIds: body.bookingIds,
+      trainerId: body.trainerId,
+      actorId: auth.user.id,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: errorStatus(error.message) });
+    }
+    return NextResponse.json({ result: data });
+  } catch (error) {
+    console.error('Error reassigning bookings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
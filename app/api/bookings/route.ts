@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { lookupUserProfile } from '@/lib/services/profile-service';
-import { getBookings, createBooking } from '@/lib/services/booking-service';
+import { getBookings, createBooking, updateBooking, deleteBooking } from '@/lib/services/booking-service';
 
 /**
  * GET /api/bookings
  * Fetches bookings for the authenticated trainer within a date range
- * Query params: startDate, endDate (ISO strings)
+ * Query params: startDate, endDate (ISO strings), locationId (optional)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +30,7 @@ export async function GET(request: NextRequest) {
       endDate: searchParams.get('endDate'),
       status: searchParams.get('status'),
       clientId: searchParams.get('clientId'),
+      locationId: searchParams.get('locationId'),
     });
 
     if (error) {
@@ -83,7 +84,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { data, error } = await createBooking({
+    const { data, error, warnings } = await createBooking({
       studioId,
       userId: user.id,
       body,
@@ -97,7 +98,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ booking: data }, { status: 201 });
+    return NextResponse.json({ booking: data, warnings: warnings || [] }, { status: 201 });
   } catch (error) {
     console.error('Unexpected error:', error);
     return NextResponse.json(
@@ -120,50 +121,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const serviceClient = createServiceRoleClient();
     const body = await request.json();
 
     if (!body.id) {
       return NextResponse.json({ error: 'id is required' }, { status: 400 });
     }
 
-    const updateData: Record<string, unknown> = {};
-
-    if (body.clientId !== undefined || body.client_id !== undefined) {
-      updateData.client_id = body.clientId || body.client_id;
-    }
-    if (body.serviceId !== undefined || body.service_id !== undefined) {
-      updateData.service_id = body.serviceId || body.service_id;
-    }
-    if (body.scheduledAt !== undefined || body.scheduled_at !== undefined) {
-      updateData.scheduled_at = body.scheduledAt || body.scheduled_at;
-    }
-    if (body.duration !== undefined) updateData.duration = body.duration;
-    if (body.status !== undefined) updateData.status = body.status;
-    if (body.holdExpiry !== undefined || body.hold_expiry !== undefined) {
-      updateData.hold_expiry = body.holdExpiry || body.hold_expiry;
-    }
-    if (body.sessionId !== undefined || body.session_id !== undefined) {
-      updateData.session_id = body.sessionId || body.session_id;
-    }
-    if (body.templateId !== undefined || body.template_id !== undefined) {
-      updateData.template_id = body.templateId || body.template_id;
-    }
-    if (body.signOffMode !== undefined || body.sign_off_mode !== undefined) {
-      updateData.sign_off_mode = body.signOffMode || body.sign_off_mode;
-    }
-    if (body.notes !== undefined) updateData.notes = body.notes;
-
-    const { data, error } = await serviceClient
-      .from('ta_bookings')
-      .update(updateData)
-      .eq('id', body.id)
-      .select(`
-        *,
-        client:fc_clients(id, first_name, last_name, email, credits),
-        service:ta_services(id, name, duration, color, credits_required)
-      `)
-      .single();
+    // Goes through the service so reminders, calendars and the booking's history follow the change
+    const { data, error } = await updateBooking(body.id, body, { source: 'trainer', actorId: user.id });
 
     if (error) {
       console.error('Error updating booking:', error);
@@ -204,43 +169,21 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'id query parameter is required' }, { status: 400 });
     }
 
-    const serviceClient = createServiceRoleClient();
-
-    if (hardDelete) {
-      // Actually delete the record
-      const { error } = await serviceClient
-        .from('ta_bookings')
-        .delete()
-        .eq('id', bookingId);
-
-      if (error) {
-        console.error('Error deleting booking:', error);
-        return NextResponse.json(
-          { error: 'Failed to delete booking', details: error.message },
-          { status: 500 }
-        );
-      }
+    // Goes through the service so reminders and synced calendars follow the booking
+    const { data, error } = await deleteBooking(bookingId, hardDelete, { source: 'trainer', actorId: user.id });
 
-      return NextResponse.json({ success: true });
-    } else {
-      // Soft delete - set status to 'cancelled'
-      const { data, error } = await serviceClient
-        .from('ta_bookings')
-        .update({ status: 'cancelled' })
-        .eq('id', bookingId)
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error cancelling booking:', error);
-        return NextResponse.json(
-          { error: 'Failed to cancel booking', details: error.message },
-          { status: 500 }
-        );
+    if (error) {
+      if (error.message.includes('cannot be deleted')) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
       }
-
-      return NextResponse.json({ booking: data, success: true });
+      console.error(hardDelete ? 'Error deleting booking:' : 'Error cancelling booking:', error);
+      return NextResponse.json(
+        { error: hardDelete ? 'Failed to delete booking' : 'Failed to cancel booking', details: error.message },
+        { status: 500 }
+      );
     }
+
+    return NextResponse.json(hardDelete ? { success: true } : { booking: data?.booking, success: true });
   } catch (error) {
     console.error('Unexpected error:', error);
     return NextResponse.json(
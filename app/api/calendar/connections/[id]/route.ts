@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { updateCalendarConnection, deleteCalendarConnection } from '@/lib/services/calendar-sync-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  return { user, role: profile.role };
+}
+
+/**
+ * PATCH /api/calendar/connections/[id]
+ * Updates a connection's name, sync directions or credentials
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+    const { id } = await params;
+    const body = await request.json();
+    const { data, error } = await updateCalendarConnection(auth.user.id, id, body);
+
+    if (error) {
+      const status = error.message.includes('not found')
+        ? 404
+        : error.message.includes('must be') || error.message.includes('CalDAV')
+          ? 400
+          : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ connection: data });
+  } catch (error) {
+    console.error('Error updating calendar connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/calendar/connections/[id]
+ * Disconnects a calendar and releases the busy time imported from it
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+    const { id } = await params;
+    const { error } = await deleteCalendarConnection(auth.user.id, id);
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting calendar connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getCalendarConnections, syncCalendarConnection } from '@/lib/services/calendar-sync-service';
+
+/**
+ * POST /api/calendar/connections/[id]/sync
+ * Runs a sync of one of the caller's connections straight away
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { data: connections } = await getCalendarConnections(user.id);
+    if (!connections?.some((connection) => connection.id === id)) {
+      return NextResponse.json({ error: 'Calendar connection not found' }, { status: 404 });
+    }
+
+    const { data, result, error } = await syncCalendarConnection(id);
+
+    // A failed sync still returns the connection, with last_error set
+    if (!data) {
+      return NextResponse.json({ error: error?.message || 'Failed to sync calendar' }, { status: 500 });
+    }
+    return NextResponse.json({ connection: data, result, error: error?.message });
+  } catch (error) {
+    console.error('Error syncing calendar connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { getCalendarConnections, createCalendarConnection } from '@/lib/services/calendar-sync-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * GET /api/calendar/connections
+ * Lists the caller's connected external calendars (passwords are never returned)
+ */
+export async function GET() {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+    const { data, error } = await getCalendarConnections(auth.user.id);
+
+    if (error) return NextResponse.json({ error: 'Failed to fetch calendar connections', details: error.message }, { status: 500 });
+    return NextResponse.json({ connections: data || [] });
+  } catch (error) {
+    console.error('Error fetching calendar connections:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/calendar/connections
+ * Connects an external calendar after verifying the credentials, then runs a first sync
+ * Body: { provider?, displayName?, calendarUrl, username, password, pushEnabled?, pullEnabled? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+    const body = await request.json();
+    const { data, error } = await createCalendarConnection(auth.user.id, auth.studioId, body);
+
+    if (error) {
+      // Verification failures are the user's to fix, so they are reported as-is
+      const status = error.message.includes('required') || error.message.includes('must be') || error.message.includes('CalDAV')
+        ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ connection: data }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating calendar connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCalendarFeedIcs } from '@/lib/services/calendar-feed-service';
+
+/**
+ * GET /api/calendar/feed/[token].ics
+ * Public iCalendar subscription feed. The token is the only credential, so
+ * calendar apps can poll without signing in; rotating the feed revokes it.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const { data, error } = await getCalendarFeedIcs(token.replace(/\.ics$/, ''));
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404 : 500;
+      return NextResponse.json({ error: status === 404 ? 'Not found' : 'Failed to build calendar feed' }, { status });
+    }
+
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="allwondrous.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { isAdminRole, type UserRole } from '@/lib/permissions';
+import { getOrCreateCalendarFeed, rotateCalendarFeed } from '@/lib/services/calendar-feed-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * Resolve whose bookings the requested feed lists. 'studio' covers every
+ * trainer in the studio and is limited to owners and managers; 'personal'
+ * is the caller's own sessions as a trainer or as a client.
+ */
+function resolveOwner(
+  auth: { user: { id: string; email?: string }; studioId: string; role: UserRole },
+  scope: string | null
+) {
+  if (scope === 'studio') {
+    if (!isAdminRole(auth.role)) return null;
+    return { ownerType: 'studio' as const, ownerId: auth.studioId };
+  }
+  if (auth.role === 'client') {
+    return { ownerType: 'client' as const, ownerId: auth.user.id, ownerEmail: auth.user.email };
+  }
+  return { ownerType: 'trainer' as const, ownerId: auth.user.id };
+}
+
+/**
+ * GET /api/calendar/feeds
+ * Returns the caller's private calendar feed URL, creating it on first use.
+ * Query params:
+ * - scope (optional): 'personal' (default) or 'studio'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const owner = resolveOwner(auth, request.nextUrl.searchParams.get('scope'));
+    if (!owner) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+    const { data, error } = await getOrCreateCalendarFeed(owner);
+    if (error) {
+      const status = error.message.includes('required') ? 400 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ feed: data });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/calendar/feeds
+ * Revokes the current feed URL and issues a new one.
+ * Body: { scope?: 'personal' | 'studio' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json().catch(() => ({}));
+    const owner = resolveOwner(auth, body.scope || null);
+    if (!owner) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+    const { data, error } = await rotateCalendarFeed(owner);
+    if (error) {
+      const status = error.message.includes('required') ? 400 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ feed: data });
+  } catch (error) {
+    console.error('Error rotating calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
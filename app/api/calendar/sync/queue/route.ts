@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processCalendarSyncQueue } from '@/lib/services/calendar-sync-service';
+
+/**
+ * POST /api/calendar/sync/queue
+ * Pushes queued booking changes to external calendars and removes events
+ * for deleted bookings. Called by a cron job every minute or so with the
+ * notification API key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    const apiKey = process.env.NOTIFICATION_API_KEY;
+
+    if (!apiKey || authHeader !== `Bearer ${apiKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const batchSize = (body as { batchSize?: number }).batchSize || 50;
+
+    const { data, error } = await processCalendarSyncQueue(batchSize);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error processing calendar sync queue:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncAllCalendarConnections } from '@/lib/services/calendar-sync-service';
+
+/**
+ * POST /api/calendar/sync
+ * Syncs every connected external calendar. Called by a cron job with the
+ * notification API key; pushes the queue gave up on are caught up here.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    const apiKey = process.env.NOTIFICATION_API_KEY;
+
+    if (!apiKey || authHeader !== `Bearer ${apiKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = await syncAllCalendarConnections();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error syncing calendars:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { acceptTimeProposal } from '@/lib/services/client-booking-service';
+
+/**
+ * POST /api/client/booking-proposals/[id]
+ * Move the booking to one of the offered times ({ acceptedTime })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const acceptedTime = (body as { acceptedTime?: string }).acceptedTime;
+    if (!acceptedTime) {
+      return NextResponse.json({ error: 'acceptedTime is required' }, { status: 400 });
+    }
+
+    const { data, error, status } = await acceptTimeProposal(user.email!, id, acceptedTime, user.id);
+
+    if (error || !data) {
+      return NextResponse.json({ error: error?.message || 'Failed to accept time' }, { status: status || 500 });
+    }
+
+    return NextResponse.json({ booking: data.booking });
+  } catch (error) {
+    console.error('Error in client booking proposals POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getClientTimeProposals } from '@/lib/services/client-booking-service';
+
+/**
+ * GET /api/client/booking-proposals
+ * Returns new times the studio has offered for the client's bookings while their trainer is away
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = await getClientTimeProposals(user.email!);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ proposals: data });
+  } catch (error) {
+    console.error('Error in client booking proposals GET:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
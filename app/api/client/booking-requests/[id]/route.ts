@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { acceptSuggestedTime } from '@/lib/services/client-booking-service';
+import { sendSuggestedTimeAcceptedEmail } from '@/lib/notifications/email-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+
+/**
+ * POST /api/client/booking-requests/[id]
+ * Accept one of the trainer's suggested times ({ acceptedTime }) and book it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const acceptedTime = (body as { acceptedTime?: string }).acceptedTime;
+    if (!acceptedTime) {
+      return NextResponse.json({ error: 'acceptedTime is required' }, { status: 400 });
+    }
+
+    const { data, error, status } = await acceptSuggestedTime(user.email!, id, acceptedTime, user.id);
+
+    if (error || !data) {
+      return NextResponse.json({ error: error?.message || 'Failed to accept time' }, { status: status || 500 });
+    }
+
+    // Let the trainer know (fire-and-forget)
+    const { data: trainer } = await createServiceRoleClient()
+      .from('fc_trainers')
+      .select('email, first_name, last_name')
+      .eq('id', data.trainerId)
+      .single();
+
+    if (trainer?.email) {
+      sendSuggestedTimeAcceptedEmail({
+        trainerEmail: trainer.email,
+        trainerName: `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Trainer',
+        clientName: data.clientName,
+        serviceName: data.booking.serviceName,
+        acceptedTime: data.booking.scheduledAt,
+        requestId: id,
+        timezone: await getTrainerTimezone(data.trainerId),
+      }).catch((err) => console.error('Failed to send suggested time accepted email:', err));
+    }
+
+    return NextResponse.json({ booking: data.booking });
+  } catch (error) {
+    console.error('Error in client booking requests POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
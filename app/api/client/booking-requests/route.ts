@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getClientCounteredRequests } from '@/lib/services/client-booking-service';
+
+/**
+ * GET /api/client/booking-requests
+ * Returns the authenticated client's requests that have alternative times waiting for a reply
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = await getClientCounteredRequests(user.email!);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ requests: data });
+  } catch (error) {
+    console.error('Error in client booking requests GET:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import {
   getClientBookings,
   createClientBooking,
   cancelClientBooking,
+  rescheduleClientBooking,
 } from '@/lib/services/client-booking-service';
 
 export async function GET() {
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { serviceId, trainerId, scheduledAt } = body;
+    const { serviceId, trainerId, scheduledAt, intakeAnswers } = body;
 
     if (!serviceId || !trainerId || !scheduledAt) {
       return NextResponse.json(
@@ -51,7 +52,8 @@ export async function POST(request: NextRequest) {
       serviceId,
       trainerId,
       scheduledAt,
-    });
+      intakeAnswers: Array.isArray(intakeAnswers) ? intakeAnswers : undefined,
+    }, user.id);
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: status || 500 });
@@ -64,6 +66,43 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/client/bookings?id=<bookingId>
+ * Move the client's booking to a new time
+ * Body: { scheduledAt }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const bookingId = request.nextUrl.searchParams.get('id');
+    if (!bookingId) {
+      return NextResponse.json({ error: 'Booking ID required' }, { status: 400 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (!body.scheduledAt) {
+      return NextResponse.json({ error: 'scheduledAt is required' }, { status: 400 });
+    }
+
+    const { data, error, status } = await rescheduleClientBooking(user.email!, bookingId, body.scheduledAt, user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: status || 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in client bookings PATCH:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
     const bookingId = request.nextUrl.searchParams.get('id');
@@ -78,7 +117,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { data, error, status } = await cancelClientBooking(user.email!, bookingId);
+    const { data, error, status } = await cancelClientBooking(user.email!, bookingId, user.id);
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: status || 500 });
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { cancelClientMembership } from '@/lib/services/membership-service';
+
+/**
+ * POST /api/client/memberships/[id]/cancel
+ * Cancel the membership at the end of the current period
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { data, error, status } = await cancelClientMembership(user.email || '', id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: status || 500 });
+    }
+
+    return NextResponse.json({ membership: data });
+  } catch (error) {
+    console.error('Error in client membership cancel POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getClientMemberships } from '@/lib/services/membership-service';
+
+/**
+ * GET /api/client/memberships
+ * The membership plans the client can join and the memberships they hold
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error, status } = await getClientMemberships(user.email || '');
+
+    if (error) {
+      return NextResponse.json(
+        { error: error.message, plans: [], memberships: [] },
+        { status: status || 500 }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in client memberships GET:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { createShopCheckout } from '@/lib/services/client-shop-service';
+import { createMembershipCheckout } from '@/lib/services/membership-service';
+
+/**
+ * POST /api/client/shop/checkout
+ * Start a Stripe Checkout session for a priced package, paid offer or
+ * membership plan
+ * Body: { type: 'package' | 'offer' | 'membership', id }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { type, id } = body;
+
+    if (!type || !id) {
+      return NextResponse.json(
+        { error: 'type and id are required' },
+        { status: 400 }
+      );
+    }
+
+    if (type !== 'package' && type !== 'offer' && type !== 'membership') {
+      return NextResponse.json(
+        { error: 'type must be "package", "offer" or "membership"' },
+        { status: 400 }
+      );
+    }
+
+    const origin = request.headers.get('origin') || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const { data, error, status } = type === 'membership'
+      ? await createMembershipCheckout(user.email || '', id, origin)
+      : await createShopCheckout(user.email || '', { type, id }, origin);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: status || 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in client shop checkout POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
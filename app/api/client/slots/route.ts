@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getClientBookableSlots } from '@/lib/services/slot-service';
+
+/**
+ * GET /api/client/slots
+ * Bookable slots for the client's studio
+ * Query params:
+ * - serviceId (required)
+ * - from, to (required): Date range (YYYY-MM-DD, inclusive)
+ * - trainerId (optional): Filter by specific trainer ('any' for all)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const serviceId = searchParams.get('serviceId');
+
+    if (!serviceId) {
+      return NextResponse.json({ error: 'serviceId is required' }, { status: 400 });
+    }
+
+    const { data, error } = await getClientBookableSlots(user.email || '', {
+      serviceId,
+      trainerId: searchParams.get('trainerId'),
+      from: searchParams.get('from') || '',
+      to: searchParams.get('to') || '',
+      excludeBookingId: searchParams.get('excludeBookingId'),
+    });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('required') || error.message.includes('range') || error.message.includes('before') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in client slots GET:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
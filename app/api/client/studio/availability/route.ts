@@ -8,6 +8,7 @@ import { getClientStudioAvailability } from '@/lib/services/availability-service
  * Query params:
  * - trainerId (optional): Filter by specific trainer
  * - date (optional): Filter by specific date (YYYY-MM-DD)
+ * - serviceId (optional): Service being booked, so its buffers are allowed for
  */
 export async function GET(request: NextRequest) {
   try {
@@ -20,11 +21,13 @@ export async function GET(request: NextRequest) {
 
     const trainerId = request.nextUrl.searchParams.get('trainerId');
     const date = request.nextUrl.searchParams.get('date');
+    const serviceId = request.nextUrl.searchParams.get('serviceId');
 
     const { data, error } = await getClientStudioAvailability(
       user.email || '',
       trainerId,
-      date
+      date,
+      serviceId
     );
 
     if (error) {
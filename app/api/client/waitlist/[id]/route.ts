@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { acceptWaitlistOffer } from '@/lib/services/client-booking-service';
+import { leaveWaitlist } from '@/lib/services/waitlist-service';
+
+/**
+ * POST /api/client/waitlist/[id]
+ * Accept the place being held for this waitlist entry (deducts credits, confirms booking)
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error, status } = await acceptWaitlistOffer(user.email!, id, user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: status || 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in client waitlist POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/client/waitlist/[id]
+ * Leave the waitlist, or decline an open offer so it passes to the next person
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = await leaveWaitlist(user.email!, id, user.id);
+
+    if (error) {
+      const status = error.message.includes('not found')
+        ? 404
+        : error.message.includes('no longer')
+        ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in client waitlist DELETE:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { extendPackageExpiry } from '@/lib/services/package-expiry-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * POST /api/clients/[id]/packages/[packageId]/extend
+ * Move a package's expiry date later, reinstating its credits if it has
+ * already expired. Body: { expiresAt, reason? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; packageId: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.FINANCE.MANAGE as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id, packageId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { expiresAt, reason } = body as { expiresAt?: string; reason?: string };
+
+    if (!expiresAt) {
+      return NextResponse.json({ error: 'expiresAt is required' }, { status: 400 });
+    }
+
+    const { data, error } = await extendPackageExpiry({
+      clientId: id,
+      clientPackageId: packageId,
+      studioId: auth.studioId,
+      actorId: auth.user.id,
+      expiresAt,
+      reason,
+    });
+
+    if (error) {
+      const msg = error.message;
+      const status = msg.includes('not found')
+        ? 404
+        : msg.includes('changed while')
+          ? 409
+          : msg.includes('Invalid') || msg.includes('must be') || msg.includes('can be extended')
+            ? 400
+            : 500;
+      return NextResponse.json({ error: msg }, { status });
+    }
+    return NextResponse.json({ package: data });
+  } catch (error) {
+    console.error('Error extending package expiry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
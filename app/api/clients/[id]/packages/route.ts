@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { getClientPackageExpiries } from '@/lib/services/package-expiry-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * GET /api/clients/[id]/packages
+ * The client's packages with their expiry dates and extension history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.FINANCE.VIEW as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { data, error } = await getClientPackageExpiries({ clientId: id, studioId: auth.studioId });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ packages: data });
+  } catch (error) {
+    console.error('Error fetching client packages:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { lookupUserProfile } from '@/lib/services/profile-service';
+import { applySimpleCreditEntry } from '@/lib/services/credit-ledger-service';
 
 const COOLDOWN_MINUTES = 30;
 
@@ -97,27 +98,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get current credits
-    const { data: client, error: clientError } = await serviceClient
-      .from('fc_clients')
-      .select('credits')
-      .eq('id', clientId)
-      .single();
-
-    if (clientError || !client) {
-      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
-    }
-
-    const currentCredits = client.credits || 0;
-    const newTotal = currentCredits + 1;
-
-    // Update credits
-    const { error: updateError } = await serviceClient
-      .from('fc_clients')
-      .update({ credits: newTotal })
-      .eq('id', clientId);
+    const { data: newTotal, error: updateError } = await applySimpleCreditEntry(clientId, {
+      entryType: 'grant',
+      credits: 1,
+      reason: 'reward',
+      notes: reason.trim(),
+      createdBy: user.id,
+    });
 
     if (updateError) {
+      if (updateError.message.includes('not found')) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+      }
       return NextResponse.json({ error: 'Failed to update credits' }, { status: 500 });
     }
 
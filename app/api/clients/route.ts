@@ -145,7 +145,7 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'id is required' }, { status: 400 });
     }
 
-    const { data, error } = await updateClient(body.id, body);
+    const { data, error } = await updateClient(body.id, body, user.id);
 
     if (error) {
       return NextResponse.json(
@@ -205,7 +205,7 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const studioId = profile.studio_id || user.id;
 
-    const { data, error } = await patchClient(clientId, studioId, role, body);
+    const { data, error } = await patchClient(clientId, studioId, role, body, user.id);
 
     if (error) {
       const status = error.message.includes('not found') ? 404
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { sendRescheduleEmail } from '@/lib/notifications/email-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { formatLocationLabel } from '@/lib/services/location-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,8 +26,11 @@ export async function POST(request: NextRequest) {
       .from('ta_bookings')
       .select(`
         id,
+        duration,
+        ics_sequence,
         client:fc_clients(email, first_name, last_name),
-        service:ta_services(name)
+        service:ta_services(name),
+        location:bs_locations(name, address)
       `)
       .eq('id', bookingId)
       .single();
@@ -62,6 +67,10 @@ export async function POST(request: NextRequest) {
       oldTime,
       newTime,
       bookingId,
+      timezone: await getTrainerTimezone(user.id),
+      duration: booking.duration,
+      location: formatLocationLabel(booking.location as { name: string; address: string | null } | null),
+      sequence: booking.ics_sequence,
     });
 
     return NextResponse.json({ success: true });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { sendSoftHoldEmail } from '@/lib/notifications/email-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -53,6 +54,7 @@ export async function POST(request: NextRequest) {
       sessionDatetime,
       creditsRequired: creditsRequired || 1,
       holdExpiry,
+      timezone: await getTrainerTimezone(user.id),
     });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { canManageTeam, isSoloPractitioner } from '@/lib/permissions';
+import { applyLeaveAction } from '@/lib/services/leave-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * POST /api/leave-requests/[id]/actions
+ * Reassign, offer new times for, or cancel bookings inside approved leave
+ * Body: { action: 'reassign' | 'propose' | 'cancel', bookingIds, trainerId? }
+ * Returns which bookings succeeded and why any failed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!canManageTeam(auth.role) && !isSoloPractitioner(auth.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { data, error } = await applyLeaveAction({
+      studioId: auth.studioId,
+      leaveRequestId: id,
+      actorId: auth.user.id,
+      input: body,
+    });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('required') || error.message.includes('must') || error.message.includes('Cannot') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ result: data });
+  } catch (error) {
+    console.error('Error applying leave action:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
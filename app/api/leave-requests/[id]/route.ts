@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { canManageTeam, isSoloPractitioner } from '@/lib/permissions';
+import { cancelLeaveRequest, reviewLeaveRequest } from '@/lib/services/leave-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * PATCH /api/leave-requests/[id]
+ * { status: 'approved' | 'declined', note? } reviews a pending request (owners and managers);
+ * { status: 'cancelled' } withdraws it (the trainer, or a reviewer)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const canManage = canManageTeam(auth.role) || isSoloPractitioner(auth.role);
+
+    if (body.status !== 'cancelled' && !canManage) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data, error } = body.status === 'cancelled'
+      ? await cancelLeaveRequest({ studioId: auth.studioId, leaveRequestId: id, userId: auth.user.id, canManage })
+      : await reviewLeaveRequest({ studioId: auth.studioId, leaveRequestId: id, reviewerId: auth.user.id, input: body });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('changed') ? 409
+        : error.message.includes('Cannot') || error.message.includes('must') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ leaveRequest: data });
+  } catch (error) {
+    console.error('Error updating leave request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { canManageTeam, isSoloPractitioner } from '@/lib/permissions';
+import { createLeaveRequest, getLeaveRequests } from '@/lib/services/leave-service';
+import type { LeaveStatus } from '@/lib/types/leave';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * GET /api/leave-requests
+ * Owners and managers see the whole studio's leave; trainers see their own
+ * Query: ?status=pending|approved|declined|cancelled
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') as LeaveStatus | null;
+    const { data, error } = await getLeaveRequests({
+      studioId: auth.studioId,
+      trainerId: canManageTeam(auth.role) ? undefined : auth.user.id,
+      status: status || undefined,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ leaveRequests: data });
+  } catch (error) {
+    console.error('Error fetching leave requests:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/leave-requests
+ * Request days off ({ startDate, endDate, reason? }). Owners, managers and
+ * solo practitioners' own leave is approved straight away.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (auth.role === 'client') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { data, error } = await createLeaveRequest({
+      studioId: auth.studioId,
+      trainerId: auth.user.id,
+      input: body,
+      autoApprove: canManageTeam(auth.role) || isSoloPractitioner(auth.role),
+    });
+
+    if (error) {
+      const status = error.message.includes('overlap') ? 409
+        : error.message.includes('required') || error.message.includes('must') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ leaveRequest: data }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating leave request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { canManageLocations, hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { updateLocation, deleteLocation } from '@/lib/services/location-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * PATCH /api/locations/[id]
+ * Updates a location's name, address, opening hours or rooms
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!canManageLocations(auth.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { data, error } = await updateLocation(auth.studioId, id, body);
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('required') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ location: data });
+  } catch (error) {
+    console.error('Error updating location:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/locations/[id]
+ * Removes a location (soft delete)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.LOCATIONS.DELETE as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { data, error } = await deleteLocation(auth.studioId, id);
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ location: data, success: true });
+  } catch (error) {
+    console.error('Error deleting location:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
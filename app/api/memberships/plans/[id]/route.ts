@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { updateMembershipPlan } from '@/lib/services/membership-service';
+import type { MembershipPlanInput } from '@/lib/types/membership';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * PATCH /api/memberships/plans/[id]
+ * Update a plan; send isActive: false to take it out of the shop
+ * Body: Partial<{ name, description, priceCents, interval, creditsPerPeriod, rolloverCap, isActive }>
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.FINANCE.MANAGE as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => ({}))) as Partial<MembershipPlanInput>;
+    const { data, error } = await updateMembershipPlan({ planId: id, studioId: auth.studioId, input: body });
+
+    if (error) {
+      const msg = error.message;
+      const status = msg.includes('not found')
+        ? 404
+        : msg.includes('required') || msg.includes('must be')
+          ? 400
+          : 500;
+      return NextResponse.json({ error: msg }, { status });
+    }
+    return NextResponse.json({ plan: data });
+  } catch (error) {
+    console.error('Error updating membership plan:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { getMembershipPlans, createMembershipPlan } from '@/lib/services/membership-service';
+import type { MembershipPlanInput } from '@/lib/types/membership';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * GET /api/memberships/plans
+ * The studio's membership plans with their member counts
+ */
+export async function GET() {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.FINANCE.VIEW as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data, error } = await getMembershipPlans(auth.studioId);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json({ plans: data });
+  } catch (error) {
+    console.error('Error fetching membership plans:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/memberships/plans
+ * Create a plan and its Stripe price
+ * Body: { name, description?, priceCents, interval, creditsPerPeriod, rolloverCap, isActive? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.FINANCE.MANAGE as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as MembershipPlanInput;
+    const { data, error } = await createMembershipPlan({
+      studioId: auth.studioId,
+      actorId: auth.user.id,
+      input: body,
+    });
+
+    if (error) {
+      const msg = error.message;
+      const status = msg.includes('required') || msg.includes('must be') || msg.includes('not set up') ? 400 : 500;
+      return NextResponse.json({ error: msg }, { status });
+    }
+    return NextResponse.json({ plan: data }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating membership plan:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processNoShows } from '@/lib/services/no-show-service';
+
+/**
+ * POST /api/no-shows/process
+ * Cron endpoint: marks confirmed bookings that were never checked in as no-show
+ * once their grace period has passed, and settles charges whose undo window has closed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Auth via shared API key
+    const authHeader = request.headers.get('x-notification-api-key');
+    const expectedKey = process.env.NOTIFICATION_API_KEY;
+
+    if (!expectedKey || authHeader !== expectedKey) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const batchSize = (body as { batchSize?: number }).batchSize || 50;
+
+    const { data, error } = await processNoShows(batchSize);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error processing no-shows:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processPackageExpiry } from '@/lib/services/package-expiry-service';
+
+/**
+ * POST /api/packages/expiry/process
+ * Cron endpoint: expires client packages at expires_at (writing their unused
+ * credits off in the credit ledger) and warns clients 14 and 3 days before.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Auth via shared API key
+    const authHeader = request.headers.get('x-notification-api-key');
+    const expectedKey = process.env.NOTIFICATION_API_KEY;
+
+    if (!expectedKey || authHeader !== expectedKey) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const batchSize = (body as { batchSize?: number }).batchSize || 100;
+
+    const { data, error } = await processPackageExpiry(batchSize);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error processing package expiry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { refundPayment } from '@/lib/services/refund-service';
+import type { RefundPaymentInput } from '@/lib/types/refund';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * POST /api/payments/[id]/refund
+ * Refund all or part of a payment through Stripe, optionally taking back
+ * unused package credits in proportion.
+ * Body: { amountCents?, reason?, clawBackCredits? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!hasPermission(auth.role, PERMISSIONS.FINANCE.MANAGE as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => ({}))) as RefundPaymentInput;
+
+    const { data, error, warnings } = await refundPayment({
+      paymentId: id,
+      studioId: auth.studioId,
+      actorId: auth.user.id,
+      input: {
+        amountCents: body.amountCents,
+        reason: body.reason,
+        clawBackCredits: body.clawBackCredits === true,
+      },
+    });
+
+    if (error) {
+      const msg = error.message;
+      const status = msg.includes('not found')
+        ? 404
+        : msg.includes('changed while')
+          ? 409
+          : msg.includes('must be') || msg.includes('already been') || msg.includes('can be refunded') ||
+              msg.includes('cannot be refunded') || msg.includes('Stripe refused')
+            ? 400
+            : 500;
+      return NextResponse.json({ error: msg }, { status });
+    }
+    return NextResponse.json({ payment: data, warnings: warnings || [] });
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
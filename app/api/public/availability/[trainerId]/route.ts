@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { getBookingBlockedWindows, type BookingForBuffers } from '@/lib/services/availability-service';
 
 export async function GET(
   request: NextRequest,
@@ -7,6 +9,8 @@ export async function GET(
 ) {
   try {
     const { trainerId } = await params;
+    // Service being booked, so its before/after buffers are allowed for
+    const serviceId = request.nextUrl.searchParams.get('serviceId');
     const supabase = createServiceRoleClient();
 
     // Get weekly availability
@@ -31,7 +35,7 @@ export async function GET(
 
     const { data: bookings, error: bookingsError } = await supabase
       .from('ta_bookings')
-      .select('scheduled_at, duration')
+      .select('id, trainer_id, studio_id, location_id, scheduled_at, duration, service:ta_services(booking_buffer_minutes, booking_buffer_before_minutes)')
       .eq('trainer_id', trainerId)
       .gte('scheduled_at', now.toISOString())
       .lte('scheduled_at', fourWeeksFromNow.toISOString())
@@ -45,7 +49,13 @@ export async function GET(
       );
     }
 
+    // Availability hours are wall-clock times in the trainer's zone
+    const timezone = await getTrainerTimezone(trainerId);
+
+    const blockedWindows = await getBookingBlockedWindows(bookings || [], serviceId);
+
     return NextResponse.json({
+      timezone,
       availability: availability?.map((a: { day_of_week: number; start_hour: number; start_minute: number; end_hour: number; end_minute: number }) => ({
         dayOfWeek: a.day_of_week,
         startHour: a.start_hour,
@@ -53,9 +63,11 @@ export async function GET(
         endHour: a.end_hour,
         endMinute: a.end_minute || 0,
       })) || [],
-      bookings: bookings?.map((b: { scheduled_at: string; duration: number }) => ({
+      bookings: bookings?.map((b: BookingForBuffers) => ({
         scheduledAt: b.scheduled_at,
         duration: b.duration,
+        blockedFrom: blockedWindows.get(b.id)?.blockedFrom,
+        blockedUntil: blockedWindows.get(b.id)?.blockedUntil,
       })) || [],
     });
   } catch (error) {
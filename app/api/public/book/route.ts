@@ -14,6 +14,7 @@ export async function POST(request: NextRequest) {
       phone,
       termsContent,
       termsVersion,
+      intakeAnswers,
     } = body;
 
     // Validate required fields
@@ -34,13 +35,16 @@ export async function POST(request: NextRequest) {
       phone,
       termsContent,
       termsVersion,
+      intakeAnswers: Array.isArray(intakeAnswers) ? intakeAnswers : undefined,
     });
 
     if (error) {
       const status = error.message.includes('not found') || error.message.includes('not available')
         ? 404
-        : error.message.includes('no longer available')
+        : error.message.includes('no longer available') || error.message.includes('waitlist')
         ? 409
+        : error.message.startsWith('Please ')
+        ? 400
         : 500;
       return NextResponse.json({ error: error.message }, { status });
     }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getServiceIntakeQuestions } from '@/lib/services/intake-service';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ serviceId: string }> }
+) {
+  try {
+    const { serviceId } = await params;
+    const supabase = createServiceRoleClient();
+
+    // Only bookable services expose their questions
+    const { data: service } = await supabase
+      .from('ta_services')
+      .select('id')
+      .eq('id', serviceId)
+      .eq('is_public', true)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!service) {
+      return NextResponse.json({ error: 'Service not found' }, { status: 404 });
+    }
+
+    const { data: questions, error } = await getServiceIntakeQuestions(serviceId);
+
+    if (error) {
+      console.error('Error fetching intake questions:', error);
+      return NextResponse.json({ error: 'Failed to fetch intake questions' }, { status: 500 });
+    }
+
+    return NextResponse.json({ questions: questions || [] });
+  } catch (error) {
+    console.error('Error fetching intake questions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrainerStudioLocations } from '@/lib/services/location-service';
+
+/**
+ * GET /api/public/locations/[trainerId]
+ * Active locations of the trainer's studio, for the public booking page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ trainerId: string }> }
+) {
+  try {
+    const { trainerId } = await params;
+    const { data, error } = await getTrainerStudioLocations(trainerId);
+
+    if (error) {
+      console.error('Error fetching locations:', error);
+      return NextResponse.json({ error: 'Failed to fetch locations' }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      (data || []).map((l) => ({
+        id: l.id,
+        name: l.name,
+        address: l.address,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
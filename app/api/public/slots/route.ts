@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublicBookableSlots } from '@/lib/services/slot-service';
+
+/**
+ * GET /api/public/slots
+ * Bookable slots for a public service
+ * Query params:
+ * - serviceId (required)
+ * - from, to (required): Date range (YYYY-MM-DD, inclusive)
+ * - trainerId (optional): Defaults to the trainer who offers the service
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const serviceId = searchParams.get('serviceId');
+
+    if (!serviceId) {
+      return NextResponse.json({ error: 'serviceId is required' }, { status: 400 });
+    }
+
+    const { data, error } = await getPublicBookableSlots({
+      serviceId,
+      trainerId: searchParams.get('trainerId'),
+      from: searchParams.get('from') || '',
+      to: searchParams.get('to') || '',
+    });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('required') || error.message.includes('range') || error.message.includes('before') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching public slots:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { canManageLocations } from '@/lib/permissions';
+import { getResources, createResource } from '@/lib/services/resource-service';
+
+async function authenticate() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+  const serviceClient = createServiceRoleClient();
+  const profile = await lookupUserProfile(serviceClient, user);
+  if (!profile) return null;
+  const studioId = profile.studio_id || user.id;
+  return { user, studioId, role: profile.role };
+}
+
+/**
+ * GET /api/resources
+ * Lists the studio's rooms and equipment. Any staff member can read them so
+ * services can be linked to the resources they need.
+ * Query params:
+ * - activeOnly (optional): 'true' to hide removed resources
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const activeOnly = request.nextUrl.searchParams.get('activeOnly') === 'true';
+    const { data, error } = await getResources(auth.studioId, { activeOnly });
+
+    if (error) return NextResponse.json({ error: 'Failed to fetch resources', details: error.message }, { status: 500 });
+    return NextResponse.json({ resources: data || [] });
+  } catch (error) {
+    console.error('Error fetching resources:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/resources
+ * Creates a room or piece of equipment (studio owners only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate();
+    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!canManageLocations(auth.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { data, error } = await createResource(auth.studioId, body);
+
+    if (error) {
+      const status = error.message.includes('required') || error.message.includes('must be') ? 400 : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    return NextResponse.json({ resource: data }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating resource:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
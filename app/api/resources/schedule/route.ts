@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { lookupUserProfile } from '@/lib/services/profile-service';
+import { hasPermission, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { getResourceSchedule } from '@/lib/services/resource-service';
+import { ACTIVE_BOOKING_STATUSES } from '@/lib/services/group-class-service';
+
+/**
+ * GET /api/resources/schedule
+ * Sessions holding each of the studio's resources, for the resource calendar
+ * Query params:
+ * - from (required): ISO start of the range
+ * - to (required): ISO end of the range
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceRoleClient();
+    const profile = await lookupUserProfile(serviceClient, user);
+    if (!profile || !hasPermission(profile.role, PERMISSIONS.LOCATIONS.VIEW as Permission)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+    if (!from || !to) {
+      return NextResponse.json({ error: 'from and to are required' }, { status: 400 });
+    }
+
+    const { data, error } = await getResourceSchedule({
+      studioId: profile.studio_id || user.id,
+      from,
+      to,
+      activeStatuses: ACTIVE_BOOKING_STATUSES,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: 'Failed to fetch resource schedule', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ resources: data || [] });
+  } catch (error) {
+    console.error('Error fetching resource schedule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
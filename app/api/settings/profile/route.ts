@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { MAX_BUFFER_MINUTES } from '@/lib/utils/booking-buffers';
+import { isValidTimezone } from '@/lib/utils/timezone';
 
 const ALLOWED_FIELDS = [
   'first_name',
@@ -29,7 +31,18 @@ export async function GET() {
       return NextResponse.json({ error: profileError.message }, { status: 500 });
     }
 
-    return NextResponse.json(profile || {});
+    // Travel time between locations and the trainer's own timezone are kept on their staff record
+    const { data: staff } = await serviceClient
+      .from('bs_staff')
+      .select('travel_buffer_minutes, timezone')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    return NextResponse.json({
+      ...(profile || {}),
+      travel_buffer_minutes: staff?.travel_buffer_minutes ?? 0,
+      timezone: staff?.timezone ?? null,
+    });
   } catch (error) {
     console.error('Error fetching profile settings:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -67,7 +80,33 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    if (Object.keys(updates).length === 0 && !emailChangeInitiated) {
+    const staffUpdates: Record<string, unknown> = {};
+    if ('travel_buffer_minutes' in body) {
+      staffUpdates.travel_buffer_minutes = Math.min(
+        MAX_BUFFER_MINUTES,
+        Math.max(0, Math.round(Number(body.travel_buffer_minutes) || 0))
+      );
+    }
+    // Empty means the trainer works in their studio's timezone
+    if ('timezone' in body) {
+      if (body.timezone && !isValidTimezone(body.timezone)) {
+        return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 });
+      }
+      staffUpdates.timezone = body.timezone || null;
+    }
+
+    if (Object.keys(staffUpdates).length > 0) {
+      const serviceClient = createServiceRoleClient();
+      const { error: staffError } = await serviceClient
+        .from('bs_staff')
+        .update(staffUpdates)
+        .eq('id', user.id);
+      if (staffError) {
+        return NextResponse.json({ error: staffError.message }, { status: 500 });
+      }
+    }
+
+    if (Object.keys(updates).length === 0 && !emailChangeInitiated && Object.keys(staffUpdates).length === 0) {
       return NextResponse.json({ error: 'No valid fields provided' }, { status: 400 });
     }
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { isValidTimezone } from '@/lib/utils/timezone';
 
 const ALLOWED_FIELDS = [
   'booking_model',
@@ -10,6 +11,7 @@ const ALLOWED_FIELDS = [
   'opening_hours',
   'session_types',
   'client_terms',
+  'timezone',
 ];
 
 export async function GET() {
@@ -35,7 +37,7 @@ export async function GET() {
     // Studio ID === user ID for solo/studio_owner
     const { data: studio, error: studioError } = await serviceClient
       .from('bs_studios')
-      .select('booking_model, soft_hold_length, cancellation_window_hours, cancellation_policy, waitlist_config, opening_hours, session_types, client_terms')
+      .select('booking_model, soft_hold_length, cancellation_window_hours, cancellation_policy, waitlist_config, opening_hours, session_types, client_terms, timezone')
       .eq('owner_id', user.id)
       .maybeSingle();
 
@@ -79,6 +81,10 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    if ('timezone' in updates && !isValidTimezone(updates.timezone as string)) {
+      return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 });
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No valid fields provided' }, { status: 400 });
     }
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getBookableSlots } from '@/lib/services/slot-service';
+
+/**
+ * GET /api/slots
+ * Bookable slots in the signed-in trainer's calendar
+ * Query params:
+ * - serviceId (required)
+ * - from, to (required): Date range (YYYY-MM-DD, inclusive)
+ * - excludeBookingId (optional): Booking being moved, so it doesn't block itself
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const serviceId = searchParams.get('serviceId');
+
+    if (!serviceId) {
+      return NextResponse.json({ error: 'serviceId is required' }, { status: 400 });
+    }
+
+    const { data, error } = await getBookableSlots({
+      serviceId,
+      trainerIds: [user.id],
+      from: searchParams.get('from') || '',
+      to: searchParams.get('to') || '',
+      excludeBookingId: searchParams.get('excludeBookingId'),
+    });
+
+    if (error) {
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('required') || error.message.includes('range') || error.message.includes('before') ? 400
+        : 500;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processSoftHolds } from '@/lib/services/soft-hold-service';
+
+/**
+ * POST /api/soft-holds/process
+ * Cron endpoint: releases soft-holds at hold_expiry (expiring their unpaid
+ * Stripe checkouts and emailing the client) and reminds clients whose hold
+ * is about to run out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Auth via shared API key
+    const authHeader = request.headers.get('x-notification-api-key');
+    const expectedKey = process.env.NOTIFICATION_API_KEY;
+
+    if (!expectedKey || authHeader !== expectedKey) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const batchSize = (body as { batchSize?: number }).batchSize || 100;
+
+    const { data, error } = await processSoftHolds(batchSize);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error processing soft-holds:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -7,6 +7,9 @@ import {
   handlePaymentFailed,
   handleAccountUpdated,
   handleChargeRefunded,
+  handleInvoicePaid,
+  handleInvoicePaymentFailed,
+  handleSubscriptionChanged,
 } from '@/lib/services/stripe-webhook-service';
 
 export async function POST(request: NextRequest) {
@@ -48,6 +51,18 @@ export async function POST(request: NextRequest) {
       case 'charge.refunded':
         await handleChargeRefunded(event.data.object as Stripe.Charge);
         break;
+      case 'invoice.paid':
+        await handleInvoicePaid(event.data.object as Stripe.Invoice);
+        break;
+      case 'invoice.payment_failed':
+      case 'invoice.payment_action_required':
+        await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+        break;
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await handleSubscriptionChanged(event.data.object as Stripe.Subscription);
+        break;
     }
 
     return NextResponse.json({ received: true });
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseExpiredSoftHolds } from '@/lib/services/soft-hold-service';
+
+/**
+ * POST /api/waitlist/process
+ * Cron endpoint: releases expired soft-holds (including lapsed waitlist offers)
+ * and offers each freed place to the next client on the waitlist.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Auth via shared API key
+    const authHeader = request.headers.get('x-notification-api-key');
+    const expectedKey = process.env.NOTIFICATION_API_KEY;
+
+    if (!expectedKey || authHeader !== expectedKey) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = await releaseExpiredSoftHolds();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error processing waitlist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
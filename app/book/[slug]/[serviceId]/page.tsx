@@ -20,13 +20,16 @@ import {
   addDays,
   addWeeks,
   isSameDay,
-  isAfter,
   isBefore,
-  setHours,
-  setMinutes,
   startOfDay,
 } from 'date-fns';
 import { cn } from '@/lib/utils/cn';
+import {
+  DEFAULT_TIMEZONE,
+  formatInTimeZone,
+  getZonedDateKey,
+} from '@/lib/utils/timezone';
+import type { BookableSlot } from '@/lib/types/slots';
 
 interface Service {
   id: string;
@@ -37,19 +40,6 @@ interface Service {
   trainerId: string;
 }
 
-interface AvailabilitySlot {
-  dayOfWeek: number;
-  startHour: number;
-  startMinute: number;
-  endHour: number;
-  endMinute: number;
-}
-
-interface ExistingBooking {
-  scheduledAt: Date;
-  duration: number;
-}
-
 interface TimeSlot {
   time: Date;
   available: boolean;
@@ -62,8 +52,8 @@ export default function ServiceBookingPage() {
   const serviceId = params.serviceId as string;
 
   const [service, setService] = useState<Service | null>(null);
-  const [availability, setAvailability] = useState<AvailabilitySlot[]>([]);
-  const [existingBookings, setExistingBookings] = useState<ExistingBooking[]>([]);
+  const [weekSlots, setWeekSlots] = useState<TimeSlot[]>([]);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
   const [isLoading, setIsLoading] = useState(true);
   const [currentWeekStart, setCurrentWeekStart] = useState(() =>
     startOfWeek(new Date(), { weekStartsOn: 1 })
@@ -112,45 +102,6 @@ export default function ServiceBookingPage() {
           priceCents: serviceData.price_cents,
           trainerId: serviceData.created_by,
         });
-
-        // Load trainer availability
-        const { data: availData } = await supabase
-          .from('ta_availability')
-          .select('day_of_week, start_hour, start_minute, end_hour, end_minute')
-          .eq('trainer_id', serviceData.created_by)
-          .eq('block_type', 'available')
-          .eq('recurrence', 'weekly');
-
-        if (availData) {
-          setAvailability(
-            availData.map((a: { day_of_week: number; start_hour: number; start_minute?: number; end_hour: number; end_minute?: number }) => ({
-              dayOfWeek: a.day_of_week,
-              startHour: a.start_hour,
-              startMinute: a.start_minute || 0,
-              endHour: a.end_hour,
-              endMinute: a.end_minute || 0,
-            }))
-          );
-        }
-
-        // Load existing bookings for next 4 weeks
-        const fourWeeksFromNow = addWeeks(new Date(), 4);
-        const { data: bookingsData } = await supabase
-          .from('ta_bookings')
-          .select('scheduled_at, duration')
-          .eq('trainer_id', serviceData.created_by)
-          .gte('scheduled_at', new Date().toISOString())
-          .lte('scheduled_at', fourWeeksFromNow.toISOString())
-          .in('status', ['confirmed', 'soft-hold', 'checked-in']);
-
-        if (bookingsData) {
-          setExistingBookings(
-            bookingsData.map((b: { scheduled_at: string; duration: number }) => ({
-              scheduledAt: new Date(b.scheduled_at),
-              duration: b.duration,
-            }))
-          );
-        }
       }
 
       setIsLoading(false);
@@ -164,73 +115,47 @@ export default function ServiceBookingPage() {
     return Array.from({ length: 7 }, (_, i) => addDays(currentWeekStart, i));
   }, [currentWeekStart]);
 
-  // Check if a day has availability
-  const dayHasAvailability = (date: Date) => {
-    const dayOfWeek = date.getDay();
-    return availability.some((a) => a.dayOfWeek === dayOfWeek);
-  };
+  // Bookable slots for the visible week are computed by the server
+  useEffect(() => {
+    if (!service) return;
 
-  // Generate time slots for selected date
-  const timeSlots = useMemo(() => {
-    if (!selectedDate || !service) return [];
-
-    const dayOfWeek = selectedDate.getDay();
-    const dayAvailability = availability.filter((a) => a.dayOfWeek === dayOfWeek);
-
-    if (dayAvailability.length === 0) return [];
-
-    const slots: TimeSlot[] = [];
-    const now = new Date();
-    const isToday = isSameDay(selectedDate, now);
-
-    dayAvailability.forEach((avail) => {
-      let currentTime = setMinutes(
-        setHours(startOfDay(selectedDate), avail.startHour),
-        avail.startMinute
-      );
-      const endTime = setMinutes(
-        setHours(startOfDay(selectedDate), avail.endHour),
-        avail.endMinute
-      );
-
-      // Generate slots at 30-minute intervals
-      while (isBefore(currentTime, endTime)) {
-        const slotEnd = addDays(currentTime, 0);
-        slotEnd.setMinutes(slotEnd.getMinutes() + service.duration);
-
-        // Check if slot would extend past availability
-        if (isAfter(slotEnd, endTime)) break;
-
-        // Check if slot is in the past
-        if (isToday && isBefore(currentTime, now)) {
-          currentTime = new Date(currentTime.getTime() + 30 * 60 * 1000);
-          continue;
-        }
-
-        // Check if slot conflicts with existing booking
-        const hasConflict = existingBookings.some((booking) => {
-          const bookingEnd = new Date(
-            booking.scheduledAt.getTime() + booking.duration * 60 * 1000
-          );
-          return (
-            (currentTime >= booking.scheduledAt && currentTime < bookingEnd) ||
-            (slotEnd > booking.scheduledAt && slotEnd <= bookingEnd) ||
-            (currentTime <= booking.scheduledAt && slotEnd >= bookingEnd)
-          );
-        });
+    const loadSlots = async () => {
+      const params = new URLSearchParams({
+        serviceId: service.id,
+        trainerId: service.trainerId,
+        from: format(currentWeekStart, 'yyyy-MM-dd'),
+        to: format(addDays(currentWeekStart, 6), 'yyyy-MM-dd'),
+      });
+
+      const res = await fetch(`/api/public/slots?${params.toString()}`);
+      if (res.ok) {
+        const data = await res.json();
+        setTimezone(data.timezone || DEFAULT_TIMEZONE);
+        setWeekSlots(
+          (data.slots || []).map((slot: BookableSlot) => ({
+            time: new Date(slot.startsAt),
+            available: true,
+          }))
+        );
+      } else {
+        setWeekSlots([]);
+      }
+    };
 
-        slots.push({
-          time: new Date(currentTime),
-          available: !hasConflict,
-        });
+    loadSlots();
+  }, [service, currentWeekStart]);
 
-        // Move to next slot
-        currentTime = new Date(currentTime.getTime() + 30 * 60 * 1000);
-      }
-    });
+  // Slots on a calendar day, read in the trainer's zone
+  const getSlotsForDay = (date: Date) => {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    return weekSlots.filter((slot) => getZonedDateKey(slot.time, timezone) === dateKey);
+  };
+
+  // Check if a day has availability
+  const dayHasAvailability = (date: Date) => getSlotsForDay(date).length > 0;
 
-    return slots;
-  }, [selectedDate, availability, existingBookings, service]);
+  // Time slots for selected date
+  const timeSlots = selectedDate ? getSlotsForDay(selectedDate) : [];
 
   const handleContinue = () => {
     if (!selectedTime || !service) return;
@@ -245,6 +170,7 @@ export default function ServiceBookingPage() {
         priceCents: service.priceCents,
         trainerId: service.trainerId,
         scheduledAt: selectedTime.toISOString(),
+        timezone,
         slug,
       })
     );
@@ -387,6 +313,9 @@ export default function ServiceBookingPage() {
                 <Clock size={20} />
                 Select a Time
               </CardTitle>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Times shown in {timezone.replace(/_/g, ' ')}
+              </p>
             </CardHeader>
             <CardContent>
               {!selectedDate ? (
@@ -418,7 +347,7 @@ export default function ServiceBookingPage() {
                           : undefined
                       }
                     >
-                      {format(slot.time, 'HH:mm')}
+                      {formatInTimeZone(slot.time, timezone, 'HH:mm')}
                     </button>
                   ))}
                 </div>
@@ -440,8 +369,8 @@ export default function ServiceBookingPage() {
                     Your selection
                   </p>
                   <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                    {format(selectedTime, 'EEEE, MMMM d')} at{' '}
-                    {format(selectedTime, 'h:mm a')}
+                    {formatInTimeZone(selectedTime, timezone, 'EEEE, MMMM d')} at{' '}
+                    {formatInTimeZone(selectedTime, timezone, 'h:mm a')}
                   </p>
                 </div>
                 <Button
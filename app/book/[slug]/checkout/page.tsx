@@ -17,8 +17,16 @@ import {
   FileText,
   ChevronDown,
   ChevronUp,
+  ListOrdered,
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { formatInTimeZone } from '@/lib/utils/timezone';
+import {
+  IntakeQuestionFields,
+  findUnansweredIntakeQuestion,
+  toIntakeAnswerInputs,
+  type IntakeAnswers,
+} from '@/components/shared/IntakeQuestionFields';
+import type { IntakeQuestion } from '@/lib/types/intake';
 
 interface BookingSelection {
   serviceId: string;
@@ -27,6 +35,7 @@ interface BookingSelection {
   priceCents: number | null;
   trainerId: string;
   scheduledAt: string;
+  timezone?: string;
   slug: string;
 }
 
@@ -54,6 +63,9 @@ export default function CheckoutPage() {
   const [brandColor, setBrandColor] = useState('#3B82F6');
   const [trainerTerms, setTrainerTerms] = useState<TrainerTerms | null>(null);
   const [termsExpanded, setTermsExpanded] = useState(false);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const [intakeQuestions, setIntakeQuestions] = useState<IntakeQuestion[]>([]);
+  const [intakeAnswers, setIntakeAnswers] = useState<IntakeAnswers>({});
 
   // Load selection and brand color from sessionStorage
   useEffect(() => {
@@ -84,6 +96,15 @@ export default function CheckoutPage() {
       .catch(() => setTrainerTerms({ active: false }));
   }, [selection?.trainerId]);
 
+  // Fetch the service's intake questions
+  useEffect(() => {
+    if (!selection?.serviceId) return;
+    fetch(`/api/public/intake/${selection.serviceId}`)
+      .then(res => res.json())
+      .then((data: { questions?: IntakeQuestion[] }) => setIntakeQuestions(data.questions || []))
+      .catch(() => setIntakeQuestions([]));
+  }, [selection?.serviceId]);
+
   const validate = () => {
     const newErrors: Record<string, string> = {};
     if (!formData.firstName.trim()) newErrors.firstName = 'Required';
@@ -92,6 +113,8 @@ export default function CheckoutPage() {
     if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
       newErrors.email = 'Invalid email';
     }
+    const unanswered = findUnansweredIntakeQuestion(intakeQuestions, intakeAnswers);
+    if (unanswered) newErrors.intake = `Please answer: ${unanswered.label}`;
     if (!agreeToTerms) newErrors.terms = 'Please agree to the terms';
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -117,6 +140,7 @@ export default function CheckoutPage() {
           lastName: formData.lastName,
           email: formData.email,
           phone: formData.phone || null,
+          intakeAnswers: toIntakeAnswerInputs(intakeAnswers),
           ...(trainerTerms?.active && trainerTerms.content ? {
             termsContent: trainerTerms.content,
             termsVersion: trainerTerms.version,
@@ -133,6 +157,12 @@ export default function CheckoutPage() {
       // Clear session storage
       sessionStorage.removeItem('booking_selection');
 
+      // Slot was taken and the studio runs a waitlist — stay here and show the queue position
+      if (data.type === 'waitlist') {
+        setWaitlistPosition(data.waitlistPosition ?? 1);
+        return;
+      }
+
       // Redirect to confirmation page with type indicator
       if (data.type === 'request') {
         router.push(`/book/${slug}/confirm/${data.requestId}?type=request`);
@@ -158,6 +188,53 @@ export default function CheckoutPage() {
   const isFree = !selection.priceCents || selection.priceCents === 0;
   const scheduledDate = new Date(selection.scheduledAt);
 
+  // ── Joined Waitlist State ──
+  if (waitlistPosition !== null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+        <div className="max-w-lg mx-auto px-4 py-12">
+          <div className="text-center mb-8">
+            <div className="w-20 h-20 bg-amber-100 dark:bg-amber-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+              <ListOrdered className="text-amber-600 dark:text-amber-400" size={44} />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-3">
+              You&apos;re on the Waitlist
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              This time was just taken. You&apos;re <span className="font-medium">#{waitlistPosition}</span> in line
+              and we&apos;ll email <span className="font-medium">{formData.email}</span> if a place opens up.
+            </p>
+          </div>
+
+          <Card className="mb-6">
+            <CardContent className="p-6 space-y-3">
+              <h2 className="font-semibold text-lg text-gray-900 dark:text-gray-100">
+                {selection.serviceName}
+              </h2>
+              <div className="flex items-center gap-3 text-gray-600 dark:text-gray-400">
+                <Calendar size={18} className="flex-shrink-0" />
+                <span>{formatInTimeZone(scheduledDate, selection.timezone, 'EEEE, MMMM d, yyyy')}</span>
+              </div>
+              <div className="flex items-center gap-3 text-gray-600 dark:text-gray-400">
+                <Clock size={18} className="flex-shrink-0" />
+                <span>{formatInTimeZone(scheduledDate, selection.timezone, 'h:mm a')}</span>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 pt-2">
+                If a place frees up it will be held for you for a limited time — claim it quickly.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Link href={`/book/${slug}`} className="block">
+            <Button variant="outline" className="w-full">
+              Choose Another Time
+            </Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
       {/* Header */}
@@ -197,7 +274,7 @@ export default function CheckoutPage() {
                   Date
                 </span>
                 <span className="font-medium text-gray-900 dark:text-gray-100">
-                  {format(scheduledDate, 'EEEE, MMMM d, yyyy')}
+                  {formatInTimeZone(scheduledDate, selection.timezone, 'EEEE, MMMM d, yyyy')}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -206,7 +283,7 @@ export default function CheckoutPage() {
                   Time
                 </span>
                 <span className="font-medium text-gray-900 dark:text-gray-100">
-                  {format(scheduledDate, 'h:mm a')} ({selection.duration} min)
+                  {formatInTimeZone(scheduledDate, selection.timezone, 'h:mm a')} ({selection.duration} min)
                 </span>
               </div>
               <div className="border-t border-gray-200 dark:border-gray-700 pt-3 mt-3">
@@ -333,6 +410,31 @@ export default function CheckoutPage() {
             </CardContent>
           </Card>
 
+          {/* Intake Questions */}
+          {intakeQuestions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Before Your Session</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Your trainer will read your answers before you arrive.
+                </p>
+                <IntakeQuestionFields
+                  questions={intakeQuestions}
+                  answers={intakeAnswers}
+                  onChange={(questionId, answer) =>
+                    setIntakeAnswers((prev) => ({ ...prev, [questionId]: answer }))
+                  }
+                  disabled={isSubmitting}
+                />
+                {errors.intake && (
+                  <p className="text-sm text-red-500">{errors.intake}</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Submit */}
           {errors.submit && (
             <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
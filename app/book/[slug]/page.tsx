@@ -15,6 +15,8 @@ import {
   Award,
 } from 'lucide-react';
 import { getSupabaseBrowserClient } from '@/lib/supabase/client';
+import { getPublicLocationsClient } from '@/lib/services/location-service-client';
+import type { PublicLocation } from '@/lib/types/location';
 
 interface TrainerProfile {
   id: string;
@@ -39,6 +41,7 @@ interface Service {
   maxCapacity: number;
   priceCents: number | null;
   isIntro: boolean;
+  locationId: string | null;
 }
 
 export default function TrainerBookingPage() {
@@ -48,6 +51,8 @@ export default function TrainerBookingPage() {
 
   const [trainer, setTrainer] = useState<TrainerProfile | null>(null);
   const [services, setServices] = useState<Service[]>([]);
+  const [locations, setLocations] = useState<PublicLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
 
@@ -87,7 +92,7 @@ export default function TrainerBookingPage() {
       // Load public services
       const { data: servicesData } = await supabase
         .from('ta_services')
-        .select('id, name, description, duration, type, max_capacity, price_cents, is_intro_session')
+        .select('id, name, description, duration, type, max_capacity, price_cents, is_intro_session, location_id')
         .eq('created_by', profile.id)
         .eq('is_public', true)
         .eq('is_active', true)
@@ -105,6 +110,7 @@ export default function TrainerBookingPage() {
             max_capacity: number;
             price_cents: number | null;
             is_intro_session: boolean | null;
+            location_id: string | null;
           }) => ({
             id: s.id,
             name: s.name,
@@ -114,10 +120,13 @@ export default function TrainerBookingPage() {
             maxCapacity: s.max_capacity,
             priceCents: s.price_cents,
             isIntro: s.is_intro_session || false,
+            locationId: s.location_id,
           }))
         );
       }
 
+      setLocations(await getPublicLocationsClient(profile.id));
+
       setIsLoading(false);
     };
 
@@ -126,6 +135,13 @@ export default function TrainerBookingPage() {
     }
   }, [slug]);
 
+  // Services with no location can be booked at any of them
+  const visibleServices = locationFilter
+    ? services.filter((s) => !s.locationId || s.locationId === locationFilter)
+    : services;
+  const getLocationName = (locationId: string | null) =>
+    locations.find((l) => l.id === locationId)?.name;
+
   // Store brand color in sessionStorage for sub-pages
   useEffect(() => {
     if (trainer?.brandColor) {
@@ -246,7 +262,29 @@ export default function TrainerBookingPage() {
           Book a Session
         </h2>
 
-        {services.length === 0 ? (
+        {locations.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {[{ id: null, name: 'All locations' }, ...locations].map((location) => {
+              const isSelected = locationFilter === location.id;
+              return (
+                <button
+                  key={location.id ?? 'all'}
+                  onClick={() => setLocationFilter(location.id)}
+                  style={isSelected ? { backgroundColor: brandColor, borderColor: brandColor } : undefined}
+                  className={
+                    isSelected
+                      ? 'px-3 py-1.5 rounded-full text-sm font-medium border text-white'
+                      : 'px-3 py-1.5 rounded-full text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }
+                >
+                  {location.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {visibleServices.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
               <p className="text-gray-600 dark:text-gray-400">
@@ -256,7 +294,7 @@ export default function TrainerBookingPage() {
           </Card>
         ) : (
           <div className="space-y-4">
-            {services.map((service) => (
+            {visibleServices.map((service) => (
               <Card
                 key={service.id}
                 className="hover:shadow-lg transition-shadow cursor-pointer"
@@ -293,6 +331,12 @@ export default function TrainerBookingPage() {
                             ? 'Duet (2 people)'
                             : `Group (up to ${service.maxCapacity})`}
                         </span>
+                        {getLocationName(service.locationId) && (
+                          <span className="flex items-center gap-1">
+                            <MapPin size={14} />
+                            {getLocationName(service.locationId)}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="text-right flex-shrink-0">
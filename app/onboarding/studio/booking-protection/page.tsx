@@ -31,7 +31,7 @@ export default function StudioBookingProtectionPage() {
             soft_hold_length: softHoldEnabled ? softHoldLength : null,
             waitlist_config: {
               enabled: waitlistEnabled,
-              max_size: waitlistEnabled ? waitlistMaxSize : null,
+              max_capacity: waitlistEnabled ? waitlistMaxSize : null,
             },
           },
           onboardingStep: 6,
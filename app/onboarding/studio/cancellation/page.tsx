@@ -18,7 +18,7 @@ interface RefundTier {
 
 const NO_SHOW_OPTIONS = [
   { id: 'charge_full', label: 'Charge full amount' },
-  { id: 'charge_partial', label: 'Charge 50%' },
+  { id: 'charge_partial', label: 'Charge 50% (rounded down)' },
   { id: 'no_charge', label: 'No charge' },
 ];
 
@@ -2,9 +2,15 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Calendar, Clock, User, CreditCard, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Calendar, Clock, User, CreditCard, AlertCircle, CheckCircle2, ClipboardList } from 'lucide-react';
 import { format } from 'date-fns';
+import {
+  IntakeQuestionFields,
+  findUnansweredIntakeQuestion,
+  type IntakeAnswers,
+} from '@/components/shared/IntakeQuestionFields';
 import type { ClientService, StudioTrainer } from '@/lib/types/client-booking';
+import type { IntakeQuestion } from '@/lib/types/intake';
 
 interface BookingConfirmationProps {
   service: ClientService;
@@ -16,6 +22,10 @@ interface BookingConfirmationProps {
   onBack: () => void;
   isSubmitting: boolean;
   error?: string | null;
+  /** The service's intake questions and the client's answers so far */
+  intakeQuestions?: IntakeQuestion[];
+  intakeAnswers?: IntakeAnswers;
+  onIntakeAnswerChange?: (questionId: string, answer: string) => void;
 }
 
 export function BookingConfirmation({
@@ -28,9 +38,13 @@ export function BookingConfirmation({
   onBack,
   isSubmitting,
   error,
+  intakeQuestions = [],
+  intakeAnswers = {},
+  onIntakeAnswerChange,
 }: BookingConfirmationProps) {
   const creditsAfterBooking = currentCredits - service.creditsRequired;
   const hasEnoughCredits = creditsAfterBooking >= 0;
+  const intakeComplete = !findUnansweredIntakeQuestion(intakeQuestions, intakeAnswers);
 
   return (
     <div className="space-y-6">
@@ -90,6 +104,29 @@ export function BookingConfirmation({
         </CardContent>
       </Card>
 
+      {/* Intake Questions */}
+      {intakeQuestions.length > 0 && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center gap-2 mb-1">
+              <ClipboardList className="text-wondrous-magenta" size={20} />
+              <span className="font-medium text-gray-900 dark:text-gray-100">
+                Before Your Session
+              </span>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Your trainer will see your answers before you arrive.
+            </p>
+            <IntakeQuestionFields
+              questions={intakeQuestions}
+              answers={intakeAnswers}
+              onChange={(questionId, answer) => onIntakeAnswerChange?.(questionId, answer)}
+              disabled={isSubmitting}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Credit Summary */}
       <Card>
         <CardContent className="p-6">
@@ -178,7 +215,7 @@ export function BookingConfirmation({
         </Button>
         <Button
           onClick={onConfirm}
-          disabled={isSubmitting || !hasEnoughCredits}
+          disabled={isSubmitting || !hasEnoughCredits || !intakeComplete}
           className="flex-1 bg-wondrous-blue hover:bg-wondrous-blue/90"
         >
           {isSubmitting ? 'Booking...' : 'Confirm Booking'}
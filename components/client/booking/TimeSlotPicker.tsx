@@ -1,25 +1,28 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
-import { format, addDays, startOfDay, isSameDay, isToday, isBefore } from 'date-fns';
+import { format, addDays, startOfDay, isSameDay, isBefore } from 'date-fns';
 import { cn } from '@/lib/utils/cn';
-import type { StudioTrainer, AvailabilitySlot, ExistingBooking } from '@/lib/types/client-booking';
+import { DEFAULT_TIMEZONE, formatInTimeZone, getZonedDateKey } from '@/lib/utils/timezone';
+import { useClientBookableSlots } from '@/lib/hooks/use-client-booking';
+import type { StudioTrainer } from '@/lib/types/client-booking';
 
 interface TimeSlotPickerProps {
-  selectedTrainer: StudioTrainer | null;
-  serviceDuration: number;
+  selectedTrainer: Pick<StudioTrainer, 'id'> | null;
+  serviceId: string;
   onSelectSlot: (date: Date, time: string, trainerId: string) => void;
   selectedDate: Date | null;
   selectedTime: string | null;
+  /** Booking being rescheduled; its own time is offered as free */
+  excludeBookingId?: string;
 }
 
 interface TimeSlot {
   time: string;
-  hour: number;
-  minute: number;
+  scheduledAt: Date;
   trainerId: string;
   trainerName: string;
   available: boolean;
@@ -27,15 +30,13 @@ interface TimeSlot {
 
 export function TimeSlotPicker({
   selectedTrainer,
-  serviceDuration,
+  serviceId,
   onSelectSlot,
   selectedDate,
   selectedTime,
+  excludeBookingId,
 }: TimeSlotPickerProps) {
   const [weekStart, setWeekStart] = useState<Date>(() => startOfDay(new Date()));
-  const [availability, setAvailability] = useState<AvailabilitySlot[]>([]);
-  const [existingBookings, setExistingBookings] = useState<ExistingBooking[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [activeDate, setActiveDate] = useState<Date | null>(selectedDate);
 
   // Generate dates for the week view
@@ -43,120 +44,37 @@ export function TimeSlotPicker({
     return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
   }, [weekStart]);
 
-  // Fetch availability when trainer or week changes
-  useEffect(() => {
-    const fetchAvailability = async () => {
-      setIsLoading(true);
-      try {
-        const trainerId = selectedTrainer?.id;
-        const params = new URLSearchParams();
-        if (trainerId && trainerId !== 'any') {
-          params.set('trainerId', trainerId);
-        }
-
-        const res = await fetch(`/api/client/studio/availability?${params.toString()}`);
-        if (res.ok) {
-          const data = await res.json();
-          setAvailability(data.availability || []);
-          setExistingBookings(data.existingBookings || []);
-        }
-      } catch (err) {
-        console.error('Error fetching availability:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchAvailability();
-  }, [selectedTrainer, weekStart]);
-
-  // Generate time slots for a given date
+  // Bookable slots for the week are computed by the server
+  const { data: slotsResult, isLoading } = useClientBookableSlots({
+    serviceId,
+    trainerId: selectedTrainer?.id,
+    from: format(weekStart, 'yyyy-MM-dd'),
+    to: format(addDays(weekStart, 6), 'yyyy-MM-dd'),
+    excludeBookingId,
+  });
+  const timezone = slotsResult?.timezone || DEFAULT_TIMEZONE;
+
+  // Time slots for a given date
   const getTimeSlotsForDate = (date: Date): TimeSlot[] => {
-    const dayOfWeek = date.getDay();
-    const slots: TimeSlot[] = [];
-    const now = new Date();
-
-    // Filter availability for this day
-    const dayAvailability = availability.filter((a) => a.dayOfWeek === dayOfWeek);
-
-    if (dayAvailability.length === 0) {
-      return [];
-    }
-
-    // Generate slots for each availability block
-    for (const avail of dayAvailability) {
-      let currentHour = avail.startHour;
-      let currentMinute = avail.startMinute;
-
-      while (
-        currentHour < avail.endHour ||
-        (currentHour === avail.endHour && currentMinute < avail.endMinute)
-      ) {
-        // Check if this slot would extend past the availability block
-        const slotEndMinutes = currentHour * 60 + currentMinute + serviceDuration;
-        const availEndMinutes = avail.endHour * 60 + avail.endMinute;
-
-        if (slotEndMinutes > availEndMinutes) {
-          break;
-        }
-
-        const slotTime = new Date(date);
-        slotTime.setHours(currentHour, currentMinute, 0, 0);
-
-        // Skip past times for today
-        if (isToday(date) && isBefore(slotTime, now)) {
-          currentMinute += 30;
-          if (currentMinute >= 60) {
-            currentHour += 1;
-            currentMinute = 0;
-          }
-          continue;
-        }
-
-        // Check for booking conflicts
-        const slotEnd = new Date(slotTime.getTime() + serviceDuration * 60 * 1000);
-        const hasConflict = existingBookings.some((booking) => {
-          if (selectedTrainer && selectedTrainer.id !== 'any' && booking.trainerId !== selectedTrainer.id) {
-            return false;
-          }
-          if (avail.trainerId !== booking.trainerId) {
-            return false;
-          }
-          const bookingStart = new Date(booking.scheduledAt);
-          const bookingEnd = new Date(bookingStart.getTime() + booking.duration * 60 * 1000);
-          return slotTime < bookingEnd && slotEnd > bookingStart;
-        });
-
-        slots.push({
-          time: format(slotTime, 'HH:mm'),
-          hour: currentHour,
-          minute: currentMinute,
-          trainerId: avail.trainerId,
-          trainerName: avail.trainerName,
-          available: !hasConflict,
-        });
-
-        // Increment by 30 minutes
-        currentMinute += 30;
-        if (currentMinute >= 60) {
-          currentHour += 1;
-          currentMinute = 0;
-        }
-      }
-    }
-
-    // Sort by time
-    slots.sort((a, b) => {
-      if (a.hour !== b.hour) return a.hour - b.hour;
-      return a.minute - b.minute;
-    });
-
-    // Remove duplicates (same time, keep first available)
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const slots: TimeSlot[] = (slotsResult?.slots || [])
+      .filter((slot) => getZonedDateKey(slot.startsAt, timezone) === dateKey)
+      .map((slot) => {
+        const scheduledAt = new Date(slot.startsAt);
+        return {
+          time: formatInTimeZone(scheduledAt, timezone, 'HH:mm'),
+          scheduledAt,
+          trainerId: slot.trainerId,
+          trainerName: slot.trainerName,
+          available: true,
+        };
+      });
+
+    // Remove duplicates (same time across trainers, keep first)
     const uniqueSlots = new Map<string, TimeSlot>();
     for (const slot of slots) {
-      const key = `${slot.time}`;
-      if (!uniqueSlots.has(key) || (slot.available && !uniqueSlots.get(key)?.available)) {
-        uniqueSlots.set(key, slot);
+      if (!uniqueSlots.has(slot.time)) {
+        uniqueSlots.set(slot.time, slot);
       }
     }
 
@@ -181,11 +99,9 @@ export function TimeSlotPicker({
     setActiveDate(date);
   };
 
-  const handleSlotClick = (slot: TimeSlot, date: Date) => {
+  const handleSlotClick = (slot: TimeSlot) => {
     if (!slot.available) return;
-    const dateTime = new Date(date);
-    dateTime.setHours(slot.hour, slot.minute, 0, 0);
-    onSelectSlot(dateTime, slot.time, slot.trainerId);
+    onSelectSlot(slot.scheduledAt, slot.time, slot.trainerId);
   };
 
   const activeSlots = activeDate ? getTimeSlotsForDate(activeDate) : [];
@@ -268,17 +184,20 @@ export function TimeSlotPicker({
             <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
               Available times for {format(activeDate, 'EEEE, MMMM d')}
             </h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 mb-3">
+              Times shown in {timezone.replace(/_/g, ' ')}
+            </p>
             <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
               {availableSlots.map((slot, index) => {
                 const isSelected =
                   selectedDate &&
                   selectedTime === slot.time &&
-                  isSameDay(selectedDate, activeDate);
+                  selectedDate.getTime() === slot.scheduledAt.getTime();
 
                 return (
                   <button
                     key={`${slot.time}-${index}`}
-                    onClick={() => handleSlotClick(slot, activeDate)}
+                    onClick={() => handleSlotClick(slot)}
                     className={cn(
                       'p-3 rounded-lg text-center transition-all border',
                       isSelected
@@ -289,10 +208,7 @@ export function TimeSlotPicker({
                     <div className="flex items-center justify-center gap-1">
                       <Clock size={12} />
                       <span className="text-sm font-medium">
-                        {format(
-                          new Date().setHours(slot.hour, slot.minute),
-                          'h:mm a'
-                        )}
+                        {formatInTimeZone(slot.scheduledAt, timezone, 'h:mm a')}
                       </span>
                     </div>
                   </button>
@@ -0,0 +1,132 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Repeat, CreditCard, RefreshCw } from 'lucide-react';
+import type { ClientMembership, MembershipInterval } from '@/lib/types/membership';
+
+interface MembershipCardProps {
+  id: string;
+  name: string;
+  description?: string | null;
+  priceCents: number;
+  interval: MembershipInterval;
+  creditsPerPeriod: number;
+  /** Unused credits carried into the next period: 0 none, null no limit */
+  rolloverCap?: number | null;
+  /** The client's membership on this plan, if they have one */
+  membership?: ClientMembership;
+  onJoin: (id: string) => void;
+  onCancel: (membershipId: string) => void;
+  isLoading: boolean;
+}
+
+export function MembershipCard({
+  id,
+  name,
+  description,
+  priceCents,
+  interval,
+  creditsPerPeriod,
+  rolloverCap,
+  membership,
+  onJoin,
+  onCancel,
+  isLoading,
+}: MembershipCardProps) {
+  const formatPrice = (cents: number) => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+    }).format(cents / 100);
+  };
+
+  const paymentFailing = membership?.status === 'past_due' || membership?.status === 'unpaid';
+  const periodEnd = membership?.currentPeriodEnd ? format(new Date(membership.currentPeriodEnd), 'd MMM yyyy') : null;
+
+  return (
+    <Card className="relative overflow-hidden hover:shadow-lg transition-shadow">
+      {membership && (
+        <div className="absolute top-0 right-0">
+          <Badge
+            className={`rounded-none rounded-bl-lg text-white ${
+              paymentFailing ? 'bg-red-500 hover:bg-red-500' : 'bg-green-500 hover:bg-green-500'
+            }`}
+          >
+            {paymentFailing ? 'PAYMENT DUE' : 'MEMBER'}
+          </Badge>
+        </div>
+      )}
+
+      <CardHeader className="pb-3">
+        <div className="flex items-start gap-3">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500/20 to-blue-600/20 flex items-center justify-center shrink-0">
+            <Repeat className="text-wondrous-blue" size={20} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <CardTitle className="text-lg leading-tight">{name}</CardTitle>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {description && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">{description}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-1.5 text-gray-600 dark:text-gray-400">
+            <CreditCard size={14} />
+            <span className="font-medium">
+              {creditsPerPeriod} session{creditsPerPeriod !== 1 ? 's' : ''} a {interval}
+            </span>
+          </div>
+          {rolloverCap !== undefined && rolloverCap !== 0 && (
+            <div className="flex items-center gap-1.5 text-gray-600 dark:text-gray-400">
+              <RefreshCw size={14} />
+              <span>{rolloverCap === null ? 'Unused sessions roll over' : `Up to ${rolloverCap} roll over`}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-baseline gap-1">
+          <span className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {formatPrice(priceCents)}
+          </span>
+          <span className="text-sm text-gray-500">/{interval}</span>
+        </div>
+
+        {membership && periodEnd && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {membership.cancelAtPeriodEnd ? `Ends ${periodEnd}` : `Renews ${periodEnd}`}
+          </p>
+        )}
+      </CardContent>
+
+      <CardFooter>
+        {!membership ? (
+          <Button className="w-full" onClick={() => onJoin(id)} disabled={isLoading}>
+            {isLoading ? 'Redirecting...' : 'Join'}
+          </Button>
+        ) : paymentFailing && membership.latestInvoiceUrl ? (
+          <Button className="w-full" asChild>
+            <a href={membership.latestInvoiceUrl} target="_blank" rel="noopener noreferrer">
+              Pay Now
+            </a>
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => onCancel(membership.id)}
+            disabled={isLoading || membership.cancelAtPeriodEnd}
+          >
+            {membership.cancelAtPeriodEnd ? 'Cancelled' : isLoading ? 'Cancelling...' : 'Cancel Membership'}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
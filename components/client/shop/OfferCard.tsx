@@ -19,6 +19,8 @@ interface OfferCardProps {
   isGift: boolean;
   isFree: boolean;
   onClaim: (id: string) => void;
+  /** Buy a priced item through checkout */
+  onBuy: (id: string) => void;
   isLoading: boolean;
 }
 
@@ -35,6 +37,7 @@ export function OfferCard({
   isGift,
   isFree,
   onClaim,
+  onBuy,
   isLoading,
 }: OfferCardProps) {
   const formatPrice = (amount: number, curr: string) => {
@@ -124,8 +127,12 @@ export function OfferCard({
             {isLoading ? 'Claiming...' : 'Claim Offer'}
           </Button>
         ) : (
-          <Button className="w-full" variant="outline" disabled>
-            Coming Soon
+          <Button
+            className="w-full"
+            onClick={() => onBuy(id)}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Redirecting...' : 'Buy Now'}
           </Button>
         )}
       </CardFooter>
@@ -16,6 +16,8 @@ interface PackageCardProps {
   savingsPercent: number | null;
   isFree: boolean;
   onClaim: (id: string) => void;
+  /** Buy a priced item through checkout */
+  onBuy: (id: string) => void;
   isLoading: boolean;
 }
 
@@ -30,6 +32,7 @@ export function PackageCard({
   savingsPercent,
   isFree,
   onClaim,
+  onBuy,
   isLoading,
 }: PackageCardProps) {
   const formatPrice = (cents: number) => {
@@ -113,8 +116,12 @@ export function PackageCard({
             {isLoading ? 'Claiming...' : 'Get Now'}
           </Button>
         ) : (
-          <Button className="w-full" variant="outline" disabled>
-            Coming Soon
+          <Button
+            className="w-full"
+            onClick={() => onBuy(id)}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Redirecting...' : 'Buy Now'}
           </Button>
         )}
       </CardFooter>
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/lib/hooks/use-toast';
+import {
+  useCalendarConnections,
+  useCreateCalendarConnection,
+  useUpdateCalendarConnection,
+  useDeleteCalendarConnection,
+  useSyncCalendarConnection,
+} from '@/lib/hooks/use-calendar-sync';
+import { CalendarSync, Plus, RefreshCw, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import type { CalendarConnection } from '@/lib/types/calendar-sync';
+
+interface ConnectionFormState {
+  displayName: string;
+  calendarUrl: string;
+  username: string;
+  password: string;
+  pushEnabled: boolean;
+  pullEnabled: boolean;
+}
+
+const EMPTY_FORM: ConnectionFormState = {
+  displayName: '',
+  calendarUrl: '',
+  username: '',
+  password: '',
+  pushEnabled: true,
+  pullEnabled: true,
+};
+
+/**
+ * CalendarConnectionManager component
+ * Connects external calendars (CalDAV) for two-way booking sync
+ */
+export function CalendarConnectionManager() {
+  const { toast } = useToast();
+  const { data: connections = [], isLoading } = useCalendarConnections();
+  const createConnection = useCreateCalendarConnection();
+  const updateConnection = useUpdateCalendarConnection();
+  const deleteConnection = useDeleteCalendarConnection();
+  const syncConnection = useSyncCalendarConnection();
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ConnectionFormState>(EMPTY_FORM);
+
+  const handleConnect = async () => {
+    if (!form.calendarUrl.trim() || !form.username.trim() || !form.password) {
+      toast({ variant: 'destructive', title: 'Details required', description: 'Enter the calendar URL, username and password.' });
+      return;
+    }
+
+    try {
+      const connection = await createConnection.mutateAsync({ provider: 'caldav', ...form });
+      toast({
+        title: 'Calendar connected',
+        description: connection.lastError ? `First sync failed: ${connection.lastError}` : 'Your bookings and busy time are in sync.',
+      });
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not connect calendar',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const handleToggle = async (connection: CalendarConnection, field: 'pushEnabled' | 'pullEnabled') => {
+    try {
+      await updateConnection.mutateAsync({ id: connection.id, updates: { [field]: !connection[field] } });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not update calendar',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const handleSync = async (connection: CalendarConnection) => {
+    try {
+      const { connection: synced, result } = await syncConnection.mutateAsync(connection.id);
+      if (synced.lastError) {
+        toast({ variant: 'destructive', title: 'Sync failed', description: synced.lastError });
+      } else if (result) {
+        toast({
+          title: 'Calendar synced',
+          description: `${result.pushed} booking${result.pushed === 1 ? '' : 's'} sent, ${result.imported} busy period${result.imported === 1 ? '' : 's'} imported.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Sync failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const handleDisconnect = async (connection: CalendarConnection) => {
+    if (!confirm(`Disconnect ${connection.displayName}? Busy time imported from it will be released.`)) return;
+    try {
+      await deleteConnection.mutateAsync(connection.id);
+      toast({ title: 'Calendar disconnected' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not disconnect calendar',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {connections.length === 0 && !showForm && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Connect a CalDAV calendar (iCloud, Fastmail, Nextcloud and others) to send your bookings to it and
+          stop clients booking over your personal appointments.
+        </p>
+      )}
+
+      {connections.map((connection) => (
+        <div
+          key={connection.id}
+          className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3"
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex items-start gap-3 min-w-0">
+              <CalendarSync size={18} className="mt-0.5 text-gray-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-gray-100">{connection.displayName}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-500 mt-1 truncate">{connection.calendarUrl}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                  {connection.lastSyncedAt
+                    ? `Synced ${formatDistanceToNow(new Date(connection.lastSyncedAt), { addSuffix: true })}`
+                    : 'Not synced yet'}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleSync(connection)}
+                disabled={syncConnection.isPending}
+                aria-label={`Sync ${connection.displayName} now`}
+              >
+                <RefreshCw size={16} className={syncConnection.isPending ? 'animate-spin' : undefined} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDisconnect(connection)}
+                disabled={deleteConnection.isPending}
+                aria-label={`Disconnect ${connection.displayName}`}
+              >
+                <Trash2 size={16} className="text-red-500" />
+              </Button>
+            </div>
+          </div>
+
+          {connection.lastError && (
+            <div className="flex items-start gap-2 p-2 rounded bg-red-50 dark:bg-red-900/20 text-xs text-red-700 dark:text-red-300">
+              <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+              {connection.lastError}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                checked={connection.pushEnabled}
+                onChange={() => handleToggle(connection, 'pushEnabled')}
+                disabled={updateConnection.isPending}
+              />
+              Send bookings to this calendar
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                checked={connection.pullEnabled}
+                onChange={() => handleToggle(connection, 'pullEnabled')}
+                disabled={updateConnection.isPending}
+              />
+              Block my busy times
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {!showForm ? (
+        <Button variant="outline" onClick={() => setShowForm(true)} className="gap-2">
+          <Plus size={16} />
+          Connect Calendar
+        </Button>
+      ) : (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div>
+            <Label htmlFor="calendarName">Name</Label>
+            <Input
+              id="calendarName"
+              value={form.displayName}
+              onChange={(e) => setForm((f) => ({ ...f, displayName: e.target.value }))}
+              placeholder="e.g., Personal iCloud"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="calendarUrl">CalDAV calendar URL</Label>
+            <Input
+              id="calendarUrl"
+              value={form.calendarUrl}
+              onChange={(e) => setForm((f) => ({ ...f, calendarUrl: e.target.value }))}
+              placeholder="https://caldav.example.com/calendars/me/personal/"
+              className="mt-1"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="calendarUsername">Username</Label>
+              <Input
+                id="calendarUsername"
+                value={form.username}
+                onChange={(e) => setForm((f) => ({ ...f, username: e.target.value }))}
+                autoComplete="off"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="calendarPassword">Password</Label>
+              <Input
+                id="calendarPassword"
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm((f) => ({ ...f, password: e.target.value }))}
+                autoComplete="new-password"
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Use an app-specific password where your provider offers one (iCloud requires it).
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                checked={form.pushEnabled}
+                onChange={(e) => setForm((f) => ({ ...f, pushEnabled: e.target.checked }))}
+              />
+              Send bookings to this calendar
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                checked={form.pullEnabled}
+                onChange={(e) => setForm((f) => ({ ...f, pullEnabled: e.target.checked }))}
+              />
+              Block my busy times
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}
+              disabled={createConnection.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleConnect} disabled={createConnection.isPending} className="gap-2">
+              {createConnection.isPending && <Loader2 size={16} className="animate-spin" />}
+              Connect
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarDays, Copy, Check, RefreshCw, Loader2 } from 'lucide-react';
+import { useCalendarFeed, useRotateCalendarFeed } from '@/lib/hooks/use-calendar-feeds';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { CalendarFeedScope } from '@/lib/services/calendar-feed-service-client';
+
+interface CalendarFeedLinkProps {
+  scope?: CalendarFeedScope;
+  title?: string;
+  description?: string;
+  className?: string;
+}
+
+/**
+ * CalendarFeedLink component
+ * Shows a private iCalendar subscription URL with copy, subscribe and reset
+ */
+export function CalendarFeedLink({
+  scope = 'personal',
+  title = 'Calendar Subscription',
+  description = 'Add your sessions to Google, Apple or Outlook Calendar',
+  className = '',
+}: CalendarFeedLinkProps) {
+  const { toast } = useToast();
+  const { data: feed, isLoading, error } = useCalendarFeed(scope);
+  const rotateFeed = useRotateCalendarFeed();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Reset this link? Calendars subscribed to the old link will stop updating.')) return;
+    try {
+      await rotateFeed.mutateAsync(scope);
+      toast({ title: 'Calendar link reset', description: 'Subscribe again using the new link.' });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not reset link',
+        description: err instanceof Error ? err.message : 'Please try again.',
+      });
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-wondrous-blue-light rounded-lg flex items-center justify-center">
+            <CalendarDays className="text-wondrous-dark-blue" size={20} />
+          </div>
+          <div>
+            <CardTitle className="text-base">{title}</CardTitle>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="animate-spin text-gray-400" size={20} />
+          </div>
+        ) : error || !feed ? (
+          <p className="text-sm text-red-600 dark:text-red-400">Could not load your calendar link.</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input
+                value={feed.url}
+                readOnly
+                className="font-mono text-sm bg-gray-50 dark:bg-gray-800"
+              />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                {copied ? <Check className="text-green-500" size={16} /> : <Copy size={16} />}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Keep this link private — anyone with it can see these sessions. Cancelled and
+              moved sessions update automatically.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline">
+                <a href={feed.webcalUrl}>
+                  <CalendarDays className="mr-2" size={16} />
+                  Subscribe
+                </a>
+              </Button>
+              <Button variant="ghost" onClick={handleReset} disabled={rotateFeed.isPending}>
+                {rotateFeed.isPending
+                  ? <Loader2 className="mr-2 animate-spin" size={16} />
+                  : <RefreshCw className="mr-2" size={16} />}
+                Reset Link
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils/cn';
+import type { IntakeAnswerInput, IntakeQuestion } from '@/lib/types/intake';
+
+/** Answers keyed by question id */
+export type IntakeAnswers = Record<string, string>;
+
+interface IntakeQuestionFieldsProps {
+  questions: IntakeQuestion[];
+  answers: IntakeAnswers;
+  onChange: (questionId: string, answer: string) => void;
+  disabled?: boolean;
+}
+
+const YES_NO_OPTIONS = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+];
+
+/** The first required question without an answer, if any */
+export function findUnansweredIntakeQuestion(
+  questions: IntakeQuestion[],
+  answers: IntakeAnswers
+): IntakeQuestion | undefined {
+  return questions.find((q) => q.required && !(answers[q.id] || '').trim());
+}
+
+/** The answers in the shape the booking APIs take */
+export function toIntakeAnswerInputs(answers: IntakeAnswers): IntakeAnswerInput[] {
+  return Object.entries(answers)
+    .filter(([, answer]) => answer.trim())
+    .map(([questionId, answer]) => ({ questionId, answer }));
+}
+
+export function IntakeQuestionFields({ questions, answers, onChange, disabled }: IntakeQuestionFieldsProps) {
+  return (
+    <div className="space-y-4">
+      {questions.map((question) => {
+        const fieldId = `intake-${question.id}`;
+        const value = answers[question.id] || '';
+        const label = `${question.label}${question.required ? ' *' : ''}`;
+
+        if (question.type === 'text') {
+          return (
+            <div key={question.id} className="space-y-2">
+              <Label htmlFor={fieldId}>{label}</Label>
+              <textarea
+                id={fieldId}
+                value={value}
+                onChange={(e) => onChange(question.id, e.target.value)}
+                disabled={disabled}
+                rows={2}
+                maxLength={2000}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-wondrous-primary dark:bg-gray-700 dark:text-gray-100"
+              />
+            </div>
+          );
+        }
+
+        const options =
+          question.type === 'yes_no'
+            ? YES_NO_OPTIONS
+            : question.options.map((option) => ({ value: option, label: option }));
+
+        return (
+          <div key={question.id} className="space-y-2">
+            <Label>{label}</Label>
+            <div className="flex flex-wrap gap-2">
+              {options.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onChange(question.id, value === option.value ? '' : option.value)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                    value === option.value
+                      ? 'border-wondrous-blue bg-wondrous-blue text-white'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
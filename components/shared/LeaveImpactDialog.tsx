@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useToast } from '@/lib/hooks/use-toast';
+import { useTrainers } from '@/lib/hooks/use-trainers';
+import { useLeaveImpact, useApplyLeaveAction } from '@/lib/hooks/use-leave-requests';
+import { CalendarClock, Loader2, UserRoundCog, XCircle } from 'lucide-react';
+import type { LeaveBookingAction, LeaveRequest } from '@/lib/types/leave';
+
+interface LeaveImpactDialogProps {
+  leave: LeaveRequest | null;
+  onOpenChange: (open: boolean) => void;
+  /** Studios can hand bookings to another trainer; solo practitioners can't */
+  allowReassign?: boolean;
+}
+
+const ACTION_LABELS: Record<LeaveBookingAction, string> = {
+  reassign: 'reassigned',
+  propose: 'offered new times',
+  cancel: 'cancelled and refunded',
+};
+
+/**
+ * LeaveImpactDialog component
+ * Lists the bookings inside a trainer's leave and deals with them in bulk
+ */
+export function LeaveImpactDialog({ leave, onOpenChange, allowReassign = true }: LeaveImpactDialogProps) {
+  const { toast } = useToast();
+  const { data: bookings = [], isLoading, error } = useLeaveImpact(leave?.id || null);
+  const { data: staff = [] } = useTrainers();
+  const applyAction = useApplyLeaveAction();
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [trainerId, setTrainerId] = useState('');
+
+  useEffect(() => {
+    setSelected(new Set());
+    setTrainerId('');
+  }, [leave?.id]);
+
+  const otherTrainers = staff.filter((member) => member.id !== leave?.trainerId);
+  const allSelected = bookings.length > 0 && selected.size === bookings.length;
+
+  const toggle = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleAction = async (action: LeaveBookingAction) => {
+    if (!leave || selected.size === 0) return;
+    if (action === 'reassign' && !trainerId) {
+      toast({ variant: 'destructive', title: 'Choose a trainer', description: 'Pick who should take these sessions.' });
+      return;
+    }
+    if (action === 'cancel' && !confirm(`Cancel ${selected.size} session${selected.size === 1 ? '' : 's'} and refund the clients' credits?`)) {
+      return;
+    }
+
+    try {
+      const result = await applyAction.mutateAsync({
+        id: leave.id,
+        input: { action, bookingIds: [...selected], trainerId: action === 'reassign' ? trainerId : undefined },
+      });
+
+      if (result.succeeded.length > 0) {
+        toast({
+          title: `${result.succeeded.length} session${result.succeeded.length === 1 ? '' : 's'} ${ACTION_LABELS[action]}`,
+          description: 'Clients have been notified.',
+        });
+      }
+      if (result.failed.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: `${result.failed.length} session${result.failed.length === 1 ? '' : 's'} not changed`,
+          description: [...new Set(result.failed.map((f) => f.error))].join(' '),
+        });
+      }
+      setSelected(new Set(result.failed.map((f) => f.bookingId)));
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not update sessions',
+        description: err instanceof Error ? err.message : 'Please try again.',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!leave} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sessions during leave</DialogTitle>
+          <DialogDescription>
+            {leave && (
+              <>
+                {leave.trainerName} is away {format(new Date(`${leave.startDate}T00:00:00`), 'EEE d MMM')}
+                {leave.endDate !== leave.startDate && ` – ${format(new Date(`${leave.endDate}T00:00:00`), 'EEE d MMM')}`}.
+                {' '}Choose what happens to the sessions already booked.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="animate-spin text-gray-400" size={24} />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {error instanceof Error ? error.message : 'Failed to load sessions'}
+          </p>
+        ) : bookings.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400 py-4">
+            No upcoming sessions fall inside this leave.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={() => setSelected(allSelected ? new Set() : new Set(bookings.map((b) => b.id)))}
+              />
+              Select all ({bookings.length})
+            </label>
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {bookings.map((booking) => (
+                <label
+                  key={booking.id}
+                  className="flex items-start gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selected.has(booking.id)}
+                    onCheckedChange={() => toggle(booking.id)}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 dark:text-gray-100">
+                      {booking.clientName} · {booking.serviceName}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {format(new Date(booking.scheduledAt), 'EEE d MMM, h:mm a')} · {booking.duration} min
+                      {booking.status === 'soft-hold' && ' · awaiting payment'}
+                    </p>
+                    {booking.proposedTimes && booking.proposedTimes.length > 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                        Offered: {booking.proposedTimes.map((t) => format(new Date(t), 'EEE d MMM, h:mm a')).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {allowReassign && (
+              <div>
+                <Label htmlFor="leaveReassignTrainer">Reassign to</Label>
+                <select
+                  id="leaveReassignTrainer"
+                  value={trainerId}
+                  onChange={(e) => setTrainerId(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-wondrous-magenta"
+                >
+                  <option value="">Choose a trainer…</option>
+                  {otherTrainers.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.first_name} {member.last_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          {allowReassign && (
+            <Button
+              variant="outline"
+              onClick={() => handleAction('reassign')}
+              disabled={selected.size === 0 || applyAction.isPending}
+              className="gap-2"
+            >
+              <UserRoundCog size={16} />
+              Reassign
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => handleAction('propose')}
+            disabled={selected.size === 0 || applyAction.isPending}
+            className="gap-2"
+          >
+            <CalendarClock size={16} />
+            Offer New Times
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleAction('cancel')}
+            disabled={selected.size === 0 || applyAction.isPending}
+            className="gap-2 text-red-600 hover:text-red-700"
+          >
+            <XCircle size={16} />
+            Cancel &amp; Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/lib/hooks/use-toast';
+import { useLeaveRequests, useCreateLeaveRequest, useCancelLeaveRequest } from '@/lib/hooks/use-leave-requests';
+import { LeaveImpactDialog } from '@/components/shared/LeaveImpactDialog';
+import { CalendarOff, Plus, Loader2, Trash2 } from 'lucide-react';
+import type { LeaveRequest, LeaveStatus } from '@/lib/types/leave';
+
+interface LeaveRequestManagerProps {
+  /** Solo practitioners approve their own leave and deal with its bookings here */
+  canManageBookings?: boolean;
+}
+
+const STATUS_STYLES: Record<LeaveStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  declined: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400',
+  cancelled: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
+};
+
+export function formatLeaveDates(leave: Pick<LeaveRequest, 'startDate' | 'endDate'>): string {
+  const start = new Date(`${leave.startDate}T00:00:00`);
+  if (leave.endDate === leave.startDate) return format(start, 'EEE d MMM yyyy');
+  return `${format(start, 'EEE d MMM')} – ${format(new Date(`${leave.endDate}T00:00:00`), 'EEE d MMM yyyy')}`;
+}
+
+/**
+ * LeaveRequestManager component
+ * Lets a trainer request days off and follow their requests
+ */
+export function LeaveRequestManager({ canManageBookings = false }: LeaveRequestManagerProps) {
+  const { toast } = useToast();
+  const { data: requests = [], isLoading } = useLeaveRequests();
+  const createRequest = useCreateLeaveRequest();
+  const cancelRequest = useCancelLeaveRequest();
+
+  const [showForm, setShowForm] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [impactLeave, setImpactLeave] = useState<LeaveRequest | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const visible = requests.filter((r) => r.endDate >= today && r.status !== 'cancelled');
+
+  const handleSubmit = async () => {
+    if (!startDate || !endDate) {
+      toast({ variant: 'destructive', title: 'Dates required', description: 'Choose the first and last day of your leave.' });
+      return;
+    }
+
+    try {
+      const leave = await createRequest.mutateAsync({ startDate, endDate, reason: reason || undefined });
+      toast({
+        title: leave.status === 'approved' ? 'Leave booked' : 'Leave requested',
+        description: leave.status === 'approved'
+          ? 'These days are now blocked for bookings.'
+          : 'Your studio will review your request.',
+      });
+      setShowForm(false);
+      setStartDate('');
+      setEndDate('');
+      setReason('');
+      if (leave.status === 'approved' && canManageBookings) {
+        setImpactLeave(leave);
+      }
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not request leave',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const handleCancel = async (leave: LeaveRequest) => {
+    if (!confirm(`Cancel your leave on ${formatLeaveDates(leave)}? The days will be open for bookings again.`)) return;
+    try {
+      await cancelRequest.mutateAsync(leave.id);
+      toast({ title: 'Leave cancelled' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not cancel leave',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {visible.length === 0 && !showForm && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Request days off and they&apos;ll be blocked for new bookings once approved.
+        </p>
+      )}
+
+      {visible.map((leave) => (
+        <div
+          key={leave.id}
+          className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg flex items-start justify-between gap-3"
+        >
+          <div className="flex items-start gap-3 min-w-0">
+            <CalendarOff size={18} className="mt-0.5 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 dark:text-gray-100">{formatLeaveDates(leave)}</p>
+              {leave.reason && (
+                <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">{leave.reason}</p>
+              )}
+              {leave.reviewNote && (
+                <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">Note: {leave.reviewNote}</p>
+              )}
+              <Badge variant="secondary" className={`text-xs mt-2 capitalize ${STATUS_STYLES[leave.status]}`}>
+                {leave.status}
+              </Badge>
+            </div>
+          </div>
+          <div className="flex gap-1 flex-shrink-0">
+            {canManageBookings && leave.status === 'approved' && (
+              <Button variant="outline" size="sm" onClick={() => setImpactLeave(leave)}>
+                Sessions
+              </Button>
+            )}
+            {(leave.status === 'pending' || leave.status === 'approved') && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleCancel(leave)}
+                disabled={cancelRequest.isPending}
+                aria-label="Cancel leave"
+              >
+                <Trash2 size={16} className="text-red-500" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!showForm ? (
+        <Button variant="outline" onClick={() => setShowForm(true)} className="gap-2">
+          <Plus size={16} />
+          Request Time Off
+        </Button>
+      ) : (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="leaveStart">First day</Label>
+              <Input
+                id="leaveStart"
+                type="date"
+                min={today}
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (!endDate || endDate < e.target.value) setEndDate(e.target.value);
+                }}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="leaveEnd">Last day</Label>
+              <Input
+                id="leaveEnd"
+                type="date"
+                min={startDate || today}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="leaveReason">Reason (optional)</Label>
+            <Input
+              id="leaveReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Holiday"
+              className="mt-1"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSubmit} disabled={createRequest.isPending} className="gap-2">
+              {createRequest.isPending && <Loader2 size={16} className="animate-spin" />}
+              Submit
+            </Button>
+            <Button variant="ghost" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {canManageBookings && (
+        <LeaveImpactDialog
+          leave={impactLeave}
+          onOpenChange={(open) => !open && setImpactLeave(null)}
+          allowReassign={false}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Calendar, ChevronDown, ChevronUp, Clock, CreditCard, AlertCircle } from 'lucide-react';
+import { Calendar, ChevronDown, ChevronUp, Clock, CreditCard, AlertCircle, History } from 'lucide-react';
 import {
   BOOKING_STATUS_COLORS,
   BOOKING_STATUS_LABELS
 } from '@/lib/types/booking-history';
 import { useBookingHistory } from '@/lib/hooks/use-booking-history';
+import BookingTimeline from '@/components/studio-owner/BookingTimeline';
 
 interface BookingHistoryProps {
   clientId: string;
@@ -17,6 +18,7 @@ export default function BookingHistory({ clientId, clientName }: BookingHistoryP
   const { data: bookings = [], isLoading: loading, error: queryError, refetch } = useBookingHistory(clientId);
   const error = queryError?.message || null;
   const [showAll, setShowAll] = useState(false);
+  const [timelineBookingId, setTimelineBookingId] = useState<string | null>(null);
 
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -166,6 +168,20 @@ export default function BookingHistory({ clientId, clientName }: BookingHistoryP
                 </p>
               </div>
             )}
+
+            <button
+              onClick={() => setTimelineBookingId(timelineBookingId === booking.id ? null : booking.id)}
+              className="mt-2 flex items-center gap-1 text-xs font-medium text-wondrous-magenta hover:underline"
+            >
+              <History className="w-3.5 h-3.5" />
+              {timelineBookingId === booking.id ? 'Hide History' : 'View History'}
+            </button>
+
+            {timelineBookingId === booking.id && (
+              <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <BookingTimeline bookingId={booking.id} showHeading={false} />
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, ClipboardList } from 'lucide-react';
+import { useBookingIntake } from '@/lib/hooks/use-bookings';
+import type { BookingIntakeAnswer } from '@/lib/types/intake';
+
+interface BookingIntakeAnswersProps {
+  bookingId: string;
+}
+
+const formatAnswer = (answer: BookingIntakeAnswer) => {
+  if (answer.questionType === 'yes_no') {
+    return answer.answer === 'yes' ? 'Yes' : 'No';
+  }
+  return answer.answer;
+};
+
+/** What the client told us when booking; renders nothing when there's nothing to show */
+export default function BookingIntakeAnswers({ bookingId }: BookingIntakeAnswersProps) {
+  const { data: answers = [], isLoading, error } = useBookingIntake(bookingId);
+
+  if (isLoading || (!error && answers.length === 0)) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-1.5">
+        <ClipboardList className="w-3.5 h-3.5 text-wondrous-magenta" />
+        Intake
+      </div>
+
+      {error ? (
+        <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error.message}
+        </div>
+      ) : (
+        <dl className="space-y-1.5">
+          {answers.map((answer) => (
+            <div key={answer.id}>
+              <dt className="text-[11px] text-gray-500 dark:text-gray-400">{answer.questionLabel}</dt>
+              <dd className="text-xs text-gray-900 dark:text-gray-100 whitespace-pre-wrap">{formatAnswer(answer)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
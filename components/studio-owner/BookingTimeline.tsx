@@ -0,0 +1,125 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, ArrowRight, Clock, CreditCard, History, UserRoundCog } from 'lucide-react';
+import { useBookingEvents } from '@/lib/hooks/use-bookings';
+import {
+  BOOKING_EVENT_LABELS,
+  BOOKING_EVENT_SOURCE_LABELS,
+  type BookingEvent,
+} from '@/lib/types/booking-event';
+
+interface BookingTimelineProps {
+  bookingId: string;
+  /** Shows the "History" heading; off when the parent already has one */
+  showHeading?: boolean;
+}
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+const formatStatus = (status: string) =>
+  status
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('-');
+
+const describeActor = (event: BookingEvent) => {
+  const source = BOOKING_EVENT_SOURCE_LABELS[event.source] || event.source;
+  return event.actorName ? `${event.actorName} (${source})` : source;
+};
+
+const describeCredits = (delta: number) => {
+  const credits = Math.abs(delta);
+  const noun = credits === 1 ? 'credit' : 'credits';
+  return delta > 0 ? `${credits} ${noun} returned` : `${credits} ${noun} used`;
+};
+
+export default function BookingTimeline({ bookingId, showHeading = true }: BookingTimelineProps) {
+  const { data: events = [], isLoading, error } = useBookingEvents(bookingId);
+
+  return (
+    <div className="space-y-2">
+      {showHeading && (
+        <div className="text-xs font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-1.5">
+          <History className="w-3.5 h-3.5 text-wondrous-magenta" />
+          History
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-8 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error.message}
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No changes recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1.5 space-y-3">
+          {events.map((event) => (
+            <li key={event.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1 w-3 h-3 rounded-full bg-wondrous-magenta/20 border-2 border-wondrous-magenta"></span>
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-xs font-semibold text-gray-900 dark:text-gray-100">
+                  {BOOKING_EVENT_LABELS[event.eventType] || event.eventType}
+                </span>
+                <span className="text-[11px] text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {formatDateTime(event.createdAt)}
+                </span>
+              </div>
+              <div className="text-[11px] text-gray-500 dark:text-gray-400">by {describeActor(event)}</div>
+
+              <div className="mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-300">
+                {event.newStatus && event.oldStatus && event.oldStatus !== event.newStatus && (
+                  <div className="flex items-center gap-1">
+                    {formatStatus(event.oldStatus)}
+                    <ArrowRight className="w-3 h-3" />
+                    {formatStatus(event.newStatus)}
+                  </div>
+                )}
+                {event.newScheduledAt && (
+                  <div className="flex items-center gap-1">
+                    <Clock className="w-3 h-3 text-wondrous-blue" />
+                    {event.oldScheduledAt && (
+                      <>
+                        {formatDateTime(event.oldScheduledAt)}
+                        <ArrowRight className="w-3 h-3" />
+                      </>
+                    )}
+                    {formatDateTime(event.newScheduledAt)}
+                  </div>
+                )}
+                {event.eventType === 'trainer_changed' && (
+                  <div className="flex items-center gap-1">
+                    <UserRoundCog className="w-3 h-3 text-wondrous-blue" />
+                    {event.oldTrainerName || 'Previous trainer'}
+                    <ArrowRight className="w-3 h-3" />
+                    {event.newTrainerName || 'New trainer'}
+                  </div>
+                )}
+                {!!event.creditsDelta && (
+                  <div className="flex items-center gap-1">
+                    <CreditCard className="w-3 h-3 text-wondrous-blue" />
+                    {describeCredits(event.creditsDelta)}
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { AlertCircle, CalendarClock, Package } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useClientPackages, useExtendPackageExpiry } from '@/lib/hooks/use-package-expiry';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { ClientPackageExpiry } from '@/lib/types/package-expiry';
+
+interface ClientPackagesProps {
+  clientId: string;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  expired: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  exhausted: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const formatDate = (value: string) => format(new Date(value), 'd MMM yyyy');
+
+/** Suggested new expiry: 30 days past the later of today and the current expiry */
+const defaultExtensionDate = (pkg: ClientPackageExpiry) => {
+  const from = pkg.expiresAt && new Date(pkg.expiresAt) > new Date() ? new Date(pkg.expiresAt) : new Date();
+  return format(addDays(from, 30), 'yyyy-MM-dd');
+};
+
+/** A client's packages with their expiry, and extending it */
+export default function ClientPackages({ clientId }: ClientPackagesProps) {
+  const { toast } = useToast();
+  const { data: packages = [], isLoading, error } = useClientPackages(clientId);
+  const extendMutation = useExtendPackageExpiry();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expiryDate, setExpiryDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  const startEditing = (pkg: ClientPackageExpiry) => {
+    setEditingId(pkg.id);
+    setExpiryDate(defaultExtensionDate(pkg));
+    setReason('');
+  };
+
+  const handleExtend = async (pkg: ClientPackageExpiry) => {
+    try {
+      // End of the chosen day, so the package lasts through it
+      const expiresAt = new Date(`${expiryDate}T23:59:59`).toISOString();
+      const updated = await extendMutation.mutateAsync({
+        clientId,
+        clientPackageId: pkg.id,
+        expiresAt,
+        reason: reason.trim() || undefined,
+      });
+      const reinstated = updated.extensions[0]?.creditsReinstated || 0;
+      toast({
+        title: 'Expiry extended',
+        description: `${pkg.packageName} now expires ${formatDate(expiresAt)}${
+          reinstated > 0 ? ` and has ${reinstated} credit${reinstated !== 1 ? 's' : ''} back` : ''
+        }.`,
+      });
+      setEditingId(null);
+    } catch (err) {
+      toast({
+        title: 'Could not extend expiry',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-12 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-1.5">
+        <Package className="w-4 h-4 text-wondrous-blue" />
+        Packages
+      </h4>
+
+      {error ? (
+        <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error.message}
+        </div>
+      ) : packages.length === 0 ? (
+        <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-3">No packages</p>
+      ) : (
+        <div className="space-y-2">
+          {packages.map((pkg) => {
+            const canExtend = pkg.status === 'active' || pkg.status === 'expired';
+            const lastExtension = pkg.extensions[0];
+            return (
+              <div key={pkg.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{pkg.packageName}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {pkg.sessionsRemaining} of {pkg.sessionsTotal} credits left
+                      {pkg.expiresAt &&
+                        ` · ${pkg.status === 'expired' ? 'Expired' : 'Expires'} ${formatDate(pkg.expiresAt)}`}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className={STATUS_STYLES[pkg.status] || STATUS_STYLES.exhausted}>
+                    {pkg.status}
+                  </Badge>
+                </div>
+
+                {lastExtension && (
+                  <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                    Extended {formatDate(lastExtension.createdAt)}
+                    {lastExtension.oldExpiresAt && ` from ${formatDate(lastExtension.oldExpiresAt)}`} to{' '}
+                    {formatDate(lastExtension.newExpiresAt)}
+                    {lastExtension.reason && ` · ${lastExtension.reason}`}
+                  </p>
+                )}
+
+                {editingId === pkg.id ? (
+                  <div className="space-y-2">
+                    <Input
+                      type="date"
+                      value={expiryDate}
+                      min={format(addDays(new Date(), 1), 'yyyy-MM-dd')}
+                      onChange={(e) => setExpiryDate(e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      placeholder="Reason (optional)"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleExtend(pkg)}
+                        disabled={!expiryDate || extendMutation.isPending}
+                        className="h-7 text-xs"
+                      >
+                        {extendMutation.isPending ? 'Saving...' : 'Save'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} className="h-7 text-xs">
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  canExtend && (
+                    <button
+                      type="button"
+                      onClick={() => startEditing(pkg)}
+                      className="flex items-center gap-1 text-xs font-medium text-wondrous-blue hover:underline"
+                    >
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      Extend expiry
+                    </button>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
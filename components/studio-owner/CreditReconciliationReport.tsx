@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useClientCreditLedger, useCreditReconciliation } from '@/lib/hooks/use-credit-ledger';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, RefreshCw, Scale } from 'lucide-react';
+import {
+  CREDIT_ENTRY_TYPE_LABELS,
+  type CreditReconciliationMismatch,
+} from '@/lib/types/credit-ledger';
+
+const formatCredits = (credits: number) => `${credits > 0 ? '+' : ''}${credits}`;
+
+function ClientLedger({ mismatch }: { mismatch: CreditReconciliationMismatch }) {
+  const { data: entries = [], isLoading, error } = useClientCreditLedger(mismatch.clientId);
+  const poolEntries = entries.filter((e) => e.clientPackageId === mismatch.clientPackageId);
+
+  if (isLoading) {
+    return <div className="h-8 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>;
+  }
+  if (error) {
+    return <p className="text-xs text-red-600 dark:text-red-400">{error.message}</p>;
+  }
+  if (poolEntries.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No ledger entries for these credits.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 font-medium">Date</th>
+          <th className="py-1 font-medium">Entry</th>
+          <th className="py-1 font-medium">Notes</th>
+          <th className="py-1 font-medium text-right">Credits</th>
+          <th className="py-1 font-medium text-right">Balance</th>
+        </tr>
+      </thead>
+      <tbody className="text-gray-700 dark:text-gray-300">
+        {poolEntries.map((entry) => (
+          <tr key={entry.id} className="border-t border-gray-100 dark:border-gray-700">
+            <td className="py-1 whitespace-nowrap">{format(new Date(entry.createdAt), 'd MMM yyyy, HH:mm')}</td>
+            <td className="py-1">{CREDIT_ENTRY_TYPE_LABELS[entry.entryType] || entry.entryType}</td>
+            <td className="py-1 text-gray-500 dark:text-gray-400">{entry.notes || entry.reason}</td>
+            <td className="py-1 text-right font-medium">{formatCredits(entry.credits)}</td>
+            <td className="py-1 text-right">{entry.balanceAfter ?? '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * CreditReconciliationReport component
+ * Compares every client's stored credit balances with their credit ledger and
+ * lists the ones that disagree, with the entries behind each
+ */
+export function CreditReconciliationReport() {
+  const { data: report, isLoading, isFetching, error, refetch } = useCreditReconciliation();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const rowKey = (m: CreditReconciliationMismatch) => `${m.clientId}:${m.clientPackageId || 'simple'}`;
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base lg:text-lg dark:text-gray-100 flex items-center gap-2">
+              <Scale size={18} className="text-wondrous-blue" />
+              Credit Reconciliation
+            </CardTitle>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Client balances that don&apos;t match the credit ledger
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            <RefreshCw size={14} className={`mr-1 ${isFetching ? 'animate-spin' : ''}`} />
+            Re-run
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-1.5 text-sm text-red-600 dark:text-red-400">
+            <AlertCircle size={14} />
+            {error.message}
+          </div>
+        ) : !report ? null : report.mismatches.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+            <CheckCircle2 size={16} />
+            All {report.poolsChecked} balances across {report.clientsChecked} clients match the ledger.
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {report.mismatches.length} of {report.poolsChecked} balances across {report.clientsChecked} clients
+              don&apos;t match the ledger.
+            </p>
+            <div className="divide-y divide-gray-100 dark:divide-gray-700">
+              {report.mismatches.map((mismatch) => {
+                const key = rowKey(mismatch);
+                const isOpen = expanded === key;
+                return (
+                  <div key={key} className="py-2">
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(isOpen ? null : key)}
+                      className="w-full flex items-center justify-between gap-3 text-left"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {mismatch.clientName}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {mismatch.pool === 'package' ? mismatch.packageName || 'Package' : 'Simple credits'}
+                          {mismatch.clientEmail && ` · ${mismatch.clientEmail}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0 text-xs">
+                        <span className="text-gray-500 dark:text-gray-400">
+                          Stored <span className="font-semibold text-gray-900 dark:text-gray-100">{mismatch.storedBalance}</span>
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          Ledger <span className="font-semibold text-gray-900 dark:text-gray-100">{mismatch.ledgerBalance}</span>
+                        </span>
+                        <Badge
+                          variant="secondary"
+                          className="bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+                        >
+                          {formatCredits(mismatch.difference)}
+                        </Badge>
+                        {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                      </div>
+                    </button>
+                    {isOpen && (
+                      <div className="mt-2 pl-2">
+                        <ClientLedger mismatch={mismatch} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+        {report && (
+          <p className="text-[11px] text-gray-400 dark:text-gray-500">
+            Checked {format(new Date(report.generatedAt), 'd MMM yyyy, HH:mm')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  INTAKE_QUESTION_TYPE_LABELS,
+  type IntakeQuestionInput,
+  type IntakeQuestionType,
+} from '@/lib/types/intake';
+
+interface IntakeQuestionsEditorProps {
+  questions: IntakeQuestionInput[];
+  onChange: (questions: IntakeQuestionInput[]) => void;
+  error?: string;
+}
+
+const QUESTION_TYPES = Object.keys(INTAKE_QUESTION_TYPE_LABELS) as IntakeQuestionType[];
+
+/** Problems with the questions as entered, or null when they can be saved */
+export function validateIntakeQuestions(questions: IntakeQuestionInput[]): string | null {
+  for (const question of questions) {
+    if (!question.label.trim()) {
+      return 'Every intake question needs a question';
+    }
+    if (question.type === 'choice' && (question.options || []).filter((o) => o.trim()).length < 2) {
+      return `"${question.label.trim()}" needs at least two choices`;
+    }
+  }
+  return null;
+}
+
+export function IntakeQuestionsEditor({ questions, onChange, error }: IntakeQuestionsEditorProps) {
+  const update = (index: number, changes: Partial<IntakeQuestionInput>) => {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    onChange([...questions, { label: '', type: 'text', options: [], required: false }]);
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      {questions.map((question, index) => (
+        <div
+          key={question.id || `new-${index}`}
+          className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg space-y-2"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              value={question.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+              placeholder="e.g., Do you have any injuries we should know about?"
+              className="flex-1"
+            />
+            <select
+              value={question.type}
+              onChange={(e) => update(index, { type: e.target.value as IntakeQuestionType })}
+              className="px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+            >
+              {QUESTION_TYPES.map((type) => (
+                <option key={type} value={type}>{INTAKE_QUESTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          {question.type === 'choice' && (
+            <div>
+              <Input
+                value={(question.options || []).join(', ')}
+                onChange={(e) => update(index, { options: e.target.value.split(',').map((o) => o.trimStart()) })}
+                placeholder="Choices, separated by commas"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`intake-required-${index}`}
+                checked={!!question.required}
+                onCheckedChange={(checked) => update(index, { required: checked as boolean })}
+              />
+              <label htmlFor={`intake-required-${index}`} className="text-sm text-gray-900 dark:text-gray-100 cursor-pointer">
+                Required
+              </label>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label="Move question up"
+              >
+                <ArrowUp size={14} />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, 1)}
+                disabled={index === questions.length - 1}
+                aria-label="Move question down"
+              >
+                <ArrowDown size={14} />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(index)}
+                className="text-red-600 hover:text-red-700 dark:text-red-400"
+                aria-label="Remove question"
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={add}
+        className="flex items-center gap-1 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+      >
+        <Plus size={14} />
+        Add Question
+      </Button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
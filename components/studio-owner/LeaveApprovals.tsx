@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/lib/hooks/use-toast';
+import { useLeaveRequests, useReviewLeaveRequest } from '@/lib/hooks/use-leave-requests';
+import { LeaveImpactDialog } from '@/components/shared/LeaveImpactDialog';
+import { formatLeaveDates } from '@/components/shared/LeaveRequestManager';
+import { format } from 'date-fns';
+import { CalendarOff, CheckCircle2, XCircle, Clock } from 'lucide-react';
+import type { LeaveRequest } from '@/lib/types/leave';
+
+/**
+ * LeaveApprovals component
+ * Pending leave requests for the owner to review, and upcoming approved leave
+ * with the sessions that still need dealing with
+ */
+export function LeaveApprovals() {
+  const { toast } = useToast();
+  const { data: requests = [] } = useLeaveRequests();
+  const reviewRequest = useReviewLeaveRequest();
+  const [impactLeave, setImpactLeave] = useState<LeaveRequest | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const pending = requests.filter((r) => r.status === 'pending' && r.endDate >= today);
+  const upcoming = requests
+    .filter((r) => r.status === 'approved' && r.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const handleReview = async (leave: LeaveRequest, status: 'approved' | 'declined') => {
+    const note = status === 'declined' ? prompt('Reason for declining (optional)') ?? undefined : undefined;
+    try {
+      const reviewed = await reviewRequest.mutateAsync({ id: leave.id, input: { status, note } });
+      toast({ title: status === 'approved' ? 'Leave approved' : 'Leave declined' });
+      if (reviewed.status === 'approved') {
+        setImpactLeave(reviewed);
+      }
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not review leave',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  if (pending.length === 0 && upcoming.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+        Time Off ({pending.length + upcoming.length})
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {[...pending, ...upcoming].map((leave) => (
+          <Card
+            key={leave.id}
+            className={`dark:bg-gray-800 dark:border-gray-700 ${leave.status === 'pending' ? 'border-yellow-200 dark:border-yellow-800/50' : ''}`}
+          >
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base lg:text-lg dark:text-gray-100">{leave.trainerName}</CardTitle>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{formatLeaveDates(leave)}</p>
+                </div>
+                {leave.status === 'pending' ? (
+                  <Badge variant="secondary" className="text-xs bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400">
+                    <Clock size={12} className="mr-1" />
+                    Pending
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary" className="text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                    <CheckCircle2 size={12} className="mr-1" />
+                    Approved
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="pt-0 space-y-3">
+              {leave.reason && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">{leave.reason}</p>
+              )}
+              {leave.status === 'pending' ? (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(leave, 'approved')}
+                    disabled={reviewRequest.isPending}
+                    className="gap-1 bg-wondrous-magenta hover:bg-wondrous-magenta-dark"
+                  >
+                    <CheckCircle2 size={14} />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(leave, 'declined')}
+                    disabled={reviewRequest.isPending}
+                    className="gap-1"
+                  >
+                    <XCircle size={14} />
+                    Decline
+                  </Button>
+                </div>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => setImpactLeave(leave)} className="gap-1">
+                  <CalendarOff size={14} />
+                  Affected Sessions
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <LeaveImpactDialog leave={impactLeave} onOpenChange={(open) => !open && setImpactLeave(null)} />
+    </div>
+  );
+}
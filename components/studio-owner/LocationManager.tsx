@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/lib/hooks/use-toast';
+import { useLocations, useCreateLocation, useUpdateLocation, useDeleteLocation } from '@/lib/hooks/use-locations';
+import { MapPin, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import type { Location } from '@/lib/types/location';
+import type { OpeningHours } from '@/lib/types/availability';
+
+const DAY_NAMES: Record<string, string> = {
+  '0': 'Sun',
+  '1': 'Mon',
+  '2': 'Tue',
+  '3': 'Wed',
+  '4': 'Thu',
+  '5': 'Fri',
+  '6': 'Sat',
+};
+
+const DAY_ORDER = ['1', '2', '3', '4', '5', '6', '0'];
+
+interface LocationFormState {
+  name: string;
+  address: string;
+  rooms: string;
+  customHours: boolean;
+  openingHours: OpeningHours;
+}
+
+const EMPTY_FORM: LocationFormState = {
+  name: '',
+  address: '',
+  rooms: '',
+  customHours: false,
+  openingHours: {},
+};
+
+function toFormState(location: Location): LocationFormState {
+  const hasOwnHours = Object.keys(location.openingHours || {}).length > 0;
+  return {
+    name: location.name,
+    address: location.address || '',
+    rooms: location.rooms.join(', '),
+    customHours: hasOwnHours,
+    openingHours: hasOwnHours ? location.openingHours : {},
+  };
+}
+
+export function LocationManager() {
+  const { toast } = useToast();
+  const { data: locations = [], isLoading } = useLocations(true);
+  const createLocation = useCreateLocation();
+  const updateLocation = useUpdateLocation();
+  const deleteLocation = useDeleteLocation();
+
+  // null = form closed, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<LocationFormState>(EMPTY_FORM);
+
+  const openForm = (location?: Location) => {
+    setEditingId(location ? location.id : 'new');
+    setForm(location ? toFormState(location) : EMPTY_FORM);
+  };
+
+  const toggleDay = (day: string) => {
+    setForm((f) => {
+      const current = f.openingHours[day];
+      const enabled = !(current?.enabled ?? false);
+      return {
+        ...f,
+        openingHours: {
+          ...f.openingHours,
+          [day]: {
+            enabled,
+            slots: current?.slots?.length ? current.slots : [{ start: '09:00', end: '17:00' }],
+          },
+        },
+      };
+    });
+  };
+
+  const updateSlot = (day: string, field: 'start' | 'end', value: string) => {
+    setForm((f) => {
+      const current = f.openingHours[day];
+      const slot = current?.slots?.[0] || { start: '09:00', end: '17:00' };
+      return {
+        ...f,
+        openingHours: {
+          ...f.openingHours,
+          [day]: { enabled: current?.enabled ?? true, slots: [{ ...slot, [field]: value }] },
+        },
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ variant: 'destructive', title: 'Name required', description: 'Give the location a name.' });
+      return;
+    }
+
+    const input = {
+      name: form.name.trim(),
+      address: form.address.trim() || null,
+      rooms: form.rooms.split(',').map((r) => r.trim()).filter(Boolean),
+      openingHours: form.customHours ? form.openingHours : {},
+    };
+
+    try {
+      if (editingId === 'new') {
+        await createLocation.mutateAsync(input);
+        toast({ title: 'Location added', description: `${input.name} is now available for services and bookings.` });
+      } else if (editingId) {
+        await updateLocation.mutateAsync({ id: editingId, updates: input });
+        toast({ title: 'Location updated' });
+      }
+      setEditingId(null);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not save location',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const handleDelete = async (location: Location) => {
+    if (!confirm(`Remove ${location.name}? Existing bookings keep their location.`)) return;
+    try {
+      await deleteLocation.mutateAsync(location.id);
+      toast({ title: 'Location removed' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not remove location',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const isSaving = createLocation.isPending || updateLocation.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {locations.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          You haven&apos;t added any locations yet. Bookings use your studio address and opening hours until you do.
+        </p>
+      )}
+
+      {locations.map((location) => (
+        <div
+          key={location.id}
+          className="flex items-start justify-between gap-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          <div className="flex items-start gap-3 min-w-0">
+            <MapPin size={18} className="mt-0.5 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 dark:text-gray-100">{location.name}</p>
+              {location.address && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">{location.address}</p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                {location.rooms.length > 0 ? `Rooms: ${location.rooms.join(', ')}` : 'No rooms listed'}
+                {' · '}
+                {Object.keys(location.openingHours || {}).length > 0 ? 'Own opening hours' : 'Studio opening hours'}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-1 flex-shrink-0">
+            <Button variant="ghost" size="sm" onClick={() => openForm(location)} aria-label={`Edit ${location.name}`}>
+              <Pencil size={16} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(location)}
+              disabled={deleteLocation.isPending}
+              aria-label={`Remove ${location.name}`}
+            >
+              <Trash2 size={16} className="text-red-500" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {editingId === null ? (
+        <Button variant="outline" onClick={() => openForm()} className="gap-2">
+          <Plus size={16} />
+          Add Location
+        </Button>
+      ) : (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div>
+            <Label htmlFor="locationName">Name</Label>
+            <Input
+              id="locationName"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              placeholder="e.g., Soho Studio"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="locationAddress">Address</Label>
+            <Input
+              id="locationAddress"
+              value={form.address}
+              onChange={(e) => setForm((f) => ({ ...f, address: e.target.value }))}
+              placeholder="e.g., 12 Dean Street, London"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="locationRooms">Rooms</Label>
+            <Input
+              id="locationRooms"
+              value={form.rooms}
+              onChange={(e) => setForm((f) => ({ ...f, rooms: e.target.value }))}
+              placeholder="e.g., Studio A, Studio B"
+              className="mt-1"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Separate rooms with commas</p>
+          </div>
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                checked={form.customHours}
+                onChange={(e) => setForm((f) => ({ ...f, customHours: e.target.checked }))}
+              />
+              Use different opening hours from the studio
+            </label>
+            {form.customHours && (
+              <div className="mt-3 space-y-2">
+                {DAY_ORDER.map((day) => {
+                  const dayData = form.openingHours[day];
+                  const isEnabled = dayData?.enabled ?? false;
+                  const slot = dayData?.slots?.[0];
+                  return (
+                    <div key={day} className="flex items-center gap-3">
+                      <label className="w-20 flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={isEnabled} onChange={() => toggleDay(day)} />
+                        {DAY_NAMES[day]}
+                      </label>
+                      {isEnabled && slot ? (
+                        <div className="flex items-center gap-1">
+                          <input type="time" value={slot.start} onChange={(e) => updateSlot(day, 'start', e.target.value)} className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm dark:bg-gray-700 dark:text-gray-100" />
+                          <span className="text-gray-400">–</span>
+                          <input type="time" value={slot.end} onChange={(e) => updateSlot(day, 'end', e.target.value)} className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm dark:bg-gray-700 dark:text-gray-100" />
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-400 dark:text-gray-600">Closed</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+              {isSaving && <Loader2 size={16} className="animate-spin" />}
+              {editingId === 'new' ? 'Add Location' : 'Save Location'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CreditCard, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useRefundablePayments, useRefundPayment } from '@/lib/hooks/use-refunds';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { RefundablePayment } from '@/lib/types/refund';
+
+interface PaymentRefundsProps {
+  /** Show a client's payments, or a booking's */
+  clientId?: string;
+  bookingId?: string;
+  showHeading?: boolean;
+}
+
+const formatDate = (value: string) => format(new Date(value), 'd MMM yyyy');
+const formatMoney = (cents: number) => `£${(cents / 100).toFixed(2)}`;
+
+const refundableCents = (payment: RefundablePayment) => payment.amountCents - payment.refundedAmountCents;
+
+/** Payments taken from a client or for a booking, and refunding them */
+export default function PaymentRefunds({ clientId, bookingId, showHeading = true }: PaymentRefundsProps) {
+  const { toast } = useToast();
+  const { data: payments = [], isLoading, error } = useRefundablePayments({ clientId, bookingId });
+  const refundMutation = useRefundPayment();
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [clawBack, setClawBack] = useState(true);
+
+  const startRefund = (payment: RefundablePayment) => {
+    setRefundingId(payment.id);
+    setAmount((refundableCents(payment) / 100).toFixed(2));
+    setReason('');
+    setClawBack(true);
+  };
+
+  const handleRefund = async (payment: RefundablePayment) => {
+    const amountCents = Math.round(parseFloat(amount) * 100);
+    if (!amountCents || amountCents <= 0) {
+      toast({ title: 'Enter an amount to refund', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const { payment: updated, warnings } = await refundMutation.mutateAsync({
+        paymentId: payment.id,
+        amountCents,
+        reason: reason.trim() || undefined,
+        clawBackCredits: !!payment.allocation && clawBack,
+      });
+      const clawedBack = updated.refunds[0]?.creditsClawedBack || 0;
+      toast({
+        title: 'Refund issued',
+        description: `${formatMoney(amountCents)} is on its way back to the client${
+          clawedBack > 0 ? ` and ${clawedBack} credit${clawedBack !== 1 ? 's were' : ' was'} taken back` : ''
+        }.${warnings.length > 0 ? ` ${warnings.join(' ')}` : ''}`,
+      });
+      setRefundingId(null);
+    } catch (err) {
+      toast({
+        title: 'Could not refund',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-12 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {showHeading && (
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-1.5">
+          <CreditCard className="w-4 h-4 text-wondrous-blue" />
+          Payments
+        </h4>
+      )}
+
+      {error ? (
+        <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error.message}
+        </div>
+      ) : payments.length === 0 ? (
+        <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-3">No card payments</p>
+      ) : (
+        <div className="space-y-2">
+          {payments.map((payment) => {
+            const remaining = refundableCents(payment);
+            const lastRefund = payment.refunds[0];
+            return (
+              <div key={payment.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {payment.description || 'Payment'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatMoney(payment.amountCents)} · {formatDate(payment.createdAt)}
+                      {payment.refundedAmountCents > 0 && ` · ${formatMoney(payment.refundedAmountCents)} refunded`}
+                    </p>
+                  </div>
+                  {payment.status === 'refunded' ? (
+                    <Badge variant="secondary" className="bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                      refunded
+                    </Badge>
+                  ) : payment.refundedAmountCents > 0 ? (
+                    <Badge variant="secondary" className="bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                      part refunded
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                      paid
+                    </Badge>
+                  )}
+                </div>
+
+                {lastRefund && (
+                  <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                    Refunded {formatMoney(lastRefund.amountCents)} {formatDate(lastRefund.createdAt)}
+                    {lastRefund.source === 'stripe' && ' in Stripe'}
+                    {lastRefund.creditsClawedBack > 0 &&
+                      ` · ${lastRefund.creditsClawedBack} credit${lastRefund.creditsClawedBack !== 1 ? 's' : ''} taken back`}
+                    {lastRefund.reason && ` · ${lastRefund.reason}`}
+                  </p>
+                )}
+
+                {refundingId === payment.id ? (
+                  <div className="space-y-2">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max={(remaining / 100).toFixed(2)}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      placeholder="Reason (optional)"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    {payment.allocation && payment.allocation.sessionsRemaining > 0 && (
+                      <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={clawBack}
+                          onChange={(e) => setClawBack(e.target.checked)}
+                          className="w-3.5 h-3.5"
+                        />
+                        Take back unused credits in proportion ({payment.allocation.sessionsRemaining} of{' '}
+                        {payment.allocation.sessionsTotal} left)
+                      </label>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRefund(payment)}
+                        disabled={!amount || refundMutation.isPending}
+                        className="h-7 text-xs"
+                      >
+                        {refundMutation.isPending ? 'Refunding...' : 'Refund'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRefundingId(null)} className="h-7 text-xs">
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  payment.status === 'succeeded' &&
+                  remaining > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => startRefund(payment)}
+                      className="flex items-center gap-1 text-xs font-medium text-wondrous-blue hover:underline"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Refund
+                    </button>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
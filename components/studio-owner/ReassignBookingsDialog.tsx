@@ -0,0 +1,357 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useToast } from '@/lib/hooks/use-toast';
+import { useTrainers } from '@/lib/hooks/use-trainers';
+import { useReassignCandidates, useReassignBookings, type CalendarSession } from '@/lib/hooks/use-bookings';
+import { cn } from '@/lib/utils/cn';
+import { Loader2, Search, UserRoundCog } from 'lucide-react';
+import type { ReassignCandidate } from '@/lib/types/booking-reassign';
+
+interface ReassignBookingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The studio's sessions on the calendar */
+  sessions: CalendarSession[];
+  /** Reassign just this session instead of choosing sessions to move */
+  bookingId?: string | null;
+}
+
+const REASSIGNABLE_STATUSES = ['confirmed', 'soft-hold'];
+
+/**
+ * ReassignBookingsDialog component
+ * Hands one session, or a trainer's sessions over a few days, to a
+ * substitute who is qualified for the service and free at the time
+ */
+export function ReassignBookingsDialog({ open, onOpenChange, sessions, bookingId }: ReassignBookingsDialogProps) {
+  const { toast } = useToast();
+  const { data: staff = [] } = useTrainers(open);
+  const reassignBookings = useReassignBookings();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [fromTrainerId, setFromTrainerId] = useState('');
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [trainerId, setTrainerId] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const start = format(new Date(), 'yyyy-MM-dd');
+    setFromTrainerId('');
+    setFromDate(start);
+    setToDate(format(addDays(new Date(), 6), 'yyyy-MM-dd'));
+    setSelected(new Set());
+    setCheckedIds(bookingId ? [bookingId] : []);
+    setTrainerId('');
+  }, [open, bookingId]);
+
+  const trainerName = (id?: string) => {
+    const member = staff.find((m) => m.id === id);
+    return member ? `${member.first_name} ${member.last_name}`.trim() : 'Trainer';
+  };
+
+  const upcoming = useMemo(() => {
+    const now = new Date();
+    return sessions
+      .filter((s) => REASSIGNABLE_STATUSES.includes(s.status) && s.datetime > now)
+      .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  }, [sessions]);
+
+  const inRange = upcoming.filter((s) => {
+    if (!fromTrainerId || s.trainerId !== fromTrainerId) return false;
+    const day = format(s.datetime, 'yyyy-MM-dd');
+    return day >= fromDate && day <= toDate;
+  });
+
+  const single = bookingId ? sessions.find((s) => s.id === bookingId) : undefined;
+  const { data: candidates = [], isLoading, error } = useReassignCandidates(checkedIds);
+  const chosen = candidates.find((c) => c.trainerId === trainerId);
+  const allSelected = inRange.length > 0 && inRange.every((s) => selected.has(s.id));
+
+  const toggle = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    setCheckedIds([]);
+    setTrainerId('');
+  };
+
+  const describeSession = (session: CalendarSession) =>
+    `${session.clientName || 'Held slot'} · ${format(session.datetime, 'EEE d MMM, h:mm a')}`;
+
+  const availabilityLabel = (candidate: ReassignCandidate) => {
+    if (!candidate.qualified && candidate.availableBookingIds.length === 0) return 'Not qualified';
+    if (candidate.availableBookingIds.length === checkedIds.length) {
+      return checkedIds.length === 1 ? 'Free' : 'Free for all';
+    }
+    if (candidate.availableBookingIds.length === 0) return 'Busy';
+    return `Free for ${candidate.availableBookingIds.length} of ${checkedIds.length}`;
+  };
+
+  const handleReassign = async () => {
+    if (!chosen || chosen.availableBookingIds.length === 0) return;
+
+    try {
+      const result = await reassignBookings.mutateAsync({
+        bookingIds: chosen.availableBookingIds,
+        trainerId: chosen.trainerId,
+      });
+
+      if (result.succeeded.length > 0) {
+        toast({
+          title: `${result.succeeded.length} session${result.succeeded.length === 1 ? '' : 's'} reassigned to ${chosen.trainerName}`,
+          description: result.warnings.length > 0
+            ? [...new Set(result.warnings)].join(' ')
+            : 'Clients have been told their trainer has changed.',
+        });
+      }
+      if (result.failed.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: `${result.failed.length} session${result.failed.length === 1 ? '' : 's'} not reassigned`,
+          description: [...new Set(result.failed.map((f) => f.error))].join(' '),
+        });
+      }
+
+      const remaining = checkedIds.filter((id) => !result.succeeded.includes(id));
+      if (remaining.length === 0) {
+        onOpenChange(false);
+        return;
+      }
+      setSelected(new Set(remaining));
+      setCheckedIds(remaining);
+      setTrainerId('');
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not reassign sessions',
+        description: err instanceof Error ? err.message : 'Please try again.',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] sm:max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Reassign {bookingId ? 'Session' : 'Sessions'}</DialogTitle>
+          <DialogDescription>
+            {single
+              ? `${describeSession(single)} with ${trainerName(single.trainerId)}. Choose who takes it instead.`
+              : 'Hand sessions to a substitute. Clients are told their trainer has changed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 py-2">
+          {!bookingId && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="reassignFromTrainer">Sessions of</Label>
+                  <select
+                    id="reassignFromTrainer"
+                    value={fromTrainerId}
+                    onChange={(e) => {
+                      setFromTrainerId(e.target.value);
+                      setSelected(new Set());
+                      setCheckedIds([]);
+                      setTrainerId('');
+                    }}
+                    className="mt-1 w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-wondrous-magenta"
+                  >
+                    <option value="">Choose a trainer…</option>
+                    {staff.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.first_name} {member.last_name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="reassignFrom">From</Label>
+                  <Input
+                    id="reassignFrom"
+                    type="date"
+                    min={today}
+                    value={fromDate}
+                    onChange={(e) => {
+                      setFromDate(e.target.value);
+                      if (toDate < e.target.value) setToDate(e.target.value);
+                    }}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reassignTo">To</Label>
+                  <Input
+                    id="reassignTo"
+                    type="date"
+                    min={fromDate}
+                    value={toDate}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              {fromTrainerId && (inRange.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  No upcoming sessions for {trainerName(fromTrainerId)} in these dates.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={() => {
+                        setSelected(allSelected ? new Set() : new Set(inRange.map((s) => s.id)));
+                        setCheckedIds([]);
+                        setTrainerId('');
+                      }}
+                    />
+                    Select all ({inRange.length})
+                  </label>
+                  <div className="max-h-48 overflow-y-auto space-y-2">
+                    {inRange.map((session) => (
+                      <label
+                        key={session.id}
+                        className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer"
+                      >
+                        <Checkbox checked={selected.has(session.id)} onCheckedChange={() => toggle(session.id)} />
+                        <span className="text-sm text-gray-900 dark:text-gray-100">
+                          {describeSession(session)}
+                          {session.status === 'soft-hold' && (
+                            <span className="text-gray-500 dark:text-gray-400"> · awaiting payment</span>
+                          )}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCheckedIds(inRange.filter((s) => selected.has(s.id)).map((s) => s.id))}
+                    disabled={selected.size === 0}
+                    className="gap-2"
+                  >
+                    <Search size={14} />
+                    Find Available Trainers
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+
+          {checkedIds.length > 0 && (
+            isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="animate-spin text-gray-400" size={24} />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {error instanceof Error ? error.message : 'Failed to load trainers'}
+              </p>
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                There are no other trainers in the studio.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label>Reassign to</Label>
+                {candidates.map((candidate) => {
+                  const available = candidate.availableBookingIds.length > 0;
+                  return (
+                    <button
+                      key={candidate.trainerId}
+                      type="button"
+                      onClick={() => available && setTrainerId(candidate.trainerId)}
+                      disabled={!available}
+                      className={cn(
+                        'w-full text-left p-3 border rounded-lg transition-colors',
+                        trainerId === candidate.trainerId
+                          ? 'border-wondrous-magenta bg-wondrous-magenta/5'
+                          : 'border-gray-200 dark:border-gray-700',
+                        available ? 'hover:border-wondrous-magenta' : 'opacity-60 cursor-not-allowed'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900 dark:text-gray-100">{candidate.trainerName}</span>
+                        <div className="flex gap-1">
+                          {candidate.qualified && (
+                            <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">
+                              Qualified
+                            </Badge>
+                          )}
+                          <Badge
+                            variant="secondary"
+                            className={cn(
+                              'text-xs',
+                              available
+                                ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+                            )}
+                          >
+                            {availabilityLabel(candidate)}
+                          </Badge>
+                        </div>
+                      </div>
+                      {candidate.unavailable.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {candidate.unavailable.map((item) => {
+                            const session = sessions.find((s) => s.id === item.bookingId);
+                            return (
+                              <li key={item.bookingId} className="text-xs text-gray-500 dark:text-gray-400">
+                                {checkedIds.length > 1 && session ? `${format(session.datetime, 'EEE d MMM, h:mm a')}: ` : ''}
+                                {item.reason}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleReassign}
+            disabled={!chosen || chosen.availableBookingIds.length === 0 || reassignBookings.isPending}
+            className="gap-2 bg-wondrous-magenta hover:bg-wondrous-magenta-dark"
+          >
+            {reassignBookings.isPending ? <Loader2 size={16} className="animate-spin" /> : <UserRoundCog size={16} />}
+            {chosen && chosen.availableBookingIds.length > 1
+              ? `Reassign ${chosen.availableBookingIds.length} Sessions`
+              : 'Reassign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
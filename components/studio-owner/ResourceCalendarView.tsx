@@ -0,0 +1,181 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Loader2, DoorOpen, Dumbbell } from 'lucide-react';
+import { useResourceSchedule } from '@/lib/hooks/use-resources';
+import { cn } from '@/lib/utils/cn';
+import type { ResourceSchedule, ResourceScheduleEntry } from '@/lib/types/resource';
+
+interface ResourceCalendarViewProps {
+  date: Date;
+  /** Only show resources at this location (plus those not tied to one) */
+  locationId?: string;
+}
+
+const HOUR_HEIGHT = 56; // px per hour
+const DEFAULT_START_HOUR = 6;
+const DEFAULT_END_HOUR = 22;
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function minutesIntoDay(iso: string, dayStart: Date): number {
+  return (new Date(iso).getTime() - dayStart.getTime()) / 60000;
+}
+
+/** Entries that overlap more of their neighbours than the resource has units. */
+function getOverbookedEntries(resource: ResourceSchedule): Set<ResourceScheduleEntry> {
+  const overbooked = new Set<ResourceScheduleEntry>();
+  for (const entry of resource.entries) {
+    const overlapping = resource.entries.filter(
+      (other) => other.startsAt < entry.endsAt && other.endsAt > entry.startsAt
+    );
+    if (overlapping.length > resource.quantity) {
+      overlapping.forEach((other) => overbooked.add(other));
+    }
+  }
+  return overbooked;
+}
+
+export function ResourceCalendarView({ date, locationId }: ResourceCalendarViewProps) {
+  const dayStart = useMemo(() => {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }, [date]);
+  const dayEnd = useMemo(() => new Date(dayStart.getTime() + 24 * 60 * 60 * 1000), [dayStart]);
+
+  const { data: schedule = [], isLoading } = useResourceSchedule(dayStart.toISOString(), dayEnd.toISOString());
+
+  const resources = locationId
+    ? schedule.filter((r) => !r.locationId || r.locationId === locationId)
+    : schedule;
+
+  // Stretch the grid to fit sessions outside the usual day
+  const { startHour, endHour } = useMemo(() => {
+    let first = DEFAULT_START_HOUR;
+    let last = DEFAULT_END_HOUR;
+    for (const resource of resources) {
+      for (const entry of resource.entries) {
+        first = Math.min(first, Math.max(0, Math.floor(minutesIntoDay(entry.startsAt, dayStart) / 60)));
+        last = Math.max(last, Math.min(24, Math.ceil(minutesIntoDay(entry.endsAt, dayStart) / 60)));
+      }
+    }
+    return { startHour: first, endHour: last };
+  }, [resources, dayStart]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  if (resources.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-8 text-center border-2 border-wondrous-grey-light dark:border-gray-700">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No rooms or equipment set up yet. Add them under Settings → Rooms &amp; Equipment.
+        </p>
+      </div>
+    );
+  }
+
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+  const gridHeight = hours.length * HOUR_HEIGHT;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl p-2 lg:p-4 overflow-x-auto border-2 border-wondrous-grey-light dark:border-gray-700 shadow-md">
+      <div style={{ minWidth: 80 + resources.length * 160 }}>
+        {/* Resource headers */}
+        <div className="flex mb-2">
+          <div className="w-16 flex-shrink-0" />
+          {resources.map((resource) => (
+            <div key={resource.resourceId} className="flex-1 min-w-[160px] px-2 text-center">
+              <div className="flex items-center justify-center gap-1.5 font-semibold text-sm text-wondrous-grey-dark dark:text-gray-100">
+                {resource.kind === 'room' ? <DoorOpen size={14} /> : <Dumbbell size={14} />}
+                {resource.name}
+              </div>
+              {resource.quantity > 1 && (
+                <div className="text-[11px] text-gray-500 dark:text-gray-400">{resource.quantity} available</div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex">
+          {/* Hour labels */}
+          <div className="w-16 flex-shrink-0 relative" style={{ height: gridHeight }}>
+            {hours.map((hour, i) => (
+              <div
+                key={hour}
+                className="absolute right-2 text-[11px] text-gray-500 dark:text-gray-400 -translate-y-1/2"
+                style={{ top: i * HOUR_HEIGHT }}
+              >
+                {hour.toString().padStart(2, '0')}:00
+              </div>
+            ))}
+          </div>
+
+          {/* One column per resource */}
+          {resources.map((resource) => {
+            const overbooked = getOverbookedEntries(resource);
+            return (
+              <div
+                key={resource.resourceId}
+                className="flex-1 min-w-[160px] relative border-l border-gray-200 dark:border-gray-700"
+                style={{ height: gridHeight }}
+              >
+                {hours.map((hour, i) => (
+                  <div
+                    key={hour}
+                    className="absolute left-0 right-0 border-t border-gray-100 dark:border-gray-700"
+                    style={{ top: i * HOUR_HEIGHT }}
+                  />
+                ))}
+                {resource.entries.map((entry) => {
+                  const top = ((minutesIntoDay(entry.startsAt, dayStart) - startHour * 60) / 60) * HOUR_HEIGHT;
+                  const height = Math.max(
+                    20,
+                    ((minutesIntoDay(entry.endsAt, dayStart) - minutesIntoDay(entry.startsAt, dayStart)) / 60) * HOUR_HEIGHT - 2
+                  );
+                  const isOverbooked = overbooked.has(entry);
+                  return (
+                    <div
+                      key={entry.bookingIds[0]}
+                      className={cn(
+                        'absolute left-1 right-1 rounded-md px-2 py-1 text-[11px] overflow-hidden border',
+                        isOverbooked
+                          ? 'bg-red-50 border-red-300 text-red-800 dark:bg-red-900/30 dark:border-red-700 dark:text-red-200'
+                          : 'bg-blue-50 border-blue-200 text-wondrous-grey-dark dark:bg-blue-900/30 dark:border-blue-800 dark:text-gray-100'
+                      )}
+                      style={{
+                        top: Math.max(0, top),
+                        height,
+                        borderLeftWidth: 4,
+                        borderLeftColor: entry.color || undefined,
+                      }}
+                      title={isOverbooked ? 'Double-booked' : undefined}
+                    >
+                      <div className="font-semibold truncate">
+                        {formatTime(entry.startsAt)} {entry.serviceName}
+                      </div>
+                      <div className="truncate">
+                        {entry.trainerName}
+                        {entry.bookingIds.length > 1
+                          ? ` · ${entry.bookingIds.length} attendees`
+                          : entry.clientName && ` · ${entry.clientName}`}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
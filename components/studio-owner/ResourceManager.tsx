@@ -0,0 +1,246 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/lib/hooks/use-toast';
+import { useResources, useCreateResource, useUpdateResource, useDeleteResource } from '@/lib/hooks/use-resources';
+import { useLocations } from '@/lib/hooks/use-locations';
+import { DoorOpen, Dumbbell, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import type { Resource, ResourceConflictMode, ResourceKind } from '@/lib/types/resource';
+
+interface ResourceFormState {
+  name: string;
+  kind: ResourceKind;
+  quantity: number;
+  conflictMode: ResourceConflictMode;
+  locationId: string;
+}
+
+const EMPTY_FORM: ResourceFormState = {
+  name: '',
+  kind: 'room',
+  quantity: 1,
+  conflictMode: 'block',
+  locationId: '',
+};
+
+function toFormState(resource: Resource): ResourceFormState {
+  return {
+    name: resource.name,
+    kind: resource.kind,
+    quantity: resource.quantity,
+    conflictMode: resource.conflictMode,
+    locationId: resource.locationId || '',
+  };
+}
+
+export function ResourceManager() {
+  const { toast } = useToast();
+  const { data: resources = [], isLoading } = useResources(true);
+  const { data: locations = [] } = useLocations(true);
+  const createResource = useCreateResource();
+  const updateResource = useUpdateResource();
+  const deleteResource = useDeleteResource();
+
+  // null = form closed, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ResourceFormState>(EMPTY_FORM);
+
+  const openForm = (resource?: Resource) => {
+    setEditingId(resource ? resource.id : 'new');
+    setForm(resource ? toFormState(resource) : EMPTY_FORM);
+  };
+
+  const getLocationName = (locationId: string | null) =>
+    locations.find((l) => l.id === locationId)?.name;
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ variant: 'destructive', title: 'Name required', description: 'Give the room or equipment a name.' });
+      return;
+    }
+
+    const input = {
+      name: form.name.trim(),
+      kind: form.kind,
+      quantity: Math.max(1, form.quantity || 1),
+      conflictMode: form.conflictMode,
+      locationId: form.locationId || null,
+    };
+
+    try {
+      if (editingId === 'new') {
+        await createResource.mutateAsync(input);
+        toast({ title: 'Resource added', description: `Link ${input.name} to the services that need it.` });
+      } else if (editingId) {
+        await updateResource.mutateAsync({ id: editingId, updates: input });
+        toast({ title: 'Resource updated' });
+      }
+      setEditingId(null);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not save resource',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const handleDelete = async (resource: Resource) => {
+    if (!confirm(`Remove ${resource.name}? Services will stop reserving it.`)) return;
+    try {
+      await deleteResource.mutateAsync(resource.id);
+      toast({ title: 'Resource removed' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not remove resource',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    }
+  };
+
+  const isSaving = createResource.isPending || updateResource.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {resources.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Add the rooms and equipment you only have a limited number of, then pick them on each service that needs them.
+        </p>
+      )}
+
+      {resources.map((resource) => (
+        <div
+          key={resource.id}
+          className="flex items-start justify-between gap-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          <div className="flex items-start gap-3 min-w-0">
+            {resource.kind === 'room'
+              ? <DoorOpen size={18} className="mt-0.5 text-gray-400 flex-shrink-0" />
+              : <Dumbbell size={18} className="mt-0.5 text-gray-400 flex-shrink-0" />}
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {resource.name}
+                {resource.quantity > 1 && <span className="text-gray-500 font-normal"> × {resource.quantity}</span>}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                {resource.kind === 'room' ? 'Room' : 'Equipment'}
+                {getLocationName(resource.locationId) && ` · ${getLocationName(resource.locationId)}`}
+                {' · '}
+                {resource.conflictMode === 'block' ? 'Double-booking blocked' : 'Double-booking warns'}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-1 flex-shrink-0">
+            <Button variant="ghost" size="sm" onClick={() => openForm(resource)} aria-label={`Edit ${resource.name}`}>
+              <Pencil size={16} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(resource)}
+              disabled={deleteResource.isPending}
+              aria-label={`Remove ${resource.name}`}
+            >
+              <Trash2 size={16} className="text-red-500" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {editingId === null ? (
+        <Button variant="outline" onClick={() => openForm()} className="gap-2">
+          <Plus size={16} />
+          Add Room or Equipment
+        </Button>
+      ) : (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div>
+            <Label htmlFor="resourceName">Name</Label>
+            <Input
+              id="resourceName"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              placeholder="e.g., Private Room, Squat Rack"
+              className="mt-1"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="resourceKind">Type</Label>
+              <select
+                id="resourceKind"
+                value={form.kind}
+                onChange={(e) => setForm((f) => ({ ...f, kind: e.target.value as ResourceKind }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="room">Room</option>
+                <option value="equipment">Equipment</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="resourceQuantity">How many</Label>
+              <Input
+                id="resourceQuantity"
+                type="number"
+                min={1}
+                max={100}
+                value={form.quantity}
+                onChange={(e) => setForm((f) => ({ ...f, quantity: parseInt(e.target.value) || 1 }))}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          {locations.length > 0 && (
+            <div>
+              <Label htmlFor="resourceLocation">Location</Label>
+              <select
+                id="resourceLocation"
+                value={form.locationId}
+                onChange={(e) => setForm((f) => ({ ...f, locationId: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="">Not tied to a location</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="resourceConflictMode">When it&apos;s already in use</Label>
+            <select
+              id="resourceConflictMode"
+              value={form.conflictMode}
+              onChange={(e) => setForm((f) => ({ ...f, conflictMode: e.target.value as ResourceConflictMode }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+            >
+              <option value="block">Block the booking</option>
+              <option value="warn">Allow it, but warn the trainer</option>
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+              {isSaving && <Loader2 size={16} className="animate-spin" />}
+              {editingId === 'new' ? 'Add Resource' : 'Save Resource'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Service, ServiceType, ServiceDuration } from '@/lib/types/service';
+import { useLocations } from '@/lib/hooks/use-locations';
+import { useResources } from '@/lib/hooks/use-resources';
+import { useTrainers } from '@/lib/hooks/use-trainers';
+import { useUserStore } from '@/lib/stores/user-store';
+import { canManageTeam } from '@/lib/permissions';
 import { Checkbox } from '@/components/ui/checkbox';
+import { IntakeQuestionsEditor, validateIntakeQuestions } from '@/components/studio-owner/IntakeQuestionsEditor';
+import type { IntakeQuestionInput } from '@/lib/types/intake';
 import { cn } from '@/lib/utils/cn';
 import { Clock, User, Users, UsersRound } from 'lucide-react';
 
@@ -35,6 +42,10 @@ const PRESET_COLORS = [
 
 export function ServiceFormDialog({ open, onClose, onSave, service }: ServiceFormDialogProps) {
   const isEditing = !!service;
+  const { data: locations = [] } = useLocations(true, open);
+  const { data: resources = [] } = useResources(true, open);
+  const { currentRole } = useUserStore();
+  const { data: trainers = [] } = useTrainers(open && canManageTeam(currentRole));
 
   const [formData, setFormData] = useState({
     name: '',
@@ -45,6 +56,12 @@ export function ServiceFormDialog({ open, onClose, onSave, service }: ServiceFor
     creditsRequired: 1,
     color: PRESET_COLORS[0],
     requiresApproval: false,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+    locationId: null as string | null,
+    resourceIds: [] as string[],
+    trainerIds: [] as string[],
+    intakeQuestions: [] as IntakeQuestionInput[],
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -61,6 +78,12 @@ export function ServiceFormDialog({ open, onClose, onSave, service }: ServiceFor
         creditsRequired: service.creditsRequired,
         color: service.color,
         requiresApproval: service.requiresApproval ?? false,
+        bufferBeforeMinutes: service.bufferBeforeMinutes ?? 0,
+        bufferAfterMinutes: service.bufferAfterMinutes ?? 0,
+        locationId: service.locationId ?? null,
+        resourceIds: service.resourceIds ?? [],
+        trainerIds: service.trainerIds ?? [],
+        intakeQuestions: service.intakeQuestions ?? [],
       });
     } else {
       // Reset form when creating new
@@ -73,6 +96,12 @@ export function ServiceFormDialog({ open, onClose, onSave, service }: ServiceFor
         creditsRequired: 1,
         color: PRESET_COLORS[0],
         requiresApproval: false,
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 0,
+        locationId: null,
+        resourceIds: [],
+        trainerIds: [],
+        intakeQuestions: [],
       });
     }
     setErrors({});
@@ -107,6 +136,10 @@ export function ServiceFormDialog({ open, onClose, onSave, service }: ServiceFor
     if (formData.maxCapacity <= 0) {
       newErrors.maxCapacity = 'Max capacity must be greater than 0';
     }
+    const intakeError = validateIntakeQuestions(formData.intakeQuestions);
+    if (intakeError) {
+      newErrors.intakeQuestions = intakeError;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -273,6 +306,138 @@ export function ServiceFormDialog({ open, onClose, onSave, service }: ServiceFor
             {errors.creditsRequired && <p className="text-xs text-red-500 mt-1">{errors.creditsRequired}</p>}
           </div>
 
+          {/* Buffers */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="bufferBefore">Buffer Before (min)</Label>
+              <Input
+                id="bufferBefore"
+                type="number"
+                min={0}
+                max={120}
+                step={5}
+                value={formData.bufferBeforeMinutes}
+                onChange={(e) => setFormData({ ...formData, bufferBeforeMinutes: parseInt(e.target.value) || 0 })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="bufferAfter">Buffer After (min)</Label>
+              <Input
+                id="bufferAfter"
+                type="number"
+                min={0}
+                max={120}
+                step={5}
+                value={formData.bufferAfterMinutes}
+                onChange={(e) => setFormData({ ...formData, bufferAfterMinutes: parseInt(e.target.value) || 0 })}
+                className="mt-1"
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400 -mt-1">
+              Time kept free around each session for setup, cleanup or changeover
+            </p>
+          </div>
+
+          {/* Location */}
+          {locations.length > 0 && (
+            <div>
+              <Label htmlFor="serviceLocation">Location</Label>
+              <select
+                id="serviceLocation"
+                value={formData.locationId ?? ''}
+                onChange={(e) => setFormData({ ...formData, locationId: e.target.value || null })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="">Any location</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Sessions of this service are booked at this location, within its opening hours
+              </p>
+            </div>
+          )}
+
+          {/* Rooms & Equipment */}
+          {resources.length > 0 && (
+            <div>
+              <Label>Rooms &amp; Equipment</Label>
+              <div className="mt-2 space-y-2">
+                {resources.map((resource) => (
+                  <div key={resource.id} className="flex items-center gap-3">
+                    <Checkbox
+                      id={`resource-${resource.id}`}
+                      checked={formData.resourceIds.includes(resource.id)}
+                      onCheckedChange={(checked) =>
+                        setFormData({
+                          ...formData,
+                          resourceIds: checked
+                            ? [...formData.resourceIds, resource.id]
+                            : formData.resourceIds.filter((id) => id !== resource.id),
+                        })
+                      }
+                    />
+                    <label htmlFor={`resource-${resource.id}`} className="text-sm text-gray-900 dark:text-gray-100 cursor-pointer">
+                      {resource.name}
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {' '}({resource.kind === 'room' ? 'Room' : 'Equipment'}{resource.quantity > 1 ? ` × ${resource.quantity}` : ''})
+                      </span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Each session holds these for its duration, so other trainers can&apos;t double-book them
+              </p>
+            </div>
+          )}
+
+          {/* Qualified Trainers */}
+          {trainers.length > 0 && (
+            <div>
+              <Label>Qualified Trainers</Label>
+              <div className="mt-2 space-y-2">
+                {trainers.map((trainer) => (
+                  <div key={trainer.id} className="flex items-center gap-3">
+                    <Checkbox
+                      id={`trainer-${trainer.id}`}
+                      checked={formData.trainerIds.includes(trainer.id)}
+                      onCheckedChange={(checked) =>
+                        setFormData({
+                          ...formData,
+                          trainerIds: checked
+                            ? [...formData.trainerIds, trainer.id]
+                            : formData.trainerIds.filter((id) => id !== trainer.id),
+                        })
+                      }
+                    />
+                    <label htmlFor={`trainer-${trainer.id}`} className="text-sm text-gray-900 dark:text-gray-100 cursor-pointer">
+                      {trainer.first_name} {trainer.last_name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Leave all unticked for any trainer to deliver it. Only these trainers can be booked or take over its sessions.
+              </p>
+            </div>
+          )}
+
+          {/* Intake Questions */}
+          <div>
+            <Label>Intake Questions</Label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+              Asked when a client books this service. Trainers see the answers before the session.
+            </p>
+            <IntakeQuestionsEditor
+              questions={formData.intakeQuestions}
+              onChange={(intakeQuestions) => setFormData({ ...formData, intakeQuestions })}
+              error={errors.intakeQuestions}
+            />
+          </div>
+
           {/* Requires Approval */}
           <div>
             <div className="flex items-start gap-3 mt-1">
@@ -0,0 +1,155 @@
+/**
+ * CalDAV calendar provider (RFC 4791)
+ *
+ * Talks to a single calendar collection with HTTP Basic auth. Bookings are
+ * stored as one resource per event at `<calendar>/<uid>.ics`; busy time is
+ * read with a calendar-query REPORT that asks the server to expand
+ * recurring events into instances.
+ */
+
+import { formatIcsDate, isBookingEventUid, parseIcsEvents } from '@/lib/utils/ics';
+import type { BusyTime, CalendarCredentials, CalendarProvider, RemoteEventRef } from './types';
+import { assertPublicCalendarUrl } from './url-guard';
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+function collectionUrl(credentials: CalendarCredentials): string {
+  return credentials.calendarUrl.endsWith('/') ? credentials.calendarUrl : `${credentials.calendarUrl}/`;
+}
+
+async function caldavRequest(
+  credentials: CalendarCredentials,
+  method: string,
+  url: string,
+  options: { body?: string; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  await assertPublicCalendarUrl(url);
+  const auth = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+  return fetch(url, {
+    method,
+    headers: {
+      Authorization: `Basic ${auth}`,
+      ...options.headers,
+    },
+    body: options.body,
+    // Redirects could lead to a host that was never checked
+    redirect: 'manual',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+}
+
+/**
+ * Turn an HTTP failure into a message a trainer can act on. Only the status
+ * is reported — the response body is never echoed back.
+ */
+function toRequestError(response: Response, action: string): Error {
+  if (response.status === 401 || response.status === 403) {
+    return new Error('CalDAV server rejected the username or password');
+  }
+  if (response.status === 404) {
+    return new Error('CalDAV calendar not found — check the calendar URL');
+  }
+  if (response.status >= 300 && response.status < 400) {
+    return new Error('CalDAV server redirected the request — use the final calendar URL');
+  }
+  return new Error(`CalDAV ${action} failed (${response.status})`);
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(?:13|x[dD]);/g, '\r')
+    .replace(/&#(?:10|x[aA]);/g, '\n')
+    .replace(/&amp;/g, '&');
+}
+
+/** Every calendar-data payload in a multistatus response, whatever the namespace prefix */
+function extractCalendarData(xml: string): string[] {
+  const pattern = /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  return Array.from(xml.matchAll(pattern), (match) => decodeXmlText(match[1]));
+}
+
+function buildCalendarQuery(from: Date, to: Date): string {
+  const start = formatIcsDate(from);
+  const end = formatIcsDate(to);
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <C:calendar-data>
+      <C:expand start="${start}" end="${end}"/>
+    </C:calendar-data>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        <C:time-range start="${start}" end="${end}"/>
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+}
+
+export const caldavProvider: CalendarProvider = {
+  id: 'caldav',
+
+  async verify(credentials) {
+    const response = await caldavRequest(credentials, 'PROPFIND', collectionUrl(credentials), {
+      headers: { Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:resourcetype/></D:prop></D:propfind>`,
+    });
+    if (response.status !== 207) {
+      throw toRequestError(response, 'connection check');
+    }
+    const body = await response.text();
+    if (!/<(?:[\w-]+:)?calendar\b/.test(body)) {
+      throw new Error('That URL is not a CalDAV calendar — use the URL of the calendar itself');
+    }
+  },
+
+  async putEvent(credentials, event, existing) {
+    const url = existing?.externalId || `${collectionUrl(credentials)}${encodeURIComponent(event.uid)}.ics`;
+    const response = await caldavRequest(credentials, 'PUT', url, {
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8' },
+      body: event.ics,
+    });
+    if (!response.ok) {
+      throw toRequestError(response, 'event upload');
+    }
+    return { externalId: url, etag: response.headers.get('ETag') };
+  },
+
+  async deleteEvent(credentials, ref: RemoteEventRef) {
+    const response = await caldavRequest(credentials, 'DELETE', ref.externalId);
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      throw toRequestError(response, 'event removal');
+    }
+  },
+
+  async listBusyTimes(credentials, from, to, timezone) {
+    const response = await caldavRequest(credentials, 'REPORT', collectionUrl(credentials), {
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: buildCalendarQuery(from, to),
+    });
+    if (response.status !== 207) {
+      throw toRequestError(response, 'busy time query');
+    }
+
+    const busy: BusyTime[] = [];
+    for (const ics of extractCalendarData(await response.text())) {
+      for (const event of parseIcsEvents(ics, timezone)) {
+        if (event.transparent || event.status === 'CANCELLED' || isBookingEventUid(event.uid)) continue;
+        const start = event.start < from ? from : event.start;
+        const end = event.end > to ? to : event.end;
+        if (end > start) {
+          busy.push({ start, end, externalId: event.uid });
+        }
+      }
+    }
+    return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+  },
+};
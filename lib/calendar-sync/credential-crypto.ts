@@ -0,0 +1,43 @@
+/**
+ * Encryption at rest for calendar credentials
+ *
+ * Passwords are sealed with AES-256-GCM under CALENDAR_SYNC_ENCRYPTION_KEY
+ * (32 bytes, base64 or hex) before they are stored, and opened only on the
+ * server when a provider needs them. Stored as `v1:<iv>:<tag>:<ciphertext>`
+ * so the scheme can be rotated later.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+function getKey(): Buffer {
+  const raw = process.env.CALENDAR_SYNC_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error('CALENDAR_SYNC_ENCRYPTION_KEY is not configured');
+  }
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('CALENDAR_SYNC_ENCRYPTION_KEY must be 32 bytes (base64 or hex)');
+  }
+  return key;
+}
+
+export function encryptCredential(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptCredential(sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Stored calendar credential is not in a recognised format');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,18 @@
+/**
+ * Calendar sync providers, looked up by the id stored on a connection.
+ * Add new providers (Google, Microsoft) here once they implement CalendarProvider.
+ */
+
+import type { CalendarProviderId } from '@/lib/types/calendar-sync';
+import { caldavProvider } from './caldav-provider';
+import type { CalendarProvider } from './types';
+
+export type { BusyTime, CalendarCredentials, CalendarProvider, RemoteEventRef } from './types';
+
+const PROVIDERS: Record<CalendarProviderId, CalendarProvider> = {
+  caldav: caldavProvider,
+};
+
+export function getCalendarProvider(id: string): CalendarProvider | null {
+  return PROVIDERS[id as CalendarProviderId] || null;
+}
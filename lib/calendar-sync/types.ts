@@ -0,0 +1,46 @@
+/**
+ * Provider contract for external calendar sync. Each provider translates
+ * between our bookings (as iCalendar events) and one remote calendar; the
+ * calendar-sync service decides what to push and what to import.
+ */
+
+import type { CalendarProviderId } from '@/lib/types/calendar-sync';
+
+export interface CalendarCredentials {
+  calendarUrl: string;
+  username: string;
+  password: string;
+}
+
+/** Where a pushed booking lives remotely, kept so it can be updated or removed */
+export interface RemoteEventRef {
+  externalId: string;
+  etag: string | null;
+}
+
+export interface BusyTime {
+  start: Date;
+  end: Date;
+  /** Remote event UID, for diagnostics */
+  externalId: string;
+}
+
+export interface CalendarProvider {
+  id: CalendarProviderId;
+  /** Throws with a user-facing message when the calendar can't be reached */
+  verify(credentials: CalendarCredentials): Promise<void>;
+  /** Create or replace the event for a booking; `existing` is the last known remote copy */
+  putEvent(
+    credentials: CalendarCredentials,
+    event: { uid: string; ics: string },
+    existing?: RemoteEventRef | null
+  ): Promise<RemoteEventRef>;
+  /** Remove a pushed event; already-deleted events are not an error */
+  deleteEvent(credentials: CalendarCredentials, ref: RemoteEventRef): Promise<void>;
+  /**
+   * Busy periods between two instants, excluding free (transparent) and
+   * cancelled events and the bookings this app pushed itself. Date-only
+   * events are read in `timezone`.
+   */
+  listBusyTimes(credentials: CalendarCredentials, from: Date, to: Date, timezone: string): Promise<BusyTime[]>;
+}
@@ -0,0 +1,94 @@
+/**
+ * Outbound URL checks for calendar servers
+ *
+ * Calendar URLs are typed in by trainers and the server then sends requests
+ * to them, so a URL must not reach loopback, private, link-local or other
+ * non-public addresses (internal services, cloud metadata). Hosts listed in
+ * CALENDAR_SYNC_ALLOWED_HOSTS (comma-separated) skip the address check, for
+ * self-hosted calendar servers on a private network.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+function allowedHosts(): string[] {
+  return (process.env.CALENDAR_SYNC_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+];
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+  // IPv4-mapped (::ffff:a.b.c.d) is checked as the IPv4 address it maps to
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isBlockedIpv4(mapped[1]);
+  if (normalized === '::' || normalized === '::1') return true;
+  // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+  return /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized) || normalized.startsWith('ff');
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !isBlockedIpv4(address);
+  if (family === 6) return !isBlockedIpv6(address);
+  return false;
+}
+
+/**
+ * Throw unless `url` is http(s) and its host resolves only to public
+ * addresses (or is on the allowlist). Run before every outbound request so
+ * a DNS change after the connection was saved is caught too.
+ */
+export async function assertPublicCalendarUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Calendar URL must be a valid URL');
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('Calendar URL must be an http(s) URL');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (allowedHosts().includes(hostname)) return;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error('Calendar server could not be found — check the calendar URL');
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new Error('Calendar URL must point to a public calendar server');
+  }
+}
@@ -18,6 +18,9 @@ async function fetchDashboardAnalytics(): Promise<{
   averageRpe: number;
   outstandingCredits: number;
   lowCreditClients: number;
+  packagesExpiringSoon: number;
+  creditsExpiringSoon: number;
+  creditsExpiredRecently: number;
 }> {
   const res = await fetch('/api/analytics/dashboard');
   if (!res.ok) throw new Error('Failed to fetch analytics');
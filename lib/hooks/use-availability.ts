@@ -3,6 +3,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   getAvailabilityClient,
+  getBookableSlotsClient,
   addBlockClient,
   updateBlockClient,
   deleteBlockClient,
@@ -14,6 +15,7 @@ import type {
   AvailabilityBlock,
   TrainerAvailability,
 } from "@/lib/types/availability";
+import type { BookableSlotsQuery } from "@/lib/types/slots";
 
 // --- Type converters ---
 
@@ -31,6 +33,7 @@ function apiToStoreBlock(apiBlock: ApiAvailabilityBlock): AvailabilityBlock {
     endDate: apiBlock.endDate ?? undefined,
     reason: apiBlock.reason ?? undefined,
     notes: apiBlock.notes ?? undefined,
+    locationId: apiBlock.locationId ?? undefined,
   };
 }
 
@@ -47,6 +50,7 @@ function storeToApiInput(block: Partial<AvailabilityBlock>): CreateBlockInput {
     endDate: block.endDate,
     reason: block.reason,
     notes: block.notes,
+    locationId: block.locationId,
   };
 }
 
@@ -56,6 +60,8 @@ export const availabilityKeys = {
   all: ["availability"] as const,
   byTrainer: (trainerId: string | undefined) =>
     ["availability", trainerId] as const,
+  slots: (query: Omit<BookableSlotsQuery, "trainerId">) =>
+    ["availability", "slots", query] as const,
 };
 
 // --- Hooks ---
@@ -72,6 +78,16 @@ export function useAvailability(trainerId: string | undefined) {
   });
 }
 
+// Server-computed bookable slots for one of the trainer's services
+export function useBookableSlots(query: Omit<BookableSlotsQuery, "trainerId">, enabled = true) {
+  return useQuery({
+    queryKey: availabilityKeys.slots(query),
+    queryFn: () => getBookableSlotsClient(query),
+    enabled: enabled && !!query.serviceId && !!query.from && !!query.to,
+    staleTime: 30 * 1000,
+  });
+}
+
 export function useAddBlock() {
   const queryClient = useQueryClient();
 
@@ -6,6 +6,7 @@ import {
   createBookingRequestClient,
   acceptRequestClient,
   declineRequestClient,
+  suggestAlternativeClient,
   deleteBookingRequestClient,
   filterExpiredRequests,
   type BookingRequest,
@@ -26,7 +27,7 @@ export const bookingRequestKeys = {
 
 export function useBookingRequests(
   trainerId?: string,
-  status?: "pending" | "accepted" | "declined" | "expired"
+  status?: BookingRequest["status"]
 ) {
   return useQuery({
     queryKey: bookingRequestKeys.list(trainerId, status),
@@ -127,6 +128,18 @@ export function useDeclineBookingRequest() {
   });
 }
 
+export function useSuggestAlternative() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId, suggestedTimes }: { requestId: string; suggestedTimes: string[] }) =>
+      suggestAlternativeClient(requestId, suggestedTimes),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookingRequestKeys.all });
+    },
+  });
+}
+
 export function useDeleteBookingRequest() {
   const queryClient = useQueryClient();
 
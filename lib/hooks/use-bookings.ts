@@ -10,13 +10,33 @@ import {
   checkInBookingClient,
   completeBookingClient,
   deleteBookingClient,
+  createBookingSeriesClient,
+  updateBookingSeriesClient,
+  getClassRosterClient,
+  completeClassClient,
+  undoNoShowClient,
+  rescheduleBookingClient,
+  getReassignCandidatesClient,
+  reassignBookingsClient,
+  getBookingEventsClient,
+  getBookingIntakeClient,
   type Booking,
   type CreateBookingInput,
   type UpdateBookingInput,
+  type CreateBookingSeriesInput,
+  type UpdateBookingSeriesInput,
 } from "@/lib/services/booking-service-client";
 import type { SignOffMode } from "@/lib/types";
+import type { ReassignBookingsInput } from "@/lib/types/booking-reassign";
+import { getServiceBuffers } from "@/lib/utils/booking-buffers";
 
-export type { Booking, CreateBookingInput, UpdateBookingInput };
+export type {
+  Booking,
+  CreateBookingInput,
+  UpdateBookingInput,
+  CreateBookingSeriesInput,
+  UpdateBookingSeriesInput,
+};
 
 // --- CalendarSession type for legacy UI compatibility ---
 
@@ -45,11 +65,17 @@ export interface CalendarSession {
   holdExpiry?: Date | null;
   trainerId?: string;
   duration?: number;
+  seriesId?: string | null;
+  bufferBefore?: number;
+  bufferAfter?: number;
+  locationId?: string | null;
+  locationName?: string | null;
 }
 
 // --- Converters ---
 
 function bookingToSession(booking: Booking): CalendarSession {
+  const buffers = getServiceBuffers(booking.service);
   return {
     id: booking.id,
     datetime: new Date(booking.scheduledAt),
@@ -65,6 +91,11 @@ function bookingToSession(booking: Booking): CalendarSession {
     holdExpiry: booking.holdExpiry ? new Date(booking.holdExpiry) : null,
     trainerId: booking.trainerId,
     duration: booking.duration,
+    seriesId: booking.seriesId,
+    bufferBefore: buffers.before,
+    bufferAfter: buffers.after,
+    locationId: booking.locationId,
+    locationName: booking.location?.name ?? null,
   };
 }
 
@@ -79,6 +110,7 @@ function sessionToBookingInput(session: CalendarSession): CreateBookingInput {
     templateId: session.templateId ?? undefined,
     signOffMode: session.signOffMode,
     notes: session.notes,
+    locationId: session.locationId ?? undefined,
   };
 }
 
@@ -87,6 +119,10 @@ function sessionToBookingInput(session: CalendarSession): CreateBookingInput {
 export const bookingKeys = {
   all: ["bookings"] as const,
   list: (trainerId?: string) => ["bookings", trainerId] as const,
+  roster: (bookingId?: string) => ["bookings", "roster", bookingId] as const,
+  reassignCandidates: (bookingIds: string[]) => ["bookings", "reassign-candidates", ...bookingIds] as const,
+  events: (bookingId?: string) => ["bookings", "events", bookingId] as const,
+  intake: (bookingId?: string) => ["bookings", "intake", bookingId] as const,
 };
 
 // --- Hooks ---
@@ -143,6 +179,35 @@ export function useAddSession() {
   });
 }
 
+export function useCreateBookingSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateBookingSeriesInput) =>
+      createBookingSeriesClient(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
+
+export function useUpdateBookingSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      seriesId,
+      input,
+    }: {
+      seriesId: string;
+      input: UpdateBookingSeriesInput;
+    }) => updateBookingSeriesClient(seriesId, input),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
+
 export function useUpdateBooking() {
   const queryClient = useQueryClient();
 
@@ -311,3 +376,80 @@ export function useCompleteBooking() {
     },
   });
 }
+
+export function useClassRoster(bookingId?: string, enabled = true) {
+  return useQuery({
+    queryKey: bookingKeys.roster(bookingId),
+    queryFn: () => getClassRosterClient(bookingId!),
+    enabled: !!bookingId && enabled,
+  });
+}
+
+export function useBookingEvents(bookingId?: string, enabled = true) {
+  return useQuery({
+    queryKey: bookingKeys.events(bookingId),
+    queryFn: () => getBookingEventsClient(bookingId!),
+    enabled: !!bookingId && enabled,
+  });
+}
+
+export function useBookingIntake(bookingId?: string, enabled = true) {
+  return useQuery({
+    queryKey: bookingKeys.intake(bookingId),
+    queryFn: () => getBookingIntakeClient(bookingId!),
+    enabled: !!bookingId && enabled,
+  });
+}
+
+export function useCompleteClass() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => completeClassClient(bookingId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
+
+export function useUndoNoShow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => undoNoShowClient(bookingId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
+
+export function useRescheduleBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, scheduledAt }: { id: string; scheduledAt: string }) =>
+      rescheduleBookingClient(id, scheduledAt),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
+
+export function useReassignCandidates(bookingIds: string[]) {
+  return useQuery({
+    queryKey: bookingKeys.reassignCandidates(bookingIds),
+    queryFn: () => getReassignCandidatesClient(bookingIds),
+    enabled: bookingIds.length > 0,
+  });
+}
+
+export function useReassignBookings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ReassignBookingsInput) => reassignBookingsClient(input),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getCalendarFeedClient,
+  rotateCalendarFeedClient,
+  type CalendarFeedScope,
+} from "@/lib/services/calendar-feed-service-client";
+import type { CalendarFeed } from "@/lib/types/calendar-feed";
+
+// --- Query key factory ---
+
+export const calendarFeedKeys = {
+  all: ["calendar-feeds"] as const,
+  detail: (scope: CalendarFeedScope) => ["calendar-feeds", scope] as const,
+};
+
+// --- Hooks ---
+
+export function useCalendarFeed(scope: CalendarFeedScope = "personal", enabled = true) {
+  return useQuery({
+    queryKey: calendarFeedKeys.detail(scope),
+    queryFn: (): Promise<CalendarFeed> => getCalendarFeedClient(scope),
+    enabled,
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useRotateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scope: CalendarFeedScope) => rotateCalendarFeedClient(scope),
+    onSuccess: (feed, scope) => {
+      queryClient.setQueryData(calendarFeedKeys.detail(scope), feed);
+    },
+  });
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getCalendarConnectionsClient,
+  createCalendarConnectionClient,
+  updateCalendarConnectionClient,
+  deleteCalendarConnectionClient,
+  syncCalendarConnectionClient,
+} from "@/lib/services/calendar-sync-service-client";
+import { availabilityKeys } from "@/lib/hooks/use-availability";
+import type { CalendarConnection, CalendarConnectionInput } from "@/lib/types/calendar-sync";
+
+// --- Query key factory ---
+
+export const calendarSyncKeys = {
+  all: ["calendar-connections"] as const,
+};
+
+// --- Hooks ---
+
+export function useCalendarConnections(enabled = true) {
+  return useQuery({
+    queryKey: calendarSyncKeys.all,
+    queryFn: (): Promise<CalendarConnection[]> => getCalendarConnectionsClient(),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateCalendarConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CalendarConnectionInput) => createCalendarConnectionClient(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarSyncKeys.all });
+      // Imported busy time shows up as blocked availability
+      queryClient.invalidateQueries({ queryKey: availabilityKeys.all });
+    },
+  });
+}
+
+export function useUpdateCalendarConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<CalendarConnectionInput> }) =>
+      updateCalendarConnectionClient(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarSyncKeys.all });
+      queryClient.invalidateQueries({ queryKey: availabilityKeys.all });
+    },
+  });
+}
+
+export function useDeleteCalendarConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteCalendarConnectionClient(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarSyncKeys.all });
+      queryClient.invalidateQueries({ queryKey: availabilityKeys.all });
+    },
+  });
+}
+
+export function useSyncCalendarConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => syncCalendarConnectionClient(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarSyncKeys.all });
+      queryClient.invalidateQueries({ queryKey: availabilityKeys.all });
+    },
+  });
+}
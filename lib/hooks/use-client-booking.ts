@@ -1,12 +1,16 @@
 'use client';
 
 import { useQuery, useMutation } from '@tanstack/react-query';
-import type { ClientService, StudioTrainer } from '@/lib/types/client-booking';
+import type { ClientService, CreateClientBookingInput, StudioTrainer } from '@/lib/types/client-booking';
+import type { IntakeQuestion } from '@/lib/types/intake';
+import type { BookableSlotsQuery, BookableSlotsResult } from '@/lib/types/slots';
 
 const clientBookingKeys = {
   services: () => ['client-booking', 'services'] as const,
   trainers: () => ['client-booking', 'trainers'] as const,
   credits: () => ['client-booking', 'credits'] as const,
+  slots: (query: BookableSlotsQuery) => ['client-booking', 'slots', query] as const,
+  intake: (serviceId?: string) => ['client-booking', 'intake', serviceId] as const,
 };
 
 /** Fetches studio services for the client from /api/client/studio/services */
@@ -37,6 +41,40 @@ export function useClientStudioTrainers() {
   });
 }
 
+/** Fetches bookable slots for a service from /api/client/slots */
+export function useClientBookableSlots(query: BookableSlotsQuery) {
+  return useQuery({
+    queryKey: clientBookingKeys.slots(query),
+    queryFn: async (): Promise<BookableSlotsResult> => {
+      const params = new URLSearchParams({ serviceId: query.serviceId, from: query.from, to: query.to });
+      if (query.trainerId) params.set('trainerId', query.trainerId);
+      if (query.excludeBookingId) params.set('excludeBookingId', query.excludeBookingId);
+
+      const res = await fetch(`/api/client/slots?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch available times');
+      return data;
+    },
+    enabled: !!query.serviceId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/** Fetches a service's intake questions from /api/public/intake/[serviceId] */
+export function useServiceIntakeQuestions(serviceId?: string) {
+  return useQuery({
+    queryKey: clientBookingKeys.intake(serviceId),
+    queryFn: async (): Promise<IntakeQuestion[]> => {
+      const res = await fetch(`/api/public/intake/${serviceId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch intake questions');
+      return data.questions || [];
+    },
+    enabled: !!serviceId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 /** Fetches client credits from /api/client/packages */
 export function useClientCredits() {
   return useQuery({
@@ -54,7 +92,7 @@ export function useClientCredits() {
 /** POST /api/client/bookings */
 export function useCreateClientBooking() {
   return useMutation({
-    mutationFn: async (input: { serviceId: string; trainerId: string; scheduledAt: string }) => {
+    mutationFn: async (input: CreateClientBookingInput) => {
       const res = await fetch('/api/client/bookings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
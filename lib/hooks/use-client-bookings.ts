@@ -1,12 +1,32 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ClientWaitlistEntry } from '@/lib/types/waitlist';
+import type { ClientBookingRequest } from '@/lib/types/booking-request';
+import type { BookingTimeProposal } from '@/lib/types/leave';
+
+export type { ClientWaitlistEntry, ClientBookingRequest, BookingTimeProposal };
 
 const clientBookingKeys = {
   all: ['client-bookings'] as const,
   list: (userId: string) => ['client-bookings', userId] as const,
 };
 
+const clientWaitlistKeys = {
+  all: ['client-waitlist'] as const,
+  list: (userId: string) => ['client-waitlist', userId] as const,
+};
+
+const clientRequestKeys = {
+  all: ['client-booking-requests'] as const,
+  list: (userId: string) => ['client-booking-requests', userId] as const,
+};
+
+const clientProposalKeys = {
+  all: ['client-booking-proposals'] as const,
+  list: (userId: string) => ['client-booking-proposals', userId] as const,
+};
+
 const clientPackageKeys = {
   all: ['client-packages'] as const,
   list: (userId: string) => ['client-packages', userId] as const,
@@ -20,6 +40,10 @@ export interface ClientBooking {
   trainerName: string;
   duration: number;
   holdExpiry?: string;
+  serviceId?: string;
+  trainerId?: string;
+  /** The studio's policy lets the client move this booking themselves */
+  canReschedule?: boolean;
 }
 
 export interface ClientPackage {
@@ -88,3 +112,158 @@ export function useCancelClientBooking() {
     },
   });
 }
+
+async function rescheduleClientBookingApi({ bookingId, scheduledAt }: { bookingId: string; scheduledAt: string }): Promise<void> {
+  const res = await fetch(`/api/client/bookings?id=${bookingId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ scheduledAt }),
+  });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.error || 'Failed to reschedule booking');
+  }
+}
+
+export function useRescheduleClientBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: rescheduleClientBookingApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientBookingKeys.all });
+    },
+  });
+}
+
+async function fetchClientWaitlist(): Promise<ClientWaitlistEntry[]> {
+  const res = await fetch('/api/client/waitlist');
+  if (!res.ok) throw new Error('Failed to fetch waitlist');
+  const data = await res.json();
+  return data.entries || [];
+}
+
+export function useClientWaitlist(userId: string | undefined) {
+  return useQuery({
+    queryKey: clientWaitlistKeys.list(userId || ''),
+    queryFn: fetchClientWaitlist,
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+async function acceptWaitlistOfferApi(entryId: string): Promise<void> {
+  const res = await fetch(`/api/client/waitlist/${entryId}`, { method: 'POST' });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.error || 'Failed to claim spot');
+  }
+}
+
+export function useAcceptWaitlistOffer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: acceptWaitlistOfferApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientWaitlistKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientBookingKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientPackageKeys.all });
+    },
+  });
+}
+
+async function leaveWaitlistApi(entryId: string): Promise<void> {
+  const res = await fetch(`/api/client/waitlist/${entryId}`, { method: 'DELETE' });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.error || 'Failed to leave waitlist');
+  }
+}
+
+export function useLeaveWaitlist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: leaveWaitlistApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientWaitlistKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientBookingKeys.all });
+    },
+  });
+}
+
+async function fetchClientBookingRequests(): Promise<ClientBookingRequest[]> {
+  const res = await fetch('/api/client/booking-requests');
+  if (!res.ok) throw new Error('Failed to fetch booking requests');
+  const data = await res.json();
+  return data.requests || [];
+}
+
+export function useClientBookingRequests(userId: string | undefined) {
+  return useQuery({
+    queryKey: clientRequestKeys.list(userId || ''),
+    queryFn: fetchClientBookingRequests,
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+async function acceptSuggestedTimeApi({ requestId, acceptedTime }: { requestId: string; acceptedTime: string }): Promise<void> {
+  const res = await fetch(`/api/client/booking-requests/${requestId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ acceptedTime }),
+  });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.error || 'Failed to book this time');
+  }
+}
+
+export function useAcceptSuggestedTime() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: acceptSuggestedTimeApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientRequestKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientBookingKeys.all });
+    },
+  });
+}
+
+async function fetchClientTimeProposals(): Promise<BookingTimeProposal[]> {
+  const res = await fetch('/api/client/booking-proposals');
+  if (!res.ok) throw new Error('Failed to fetch offered times');
+  const data = await res.json();
+  return data.proposals || [];
+}
+
+export function useClientTimeProposals(userId: string | undefined) {
+  return useQuery({
+    queryKey: clientProposalKeys.list(userId || ''),
+    queryFn: fetchClientTimeProposals,
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+async function acceptTimeProposalApi({ proposalId, acceptedTime }: { proposalId: string; acceptedTime: string }): Promise<void> {
+  const res = await fetch(`/api/client/booking-proposals/${proposalId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ acceptedTime }),
+  });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.error || 'Failed to move to this time');
+  }
+}
+
+export function useAcceptTimeProposal() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: acceptTimeProposalApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientProposalKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientBookingKeys.all });
+    },
+  });
+}
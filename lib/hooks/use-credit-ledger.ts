@@ -0,0 +1,35 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  getClientCreditLedgerClient,
+  getCreditReconciliationClient,
+} from "@/lib/services/credit-ledger-service-client";
+import type { CreditLedgerEntry, CreditReconciliationReport } from "@/lib/types/credit-ledger";
+
+// --- Query key factory ---
+
+export const creditLedgerKeys = {
+  all: ["credit-ledger"] as const,
+  reconciliation: () => ["credit-ledger", "reconciliation"] as const,
+  client: (clientId: string) => ["credit-ledger", "client", clientId] as const,
+};
+
+// --- Hooks ---
+
+export function useCreditReconciliation(enabled = true) {
+  return useQuery({
+    queryKey: creditLedgerKeys.reconciliation(),
+    queryFn: (): Promise<CreditReconciliationReport> => getCreditReconciliationClient(),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useClientCreditLedger(clientId: string | null) {
+  return useQuery({
+    queryKey: creditLedgerKeys.client(clientId || ""),
+    queryFn: (): Promise<CreditLedgerEntry[]> => getClientCreditLedgerClient(clientId!),
+    enabled: !!clientId,
+  });
+}
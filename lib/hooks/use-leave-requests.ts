@@ -0,0 +1,94 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getLeaveRequestsClient,
+  createLeaveRequestClient,
+  reviewLeaveRequestClient,
+  cancelLeaveRequestClient,
+  getLeaveImpactClient,
+  applyLeaveActionClient,
+} from "@/lib/services/leave-service-client";
+import { bookingKeys } from "@/lib/hooks/use-bookings";
+import type {
+  LeaveAffectedBooking,
+  LeaveBookingActionInput,
+  LeaveRequest,
+  LeaveRequestInput,
+  LeaveReviewInput,
+  LeaveStatus,
+} from "@/lib/types/leave";
+
+// --- Query key factory ---
+
+export const leaveKeys = {
+  all: ["leave-requests"] as const,
+  list: (status?: LeaveStatus) => ["leave-requests", "list", status ?? "all"] as const,
+  impact: (id: string) => ["leave-requests", "impact", id] as const,
+};
+
+// --- Hooks ---
+
+export function useLeaveRequests(status?: LeaveStatus, enabled = true) {
+  return useQuery({
+    queryKey: leaveKeys.list(status),
+    queryFn: (): Promise<LeaveRequest[]> => getLeaveRequestsClient(status),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useLeaveImpact(id: string | null) {
+  return useQuery({
+    queryKey: leaveKeys.impact(id || ""),
+    queryFn: (): Promise<LeaveAffectedBooking[]> => getLeaveImpactClient(id!),
+    enabled: !!id,
+  });
+}
+
+export function useCreateLeaveRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LeaveRequestInput) => createLeaveRequestClient(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leaveKeys.all });
+    },
+  });
+}
+
+export function useReviewLeaveRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: LeaveReviewInput }) =>
+      reviewLeaveRequestClient(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leaveKeys.all });
+    },
+  });
+}
+
+export function useCancelLeaveRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => cancelLeaveRequestClient(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leaveKeys.all });
+    },
+  });
+}
+
+export function useApplyLeaveAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: LeaveBookingActionInput }) =>
+      applyLeaveActionClient(id, input),
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: leaveKeys.impact(id) });
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+    },
+  });
+}
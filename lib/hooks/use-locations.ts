@@ -0,0 +1,62 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getLocationsClient,
+  createLocationClient,
+  updateLocationClient,
+  deleteLocationClient,
+} from "@/lib/services/location-service-client";
+import type { Location, LocationInput } from "@/lib/types/location";
+
+// --- Query key factory ---
+
+export const locationKeys = {
+  all: ["locations"] as const,
+  list: (activeOnly: boolean) => ["locations", activeOnly] as const,
+};
+
+// --- Hooks ---
+
+export function useLocations(activeOnly = true, enabled = true) {
+  return useQuery({
+    queryKey: locationKeys.list(activeOnly),
+    queryFn: (): Promise<Location[]> => getLocationsClient(activeOnly),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LocationInput) => createLocationClient(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: locationKeys.all });
+    },
+  });
+}
+
+export function useUpdateLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<LocationInput> }) =>
+      updateLocationClient(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: locationKeys.all });
+    },
+  });
+}
+
+export function useDeleteLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteLocationClient(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: locationKeys.all });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { MembershipPlan, MembershipPlanInput } from '@/lib/types/membership';
+
+const membershipKeys = {
+  all: ['memberships'] as const,
+  plans: () => ['memberships', 'plans'] as const,
+};
+
+/** Fetches the studio's membership plans from /api/memberships/plans */
+export function useMembershipPlans() {
+  return useQuery({
+    queryKey: membershipKeys.plans(),
+    queryFn: async (): Promise<MembershipPlan[]> => {
+      const res = await fetch('/api/memberships/plans');
+      if (!res.ok) throw new Error('Failed to fetch membership plans');
+      const data = await res.json();
+      return data.plans || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** POST /api/memberships/plans, or PATCH /api/memberships/plans/[id] */
+export function useSaveMembershipPlan() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<MembershipPlanInput> & { id?: string }): Promise<MembershipPlan> => {
+      const res = await fetch(id ? `/api/memberships/plans/${id}` : '/api/memberships/plans', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save membership plan');
+      return data.plan;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membershipKeys.all });
+    },
+  });
+}
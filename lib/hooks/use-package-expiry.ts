@@ -0,0 +1,37 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  extendPackageExpiryClient,
+  getClientPackagesClient,
+} from "@/lib/services/package-expiry-service-client";
+import { creditLedgerKeys } from "@/lib/hooks/use-credit-ledger";
+import type { ClientPackageExpiry } from "@/lib/types/package-expiry";
+
+// --- Query key factory ---
+
+export const packageExpiryKeys = {
+  all: ["package-expiry"] as const,
+  client: (clientId: string) => ["package-expiry", "client", clientId] as const,
+};
+
+// --- Hooks ---
+
+export function useClientPackages(clientId: string | null) {
+  return useQuery({
+    queryKey: packageExpiryKeys.client(clientId || ""),
+    queryFn: (): Promise<ClientPackageExpiry[]> => getClientPackagesClient(clientId!),
+    enabled: !!clientId,
+  });
+}
+
+export function useExtendPackageExpiry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: extendPackageExpiryClient,
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: packageExpiryKeys.client(variables.clientId) });
+      queryClient.invalidateQueries({ queryKey: creditLedgerKeys.all });
+    },
+  });
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getRefundablePaymentsClient,
+  refundPaymentClient,
+} from "@/lib/services/refund-service-client";
+import { bookingKeys } from "@/lib/hooks/use-bookings";
+import { creditLedgerKeys } from "@/lib/hooks/use-credit-ledger";
+import { packageExpiryKeys } from "@/lib/hooks/use-package-expiry";
+import type { RefundablePayment } from "@/lib/types/refund";
+
+// --- Query key factory ---
+
+export const refundKeys = {
+  all: ["refunds"] as const,
+  client: (clientId: string) => ["refunds", "client", clientId] as const,
+  booking: (bookingId: string) => ["refunds", "booking", bookingId] as const,
+};
+
+// --- Hooks ---
+
+/** Payments for a client or a booking; pass one of the two */
+export function useRefundablePayments(params: { clientId?: string | null; bookingId?: string | null }) {
+  const { clientId, bookingId } = params;
+  return useQuery({
+    queryKey: clientId ? refundKeys.client(clientId) : refundKeys.booking(bookingId || ""),
+    queryFn: (): Promise<RefundablePayment[]> =>
+      getRefundablePaymentsClient({ clientId: clientId || undefined, bookingId: bookingId || undefined }),
+    enabled: !!clientId || !!bookingId,
+  });
+}
+
+export function useRefundPayment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: refundPaymentClient,
+    onSuccess: ({ payment }) => {
+      queryClient.invalidateQueries({ queryKey: refundKeys.all });
+      queryClient.invalidateQueries({ queryKey: packageExpiryKeys.all });
+      queryClient.invalidateQueries({ queryKey: creditLedgerKeys.all });
+      if (payment.bookingId) {
+        queryClient.invalidateQueries({ queryKey: bookingKeys.events(payment.bookingId) });
+      }
+    },
+  });
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getResourcesClient,
+  createResourceClient,
+  updateResourceClient,
+  deleteResourceClient,
+  getResourceScheduleClient,
+} from "@/lib/services/resource-service-client";
+import type { Resource, ResourceInput, ResourceSchedule } from "@/lib/types/resource";
+
+// --- Query key factory ---
+
+export const resourceKeys = {
+  all: ["resources"] as const,
+  list: (activeOnly: boolean) => ["resources", activeOnly] as const,
+  schedule: (from: string, to: string) => ["resources", "schedule", from, to] as const,
+};
+
+// --- Hooks ---
+
+export function useResources(activeOnly = true, enabled = true) {
+  return useQuery({
+    queryKey: resourceKeys.list(activeOnly),
+    queryFn: (): Promise<Resource[]> => getResourcesClient(activeOnly),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Sessions holding each resource, for the studio-owner resource calendar
+export function useResourceSchedule(from: string, to: string, enabled = true) {
+  return useQuery({
+    queryKey: resourceKeys.schedule(from, to),
+    queryFn: (): Promise<ResourceSchedule[]> => getResourceScheduleClient(from, to),
+    enabled: enabled && !!from && !!to,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useCreateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ResourceInput) => createResourceClient(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
+
+export function useUpdateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<ResourceInput> }) =>
+      updateResourceClient(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
+
+export function useDeleteResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteResourceClient(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resourceKeys.all });
+    },
+  });
+}
@@ -25,6 +25,12 @@ function toStoreService(apiService: ApiService): Service {
     creditsRequired: apiService.creditsRequired,
     color: apiService.color,
     isActive: apiService.isActive,
+    bufferBeforeMinutes: apiService.bufferBeforeMinutes,
+    bufferAfterMinutes: apiService.bufferAfterMinutes,
+    locationId: apiService.locationId,
+    resourceIds: apiService.resourceIds,
+    trainerIds: apiService.trainerIds,
+    intakeQuestions: apiService.intakeQuestions,
     createdBy: apiService.createdBy,
     assignedStudios: apiService.studioId ? [apiService.studioId] : [],
     createdAt: apiService.createdAt,
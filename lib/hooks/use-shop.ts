@@ -1,6 +1,7 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ClientMembership, ShopMembershipPlan } from '@/lib/types/membership';
 
 export interface ShopPackage {
   id: string;
@@ -32,6 +33,7 @@ const shopKeys = {
   all: ['shop'] as const,
   packages: () => ['shop', 'packages'] as const,
   offers: () => ['shop', 'offers'] as const,
+  memberships: () => ['shop', 'memberships'] as const,
 };
 
 /** Fetches shop packages from /api/client/shop/packages */
@@ -62,6 +64,36 @@ export function useShopOffers() {
   });
 }
 
+/** Fetches membership plans and the client's memberships from /api/client/memberships */
+export function useShopMemberships() {
+  return useQuery({
+    queryKey: shopKeys.memberships(),
+    queryFn: async (): Promise<{ plans: ShopMembershipPlan[]; memberships: ClientMembership[] }> => {
+      const res = await fetch('/api/client/memberships');
+      if (!res.ok) throw new Error('Failed to fetch memberships');
+      const data = await res.json();
+      return { plans: data.plans || [], memberships: data.memberships || [] };
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/** POST /api/client/memberships/[id]/cancel */
+export function useCancelMembership() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (membershipId: string): Promise<ClientMembership> => {
+      const res = await fetch(`/api/client/memberships/${membershipId}/cancel`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to cancel membership');
+      return data.membership;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shopKeys.memberships() });
+    },
+  });
+}
+
 /** POST /api/client/shop/claim */
 export function useClaimShopItem() {
   const queryClient = useQueryClient();
@@ -81,3 +113,22 @@ export function useClaimShopItem() {
     },
   });
 }
+
+/** POST /api/client/shop/checkout, then off to Stripe */
+export function useShopCheckout() {
+  return useMutation({
+    mutationFn: async (input: { type: 'package' | 'offer' | 'membership'; id: string }): Promise<{ sessionId: string; url: string | null }> => {
+      const res = await fetch('/api/client/shop/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start checkout');
+      return data;
+    },
+    onSuccess: (data) => {
+      if (data.url) window.location.href = data.url;
+    },
+  });
+}
@@ -18,7 +18,7 @@ const trainerKeys = {
 };
 
 /** Fetches studio trainers/staff from /api/trainers */
-export function useTrainers() {
+export function useTrainers(enabled = true) {
   return useQuery({
     queryKey: trainerKeys.list(),
     queryFn: async (): Promise<StaffMember[]> => {
@@ -28,5 +28,6 @@ export function useTrainers() {
       return data.trainers || [];
     },
     staleTime: 5 * 60 * 1000,
+    enabled,
   });
 }
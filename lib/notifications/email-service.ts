@@ -9,10 +9,21 @@ import {
   getBookingRequestCreatedEmail,
   getBookingRequestAcceptedEmail,
   getBookingRequestDeclinedEmail,
+  getBookingRequestCounteredEmail,
+  getSuggestedTimeAcceptedEmail,
   getClientInvitationEmail,
   getCustomEmail,
   getRescheduleEmail,
   generateSoftHoldEmail,
+  getWaitlistOfferEmail,
+  getNoShowEmail,
+  getTrainerChangedEmail,
+  getBookingTimeProposalEmail,
+  getBookingCancelledEmail,
+  getSoftHoldExpiredEmail,
+  getPackageExpiryWarningEmail,
+  getMembershipPaymentFailedEmail,
+  type EmailAttachment,
 } from './email-templates';
 
 const ELASTIC_EMAIL_API_URL = 'https://api.elasticemail.com/v4/emails/transactional';
@@ -49,6 +60,7 @@ async function sendViaElasticEmail(params: {
   subject: string;
   html: string;
   text: string;
+  attachments?: EmailAttachment[];
 }): Promise<{ messageId?: string; error?: string }> {
   const response = await fetch(ELASTIC_EMAIL_API_URL, {
     method: 'POST',
@@ -75,6 +87,15 @@ async function sendViaElasticEmail(params: {
             Content: params.text,
           },
         ],
+        ...(params.attachments?.length
+          ? {
+              Attachments: params.attachments.map((attachment) => ({
+                BinaryContent: Buffer.from(attachment.content, 'utf-8').toString('base64'),
+                Name: attachment.name,
+                ContentType: attachment.contentType,
+              })),
+            }
+          : {}),
       },
     }),
   });
@@ -100,6 +121,8 @@ export async function sendBookingConfirmationEmail(params: {
   scheduledAt: string | Date;
   duration?: number;
   bookingId?: string;
+  timezone?: string;
+  location?: string;
 }): Promise<SendEmailResult> {
   try {
     const email = getBookingConfirmationEmail({
@@ -108,6 +131,9 @@ export async function sendBookingConfirmationEmail(params: {
       serviceName: params.serviceName,
       scheduledAt: params.scheduledAt,
       duration: params.duration,
+      timezone: params.timezone,
+      location: params.location,
+      bookingId: params.bookingId,
     });
 
     const result = await sendViaElasticEmail({
@@ -115,6 +141,7 @@ export async function sendBookingConfirmationEmail(params: {
       subject: email.subject,
       html: email.html,
       text: email.text,
+      attachments: email.attachments,
     });
 
     if (result.error) {
@@ -149,6 +176,8 @@ export async function sendReminderEmail(params: {
   scheduledAt: string | Date;
   hours: number; // 24 or 2
   bookingId?: string;
+  timezone?: string;
+  location?: string;
 }): Promise<SendEmailResult> {
   try {
     const email = getReminderEmail(
@@ -157,6 +186,8 @@ export async function sendReminderEmail(params: {
         trainerName: params.trainerName,
         serviceName: params.serviceName,
         scheduledAt: params.scheduledAt,
+        timezone: params.timezone,
+        location: params.location,
       },
       params.hours
     );
@@ -294,6 +325,7 @@ export async function sendBookingRequestCreatedEmail(params: {
   preferredTimes: string[];
   notes?: string;
   requestId?: string;
+  timezone?: string;
 }): Promise<SendEmailResult> {
   try {
     const email = getBookingRequestCreatedEmail({
@@ -302,6 +334,7 @@ export async function sendBookingRequestCreatedEmail(params: {
       serviceName: params.serviceName,
       preferredTimes: params.preferredTimes,
       notes: params.notes,
+      timezone: params.timezone,
     });
 
     const result = await sendViaElasticEmail({
@@ -342,6 +375,7 @@ export async function sendBookingRequestAcceptedEmail(params: {
   serviceName?: string;
   acceptedTime: string | Date;
   requestId?: string;
+  timezone?: string;
 }): Promise<SendEmailResult> {
   try {
     const email = getBookingRequestAcceptedEmail({
@@ -349,6 +383,7 @@ export async function sendBookingRequestAcceptedEmail(params: {
       trainerName: params.trainerName,
       serviceName: params.serviceName,
       acceptedTime: params.acceptedTime,
+      timezone: params.timezone,
     });
 
     const result = await sendViaElasticEmail({
@@ -424,6 +459,108 @@ export async function sendBookingRequestDeclinedEmail(params: {
   }
 }
 
+/**
+ * Send alternative times suggested by the trainer to the client
+ */
+export async function sendBookingRequestCounteredEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  serviceName?: string;
+  suggestedTimes: string[];
+  chooseLink: string;
+  expiresAt: string | Date;
+  requestId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getBookingRequestCounteredEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      suggestedTimes: params.suggestedTimes,
+      chooseLink: params.chooseLink,
+      expiresAt: params.expiresAt,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.requestId) {
+      await logNotification({
+        type: 'booking_request_countered',
+        recipientEmail: params.clientEmail,
+        bookingId: params.requestId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending booking request countered email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Tell the trainer the client booked one of their suggested times
+ */
+export async function sendSuggestedTimeAcceptedEmail(params: {
+  trainerEmail: string;
+  trainerName: string;
+  clientName: string;
+  serviceName?: string;
+  acceptedTime: string | Date;
+  requestId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getSuggestedTimeAcceptedEmail({
+      trainerName: params.trainerName,
+      clientName: params.clientName,
+      serviceName: params.serviceName,
+      acceptedTime: params.acceptedTime,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.trainerEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.requestId) {
+      await logNotification({
+        type: 'suggested_time_accepted',
+        recipientEmail: params.trainerEmail,
+        bookingId: params.requestId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending suggested time accepted email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
 /**
  * Send client invitation email
  */
@@ -630,21 +767,53 @@ export async function sendRescheduleEmail(params: {
   oldTime: string | Date;
   newTime: string | Date;
   bookingId?: string;
+  timezone?: string;
+  duration?: number;
+  location?: string;
+  /** ta_bookings.ics_sequence after the move */
+  sequence?: number;
+  /** Who moved the session (default: the trainer) */
+  rescheduledBy?: 'trainer' | 'client';
+  /** When set, the trainer is sent their own copy too */
+  trainerEmail?: string;
 }): Promise<SendEmailResult> {
   try {
-    const email = getRescheduleEmail({
+    const templateData = {
       clientName: params.clientName,
       trainerName: params.trainerName,
       serviceName: params.serviceName,
       oldTime: params.oldTime,
       newTime: params.newTime,
+      timezone: params.timezone,
+      rescheduledBy: params.rescheduledBy,
+    };
+    const email = getRescheduleEmail({
+      ...templateData,
+      bookingId: params.bookingId,
+      duration: params.duration,
+      location: params.location,
+      sequence: params.sequence,
     });
 
+    if (params.trainerEmail) {
+      const trainerEmail = getRescheduleEmail({ ...templateData, recipient: 'trainer' });
+      const trainerResult = await sendViaElasticEmail({
+        to: params.trainerEmail,
+        subject: trainerEmail.subject,
+        html: trainerEmail.html,
+        text: trainerEmail.text,
+      });
+      if (trainerResult.error) {
+        console.error('Error sending trainer reschedule email:', trainerResult.error);
+      }
+    }
+
     const result = await sendViaElasticEmail({
       to: params.clientEmail,
       subject: email.subject,
       html: email.html,
       text: email.text,
+      attachments: email.attachments,
     });
 
     if (result.error) {
@@ -742,6 +911,10 @@ export async function sendSoftHoldEmail(params: {
   creditsRequired: number;
   holdExpiry: string | Date;
   topUpLink?: string;
+  timezone?: string;
+  /** Send the "expires in N minutes" reminder instead of the initial notice */
+  expiresInMinutes?: number;
+  bookingId?: string;
 }): Promise<SendEmailResult> {
   try {
     const email = generateSoftHoldEmail({
@@ -752,6 +925,8 @@ export async function sendSoftHoldEmail(params: {
       creditsRequired: params.creditsRequired,
       holdExpiry: params.holdExpiry,
       topUpLink: params.topUpLink,
+      timezone: params.timezone,
+      expiresInMinutes: params.expiresInMinutes,
     });
 
     const result = await sendViaElasticEmail({
@@ -765,9 +940,450 @@ export async function sendSoftHoldEmail(params: {
       return { success: false, error: result.error };
     }
 
+    if (params.bookingId) {
+      await logNotification({
+        type: params.expiresInMinutes !== undefined ? 'soft_hold_reminder' : 'soft_hold',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
     return { success: true, messageId: result.messageId };
   } catch (error) {
     console.error('Error sending soft hold email:', error);
     return { success: false, error: String(error) };
   }
 }
+
+/**
+ * Send soft hold expired email to client
+ */
+export async function sendSoftHoldExpiredEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  sessionDatetime: string | Date;
+  bookLink?: string;
+  bookingId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getSoftHoldExpiredEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      sessionDatetime: params.sessionDatetime,
+      bookLink: params.bookLink,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.bookingId) {
+      await logNotification({
+        type: 'soft_hold_expired',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending soft hold expired email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Send waitlist offer email to client
+ */
+export async function sendWaitlistOfferEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  offerExpiresAt: string | Date;
+  claimLink: string;
+  bookingId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getWaitlistOfferEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      scheduledAt: params.scheduledAt,
+      offerExpiresAt: params.offerExpiresAt,
+      claimLink: params.claimLink,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.bookingId) {
+      await logNotification({
+        type: 'waitlist_offer',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending waitlist offer email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Send no-show notice to client
+ */
+export async function sendNoShowEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  creditsToCharge: number;
+  bookingId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getNoShowEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      scheduledAt: params.scheduledAt,
+      creditsToCharge: params.creditsToCharge,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.bookingId) {
+      await logNotification({
+        type: 'no_show',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending no-show email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Tell the client their session is now with a different trainer
+ */
+export async function sendTrainerChangedEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  previousTrainerName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  bookingId?: string;
+  timezone?: string;
+  duration?: number;
+  location?: string;
+  /** ta_bookings.ics_sequence after the change */
+  sequence?: number;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getTrainerChangedEmail({
+      clientName: params.clientName,
+      previousTrainerName: params.previousTrainerName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      scheduledAt: params.scheduledAt,
+      bookingId: params.bookingId,
+      timezone: params.timezone,
+      duration: params.duration,
+      location: params.location,
+      sequence: params.sequence,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      attachments: email.attachments,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.bookingId) {
+      await logNotification({
+        type: 'trainer_changed',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending trainer changed email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Offer the client new times for a session their trainer can no longer make
+ */
+export async function sendBookingTimeProposalEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  currentTime: string | Date;
+  proposedTimes: string[];
+  chooseLink: string;
+  expiresAt: string | Date;
+  bookingId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getBookingTimeProposalEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      currentTime: params.currentTime,
+      proposedTimes: params.proposedTimes,
+      chooseLink: params.chooseLink,
+      expiresAt: params.expiresAt,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.bookingId) {
+      await logNotification({
+        type: 'booking_time_proposal',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending booking time proposal email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Tell the client the studio cancelled their session, and what was refunded
+ */
+export async function sendBookingCancelledEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  reason?: string;
+  creditsRefunded: number;
+  bookingId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getBookingCancelledEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      scheduledAt: params.scheduledAt,
+      reason: params.reason,
+      creditsRefunded: params.creditsRefunded,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.bookingId) {
+      await logNotification({
+        type: 'booking_cancelled',
+        recipientEmail: params.clientEmail,
+        bookingId: params.bookingId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending booking cancelled email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Warn a client that a package's unused credits are about to expire
+ */
+export async function sendPackageExpiryWarningEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  trainerName: string;
+  packageName: string;
+  creditsRemaining: number;
+  expiresAt: string | Date;
+  daysLeft: number;
+  bookLink: string;
+  clientId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getPackageExpiryWarningEmail({
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      packageName: params.packageName,
+      creditsRemaining: params.creditsRemaining,
+      expiresAt: params.expiresAt,
+      daysLeft: params.daysLeft,
+      bookLink: params.bookLink,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.clientId) {
+      await logNotification({
+        type: 'package_expiry_warning',
+        recipientEmail: params.clientEmail,
+        clientId: params.clientId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending package expiry warning email:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Tell a client their membership renewal failed and how to pay it
+ */
+export async function sendMembershipPaymentFailedEmail(params: {
+  clientEmail: string;
+  clientName: string;
+  planName: string;
+  amount: number; // in cents
+  attempt: number;
+  nextAttemptAt?: string | Date | null;
+  payLink: string;
+  clientId?: string;
+  timezone?: string;
+}): Promise<SendEmailResult> {
+  try {
+    const email = getMembershipPaymentFailedEmail({
+      clientName: params.clientName,
+      planName: params.planName,
+      amount: params.amount,
+      attempt: params.attempt,
+      nextAttemptAt: params.nextAttemptAt,
+      payLink: params.payLink,
+      timezone: params.timezone,
+    });
+
+    const result = await sendViaElasticEmail({
+      to: params.clientEmail,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+
+    if (params.clientId) {
+      await logNotification({
+        type: 'membership_payment_failed',
+        recipientEmail: params.clientEmail,
+        clientId: params.clientId,
+        status: 'sent',
+        messageId: result.messageId,
+      });
+    }
+
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    console.error('Error sending membership payment failed email:', error);
+    return { success: false, error: String(error) };
+  }
+}
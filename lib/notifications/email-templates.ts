@@ -8,7 +8,17 @@
 // - Include alt text as fallback when images are blocked
 // - PNG format for widest email client compatibility
 
-import { format } from 'date-fns';
+import { formatInTimeZone } from '@/lib/utils/timezone';
+import { buildIcsCalendar, getBookingEventUid } from '@/lib/utils/ics';
+
+/**
+ * File attached to an email, e.g. the .ics for a single booking
+ */
+export interface EmailAttachment {
+  name: string;
+  contentType: string;
+  content: string;
+}
 
 /**
  * Branding options for email templates
@@ -26,6 +36,12 @@ interface BookingData {
   scheduledAt: string | Date;
   duration?: number;
   branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+  /** Where the session takes place, when the studio has several locations */
+  location?: string;
+  /** When set, an .ics for the booking is attached */
+  bookingId?: string;
 }
 
 interface PaymentData {
@@ -109,10 +125,41 @@ function getFooterText(branding?: EmailBranding): string {
   return 'Powered by AllWondrous';
 }
 
+/**
+ * Single-event .ics so the client can add the booking in one tap. The UID
+ * matches the subscription feeds, so calendars update rather than duplicate.
+ */
+function getBookingIcsAttachment(data: {
+  bookingId: string;
+  serviceName: string;
+  trainerName: string;
+  scheduledAt: string | Date;
+  duration?: number;
+  location?: string;
+  sequence?: number;
+}): EmailAttachment {
+  const start = new Date(data.scheduledAt);
+  return {
+    name: 'booking.ics',
+    contentType: 'text/calendar',
+    content: buildIcsCalendar({
+      events: [{
+        uid: getBookingEventUid(data.bookingId),
+        start,
+        end: new Date(start.getTime() + (data.duration || 60) * 60 * 1000),
+        summary: `${data.serviceName} with ${data.trainerName}`,
+        location: data.location,
+        status: 'CONFIRMED',
+        sequence: data.sequence || 0,
+      }],
+    }),
+  };
+}
+
 export function getBookingConfirmationEmail(data: BookingData) {
   const scheduledDate = new Date(data.scheduledAt);
-  const dateStr = format(scheduledDate, 'EEEE, MMMM d, yyyy');
-  const timeStr = format(scheduledDate, 'h:mm a');
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
   const footerText = getFooterText(data.branding);
 
   return {
@@ -127,6 +174,7 @@ Date: ${dateStr}
 Time: ${timeStr}
 ${data.duration ? `Duration: ${data.duration} minutes` : ''}
 Trainer: ${data.trainerName}
+${data.location ? `Location: ${data.location}` : ''}
 
 See you then!
 
@@ -166,6 +214,7 @@ ${footerText}
           <div class="label">Trainer</div>
           <div class="value">${data.trainerName}</div>
         </div>
+        ${data.location ? `<div class="detail"><div class="label">Location</div><div class="value">${data.location}</div></div>` : ''}
       </div>
 
       <p>See you then!</p>
@@ -177,13 +226,14 @@ ${footerText}
 </body>
 </html>
     `.trim(),
+    attachments: data.bookingId ? [getBookingIcsAttachment({ ...data, bookingId: data.bookingId })] : [],
   };
 }
 
 export function getReminderEmail(data: BookingData, hours: number) {
   const scheduledDate = new Date(data.scheduledAt);
-  const dateStr = format(scheduledDate, 'EEEE, MMMM d');
-  const timeStr = format(scheduledDate, 'h:mm a');
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
   const timeText = hours === 24 ? 'tomorrow' : 'in 2 hours';
   const footerText = getFooterText(data.branding);
 
@@ -197,6 +247,7 @@ This is a reminder that your session is ${timeText}.
 ${data.serviceName}
 ${dateStr} at ${timeStr}
 With ${data.trainerName}
+${data.location ? `At ${data.location}` : ''}
 
 See you soon!
 
@@ -230,6 +281,7 @@ ${footerText}
           <div class="label">Trainer</div>
           <div class="value">${data.trainerName}</div>
         </div>
+        ${data.location ? `<div class="detail"><div class="label">Location</div><div class="value">${data.location}</div></div>` : ''}
       </div>
 
       <p>See you soon!</p>
@@ -306,6 +358,8 @@ interface BookingRequestData {
   preferredTimes: string[];
   notes?: string;
   branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
 }
 
 interface BookingRequestAcceptedData {
@@ -314,6 +368,8 @@ interface BookingRequestAcceptedData {
   serviceName?: string;
   acceptedTime: string | Date;
   branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
 }
 
 interface BookingRequestDeclinedData {
@@ -323,10 +379,33 @@ interface BookingRequestDeclinedData {
   branding?: EmailBranding;
 }
 
+interface BookingRequestCounteredData {
+  clientName: string;
+  trainerName: string;
+  serviceName?: string;
+  suggestedTimes: string[];
+  /** Client dashboard link where a time can be picked */
+  chooseLink: string;
+  expiresAt: string | Date;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+interface SuggestedTimeAcceptedData {
+  trainerName: string;
+  clientName: string;
+  serviceName?: string;
+  acceptedTime: string | Date;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
 export function getBookingRequestCreatedEmail(data: BookingRequestData) {
   const formatTime = (t: string) => {
     const d = new Date(t);
-    return isNaN(d.getTime()) ? t : format(d, 'EEEE, MMMM d, yyyy \'at\' h:mm a');
+    return isNaN(d.getTime()) ? t : formatInTimeZone(d, data.timezone, 'EEEE, MMMM d, yyyy \'at\' h:mm a');
   };
   const timesHtml = data.preferredTimes
     .map((t) => `<li style="margin: 8px 0; color: #272030;">${formatTime(t)}</li>`)
@@ -398,8 +477,8 @@ ${footerText}
 
 export function getBookingRequestAcceptedEmail(data: BookingRequestAcceptedData) {
   const scheduledDate = new Date(data.acceptedTime);
-  const dateStr = format(scheduledDate, 'EEEE, MMMM d, yyyy');
-  const timeStr = format(scheduledDate, 'h:mm a');
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
   const footerText = getFooterText(data.branding);
 
   return {
@@ -508,6 +587,128 @@ ${footerText}
   };
 }
 
+export function getBookingRequestCounteredEmail(data: BookingRequestCounteredData) {
+  const formatTime = (t: string) => formatInTimeZone(new Date(t), data.timezone, 'EEEE, MMMM d \'at\' h:mm a');
+  const timesHtml = data.suggestedTimes
+    .map((t) => `<li style="margin: 8px 0; color: #272030;">${formatTime(t)}</li>`)
+    .join('');
+  const timesText = data.suggestedTimes
+    .map((t) => `  - ${formatTime(t)}`)
+    .join('\n');
+  const expiryStr = formatInTimeZone(new Date(data.expiresAt), data.timezone, "h:mm a 'on' EEEE");
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `${data.trainerName} suggested new times for your session`,
+    text: `
+Hi ${data.clientName},
+
+${data.trainerName} couldn't make the times you asked for${data.serviceName ? ` for ${data.serviceName}` : ''}, but can offer:
+
+${timesText}
+
+Pick the one that suits you and it will be booked straight away: ${data.chooseLink}
+
+These times are offered until ${expiryStr}.
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('New Times Suggested', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p><strong>${data.trainerName}</strong> couldn't make the times you asked for${data.serviceName ? ` for <strong>${data.serviceName}</strong>` : ''}, but can offer:</p>
+
+      <div class="detail-card">
+        <div class="label" style="margin-bottom: 12px;">Suggested times:</div>
+        <ul style="margin: 0; padding-left: 20px; list-style-type: disc;">${timesHtml}</ul>
+      </div>
+
+      <p style="text-align: center;">
+        <a href="${data.chooseLink}" class="cta">Choose a Time</a>
+      </p>
+
+      <div class="note">
+        These times are offered until <strong>${expiryStr}</strong>.
+      </div>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+export function getSuggestedTimeAcceptedEmail(data: SuggestedTimeAcceptedData) {
+  const scheduledDate = new Date(data.acceptedTime);
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `${data.clientName} booked one of your suggested times`,
+    text: `
+Hi ${data.trainerName},
+
+${data.clientName} picked one of the times you suggested, and the session is now booked.
+
+${data.serviceName ? `Service: ${data.serviceName}` : ''}
+Date: ${dateStr}
+Time: ${timeStr}
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Suggested Time Accepted', data.branding)}
+    <div class="content">
+      <p>Hi ${data.trainerName},</p>
+      <p><strong style="color: #0A1466;">${data.clientName}</strong> picked one of the times you suggested, and the session is now booked.</p>
+
+      <div class="detail-card">
+        ${data.serviceName ? `<div class="detail"><div class="label">Service</div><div class="value">${data.serviceName}</div></div>` : ''}
+        <div class="detail">
+          <div class="label">Date</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Time</div>
+          <div class="value">${timeStr}</div>
+        </div>
+      </div>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
 interface ClientInvitationData {
   recipientName?: string;
   inviterName: string;
@@ -713,13 +914,84 @@ export function getRescheduleEmail(data: {
   oldTime: string | Date;
   newTime: string | Date;
   branding?: EmailBranding;
-}): { subject: string; html: string; text: string } {
-  const oldFormatted = format(new Date(data.oldTime), 'EEEE d MMMM yyyy \'at\' HH:mm');
-  const newFormatted = format(new Date(data.newTime), 'EEEE d MMMM yyyy \'at\' HH:mm');
+  timezone?: string;
+  /** When set, an updated .ics for the booking is attached */
+  bookingId?: string;
+  duration?: number;
+  location?: string;
+  /** ta_bookings.ics_sequence after the move, so calendars replace the old event */
+  sequence?: number;
+  /** Who moved the session (default: the trainer) */
+  rescheduledBy?: 'trainer' | 'client';
+  /** The trainer's copy names the client instead (default: client) */
+  recipient?: 'client' | 'trainer';
+}): { subject: string; html: string; text: string; attachments: EmailAttachment[] } {
+  const oldFormatted = formatInTimeZone(new Date(data.oldTime), data.timezone, 'EEEE d MMMM yyyy \'at\' HH:mm');
+  const newFormatted = formatInTimeZone(new Date(data.newTime), data.timezone, 'EEEE d MMMM yyyy \'at\' HH:mm');
   const footerText = data.branding?.businessName
     ? `Powered by ${data.branding.businessName} &amp; AllWondrous`
     : 'Powered by AllWondrous';
 
+  if (data.recipient === 'trainer') {
+    return {
+      subject: `${data.clientName} rescheduled — ${data.serviceName}`,
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Session Rescheduled', data.branding)}
+    <div class="content">
+      <p>Hi ${data.trainerName},</p>
+      <p><strong>${data.clientName}</strong> has moved their session to a new time.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Service</div>
+          <div class="value">${data.serviceName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Previous Time</div>
+          <div class="value" style="text-decoration: line-through; color: #9CA3AF;">${oldFormatted}</div>
+        </div>
+        <div class="detail">
+          <div class="label">New Time</div>
+          <div class="value" style="color: #A71075;">${newFormatted}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Client</div>
+          <div class="value">${data.clientName}</div>
+        </div>
+      </div>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+      `.trim(),
+      text: `Hi ${data.trainerName},\n\n${data.clientName} has moved their ${data.serviceName} session.\n\nPrevious: ${oldFormatted}\nNew: ${newFormatted}\n\n—\n${data.branding?.businessName || 'AllWondrous'}`,
+      attachments: [],
+    };
+  }
+
+  const byClient = data.rescheduledBy === 'client';
+  const intro = byClient
+    ? 'Your session has been moved to a new time.'
+    : `Your session has been rescheduled by <strong>${data.trainerName}</strong>.`;
+  const closing = byClient
+    ? 'You can view or change your bookings at any time in the app.'
+    : 'If this time doesn\'t work for you, please contact your trainer to arrange an alternative.';
+  const textClosing = byClient
+    ? 'You can view or change your bookings at any time in the app.'
+    : 'If this doesn\'t work for you, please contact your trainer.';
+
   return {
     subject: `Your session has been rescheduled — ${data.serviceName}`,
     html: `
@@ -735,7 +1007,7 @@ export function getRescheduleEmail(data: {
     ${getEmailHeader('Session Rescheduled', data.branding)}
     <div class="content">
       <p>Hi ${data.clientName},</p>
-      <p>Your session has been rescheduled by <strong>${data.trainerName}</strong>.</p>
+      <p>${intro}</p>
 
       <div class="detail-card">
         <div class="detail">
@@ -756,7 +1028,7 @@ export function getRescheduleEmail(data: {
         </div>
       </div>
 
-      <p>If this time doesn't work for you, please contact your trainer to arrange an alternative.</p>
+      <p>${closing}</p>
     </div>
     <div class="footer">
       ${footerText}
@@ -765,7 +1037,10 @@ export function getRescheduleEmail(data: {
 </body>
 </html>
     `.trim(),
-    text: `Hi ${data.clientName},\n\nYour ${data.serviceName} session with ${data.trainerName} has been rescheduled.\n\nPrevious: ${oldFormatted}\nNew: ${newFormatted}\n\nIf this doesn't work for you, please contact your trainer.\n\n—\n${data.branding?.businessName || 'AllWondrous'}`,
+    text: `Hi ${data.clientName},\n\nYour ${data.serviceName} session with ${data.trainerName} has been rescheduled.\n\nPrevious: ${oldFormatted}\nNew: ${newFormatted}\n\n${textClosing}\n\n—\n${data.branding?.businessName || 'AllWondrous'}`,
+    attachments: data.bookingId
+      ? [getBookingIcsAttachment({ ...data, bookingId: data.bookingId, scheduledAt: data.newTime })]
+      : [],
   };
 }
 
@@ -780,17 +1055,28 @@ interface SoftHoldData {
   creditsRequired: number;
   holdExpiry: string | Date;
   topUpLink?: string;
+  /** Set for the reminder sent shortly before the hold runs out */
+  expiresInMinutes?: number;
   branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
 }
 
 export function generateSoftHoldEmail(data: SoftHoldData): { subject: string; html: string; text: string } {
   const sessionDate = new Date(data.sessionDatetime);
   const expiryDate = new Date(data.holdExpiry);
-  const sessionDateStr = format(sessionDate, 'EEEE, MMMM d, yyyy');
-  const sessionTimeStr = format(sessionDate, 'HH:mm');
-  const expiryTimeStr = format(expiryDate, "h:mm a 'on' EEEE");
+  const sessionDateStr = formatInTimeZone(sessionDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const sessionTimeStr = formatInTimeZone(sessionDate, data.timezone, 'HH:mm');
+  const expiryTimeStr = formatInTimeZone(expiryDate, data.timezone, "h:mm a 'on' EEEE");
   const holdHours = Math.max(1, Math.round((expiryDate.getTime() - Date.now()) / (1000 * 60 * 60)));
-  const holdDurationText = holdHours === 1 ? '1 hour' : `${holdHours} hours`;
+  const isReminder = data.expiresInMinutes !== undefined;
+  const holdDurationText = isReminder
+    ? `${data.expiresInMinutes} minute${data.expiresInMinutes === 1 ? '' : 's'}`
+    : holdHours === 1 ? '1 hour' : `${holdHours} hours`;
+  const heading = isReminder ? 'Your spot is about to be released' : 'Your spot is held!';
+  const intro = isReminder
+    ? `We're still holding your spot, but it will be released in <strong>${holdDurationText}</strong> unless you confirm it.`
+    : `Your trainer has reserved a spot for you. You don't have enough credits to confirm it automatically, so we're holding it for <strong>${holdDurationText}</strong>.`;
   const footerText = data.branding?.businessName
     ? `Powered by ${data.branding.businessName}`
     : 'Powered by allWondrous';
@@ -800,7 +1086,9 @@ export function generateSoftHoldEmail(data: SoftHoldData): { subject: string; ht
   const logoUrl = data.branding?.logoUrl;
 
   return {
-    subject: `Your spot is held — complete booking by ${format(expiryDate, "h a 'tomorrow'")}`,
+    subject: isReminder
+      ? `Your hold expires in ${holdDurationText} — ${data.serviceName}`
+      : `Your spot is held — complete booking by ${formatInTimeZone(expiryDate, data.timezone, "h a 'tomorrow'")}`,
     html: `
 <!DOCTYPE html>
 <html>
@@ -827,14 +1115,14 @@ export function generateSoftHoldEmail(data: SoftHoldData): { subject: string; ht
         <div style="display: inline-block; width: 56px; height: 56px; background: #FFF3E0; border-radius: 50%; line-height: 56px; text-align: center; margin-bottom: 16px;">
           <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="#F97316" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align: middle;"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
         </div>
-        <h1 style="font-size: 22px; font-weight: 700; color: #272030; margin: 0 0 6px;">Your spot is held!</h1>
+        <h1 style="font-size: 22px; font-weight: 700; color: #272030; margin: 0 0 6px;">${heading}</h1>
         <p style="font-size: 14px; color: #6b7280; margin: 0;">Complete your booking within <strong style="color: #272030;">${holdDurationText}</strong></p>
       </div>
 
       <!-- Body -->
       <div style="padding: 0 24px 24px;">
         <p style="margin: 0 0 20px; font-size: 15px;">Hi ${data.clientName},</p>
-        <p style="margin: 0 0 24px; font-size: 14px; color: #4b5563;">Your trainer has reserved a spot for you. You don't have enough credits to confirm it automatically, so we're holding it for <strong>${holdDurationText}</strong>.</p>
+        <p style="margin: 0 0 24px; font-size: 14px; color: #4b5563;">${intro}</p>
 
         <!-- Session Details Card -->
         <div style="background: #f9fafb; border-radius: 12px; padding: 20px; margin-bottom: 20px;">
@@ -892,6 +1180,741 @@ export function generateSoftHoldEmail(data: SoftHoldData): { subject: string; ht
 </body>
 </html>
     `.trim(),
-    text: `Hi ${data.clientName},\n\nYour spot is held! Complete your booking within ${holdDurationText}.\n\nYour trainer has reserved a spot for you. You don't have enough credits to confirm it automatically, so we're holding it for ${holdDurationText}.\n\n${data.serviceName}\nDate: ${sessionDateStr}\nTime: ${sessionTimeStr}\nTrainer: ${data.trainerName}\n\nSpot released at ${expiryTimeStr} if unpaid.\n\nTop up your credits to confirm your session.\n\nQuestions? Reply to this email or contact ${data.trainerName} directly.\n\n—\n${data.branding?.businessName || 'allWondrous'}`,
+    text: `Hi ${data.clientName},\n\n${isReminder ? `${heading}.` : heading} Complete your booking within ${holdDurationText}.\n\n${intro.replace(/<\/?strong>/g, '')}\n\n${data.serviceName}\nDate: ${sessionDateStr}\nTime: ${sessionTimeStr}\nTrainer: ${data.trainerName}\n\nSpot released at ${expiryTimeStr} if unpaid.\n\nTop up your credits to confirm your session.\n\nQuestions? Reply to this email or contact ${data.trainerName} directly.\n\n—\n${data.branding?.businessName || 'allWondrous'}`,
+  };
+}
+
+/**
+ * Waitlist Offer Email - Sent when a place frees up for a client on the waitlist
+ */
+interface WaitlistOfferData {
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  offerExpiresAt: string | Date;
+  claimLink: string;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getWaitlistOfferEmail(data: WaitlistOfferData) {
+  const scheduledDate = new Date(data.scheduledAt);
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
+  const expiryStr = formatInTimeZone(new Date(data.offerExpiresAt), data.timezone, "h:mm a 'on' EEEE");
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `A spot opened up — ${data.serviceName} on ${formatInTimeZone(scheduledDate, data.timezone, 'EEE d MMM')}`,
+    text: `
+Hi ${data.clientName},
+
+Good news! A place has opened up for a session you were waitlisted for, and we're holding it for you.
+
+Service: ${data.serviceName}
+Date: ${dateStr}
+Time: ${timeStr}
+Trainer: ${data.trainerName}
+
+The spot is held until ${expiryStr}. After that it will be offered to the next person on the waitlist.
+
+Claim your spot: ${data.claimLink}
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('A Spot Opened Up!', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p>Good news! A place has opened up for a session you were waitlisted for, and we're holding it for you.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Service</div>
+          <div class="value">${data.serviceName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Date</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Time</div>
+          <div class="value">${timeStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Trainer</div>
+          <div class="value">${data.trainerName}</div>
+        </div>
+      </div>
+
+      <div class="note">
+        The spot is held until <strong>${expiryStr}</strong>. After that it will be offered to the next person on the waitlist.
+      </div>
+
+      <p style="text-align: center;">
+        <a href="${data.claimLink}" class="cta">Claim My Spot</a>
+      </p>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * No-Show Email - Sent when a confirmed session passes its grace period without a check-in
+ */
+interface NoShowData {
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  /** Credits the studio's no-show policy will charge (0 = no charge) */
+  creditsToCharge: number;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getNoShowEmail(data: NoShowData) {
+  const scheduledDate = new Date(data.scheduledAt);
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
+  const footerText = getFooterText(data.branding);
+  const chargeText = data.creditsToCharge > 0
+    ? `In line with the studio's no-show policy, ${data.creditsToCharge} credit${data.creditsToCharge === 1 ? '' : 's'} will be charged for this session.`
+    : 'No credits will be charged for this session.';
+
+  return {
+    subject: `We missed you — ${data.serviceName} on ${formatInTimeZone(scheduledDate, data.timezone, 'EEE d MMM')}`,
+    text: `
+Hi ${data.clientName},
+
+You weren't checked in for your session, so it has been marked as a no-show.
+
+Service: ${data.serviceName}
+Date: ${dateStr}
+Time: ${timeStr}
+Trainer: ${data.trainerName}
+
+${chargeText}
+
+If you think this is a mistake, please contact ${data.trainerName} as soon as possible.
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('We Missed You', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p>You weren't checked in for your session, so it has been marked as a no-show.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Service</div>
+          <div class="value">${data.serviceName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Date</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Time</div>
+          <div class="value">${timeStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Trainer</div>
+          <div class="value">${data.trainerName}</div>
+        </div>
+      </div>
+
+      <div class="note">
+        ${chargeText}
+      </div>
+
+      <p>If you think this is a mistake, please contact <strong>${data.trainerName}</strong> as soon as possible.</p>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Trainer Changed Email - Sent when a booking is handed to another trainer
+ */
+interface TrainerChangedData {
+  clientName: string;
+  previousTrainerName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  duration?: number;
+  location?: string;
+  /** When set, an updated .ics for the booking is attached */
+  bookingId?: string;
+  /** ta_bookings.ics_sequence after the change, so calendars replace the old event */
+  sequence?: number;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getTrainerChangedEmail(data: TrainerChangedData) {
+  const scheduledDate = new Date(data.scheduledAt);
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `Your ${data.serviceName} on ${formatInTimeZone(scheduledDate, data.timezone, 'EEE d MMM')} is now with ${data.trainerName}`,
+    text: `
+Hi ${data.clientName},
+
+${data.previousTrainerName} is no longer available for your session, so ${data.trainerName} will be taking it instead. The time hasn't changed.
+
+Service: ${data.serviceName}
+Date: ${dateStr}
+Time: ${timeStr}
+Trainer: ${data.trainerName}${data.location ? `\nLocation: ${data.location}` : ''}
+
+If this doesn't work for you, you can reschedule or cancel from your bookings.
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Your Trainer Has Changed', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p><strong>${data.previousTrainerName}</strong> is no longer available for your session, so <strong>${data.trainerName}</strong> will be taking it instead. The time hasn't changed.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Service</div>
+          <div class="value">${data.serviceName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Date</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Time</div>
+          <div class="value">${timeStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Trainer</div>
+          <div class="value">${data.trainerName}</div>
+        </div>${data.location ? `
+        <div class="detail">
+          <div class="label">Location</div>
+          <div class="value">${data.location}</div>
+        </div>` : ''}
+      </div>
+
+      <p>If this doesn't work for you, you can reschedule or cancel from your bookings.</p>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+    attachments: data.bookingId ? [getBookingIcsAttachment({ ...data, bookingId: data.bookingId })] : [],
+  };
+}
+
+/**
+ * Booking Time Proposal Email - Sent when the trainer will be away and the
+ * studio offers the client new times for their session
+ */
+interface BookingTimeProposalData {
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  currentTime: string | Date;
+  proposedTimes: string[];
+  chooseLink: string;
+  expiresAt: string | Date;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getBookingTimeProposalEmail(data: BookingTimeProposalData) {
+  const formatTime = (t: string | Date) => formatInTimeZone(new Date(t), data.timezone, 'EEEE, MMMM d \'at\' h:mm a');
+  const timesHtml = data.proposedTimes
+    .map((t) => `<li style="margin: 8px 0; color: #272030;">${formatTime(t)}</li>`)
+    .join('');
+  const timesText = data.proposedTimes
+    .map((t) => `  - ${formatTime(t)}`)
+    .join('\n');
+  const currentStr = formatTime(data.currentTime);
+  const expiryStr = formatInTimeZone(new Date(data.expiresAt), data.timezone, "h:mm a 'on' EEEE");
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `${data.trainerName} is away — choose a new time for your ${data.serviceName}`,
+    text: `
+Hi ${data.clientName},
+
+${data.trainerName} will be away on ${currentStr}, when your ${data.serviceName} is booked. They can see you at any of these times instead:
+
+${timesText}
+
+Pick the one that suits you and your session will move straight away, at no extra cost: ${data.chooseLink}
+
+These times are offered until ${expiryStr}.
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Choose a New Time', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p><strong>${data.trainerName}</strong> will be away on <strong>${currentStr}</strong>, when your <strong>${data.serviceName}</strong> is booked. They can see you at any of these times instead:</p>
+
+      <div class="detail-card">
+        <div class="label" style="margin-bottom: 12px;">Available times:</div>
+        <ul style="margin: 0; padding-left: 20px; list-style-type: disc;">${timesHtml}</ul>
+      </div>
+
+      <p style="text-align: center;">
+        <a href="${data.chooseLink}" class="cta">Choose a Time</a>
+      </p>
+
+      <div class="note">
+        Your session moves at no extra cost. These times are offered until <strong>${expiryStr}</strong>.
+      </div>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Booking Cancelled Email - Sent when the studio cancels a client's session
+ */
+interface BookingCancelledData {
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  scheduledAt: string | Date;
+  /** Why the session was cancelled, shown to the client */
+  reason?: string;
+  /** Credits returned to the client (0 = nothing to refund) */
+  creditsRefunded: number;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getBookingCancelledEmail(data: BookingCancelledData) {
+  const scheduledDate = new Date(data.scheduledAt);
+  const dateStr = formatInTimeZone(scheduledDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(scheduledDate, data.timezone, 'h:mm a');
+  const footerText = getFooterText(data.branding);
+  const refundText = data.creditsRefunded > 0
+    ? `${data.creditsRefunded} credit${data.creditsRefunded === 1 ? ' has' : 's have'} been returned to your account.`
+    : 'You have not been charged for this session.';
+
+  return {
+    subject: `Cancelled — ${data.serviceName} on ${formatInTimeZone(scheduledDate, data.timezone, 'EEE d MMM')}`,
+    text: `
+Hi ${data.clientName},
+
+We're sorry, your session has been cancelled${data.reason ? `: ${data.reason}` : '.'}
+
+Service: ${data.serviceName}
+Date: ${dateStr}
+Time: ${timeStr}
+Trainer: ${data.trainerName}
+
+${refundText}
+
+You can book another time whenever suits you.
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Session Cancelled', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p>We're sorry, your session has been cancelled${data.reason ? `: ${data.reason}` : '.'}</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Service</div>
+          <div class="value">${data.serviceName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Date</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Time</div>
+          <div class="value">${timeStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Trainer</div>
+          <div class="value">${data.trainerName}</div>
+        </div>
+      </div>
+
+      <div class="note">
+        ${refundText}
+      </div>
+
+      <p>You can book another time whenever suits you.</p>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Soft Hold Expired Email - Sent when a held spot is released because it
+ * wasn't confirmed in time
+ */
+interface SoftHoldExpiredData {
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  sessionDatetime: string | Date;
+  /** Where the client can book again */
+  bookLink?: string;
+  branding?: EmailBranding;
+  /** IANA zone to show times in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getSoftHoldExpiredEmail(data: SoftHoldExpiredData) {
+  const sessionDate = new Date(data.sessionDatetime);
+  const dateStr = formatInTimeZone(sessionDate, data.timezone, 'EEEE, MMMM d, yyyy');
+  const timeStr = formatInTimeZone(sessionDate, data.timezone, 'h:mm a');
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `Your held spot has been released — ${data.serviceName} on ${formatInTimeZone(sessionDate, data.timezone, 'EEE d MMM')}`,
+    text: `
+Hi ${data.clientName},
+
+The spot we were holding for you wasn't confirmed in time, so it has been released. You haven't been charged.
+
+Service: ${data.serviceName}
+Date: ${dateStr}
+Time: ${timeStr}
+Trainer: ${data.trainerName}
+
+${data.bookLink ? `If you'd still like to train, book another time here: ${data.bookLink}` : 'If you\'d still like to train, get in touch with your trainer to book another time.'}
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Held Spot Released', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p>The spot we were holding for you wasn't confirmed in time, so it has been released. You haven't been charged.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Service</div>
+          <div class="value">${data.serviceName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Date</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Time</div>
+          <div class="value">${timeStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Trainer</div>
+          <div class="value">${data.trainerName}</div>
+        </div>
+      </div>
+
+      ${data.bookLink ? `
+      <div style="text-align: center; margin: 32px 0;">
+        <a href="${data.bookLink}" class="cta">Book Another Time</a>
+      </div>
+      ` : `
+      <p>If you'd still like to train, get in touch with ${data.trainerName} to book another time.</p>
+      `}
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Package Expiry Warning Email - Sent 14 and 3 days before a package's unused
+ * credits expire
+ */
+interface PackageExpiryWarningData {
+  clientName: string;
+  trainerName: string;
+  packageName: string;
+  creditsRemaining: number;
+  expiresAt: string | Date;
+  daysLeft: number;
+  /** Where the client can book */
+  bookLink: string;
+  branding?: EmailBranding;
+  /** IANA zone to show dates in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getPackageExpiryWarningEmail(data: PackageExpiryWarningData) {
+  const dateStr = formatInTimeZone(new Date(data.expiresAt), data.timezone, 'EEEE, MMMM d, yyyy');
+  const credits = `${data.creditsRemaining} credit${data.creditsRemaining !== 1 ? 's' : ''}`;
+  const days = `${data.daysLeft} day${data.daysLeft !== 1 ? 's' : ''}`;
+  const footerText = getFooterText(data.branding);
+
+  return {
+    subject: `${credits} expire in ${days} — book your sessions`,
+    text: `
+Hi ${data.clientName},
+
+You have ${credits} left on your ${data.packageName} package. They expire on ${dateStr}, and unused credits can't be carried over.
+
+Package: ${data.packageName}
+Credits left: ${data.creditsRemaining}
+Expires: ${dateStr}
+Trainer: ${data.trainerName}
+
+Book now: ${data.bookLink}
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}
+    .alert-badge { display: inline-block; background: #F4B324; color: #272030; padding: 8px 16px; border-radius: 20px; font-weight: 600; font-size: 14px; margin-bottom: 16px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader('Your Credits Are Expiring', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+
+      <div style="text-align: center; margin: 24px 0;">
+        <span class="alert-badge">${credits} expire in ${days}</span>
+      </div>
+
+      <p>You have ${credits} left on your ${data.packageName} package. Unused credits can't be carried over, so book your sessions before they expire.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Package</div>
+          <div class="value">${data.packageName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Credits Left</div>
+          <div class="value">${data.creditsRemaining}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Expires</div>
+          <div class="value">${dateStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Trainer</div>
+          <div class="value">${data.trainerName}</div>
+        </div>
+      </div>
+
+      <div style="text-align: center; margin: 32px 0;">
+        <a href="${data.bookLink}" class="cta">Book Now</a>
+      </div>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  };
+}
+
+/**
+ * Membership Payment Failed Email - Dunning notice sent for each failed
+ * renewal attempt; booking is paused until the payment goes through
+ */
+interface MembershipPaymentFailedData {
+  clientName: string;
+  planName: string;
+  amount: number; // in cents
+  attempt: number;
+  /** When Stripe will try again; none means this was the last attempt */
+  nextAttemptAt?: string | Date | null;
+  /** Where the client can pay or update their card */
+  payLink: string;
+  branding?: EmailBranding;
+  /** IANA zone to show dates in (studio or trainer); defaults to Europe/London */
+  timezone?: string;
+}
+
+export function getMembershipPaymentFailedEmail(data: MembershipPaymentFailedData) {
+  const amountStr = `£${(data.amount / 100).toFixed(2)}`;
+  const retryStr = data.nextAttemptAt
+    ? formatInTimeZone(new Date(data.nextAttemptAt), data.timezone, 'EEEE, MMMM d')
+    : null;
+  const footerText = getFooterText(data.branding);
+  const retryText = retryStr
+    ? `We'll try your card again on ${retryStr}.`
+    : 'This was our last attempt, so your membership will end unless the payment is made.';
+
+  return {
+    subject: retryStr
+      ? `Action needed: your ${data.planName} payment didn't go through`
+      : `Final notice: your ${data.planName} membership is about to end`,
+    text: `
+Hi ${data.clientName},
+
+We couldn't take the ${amountStr} renewal payment for your ${data.planName} membership. Booking is paused until it's paid.
+
+${retryText}
+
+Pay now or update your card: ${data.payLink}
+
+—
+${footerText}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    ${getEmailHeader(retryStr ? 'Membership Payment Failed' : 'Final Payment Notice', data.branding)}
+    <div class="content">
+      <p>Hi ${data.clientName},</p>
+      <p>We couldn't take the renewal payment for your membership. Booking is paused until it's paid.</p>
+
+      <div class="detail-card">
+        <div class="detail">
+          <div class="label">Membership</div>
+          <div class="value">${data.planName}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Amount</div>
+          <div class="value">${amountStr}</div>
+        </div>
+        <div class="detail">
+          <div class="label">Attempt</div>
+          <div class="value">${data.attempt}</div>
+        </div>
+      </div>
+
+      <p>${retryText}</p>
+
+      <div style="text-align: center; margin: 32px 0;">
+        <a href="${data.payLink}" class="cta">Pay Now</a>
+      </div>
+    </div>
+    <div class="footer">
+      ${footerText}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
   };
 }
@@ -95,16 +95,40 @@ export async function queueSMS(params: {
 }
 
 /**
- * Process pending SMS messages from the queue
+ * A booking reminder is stale once the booking is no longer confirmed or has
+ * moved away from the time the message was written for.
+ */
+async function isStaleReminder(
+  supabase: ReturnType<typeof getServiceClient>,
+  msg: { booking_id: string | null; notification_type: string | null; booking_scheduled_at: string | null }
+): Promise<boolean> {
+  if (!msg.notification_type || !msg.booking_id) return false;
+
+  const { data: booking } = await supabase
+    .from('ta_bookings')
+    .select('status, scheduled_at')
+    .eq('id', msg.booking_id)
+    .maybeSingle();
+
+  if (!booking || booking.status !== 'confirmed') return true;
+  if (!msg.booking_scheduled_at) return false;
+
+  return new Date(booking.scheduled_at).getTime() !== new Date(msg.booking_scheduled_at).getTime();
+}
+
+/**
+ * Process pending SMS messages from the queue.
+ * Reminders for bookings that were cancelled or moved are cancelled instead of sent.
  */
 export async function processSMSQueue(batchSize: number = 10): Promise<{
   processed: number;
   sent: number;
   failed: number;
+  skipped: number;
   errors: string[];
 }> {
   const supabase = getServiceClient();
-  const result = { processed: 0, sent: 0, failed: 0, errors: [] as string[] };
+  const result = { processed: 0, sent: 0, failed: 0, skipped: 0, errors: [] as string[] };
 
   // Fetch pending messages ready to send
   const { data: pendingMessages, error: fetchError } = await supabase
@@ -127,6 +151,15 @@ export async function processSMSQueue(batchSize: number = 10): Promise<{
   for (const msg of pendingMessages) {
     result.processed++;
 
+    if (await isStaleReminder(supabase, msg)) {
+      result.skipped++;
+      await supabase
+        .from('sms_queue')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', msg.id);
+      continue;
+    }
+
     const sendResult = await sendViaTelnyx({
       to: msg.phone_number,
       text: msg.message,
@@ -15,6 +15,20 @@ interface RescheduleSMSData {
   time: string;
 }
 
+interface WaitlistOfferSMSData {
+  serviceName: string;
+  date: string;
+  time: string;
+  expiresAt: string;
+}
+
+interface PackageExpirySMSData {
+  credits: number;
+  packageName: string;
+  date: string;
+  bookLink: string;
+}
+
 export function getBookingConfirmationSMS(data: BookingSMSData): string {
   return `Hi ${data.clientName}, your ${data.serviceName} with ${data.trainerName} is confirmed for ${data.date} at ${data.time}.`;
 }
@@ -30,3 +44,11 @@ export function getReminder2hSMS(data: BookingSMSData): string {
 export function getRescheduleSMS(data: RescheduleSMSData): string {
   return `Your ${data.serviceName} has been rescheduled to ${data.date} at ${data.time}.`;
 }
+
+export function getWaitlistOfferSMS(data: WaitlistOfferSMSData): string {
+  return `A spot opened up: ${data.serviceName} on ${data.date} at ${data.time}. It's held for you until ${data.expiresAt} - claim it in your app.`;
+}
+
+export function getPackageExpiryWarningSMS(data: PackageExpirySMSData): string {
+  return `${data.credits} credit${data.credits !== 1 ? 's' : ''} on your ${data.packageName} expire ${data.date}. Book now: ${data.bookLink}`;
+}
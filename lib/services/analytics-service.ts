@@ -6,6 +6,16 @@
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getStudioConfig, getTrainerTimezone } from '@/lib/services/studio-service';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getZonedDateKey,
+  parseDateKey,
+  startOfZonedDay,
+  startOfZonedWeek,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
 
 // ---------------------------------------------------------------------------
 // Studio Owner / Operator analytics
@@ -32,17 +42,22 @@ export interface UpcomingSessionRow {
  */
 export async function getTodaySessionCount(studioId: string): Promise<number> {
   const supabase = createServiceRoleClient();
-  const todayStart = new Date();
-  todayStart.setHours(0, 0, 0, 0);
-  const todayEnd = new Date();
-  todayEnd.setHours(23, 59, 59, 999);
+  const { data: studioConfig } = await getStudioConfig(studioId);
+  const timezone = studioConfig?.timezone || DEFAULT_TIMEZONE;
+
+  // "Today" is the studio's calendar day, not the server's
+  const todayStart = startOfZonedDay(new Date(), timezone);
+  const todayEnd = zonedTimeToUtc(
+    parseDateKey(addDaysToDateKey(getZonedDateKey(todayStart, timezone), 1)),
+    timezone
+  );
 
   const { count, error } = await supabase
     .from('ta_bookings')
     .select('id', { count: 'exact', head: true })
     .eq('studio_id', studioId)
     .gte('scheduled_at', todayStart.toISOString())
-    .lte('scheduled_at', todayEnd.toISOString())
+    .lt('scheduled_at', todayEnd.toISOString())
     .in('status', ['confirmed', 'soft-hold', 'checked-in', 'completed']);
 
   if (error) {
@@ -189,6 +204,11 @@ export interface DashboardAnalytics {
   softHoldsCount: number;
   outstandingCredits: number;
   lowCreditClients: number;
+  /** Active packages with credits left that expire in the next 14 days */
+  packagesExpiringSoon: number;
+  creditsExpiringSoon: number;
+  /** Credits written off by package expiry in the last 30 days */
+  creditsExpiredRecently: number;
 }
 
 /**
@@ -200,17 +220,22 @@ export async function getDashboardAnalytics(
   try {
     const supabase = createServiceRoleClient();
 
-    // Get date ranges
+    // Get date ranges. Weeks run Monday to Monday in the trainer's zone, so
+    // the end is computed from the calendar date (a DST week is not 7 × 24h).
     const now = new Date();
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() - now.getDay() + 1); // Monday
-    weekStart.setHours(0, 0, 0, 0);
-
-    // Fetch earnings this week
+    const timezone = await getTrainerTimezone(trainerId);
+    const weekStart = startOfZonedWeek(now, timezone);
+    const weekEnd = zonedTimeToUtc(
+      parseDateKey(addDaysToDateKey(getZonedDateKey(weekStart, timezone), 7)),
+      timezone
+    );
+
+    // Fetch earnings this week. A session delivered by a substitute counts
+    // for the substitute, not the trainer who was paid for it.
     const { data: weeklyEarnings } = await supabase
       .from('ta_payments')
       .select('trainer_amount_cents')
-      .eq('trainer_id', trainerId)
+      .or(`delivered_by.eq.${trainerId},and(delivered_by.is.null,trainer_id.eq.${trainerId})`)
       .eq('status', 'succeeded')
       .gte('created_at', weekStart.toISOString());
 
@@ -222,7 +247,7 @@ export async function getDashboardAnalytics(
       .select('id, status')
       .eq('trainer_id', trainerId)
       .gte('scheduled_at', weekStart.toISOString())
-      .lte('scheduled_at', new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString());
+      .lt('scheduled_at', weekEnd.toISOString());
 
     const sessionsCompleted = weekSessions?.filter((s: { status: string }) => s.status === 'completed').length || 0;
     const sessionsUpcoming = weekSessions?.filter((s: { status: string }) => ['confirmed', 'soft-hold'].includes(s.status)).length || 0;
@@ -259,7 +284,7 @@ export async function getDashboardAnalytics(
       .select('duration')
       .eq('trainer_id', trainerId)
       .gte('scheduled_at', weekStart.toISOString())
-      .lte('scheduled_at', new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString())
+      .lt('scheduled_at', weekEnd.toISOString())
       .in('status', ['confirmed', 'completed', 'checked-in']);
 
     const bookedMinutes = weekBookings?.reduce((sum: number, b: { duration?: number }) => sum + (b.duration || 0), 0) || 0;
@@ -289,6 +314,29 @@ export async function getDashboardAnalytics(
     // Get low credit clients (2 or fewer credits)
     const lowCreditClients = clientPackages?.filter((p: { sessions_remaining?: number }) => (p.sessions_remaining || 0) > 0 && (p.sessions_remaining || 0) <= 2).length || 0;
 
+    // Get credits about to expire, and expired recently
+    const fourteenDaysAhead = new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000);
+    const { data: expiringPackages } = await supabase
+      .from('ta_client_packages')
+      .select('sessions_remaining')
+      .eq('trainer_id', trainerId)
+      .eq('status', 'active')
+      .gt('sessions_remaining', 0)
+      .gt('expires_at', now.toISOString())
+      .lte('expires_at', fourteenDaysAhead.toISOString());
+
+    const packagesExpiringSoon = expiringPackages?.length || 0;
+    const creditsExpiringSoon = expiringPackages?.reduce((sum: number, p: { sessions_remaining?: number }) => sum + (p.sessions_remaining || 0), 0) || 0;
+
+    const { data: expiryEntries } = await supabase
+      .from('ta_credit_usage')
+      .select('credits_used, ta_client_packages!inner(trainer_id)')
+      .eq('entry_type', 'expiry')
+      .eq('ta_client_packages.trainer_id', trainerId)
+      .gte('created_at', thirtyDaysAgo.toISOString());
+
+    const creditsExpiredRecently = expiryEntries?.reduce((sum: number, e: { credits_used?: number }) => sum + (e.credits_used || 0), 0) || 0;
+
     return {
       data: {
         earningsThisWeek,
@@ -301,6 +349,9 @@ export async function getDashboardAnalytics(
         softHoldsCount,
         outstandingCredits,
         lowCreditClients,
+        packagesExpiringSoon,
+        creditsExpiringSoon,
+        creditsExpiredRecently,
       },
       error: null,
     };
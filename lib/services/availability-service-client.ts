@@ -4,6 +4,8 @@
  * Uses API routes for availability CRUD operations (bypasses RLS via service role)
  */
 
+import type { BookableSlot, BookableSlotsQuery, BookableSlotsResult } from '@/lib/types/slots';
+
 /**
  * Availability block type definition
  */
@@ -22,6 +24,8 @@ export interface AvailabilityBlock {
   endDate: string | null;
   reason: 'personal' | 'admin' | 'break' | 'other' | null;
   notes: string | null;
+  /** Location the block applies at; null = every location */
+  locationId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -42,6 +46,7 @@ export interface CreateBlockInput {
   endDate?: string;
   reason?: 'personal' | 'admin' | 'break' | 'other';
   notes?: string;
+  locationId?: string | null;
 }
 
 /**
@@ -59,6 +64,7 @@ export interface UpdateBlockInput {
   endDate?: string;
   reason?: 'personal' | 'admin' | 'break' | 'other';
   notes?: string;
+  locationId?: string | null;
 }
 
 /**
@@ -79,6 +85,7 @@ interface DbAvailability {
   end_date: string | null;
   reason: string | null;
   notes: string | null;
+  location_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -102,6 +109,7 @@ function dbToAvailability(db: DbAvailability): AvailabilityBlock {
     endDate: db.end_date,
     reason: db.reason as AvailabilityBlock['reason'],
     notes: db.notes,
+    locationId: db.location_id || null,
     createdAt: db.created_at,
     updatedAt: db.updated_at,
   };
@@ -190,6 +198,7 @@ export async function addBlockClient(input: CreateBlockInput): Promise<Availabil
         endDate: input.endDate,
         reason: input.reason,
         notes: input.notes,
+        locationId: input.locationId,
       }),
     });
 
@@ -328,3 +337,36 @@ export function getBlocksForDay(
 ): AvailabilityBlock[] {
   return blocks.filter(b => b.dayOfWeek === dayOfWeek);
 }
+
+/**
+ * Get bookable slots for a service in the signed-in trainer's calendar,
+ * computed server-side (availability, opening hours, buffers, cutoff, bookings)
+ */
+export async function getBookableSlotsClient(
+  query: Omit<BookableSlotsQuery, 'trainerId'>
+): Promise<BookableSlot[]> {
+  try {
+    const params = new URLSearchParams({
+      serviceId: query.serviceId,
+      from: query.from,
+      to: query.to,
+    });
+    if (query.excludeBookingId) {
+      params.set('excludeBookingId', query.excludeBookingId);
+    }
+
+    const response = await fetch(`/api/slots?${params.toString()}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching bookable slots:', error);
+      return [];
+    }
+
+    const { slots } = (await response.json()) as BookableSlotsResult;
+    return slots || [];
+  } catch (error) {
+    console.error('Error fetching bookable slots:', error);
+    return [];
+  }
+}
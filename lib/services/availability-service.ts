@@ -6,8 +6,17 @@
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { getStudioConfig } from '@/lib/services/studio-service';
+import { getStudioConfig, getTrainerBufferRules } from '@/lib/services/studio-service';
 import type { OpeningHours } from '@/lib/services/studio-service';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getDateKeyDayOfWeek,
+  parseDateKey,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
+import { getBlockedWindow, getServiceBuffers } from '@/lib/utils/booking-buffers';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -35,6 +44,9 @@ export interface AvailabilityBlockInput {
   end_date?: string | null;
   reason?: string | null;
   notes?: string | null;
+  /** Location the block applies at; null applies everywhere */
+  locationId?: string | null;
+  location_id?: string | null;
 }
 
 export interface AvailabilityBlockUpdateInput extends AvailabilityBlockInput {
@@ -52,6 +64,8 @@ export interface ClientAvailabilitySlot {
   endMinute: number;
   recurrence: string;
   specificDate: string | null;
+  /** IANA zone the start/end hours are wall-clock times in (trainer, else studio) */
+  timezone: string;
 }
 
 export interface ExistingBooking {
@@ -60,11 +74,27 @@ export interface ExistingBooking {
   scheduledAt: string;
   duration: number;
   status: string;
+  /** Time blocked around the booking once buffer and travel time are allowed for */
+  blockedFrom?: string;
+  blockedUntil?: string;
+}
+
+/** A ta_bookings row with what's needed to work out the time it blocks. */
+export interface BookingForBuffers {
+  id: string;
+  trainer_id: string;
+  studio_id: string | null;
+  location_id?: string | null;
+  scheduled_at: string;
+  duration: number;
+  service?: { booking_buffer_minutes?: number | null; booking_buffer_before_minutes?: number | null } | null;
 }
 
 export interface ClientStudioAvailabilityResult {
   availability: ClientAvailabilitySlot[];
   existingBookings: ExistingBooking[];
+  /** Studio timezone, used to label times for the client */
+  timezone: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -174,6 +204,7 @@ export async function createAvailabilityBlock(
       end_date: input.endDate || input.end_date || null,
       reason: input.reason || null,
       notes: input.notes || null,
+      location_id: input.locationId || input.location_id || null,
     };
 
     const { data, error } = await supabase
@@ -232,6 +263,9 @@ export async function updateAvailabilityBlock(
     }
     if (input.reason !== undefined) updateData.reason = input.reason;
     if (input.notes !== undefined) updateData.notes = input.notes;
+    if (input.locationId !== undefined || input.location_id !== undefined) {
+      updateData.location_id = input.locationId ?? input.location_id;
+    }
 
     const { data, error } = await supabase
       .from('ta_availability')
@@ -281,17 +315,68 @@ export async function deleteAvailabilityBlock(
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch trainer availability for a client's studio.
- *
- * Multi-strategy lookup to handle various studio configurations.
- * Uses service role client for database queries to bypass RLS
- * (clients need to see trainer availability but RLS blocks them).
+ * Work out the window each booking blocks for a new booking of the given
+ * service: its own time plus the service buffers, the studio's minimum gap
+ * and (across locations) the trainer's travel time. Slot pickers then only
+ * need a plain overlap test against blockedFrom/blockedUntil.
  */
-export async function getClientStudioAvailability(
+export async function getBookingBlockedWindows(
+  bookings: BookingForBuffers[],
+  serviceId?: string | null
+): Promise<Map<string, { blockedFrom: string; blockedUntil: string }>> {
+  const supabase = createServiceRoleClient();
+  const windows = new Map<string, { blockedFrom: string; blockedUntil: string }>();
+
+  const { data: service } = serviceId
+    ? await supabase
+        .from('ta_services')
+        .select('booking_buffer_minutes, booking_buffer_before_minutes, location_id')
+        .eq('id', serviceId)
+        .maybeSingle()
+    : { data: null };
+  const candidateBuffers = getServiceBuffers(service);
+  const candidateLocationId = (service?.location_id as string) || null;
+
+  const trainerIds = [...new Set(bookings.map((b) => b.trainer_id))];
+  const rulesByTrainer = new Map(
+    await Promise.all(
+      trainerIds.map(async (id) => [id, await getTrainerBufferRules(id)] as const)
+    )
+  );
+
+  for (const booking of bookings) {
+    const rules = rulesByTrainer.get(booking.trainer_id);
+    const start = new Date(booking.scheduled_at);
+    const end = new Date(start.getTime() + booking.duration * 60 * 1000);
+
+    const { blockedFrom, blockedUntil } = getBlockedWindow(
+      { start, end, buffers: getServiceBuffers(booking.service), locationId: booking.location_id || booking.studio_id },
+      { buffers: candidateBuffers, locationId: candidateLocationId || rules?.studioId || null },
+      rules ?? { minGapMinutes: 0, travelMinutes: 0 }
+    );
+
+    windows.set(booking.id, {
+      blockedFrom: blockedFrom.toISOString(),
+      blockedUntil: blockedUntil.toISOString(),
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Resolve the trainers a client can book with: staff of the client's studio
+ * (or of the trainer who invited them) plus solo practitioners among those IDs.
+ * lookupIds are the studio/owner IDs searched, since availability may be
+ * stored against the studio owner's user ID.
+ */
+export async function findClientStudioTrainers(
   userEmail: string,
-  trainerId?: string | null,
-  date?: string | null
-): Promise<{ data: ClientStudioAvailabilityResult | null; error: Error | null }> {
+  trainerId?: string | null
+): Promise<{
+  data: { clientStudioId: string | null; lookupIds: string[]; trainerIds: string[] } | null;
+  error: Error | null;
+}> {
   try {
     const supabase = createServiceRoleClient();
 
@@ -379,9 +464,42 @@ export async function getClientStudioAvailability(
       }
     }
 
+    return {
+      data: { clientStudioId: client.studio_id || null, lookupIds: uniqueLookupIds, trainerIds },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Fetch trainer availability for a client's studio.
+ *
+ * Multi-strategy lookup to handle various studio configurations.
+ * Uses service role client for database queries to bypass RLS
+ * (clients need to see trainer availability but RLS blocks them).
+ */
+export async function getClientStudioAvailability(
+  userEmail: string,
+  trainerId?: string | null,
+  date?: string | null,
+  serviceId?: string | null
+): Promise<{ data: ClientStudioAvailabilityResult | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: found, error: lookupError } = await findClientStudioTrainers(userEmail, trainerId);
+    if (lookupError || !found) {
+      return { data: null, error: lookupError || new Error('Client not found') };
+    }
+
+    const uniqueLookupIds = found.lookupIds;
+    const trainerIds = [...found.trainerIds];
+
     if (trainerIds.length === 0 && uniqueLookupIds.length === 0) {
       return {
-        data: { availability: [], existingBookings: [] },
+        data: { availability: [], existingBookings: [], timezone: DEFAULT_TIMEZONE },
         error: null,
       };
     }
@@ -419,10 +537,10 @@ export async function getClientStudioAvailability(
       .or(orCondition)
       .eq('block_type', 'available');
 
-    // If a specific date is provided, filter by day of week
+    // If a specific date is provided, filter by day of week. The date is a
+    // calendar day, so derive the weekday without going through server-local time.
     if (date) {
-      const dateObj = new Date(date);
-      const dayOfWeek = dateObj.getDay(); // 0 = Sunday, 1 = Monday, etc.
+      const dayOfWeek = getDateKeyDayOfWeek(date); // 0 = Sunday, 1 = Monday, etc.
       availabilityQuery = availabilityQuery.eq('day_of_week', dayOfWeek);
     }
 
@@ -454,14 +572,29 @@ export async function getClientStudioAvailability(
 
     // Filter availability blocks by studio opening hours
     // Resolve which studioId to use for config — client.studio_id or first from uniqueLookupIds
-    const resolvedStudioId = client.studio_id || uniqueLookupIds[0] || null;
+    const resolvedStudioId = found.clientStudioId || uniqueLookupIds[0] || null;
     let studioOpeningHours: OpeningHours | null = null;
+    let studioTimezone = DEFAULT_TIMEZONE;
 
     if (resolvedStudioId) {
       const { data: studioCfg } = await getStudioConfig(resolvedStudioId);
       if (studioCfg?.opening_hours && Object.keys(studioCfg.opening_hours).length > 0) {
         studioOpeningHours = studioCfg.opening_hours;
       }
+      if (studioCfg) {
+        studioTimezone = studioCfg.timezone;
+      }
+    }
+
+    // Trainers may work in their own zone; otherwise their hours are studio time
+    const { data: staffZones } = await supabase
+      .from('bs_staff')
+      .select('id, timezone')
+      .in('id', [...allTrainerIds]);
+
+    const trainerTimezones = new Map<string, string>();
+    for (const staff of staffZones || []) {
+      trainerTimezones.set(staff.id as string, resolveTimezone(staff.timezone as string | null, studioTimezone));
     }
 
     // Filter: clip or remove availability blocks that fall outside studio opening hours
@@ -501,17 +634,17 @@ export async function getClientStudioAvailability(
     // Get existing bookings to check for conflicts
     let bookingsQuery = supabase
       .from('ta_bookings')
-      .select('id, trainer_id, scheduled_at, duration, status')
+      .select('id, trainer_id, studio_id, location_id, scheduled_at, duration, status, service:ta_services(booking_buffer_minutes, booking_buffer_before_minutes)')
       .in('trainer_id', trainerIds)
       .in('status', ['confirmed', 'pending']);
 
-    // If a specific date is provided, filter bookings for that date
+    // If a specific date is provided, filter bookings for that calendar day in the studio's zone
     if (date) {
-      const startOfDay = `${date}T00:00:00`;
-      const endOfDay = `${date}T23:59:59`;
+      const startOfDay = zonedTimeToUtc(parseDateKey(date), studioTimezone);
+      const endOfDay = zonedTimeToUtc(parseDateKey(addDaysToDateKey(date, 1)), studioTimezone);
       bookingsQuery = bookingsQuery
-        .gte('scheduled_at', startOfDay)
-        .lte('scheduled_at', endOfDay);
+        .gte('scheduled_at', startOfDay.toISOString())
+        .lt('scheduled_at', endOfDay.toISOString());
     } else {
       // Only get future bookings
       const now = new Date().toISOString();
@@ -525,6 +658,8 @@ export async function getClientStudioAvailability(
       return { data: null, error: new Error(bookingsError.message) };
     }
 
+    const blockedWindows = await getBookingBlockedWindows(bookings || [], serviceId);
+
     return {
       data: {
         availability: filteredAvailability.map((a: {
@@ -548,20 +683,18 @@ export async function getClientStudioAvailability(
           endMinute: a.end_minute,
           recurrence: a.recurrence,
           specificDate: a.specific_date,
+          timezone: trainerTimezones.get(a.trainer_id) || studioTimezone,
         })),
-        existingBookings: (bookings || []).map((b: {
-          id: string;
-          trainer_id: string;
-          scheduled_at: string;
-          duration: number;
-          status: string;
-        }) => ({
+        existingBookings: (bookings || []).map((b: BookingForBuffers & { status: string }) => ({
           id: b.id,
           trainerId: b.trainer_id,
           scheduledAt: b.scheduled_at,
           duration: b.duration,
           status: b.status,
+          blockedFrom: blockedWindows.get(b.id)?.blockedFrom,
+          blockedUntil: blockedWindows.get(b.id)?.blockedUntil,
         })),
+        timezone: studioTimezone,
       },
       error: null,
     };
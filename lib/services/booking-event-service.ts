@@ -0,0 +1,179 @@
+/**
+ * Booking Event Service
+ *
+ * Append-only history of every change to a booking: status, time, trainer
+ * and credit effects, with who made the change and from where. Events are
+ * recorded alongside the change itself; a failure to record one is logged
+ * and never fails the change.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { BookingEvent, BookingEventSource, BookingEventType } from '@/lib/types/booking-event';
+
+export interface RecordBookingEventInput {
+  bookingId: string;
+  eventType: BookingEventType;
+  source: BookingEventSource;
+  /** profiles.id for staff, auth user id for clients; omitted for jobs and webhooks */
+  actorId?: string | null;
+  oldStatus?: string | null;
+  newStatus?: string | null;
+  oldScheduledAt?: string | null;
+  newScheduledAt?: string | null;
+  oldTrainerId?: string | null;
+  newTrainerId?: string | null;
+  /** Credits returned to (+) or taken from (-) the client */
+  creditsDelta?: number | null;
+  metadata?: Record<string, unknown>;
+}
+
+interface BookingEventRow {
+  id: string;
+  booking_id: string;
+  event_type: BookingEventType;
+  source: BookingEventSource;
+  actor_id: string | null;
+  old_status: string | null;
+  new_status: string | null;
+  old_scheduled_at: string | null;
+  new_scheduled_at: string | null;
+  old_trainer_id: string | null;
+  new_trainer_id: string | null;
+  credits_delta: number | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const STATUS_EVENT_TYPES: Record<string, BookingEventType> = {
+  confirmed: 'confirmed',
+  'checked-in': 'checked_in',
+  completed: 'completed',
+  cancelled: 'cancelled',
+  'no-show': 'no_show',
+};
+
+/** The event type for a move into the given status. */
+export function eventTypeForStatus(status: string): BookingEventType {
+  return STATUS_EVENT_TYPES[status] || 'status_changed';
+}
+
+/**
+ * Append events to bookings' histories.
+ */
+export async function recordBookingEvents(events: RecordBookingEventInput[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { error } = await supabase.from('ta_booking_events').insert(
+      events.map((event) => ({
+        booking_id: event.bookingId,
+        event_type: event.eventType,
+        source: event.source,
+        actor_id: event.actorId || null,
+        old_status: event.oldStatus ?? null,
+        new_status: event.newStatus ?? null,
+        old_scheduled_at: event.oldScheduledAt ?? null,
+        new_scheduled_at: event.newScheduledAt ?? null,
+        old_trainer_id: event.oldTrainerId ?? null,
+        new_trainer_id: event.newTrainerId ?? null,
+        credits_delta: event.creditsDelta || null,
+        metadata: event.metadata || {},
+      }))
+    );
+
+    if (error) {
+      console.error('Error recording booking events:', error);
+    }
+  } catch (err) {
+    console.error('Error recording booking events:', err);
+  }
+}
+
+/**
+ * Append an event to a booking's history.
+ */
+export async function recordBookingEvent(event: RecordBookingEventInput): Promise<void> {
+  await recordBookingEvents([event]);
+}
+
+/**
+ * A booking's history, oldest first, for staff in the booking's studio.
+ */
+export async function getBookingEvents(params: {
+  bookingId: string;
+  studioId: string;
+}): Promise<{ data: BookingEvent[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: booking } = await supabase
+      .from('ta_bookings')
+      .select('id, studio_id, client:fc_clients(first_name, last_name)')
+      .eq('id', params.bookingId)
+      .maybeSingle();
+
+    if (!booking || booking.studio_id !== params.studioId) {
+      return { data: null, error: new Error('Booking not found') };
+    }
+
+    const { data, error } = await supabase
+      .from('ta_booking_events')
+      .select('*')
+      .eq('booking_id', params.bookingId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching booking events:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const rows = (data || []) as BookingEventRow[];
+
+    // Staff and trainers are named from their profiles
+    const profileIds = [
+      ...new Set(
+        rows.flatMap((row) => [row.actor_id, row.old_trainer_id, row.new_trainer_id]).filter((id): id is string => !!id)
+      ),
+    ];
+    const names = new Map<string, string>();
+    if (profileIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name')
+        .in('id', profileIds);
+
+      for (const profile of profiles || []) {
+        const name = `${profile.first_name || ''} ${profile.last_name || ''}`.trim();
+        if (name) names.set(profile.id, name);
+      }
+    }
+
+    const client = booking.client as { first_name: string | null; last_name: string | null } | null;
+    const clientName = client ? `${client.first_name || ''} ${client.last_name || ''}`.trim() || null : null;
+
+    const events: BookingEvent[] = rows.map((row) => ({
+      id: row.id,
+      bookingId: row.booking_id,
+      eventType: row.event_type,
+      source: row.source,
+      actorId: row.actor_id,
+      actorName:
+        (row.actor_id && names.get(row.actor_id)) || (row.source === 'client' ? clientName : null),
+      oldStatus: row.old_status,
+      newStatus: row.new_status,
+      oldScheduledAt: row.old_scheduled_at,
+      newScheduledAt: row.new_scheduled_at,
+      oldTrainerName: row.old_trainer_id ? names.get(row.old_trainer_id) || null : null,
+      newTrainerName: row.new_trainer_id ? names.get(row.new_trainer_id) || null : null,
+      creditsDelta: row.credits_delta,
+      metadata: row.metadata || {},
+      createdAt: row.created_at,
+    }));
+
+    return { data: events, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
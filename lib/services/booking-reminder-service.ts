@@ -0,0 +1,255 @@
+/**
+ * Booking Reminder Service
+ *
+ * Keeps a booking's pending 24h and 2h reminders (email and SMS) in step with
+ * the booking itself. Reminders are keyed by booking_id: they are cancelled
+ * when the booking is cancelled and re-queued for the new time when it moves.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { isSMSEnabled } from '@/lib/notifications/sms-service';
+import { getReminder24hSMS, getReminder2hSMS } from '@/lib/notifications/sms-templates';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+
+export const BOOKING_REMINDER_TYPES = ['reminder_24h', 'reminder_2h'];
+
+/** Pending rows for a booking's reminders, in the shape ta_notifications and sms_queue take */
+export interface BookingReminderRows {
+  emailReminders: {
+    type: string;
+    recipient_email: string;
+    client_id: string | null;
+    scheduled_for: string;
+    template_data: Record<string, unknown>;
+  }[];
+  smsReminders: {
+    phone_number: string;
+    message: string;
+    send_at: string;
+    notification_type: string;
+  }[];
+}
+
+/**
+ * Build the reminders a confirmed booking at scheduledAt should have.
+ * Reminders whose send time has already passed are left out.
+ */
+export function buildBookingReminders(params: {
+  scheduledAt: string;
+  clientId: string | null;
+  clientEmail?: string | null;
+  clientPhone?: string | null;
+  smsOptIn?: boolean | null;
+  clientName: string;
+  trainerName: string;
+  serviceName: string;
+  timezone: string;
+}): BookingReminderRows {
+  const scheduledAt = new Date(params.scheduledAt);
+  const now = new Date();
+
+  const reminders = [
+    { type: 'reminder_24h', sendAt: new Date(scheduledAt.getTime() - 24 * 60 * 60 * 1000) },
+    { type: 'reminder_2h', sendAt: new Date(scheduledAt.getTime() - 2 * 60 * 60 * 1000) },
+  ].filter((reminder) => reminder.sendAt > now);
+
+  const templateData = {
+    client_name: params.clientName,
+    service_name: params.serviceName,
+    scheduled_at: scheduledAt.toISOString(),
+    trainer_name: params.trainerName,
+    timezone: params.timezone,
+  };
+
+  const emailReminders = params.clientEmail
+    ? reminders.map((reminder) => ({
+        type: reminder.type,
+        recipient_email: params.clientEmail!,
+        client_id: params.clientId,
+        scheduled_for: reminder.sendAt.toISOString(),
+        template_data: templateData,
+      }))
+    : [];
+
+  let smsReminders: BookingReminderRows['smsReminders'] = [];
+  if (isSMSEnabled() && params.clientPhone && params.smsOptIn !== false) {
+    const smsData = {
+      clientName: params.clientName,
+      trainerName: params.trainerName,
+      serviceName: params.serviceName,
+      date: scheduledAt.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: params.timezone }),
+      time: scheduledAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: params.timezone }),
+    };
+
+    smsReminders = reminders.map((reminder) => ({
+      phone_number: params.clientPhone!,
+      message: reminder.type === 'reminder_24h' ? getReminder24hSMS(smsData) : getReminder2hSMS(smsData),
+      send_at: reminder.sendAt.toISOString(),
+      notification_type: reminder.type,
+    }));
+  }
+
+  return { emailReminders, smsReminders };
+}
+
+/**
+ * Cancel a booking's pending reminders. Other messages about the booking
+ * (e.g. a cancellation notice) are left to go out.
+ */
+export async function cancelBookingReminders(bookingId: string): Promise<{ error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { error: emailError } = await supabase
+      .from('ta_notifications')
+      .update({ status: 'cancelled' })
+      .eq('booking_id', bookingId)
+      .eq('status', 'pending')
+      .in('type', BOOKING_REMINDER_TYPES);
+
+    if (emailError) {
+      console.error('Error cancelling reminder emails:', emailError);
+      return { error: new Error(emailError.message) };
+    }
+
+    const { error: smsError } = await supabase
+      .from('sms_queue')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('booking_id', bookingId)
+      .eq('status', 'pending')
+      .in('notification_type', BOOKING_REMINDER_TYPES);
+
+    if (smsError) {
+      console.error('Error cancelling reminder SMS:', smsError);
+      return { error: new Error(smsError.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Queue reminders for a booking's current time. Only confirmed bookings get
+ * reminders; call cancelBookingReminders first if some may already be queued.
+ */
+export async function queueBookingReminders(bookingId: string): Promise<{ error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: booking, error: fetchError } = await supabase
+      .from('ta_bookings')
+      .select(`
+        id,
+        status,
+        scheduled_at,
+        trainer_id,
+        client_id,
+        client:fc_clients(first_name, last_name, email, phone, sms_transactional_opt_in),
+        service:ta_services(name)
+      `)
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return { error: new Error(fetchError.message) };
+    }
+    if (!booking || booking.status !== 'confirmed' || !booking.client) {
+      return { error: null };
+    }
+
+    const { data: trainer } = await supabase
+      .from('profiles')
+      .select('first_name, last_name')
+      .eq('id', booking.trainer_id)
+      .maybeSingle();
+
+    const { emailReminders, smsReminders } = buildBookingReminders({
+      scheduledAt: booking.scheduled_at,
+      clientId: booking.client_id,
+      clientEmail: booking.client.email,
+      clientPhone: booking.client.phone,
+      smsOptIn: booking.client.sms_transactional_opt_in,
+      clientName: `${booking.client.first_name || ''} ${booking.client.last_name || ''}`.trim() || 'Client',
+      trainerName: trainer
+        ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer'
+        : 'Your Trainer',
+      serviceName: booking.service?.name || 'Session',
+      // Times in reminders are shown in the trainer's (or studio's) zone
+      timezone: await getTrainerTimezone(booking.trainer_id),
+    });
+
+    if (emailReminders.length > 0) {
+      const { error } = await supabase
+        .from('ta_notifications')
+        .insert(emailReminders.map((reminder) => ({
+          ...reminder,
+          channel: 'email',
+          booking_id: bookingId,
+          status: 'pending',
+        })));
+
+      if (error) {
+        console.error('Error queuing reminder emails:', error);
+        return { error: new Error(error.message) };
+      }
+    }
+
+    if (smsReminders.length > 0) {
+      const { error } = await supabase
+        .from('sms_queue')
+        .insert(smsReminders.map((reminder) => ({
+          ...reminder,
+          type: 'transactional',
+          booking_id: bookingId,
+          booking_scheduled_at: booking.scheduled_at,
+        })));
+
+      if (error) {
+        console.error('Error queuing reminder SMS:', error);
+        return { error: new Error(error.message) };
+      }
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Bring a booking's reminders in line with its current status and time:
+ * drop any pending ones and queue fresh ones if it is still confirmed.
+ */
+export async function syncBookingReminders(bookingId: string): Promise<{ error: Error | null }> {
+  const { error } = await cancelBookingReminders(bookingId);
+  if (error) {
+    return { error };
+  }
+  return queueBookingReminders(bookingId);
+}
+
+/**
+ * Whether a queued reminder still applies at send time: the booking must
+ * still be confirmed and, when known, at the time the reminder was written for.
+ */
+export async function isBookingReminderCurrent(
+  bookingId: string | null,
+  expectedScheduledAt?: string | null
+): Promise<boolean> {
+  if (!bookingId) return false;
+
+  const supabase = createServiceRoleClient();
+
+  const { data: booking } = await supabase
+    .from('ta_bookings')
+    .select('status, scheduled_at')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (!booking || booking.status !== 'confirmed') return false;
+  if (!expectedScheduledAt) return true;
+
+  return new Date(booking.scheduled_at).getTime() === new Date(expectedScheduledAt).getTime();
+}
@@ -37,9 +37,10 @@ export interface BookingRequest {
   serviceId: string | null;
   preferredTimes: string[]; // Array of ISO timestamps
   notes: string | null;
-  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'countered';
   expiresAt: string;
   acceptedTime: string | null;
+  suggestedTimes: string[]; // Alternatives offered by the trainer (status 'countered')
   bookingId: string | null;
   createdAt: string;
   updatedAt: string;
@@ -75,6 +76,7 @@ interface DbBookingRequest {
   status: string;
   expires_at: string;
   accepted_time: string | null;
+  suggested_times: string[] | null;
   booking_id: string | null;
   created_at: string;
   updated_at: string;
@@ -98,6 +100,7 @@ function dbToBookingRequest(db: DbBookingRequest): BookingRequest {
     status: db.status as BookingRequest['status'],
     expiresAt: db.expires_at,
     acceptedTime: db.accepted_time,
+    suggestedTimes: db.suggested_times || [],
     bookingId: db.booking_id,
     createdAt: db.created_at,
     updatedAt: db.updated_at,
@@ -115,7 +118,7 @@ function dbToBookingRequest(db: DbBookingRequest): BookingRequest {
  */
 export async function getBookingRequestsClient(
   trainerId?: string,
-  status?: 'pending' | 'accepted' | 'declined' | 'expired'
+  status?: BookingRequest['status']
 ): Promise<BookingRequest[]> {
   try {
     const params = new URLSearchParams();
@@ -255,6 +258,34 @@ export async function declineRequestClient(requestId: string): Promise<boolean>
   }
 }
 
+/**
+ * Suggest alternative times for a booking request (client-side)
+ * Throws with the API error so the caller can surface it.
+ */
+export async function suggestAlternativeClient(
+  requestId: string,
+  suggestedTimes: string[]
+): Promise<BookingRequest | null> {
+  const response = await fetch('/api/booking-requests', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      id: requestId,
+      status: 'countered',
+      suggestedTimes,
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to suggest alternative times');
+  }
+
+  return result.request ? dbToBookingRequest(result.request as DbBookingRequest) : null;
+}
+
 /**
  * Delete a booking request (client-side)
  * Uses API route to bypass RLS
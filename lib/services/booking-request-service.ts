@@ -7,6 +7,10 @@
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { checkSlotCapacity } from '@/lib/services/group-class-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import { attachIntakeAnswersToBooking } from '@/lib/services/intake-service';
+import type { BookingActor } from '@/lib/types/booking-event';
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -17,6 +21,8 @@ export interface CreateBookingRequestInput {
   trainer_id?: string;
   serviceId?: string;
   service_id?: string;
+  locationId?: string | null;
+  location_id?: string | null;
   preferredTimes?: string[];
   preferred_times?: string[];
   notes?: string | null;
@@ -26,9 +32,12 @@ export interface CreateBookingRequestInput {
 
 export interface UpdateBookingRequestInput {
   id: string;
-  status?: 'accepted' | 'declined' | 'pending' | 'expired';
+  status?: 'accepted' | 'declined' | 'pending' | 'expired' | 'countered';
   acceptedTime?: string;
   accepted_time?: string;
+  /** Alternative times offered back to the client (status 'countered') */
+  suggestedTimes?: string[];
+  suggested_times?: string[];
   notes?: string;
   bookingStatus?: 'confirmed' | 'soft-hold';
   holdHours?: number;
@@ -40,10 +49,13 @@ interface BookingRequestRow {
   trainer_id: string;
   client_id: string;
   service_id: string | null;
+  location_id?: string | null;
   preferred_times: string[];
   notes: string | null;
   status: string;
   accepted_time?: string | null;
+  suggested_times?: string[] | null;
+  countered_at?: string | null;
   booking_id?: string | null;
   expires_at: string;
   created_at: string;
@@ -64,6 +76,12 @@ interface BookingRequestRow {
   [key: string]: unknown;
 }
 
+/** Most alternatives a trainer can offer in one counter */
+export const MAX_SUGGESTED_TIMES = 3;
+
+/** Hours the client has to pick one of the suggested times */
+const COUNTER_OFFER_EXPIRY_HOURS = 48;
+
 const BOOKING_REQUEST_SELECT = `
   *,
   client:fc_clients(id, first_name, last_name, email, credits),
@@ -81,6 +99,49 @@ function addClientName(req: BookingRequestRow) {
   };
 }
 
+/**
+ * Validate and normalise a trainer's suggested times: 1-3 distinct future
+ * times, each still free on the trainer's calendar.
+ */
+async function validateSuggestedTimes(
+  existing: BookingRequestRow,
+  trainerId: string,
+  suggestedTimes: string[] | undefined
+): Promise<{ times: string[] | null; error: Error | null }> {
+  if (!suggestedTimes || suggestedTimes.length === 0 || suggestedTimes.length > MAX_SUGGESTED_TIMES) {
+    return {
+      times: null,
+      error: new Error(`Between 1 and ${MAX_SUGGESTED_TIMES} suggestedTimes are required when suggesting alternatives`),
+    };
+  }
+
+  const times = [...new Set(suggestedTimes.map((t) => new Date(t).toISOString()))].sort();
+  const now = Date.now();
+
+  for (const time of times) {
+    if (new Date(time).getTime() <= now) {
+      return { times: null, error: new Error('A suggested time is in the past') };
+    }
+
+    const { data: capacity, error } = await checkSlotCapacity({
+      trainerId,
+      scheduledAt: time,
+      durationMinutes: existing.service?.duration || 60,
+      serviceId: existing.service_id,
+      locationId: existing.location_id,
+    });
+
+    if (error) {
+      return { times: null, error };
+    }
+    if (capacity?.hasConflict) {
+      return { times: null, error: new Error('A suggested time is no longer available') };
+    }
+  }
+
+  return { times, error: null };
+}
+
 // ── Service functions ───────────────────────────────────────────────
 
 /**
@@ -138,6 +199,7 @@ export async function createBookingRequest(
       trainer_id: input.trainerId || input.trainer_id || userId,
       client_id: input.clientId || input.client_id,
       service_id: input.serviceId || input.service_id || null,
+      location_id: input.locationId || input.location_id || null,
       preferred_times: input.preferredTimes || input.preferred_times,
       notes: input.notes || null,
       status: 'pending',
@@ -162,15 +224,17 @@ export async function createBookingRequest(
 }
 
 /**
- * Update a booking request (accept / decline / other status).
+ * Update a booking request (accept / decline / counter / other status).
  * When accepting, creates a confirmed booking in ta_bookings.
+ * When countering, stores the trainer's suggested times for the client to pick from.
  * Does NOT send emails.
  */
 export async function updateBookingRequest(
   requestId: string,
   studioId: string,
   userId: string,
-  input: UpdateBookingRequestInput
+  input: UpdateBookingRequestInput,
+  actor: BookingActor = { source: 'trainer', actorId: userId }
 ): Promise<{
   data: { request: BookingRequestRow; booking: Record<string, unknown> | null } | null;
   error: Error | null;
@@ -209,6 +273,7 @@ export async function updateBookingRequest(
         trainer_id: existing.trainer_id || userId,
         client_id: existing.client_id,
         service_id: existing.service_id,
+        location_id: existing.location_id ?? null,
         scheduled_at: acceptedTime,
         duration: existing.service?.duration || 60,
         status: bookingStatus,
@@ -232,9 +297,35 @@ export async function updateBookingRequest(
       }
 
       createdBooking = booking as Record<string, unknown>;
+
+      await recordBookingEvent({
+        bookingId: createdBooking.id as string,
+        eventType: 'created',
+        source: actor.source,
+        actorId: actor.actorId,
+        newStatus: bookingStatus,
+        newScheduledAt: createdBooking.scheduled_at as string,
+        newTrainerId: createdBooking.trainer_id as string,
+        metadata: { booking_request_id: requestId },
+      });
+      await attachIntakeAnswersToBooking({ bookingRequestId: requestId }, createdBooking.id as string);
       updateData.status = 'accepted';
       updateData.accepted_time = acceptedTime;
       updateData.booking_id = (booking as Record<string, unknown>).id;
+    } else if (input.status === 'countered') {
+      const { times, error: suggestError } = await validateSuggestedTimes(
+        existing,
+        existing.trainer_id || userId,
+        input.suggestedTimes || input.suggested_times
+      );
+      if (suggestError || !times) {
+        return { data: null, error: suggestError };
+      }
+
+      updateData.status = 'countered';
+      updateData.suggested_times = times;
+      updateData.countered_at = new Date().toISOString();
+      updateData.expires_at = new Date(Date.now() + COUNTER_OFFER_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
     } else if (input.status === 'declined') {
       updateData.status = 'declined';
     } else if (input.status !== undefined) {
@@ -0,0 +1,478 @@
+/**
+ * Booking Series Service
+ *
+ * Recurring (weekly / fortnightly) bookings. Each occurrence is created as a
+ * normal ta_bookings row via createBooking, so every occurrence goes through
+ * the same opening-hours, cutoff and conflict checks as a one-off booking,
+ * and is moved with rescheduleBooking like any other booking.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+  createBooking,
+  rescheduleBooking,
+  deleteBooking,
+} from '@/lib/services/booking-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import type {
+  BookingSeries,
+  BookingSeriesException,
+  SeriesFrequency,
+  SeriesScope,
+  SeriesOccurrenceFailure,
+} from '@/lib/types/booking-series';
+import type { BookingActor } from '@/lib/types/booking-event';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getZonedDateKey,
+  getZonedParts,
+  parseDateKey,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface CreateBookingSeriesInput {
+  trainerId?: string;
+  clientId: string;
+  serviceId?: string;
+  scheduledAt: string;
+  duration: number;
+  frequency: SeriesFrequency;
+  endDate?: string; // YYYY-MM-DD, inclusive
+  occurrenceCount?: number;
+  templateId?: string;
+  signOffMode?: string;
+  notes?: string;
+}
+
+export interface UpdateSeriesOccurrenceInput {
+  bookingId: string;
+  action: 'skip' | 'cancel' | 'reschedule';
+  scope?: SeriesScope;
+  scheduledAt?: string;
+  reason?: string;
+  /** Recorded in each booking's history */
+  actorId?: string;
+}
+
+/** Hard cap so a missing end date can't generate years of bookings. */
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/** Statuses an occurrence can still be moved or cancelled from. */
+const OPEN_STATUSES = ['confirmed', 'soft-hold'];
+
+const FREQUENCY_WEEKS: Record<SeriesFrequency, number> = {
+  weekly: 1,
+  fortnightly: 2,
+};
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Build occurrence start times for a series. Stops at whichever of endDate
+ * (inclusive) or occurrenceCount comes first, capped at MAX_SERIES_OCCURRENCES.
+ * Occurrences keep the same wall-clock time in the trainer's zone, so a 9am
+ * series stays at 9am across DST changes.
+ */
+export function generateOccurrenceDates(
+  startsAt: string,
+  frequency: SeriesFrequency,
+  options: { endDate?: string | null; occurrenceCount?: number | null; timezone?: string }
+): Date[] {
+  const timezone = options.timezone || DEFAULT_TIMEZONE;
+  const { hour, minute } = getZonedParts(startsAt, timezone);
+  const startDateKey = getZonedDateKey(startsAt, timezone);
+  const stepDays = FREQUENCY_WEEKS[frequency] * 7;
+  const limit = Math.min(options.occurrenceCount || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const dates: Date[] = [];
+  for (let i = 0; i < limit; i++) {
+    const dateKey = addDaysToDateKey(startDateKey, i * stepDays);
+    if (options.endDate && dateKey > options.endDate) break;
+    dates.push(zonedTimeToUtc({ ...parseDateKey(dateKey), hour, minute }, timezone));
+  }
+
+  return dates;
+}
+
+/** Format a timestamp as YYYY-MM-DD for the day before it. */
+function dayBefore(iso: string, timezone: string): string {
+  return addDaysToDateKey(getZonedDateKey(iso, timezone), -1);
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Create a booking series and one booking per occurrence.
+ * Occurrences that fail validation are skipped, recorded as 'failed'
+ * exceptions and returned so the caller can report them.
+ */
+export async function createBookingSeries(params: {
+  studioId: string;
+  userId: string;
+  input: CreateBookingSeriesInput;
+}): Promise<{
+  data: {
+    series: BookingSeries;
+    bookings: Record<string, unknown>[];
+    failed: SeriesOccurrenceFailure[];
+  } | null;
+  error: Error | null;
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { input } = params;
+
+    if (!input.endDate && !input.occurrenceCount) {
+      return { data: null, error: new Error('Either endDate or occurrenceCount is required') };
+    }
+
+    const trainerId = input.trainerId || params.userId;
+    const timezone = await getTrainerTimezone(trainerId);
+
+    const occurrences = generateOccurrenceDates(input.scheduledAt, input.frequency, {
+      endDate: input.endDate,
+      occurrenceCount: input.occurrenceCount,
+      timezone,
+    });
+
+    if (occurrences.length === 0) {
+      return { data: null, error: new Error('The series has no occurrences before its end date') };
+    }
+
+    const { data: series, error: seriesError } = await supabase
+      .from('ta_booking_series')
+      .insert({
+        studio_id: params.studioId,
+        trainer_id: trainerId,
+        client_id: input.clientId,
+        service_id: input.serviceId || null,
+        frequency: input.frequency,
+        starts_at: input.scheduledAt,
+        duration: input.duration,
+        end_date: input.endDate || null,
+        occurrence_count: input.occurrenceCount || null,
+        status: 'active',
+        created_by: params.userId,
+      })
+      .select()
+      .single();
+
+    if (seriesError || !series) {
+      console.error('Error creating booking series:', seriesError);
+      return { data: null, error: new Error(seriesError?.message || 'Failed to create booking series') };
+    }
+
+    const bookings: Record<string, unknown>[] = [];
+    const failed: SeriesOccurrenceFailure[] = [];
+
+    for (let i = 0; i < occurrences.length; i++) {
+      const scheduledAt = occurrences[i].toISOString();
+
+      const { data: booking, error } = await createBooking({
+        studioId: params.studioId,
+        userId: params.userId,
+        body: {
+          trainerId,
+          clientId: input.clientId,
+          serviceId: input.serviceId,
+          scheduledAt,
+          duration: input.duration,
+          status: 'confirmed',
+          templateId: input.templateId,
+          signOffMode: input.signOffMode,
+          notes: input.notes,
+          seriesId: series.id,
+          seriesIndex: i,
+        },
+        // One confirmation for the series, not one email per week
+        sendConfirmation: bookings.length === 0,
+      });
+
+      if (error || !booking) {
+        const reason = error?.message || 'Failed to create booking';
+        failed.push({ seriesIndex: i, scheduledAt, reason });
+
+        await supabase.from('ta_booking_series_exceptions').insert({
+          series_id: series.id,
+          series_index: i,
+          occurrence_at: scheduledAt,
+          type: 'failed',
+          reason,
+        });
+        continue;
+      }
+
+      bookings.push(booking);
+    }
+
+    if (bookings.length === 0) {
+      await supabase.from('ta_booking_series').update({ status: 'cancelled' }).eq('id', series.id);
+    }
+
+    return { data: { series: series as BookingSeries, bookings, failed }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Fetch a series with its bookings and exceptions.
+ */
+export async function getBookingSeries(seriesId: string): Promise<{
+  data: {
+    series: BookingSeries;
+    bookings: Record<string, unknown>[];
+    exceptions: BookingSeriesException[];
+  } | null;
+  error: Error | null;
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: series, error } = await supabase
+      .from('ta_booking_series')
+      .select('*')
+      .eq('id', seriesId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching booking series:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    if (!series) {
+      return { data: null, error: null };
+    }
+
+    const [{ data: bookings }, { data: exceptions }] = await Promise.all([
+      supabase
+        .from('ta_bookings')
+        .select('id, scheduled_at, duration, status, series_index, client_id, service_id')
+        .eq('series_id', seriesId)
+        .order('series_index', { ascending: true }),
+      supabase
+        .from('ta_booking_series_exceptions')
+        .select('*')
+        .eq('series_id', seriesId)
+        .order('series_index', { ascending: true }),
+    ]);
+
+    return {
+      data: {
+        series: series as BookingSeries,
+        bookings: bookings || [],
+        exceptions: (exceptions || []) as BookingSeriesException[],
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Skip, cancel or reschedule a series occurrence.
+ * scope 'following' applies cancel/reschedule to this occurrence and every
+ * later open occurrence; reschedules shift each one by the same offset and
+ * move the series' own start and end date with them, so occurrences derived
+ * from the series later land at the new time. Skips always apply to the
+ * single occurrence.
+ */
+export async function updateSeriesOccurrences(
+  seriesId: string,
+  input: UpdateSeriesOccurrenceInput
+): Promise<{
+  data: { updated: Record<string, unknown>[]; failed: SeriesOccurrenceFailure[] } | null;
+  error: Error | null;
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+    const actor: BookingActor = { source: 'trainer', actorId: input.actorId || null };
+
+    const { data: anchor, error: anchorError } = await supabase
+      .from('ta_bookings')
+      .select('id, studio_id, trainer_id, service_id, scheduled_at, duration, status, series_id, series_index')
+      .eq('id', input.bookingId)
+      .eq('series_id', seriesId)
+      .maybeSingle();
+
+    if (anchorError || !anchor) {
+      return { data: null, error: new Error('Booking not found in this series') };
+    }
+
+    if (!OPEN_STATUSES.includes(anchor.status as string)) {
+      return { data: null, error: new Error(`Cannot change a booking with status '${anchor.status}'`) };
+    }
+
+    // Skip: cancel the single occurrence and remember it was skipped, not cancelled
+    if (input.action === 'skip') {
+      const { data: result, error } = await deleteBooking(anchor.id as string, false, { ...actor, metadata: { skipped: true } });
+      if (error) return { data: null, error };
+
+      await supabase.from('ta_booking_series_exceptions').upsert(
+        {
+          series_id: seriesId,
+          series_index: anchor.series_index,
+          occurrence_at: anchor.scheduled_at,
+          type: 'skipped',
+          booking_id: anchor.id,
+          reason: input.reason || null,
+        },
+        { onConflict: 'series_id,series_index' }
+      );
+
+      return { data: { updated: result?.booking ? [result.booking] : [], failed: [] }, error: null };
+    }
+
+    // Collect the occurrences this change applies to
+    let targets: Array<Record<string, unknown>> = [anchor];
+    if (input.scope === 'following') {
+      const { data: following, error } = await supabase
+        .from('ta_bookings')
+        .select('id, studio_id, trainer_id, service_id, scheduled_at, duration, status, series_id, series_index')
+        .eq('series_id', seriesId)
+        .gte('series_index', anchor.series_index as number)
+        .in('status', OPEN_STATUSES)
+        .order('series_index', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching series occurrences:', error);
+        return { data: null, error: new Error(error.message) };
+      }
+      targets = following || [anchor];
+    }
+
+    const updated: Record<string, unknown>[] = [];
+    const failed: SeriesOccurrenceFailure[] = [];
+
+    if (input.action === 'cancel') {
+      for (const target of targets) {
+        const { data: result, error } = await deleteBooking(target.id as string, false, actor);
+        if (error) {
+          failed.push({
+            seriesIndex: target.series_index as number,
+            scheduledAt: target.scheduled_at as string,
+            reason: error.message,
+          });
+        } else if (result?.booking) {
+          updated.push(result.booking);
+        }
+      }
+
+      // Cancelling "this and following" ends the series at this occurrence
+      if (input.scope === 'following') {
+        const timezone = await getTrainerTimezone(anchor.trainer_id as string);
+        await supabase
+          .from('ta_booking_series')
+          .update(
+            (anchor.series_index as number) === 0
+              ? { status: 'cancelled' }
+              : { status: 'ended', end_date: dayBefore(anchor.scheduled_at as string, timezone) }
+          )
+          .eq('id', seriesId);
+      }
+
+      return { data: { updated, failed }, error: null };
+    }
+
+    // Reschedule
+    if (!input.scheduledAt) {
+      return { data: null, error: new Error('scheduledAt is required to reschedule') };
+    }
+
+    const offsetMs = new Date(input.scheduledAt).getTime() - new Date(anchor.scheduled_at as string).getTime();
+
+    // Shift each occurrence by the same number of calendar days and move it to
+    // the new wall-clock time, so occurrences either side of a DST change agree
+    const timezone = await getTrainerTimezone(anchor.trainer_id as string);
+    const newWallTime = getZonedParts(input.scheduledAt, timezone);
+    const dayShift = Math.round(
+      (Date.parse(getZonedDateKey(input.scheduledAt, timezone)) -
+        Date.parse(getZonedDateKey(anchor.scheduled_at as string, timezone))) /
+        (24 * 60 * 60 * 1000)
+    );
+
+    // Moving later: start from the last occurrence so earlier ones don't
+    // collide with a sibling that hasn't been moved yet
+    const ordered = offsetMs > 0 ? [...targets].reverse() : targets;
+
+    for (const target of ordered) {
+      const newTime = zonedTimeToUtc(
+        {
+          ...parseDateKey(addDaysToDateKey(getZonedDateKey(target.scheduled_at as string, timezone), dayShift)),
+          hour: newWallTime.hour,
+          minute: newWallTime.minute,
+        },
+        timezone
+      ).toISOString();
+
+      // Already at the new time (e.g. moved on its own earlier)
+      if (new Date(target.scheduled_at as string).getTime() === new Date(newTime).getTime()) {
+        updated.push(target);
+        continue;
+      }
+
+      // Same checks, concurrent-edit guard and reminder swap as a single move
+      const { data: booking, error } = await rescheduleBooking({
+        bookingId: target.id as string,
+        scheduledAt: newTime,
+        actorId: actor.actorId,
+        source: 'trainer',
+      });
+      if (error || !booking) {
+        failed.push({
+          seriesIndex: target.series_index as number,
+          scheduledAt: newTime,
+          reason: error?.message || 'Failed to update booking',
+        });
+        continue;
+      }
+
+      updated.push(booking);
+    }
+
+    // Re-anchor the series so its pattern runs through the moved occurrences
+    // (earlier ones keep their time as bookings of their own)
+    if (input.scope === 'following' && updated.length > 0) {
+      const { data: series } = await supabase
+        .from('ta_booking_series')
+        .select('frequency, end_date')
+        .eq('id', seriesId)
+        .maybeSingle();
+
+      if (series) {
+        const stepDays = FREQUENCY_WEEKS[series.frequency as SeriesFrequency] * 7;
+        const startsAt = zonedTimeToUtc(
+          {
+            ...parseDateKey(
+              addDaysToDateKey(getZonedDateKey(input.scheduledAt, timezone), -(anchor.series_index as number) * stepDays)
+            ),
+            hour: newWallTime.hour,
+            minute: newWallTime.minute,
+          },
+          timezone
+        ).toISOString();
+
+        const { error: seriesError } = await supabase
+          .from('ta_booking_series')
+          .update({
+            starts_at: startsAt,
+            end_date: series.end_date ? addDaysToDateKey(series.end_date as string, dayShift) : null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', seriesId);
+
+        if (seriesError) {
+          console.error('Error moving booking series:', seriesError);
+        }
+      }
+    }
+
+    return { data: { updated, failed }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
@@ -5,6 +5,11 @@
  */
 
 import { SignOffMode } from '@/lib/types';
+import type { SeriesFrequency, SeriesScope, SeriesOccurrenceFailure } from '@/lib/types/booking-series';
+import type { ClassRoster } from '@/lib/types/group-class';
+import type { ReassignBookingsInput, ReassignBookingsResult, ReassignCandidate } from '@/lib/types/booking-reassign';
+import type { BookingEvent } from '@/lib/types/booking-event';
+import type { BookingIntakeAnswer } from '@/lib/types/intake';
 
 /**
  * Client info embedded in booking
@@ -26,6 +31,17 @@ export interface BookingService {
   duration: number;
   color: string;
   credits_required: number;
+  booking_buffer_minutes?: number | null;
+  booking_buffer_before_minutes?: number | null;
+}
+
+/**
+ * Location a booking takes place at
+ */
+export interface BookingLocation {
+  id: string;
+  name: string;
+  address: string | null;
 }
 
 /**
@@ -45,12 +61,18 @@ export interface Booking {
   templateId: string | null;
   signOffMode: SignOffMode;
   notes: string | null;
+  seriesId: string | null;
+  seriesIndex: number | null;
+  locationId: string | null;
   createdAt: string;
   updatedAt: string;
   // Joined data
   client: BookingClient | null;
   service: BookingService | null;
+  location: BookingLocation | null;
   clientName: string | null;
+  /** Set on a newly created booking when a warn-only resource is double-booked */
+  warnings?: string[];
 }
 
 /**
@@ -67,6 +89,7 @@ export interface CreateBookingInput {
   templateId?: string;
   signOffMode?: SignOffMode;
   notes?: string;
+  locationId?: string;
 }
 
 /**
@@ -85,6 +108,34 @@ export interface UpdateBookingInput {
   notes?: string;
 }
 
+/**
+ * Input type for creating a recurring booking series
+ */
+export interface CreateBookingSeriesInput extends CreateBookingInput {
+  clientId: string;
+  frequency: SeriesFrequency;
+  endDate?: string;
+  occurrenceCount?: number;
+}
+
+/**
+ * Input type for changing one or more occurrences of a series
+ */
+export interface UpdateBookingSeriesInput {
+  bookingId: string;
+  action: 'skip' | 'cancel' | 'reschedule';
+  scope?: SeriesScope;
+  scheduledAt?: string;
+}
+
+/**
+ * Result of a series create/update: the bookings that succeeded and the dates that didn't
+ */
+export interface BookingSeriesResult {
+  bookings: Booking[];
+  failed: SeriesOccurrenceFailure[];
+}
+
 /**
  * Database booking shape (snake_case)
  */
@@ -102,10 +153,14 @@ interface DbBooking {
   template_id: string | null;
   sign_off_mode: string;
   notes: string | null;
+  series_id?: string | null;
+  series_index?: number | null;
+  location_id?: string | null;
   created_at: string;
   updated_at: string;
   client: BookingClient | null;
   service: BookingService | null;
+  location?: BookingLocation | null;
   clientName?: string | null;
 }
 
@@ -127,10 +182,14 @@ function dbToBooking(db: DbBooking): Booking {
     templateId: db.template_id,
     signOffMode: (db.sign_off_mode || 'full_session') as SignOffMode,
     notes: db.notes,
+    seriesId: db.series_id ?? null,
+    seriesIndex: db.series_index ?? null,
+    locationId: db.location_id ?? null,
     createdAt: db.created_at,
     updatedAt: db.updated_at,
     client: db.client,
     service: db.service,
+    location: db.location ?? null,
     clientName: db.clientName || (db.client
       ? `${db.client.first_name || ''} ${db.client.last_name || ''}`.trim()
       : null),
@@ -217,6 +276,7 @@ export async function createBookingClient(input: CreateBookingInput): Promise<Bo
         templateId: input.templateId,
         signOffMode: input.signOffMode || 'full_session',
         notes: input.notes,
+        locationId: input.locationId,
       }),
     });
 
@@ -225,14 +285,71 @@ export async function createBookingClient(input: CreateBookingInput): Promise<Bo
       throw new Error(errorData.error || 'Failed to create booking');
     }
 
-    const { booking } = await response.json();
-    return booking ? dbToBooking(booking as DbBooking) : null;
+    const { booking, warnings } = await response.json();
+    return booking ? { ...dbToBooking(booking as DbBooking), warnings: warnings || [] } : null;
   } catch (error) {
     if (error instanceof Error) throw error;
     throw new Error('Failed to create booking');
   }
 }
 
+/**
+ * Create a recurring booking series (client-side)
+ * Throws if no occurrence could be booked; partial failures are returned in `failed`
+ */
+export async function createBookingSeriesClient(
+  input: CreateBookingSeriesInput
+): Promise<BookingSeriesResult> {
+  const response = await fetch('/api/booking-series', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...input,
+      signOffMode: input.signOffMode || 'full_session',
+    }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to create booking series');
+  }
+
+  return {
+    bookings: ((result.bookings || []) as DbBooking[]).map(dbToBooking),
+    failed: result.failed || [],
+  };
+}
+
+/**
+ * Skip, cancel or reschedule series occurrences (client-side)
+ */
+export async function updateBookingSeriesClient(
+  seriesId: string,
+  input: UpdateBookingSeriesInput
+): Promise<BookingSeriesResult> {
+  const response = await fetch(`/api/booking-series/${seriesId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to update booking series');
+  }
+
+  return {
+    bookings: ((result.updated || []) as DbBooking[]).map(dbToBooking),
+    failed: result.failed || [],
+  };
+}
+
 /**
  * Update a booking (client-side)
  * Uses API route to bypass RLS
@@ -355,6 +472,160 @@ export async function completeBookingClient(
   }
 }
 
+/**
+ * Fetch the roster of the group class a booking belongs to (client-side)
+ */
+export async function getClassRosterClient(bookingId: string): Promise<ClassRoster | null> {
+  try {
+    const response = await fetch(`/api/bookings/${bookingId}/roster`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching class roster:', error);
+      return null;
+    }
+
+    const { roster } = await response.json();
+    return roster as ClassRoster;
+  } catch (error) {
+    console.error('Error fetching class roster:', error);
+    return null;
+  }
+}
+
+/**
+ * Complete every checked-in attendee of a group class (client-side).
+ * Throws with the API error so the caller can surface it.
+ */
+export async function completeClassClient(
+  bookingId: string
+): Promise<{ completed: number; skipped: number; failed: number }> {
+  const response = await fetch(`/api/bookings/${bookingId}/complete-class`, {
+    method: 'POST',
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to complete class');
+  }
+
+  return {
+    completed: (result.completed || []).length,
+    skipped: (result.skipped || []).length,
+    failed: (result.failed || []).length,
+  };
+}
+
+/**
+ * Undo an automatic no-show while its charge is still pending (client-side).
+ * Throws with the API error so the caller can surface it.
+ */
+export async function undoNoShowClient(bookingId: string): Promise<void> {
+  const response = await fetch(`/api/bookings/${bookingId}/undo-no-show`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const result = await response.json();
+    throw new Error(result.error || 'Failed to undo no-show');
+  }
+}
+
+/**
+ * Move a booking to a new time (client-side).
+ * Throws with the API error (e.g. a conflict) so the caller can surface it.
+ */
+export async function rescheduleBookingClient(
+  bookingId: string,
+  scheduledAt: string
+): Promise<{ booking: Booking | null; warnings: string[] }> {
+  const response = await fetch(`/api/bookings/${bookingId}/reschedule`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ scheduledAt }),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to reschedule booking');
+  }
+
+  return {
+    booking: result.booking ? dbToBooking(result.booking as DbBooking) : null,
+    warnings: result.warnings || [],
+  };
+}
+
+/**
+ * Trainers who could take over the given bookings (client-side).
+ * Throws with the API error so the caller can surface it.
+ */
+export async function getReassignCandidatesClient(bookingIds: string[]): Promise<ReassignCandidate[]> {
+  const params = new URLSearchParams({ bookingIds: bookingIds.join(',') });
+  const response = await fetch(`/api/bookings/reassign?${params.toString()}`);
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load trainers');
+  }
+
+  return result.candidates as ReassignCandidate[];
+}
+
+/**
+ * A booking's history, oldest first (client-side).
+ * Throws with the API error so the caller can surface it.
+ */
+export async function getBookingEventsClient(bookingId: string): Promise<BookingEvent[]> {
+  const response = await fetch(`/api/bookings/${bookingId}/events`);
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load booking history');
+  }
+
+  return result.events as BookingEvent[];
+}
+
+/**
+ * The client's answers to the service's intake questions (client-side).
+ * Throws with the API error so the caller can surface it.
+ */
+export async function getBookingIntakeClient(bookingId: string): Promise<BookingIntakeAnswer[]> {
+  const response = await fetch(`/api/bookings/${bookingId}/intake`);
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load intake answers');
+  }
+
+  return result.answers as BookingIntakeAnswer[];
+}
+
+/**
+ * Hand bookings to another trainer (client-side).
+ * Throws with the API error so the caller can surface it.
+ */
+export async function reassignBookingsClient(input: ReassignBookingsInput): Promise<ReassignBookingsResult> {
+  const response = await fetch('/api/bookings/reassign', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to reassign bookings');
+  }
+
+  return result.result as ReassignBookingsResult;
+}
+
 /**
  * Delete a booking permanently (client-side)
  * Uses API route to bypass RLS
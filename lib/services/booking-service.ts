@@ -7,56 +7,108 @@
 
 import { createHash } from 'crypto';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { sendBookingConfirmationEmail, queueNotification } from '@/lib/notifications/email-service';
+import { sendBookingConfirmationEmail, sendRescheduleEmail, sendTrainerChangedEmail } from '@/lib/notifications/email-service';
 import { isSMSEnabled, queueSMS } from '@/lib/notifications/sms-service';
-import { getBookingConfirmationSMS, getReminder24hSMS, getReminder2hSMS } from '@/lib/notifications/sms-templates';
-import { getStudioConfig, isWithinOpeningHours } from '@/lib/services/studio-service';
+import { getBookingConfirmationSMS, getRescheduleSMS } from '@/lib/notifications/sms-templates';
+import { getStudioConfig, getTrainerTimezone, isWithinOpeningHours } from '@/lib/services/studio-service';
 import { createBookingRequest } from '@/lib/services/booking-request-service';
+import { isWaitlistEnabled, joinWaitlist, offerNextWaitlistPlace } from '@/lib/services/waitlist-service';
+import { checkSlotCapacity, getClassRoster } from '@/lib/services/group-class-service';
+import { unexpiredHoldFilter } from '@/lib/utils/soft-holds';
+import { formatLocationLabel, getEffectiveOpeningHours, getLocation } from '@/lib/services/location-service';
+import { queueBookingCalendarPush, queueBookingCalendarRemoval } from '@/lib/services/calendar-sync-service';
+import { checkTrainerAvailability } from '@/lib/services/slot-service';
+import { getServiceTrainerIds } from '@/lib/services/service-service';
+import { eventTypeForStatus, recordBookingEvent } from '@/lib/services/booking-event-service';
+import { checkServiceIntakeAnswers, saveIntakeAnswers } from '@/lib/services/intake-service';
+import {
+  buildBookingReminders,
+  cancelBookingReminders,
+  queueBookingReminders,
+  syncBookingReminders,
+} from '@/lib/services/booking-reminder-service';
+import type { ResourceConflict } from '@/lib/types/resource';
+import type { ReassignBookingsResult, ReassignCandidate } from '@/lib/types/booking-reassign';
+import type { BookingActor } from '@/lib/types/booking-event';
+import type { IntakeAnswerInput } from '@/lib/types/intake';
 
 /**
- * Check for booking time conflicts with existing bookings.
+ * Check for booking time conflicts with existing bookings, including the
+ * buffer and travel time that must be kept free around them.
+ * Pass excludeBookingId when moving an existing booking so it doesn't conflict with itself.
+ * Pass serviceId so a group class can take bookings until it reaches max_capacity.
+ * Pass locationId when the booking is at a specific location, so travel time is allowed for.
  */
 export async function checkBookingConflicts(
   trainerId: string,
   scheduledAt: string,
-  durationMinutes: number
-): Promise<{ hasConflict: boolean; error: Error | null }> {
+  durationMinutes: number,
+  excludeBookingId?: string,
+  serviceId?: string | null,
+  locationId?: string | null
+): Promise<{
+  hasConflict: boolean;
+  bufferConflict?: boolean;
+  resourceConflicts?: ResourceConflict[];
+  calendarBusy?: boolean;
+  error: Error | null;
+}> {
   try {
-    const supabase = createServiceRoleClient();
-
-    // Clean up expired soft-holds before checking conflicts
-    await supabase
-      .from('ta_bookings')
-      .update({ status: 'cancelled' })
-      .eq('status', 'soft-hold')
-      .lt('hold_expiry', new Date().toISOString());
-
-    const scheduledDate = new Date(scheduledAt);
-    const endTime = new Date(scheduledDate.getTime() + durationMinutes * 60 * 1000);
-
-    const { data: existingBookings } = await supabase
-      .from('ta_bookings')
-      .select('id, scheduled_at, duration')
-      .eq('trainer_id', trainerId)
-      .in('status', ['confirmed', 'soft-hold', 'checked-in'])
-      .gte('scheduled_at', new Date(scheduledDate.getTime() - 120 * 60 * 1000).toISOString())
-      .lte('scheduled_at', endTime.toISOString());
-
-    for (const existing of existingBookings || []) {
-      const existingStart = new Date(existing.scheduled_at);
-      const existingEnd = new Date(existingStart.getTime() + existing.duration * 60 * 1000);
-
-      if (scheduledDate < existingEnd && endTime > existingStart) {
-        return { hasConflict: true, error: null };
-      }
+    const { data: capacity, error } = await checkSlotCapacity({
+      trainerId,
+      scheduledAt,
+      durationMinutes,
+      serviceId,
+      excludeBookingId,
+      locationId,
+    });
+
+    if (error || !capacity) {
+      return { hasConflict: false, error };
     }
 
-    return { hasConflict: false, error: null };
+    return {
+      hasConflict: capacity.hasConflict,
+      bufferConflict: capacity.bufferConflict,
+      resourceConflicts: capacity.resourceConflicts,
+      calendarBusy: capacity.calendarBusy,
+      error: null,
+    };
   } catch (err) {
     return { hasConflict: false, error: err instanceof Error ? err : new Error(String(err)) };
   }
 }
 
+/**
+ * The error to report for a checkBookingConflicts result, or null if the slot
+ * is free. Warn-only resources don't block the booking; a failed check does.
+ */
+function getConflictError(conflicts: {
+  hasConflict: boolean;
+  error?: Error | null;
+  bufferConflict?: boolean;
+  resourceConflicts?: ResourceConflict[];
+  calendarBusy?: boolean;
+}): Error | null {
+  if (conflicts.error) {
+    return new Error(`Could not check for conflicts: ${conflicts.error.message}`);
+  }
+  const blockedResource = (conflicts.resourceConflicts || []).find((conflict) => conflict.blocking);
+  if (blockedResource) {
+    return new Error(`Time slot conflict: ${blockedResource.name} is already in use`);
+  }
+  if (conflicts.calendarBusy) {
+    return new Error('Time slot conflict: the trainer is busy in their calendar at this time');
+  }
+  if (conflicts.bufferConflict) {
+    return new Error('Time slot conflict: too close to another booking once buffer and travel time are allowed for');
+  }
+  if (conflicts.hasConflict) {
+    return new Error('Time slot conflict with existing booking');
+  }
+  return null;
+}
+
 /**
  * Fetch bookings for a user within optional date range and filters.
  */
@@ -67,25 +119,22 @@ export async function getBookings(params: {
   endDate?: string | null;
   status?: string | null;
   clientId?: string | null;
+  locationId?: string | null;
 }): Promise<{ data: unknown[] | null; error: Error | null }> {
   try {
     const supabase = createServiceRoleClient();
 
-    // Clean up expired soft-holds before fetching bookings
-    await supabase
-      .from('ta_bookings')
-      .update({ status: 'cancelled' })
-      .eq('status', 'soft-hold')
-      .lt('hold_expiry', new Date().toISOString());
-
     let query = supabase
       .from('ta_bookings')
       .select(`
         *,
         client:fc_clients(id, first_name, last_name, email, credits),
-        service:ta_services(id, name, duration, color, credits_required)
+        service:ta_services(id, name, duration, color, credits_required, booking_buffer_minutes, booking_buffer_before_minutes),
+        location:bs_locations(id, name, address)
       `)
       .or(`trainer_id.eq.${params.userId},studio_id.eq.${params.studioId}`)
+      // Lapsed holds count as released even before the processor gets to them
+      .or(unexpiredHoldFilter())
       .order('scheduled_at', { ascending: true });
 
     if (params.startDate) {
@@ -100,6 +149,9 @@ export async function getBookings(params: {
     if (params.clientId) {
       query = query.eq('client_id', params.clientId);
     }
+    if (params.locationId) {
+      query = query.eq('location_id', params.locationId);
+    }
 
     const { data: bookings, error } = await query;
 
@@ -138,6 +190,8 @@ export async function createBooking(params: {
     client_id?: string;
     serviceId?: string;
     service_id?: string;
+    locationId?: string | null;
+    location_id?: string | null;
     scheduledAt?: string;
     scheduled_at?: string;
     duration: number;
@@ -151,8 +205,17 @@ export async function createBooking(params: {
     signOffMode?: string;
     sign_off_mode?: string;
     notes?: string;
+    seriesId?: string;
+    seriesIndex?: number;
   };
-}): Promise<{ data: Record<string, unknown> | null; error: Error | null }> {
+  /** Set false to skip the confirmation email/SMS (reminders are still queued). */
+  sendConfirmation?: boolean;
+}): Promise<{
+  data: Record<string, unknown> | null;
+  error: Error | null;
+  /** Non-fatal problems, e.g. a warn-only resource that is double-booked */
+  warnings?: string[];
+}> {
   try {
     const supabase = createServiceRoleClient();
 
@@ -161,6 +224,7 @@ export async function createBooking(params: {
       trainer_id: params.body.trainerId || params.body.trainer_id || params.userId,
       client_id: params.body.clientId || params.body.client_id || null,
       service_id: params.body.serviceId || params.body.service_id || null,
+      location_id: params.body.locationId || params.body.location_id || null,
       scheduled_at: params.body.scheduledAt || params.body.scheduled_at,
       duration: params.body.duration,
       status: params.body.status || 'confirmed',
@@ -169,6 +233,8 @@ export async function createBooking(params: {
       template_id: params.body.templateId || params.body.template_id || null,
       sign_off_mode: params.body.signOffMode || params.body.sign_off_mode || 'full_session',
       notes: params.body.notes || null,
+      series_id: params.body.seriesId || null,
+      series_index: params.body.seriesIndex ?? null,
     };
 
     // Fetch studio config for soft-hold length and opening hours validation
@@ -188,12 +254,24 @@ export async function createBooking(params: {
       }
     }
 
-    // Validate against studio opening hours
-    if (studioConfig?.opening_hours && bookingData.scheduled_at) {
+    // A service tied to a location is booked there unless a location is given
+    if (!bookingData.location_id && bookingData.service_id) {
+      const { data: service } = await supabase
+        .from('ta_services')
+        .select('location_id')
+        .eq('id', bookingData.service_id)
+        .maybeSingle();
+      bookingData.location_id = (service?.location_id as string) || null;
+    }
+    const location = bookingData.location_id ? (await getLocation(bookingData.location_id)).data : null;
+
+    // Validate against the location's (or studio's) opening hours
+    if (studioConfig && bookingData.scheduled_at) {
       const hoursCheck = isWithinOpeningHours(
-        studioConfig.opening_hours,
+        getEffectiveOpeningHours(studioConfig.opening_hours, location),
         bookingData.scheduled_at,
-        bookingData.duration
+        bookingData.duration,
+        studioConfig.timezone
       );
       if (!hoursCheck.valid) {
         return { data: null, error: new Error(hoursCheck.reason || 'Outside studio operating hours') };
@@ -202,7 +280,7 @@ export async function createBooking(params: {
 
     // Enforce booking cutoff (minimum advance booking time)
     if (studioConfig?.cancellation_policy && bookingData.scheduled_at) {
-      const policy = studioConfig.cancellation_policy as { booking_cutoff_minutes?: number; buffer_minutes?: number };
+      const policy = studioConfig.cancellation_policy as { booking_cutoff_minutes?: number };
       if (policy.booking_cutoff_minutes && policy.booking_cutoff_minutes > 0) {
         const minutesUntilBooking = (new Date(bookingData.scheduled_at).getTime() - Date.now()) / 60000;
         if (minutesUntilBooking < policy.booking_cutoff_minutes) {
@@ -211,43 +289,23 @@ export async function createBooking(params: {
       }
     }
 
-    // Check for booking conflicts
-    const { hasConflict } = await checkBookingConflicts(
+    // Check for booking conflicts, including buffer and travel time between sessions
+    const conflicts = await checkBookingConflicts(
       bookingData.trainer_id,
       bookingData.scheduled_at!,
-      bookingData.duration
+      bookingData.duration,
+      undefined,
+      bookingData.service_id,
+      bookingData.location_id
     );
 
-    if (hasConflict) {
-      return { data: null, error: new Error('Time slot conflict with existing booking') };
+    const conflictError = getConflictError(conflicts);
+    if (conflictError) {
+      return { data: null, error: conflictError };
     }
 
-    // Enforce buffer_minutes between bookings
-    if (studioConfig?.cancellation_policy && bookingData.scheduled_at) {
-      const policy = studioConfig.cancellation_policy as { buffer_minutes?: number };
-      if (policy.buffer_minutes && policy.buffer_minutes > 0) {
-        const supabaseCheck = createServiceRoleClient();
-        const bookingStart = new Date(bookingData.scheduled_at);
-        const bookingEnd = new Date(bookingStart.getTime() + bookingData.duration * 60000);
-        const bufferMs = policy.buffer_minutes * 60000;
-
-        const windowStart = new Date(bookingStart.getTime() - bufferMs).toISOString();
-        const windowEnd = new Date(bookingEnd.getTime() + bufferMs).toISOString();
-
-        const { data: adjacentBookings } = await supabaseCheck
-          .from('ta_bookings')
-          .select('id, scheduled_at, duration')
-          .eq('trainer_id', bookingData.trainer_id)
-          .neq('status', 'cancelled')
-          .gte('scheduled_at', windowStart)
-          .lte('scheduled_at', windowEnd)
-          .limit(1);
-
-        if (adjacentBookings && adjacentBookings.length > 0) {
-          return { data: null, error: new Error(`A ${policy.buffer_minutes}-minute buffer is required between sessions`) };
-        }
-      }
-    }
+    // Warn-only resources let the booking through but are reported back
+    const warnings = (conflicts.resourceConflicts || []).map((conflict) => `${conflict.name} is already in use at this time`);
 
     const { data, error } = await supabase
       .from('ta_bookings')
@@ -255,7 +313,8 @@ export async function createBooking(params: {
       .select(`
         *,
         client:fc_clients(id, first_name, last_name, email, credits),
-        service:ta_services(id, name, duration, color, credits_required)
+        service:ta_services(id, name, duration, color, credits_required, booking_buffer_minutes, booking_buffer_before_minutes),
+        location:bs_locations(id, name, address)
       `)
       .single();
 
@@ -264,6 +323,16 @@ export async function createBooking(params: {
       return { data: null, error: new Error(error.message) };
     }
 
+    await recordBookingEvent({
+      bookingId: data.id,
+      eventType: 'created',
+      source: 'trainer',
+      actorId: params.userId,
+      newStatus: data.status,
+      newScheduledAt: data.scheduled_at,
+      newTrainerId: data.trainer_id,
+    });
+
     // Send booking confirmation email if booking is confirmed and has client
     if (data && data.status === 'confirmed' && data.client?.email) {
       try {
@@ -281,74 +350,47 @@ export async function createBooking(params: {
           ? `${data.client.first_name || ''} ${data.client.last_name || ''}`.trim() || 'Client'
           : 'Client';
 
-        await sendBookingConfirmationEmail({
-          clientEmail: data.client.email,
-          clientName,
-          trainerName,
-          serviceName: data.service?.name || 'Session',
-          scheduledAt: data.scheduled_at,
-          duration: data.duration,
-          bookingId: data.id,
-        });
-
-        // Queue reminder emails
-        const scheduledAt = new Date(data.scheduled_at);
-
-        const templateData = {
-          client_name: clientName,
-          service_name: data.service?.name || 'Session',
-          scheduled_at: data.scheduled_at,
-          trainer_name: trainerName,
-        };
-
-        // 24-hour reminder
-        const reminder24h = new Date(scheduledAt.getTime() - 24 * 60 * 60 * 1000);
-        if (reminder24h > new Date()) {
-          await queueNotification({
-            type: 'reminder_24h',
-            recipientEmail: data.client.email,
+        // Times in notifications are shown in the trainer's (or studio's) zone
+        const timezone = await getTrainerTimezone(data.trainer_id);
+
+        if (params.sendConfirmation !== false) {
+          await sendBookingConfirmationEmail({
+            clientEmail: data.client.email,
+            clientName,
+            trainerName,
+            serviceName: data.service?.name || 'Session',
+            scheduledAt: data.scheduled_at,
+            duration: data.duration,
             bookingId: data.id,
-            clientId: data.client_id,
-            scheduledFor: reminder24h,
-            templateData,
+            timezone,
+            location: formatLocationLabel(data.location),
           });
         }
 
-        // 2-hour reminder
-        const reminder2h = new Date(scheduledAt.getTime() - 2 * 60 * 60 * 1000);
-        if (reminder2h > new Date()) {
-          await queueNotification({
-            type: 'reminder_2h',
-            recipientEmail: data.client.email,
-            bookingId: data.id,
-            clientId: data.client_id,
-            scheduledFor: reminder2h,
-            templateData,
-          });
-        }
+        const scheduledAt = new Date(data.scheduled_at);
 
         // Queue SMS notifications if Telnyx is enabled and client has phone + opt-in
         if (isSMSEnabled() && data.client.phone && data.client.sms_transactional_opt_in !== false) {
-          const smsDate = scheduledAt.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
-          const smsTime = scheduledAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false });
+          const smsDate = scheduledAt.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: timezone });
+          const smsTime = scheduledAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: timezone });
           const smsData = { clientName, trainerName, serviceName: data.service?.name || 'Session', date: smsDate, time: smsTime };
 
-          await queueSMS({ phone: data.client.phone, message: getBookingConfirmationSMS(smsData), bookingId: data.id, userId: data.client_id });
-
-          if (reminder24h > new Date()) {
-            await queueSMS({ phone: data.client.phone, message: getReminder24hSMS(smsData), bookingId: data.id, userId: data.client_id, sendAt: reminder24h });
-          }
-          if (reminder2h > new Date()) {
-            await queueSMS({ phone: data.client.phone, message: getReminder2hSMS(smsData), bookingId: data.id, userId: data.client_id, sendAt: reminder2h });
+          if (params.sendConfirmation !== false) {
+            await queueSMS({ phone: data.client.phone, message: getBookingConfirmationSMS(smsData), bookingId: data.id, userId: data.client_id });
           }
         }
+
+        // 24h and 2h reminders, by email and SMS
+        await queueBookingReminders(data.id);
       } catch (emailError) {
         console.error('Error sending booking confirmation email:', emailError);
         // Don't fail the booking creation if email/SMS fails
       }
     }
 
-    return { data, error: null };
+    await queueBookingCalendarPush(data.id);
+
+    return { data, error: null, warnings };
   } catch (err) {
     return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
   }
@@ -368,11 +410,15 @@ export async function createPublicBooking(params: {
   phone?: string;
   termsContent?: string;
   termsVersion?: number;
+  /** Answers to the service's intake questions */
+  intakeAnswers?: IntakeAnswerInput[];
 }): Promise<{
   data: {
-    type: 'booking' | 'request';
+    type: 'booking' | 'request' | 'waitlist';
     bookingId?: string;
     requestId?: string;
+    waitlistEntryId?: string;
+    waitlistPosition?: number;
     status: string;
     requiresPayment: boolean;
     priceCents: number;
@@ -387,7 +433,7 @@ export async function createPublicBooking(params: {
     // Get service details
     const { data: service, error: serviceError } = await supabase
       .from('ta_services')
-      .select('duration, price_cents, is_intro_session, requires_approval')
+      .select('duration, price_cents, is_intro_session, requires_approval, location_id')
       .eq('id', params.serviceId)
       .eq('is_public', true)
       .eq('is_active', true)
@@ -397,6 +443,14 @@ export async function createPublicBooking(params: {
       return { data: null, error: new Error('Service not found or not available') };
     }
 
+    const { data: intakeAnswers, error: intakeError } = await checkServiceIntakeAnswers(
+      params.serviceId,
+      params.intakeAnswers
+    );
+    if (intakeError || !intakeAnswers) {
+      return { data: null, error: intakeError || new Error('Failed to check intake answers') };
+    }
+
     // Get trainer's studio_id (check staff record first, then fall back to owner lookup for solo practitioners)
     const { data: trainerStaff } = await supabase
       .from('bs_staff')
@@ -424,12 +478,15 @@ export async function createPublicBooking(params: {
       bookingModel === 'trainer-led' ||
       (bookingModel === 'hybrid' && (service.requires_approval as boolean));
 
-    // Validate against studio opening hours
-    if (publicStudioConfig?.opening_hours) {
+    // Validate against the service location's (or studio's) opening hours
+    const locationId = (service.location_id as string) || null;
+    const location = locationId ? (await getLocation(locationId)).data : null;
+    if (publicStudioConfig) {
       const hoursCheck = isWithinOpeningHours(
-        publicStudioConfig.opening_hours,
+        getEffectiveOpeningHours(publicStudioConfig.opening_hours, location),
         params.scheduledAt,
-        service.duration
+        service.duration,
+        publicStudioConfig.timezone
       );
       if (!hoursCheck.valid) {
         return { data: null, error: new Error(hoursCheck.reason || 'Outside studio operating hours') };
@@ -447,19 +504,23 @@ export async function createPublicBooking(params: {
       }
     }
 
-    // Check for conflicts
-    const scheduledDate = new Date(params.scheduledAt);
-    const endDate = new Date(scheduledDate.getTime() + service.duration * 60 * 1000);
+    // Check for conflicts (a group class is only taken once it is full)
+    const { hasConflict: slotTaken, error: conflictError } = await checkBookingConflicts(
+      params.trainerId,
+      params.scheduledAt,
+      service.duration,
+      undefined,
+      params.serviceId,
+      locationId
+    );
 
-    const { data: conflicts } = await supabase
-      .from('ta_bookings')
-      .select('id')
-      .eq('trainer_id', params.trainerId)
-      .in('status', ['confirmed', 'soft-hold', 'checked-in'])
-      .gte('scheduled_at', new Date(scheduledDate.getTime() - service.duration * 60 * 1000).toISOString())
-      .lte('scheduled_at', params.scheduledAt);
+    // A slot that couldn't be checked is treated as taken rather than double booked
+    if (conflictError) {
+      return { data: null, error: new Error(`Could not check for conflicts: ${conflictError.message}`) };
+    }
 
-    if (conflicts && conflicts.length > 0) {
+    // A taken slot is only bookable via the waitlist, if the studio has one
+    if (slotTaken && !isWaitlistEnabled(publicStudioConfig?.waitlist_config)) {
       return { data: null, error: new Error('This time slot is no longer available') };
     }
 
@@ -537,6 +598,41 @@ export async function createPublicBooking(params: {
       }
     }
 
+    if (slotTaken) {
+      const { data: waitlisted, error: waitlistError } = await joinWaitlist({
+        studioId: studioId || params.trainerId,
+        trainerId: params.trainerId,
+        serviceId: params.serviceId,
+        clientId,
+        scheduledAt: new Date(params.scheduledAt).toISOString(),
+        duration: service.duration,
+        waitlistConfig: publicStudioConfig?.waitlist_config ?? null,
+      });
+
+      if (waitlistError || !waitlisted) {
+        return { data: null, error: waitlistError || new Error('This time slot is no longer available') };
+      }
+
+      const { error: answersError } = await saveIntakeAnswers({ waitlistEntryId: waitlisted.entry.id }, intakeAnswers);
+      if (answersError) {
+        console.error('Failed to save intake answers for waitlist entry:', answersError);
+      }
+
+      return {
+        data: {
+          type: 'waitlist' as const,
+          waitlistEntryId: waitlisted.entry.id,
+          waitlistPosition: waitlisted.position,
+          status: 'waiting',
+          requiresPayment: false,
+          priceCents: service.price_cents,
+          hasExistingAccount: isExistingAuthUser,
+          clientId,
+        },
+        error: null,
+      };
+    }
+
     // If trainer approval is needed, create a booking request instead of a booking
     if (needsRequest) {
       const { data: request, error: requestError } = await createBookingRequest(
@@ -546,6 +642,7 @@ export async function createPublicBooking(params: {
           clientId,
           trainerId: params.trainerId,
           serviceId: params.serviceId,
+          locationId,
           preferredTimes: [params.scheduledAt],
           notes: `Booking request via public page. Guest: ${params.firstName} ${params.lastName} (${params.email})`,
         }
@@ -575,6 +672,13 @@ export async function createPublicBooking(params: {
         }
       }
 
+      const { error: requestAnswersError } = await saveIntakeAnswers({ bookingRequestId: request.id }, intakeAnswers);
+      if (requestAnswersError) {
+        console.error('Failed to save intake answers, rolling back request:', requestAnswersError);
+        await supabase.from('ta_booking_requests').delete().eq('id', request.id);
+        return { data: null, error: new Error('Failed to record intake answers') };
+      }
+
       return {
         data: {
           type: 'request' as const,
@@ -615,6 +719,7 @@ export async function createPublicBooking(params: {
         client_id: clientId,
         service_id: params.serviceId,
         studio_id: studioId,
+        location_id: locationId,
         scheduled_at: params.scheduledAt,
         duration: service.duration,
         status: bookingStatus,
@@ -648,6 +753,25 @@ export async function createPublicBooking(params: {
       }
     }
 
+    const { error: bookingAnswersError } = await saveIntakeAnswers({ bookingId: booking.id }, intakeAnswers);
+    if (bookingAnswersError) {
+      console.error('Failed to save intake answers, rolling back booking:', bookingAnswersError);
+      await supabase.from('ta_bookings').delete().eq('id', booking.id);
+      return { data: null, error: new Error('Failed to record intake answers') };
+    }
+
+    await recordBookingEvent({
+      bookingId: booking.id,
+      eventType: 'created',
+      source: 'client',
+      newStatus: bookingStatus,
+      newScheduledAt: booking.scheduled_at,
+      newTrainerId: booking.trainer_id,
+      metadata: { via: 'public_page' },
+    });
+
+    await queueBookingCalendarPush(booking.id);
+
     return {
       data: {
         type: 'booking' as const,
@@ -694,7 +818,7 @@ export async function completeBooking(
       .select(`
         *,
         client:fc_clients(id, first_name, last_name, email, credits),
-        service:ta_services(id, name, duration, color, credits_required)
+        service:ta_services(id, name, duration, color, credits_required, booking_buffer_minutes, booking_buffer_before_minutes)
       `)
       .eq('id', bookingId)
       .single();
@@ -776,7 +900,7 @@ export async function completeBooking(
       .select(`
         *,
         client:fc_clients(id, first_name, last_name, email, credits),
-        service:ta_services(id, name, duration, color, credits_required)
+        service:ta_services(id, name, duration, color, credits_required, booking_buffer_minutes, booking_buffer_before_minutes)
       `)
       .single();
 
@@ -785,12 +909,81 @@ export async function completeBooking(
       return { data: null, error: new Error(error.message) };
     }
 
+    await recordBookingEvent({
+      bookingId,
+      eventType: 'completed',
+      source: 'trainer',
+      actorId: userId,
+      oldStatus: existingBooking.status,
+      newStatus: 'completed',
+      creditsDelta: creditError ? null : -creditsRequired,
+      metadata: createdSession ? { session_id: createdSession.id } : undefined,
+    });
+
+    // Earnings go to whoever delivered the session, which is not the payee
+    // when the booking was handed to a substitute
+    const { error: deliveredError } = await supabase
+      .from('ta_payments')
+      .update({ delivered_by: existingBooking.trainer_id })
+      .eq('booking_id', bookingId)
+      .eq('payment_type', 'session');
+
+    if (deliveredError) {
+      console.error('Error attributing session payment:', deliveredError);
+    }
+
     return { data: { booking: data, session: createdSession }, error: null };
   } catch (err) {
     return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
   }
 }
 
+/**
+ * Complete a group class from any one of its bookings. Each checked-in
+ * attendee is completed individually, so credits are deducted per attendee;
+ * attendees who never checked in are left for no-show handling.
+ */
+export async function completeClass(
+  bookingId: string,
+  userId: string
+): Promise<{
+  data: { completed: Record<string, unknown>[]; skipped: string[]; failed: { bookingId: string; reason: string }[] } | null;
+  error: Error | null;
+}> {
+  try {
+    const { data: roster, error: rosterError } = await getClassRoster(bookingId);
+    if (rosterError || !roster) {
+      return { data: null, error: rosterError || new Error('Booking not found') };
+    }
+
+    const completed: Record<string, unknown>[] = [];
+    const skipped: string[] = [];
+    const failed: { bookingId: string; reason: string }[] = [];
+
+    for (const attendee of roster.attendees) {
+      if (attendee.status !== 'checked-in') {
+        skipped.push(attendee.bookingId);
+        continue;
+      }
+
+      const { data, error } = await completeBooking(attendee.bookingId, userId);
+      if (error || !data) {
+        failed.push({ bookingId: attendee.bookingId, reason: error?.message || 'Failed to complete booking' });
+      } else {
+        completed.push(data.booking);
+      }
+    }
+
+    if (completed.length === 0 && failed.length === 0) {
+      return { data: null, error: new Error('Cannot complete class with no checked-in attendees') };
+    }
+
+    return { data: { completed, skipped, failed }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Single-booking CRUD (extracted from api/bookings/[id]/route.ts)
 // ---------------------------------------------------------------------------
@@ -799,7 +992,8 @@ export async function completeBooking(
 const BOOKING_SELECT = `
   *,
   client:fc_clients(id, first_name, last_name, email, credits),
-  service:ta_services(id, name, duration, color, credits_required)
+  service:ta_services(id, name, duration, color, credits_required, booking_buffer_minutes, booking_buffer_before_minutes),
+  location:bs_locations(id, name, address)
 `;
 
 /**
@@ -834,7 +1028,8 @@ export async function getBookingById(
  */
 export async function updateBooking(
   bookingId: string,
-  input: Record<string, unknown>
+  input: Record<string, unknown>,
+  actor: BookingActor = { source: 'trainer', actorId: null }
 ): Promise<{ data: Record<string, unknown> | null; error: Error | null }> {
   try {
     const supabase = createServiceRoleClient();
@@ -847,6 +1042,9 @@ export async function updateBooking(
     if (input.serviceId !== undefined || input.service_id !== undefined) {
       updateData.service_id = input.serviceId ?? input.service_id;
     }
+    if (input.locationId !== undefined || input.location_id !== undefined) {
+      updateData.location_id = input.locationId ?? input.location_id;
+    }
     if (input.scheduledAt !== undefined || input.scheduled_at !== undefined) {
       updateData.scheduled_at = input.scheduledAt ?? input.scheduled_at;
     }
@@ -866,6 +1064,12 @@ export async function updateBooking(
     }
     if (input.notes !== undefined) updateData.notes = input.notes;
 
+    const { data: previous } = await supabase
+      .from('ta_bookings')
+      .select('status, scheduled_at, trainer_id')
+      .eq('id', bookingId)
+      .maybeSingle();
+
     const { data, error } = await supabase
       .from('ta_bookings')
       .update(updateData)
@@ -878,18 +1082,631 @@ export async function updateBooking(
       return { data: null, error: new Error(error.message) };
     }
 
+    const statusChanged = !!previous && previous.status !== data.status;
+    const timeChanged =
+      !!previous && new Date(previous.scheduled_at).getTime() !== new Date(data.scheduled_at).getTime();
+
+    if (statusChanged || timeChanged) {
+      await recordBookingEvent({
+        bookingId,
+        eventType: statusChanged ? eventTypeForStatus(data.status) : 'rescheduled',
+        source: actor.source,
+        actorId: actor.actorId,
+        oldStatus: statusChanged ? previous!.status : null,
+        newStatus: statusChanged ? data.status : null,
+        oldScheduledAt: timeChanged ? previous!.scheduled_at : null,
+        newScheduledAt: timeChanged ? data.scheduled_at : null,
+      });
+
+      // Cancel or re-time reminders when the booking's status or time changed
+      await syncBookingReminders(bookingId);
+    }
+
+    await queueBookingCalendarPush(bookingId);
+
     return { data, error: null };
   } catch (err) {
     return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
   }
 }
 
+/** Statuses a booking can be moved from */
+const RESCHEDULABLE_STATUSES = ['confirmed', 'soft-hold'];
+
+/**
+ * Move a booking to a new time as one unit. Opening hours, the trainer's
+ * availability and conflicts are re-checked on the server; the booking, its
+ * 24h/2h reminders and the audit entry are then updated together by the
+ * reschedule_booking RPC. The client and trainer are only notified once the
+ * move has been saved.
+ */
+export async function rescheduleBooking(params: {
+  bookingId: string;
+  scheduledAt: string;
+  /** Who moved the booking, recorded in the booking's event log */
+  actorId: string | null;
+  source: 'trainer' | 'client';
+  /** Client moves only: the most times the booking may be moved (checked atomically) */
+  maxReschedules?: number;
+}): Promise<{
+  data: Record<string, unknown> | null;
+  error: Error | null;
+  /** Non-fatal problems, e.g. a warn-only resource that is double-booked */
+  warnings?: string[];
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: booking, error: fetchError } = await supabase
+      .from('ta_bookings')
+      .select(`
+        *,
+        client:fc_clients(id, first_name, last_name, email, phone, sms_transactional_opt_in),
+        service:ta_services(name),
+        location:bs_locations(id, name, address)
+      `)
+      .eq('id', params.bookingId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return { data: null, error: new Error(fetchError.message) };
+    }
+    if (!booking) {
+      return { data: null, error: new Error('Booking not found') };
+    }
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+      return { data: null, error: new Error(`Cannot reschedule a booking with status '${booking.status}'`) };
+    }
+
+    const newTime = new Date(params.scheduledAt);
+    if (isNaN(newTime.getTime())) {
+      return { data: null, error: new Error('A valid new time is required') };
+    }
+    if (newTime.getTime() === new Date(booking.scheduled_at).getTime()) {
+      return { data: null, error: new Error('The new time must be different from the current time') };
+    }
+    if (newTime.getTime() <= Date.now()) {
+      return { data: null, error: new Error('The new time must be in the future') };
+    }
+
+    const scheduledAt = newTime.toISOString();
+    const duration = (booking.duration as number) || 60;
+    const { data: studioConfig } = booking.studio_id
+      ? await getStudioConfig(booking.studio_id)
+      : { data: null };
+    const location = booking.location_id ? (await getLocation(booking.location_id)).data : null;
+
+    if (studioConfig) {
+      const hoursCheck = isWithinOpeningHours(
+        getEffectiveOpeningHours(studioConfig.opening_hours, location),
+        scheduledAt,
+        duration,
+        studioConfig.timezone
+      );
+      if (!hoursCheck.valid) {
+        return { data: null, error: new Error(hoursCheck.reason || 'Outside studio operating hours') };
+      }
+
+      const cutoffMinutes = studioConfig.cancellation_policy?.booking_cutoff_minutes || 0;
+      if (cutoffMinutes > 0 && (newTime.getTime() - Date.now()) / 60000 < cutoffMinutes) {
+        return { data: null, error: new Error(`Bookings must be made at least ${cutoffMinutes} minutes in advance`) };
+      }
+    }
+
+    const { data: availability, error: availabilityError } = await checkTrainerAvailability({
+      trainerId: booking.trainer_id,
+      scheduledAt,
+      durationMinutes: duration,
+      locationId: booking.location_id,
+    });
+    if (availabilityError) {
+      return { data: null, error: availabilityError };
+    }
+    if (availability && !availability.available) {
+      return { data: null, error: new Error(availability.reason || 'The trainer is unavailable at this time') };
+    }
+
+    const conflicts = await checkBookingConflicts(
+      booking.trainer_id,
+      scheduledAt,
+      duration,
+      params.bookingId,
+      booking.service_id,
+      booking.location_id
+    );
+    const conflictError = getConflictError(conflicts);
+    if (conflictError) {
+      return { data: null, error: conflictError };
+    }
+    const warnings = (conflicts.resourceConflicts || []).map((conflict) => `${conflict.name} is already in use at this time`);
+
+    // Reminders and messages for the new time, saved with the move
+    const { data: trainer } = await supabase
+      .from('profiles')
+      .select('first_name, last_name, email')
+      .eq('id', booking.trainer_id)
+      .maybeSingle();
+
+    const trainerName = trainer
+      ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer'
+      : 'Your Trainer';
+    const clientName = booking.client
+      ? `${booking.client.first_name || ''} ${booking.client.last_name || ''}`.trim() || 'Client'
+      : 'Client';
+    const serviceName = booking.service?.name || 'Session';
+    const timezone = await getTrainerTimezone(booking.trainer_id);
+
+    // Soft-holds get their reminders once they are confirmed
+    const { emailReminders, smsReminders } = booking.status === 'confirmed' && booking.client
+      ? buildBookingReminders({
+          scheduledAt,
+          clientId: booking.client_id,
+          clientEmail: booking.client.email,
+          clientPhone: booking.client.phone,
+          smsOptIn: booking.client.sms_transactional_opt_in,
+          clientName,
+          trainerName,
+          serviceName,
+          timezone,
+        })
+      : { emailReminders: [], smsReminders: [] };
+
+    const smsMessages: { phone_number: string; message: string; send_at: string; notification_type?: string }[] = [...smsReminders];
+    if (booking.client && isSMSEnabled() && booking.client.phone && booking.client.sms_transactional_opt_in !== false) {
+      smsMessages.unshift({
+        phone_number: booking.client.phone,
+        message: getRescheduleSMS({
+          clientName,
+          serviceName,
+          date: newTime.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: timezone }),
+          time: newTime.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: timezone }),
+        }),
+        send_at: new Date().toISOString(),
+      });
+    }
+
+    const { data: moved, error: moveError } = await supabase.rpc('reschedule_booking', {
+      p_booking_id: params.bookingId,
+      p_expected_scheduled_at: booking.scheduled_at,
+      p_new_scheduled_at: scheduledAt,
+      p_source: params.source,
+      p_actor_id: params.actorId,
+      p_max_reschedules: params.maxReschedules ?? null,
+      p_email_reminders: emailReminders,
+      p_sms_messages: smsMessages,
+    });
+
+    if (moveError) {
+      if (moveError.message?.includes('Reschedule limit reached')) {
+        return { data: null, error: new Error('Reschedule limit reached') };
+      }
+      if (moveError.message?.includes('Booking was changed')) {
+        return { data: null, error: new Error('This booking was changed by someone else. Refresh and try again.') };
+      }
+      console.error('Error rescheduling booking:', moveError);
+      return { data: null, error: new Error(moveError.message) };
+    }
+
+    const movedBooking = (Array.isArray(moved) ? moved[0] : moved) as Record<string, unknown> | undefined;
+
+    // Offer the old slot to the next person on the waitlist
+    if (isWaitlistEnabled(studioConfig?.waitlist_config)) {
+      await offerNextWaitlistPlace(booking.trainer_id, booking.scheduled_at);
+    }
+
+    await queueBookingCalendarPush(params.bookingId);
+
+    if (booking.client?.email) {
+      try {
+        await sendRescheduleEmail({
+          clientEmail: booking.client.email,
+          clientName,
+          trainerName,
+          serviceName,
+          oldTime: booking.scheduled_at,
+          newTime: scheduledAt,
+          bookingId: params.bookingId,
+          timezone,
+          duration,
+          location: formatLocationLabel(booking.location),
+          sequence: (movedBooking?.ics_sequence as number) ?? undefined,
+          rescheduledBy: params.source,
+          trainerEmail: params.source === 'client' ? trainer?.email || undefined : undefined,
+        });
+      } catch (emailError) {
+        console.error('Error sending reschedule email:', emailError);
+        // The booking has moved; don't report a failure because the email did
+      }
+    }
+
+    const { data: updated } = await supabase
+      .from('ta_bookings')
+      .select(BOOKING_SELECT)
+      .eq('id', params.bookingId)
+      .single();
+
+    return { data: updated || movedBooking || null, error: null, warnings };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Hand a booking to another trainer in the same studio at the same time. The
+ * new trainer's availability and conflicts are checked first; the booking's
+ * reminders and calendar copies then follow it, and the client is told who
+ * their session is now with.
+ */
+export async function reassignBookingTrainer(params: {
+  bookingId: string;
+  trainerId: string;
+  /** Who reassigned the booking, recorded in the booking's event log */
+  actorId: string | null;
+}): Promise<{
+  data: Record<string, unknown> | null;
+  error: Error | null;
+  warnings?: string[];
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: booking, error: fetchError } = await supabase
+      .from('ta_bookings')
+      .select(`
+        *,
+        client:fc_clients(id, first_name, last_name, email),
+        service:ta_services(name),
+        location:bs_locations(id, name, address)
+      `)
+      .eq('id', params.bookingId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return { data: null, error: new Error(fetchError.message) };
+    }
+    if (!booking) {
+      return { data: null, error: new Error('Booking not found') };
+    }
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+      return { data: null, error: new Error(`Cannot reassign a booking with status '${booking.status}'`) };
+    }
+    if (booking.trainer_id === params.trainerId) {
+      return { data: null, error: new Error('The booking is already with this trainer') };
+    }
+
+    const { data: newTrainerStaff } = await supabase
+      .from('bs_staff')
+      .select('studio_id')
+      .eq('id', params.trainerId)
+      .maybeSingle();
+
+    if (!newTrainerStaff?.studio_id || newTrainerStaff.studio_id !== booking.studio_id) {
+      return { data: null, error: new Error('The new trainer must be in the same studio as the booking') };
+    }
+
+    if (booking.service_id) {
+      const { data: qualifiedIds, error: qualifiedError } = await getServiceTrainerIds(booking.service_id);
+      if (qualifiedError) {
+        return { data: null, error: qualifiedError };
+      }
+      if (qualifiedIds && !qualifiedIds.includes(params.trainerId)) {
+        return { data: null, error: new Error('The new trainer is not qualified for this service') };
+      }
+    }
+
+    const duration = (booking.duration as number) || 60;
+
+    const { data: availability, error: availabilityError } = await checkTrainerAvailability({
+      trainerId: params.trainerId,
+      scheduledAt: booking.scheduled_at,
+      durationMinutes: duration,
+      locationId: booking.location_id,
+    });
+    if (availabilityError) {
+      return { data: null, error: availabilityError };
+    }
+    if (availability && !availability.available) {
+      return { data: null, error: new Error(availability.reason || 'The trainer is unavailable at this time') };
+    }
+
+    const conflicts = await checkBookingConflicts(
+      params.trainerId,
+      booking.scheduled_at,
+      duration,
+      params.bookingId,
+      booking.service_id,
+      booking.location_id
+    );
+    const conflictError = getConflictError(conflicts);
+    if (conflictError) {
+      return { data: null, error: conflictError };
+    }
+    const warnings = (conflicts.resourceConflicts || []).map((conflict) => `${conflict.name} is already in use at this time`);
+
+    // The old trainer's calendar copies are keyed to their connections
+    await queueBookingCalendarRemoval(params.bookingId);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('ta_bookings')
+      .update({ trainer_id: params.trainerId })
+      .eq('id', params.bookingId)
+      .eq('trainer_id', booking.trainer_id)
+      .select(BOOKING_SELECT)
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error reassigning booking:', updateError);
+      return { data: null, error: new Error(updateError.message) };
+    }
+    if (!updated) {
+      return { data: null, error: new Error('This booking was changed by someone else. Refresh and try again.') };
+    }
+
+    await recordBookingEvent({
+      bookingId: params.bookingId,
+      eventType: 'trainer_changed',
+      source: 'trainer',
+      actorId: params.actorId,
+      oldTrainerId: booking.trainer_id,
+      newTrainerId: params.trainerId,
+    });
+
+    // Reminder text names the trainer
+    await syncBookingReminders(params.bookingId);
+    await queueBookingCalendarPush(params.bookingId);
+
+    if (booking.client?.email) {
+      const { data: trainers } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name')
+        .in('id', [booking.trainer_id, params.trainerId]);
+
+      const nameOf = (id: string) => {
+        const trainer = (trainers || []).find((t: { id: string }) => t.id === id);
+        return trainer ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer' : 'Your Trainer';
+      };
+
+      try {
+        await sendTrainerChangedEmail({
+          clientEmail: booking.client.email,
+          clientName: `${booking.client.first_name || ''} ${booking.client.last_name || ''}`.trim() || 'Client',
+          previousTrainerName: nameOf(booking.trainer_id),
+          trainerName: nameOf(params.trainerId),
+          serviceName: booking.service?.name || 'Session',
+          scheduledAt: booking.scheduled_at,
+          bookingId: params.bookingId,
+          timezone: await getTrainerTimezone(params.trainerId),
+          duration,
+          location: formatLocationLabel(booking.location),
+          sequence: (updated.ics_sequence as number) ?? undefined,
+        });
+      } catch (emailError) {
+        console.error('Error sending trainer changed email:', emailError);
+        // The booking has moved; don't report a failure because the email did
+      }
+    }
+
+    return { data: updated, error: null, warnings };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+const SUBSTITUTE_STAFF_TYPES = ['trainer', 'instructor'];
+const MAX_REASSIGN_BOOKINGS = 50;
+
+function normaliseBookingIds(bookingIds: unknown): string[] | Error {
+  const ids = Array.isArray(bookingIds) ? [...new Set(bookingIds.filter((id): id is string => typeof id === 'string' && !!id))] : [];
+  if (ids.length === 0) {
+    return new Error('bookingIds are required');
+  }
+  if (ids.length > MAX_REASSIGN_BOOKINGS) {
+    return new Error(`Cannot reassign more than ${MAX_REASSIGN_BOOKINGS} bookings at once`);
+  }
+  return ids;
+}
+
+/**
+ * The studio's other trainers, with which of the given bookings each one is
+ * qualified for and free to take. Qualified, most-available trainers first.
+ */
+export async function getReassignCandidates(params: {
+  studioId: string;
+  bookingIds: string[];
+}): Promise<{ data: ReassignCandidate[] | null; error: Error | null }> {
+  try {
+    const bookingIds = normaliseBookingIds(params.bookingIds);
+    if (bookingIds instanceof Error) {
+      return { data: null, error: bookingIds };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: bookings, error: bookingsError } = await supabase
+      .from('ta_bookings')
+      .select('id, trainer_id, service_id, scheduled_at, duration, location_id, status')
+      .in('id', bookingIds)
+      .eq('studio_id', params.studioId);
+
+    if (bookingsError) {
+      return { data: null, error: new Error(bookingsError.message) };
+    }
+    if (!bookings || bookings.length !== bookingIds.length) {
+      return { data: null, error: new Error('Booking not found') };
+    }
+
+    const { data: staff, error: staffError } = await supabase
+      .from('bs_staff')
+      .select('id, first_name, last_name')
+      .eq('studio_id', params.studioId)
+      .in('staff_type', SUBSTITUTE_STAFF_TYPES);
+
+    if (staffError) {
+      return { data: null, error: new Error(staffError.message) };
+    }
+
+    const serviceIds = [...new Set(bookings.map((b: { service_id: string | null }) => b.service_id).filter(Boolean))];
+    const qualifiedByService = new Map<string, Set<string>>();
+    if (serviceIds.length > 0) {
+      const { data: qualifications, error: qualificationError } = await supabase
+        .from('ta_service_trainers')
+        .select('service_id, trainer_id')
+        .in('service_id', serviceIds);
+
+      if (qualificationError) {
+        return { data: null, error: new Error(qualificationError.message) };
+      }
+
+      for (const row of (qualifications || []) as { service_id: string; trainer_id: string }[]) {
+        const trainers = qualifiedByService.get(row.service_id) || new Set<string>();
+        trainers.add(row.trainer_id);
+        qualifiedByService.set(row.service_id, trainers);
+      }
+    }
+
+    const candidates: ReassignCandidate[] = [];
+
+    for (const member of (staff || []) as { id: string; first_name: string | null; last_name: string | null }[]) {
+      if (bookings.every((b: { trainer_id: string }) => b.trainer_id === member.id)) continue;
+
+      const candidate: ReassignCandidate = {
+        trainerId: member.id,
+        trainerName: `${member.first_name || ''} ${member.last_name || ''}`.trim() || 'Trainer',
+        qualified: true,
+        availableBookingIds: [],
+        unavailable: [],
+      };
+
+      for (const booking of bookings) {
+        if (booking.trainer_id === member.id) {
+          candidate.unavailable.push({ bookingId: booking.id, reason: 'Already their session' });
+          continue;
+        }
+        if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+          candidate.unavailable.push({ bookingId: booking.id, reason: `Cannot reassign a booking with status '${booking.status}'` });
+          continue;
+        }
+
+        const qualified = booking.service_id ? qualifiedByService.get(booking.service_id) : undefined;
+        if (qualified && !qualified.has(member.id)) {
+          candidate.qualified = false;
+          candidate.unavailable.push({ bookingId: booking.id, reason: 'Not qualified for this service' });
+          continue;
+        }
+
+        const duration = (booking.duration as number) || 60;
+        const { data: availability, error: availabilityError } = await checkTrainerAvailability({
+          trainerId: member.id,
+          scheduledAt: booking.scheduled_at,
+          durationMinutes: duration,
+          locationId: booking.location_id,
+        });
+        if (availabilityError || (availability && !availability.available)) {
+          candidate.unavailable.push({
+            bookingId: booking.id,
+            reason: availability?.reason || availabilityError?.message || 'Unavailable at this time',
+          });
+          continue;
+        }
+
+        const conflictError = getConflictError(await checkBookingConflicts(
+          member.id,
+          booking.scheduled_at,
+          duration,
+          booking.id,
+          booking.service_id,
+          booking.location_id
+        ));
+        if (conflictError) {
+          candidate.unavailable.push({ bookingId: booking.id, reason: conflictError.message });
+          continue;
+        }
+
+        candidate.availableBookingIds.push(booking.id);
+      }
+
+      candidates.push(candidate);
+    }
+
+    candidates.sort((a, b) =>
+      Number(b.qualified) - Number(a.qualified)
+      || b.availableBookingIds.length - a.availableBookingIds.length
+      || a.trainerName.localeCompare(b.trainerName)
+    );
+
+    return { data: candidates, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Hand several bookings to one trainer. Each booking is reassigned on its
+ * own, so one that can't move doesn't hold up the rest.
+ */
+export async function reassignBookings(params: {
+  studioId: string;
+  bookingIds: string[];
+  trainerId: string;
+  actorId: string | null;
+}): Promise<{ data: ReassignBookingsResult | null; error: Error | null }> {
+  try {
+    const bookingIds = normaliseBookingIds(params.bookingIds);
+    if (bookingIds instanceof Error) {
+      return { data: null, error: bookingIds };
+    }
+    if (!params.trainerId) {
+      return { data: null, error: new Error('trainerId is required') };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: studioBookings, error: fetchError } = await supabase
+      .from('ta_bookings')
+      .select('id')
+      .in('id', bookingIds)
+      .eq('studio_id', params.studioId);
+
+    if (fetchError) {
+      return { data: null, error: new Error(fetchError.message) };
+    }
+
+    const inStudio = new Set((studioBookings || []).map((b: { id: string }) => b.id));
+    const result: ReassignBookingsResult = { succeeded: [], failed: [], warnings: [] };
+
+    for (const bookingId of bookingIds) {
+      if (!inStudio.has(bookingId)) {
+        result.failed.push({ bookingId, error: 'Booking not found' });
+        continue;
+      }
+
+      const { error, warnings } = await reassignBookingTrainer({
+        bookingId,
+        trainerId: params.trainerId,
+        actorId: params.actorId,
+      });
+
+      if (error) {
+        result.failed.push({ bookingId, error: error.message });
+      } else {
+        result.succeeded.push(bookingId);
+        result.warnings.push(...(warnings || []));
+      }
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
 /**
  * Delete (hard) or cancel (soft) a booking by ID.
  */
 export async function deleteBooking(
   bookingId: string,
-  hardDelete: boolean
+  hardDelete: boolean,
+  actor: BookingActor = { source: 'trainer', actorId: null }
 ): Promise<{
   data: { success: boolean; booking?: Record<string, unknown> } | null;
   error: Error | null;
@@ -897,7 +1714,27 @@ export async function deleteBooking(
   try {
     const supabase = createServiceRoleClient();
 
+    // Booking history is kept, so only bookings without any can be deleted outright
+    if (hardDelete) {
+      const { count, error: eventsError } = await supabase
+        .from('ta_booking_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('booking_id', bookingId);
+
+      if (eventsError) {
+        return { data: null, error: new Error(eventsError.message) };
+      }
+      if ((count || 0) > 0) {
+        return { data: null, error: new Error('Bookings with history cannot be deleted; cancel the booking instead') };
+      }
+    }
+
+    await cancelBookingReminders(bookingId);
+
     if (hardDelete) {
+      // Sync links go with the booking, so queue removal of the external copies first
+      await queueBookingCalendarRemoval(bookingId);
+
       const { error } = await supabase
         .from('ta_bookings')
         .delete()
@@ -912,6 +1749,12 @@ export async function deleteBooking(
     }
 
     // Soft delete — set status to 'cancelled'
+    const { data: previous } = await supabase
+      .from('ta_bookings')
+      .select('status')
+      .eq('id', bookingId)
+      .maybeSingle();
+
     const { data: booking, error } = await supabase
       .from('ta_bookings')
       .update({ status: 'cancelled' })
@@ -924,6 +1767,20 @@ export async function deleteBooking(
       return { data: null, error: new Error(error.message) };
     }
 
+    if (previous?.status !== 'cancelled') {
+      await recordBookingEvent({
+        bookingId,
+        eventType: 'cancelled',
+        source: actor.source,
+        actorId: actor.actorId,
+        oldStatus: previous?.status ?? null,
+        newStatus: 'cancelled',
+        metadata: actor.metadata,
+      });
+    }
+
+    await queueBookingCalendarPush(bookingId);
+
     return { data: { success: true, booking }, error: null };
   } catch (err) {
     return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
@@ -0,0 +1,42 @@
+/**
+ * Client-side Calendar Feed Service
+ *
+ * Fetches and rotates the caller's private iCalendar subscription URL
+ */
+
+import type { CalendarFeed } from '@/lib/types/calendar-feed';
+
+/** 'personal' is the caller's own sessions; 'studio' every trainer's (owners/managers) */
+export type CalendarFeedScope = 'personal' | 'studio';
+
+/**
+ * Get the caller's feed URL, created on first request (client-side)
+ */
+export async function getCalendarFeedClient(scope: CalendarFeedScope = 'personal'): Promise<CalendarFeed> {
+  const response = await fetch(`/api/calendar/feeds?scope=${scope}`);
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to fetch calendar feed');
+  }
+
+  return body.feed as CalendarFeed;
+}
+
+/**
+ * Revoke the current feed URL and get a new one (client-side)
+ */
+export async function rotateCalendarFeedClient(scope: CalendarFeedScope = 'personal'): Promise<CalendarFeed> {
+  const response = await fetch('/api/calendar/feeds', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ scope }),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to reset calendar feed');
+  }
+
+  return body.feed as CalendarFeed;
+}
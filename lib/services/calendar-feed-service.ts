@@ -0,0 +1,288 @@
+/**
+ * Calendar Feed Service
+ *
+ * Private iCalendar subscription feeds for trainers, studios and clients.
+ * A feed is addressed by an unguessable token; calendar apps poll the URL
+ * and receive every booking in a rolling window, including cancellations,
+ * so removed and moved sessions disappear from the subscriber's calendar.
+ */
+
+import crypto from 'crypto';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { formatLocationLabel } from '@/lib/services/location-service';
+import { buildIcsCalendar, getBookingEventStatus, getBookingEventUid, type IcsEvent } from '@/lib/utils/ics';
+import type { CalendarFeed, CalendarFeedOwnerType } from '@/lib/types/calendar-feed';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface CalendarFeedRow {
+  id: string;
+  owner_type: CalendarFeedOwnerType;
+  owner_id: string;
+  owner_email: string | null;
+  token: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+interface FeedOwner {
+  ownerType: CalendarFeedOwnerType;
+  ownerId: string;
+  /** Required for client feeds; bookings are matched on it across studios */
+  ownerEmail?: string;
+}
+
+/** Booking columns needed to render an event (see BOOKING_EVENT_COLUMNS) */
+export interface BookingEventRow {
+  id: string;
+  trainer_id: string;
+  scheduled_at: string;
+  duration: number | null;
+  status: string;
+  ics_sequence: number | null;
+  client: { first_name: string | null; last_name: string | null } | null;
+  service: { name: string | null } | null;
+  location: { name: string; address: string | null } | null;
+}
+
+export const BOOKING_EVENT_COLUMNS = `
+  id,
+  trainer_id,
+  scheduled_at,
+  duration,
+  status,
+  ics_sequence,
+  client:fc_clients(first_name, last_name),
+  service:ta_services(name),
+  location:bs_locations(name, address)
+`;
+
+/** Bookings older than this drop out of the feed */
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toCalendarFeed(row: CalendarFeedRow): CalendarFeed {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const url = `${appUrl}/api/calendar/feed/${row.token}.ics`;
+  return {
+    ownerType: row.owner_type,
+    url,
+    webcalUrl: url.replace(/^https?:\/\//, 'webcal://'),
+    createdAt: row.created_at,
+  };
+}
+
+function fullName(person: { first_name: string | null; last_name: string | null } | null, fallback: string): string {
+  if (!person) return fallback;
+  return `${person.first_name || ''} ${person.last_name || ''}`.trim() || fallback;
+}
+
+/** Event title as the feed owner wants to see it */
+function getEventSummary(
+  ownerType: CalendarFeedOwnerType,
+  serviceName: string,
+  clientName: string,
+  trainerName: string
+): string {
+  if (ownerType === 'client') return `${serviceName} with ${trainerName}`;
+  if (ownerType === 'studio') return `${serviceName}: ${clientName} (${trainerName})`;
+  return `${serviceName}: ${clientName}`;
+}
+
+/**
+ * A booking as the given owner's calendar shows it. Also used when pushing
+ * bookings to a trainer's connected calendar, so both copies match.
+ */
+export function toBookingIcsEvent(
+  booking: BookingEventRow,
+  ownerType: CalendarFeedOwnerType,
+  trainerName: string
+): IcsEvent {
+  const start = new Date(booking.scheduled_at);
+  const clientName = fullName(booking.client, 'Client');
+  const serviceName = booking.service?.name || 'Session';
+  return {
+    uid: getBookingEventUid(booking.id),
+    start,
+    end: new Date(start.getTime() + (booking.duration || 60) * 60 * 1000),
+    summary: getEventSummary(ownerType, serviceName, clientName, trainerName),
+    description: ownerType === 'client'
+      ? `Trainer: ${trainerName}`
+      : `Client: ${clientName}\nTrainer: ${trainerName}`,
+    location: formatLocationLabel(booking.location),
+    status: getBookingEventStatus(booking.status),
+    sequence: booking.ics_sequence || 0,
+  };
+}
+
+async function getActiveFeedRow(owner: FeedOwner): Promise<CalendarFeedRow | null> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('ta_calendar_feeds')
+    .select('*')
+    .eq('owner_type', owner.ownerType)
+    .eq('owner_id', owner.ownerId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as CalendarFeedRow | null) || null;
+}
+
+async function insertFeedRow(owner: FeedOwner): Promise<CalendarFeedRow> {
+  if (owner.ownerType === 'client' && !owner.ownerEmail) {
+    throw new Error('An email address is required for a client calendar feed');
+  }
+
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('ta_calendar_feeds')
+    .insert({
+      owner_type: owner.ownerType,
+      owner_id: owner.ownerId,
+      owner_email: owner.ownerType === 'client' ? owner.ownerEmail!.toLowerCase() : null,
+      token: crypto.randomBytes(32).toString('base64url'),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Another request created the owner's feed first — use that one
+    if (error.code === '23505') {
+      const existing = await getActiveFeedRow(owner);
+      if (existing) return existing;
+    }
+    throw new Error(error.message);
+  }
+  return data as CalendarFeedRow;
+}
+
+// ── Service functions ────────────────────────────────────────────────────────
+
+/**
+ * The owner's active feed, created on first use.
+ */
+export async function getOrCreateCalendarFeed(
+  owner: FeedOwner
+): Promise<{ data: CalendarFeed | null; error: Error | null }> {
+  try {
+    const existing = await getActiveFeedRow(owner);
+    const row = existing || (await insertFeedRow(owner));
+    return { data: toCalendarFeed(row), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Revoke the owner's current feed URL and issue a new one, e.g. after the
+ * link was shared by mistake.
+ */
+export async function rotateCalendarFeed(
+  owner: FeedOwner
+): Promise<{ data: CalendarFeed | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { error: revokeError } = await supabase
+      .from('ta_calendar_feeds')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('owner_type', owner.ownerType)
+      .eq('owner_id', owner.ownerId)
+      .is('revoked_at', null);
+
+    if (revokeError) {
+      return { data: null, error: new Error(revokeError.message) };
+    }
+
+    const row = await insertFeedRow(owner);
+    return { data: toCalendarFeed(row), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Render the iCalendar document for a feed token. Revoked and unknown tokens
+ * are reported as not found so they can't be told apart.
+ */
+export async function getCalendarFeedIcs(
+  token: string
+): Promise<{ data: string | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: feedData, error: feedError } = await supabase
+      .from('ta_calendar_feeds')
+      .select('*')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (feedError) {
+      return { data: null, error: new Error(feedError.message) };
+    }
+    const feed = feedData as CalendarFeedRow | null;
+    if (!feed) {
+      return { data: null, error: new Error('Calendar feed not found') };
+    }
+
+    const from = new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+    const to = new Date(Date.now() + FEED_FUTURE_DAYS * 24 * 60 * 60 * 1000);
+
+    let query = supabase
+      .from('ta_bookings')
+      .select(BOOKING_EVENT_COLUMNS)
+      .gte('scheduled_at', from.toISOString())
+      .lte('scheduled_at', to.toISOString())
+      .order('scheduled_at', { ascending: true });
+
+    if (feed.owner_type === 'trainer') {
+      query = query.eq('trainer_id', feed.owner_id);
+    } else if (feed.owner_type === 'studio') {
+      query = query.eq('studio_id', feed.owner_id);
+    } else {
+      const { data: clients, error: clientsError } = await supabase
+        .from('fc_clients')
+        .select('id')
+        .ilike('email', feed.owner_email || '');
+
+      if (clientsError) {
+        return { data: null, error: new Error(clientsError.message) };
+      }
+      const clientIds = (clients || []).map((c: { id: string }) => c.id);
+      if (clientIds.length === 0) {
+        return { data: buildIcsCalendar({ name: 'AllWondrous Sessions', events: [] }), error: null };
+      }
+      query = query.in('client_id', clientIds);
+    }
+
+    const { data: bookingData, error: bookingsError } = await query;
+    if (bookingsError) {
+      return { data: null, error: new Error(bookingsError.message) };
+    }
+    const bookings = (bookingData || []) as unknown as BookingEventRow[];
+
+    const trainerIds = [...new Set(bookings.map((b) => b.trainer_id))];
+    const trainerNames = new Map<string, string>();
+    if (trainerIds.length > 0) {
+      const { data: trainers } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name')
+        .in('id', trainerIds);
+      for (const trainer of trainers || []) {
+        trainerNames.set(trainer.id, fullName(trainer, 'Trainer'));
+      }
+    }
+
+    const events = bookings.map((booking) =>
+      toBookingIcsEvent(booking, feed.owner_type, trainerNames.get(booking.trainer_id) || 'Trainer')
+    );
+
+    const name = feed.owner_type === 'client' ? 'AllWondrous Sessions' : 'AllWondrous Bookings';
+    return { data: buildIcsCalendar({ name, events }), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
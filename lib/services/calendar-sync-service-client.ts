@@ -0,0 +1,139 @@
+/**
+ * Client-side Calendar Sync Service
+ *
+ * Uses API routes to manage the trainer's connected external calendars
+ */
+
+import type {
+  CalendarConnection,
+  CalendarConnectionInput,
+  CalendarProviderId,
+  CalendarSyncResult,
+} from '@/lib/types/calendar-sync';
+
+/**
+ * Database connection shape (snake_case, without credentials)
+ */
+interface DbCalendarConnection {
+  id: string;
+  trainer_id: string;
+  provider: CalendarProviderId;
+  display_name: string;
+  calendar_url: string;
+  username: string;
+  push_enabled: boolean;
+  pull_enabled: boolean;
+  is_active: boolean;
+  last_synced_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+/**
+ * Convert database connection to frontend format
+ */
+function dbToConnection(db: DbCalendarConnection): CalendarConnection {
+  return {
+    id: db.id,
+    trainerId: db.trainer_id,
+    provider: db.provider,
+    displayName: db.display_name,
+    calendarUrl: db.calendar_url,
+    username: db.username,
+    pushEnabled: db.push_enabled,
+    pullEnabled: db.pull_enabled,
+    isActive: db.is_active,
+    lastSyncedAt: db.last_synced_at,
+    lastError: db.last_error,
+    createdAt: db.created_at,
+  };
+}
+
+/**
+ * Get the caller's connected calendars (client-side)
+ */
+export async function getCalendarConnectionsClient(): Promise<CalendarConnection[]> {
+  try {
+    const response = await fetch('/api/calendar/connections');
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching calendar connections:', error);
+      return [];
+    }
+
+    const { connections } = await response.json();
+    return (connections as DbCalendarConnection[]).map(dbToConnection);
+  } catch (error) {
+    console.error('Error fetching calendar connections:', error);
+    return [];
+  }
+}
+
+/**
+ * Connect an external calendar (client-side)
+ */
+export async function createCalendarConnectionClient(input: CalendarConnectionInput): Promise<CalendarConnection> {
+  const response = await fetch('/api/calendar/connections', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to connect calendar');
+  }
+
+  return dbToConnection(body.connection as DbCalendarConnection);
+}
+
+/**
+ * Update a calendar connection (client-side)
+ */
+export async function updateCalendarConnectionClient(
+  connectionId: string,
+  updates: Partial<CalendarConnectionInput>
+): Promise<CalendarConnection> {
+  const response = await fetch(`/api/calendar/connections/${connectionId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to update calendar connection');
+  }
+
+  return dbToConnection(body.connection as DbCalendarConnection);
+}
+
+/**
+ * Disconnect a calendar (client-side)
+ */
+export async function deleteCalendarConnectionClient(connectionId: string): Promise<void> {
+  const response = await fetch(`/api/calendar/connections/${connectionId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const body = await response.json();
+    throw new Error(body.error || 'Failed to disconnect calendar');
+  }
+}
+
+/**
+ * Sync a connection now (client-side). Sync failures are returned on the
+ * connection's lastError rather than thrown.
+ */
+export async function syncCalendarConnectionClient(
+  connectionId: string
+): Promise<{ connection: CalendarConnection; result?: CalendarSyncResult }> {
+  const response = await fetch(`/api/calendar/connections/${connectionId}/sync`, { method: 'POST' });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to sync calendar');
+  }
+
+  return { connection: dbToConnection(body.connection as DbCalendarConnection), result: body.result };
+}
@@ -0,0 +1,798 @@
+/**
+ * Calendar Sync Service
+ *
+ * Two-way sync between a trainer's bookings and their external calendars.
+ * Push: every booking in the sync window is written to each connected
+ * calendar, re-sent when its ics_sequence or status changes and removed
+ * once cancelled. Pull: the external calendar's busy time is imported as
+ * one-off 'blocked' ta_availability rows, replaced wholesale on each pull,
+ * which hides those times from slot pickers and fails conflict checks.
+ * Booking changes only queue a push; processCalendarSyncQueue makes the
+ * calendar calls out of band.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import {
+  BOOKING_EVENT_COLUMNS,
+  toBookingIcsEvent,
+  type BookingEventRow,
+} from '@/lib/services/calendar-feed-service';
+import { getCalendarProvider, type BusyTime, type CalendarCredentials } from '@/lib/calendar-sync';
+import { assertPublicCalendarUrl } from '@/lib/calendar-sync/url-guard';
+import { decryptCredential, encryptCredential } from '@/lib/calendar-sync/credential-crypto';
+import { buildIcsCalendar } from '@/lib/utils/ics';
+import {
+  addDaysToDateKey,
+  getDateKeyDayOfWeek,
+  getZonedDateKey,
+  getZonedParts,
+  parseDateKey,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
+import type {
+  CalendarConnectionInput,
+  CalendarProviderId,
+  CalendarSyncResult,
+} from '@/lib/types/calendar-sync';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** A connection as returned to the browser — never includes the password */
+export interface CalendarConnectionRow {
+  id: string;
+  trainer_id: string;
+  studio_id: string;
+  provider: CalendarProviderId;
+  display_name: string;
+  calendar_url: string;
+  username: string;
+  push_enabled: boolean;
+  pull_enabled: boolean;
+  is_active: boolean;
+  last_synced_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CalendarConnectionSecretRow extends CalendarConnectionRow {
+  /** Legacy plaintext, only on rows saved before encryption; sealed on next read */
+  password: string | null;
+  password_encrypted: string | null;
+}
+
+interface SyncEventRow {
+  booking_id: string;
+  external_id: string;
+  etag: string | null;
+  synced_sequence: number;
+  synced_status: string;
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+const CONNECTION_COLUMNS =
+  'id, trainer_id, studio_id, provider, display_name, calendar_url, username, push_enabled, pull_enabled, is_active, last_synced_at, last_error, created_at, updated_at';
+/** Server-side only: includes the stored credential */
+const SECRET_CONNECTION_COLUMNS = `${CONNECTION_COLUMNS}, password, password_encrypted`;
+
+/** Bookings this far back are still kept in step (late cancellations) */
+const PUSH_PAST_DAYS = 1;
+const PUSH_FUTURE_DAYS = 90;
+/** Busy time is imported this far ahead */
+const PULL_FUTURE_DAYS = 60;
+
+const IMPORTED_BLOCK_REASON = 'Busy in external calendar';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toCredentials(row: CalendarConnectionSecretRow): CalendarCredentials {
+  const password = row.password_encrypted ? decryptCredential(row.password_encrypted) : row.password || '';
+  return { calendarUrl: row.calendar_url, username: row.username, password };
+}
+
+/** Encrypt a plaintext password left over from before encryption and clear the plaintext */
+async function sealLegacyPassword(row: CalendarConnectionSecretRow): Promise<CalendarConnectionSecretRow> {
+  if (row.password_encrypted || !row.password) return row;
+
+  const sealed = encryptCredential(row.password);
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from('ta_calendar_connections')
+    .update({ password_encrypted: sealed, password: null })
+    .eq('id', row.id);
+
+  if (error) throw new Error(error.message);
+  return { ...row, password: null, password_encrypted: sealed };
+}
+
+async function validateCalendarUrl(url: string): Promise<string | null> {
+  try {
+    await assertPublicCalendarUrl(url);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Calendar URL is not allowed';
+  }
+}
+
+async function getConnectionWithSecret(connectionId: string): Promise<CalendarConnectionSecretRow | null> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('ta_calendar_connections')
+    .select(SECRET_CONNECTION_COLUMNS)
+    .eq('id', connectionId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? sealLegacyPassword(data as CalendarConnectionSecretRow) : null;
+}
+
+async function getTrainerName(trainerId: string): Promise<string> {
+  const supabase = createServiceRoleClient();
+  const { data } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', trainerId)
+    .maybeSingle();
+  return data ? `${data.first_name || ''} ${data.last_name || ''}`.trim() || 'Trainer' : 'Trainer';
+}
+
+/**
+ * Split busy periods into per-day wall-clock rows in the trainer's zone, the
+ * shape ta_availability uses for one-off blocks. A period running to
+ * midnight ends at 23:59 since blocks can't cross into the next day.
+ */
+export function busyTimesToAvailabilityRows(
+  busy: BusyTime[],
+  context: { trainerId: string; studioId: string; connectionId: string; timezone: string }
+): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  const { timezone } = context;
+
+  for (const period of busy) {
+    const lastKey = getZonedDateKey(new Date(period.end.getTime() - 1), timezone);
+    for (let dateKey = getZonedDateKey(period.start, timezone); dateKey <= lastKey; dateKey = addDaysToDateKey(dateKey, 1)) {
+      const dayStart = zonedTimeToUtc(parseDateKey(dateKey), timezone);
+      const dayEnd = zonedTimeToUtc(parseDateKey(addDaysToDateKey(dateKey, 1)), timezone);
+      const segmentStart = period.start > dayStart ? period.start : dayStart;
+      const segmentEnd = period.end < dayEnd ? period.end : dayEnd;
+      if (segmentEnd <= segmentStart) continue;
+
+      const startParts = getZonedParts(segmentStart, timezone);
+      const endParts = segmentEnd >= dayEnd ? { hour: 23, minute: 59 } : getZonedParts(segmentEnd, timezone);
+
+      rows.push({
+        trainer_id: context.trainerId,
+        studio_id: context.studioId,
+        block_type: 'blocked',
+        recurrence: 'once',
+        day_of_week: getDateKeyDayOfWeek(dateKey),
+        specific_date: dateKey,
+        start_hour: startParts.hour,
+        start_minute: startParts.minute,
+        end_hour: endParts.hour,
+        end_minute: endParts.minute,
+        reason: IMPORTED_BLOCK_REASON,
+        source: 'calendar_sync',
+        calendar_connection_id: context.connectionId,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/** Write bookings to one connection's calendar and drop cancelled ones */
+async function pushBookings(
+  connection: CalendarConnectionSecretRow,
+  bookings: BookingEventRow[],
+  trainerName: string
+): Promise<{ pushed: number; removed: number }> {
+  const provider = getCalendarProvider(connection.provider);
+  if (!provider) throw new Error(`Unknown calendar provider: ${connection.provider}`);
+
+  const supabase = createServiceRoleClient();
+  const credentials = toCredentials(connection);
+
+  const { data: linkRows, error: linksError } = bookings.length > 0
+    ? await supabase
+        .from('ta_calendar_sync_events')
+        .select('booking_id, external_id, etag, synced_sequence, synced_status')
+        .eq('connection_id', connection.id)
+        .in('booking_id', bookings.map((b) => b.id))
+    : { data: [], error: null };
+
+  if (linksError) throw new Error(linksError.message);
+  const links = new Map(((linkRows || []) as SyncEventRow[]).map((link) => [link.booking_id, link]));
+
+  let pushed = 0;
+  let removed = 0;
+
+  for (const booking of bookings) {
+    const link = links.get(booking.id);
+    const sequence = booking.ics_sequence || 0;
+
+    if (booking.status === 'cancelled') {
+      if (!link) continue;
+      await provider.deleteEvent(credentials, { externalId: link.external_id, etag: link.etag });
+      await supabase
+        .from('ta_calendar_sync_events')
+        .delete()
+        .eq('connection_id', connection.id)
+        .eq('booking_id', booking.id);
+      removed++;
+      continue;
+    }
+
+    if (link && link.synced_sequence === sequence && link.synced_status === booking.status) continue;
+
+    const event = toBookingIcsEvent(booking, 'trainer', trainerName);
+    const ref = await provider.putEvent(
+      credentials,
+      { uid: event.uid, ics: buildIcsCalendar({ events: [event] }) },
+      link ? { externalId: link.external_id, etag: link.etag } : null
+    );
+
+    const { error: upsertError } = await supabase
+      .from('ta_calendar_sync_events')
+      .upsert({
+        connection_id: connection.id,
+        booking_id: booking.id,
+        external_id: ref.externalId,
+        etag: ref.etag,
+        synced_sequence: sequence,
+        synced_status: booking.status,
+        synced_at: new Date().toISOString(),
+      }, { onConflict: 'connection_id,booking_id' });
+
+    if (upsertError) throw new Error(upsertError.message);
+    pushed++;
+  }
+
+  return { pushed, removed };
+}
+
+/** Replace a connection's imported busy time with a fresh read */
+async function pullBusyTimes(connection: CalendarConnectionSecretRow): Promise<number> {
+  const provider = getCalendarProvider(connection.provider);
+  if (!provider) throw new Error(`Unknown calendar provider: ${connection.provider}`);
+
+  const timezone = await getTrainerTimezone(connection.trainer_id);
+  const from = zonedTimeToUtc(parseDateKey(getZonedDateKey(new Date(), timezone)), timezone);
+  const to = new Date(from.getTime() + PULL_FUTURE_DAYS * 24 * 60 * 60 * 1000);
+
+  const busy = await provider.listBusyTimes(toCredentials(connection), from, to, timezone);
+  const rows = busyTimesToAvailabilityRows(busy, {
+    trainerId: connection.trainer_id,
+    studioId: connection.studio_id,
+    connectionId: connection.id,
+    timezone,
+  });
+
+  const supabase = createServiceRoleClient();
+  const { error: deleteError } = await supabase
+    .from('ta_availability')
+    .delete()
+    .eq('calendar_connection_id', connection.id);
+
+  if (deleteError) throw new Error(deleteError.message);
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from('ta_availability').insert(rows);
+    if (insertError) throw new Error(insertError.message);
+  }
+
+  return busy.length;
+}
+
+// ── Service functions ────────────────────────────────────────────────────────
+
+/**
+ * A trainer's connected calendars.
+ */
+export async function getCalendarConnections(
+  trainerId: string
+): Promise<{ data: CalendarConnectionRow[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('ta_calendar_connections')
+      .select(CONNECTION_COLUMNS)
+      .eq('trainer_id', trainerId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as CalendarConnectionRow[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Connect an external calendar after checking the credentials work, then run
+ * a first sync so busy time is blocked straight away.
+ */
+export async function createCalendarConnection(
+  trainerId: string,
+  studioId: string,
+  input: CalendarConnectionInput
+): Promise<{ data: CalendarConnectionRow | null; error: Error | null }> {
+  try {
+    const providerId = input.provider || 'caldav';
+    const provider = getCalendarProvider(providerId);
+    if (!provider) {
+      return { data: null, error: new Error(`Calendar provider must be one of: caldav`) };
+    }
+    if (!input.calendarUrl?.trim() || !input.username?.trim() || !input.password) {
+      return { data: null, error: new Error('Calendar URL, username and password are required') };
+    }
+    const urlError = await validateCalendarUrl(input.calendarUrl.trim());
+    if (urlError) {
+      return { data: null, error: new Error(urlError) };
+    }
+
+    const credentials = {
+      calendarUrl: input.calendarUrl.trim(),
+      username: input.username.trim(),
+      password: input.password,
+    };
+    await provider.verify(credentials);
+
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('ta_calendar_connections')
+      .insert({
+        trainer_id: trainerId,
+        studio_id: studioId,
+        provider: providerId,
+        display_name: input.displayName?.trim() || new URL(credentials.calendarUrl).hostname,
+        calendar_url: credentials.calendarUrl,
+        username: credentials.username,
+        password_encrypted: encryptCredential(credentials.password),
+        push_enabled: input.pushEnabled ?? true,
+        pull_enabled: input.pullEnabled ?? true,
+      })
+      .select(CONNECTION_COLUMNS)
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const { data: synced } = await syncCalendarConnection(data.id);
+    return { data: synced || (data as CalendarConnectionRow), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Change a connection's name, direction toggles or credentials. New
+ * credentials are verified before they are saved.
+ */
+export async function updateCalendarConnection(
+  trainerId: string,
+  connectionId: string,
+  updates: Partial<CalendarConnectionInput>
+): Promise<{ data: CalendarConnectionRow | null; error: Error | null }> {
+  try {
+    const existing = await getConnectionWithSecret(connectionId);
+    if (!existing || existing.trainer_id !== trainerId || !existing.is_active) {
+      return { data: null, error: new Error('Calendar connection not found') };
+    }
+
+    const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (updates.displayName !== undefined) updateData.display_name = updates.displayName.trim() || existing.display_name;
+    if (updates.pushEnabled !== undefined) updateData.push_enabled = updates.pushEnabled;
+    if (updates.pullEnabled !== undefined) updateData.pull_enabled = updates.pullEnabled;
+
+    if (updates.calendarUrl !== undefined || updates.username !== undefined || updates.password) {
+      const credentials = {
+        calendarUrl: updates.calendarUrl?.trim() || existing.calendar_url,
+        username: updates.username?.trim() || existing.username,
+        password: updates.password || toCredentials(existing).password,
+      };
+      const urlError = await validateCalendarUrl(credentials.calendarUrl);
+      if (urlError) {
+        return { data: null, error: new Error(urlError) };
+      }
+      const provider = getCalendarProvider(existing.provider);
+      if (!provider) {
+        return { data: null, error: new Error(`Unknown calendar provider: ${existing.provider}`) };
+      }
+      await provider.verify(credentials);
+      updateData.calendar_url = credentials.calendarUrl;
+      updateData.username = credentials.username;
+      updateData.password_encrypted = encryptCredential(credentials.password);
+      updateData.password = null;
+    }
+
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('ta_calendar_connections')
+      .update(updateData)
+      .eq('id', connectionId)
+      .select(CONNECTION_COLUMNS)
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    // Turning import off releases the blocked time straight away
+    if (updates.pullEnabled === false) {
+      await supabase.from('ta_availability').delete().eq('calendar_connection_id', connectionId);
+    }
+
+    return { data: data as CalendarConnectionRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Disconnect a calendar. Imported busy time is removed with it; events
+ * already pushed stay in the external calendar.
+ */
+export async function deleteCalendarConnection(
+  trainerId: string,
+  connectionId: string
+): Promise<{ error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('ta_calendar_connections')
+      .delete()
+      .eq('id', connectionId)
+      .eq('trainer_id', trainerId)
+      .select('id');
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+    if (!data || data.length === 0) {
+      return { error: new Error('Calendar connection not found') };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Run a full sync of one connection: push bookings in the sync window, then
+ * re-import busy time. The outcome is recorded on the connection
+ * (last_synced_at / last_error) so the settings page can show it.
+ */
+export async function syncCalendarConnection(
+  connectionId: string
+): Promise<{ data: CalendarConnectionRow | null; result?: CalendarSyncResult; error: Error | null }> {
+  const supabase = createServiceRoleClient();
+  const result: CalendarSyncResult = { pushed: 0, removed: 0, imported: 0 };
+  let syncError: Error | null = null;
+
+  try {
+    const connection = await getConnectionWithSecret(connectionId);
+    if (!connection || !connection.is_active) {
+      return { data: null, error: new Error('Calendar connection not found') };
+    }
+
+    try {
+      if (connection.push_enabled) {
+        const now = Date.now();
+        const { data: bookingData, error: bookingsError } = await supabase
+          .from('ta_bookings')
+          .select(BOOKING_EVENT_COLUMNS)
+          .eq('trainer_id', connection.trainer_id)
+          .gte('scheduled_at', new Date(now - PUSH_PAST_DAYS * 24 * 60 * 60 * 1000).toISOString())
+          .lte('scheduled_at', new Date(now + PUSH_FUTURE_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+        if (bookingsError) throw new Error(bookingsError.message);
+
+        const trainerName = await getTrainerName(connection.trainer_id);
+        const counts = await pushBookings(connection, (bookingData || []) as unknown as BookingEventRow[], trainerName);
+        result.pushed = counts.pushed;
+        result.removed = counts.removed;
+      }
+
+      if (connection.pull_enabled) {
+        result.imported = await pullBusyTimes(connection);
+      }
+    } catch (err) {
+      syncError = err instanceof Error ? err : new Error(String(err));
+    }
+
+    const { data, error } = await supabase
+      .from('ta_calendar_connections')
+      .update({
+        last_error: syncError ? syncError.message : null,
+        ...(syncError ? {} : { last_synced_at: new Date().toISOString() }),
+      })
+      .eq('id', connectionId)
+      .select(CONNECTION_COLUMNS)
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as CalendarConnectionRow, result, error: syncError };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Sync every active connection — run on a schedule so busy time stays
+ * current and any pushes the queue gave up on are caught up.
+ */
+export async function syncAllCalendarConnections(): Promise<{
+  data: { processed: number; failed: number; errors: string[] } | null;
+  error: Error | null;
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data: connections, error } = await supabase
+      .from('ta_calendar_connections')
+      .select('id')
+      .eq('is_active', true);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const summary = { processed: 0, failed: 0, errors: [] as string[] };
+    for (const connection of connections || []) {
+      summary.processed++;
+      const { error: syncError } = await syncCalendarConnection(connection.id);
+      if (syncError) {
+        summary.failed++;
+        summary.errors.push(`${connection.id}: ${syncError.message}`);
+      }
+    }
+
+    return { data: summary, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Queue a push of one booking to its trainer's connected calendars after it
+ * changes. The calendar calls happen in processCalendarSyncQueue, so a slow
+ * calendar server never holds up the booking change itself.
+ */
+export async function queueBookingCalendarPush(bookingId: string): Promise<void> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase
+      .from('ta_calendar_sync_queue')
+      .insert({ action: 'push', booking_id: bookingId });
+
+    // Already queued: bump it so the pending push isn't cleared by a run that
+    // read the booking before this change
+    if (error?.code === '23505') {
+      await supabase
+        .from('ta_calendar_sync_queue')
+        .update({ queued_at: new Date().toISOString() })
+        .eq('booking_id', bookingId)
+        .eq('action', 'push')
+        .eq('status', 'pending');
+    } else if (error) {
+      console.error('Error queueing calendar push:', error);
+    }
+  } catch (err) {
+    console.error('Error queueing calendar push:', err);
+  }
+}
+
+/**
+ * Queue removal of a booking's events from every connected calendar, for
+ * bookings that are about to be deleted outright rather than cancelled. The
+ * pushed event references are copied into the queue before the booking (and
+ * its sync links) go.
+ */
+export async function queueBookingCalendarRemoval(bookingId: string): Promise<void> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data: links, error: linksError } = await supabase
+      .from('ta_calendar_sync_events')
+      .select('connection_id, external_id, etag')
+      .eq('booking_id', bookingId);
+
+    if (linksError) {
+      console.error('Error reading calendar links for removal:', linksError);
+      return;
+    }
+    if (!links || links.length === 0) return;
+
+    const { error } = await supabase.from('ta_calendar_sync_queue').insert(
+      links.map((link: { connection_id: string; external_id: string; etag: string | null }) => ({
+        action: 'remove',
+        booking_id: bookingId,
+        connection_id: link.connection_id,
+        external_id: link.external_id,
+        etag: link.etag,
+      }))
+    );
+
+    if (error) {
+      console.error('Error queueing calendar removal:', error);
+    }
+  } catch (err) {
+    console.error('Error queueing calendar removal:', err);
+  }
+}
+
+interface SyncQueueRow {
+  id: string;
+  action: 'push' | 'remove';
+  booking_id: string;
+  connection_id: string | null;
+  external_id: string | null;
+  etag: string | null;
+  attempt_count: number;
+  max_attempts: number;
+  queued_at: string;
+}
+
+/** Push one booking to every connection that takes pushes; throws on the first failure */
+async function runQueuedPush(bookingId: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const { data: booking, error: bookingError } = await supabase
+    .from('ta_bookings')
+    .select(BOOKING_EVENT_COLUMNS)
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (bookingError) throw new Error(bookingError.message);
+  // Deleted since it was queued: a removal covers it
+  if (!booking) return;
+  const bookingRow = booking as unknown as BookingEventRow;
+
+  const { data: connections, error: connectionsError } = await supabase
+    .from('ta_calendar_connections')
+    .select(SECRET_CONNECTION_COLUMNS)
+    .eq('trainer_id', bookingRow.trainer_id)
+    .eq('is_active', true)
+    .eq('push_enabled', true);
+
+  if (connectionsError) throw new Error(connectionsError.message);
+  if (!connections || connections.length === 0) return;
+
+  const trainerName = await getTrainerName(bookingRow.trainer_id);
+  const failures: string[] = [];
+  for (const connection of connections as unknown as CalendarConnectionSecretRow[]) {
+    try {
+      // Unchanged bookings are skipped, so retrying after a partial failure is safe
+      await pushBookings(await sealLegacyPassword(connection), [bookingRow], trainerName);
+    } catch (err) {
+      failures.push(`${connection.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (failures.length > 0) throw new Error(failures.join('; '));
+}
+
+async function runQueuedRemoval(row: SyncQueueRow): Promise<void> {
+  if (!row.connection_id || !row.external_id) return;
+  const connection = await getConnectionWithSecret(row.connection_id);
+  const provider = connection && getCalendarProvider(connection.provider);
+  // Disconnected since: its events are left in place, as on disconnect
+  if (!connection || !connection.is_active || !provider) return;
+  await provider.deleteEvent(toCredentials(connection), { externalId: row.external_id, etag: row.etag });
+}
+
+/**
+ * Work through queued calendar pushes and removals, oldest first. Failed
+ * items are retried on later runs up to max_attempts, then kept as 'failed'
+ * for the record; the scheduled full sync still reconciles pushes.
+ */
+export async function processCalendarSyncQueue(batchSize = 50): Promise<{
+  data: { processed: number; failed: number; errors: string[] } | null;
+  error: Error | null;
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { data: rows, error } = await supabase
+      .from('ta_calendar_sync_queue')
+      .select('id, action, booking_id, connection_id, external_id, etag, attempt_count, max_attempts, queued_at')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(batchSize);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const summary = { processed: 0, failed: 0, errors: [] as string[] };
+    for (const row of (rows || []) as SyncQueueRow[]) {
+      summary.processed++;
+      try {
+        if (row.action === 'push') {
+          await runQueuedPush(row.booking_id);
+        } else {
+          await runQueuedRemoval(row);
+        }
+
+        // A push queued again mid-run keeps its row for the next run
+        await supabase
+          .from('ta_calendar_sync_queue')
+          .delete()
+          .eq('id', row.id)
+          .eq('queued_at', row.queued_at);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const attempts = row.attempt_count + 1;
+        summary.failed++;
+        summary.errors.push(`${row.action} ${row.booking_id}: ${message}`);
+        await supabase
+          .from('ta_calendar_sync_queue')
+          .update({
+            attempt_count: attempts,
+            error_message: message,
+            ...(attempts >= row.max_attempts ? { status: 'failed' } : {}),
+          })
+          .eq('id', row.id);
+      }
+    }
+
+    return { data: summary, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Busy time imported from a trainer's external calendars that overlaps a
+ * window, as instants. Feeds the booking conflict check.
+ */
+export async function getImportedBusyIntervals(
+  trainerId: string,
+  from: Date,
+  to: Date
+): Promise<{ data: BusyInterval[]; error: Error | null }> {
+  try {
+    const timezone = await getTrainerTimezone(trainerId);
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase
+      .from('ta_availability')
+      .select('specific_date, start_hour, start_minute, end_hour, end_minute')
+      .eq('trainer_id', trainerId)
+      .eq('source', 'calendar_sync')
+      .eq('block_type', 'blocked')
+      .gte('specific_date', getZonedDateKey(from, timezone))
+      .lte('specific_date', getZonedDateKey(to, timezone));
+
+    if (error) {
+      return { data: [], error: new Error(error.message) };
+    }
+
+    const intervals = (data || []).map((row: {
+      specific_date: string;
+      start_hour: number;
+      start_minute: number | null;
+      end_hour: number;
+      end_minute: number | null;
+    }) => {
+      const wallDate = parseDateKey(row.specific_date);
+      return {
+        start: zonedTimeToUtc({ ...wallDate, hour: row.start_hour, minute: row.start_minute || 0 }, timezone),
+        end: zonedTimeToUtc({ ...wallDate, hour: row.end_hour, minute: row.end_minute || 0 }, timezone),
+      };
+    });
+
+    return { data: intervals.filter((i: BusyInterval) => i.start < to && i.end > from), error: null };
+  } catch (err) {
+    return { data: [], error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
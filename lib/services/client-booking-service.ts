@@ -1,7 +1,24 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { getStudioConfig, isWithinOpeningHours } from '@/lib/services/studio-service';
 import type { StudioConfig } from '@/lib/services/studio-service';
-import { createBookingRequest } from '@/lib/services/booking-request-service';
+import { createBookingRequest, updateBookingRequest } from '@/lib/services/booking-request-service';
+import {
+  isWaitlistEnabled,
+  joinWaitlist,
+  offerNextWaitlistPlace,
+} from '@/lib/services/waitlist-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import { checkServiceIntakeAnswers, saveIntakeAnswers } from '@/lib/services/intake-service';
+import { applySimpleCreditEntry, refundBookingCredits } from '@/lib/services/credit-ledger-service';
+import { checkSlotCapacity } from '@/lib/services/group-class-service';
+import { queueBookingCalendarPush } from '@/lib/services/calendar-sync-service';
+import { rescheduleBooking } from '@/lib/services/booking-service';
+import { cancelBookingReminders, queueBookingReminders } from '@/lib/services/booking-reminder-service';
+import { hasFailingMembership } from '@/lib/services/membership-service';
+import { getEffectiveOpeningHours, getLocation } from '@/lib/services/location-service';
+import type { ClientBookingRequest } from '@/lib/types/booking-request';
+import type { IntakeAnswerInput } from '@/lib/types/intake';
+import type { BookingTimeProposal } from '@/lib/types/leave';
 
 // =============================================
 // Types
@@ -15,18 +32,26 @@ interface ClientBooking {
   serviceName: string;
   trainerName: string;
   holdExpiry?: string;
+  serviceId?: string;
+  trainerId?: string;
+  /** The studio's policy lets the client move this booking themselves */
+  canReschedule?: boolean;
 }
 
 interface CreateClientBookingInput {
   serviceId: string;
   trainerId: string;
   scheduledAt: string;
+  /** Answers to the service's intake questions */
+  intakeAnswers?: IntakeAnswerInput[];
 }
 
 interface CreateClientBookingResult {
-  type: 'booking' | 'request';
+  type: 'booking' | 'request' | 'waitlist';
   booking?: ClientBooking;
   requestId?: string;
+  waitlistEntryId?: string;
+  waitlistPosition?: number;
   remainingCredits: number;
 }
 
@@ -35,10 +60,70 @@ interface CancelBookingResult {
   creditsRefunded: number;
 }
 
+interface RescheduleBookingResult {
+  booking: ClientBooking;
+  reschedulesRemaining: number;
+}
+
+interface AcceptWaitlistOfferResult {
+  booking: ClientBooking;
+  remainingCredits: number;
+}
+
+interface AcceptTimeProposalResult {
+  booking: ClientBooking;
+}
+
+interface AcceptSuggestedTimeResult {
+  booking: ClientBooking;
+  trainerId: string;
+  clientName: string;
+}
+
 // =============================================
 // Helpers
 // =============================================
 
+/** Statuses a client may move themselves */
+const RESCHEDULABLE_STATUSES = ['confirmed', 'soft-hold'];
+
+/** Used when the studio hasn't set cancellation_policy.max_reschedules */
+const DEFAULT_MAX_RESCHEDULES = 2;
+
+function rescheduleLimitMessage(maxReschedules: number): string {
+  return `This booking has already been rescheduled ${maxReschedules} time${maxReschedules === 1 ? '' : 's'}, which is the most allowed`;
+}
+
+/**
+ * Why the studio's policy stops the client moving this booking, or null if
+ * they can. Rescheduling shares the cancellation window, since moving a
+ * session late frees the slot just as late as cancelling it.
+ */
+function getRescheduleBlockReason(
+  booking: { status: string; scheduled_at: string; reschedule_count: number | null },
+  config: StudioConfig | null
+): string | null {
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return 'Only upcoming confirmed bookings can be rescheduled';
+  }
+
+  const maxReschedules = config?.cancellation_policy?.max_reschedules ?? DEFAULT_MAX_RESCHEDULES;
+  if (maxReschedules <= 0) {
+    return 'Your studio does not allow bookings to be rescheduled online. Please contact your trainer.';
+  }
+  if ((booking.reschedule_count || 0) >= maxReschedules) {
+    return rescheduleLimitMessage(maxReschedules);
+  }
+
+  const windowHours = config?.cancellation_window_hours ?? 24;
+  const hoursUntilSession = (new Date(booking.scheduled_at).getTime() - Date.now()) / (1000 * 60 * 60);
+  if (hoursUntilSession < windowHours) {
+    return `Cannot reschedule within ${windowHours} hours of scheduled time`;
+  }
+
+  return null;
+}
+
 /** Build the lookup IDs for a client to validate studio membership. */
 async function buildLookupIds(
   supabase: ReturnType<typeof createServiceRoleClient>,
@@ -131,51 +216,104 @@ async function validateTrainer(
   return false;
 }
 
-/** Check for booking time conflicts. Cleans expired soft-holds first. */
+/**
+ * Check for booking time conflicts. Soft-holds past hold_expiry don't count.
+ * A group class only conflicts once it has reached the service's max_capacity.
+ * Returns an error when the check itself failed, so callers don't book blind.
+ */
 async function checkBookingConflicts(
-  supabase: ReturnType<typeof createServiceRoleClient>,
   trainerId: string,
   scheduledAt: string,
-  durationMinutes: number
-): Promise<boolean> {
-  // Clean up expired soft-holds before checking conflicts
-  await supabase
-    .from('ta_bookings')
-    .update({ status: 'cancelled' })
-    .eq('status', 'soft-hold')
-    .lt('hold_expiry', new Date().toISOString());
-
-  const scheduledDate = new Date(scheduledAt);
-  const endTime = new Date(scheduledDate.getTime() + durationMinutes * 60 * 1000);
+  durationMinutes: number,
+  serviceId: string,
+  options: { excludeBookingId?: string; locationId?: string | null } = {}
+): Promise<{ hasConflict: boolean; error: Error | null }> {
+  const { data, error } = await checkSlotCapacity({ trainerId, scheduledAt, durationMinutes, serviceId, ...options });
+  if (error || !data) {
+    return { hasConflict: true, error: new Error(`Could not check for conflicts: ${error?.message || 'no result'}`) };
+  }
+  return { hasConflict: data.hasConflict, error: null };
+}
 
-  const { data: conflicts } = await supabase
-    .from('ta_bookings')
-    .select('id')
-    .eq('trainer_id', trainerId)
-    .in('status', ['confirmed', 'soft-hold', 'checked-in'])
-    .lt('scheduled_at', endTime.toISOString())
-    .gte('scheduled_at', new Date(scheduledDate.getTime() - 120 * 60 * 1000).toISOString());
+/** Total credits available to a client: active unexpired packages, or simple credits if none. */
+async function getAvailableCredits(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  clientId: string,
+  simpleCredits: number
+): Promise<{ totalCredits: number; hasPackages: boolean }> {
+  const { data: packages } = await supabase
+    .from('ta_client_packages')
+    .select('id, sessions_remaining')
+    .eq('client_id', clientId)
+    .eq('status', 'active')
+    .gt('sessions_remaining', 0)
+    .gt('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: true });
 
-  if (!conflicts || conflicts.length === 0) return false;
+  const packageCredits = (packages || []).reduce((sum: number, p: Record<string, unknown>) => sum + (p.sessions_remaining as number), 0);
+  const hasPackages = !!packages && packages.length > 0;
 
-  const { data: existingBookings } = await supabase
-    .from('ta_bookings')
-    .select('id, scheduled_at, duration')
-    .eq('trainer_id', trainerId)
-    .in('status', ['confirmed', 'soft-hold', 'checked-in'])
-    .gte('scheduled_at', new Date(scheduledDate.getTime() - 120 * 60 * 1000).toISOString())
-    .lte('scheduled_at', endTime.toISOString());
+  return { totalCredits: hasPackages ? packageCredits : simpleCredits, hasPackages };
+}
 
-  for (const booking of existingBookings || []) {
-    const bookingStart = new Date(booking.scheduled_at as string);
-    const bookingEnd = new Date(bookingStart.getTime() + (booking.duration as number) * 60 * 1000);
+/**
+ * Deduct credits for a booking from packages (via deduct_client_credit) or simple credits.
+ * Returns the client's remaining credits. The caller rolls back the booking on error.
+ */
+async function deductBookingCredits(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  params: {
+    clientId: string;
+    trainerId: string;
+    bookingId: string;
+    creditsRequired: number;
+    hasPackages: boolean;
+    simpleCredits: number;
+  }
+): Promise<{ remainingCredits: number; error: Error | null; status?: number }> {
+  if (params.hasPackages) {
+    const { error: deductError } = await supabase.rpc('deduct_client_credit', {
+      p_client_id: params.clientId,
+      p_trainer_id: params.trainerId,
+      p_booking_id: params.bookingId,
+      p_credits: params.creditsRequired,
+    });
 
-    if (scheduledDate < bookingEnd && endTime > bookingStart) {
-      return true;
+    if (deductError) {
+      return { remainingCredits: 0, error: new Error('Failed to process credits'), status: 500 };
     }
+
+    const { data: updatedPackages } = await supabase
+      .from('ta_client_packages')
+      .select('sessions_remaining')
+      .eq('client_id', params.clientId)
+      .eq('status', 'active')
+      .gt('sessions_remaining', 0);
+
+    return {
+      remainingCredits: (updatedPackages || []).reduce((sum: number, p: Record<string, unknown>) => sum + (p.sessions_remaining as number), 0),
+      error: null,
+    };
   }
 
-  return false;
+  // Atomic, so two concurrent bookings can't both spend the same balance
+  const { data: newBalance, error: updateError } = await applySimpleCreditEntry(params.clientId, {
+    entryType: 'use',
+    credits: -params.creditsRequired,
+    reason: 'booking',
+    bookingId: params.bookingId,
+    notes: 'Simple credit deduction',
+  });
+
+  if (updateError) {
+    const insufficient = updateError.message?.includes('Insufficient');
+    const msg = insufficient
+      ? `Insufficient credits. You have ${params.simpleCredits} credits but need ${params.creditsRequired}.`
+      : 'Failed to process credits';
+    return { remainingCredits: 0, error: new Error(msg), status: insufficient ? 400 : 500 };
+  }
+
+  return { remainingCredits: newBalance as number, error: null };
 }
 
 // =============================================
@@ -204,6 +342,9 @@ export async function getClientBookings(userEmail: string) {
       duration,
       status,
       hold_expiry,
+      reschedule_count,
+      studio_id,
+      service_id,
       ta_services(name),
       trainer_id
     `)
@@ -227,6 +368,13 @@ export async function getClientBookings(userEmail: string) {
     ])
   );
 
+  // Reschedule eligibility depends on each booking's studio policy
+  const studioIds = [...new Set<string>((bookings || []).map((b: Record<string, unknown>) => b.studio_id as string))];
+  const studioConfigs = new Map<string, StudioConfig | null>();
+  for (const studioId of studioIds.filter(Boolean)) {
+    studioConfigs.set(studioId, (await getStudioConfig(studioId)).data);
+  }
+
   const result: ClientBooking[] = (bookings || []).map((b: Record<string, unknown>) => ({
     id: b.id as string,
     scheduledAt: b.scheduled_at as string,
@@ -235,6 +383,12 @@ export async function getClientBookings(userEmail: string) {
     serviceName: (b.ta_services as { name?: string } | null)?.name || 'Session',
     trainerName: trainerMap.get(b.trainer_id as string) || 'Trainer',
     ...(b.hold_expiry ? { holdExpiry: b.hold_expiry as string } : {}),
+    serviceId: b.service_id as string,
+    trainerId: b.trainer_id as string,
+    canReschedule: !!b.service_id && getRescheduleBlockReason(
+      b as { status: string; scheduled_at: string; reschedule_count: number | null },
+      studioConfigs.get(b.studio_id as string) ?? null
+    ) === null,
   }));
 
   return { data: result, error: null };
@@ -247,10 +401,11 @@ export async function getClientBookings(userEmail: string) {
 /** Create a booking for a client. Validates studio membership, trainer, credits, and conflicts. */
 export async function createClientBooking(
   userEmail: string,
-  input: CreateClientBookingInput
+  input: CreateClientBookingInput,
+  actorId?: string
 ): Promise<{ data: CreateClientBookingResult | null; error: Error | null; status?: number }> {
   const supabase = createServiceRoleClient();
-  const { serviceId, trainerId, scheduledAt } = input;
+  const { serviceId, trainerId, scheduledAt, intakeAnswers } = input;
 
   // Find client
   const { data: client } = await supabase
@@ -267,6 +422,14 @@ export async function createClientBooking(
     return { data: null, error: new Error('Self-booking is not enabled for your account. Please contact your studio.'), status: 403 };
   }
 
+  if (await hasFailingMembership(client.id)) {
+    return {
+      data: null,
+      error: new Error('Booking is paused until your membership payment goes through. Please update your payment details in the shop.'),
+      status: 403,
+    };
+  }
+
   // Fetch studio config for booking model, opening hours, and cancellation settings
   let clientStudioConfig: StudioConfig | null = null;
   if (client.studio_id) {
@@ -280,7 +443,7 @@ export async function createClientBooking(
   // Validate service (fetch before booking model check so we can check requires_approval)
   const { data: service, error: serviceError } = await supabase
     .from('ta_services')
-    .select('id, name, duration, credits_required, studio_id, created_by, is_active, is_public, requires_approval')
+    .select('id, name, duration, credits_required, studio_id, created_by, is_active, is_public, requires_approval, location_id')
     .eq('id', serviceId)
     .single();
 
@@ -300,6 +463,15 @@ export async function createClientBooking(
     return { data: null, error: new Error('This service is not available for booking'), status: 400 };
   }
 
+  const { data: answers, error: intakeError } = await checkServiceIntakeAnswers(serviceId, intakeAnswers);
+  if (intakeError || !answers) {
+    const invalid = !!intakeError?.message.startsWith('Please ');
+    return { data: null, error: intakeError || new Error('Failed to check intake answers'), status: invalid ? 400 : 500 };
+  }
+
+  // A service tied to a location is booked there
+  const locationId = (service.location_id as string) || null;
+
   // Validate trainer
   const trainerIsValid = await validateTrainer(supabase, trainerId, lookupIds);
   if (!trainerIsValid) {
@@ -334,6 +506,7 @@ export async function createClientBooking(
         clientId: client.id as string,
         trainerId,
         serviceId,
+        locationId,
         preferredTimes: [scheduledAt],
         notes: null,
       }
@@ -343,6 +516,12 @@ export async function createClientBooking(
       return { data: null, error: requestError || new Error('Failed to create booking request'), status: 500 };
     }
 
+    const { error: answersError } = await saveIntakeAnswers({ bookingRequestId: request.id }, answers);
+    if (answersError) {
+      await supabase.from('ta_booking_requests').delete().eq('id', request.id);
+      return { data: null, error: new Error('Failed to record intake answers'), status: 500 };
+    }
+
     return {
       data: {
         type: 'request' as const,
@@ -354,19 +533,8 @@ export async function createClientBooking(
   }
 
   // Check credits (filter out expired packages)
-  const { data: packages } = await supabase
-    .from('ta_client_packages')
-    .select('id, sessions_remaining')
-    .eq('client_id', client.id as string)
-    .eq('status', 'active')
-    .gt('sessions_remaining', 0)
-    .gt('expires_at', new Date().toISOString())
-    .order('expires_at', { ascending: true });
-
-  const packageCredits = (packages || []).reduce((sum: number, p: Record<string, unknown>) => sum + (p.sessions_remaining as number), 0);
+  const { totalCredits, hasPackages } = await getAvailableCredits(supabase, client.id as string, simpleCredits);
   const creditsRequired = (service.credits_required as number) || 1;
-  const hasPackages = packages && packages.length > 0;
-  const totalCredits = hasPackages ? packageCredits : simpleCredits;
 
   if (totalCredits < creditsRequired) {
     return {
@@ -376,12 +544,14 @@ export async function createClientBooking(
     };
   }
 
-  // Validate against studio opening hours
-  if (clientStudioConfig?.opening_hours) {
+  // Validate against the service location's (or studio's) opening hours
+  if (clientStudioConfig) {
+    const location = locationId ? (await getLocation(locationId)).data : null;
     const hoursCheck = isWithinOpeningHours(
-      clientStudioConfig.opening_hours,
+      getEffectiveOpeningHours(clientStudioConfig.opening_hours, location),
       scheduledAt,
-      service.duration as number
+      service.duration as number,
+      clientStudioConfig.timezone
     );
     if (!hoursCheck.valid) {
       return {
@@ -407,9 +577,52 @@ export async function createClientBooking(
     }
   }
 
-  // Check conflicts
-  const hasConflict = await checkBookingConflicts(supabase, trainerId, scheduledAt, service.duration as number);
+  // Create booking — respect soft-hold setting from studio config
+  const bookingStudioId = (client.studio_id as string) || (service.studio_id as string) || (service.created_by as string) || trainerId;
+
+  // Check conflicts — join the waitlist for a taken slot when the studio has one
+  const { hasConflict, error: conflictError } = await checkBookingConflicts(
+    trainerId,
+    scheduledAt,
+    service.duration as number,
+    serviceId,
+    { locationId }
+  );
+  if (conflictError) {
+    return { data: null, error: conflictError, status: 500 };
+  }
   if (hasConflict) {
+    if (isWaitlistEnabled(clientStudioConfig?.waitlist_config)) {
+      const { data: waitlisted, error: waitlistError } = await joinWaitlist({
+        studioId: bookingStudioId,
+        trainerId,
+        serviceId,
+        clientId: client.id as string,
+        scheduledAt: new Date(scheduledAt).toISOString(),
+        duration: service.duration as number,
+        waitlistConfig: clientStudioConfig?.waitlist_config ?? null,
+      });
+
+      if (waitlistError || !waitlisted) {
+        return { data: null, error: waitlistError || new Error('Failed to join waitlist'), status: 409 };
+      }
+
+      const { error: answersError } = await saveIntakeAnswers({ waitlistEntryId: waitlisted.entry.id }, answers);
+      if (answersError) {
+        console.error('Failed to save intake answers for waitlist entry:', answersError);
+      }
+
+      return {
+        data: {
+          type: 'waitlist' as const,
+          waitlistEntryId: waitlisted.entry.id,
+          waitlistPosition: waitlisted.position,
+          remainingCredits: totalCredits,
+        },
+        error: null,
+      };
+    }
+
     return {
       data: null,
       error: new Error('This time slot is already booked. Please choose another time.'),
@@ -417,9 +630,6 @@ export async function createClientBooking(
     };
   }
 
-  // Create booking — respect soft-hold setting from studio config
-  const bookingStudioId = (client.studio_id as string) || (service.studio_id as string) || (service.created_by as string) || trainerId;
-
   let bookingStatus = 'confirmed';
   let holdExpiry: string | null = null;
 
@@ -435,6 +645,7 @@ export async function createClientBooking(
       trainer_id: trainerId,
       service_id: serviceId,
       studio_id: bookingStudioId,
+      location_id: locationId,
       scheduled_at: scheduledAt,
       duration: service.duration,
       status: bookingStatus,
@@ -447,47 +658,39 @@ export async function createClientBooking(
     return { data: null, error: new Error('Failed to create booking'), status: 500 };
   }
 
-  // Deduct credits
-  let remainingCredits = 0;
-
-  if (hasPackages) {
-    const { error: deductError } = await supabase.rpc('deduct_client_credit', {
-      p_client_id: client.id,
-      p_trainer_id: trainerId,
-      p_booking_id: (booking as Record<string, unknown>).id,
-      p_credits: creditsRequired,
-    });
-
-    if (deductError) {
-      await supabase.from('ta_bookings').delete().eq('id', (booking as Record<string, unknown>).id as string);
-      return { data: null, error: new Error('Failed to process credits'), status: 500 };
-    }
-
-    const { data: updatedPackages } = await supabase
-      .from('ta_client_packages')
-      .select('sessions_remaining')
-      .eq('client_id', client.id as string)
-      .eq('status', 'active')
-      .gt('sessions_remaining', 0);
+  const { error: answersError } = await saveIntakeAnswers({ bookingId: (booking as Record<string, unknown>).id as string }, answers);
+  if (answersError) {
+    await supabase.from('ta_bookings').delete().eq('id', (booking as Record<string, unknown>).id as string);
+    return { data: null, error: new Error('Failed to record intake answers'), status: 500 };
+  }
 
-    remainingCredits = (updatedPackages || []).reduce((sum: number, p: Record<string, unknown>) => sum + (p.sessions_remaining as number), 0);
-  } else {
-    // Use atomic RPC to prevent race condition (two concurrent bookings reading same balance)
-    const { data: newBalance, error: updateError } = await supabase.rpc('deduct_simple_credits', {
-      p_client_id: client.id,
-      p_amount: creditsRequired,
-    });
+  // Deduct credits
+  const { remainingCredits, error: deductError, status: deductStatus } = await deductBookingCredits(supabase, {
+    clientId: client.id as string,
+    trainerId,
+    bookingId: (booking as Record<string, unknown>).id as string,
+    creditsRequired,
+    hasPackages,
+    simpleCredits,
+  });
+
+  if (deductError) {
+    await supabase.from('ta_bookings').delete().eq('id', (booking as Record<string, unknown>).id as string);
+    return { data: null, error: deductError, status: deductStatus };
+  }
 
-    if (updateError) {
-      await supabase.from('ta_bookings').delete().eq('id', (booking as Record<string, unknown>).id as string);
-      const msg = updateError.message?.includes('Insufficient')
-        ? `Insufficient credits. You have ${simpleCredits} credits but need ${creditsRequired}.`
-        : 'Failed to process credits';
-      return { data: null, error: new Error(msg), status: updateError.message?.includes('Insufficient') ? 400 : 500 };
-    }
+  await recordBookingEvent({
+    bookingId: (booking as Record<string, unknown>).id as string,
+    eventType: 'created',
+    source: 'client',
+    actorId: actorId || null,
+    newStatus: bookingStatus,
+    newScheduledAt: (booking as Record<string, unknown>).scheduled_at as string,
+    newTrainerId: trainerId,
+    creditsDelta: -creditsRequired,
+  });
 
-    remainingCredits = newBalance as number;
-  }
+  await queueBookingCalendarPush((booking as Record<string, unknown>).id as string);
 
   return {
     data: {
@@ -509,7 +712,8 @@ export async function createClientBooking(
 /** Cancel a booking. Validates ownership, checks 24h deadline, refunds credits. */
 export async function cancelClientBooking(
   userEmail: string,
-  bookingId: string
+  bookingId: string,
+  actorId?: string
 ): Promise<{ data: CancelBookingResult | null; error: Error | null; status?: number }> {
   const supabase = createServiceRoleClient();
 
@@ -527,7 +731,7 @@ export async function cancelClientBooking(
   // Verify booking ownership (include studio_id for config lookup)
   const { data: booking } = await supabase
     .from('ta_bookings')
-    .select('id, status, scheduled_at, studio_id')
+    .select('id, status, scheduled_at, studio_id, trainer_id')
     .eq('id', bookingId)
     .eq('client_id', client.id as string)
     .single();
@@ -596,6 +800,8 @@ export async function cancelClientBooking(
     return { data: null, error: new Error('Failed to cancel booking'), status: 500 };
   }
 
+  await cancelBookingReminders(bookingId);
+
   // Record late cancellation fee if configured and within cancellation window
   if (hoursUntilSession < cancellationWindowHours && refundPercent < 100) {
     const lateCancelFee = cancelConfig?.cancellation_policy?.late_cancel_fee_amount;
@@ -618,57 +824,624 @@ export async function cancelClientBooking(
   if (refundPercent > 0) {
     const { data: creditUsage } = await supabase
       .from('ta_credit_usage')
-      .select('id, client_package_id, credits_used, balance_after')
+      .select('credits_used')
       .eq('booking_id', bookingId)
-      .eq('reason', 'booking')
-      .single();
-
-    if (creditUsage) {
-      const fullCredits = creditUsage.credits_used as number;
-      const creditsToRefund = refundPercent === 100
-        ? fullCredits
-        : Math.round(fullCredits * refundPercent / 100);
-
-      if (creditsToRefund > 0) {
-        const { data: clientPackage } = await supabase
-          .from('ta_client_packages')
-          .select('id, sessions_remaining')
-          .eq('id', creditUsage.client_package_id as string)
-          .single();
-
-        if (clientPackage) {
-          const newBalance = (clientPackage.sessions_remaining as number) + creditsToRefund;
-
-          const { error: refundError } = await supabase
-            .from('ta_client_packages')
-            .update({ sessions_remaining: newBalance })
-            .eq('id', creditUsage.client_package_id as string);
-
-          if (!refundError) {
-            const refundNote = refundPercent === 100
-              ? 'Credit refund for cancelled booking'
-              : `Partial credit refund (${refundPercent}%) for late cancellation`;
-
-            await supabase
-              .from('ta_credit_usage')
-              .insert({
-                client_package_id: creditUsage.client_package_id,
-                booking_id: bookingId,
-                credits_used: -creditsToRefund,
-                balance_after: newBalance,
-                reason: 'refund',
-                notes: refundNote,
-              });
-
-            creditsRefunded = creditsToRefund;
-          }
-        }
+      .eq('entry_type', 'use');
+
+    const fullCredits = (creditUsage || []).reduce(
+      (sum: number, row: Record<string, unknown>) => sum + ((row.credits_used as number) || 0),
+      0
+    );
+    const creditsToRefund = refundPercent === 100
+      ? fullCredits
+      : Math.round(fullCredits * refundPercent / 100);
+
+    if (creditsToRefund > 0) {
+      const { data: refunded, error: refundError } = await refundBookingCredits({
+        bookingId,
+        clientId: client.id as string,
+        credits: creditsToRefund,
+        notes: refundPercent === 100
+          ? 'Credit refund for cancelled booking'
+          : `Partial credit refund (${refundPercent}%) for late cancellation`,
+        createdBy: actorId || null,
+      });
+
+      if (refundError) {
+        console.error('Error refunding credits for cancelled booking:', refundError);
+      } else {
+        creditsRefunded = refunded || 0;
       }
     }
   }
 
-  // TODO: no_show_action enforcement from cancellation_policy requires a cron job
-  // or session completion hook to detect expired bookings and apply charges.
+  await recordBookingEvent({
+    bookingId,
+    eventType: 'cancelled',
+    source: 'client',
+    actorId: actorId || null,
+    oldStatus: booking.status as string,
+    newStatus: 'cancelled',
+    creditsDelta: creditsRefunded,
+    metadata: { refund_percent: refundPercent },
+  });
+
+  // Offer the freed place to the next person on the waitlist
+  if (isWaitlistEnabled(cancelConfig?.waitlist_config)) {
+    await offerNextWaitlistPlace(booking.trainer_id as string, booking.scheduled_at as string);
+  }
+
+  await queueBookingCalendarPush(bookingId);
 
   return { data: { success: true, creditsRefunded }, error: null };
 }
+
+/**
+ * Move a client's booking to another free slot with the same trainer and
+ * service. The booking keeps its id, credits and payment, so nothing is
+ * refunded or charged again. Enforces the cancellation window and the
+ * studio's reschedule limit; the move itself is shared with trainer
+ * reschedules (see rescheduleBooking).
+ */
+export async function rescheduleClientBooking(
+  userEmail: string,
+  bookingId: string,
+  newScheduledAt: string,
+  actorId?: string
+): Promise<{ data: RescheduleBookingResult | null; error: Error | null; status?: number }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  if (!client) {
+    return { data: null, error: new Error('Client not found'), status: 404 };
+  }
+
+  const { data: booking } = await supabase
+    .from('ta_bookings')
+    .select('id, status, scheduled_at, studio_id, reschedule_count')
+    .eq('id', bookingId)
+    .eq('client_id', client.id as string)
+    .maybeSingle();
+
+  if (!booking) {
+    return { data: null, error: new Error('Booking not found'), status: 404 };
+  }
+
+  let config: StudioConfig | null = null;
+  if (booking.studio_id) {
+    const { data: cfg } = await getStudioConfig(booking.studio_id as string);
+    config = cfg;
+  }
+
+  const blockReason = getRescheduleBlockReason(
+    booking as { status: string; scheduled_at: string; reschedule_count: number | null },
+    config
+  );
+  if (blockReason) {
+    return { data: null, error: new Error(blockReason), status: 400 };
+  }
+
+  const maxReschedules = config?.cancellation_policy?.max_reschedules ?? DEFAULT_MAX_RESCHEDULES;
+
+  const { data: moved, error: moveError } = await rescheduleBooking({
+    bookingId,
+    scheduledAt: newScheduledAt,
+    actorId: actorId || null,
+    source: 'client',
+    maxReschedules,
+  });
+
+  if (moveError || !moved) {
+    const message = moveError?.message || 'Failed to reschedule booking';
+    if (message.includes('Reschedule limit reached')) {
+      return { data: null, error: new Error(rescheduleLimitMessage(maxReschedules)), status: 400 };
+    }
+    if (message.includes('conflict')) {
+      return { data: null, error: new Error('That time is no longer available. Please choose another time.'), status: 409 };
+    }
+    if (message.includes('changed')) {
+      return { data: null, error: new Error('This booking was changed while you were rescheduling it. Please refresh and try again.'), status: 409 };
+    }
+    if (message.includes('different from the current time')) {
+      return { data: null, error: new Error('Please choose a different time'), status: 400 };
+    }
+    return { data: null, error: new Error(message), status: message.startsWith('Failed') ? 500 : 400 };
+  }
+
+  const { data: trainer } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', moved.trainer_id as string)
+    .maybeSingle();
+
+  const trainerName = trainer
+    ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Trainer'
+    : 'Trainer';
+  const rescheduleCount = (moved.reschedule_count as number) || 0;
+
+  return {
+    data: {
+      booking: {
+        id: bookingId,
+        scheduledAt: moved.scheduled_at as string,
+        duration: moved.duration as number,
+        status: moved.status as string,
+        serviceName: (moved.service as { name?: string } | null)?.name || 'Session',
+        trainerName,
+        ...(moved.hold_expiry ? { holdExpiry: moved.hold_expiry as string } : {}),
+        serviceId: moved.service_id as string,
+        trainerId: moved.trainer_id as string,
+      },
+      reschedulesRemaining: Math.max(0, maxReschedules - rescheduleCount),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Accept a waitlist offer: deduct credits and confirm the held booking.
+ */
+export async function acceptWaitlistOffer(
+  userEmail: string,
+  entryId: string,
+  actorId?: string
+): Promise<{ data: AcceptWaitlistOfferResult | null; error: Error | null; status?: number }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id, credits')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  if (!client) {
+    return { data: null, error: new Error('Client not found'), status: 404 };
+  }
+
+  const { data: entry } = await supabase
+    .from('ta_waitlist_entries')
+    .select('id, status, trainer_id, service_id, offered_booking_id, offer_expires_at')
+    .eq('id', entryId)
+    .eq('client_id', client.id as string)
+    .maybeSingle();
+
+  if (!entry) {
+    return { data: null, error: new Error('Waitlist entry not found'), status: 404 };
+  }
+
+  if (entry.status !== 'offered' || !entry.offered_booking_id) {
+    return { data: null, error: new Error('There is no open offer for this waitlist entry'), status: 400 };
+  }
+
+  if (entry.offer_expires_at && new Date(entry.offer_expires_at as string) < new Date()) {
+    return { data: null, error: new Error('This offer has expired'), status: 410 };
+  }
+
+  const { data: booking } = await supabase
+    .from('ta_bookings')
+    .select('id, status, scheduled_at, duration, trainer_id')
+    .eq('id', entry.offered_booking_id as string)
+    .maybeSingle();
+
+  if (!booking || booking.status !== 'soft-hold') {
+    return { data: null, error: new Error('This offer is no longer available'), status: 410 };
+  }
+
+  const { data: service } = await supabase
+    .from('ta_services')
+    .select('name, credits_required')
+    .eq('id', entry.service_id as string)
+    .maybeSingle();
+
+  const simpleCredits = (client.credits as number) || 0;
+  const creditsRequired = (service?.credits_required as number) || 1;
+  const { totalCredits, hasPackages } = await getAvailableCredits(supabase, client.id as string, simpleCredits);
+
+  if (totalCredits < creditsRequired) {
+    return {
+      data: null,
+      error: new Error(`Insufficient credits. You have ${totalCredits} credits but need ${creditsRequired}.`),
+      status: 400,
+    };
+  }
+
+  const { remainingCredits, error: deductError, status: deductStatus } = await deductBookingCredits(supabase, {
+    clientId: client.id as string,
+    trainerId: booking.trainer_id as string,
+    bookingId: booking.id as string,
+    creditsRequired,
+    hasPackages,
+    simpleCredits,
+  });
+
+  if (deductError) {
+    return { data: null, error: deductError, status: deductStatus };
+  }
+
+  const { error: confirmError } = await supabase
+    .from('ta_bookings')
+    .update({ status: 'confirmed', hold_expiry: null })
+    .eq('id', booking.id as string);
+
+  if (confirmError) {
+    return { data: null, error: new Error('Failed to confirm booking'), status: 500 };
+  }
+
+  await recordBookingEvent({
+    bookingId: booking.id as string,
+    eventType: 'confirmed',
+    source: 'client',
+    actorId: actorId || null,
+    oldStatus: 'soft-hold',
+    newStatus: 'confirmed',
+    creditsDelta: -creditsRequired,
+    metadata: { waitlist_entry_id: entryId },
+  });
+
+  await queueBookingReminders(booking.id as string);
+
+  await supabase
+    .from('ta_waitlist_entries')
+    .update({ status: 'accepted', updated_at: new Date().toISOString() })
+    .eq('id', entryId);
+
+  const { data: trainerProfile } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', booking.trainer_id as string)
+    .single();
+
+  const trainerName = trainerProfile
+    ? `${trainerProfile.first_name || ''} ${trainerProfile.last_name || ''}`.trim() || 'Trainer'
+    : 'Trainer';
+
+  return {
+    data: {
+      booking: {
+        id: booking.id as string,
+        scheduledAt: booking.scheduled_at as string,
+        duration: booking.duration as number,
+        status: 'confirmed',
+        serviceName: (service?.name as string) || 'Session',
+        trainerName,
+      },
+      remainingCredits,
+    },
+    error: null,
+  };
+}
+
+/**
+ * List the client's booking requests that the trainer answered with alternative times.
+ */
+export async function getClientCounteredRequests(
+  userEmail: string
+): Promise<{ data: ClientBookingRequest[] | null; error: Error | null }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  if (!client) {
+    return { data: [], error: null };
+  }
+
+  const { data: requests, error } = await supabase
+    .from('ta_booking_requests')
+    .select('id, trainer_id, preferred_times, suggested_times, expires_at, service:ta_services(name)')
+    .eq('client_id', client.id as string)
+    .eq('status', 'countered')
+    .gt('expires_at', new Date().toISOString())
+    .order('countered_at', { ascending: false });
+
+  if (error) {
+    return { data: null, error: new Error(error.message) };
+  }
+
+  const trainerIds = [...new Set((requests || []).map((r: Record<string, unknown>) => r.trainer_id as string))];
+  const { data: trainers } = trainerIds.length
+    ? await supabase.from('profiles').select('id, first_name, last_name').in('id', trainerIds)
+    : { data: [] };
+
+  const trainerNames = new Map<string, string>();
+  for (const t of (trainers || []) as { id: string; first_name: string | null; last_name: string | null }[]) {
+    trainerNames.set(t.id, `${t.first_name || ''} ${t.last_name || ''}`.trim() || 'Trainer');
+  }
+
+  return {
+    data: (requests || []).map((r: Record<string, unknown>) => ({
+      id: r.id as string,
+      status: 'countered' as const,
+      serviceName: (r.service as { name?: string } | null)?.name || 'Session',
+      trainerName: trainerNames.get(r.trainer_id as string) || 'Trainer',
+      preferredTimes: (r.preferred_times as string[]) || [],
+      suggestedTimes: (r.suggested_times as string[]) || [],
+      expiresAt: r.expires_at as string,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Accept one of the trainer's suggested times, turning the request into a confirmed booking.
+ */
+export async function acceptSuggestedTime(
+  userEmail: string,
+  requestId: string,
+  acceptedTime: string,
+  actorId?: string
+): Promise<{ data: AcceptSuggestedTimeResult | null; error: Error | null; status?: number }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id, first_name, last_name')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  if (!client) {
+    return { data: null, error: new Error('Client not found'), status: 404 };
+  }
+
+  const { data: request } = await supabase
+    .from('ta_booking_requests')
+    .select('id, studio_id, trainer_id, service_id, location_id, status, suggested_times, expires_at, service:ta_services(name, duration)')
+    .eq('id', requestId)
+    .eq('client_id', client.id as string)
+    .maybeSingle();
+
+  if (!request) {
+    return { data: null, error: new Error('Booking request not found'), status: 404 };
+  }
+
+  if (request.status !== 'countered') {
+    return { data: null, error: new Error('This request has no suggested times to accept'), status: 400 };
+  }
+
+  if (new Date(request.expires_at as string) < new Date()) {
+    return { data: null, error: new Error('These suggested times have expired'), status: 410 };
+  }
+
+  const requestedAt = new Date(acceptedTime).getTime();
+  const suggestedTime = ((request.suggested_times as string[]) || []).find(
+    (t) => new Date(t).getTime() === requestedAt
+  );
+
+  if (!suggestedTime) {
+    return { data: null, error: new Error('That time was not one of the suggested times'), status: 400 };
+  }
+
+  const service = request.service as { name?: string; duration?: number } | null;
+  const scheduledAt = new Date(suggestedTime).toISOString();
+  const duration = service?.duration || 60;
+
+  const { hasConflict, error: conflictError } = await checkBookingConflicts(
+    request.trainer_id as string,
+    scheduledAt,
+    duration,
+    request.service_id as string,
+    { locationId: (request.location_id as string) || null }
+  );
+  if (conflictError) {
+    return { data: null, error: conflictError, status: 500 };
+  }
+  if (hasConflict) {
+    return { data: null, error: new Error('That time is no longer available'), status: 409 };
+  }
+
+  const { data: updated, error: acceptError } = await updateBookingRequest(
+    requestId,
+    request.studio_id as string,
+    request.trainer_id as string,
+    { id: requestId, status: 'accepted', acceptedTime: scheduledAt },
+    { source: 'client', actorId: actorId || null }
+  );
+
+  if (acceptError || !updated?.booking) {
+    return { data: null, error: acceptError || new Error('Failed to create booking'), status: 500 };
+  }
+
+  const { data: trainerProfile } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', request.trainer_id as string)
+    .single();
+
+  const trainerName = trainerProfile
+    ? `${trainerProfile.first_name || ''} ${trainerProfile.last_name || ''}`.trim() || 'Trainer'
+    : 'Trainer';
+
+  return {
+    data: {
+      booking: {
+        id: updated.booking.id as string,
+        scheduledAt,
+        duration,
+        status: 'confirmed',
+        serviceName: service?.name || 'Session',
+        trainerName,
+      },
+      trainerId: request.trainer_id as string,
+      clientName: `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Your client',
+    },
+    error: null,
+  };
+}
+
+/**
+ * List the new times the studio has offered the client for bookings their
+ * trainer can no longer make (see leave-service).
+ */
+export async function getClientTimeProposals(
+  userEmail: string
+): Promise<{ data: BookingTimeProposal[] | null; error: Error | null }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  if (!client) {
+    return { data: [], error: null };
+  }
+
+  const { data: proposals, error } = await supabase
+    .from('ta_booking_time_proposals')
+    .select(`
+      id,
+      booking_id,
+      proposed_times,
+      expires_at,
+      booking:ta_bookings!inner(scheduled_at, trainer_id, client_id, status, service:ta_services(name))
+    `)
+    .eq('status', 'pending')
+    .eq('booking.client_id', client.id as string)
+    .in('booking.status', RESCHEDULABLE_STATUSES)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { data: null, error: new Error(error.message) };
+  }
+
+  const rows = (proposals || []) as {
+    id: string;
+    booking_id: string;
+    proposed_times: string[];
+    expires_at: string;
+    booking: { scheduled_at: string; trainer_id: string; service: { name?: string } | null };
+  }[];
+
+  const trainerIds = [...new Set(rows.map((r) => r.booking.trainer_id))];
+  const { data: trainers } = trainerIds.length
+    ? await supabase.from('profiles').select('id, first_name, last_name').in('id', trainerIds)
+    : { data: [] };
+
+  const trainerNames = new Map<string, string>();
+  for (const t of (trainers || []) as { id: string; first_name: string | null; last_name: string | null }[]) {
+    trainerNames.set(t.id, `${t.first_name || ''} ${t.last_name || ''}`.trim() || 'Trainer');
+  }
+
+  const now = Date.now();
+  return {
+    data: rows.map((r) => ({
+      id: r.id,
+      bookingId: r.booking_id,
+      serviceName: r.booking.service?.name || 'Session',
+      trainerName: trainerNames.get(r.booking.trainer_id) || 'Trainer',
+      currentTime: r.booking.scheduled_at,
+      proposedTimes: (r.proposed_times || []).filter((t) => new Date(t).getTime() > now),
+      expiresAt: r.expires_at,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Move the booking to one of the offered times. The studio asked for the
+ * move, so it doesn't count towards the client's reschedule limit and the
+ * cancellation window doesn't apply.
+ */
+export async function acceptTimeProposal(
+  userEmail: string,
+  proposalId: string,
+  acceptedTime: string,
+  actorId?: string
+): Promise<{ data: AcceptTimeProposalResult | null; error: Error | null; status?: number }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  if (!client) {
+    return { data: null, error: new Error('Client not found'), status: 404 };
+  }
+
+  const { data: proposal } = await supabase
+    .from('ta_booking_time_proposals')
+    .select('id, booking_id, proposed_times, status, expires_at, booking:ta_bookings!inner(client_id)')
+    .eq('id', proposalId)
+    .eq('booking.client_id', client.id as string)
+    .maybeSingle();
+
+  if (!proposal) {
+    return { data: null, error: new Error('Proposal not found'), status: 404 };
+  }
+
+  if (proposal.status !== 'pending') {
+    return { data: null, error: new Error('These times are no longer on offer'), status: 400 };
+  }
+
+  if (new Date(proposal.expires_at as string) < new Date()) {
+    return { data: null, error: new Error('These times have expired'), status: 410 };
+  }
+
+  const requestedAt = new Date(acceptedTime).getTime();
+  const proposedTime = ((proposal.proposed_times as string[]) || []).find(
+    (t) => new Date(t).getTime() === requestedAt
+  );
+
+  if (!proposedTime) {
+    return { data: null, error: new Error('That time was not one of the offered times'), status: 400 };
+  }
+
+  const { data: moved, error: moveError } = await rescheduleBooking({
+    bookingId: proposal.booking_id as string,
+    scheduledAt: new Date(proposedTime).toISOString(),
+    actorId: actorId || null,
+    source: 'client',
+  });
+
+  if (moveError || !moved) {
+    const message = moveError?.message || 'Failed to reschedule booking';
+    if (message.includes('conflict') || message.includes('unavailable')) {
+      return { data: null, error: new Error('That time is no longer available. Please choose another time.'), status: 409 };
+    }
+    if (message.includes('changed')) {
+      return { data: null, error: new Error('This booking was changed in the meantime. Please refresh and try again.'), status: 409 };
+    }
+    return { data: null, error: new Error(message), status: message.startsWith('Failed') ? 500 : 400 };
+  }
+
+  await supabase
+    .from('ta_booking_time_proposals')
+    .update({ status: 'accepted', accepted_time: moved.scheduled_at })
+    .eq('id', proposalId);
+
+  const { data: trainer } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', moved.trainer_id as string)
+    .maybeSingle();
+
+  return {
+    data: {
+      booking: {
+        id: proposal.booking_id as string,
+        scheduledAt: moved.scheduled_at as string,
+        duration: moved.duration as number,
+        status: moved.status as string,
+        serviceName: (moved.service as { name?: string } | null)?.name || 'Session',
+        trainerName: trainer
+          ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Trainer'
+          : 'Trainer',
+        serviceId: moved.service_id as string,
+        trainerId: moved.trainer_id as string,
+      },
+    },
+    error: null,
+  };
+}
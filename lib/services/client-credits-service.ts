@@ -146,8 +146,8 @@ export async function getClientCredits(
 }
 
 /**
- * Manually add credits to a client by creating a client_package record
- * and logging the addition in ta_credit_usage.
+ * Manually add credits to a client by creating a client_package record.
+ * The database records the grant in the credit ledger as the package is created.
  */
 export async function addClientCredits(
   clientId: string,
@@ -169,7 +169,7 @@ export async function addClientCredits(
     expiresAt.setDate(expiresAt.getDate() + validityDays);
 
     // Create client package (manual addition - no payment)
-    const { data: clientPackage, error: insertError } = await supabase
+    const { error: insertError } = await supabase
       .from('ta_client_packages')
       .insert({
         client_id: clientId,
@@ -177,6 +177,7 @@ export async function addClientCredits(
         trainer_id: trainerId,
         sessions_total: input.sessions,
         sessions_used: 0,
+        sessions_remaining: input.sessions,
         expires_at: expiresAt.toISOString(),
         status: 'active',
         notes: input.notes || 'Manual credit addition',
@@ -188,16 +189,6 @@ export async function addClientCredits(
       return { data: null, error: new Error(insertError.message) };
     }
 
-    // Log the credit addition
-    await supabase.from('ta_credit_usage').insert({
-      client_package_id: (clientPackage as { id: string }).id,
-      credits_used: -input.sessions, // Negative = addition
-      balance_after: input.sessions,
-      reason: 'manual_addition',
-      notes: input.notes,
-      created_by: trainerId,
-    });
-
     return {
       data: {
         success: true,
@@ -10,6 +10,7 @@ import { sendClientInvitationEmail } from '@/lib/notifications/email-service';
 import { getOrCreateStudio } from '@/lib/services/studio-service';
 import crypto from 'crypto';
 import { generateAvatarUrl } from '@/lib/utils/avatar';
+import { applySimpleCreditEntry } from '@/lib/services/credit-ledger-service';
 
 interface DbClient {
   id: string;
@@ -51,6 +52,41 @@ export interface TransformedClient {
   invitation_expires_at?: string;
 }
 
+/**
+ * Set a client's simple credits to the balance entered on the client form,
+ * recorded in the credit ledger as a manual adjustment of the difference.
+ */
+async function setSimpleCredits(
+  clientId: string,
+  credits: number,
+  actorId?: string
+): Promise<{ error: Error | null }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('credits')
+    .eq('id', clientId)
+    .maybeSingle();
+
+  if (!client) {
+    return { error: new Error('Client not found') };
+  }
+
+  const difference = credits - ((client.credits as number) || 0);
+  if (difference === 0) return { error: null };
+
+  const { error } = await applySimpleCreditEntry(clientId, {
+    entryType: 'adjustment',
+    credits: difference,
+    reason: 'manual_adjustment',
+    notes: `Balance set to ${credits}`,
+    createdBy: actorId,
+  });
+
+  return { error };
+}
+
 /**
  * Fetch clients for the authenticated user based on their role.
  */
@@ -258,7 +294,8 @@ export async function createClient(params: {
       is_onboarded: true,
       is_guest: true,
       self_booking_allowed: params.body.selfBookingAllowed || false,
-      credits: params.body.credits || 0,
+      // Opening credits are granted through the ledger once the client exists
+      credits: 0,
       source: 'manual',
       avatar_url: generateAvatarUrl(`${firstName || ''} ${lastName || ''}`.trim() || params.body.email),
     };
@@ -282,6 +319,22 @@ export async function createClient(params: {
       return { data: null, error: new Error(error.message) };
     }
 
+    if (params.body.credits && params.body.credits > 0) {
+      const { data: balance, error: creditError } = await applySimpleCreditEntry(data.id, {
+        entryType: 'grant',
+        credits: params.body.credits,
+        reason: 'manual_addition',
+        notes: 'Opening credits',
+        createdBy: params.userId,
+      });
+
+      if (creditError) {
+        console.error('Error granting opening credits:', creditError);
+      } else {
+        data.credits = balance;
+      }
+    }
+
     // Send welcome email if requested
     let emailSent = false;
     let emailError: string | null = null;
@@ -371,7 +424,8 @@ export async function updateClient(
     selfBookingAllowed?: boolean;
     credits?: number;
     isOnboarded?: boolean;
-  }
+  },
+  actorId?: string
 ): Promise<{ data: Record<string, unknown> | null; error: Error | null }> {
   try {
     const supabase = createServiceRoleClient();
@@ -387,15 +441,19 @@ export async function updateClient(
     if (body.email !== undefined) updateData.email = body.email;
     if (body.phone !== undefined) updateData.phone = body.phone;
     if (body.selfBookingAllowed !== undefined) updateData.self_booking_allowed = body.selfBookingAllowed;
-    if (body.credits !== undefined) updateData.credits = body.credits;
     if (body.isOnboarded !== undefined) updateData.is_onboarded = body.isOnboarded;
 
-    const { data, error } = await supabase
-      .from('fc_clients')
-      .update(updateData)
-      .eq('id', clientId)
-      .select()
-      .single();
+    if (body.credits !== undefined) {
+      const { error: creditError } = await setSimpleCredits(clientId, body.credits, actorId);
+      if (creditError) {
+        return { data: null, error: creditError };
+      }
+    }
+
+    // Credits alone are already saved by the ledger
+    const { data, error } = Object.keys(updateData).length > 0
+      ? await supabase.from('fc_clients').update(updateData).eq('id', clientId).select().single()
+      : await supabase.from('fc_clients').select().eq('id', clientId).single();
 
     if (error) {
       return { data: null, error: new Error(error.message) };
@@ -422,7 +480,8 @@ export async function patchClient(
     phone?: string;
     credits?: number;
     is_onboarded?: boolean;
-  }
+  },
+  actorId?: string
 ): Promise<{ data: Record<string, unknown> | null; error: Error | null }> {
   try {
     const supabase = createServiceRoleClient();
@@ -433,10 +492,9 @@ export async function patchClient(
     if (updates.last_name !== undefined) updateData.last_name = updates.last_name;
     if (updates.email !== undefined) updateData.email = updates.email;
     if (updates.phone !== undefined) updateData.phone = updates.phone;
-    if (updates.credits !== undefined) updateData.credits = updates.credits;
     if (updates.is_onboarded !== undefined) updateData.is_onboarded = updates.is_onboarded;
 
-    if (Object.keys(updateData).length === 0) {
+    if (Object.keys(updateData).length === 0 && updates.credits === undefined) {
       return { data: null, error: new Error('No valid fields to update') };
     }
 
@@ -455,12 +513,17 @@ export async function patchClient(
       return { data: null, error: new Error('Client does not belong to your studio') };
     }
 
-    const { data, error } = await supabase
-      .from('fc_clients')
-      .update(updateData)
-      .eq('id', clientId)
-      .select()
-      .single();
+    if (updates.credits !== undefined) {
+      const { error: creditError } = await setSimpleCredits(clientId, updates.credits, actorId);
+      if (creditError) {
+        return { data: null, error: creditError };
+      }
+    }
+
+    // Credits alone are already saved by the ledger
+    const { data, error } = Object.keys(updateData).length > 0
+      ? await supabase.from('fc_clients').update(updateData).eq('id', clientId).select().single()
+      : await supabase.from('fc_clients').select().eq('id', clientId).single();
 
     if (error) {
       return { data: null, error: new Error(error.message) };
@@ -1,11 +1,16 @@
 /**
  * Client Shop Service
  *
- * Business logic for client shop operations: offers, packages, and claiming.
+ * Business logic for client shop operations: offers, packages, claiming free
+ * items and buying priced ones through Stripe Checkout.
  * Extracted from api/client/shop/offers, packages, and claim routes.
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { stripe, calculateFees } from '@/lib/stripe/config';
+import { sendPaymentReceiptEmail } from '@/lib/notifications/email-service';
+import { applySimpleCreditEntry } from '@/lib/services/credit-ledger-service';
+import type Stripe from 'stripe';
 
 // ── Row types for Supabase `any` results ────────────────────────────
 
@@ -46,6 +51,15 @@ interface PackageRow {
   is_active: boolean;
 }
 
+interface ShopPaymentRow {
+  id: string;
+  client_id: string | null;
+  amount_cents: number;
+  refunded_amount_cents: number | null;
+  currency: string | null;
+  status: string;
+}
+
 // ── Public return types ─────────────────────────────────────────────
 
 export interface ShopOffer {
@@ -95,6 +109,14 @@ export interface ClaimOfferResult {
   newTotalCredits: number;
 }
 
+export interface ShopCheckoutResult {
+  sessionId: string;
+  url: string | null;
+}
+
+/** Default validity of shop credits when the item doesn't set one */
+const DEFAULT_EXPIRY_DAYS = 90;
+
 // ── Shared helper: multi-strategy studio lookup ─────────────────────
 
 async function findClientWithLookupIds(
@@ -176,6 +198,121 @@ async function findClientWithLookupIds(
   }
 }
 
+/**
+ * A package from the client's studio that can be claimed or bought.
+ */
+async function findShopPackage(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  studioId: string,
+  packageId: string
+): Promise<{ pkg: PackageRow | null; error: Error | null; status?: number }> {
+  const { data: rawPkg, error: pkgError } = await supabase
+    .from('credit_bundles')
+    .select('*')
+    .eq('id', packageId)
+    .single();
+
+  if (pkgError || !rawPkg) {
+    return { pkg: null, error: new Error('Package not found'), status: 404 };
+  }
+
+  const pkg = rawPkg as PackageRow;
+
+  // Verify package belongs to client's studio
+  if (pkg.studio_id !== studioId) {
+    return { pkg: null, error: new Error('Package does not belong to your studio'), status: 403 };
+  }
+
+  // Verify package is active
+  if (!pkg.is_active) {
+    return { pkg: null, error: new Error('Package is not available'), status: 400 };
+  }
+
+  return { pkg, error: null };
+}
+
+/**
+ * An offer from the client's studio that can be claimed or bought.
+ */
+async function findShopOffer(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  studioId: string,
+  offerId: string
+): Promise<{ offer: OfferRow | null; error: Error | null; status?: number }> {
+  const { data: rawOffer, error: offerError } = await supabase
+    .from('referral_signup_links')
+    .select('*')
+    .eq('id', offerId)
+    .single();
+
+  if (offerError || !rawOffer) {
+    return { offer: null, error: new Error('Offer not found'), status: 404 };
+  }
+
+  const offer = rawOffer as OfferRow;
+
+  // Verify offer belongs to client's studio
+  if (offer.studio_id !== studioId) {
+    return { offer: null, error: new Error('Offer does not belong to your studio'), status: 403 };
+  }
+
+  // Verify offer is active
+  if (!offer.is_active) {
+    return { offer: null, error: new Error('Offer is not available'), status: 400 };
+  }
+
+  // Check expiry
+  if (offer.expires_at && new Date(offer.expires_at) < new Date()) {
+    return { offer: null, error: new Error('Offer has expired'), status: 400 };
+  }
+
+  // Check capacity
+  if (offer.max_referrals && offer.current_referrals >= offer.max_referrals) {
+    return { offer: null, error: new Error('Offer has reached maximum capacity'), status: 400 };
+  }
+
+  return { offer, error: null };
+}
+
+/**
+ * The studio owner's connected Stripe account, which shop purchases are paid into.
+ * Solo trainers are their own studio.
+ */
+export async function findStudioStripeAccount(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  studioId: string
+): Promise<{ data: { payeeId: string; stripeAccountId: string } | null; error: Error | null; status?: number }> {
+  const { data: studio } = await supabase
+    .from('bs_studios')
+    .select('owner_id')
+    .eq('id', studioId)
+    .maybeSingle();
+
+  const payeeId = (studio?.owner_id as string) || studioId;
+
+  const { data: stripeAccount } = await supabase
+    .from('ta_stripe_accounts')
+    .select('stripe_account_id, onboarding_complete')
+    .eq('user_id', payeeId)
+    .maybeSingle();
+
+  if (!stripeAccount?.onboarding_complete) {
+    return {
+      data: null,
+      error: new Error('Your studio is not set up to take online payments yet'),
+      status: 400,
+    };
+  }
+
+  return { data: { payeeId, stripeAccountId: stripeAccount.stripe_account_id as string }, error: null };
+}
+
+/** The currency a connected account settles in, for prices that have none of their own. */
+export async function getStripeAccountCurrency(stripeAccountId: string): Promise<string> {
+  const account = await stripe.accounts.retrieve(stripeAccountId);
+  return (account.default_currency || 'gbp').toLowerCase();
+}
+
 // ── Exported service functions ──────────────────────────────────────
 
 /**
@@ -381,45 +518,23 @@ export async function claimPackage(
       };
     }
 
-    // Get the package from credit_bundles
-    const { data: rawPkg, error: pkgError } = await supabase
-      .from('credit_bundles')
-      .select('*')
-      .eq('id', packageId)
-      .single();
-
-    if (pkgError || !rawPkg) {
-      return { data: null, error: new Error('Package not found'), status: 404 };
-    }
-
-    const pkg = rawPkg as PackageRow & { [key: string]: unknown };
-
-    // Verify package belongs to client's studio
-    if (pkg.studio_id !== client.studio_id) {
-      return {
-        data: null,
-        error: new Error('Package does not belong to your studio'),
-        status: 403,
-      };
-    }
-
-    // Verify package is active
-    if (!pkg.is_active) {
-      return { data: null, error: new Error('Package is not available'), status: 400 };
+    const { pkg, error: pkgError, status: pkgStatus } = await findShopPackage(supabase, client.studio_id, packageId);
+    if (pkgError || !pkg) {
+      return { data: null, error: pkgError, status: pkgStatus };
     }
 
-    // Verify package is free
+    // Priced packages are bought through checkout
     if (pkg.total_price !== 0) {
       return {
         data: null,
-        error: new Error('Only free packages can be claimed. Payment integration coming soon.'),
+        error: new Error('This package has a price. Buy it through checkout instead.'),
         status: 400,
       };
     }
 
     // Calculate expiry date
     const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + (pkg.expiry_days || 90));
+    expiresAt.setDate(expiresAt.getDate() + (pkg.expiry_days || DEFAULT_EXPIRY_DAYS));
 
     // Create client package record
     const { data: clientPackage, error: insertError } = await supabase
@@ -489,85 +604,51 @@ export async function claimOffer(
       };
     }
 
-    // Get the offer
-    const { data: rawOffer, error: offerError } = await supabase
-      .from('referral_signup_links')
-      .select('*')
-      .eq('id', offerId)
-      .single();
-
-    if (offerError || !rawOffer) {
-      return { data: null, error: new Error('Offer not found'), status: 404 };
+    const { offer, error: offerError, status: offerStatus } = await findShopOffer(supabase, client.studio_id, offerId);
+    if (offerError || !offer) {
+      return { data: null, error: offerError, status: offerStatus };
     }
 
-    const offer = rawOffer as OfferRow;
-
-    // Verify offer belongs to client's studio
-    if (offer.studio_id !== client.studio_id) {
+    // Paid offers are bought through checkout
+    if (offer.payment_amount !== 0) {
       return {
         data: null,
-        error: new Error('Offer does not belong to your studio'),
-        status: 403,
+        error: new Error('This offer has a price. Buy it through checkout instead.'),
+        status: 400,
       };
     }
 
-    // Verify offer is active
-    if (!offer.is_active) {
-      return { data: null, error: new Error('Offer is not available'), status: 400 };
-    }
+    // Take a spot on the offer first, so claims at once can't go past its cap
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_offer_spot', { p_offer_id: offerId });
 
-    // Check expiry
-    if (offer.expires_at && new Date(offer.expires_at) < new Date()) {
-      return { data: null, error: new Error('Offer has expired'), status: 400 };
+    if (claimError) {
+      console.error('Error claiming offer spot:', claimError);
+      return { data: null, error: new Error('Failed to claim offer'), status: 500 };
     }
-
-    // Check capacity
-    if (offer.max_referrals && offer.current_referrals >= offer.max_referrals) {
-      return {
-        data: null,
-        error: new Error('Offer has reached maximum capacity'),
-        status: 400,
-      };
-    }
-
-    // Verify offer is free
-    if (offer.payment_amount !== 0) {
-      return {
-        data: null,
-        error: new Error('Only free offers can be claimed. Payment integration coming soon.'),
-        status: 400,
-      };
+    if (!claimed) {
+      return { data: null, error: new Error('Offer has reached maximum capacity'), status: 400 };
     }
 
     // Add credits to client
-    const newCredits = (client.credits || 0) + (offer.credits || 0);
-    const { error: updateError } = await supabase
-      .from('fc_clients')
-      .update({ credits: newCredits })
-      .eq('id', client.id);
+    const { data: newCredits, error: updateError } = await applySimpleCreditEntry(client.id, {
+      entryType: 'grant',
+      credits: offer.credits || 0,
+      reason: 'offer_claim',
+      notes: `Claimed "${offer.title}"`,
+    });
 
     if (updateError) {
       console.error('Error updating client credits:', updateError);
+      await supabase.rpc('release_offer_spot', { p_offer_id: offerId });
       return { data: null, error: new Error('Failed to grant credits'), status: 500 };
     }
 
-    // Increment current_referrals on the offer
-    const { error: offerUpdateError } = await supabase
-      .from('referral_signup_links')
-      .update({ current_referrals: (offer.current_referrals || 0) + 1 })
-      .eq('id', offerId);
-
-    if (offerUpdateError) {
-      console.error('Error updating offer referral count:', offerUpdateError);
-      // Don't fail - credits already granted
-    }
-
     return {
       data: {
         success: true,
         message: `Successfully claimed "${offer.title}" - ${offer.credits} credit${offer.credits !== 1 ? 's' : ''} added!`,
         creditsGranted: offer.credits,
-        newTotalCredits: newCredits,
+        newTotalCredits: newCredits ?? 0,
       },
       error: null,
     };
@@ -579,3 +660,305 @@ export async function claimOffer(
     };
   }
 }
+
+/**
+ * Start a Stripe Checkout session for a priced package or paid offer. The
+ * payment goes to the studio's connected account; credits are only issued
+ * once Stripe confirms it (see fulfilShopCheckout).
+ */
+export async function createShopCheckout(
+  userEmail: string,
+  item: { type: 'package' | 'offer'; id: string },
+  origin: string
+): Promise<{ data: ShopCheckoutResult | null; error: Error | null; status?: number }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { client, error: lookupError } = await findClientWithLookupIds(supabase, userEmail);
+
+    if (lookupError) {
+      return { data: null, error: lookupError, status: 500 };
+    }
+
+    if (!client || !client.studio_id) {
+      return {
+        data: null,
+        error: new Error('Client not found or not associated with a studio'),
+        status: 404,
+      };
+    }
+
+    let name: string;
+    let amountCents: number;
+    let currency: string | null;
+    let credits: number;
+    let expiryDays: number;
+
+    if (item.type === 'package') {
+      const { pkg, error, status } = await findShopPackage(supabase, client.studio_id, item.id);
+      if (error || !pkg) {
+        return { data: null, error, status };
+      }
+      if (pkg.total_price === 0) {
+        return { data: null, error: new Error('This package is free. Claim it instead.'), status: 400 };
+      }
+      name = pkg.name;
+      amountCents = Math.round(pkg.total_price * 100);
+      // Packages have no currency of their own; they're sold in the studio account's
+      currency = null;
+      credits = pkg.credit_count;
+      expiryDays = pkg.expiry_days || DEFAULT_EXPIRY_DAYS;
+    } else {
+      const { offer, error, status } = await findShopOffer(supabase, client.studio_id, item.id);
+      if (error || !offer) {
+        return { data: null, error, status };
+      }
+      if (offer.payment_amount === 0) {
+        return { data: null, error: new Error('This offer is free. Claim it instead.'), status: 400 };
+      }
+      name = offer.title;
+      amountCents = Math.round(offer.payment_amount * 100);
+      currency = (offer.currency || 'gbp').toLowerCase();
+      credits = offer.credits;
+      expiryDays = offer.expiry_days || DEFAULT_EXPIRY_DAYS;
+    }
+
+    const { data: account, error: accountError, status: accountStatus } = await findStudioStripeAccount(
+      supabase,
+      client.studio_id
+    );
+    if (accountError || !account) {
+      return { data: null, error: accountError, status: accountStatus };
+    }
+
+    if (!currency) {
+      currency = await getStripeAccountCurrency(account.stripeAccountId);
+    }
+
+    const { platformFeeCents, trainerAmountCents } = calculateFees(amountCents);
+    const description = `${credits} training session${credits !== 1 ? 's' : ''}`;
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price_data: {
+            currency,
+            unit_amount: amountCents,
+            product_data: { name, description },
+          },
+          quantity: 1,
+        },
+      ],
+      payment_intent_data: {
+        application_fee_amount: platformFeeCents,
+        transfer_data: {
+          destination: account.stripeAccountId,
+        },
+      },
+      customer_email: userEmail,
+      success_url: `${origin}/client/shop?purchase=success`,
+      cancel_url: `${origin}/client/shop?purchase=cancelled`,
+      metadata: {
+        shop_item: item.type,
+        shop_item_id: item.id,
+        shop_item_name: name,
+        trainer_id: account.payeeId,
+        client_id: client.id,
+        credits: credits.toString(),
+        expiry_days: expiryDays.toString(),
+        platform: 'trainer_aide',
+      },
+    });
+
+    const { error: paymentError } = await supabase.from('ta_payments').insert({
+      trainer_id: account.payeeId,
+      client_id: client.id,
+      stripe_checkout_session_id: session.id,
+      amount_cents: amountCents,
+      platform_fee_cents: platformFeeCents,
+      trainer_amount_cents: trainerAmountCents,
+      currency,
+      status: 'pending',
+      payment_type: 'package',
+      description: `${name} (${description})`,
+    });
+
+    // Without the payment record the webhook can't issue the credits
+    if (paymentError) {
+      console.error('Error recording shop payment:', paymentError);
+      await stripe.checkout.sessions.expire(session.id).catch(() => undefined);
+      return { data: null, error: new Error('Failed to start checkout'), status: 500 };
+    }
+
+    return { data: { sessionId: session.id, url: session.url }, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err : new Error(String(err)),
+      status: 500,
+    };
+  }
+}
+
+/**
+ * Refund a paid offer that filled up while the client was at checkout. The
+ * refund is claimed on the payment first, so a replayed webhook sees the
+ * payment as refunded and never issues its credits.
+ */
+async function refundFullOfferPayment(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  session: Stripe.Checkout.Session,
+  payment: ShopPaymentRow
+): Promise<void> {
+  const paymentIntentId =
+    typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+  if (!paymentIntentId) {
+    throw new Error(`Offer is full and checkout session ${session.id} has no payment to refund`);
+  }
+
+  const { data: claimed } = await supabase
+    .from('ta_payments')
+    .update({ refunded_amount_cents: payment.amount_cents, status: 'refunded' })
+    .eq('id', payment.id)
+    .eq('refunded_amount_cents', 0)
+    .select('id')
+    .maybeSingle();
+
+  // Another delivery of this event is already refunding it
+  if (!claimed) return;
+
+  let refund: Stripe.Refund;
+  try {
+    refund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        reverse_transfer: true,
+        refund_application_fee: true,
+        metadata: { source: 'offer_full', payment_id: payment.id },
+      },
+      { idempotencyKey: `offer_full_${payment.id}` }
+    );
+  } catch (stripeError) {
+    // Give the claim back so the webhook retry refunds it
+    await supabase
+      .from('ta_payments')
+      .update({ refunded_amount_cents: 0, status: payment.status })
+      .eq('id', payment.id)
+      .eq('refunded_amount_cents', payment.amount_cents);
+    throw stripeError;
+  }
+
+  const { error: refundError } = await supabase.from('ta_refunds').insert({
+    payment_id: payment.id,
+    client_id: payment.client_id,
+    stripe_refund_id: refund.id,
+    amount_cents: refund.amount,
+    currency: refund.currency || payment.currency || 'gbp',
+    reason: 'The offer was full by the time the payment went through',
+    source: 'stripe',
+  });
+
+  // Unique on stripe_refund_id: already recorded from the charge.refunded event
+  if (refundError && refundError.code !== '23505') {
+    console.error('Error recording offer refund:', refundError);
+  }
+}
+
+/**
+ * Issue the credits for a paid shop checkout into ta_client_packages.
+ * Called from the checkout.session.completed webhook; one allocation per
+ * payment, so a replayed event never credits the client twice. A paid
+ * offer that filled up while the client was at checkout is refunded.
+ */
+export async function fulfilShopCheckout(session: Stripe.Checkout.Session): Promise<void> {
+  const metadata = session.metadata || {};
+  const itemType = metadata.shop_item;
+  const itemId = metadata.shop_item_id;
+  const clientId = metadata.client_id;
+
+  if (!itemType || !itemId || !clientId || session.payment_status !== 'paid') {
+    return;
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: payment } = await supabase
+    .from('ta_payments')
+    .select('id, client_id, amount_cents, refunded_amount_cents, currency, status')
+    .eq('stripe_checkout_session_id', session.id)
+    .maybeSingle();
+
+  if (!payment) {
+    throw new Error(`No payment recorded for checkout session ${session.id}`);
+  }
+
+  const { data: issued } = await supabase
+    .from('ta_client_packages')
+    .select('id')
+    .eq('payment_id', payment.id)
+    .maybeSingle();
+
+  // These credits were already issued
+  if (issued) return;
+
+  // Refunded before it was fulfilled (the offer was full): the money is back with the client
+  if (((payment.refunded_amount_cents as number) || 0) > 0) return;
+
+  // A paid offer's spots are taken as each payment lands; a payment that
+  // finds the offer full is refunded rather than going past the cap
+  if (itemType === 'offer') {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_offer_spot', { p_offer_id: itemId });
+
+    if (claimError) {
+      throw new Error(`Failed to claim offer spot: ${claimError.message}`);
+    }
+    if (!claimed) {
+      await refundFullOfferPayment(supabase, session, payment as ShopPaymentRow);
+      return;
+    }
+  }
+
+  const credits = parseInt(metadata.credits || '0', 10);
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + (parseInt(metadata.expiry_days || '', 10) || DEFAULT_EXPIRY_DAYS));
+
+  const { error: insertError } = await supabase.from('ta_client_packages').insert({
+    client_id: clientId,
+    package_id: itemType === 'package' ? itemId : null,
+    offer_id: itemType === 'offer' ? itemId : null,
+    sessions_total: credits,
+    sessions_used: 0,
+    sessions_remaining: credits,
+    purchased_at: new Date().toISOString(),
+    expires_at: expiresAt.toISOString(),
+    status: 'active',
+    payment_id: payment.id,
+  });
+
+  if (insertError) {
+    // The spot goes with the allocation, so give it back when none was made
+    if (itemType === 'offer') {
+      await supabase.rpc('release_offer_spot', { p_offer_id: itemId });
+    }
+    // Unique on payment_id: a concurrent delivery of this event issued the credits
+    if (insertError.code === '23505') return;
+    throw new Error(`Failed to issue shop credits: ${insertError.message}`);
+  }
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('first_name, last_name, email')
+    .eq('id', clientId)
+    .maybeSingle();
+
+  if (client?.email) {
+    await sendPaymentReceiptEmail({
+      clientEmail: client.email as string,
+      clientName: `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Client',
+      amount: session.amount_total || 0,
+      packageName: metadata.shop_item_name,
+      paymentId: payment.id as string,
+    });
+  }
+}
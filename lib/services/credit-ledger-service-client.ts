@@ -0,0 +1,35 @@
+/**
+ * Client-side Credit Ledger Service
+ *
+ * Uses API routes for client credit ledgers and the reconciliation report
+ */
+
+import type { CreditLedgerEntry, CreditReconciliationReport } from '@/lib/types/credit-ledger';
+
+/**
+ * Studio clients whose stored balances don't match their ledger (client-side)
+ */
+export async function getCreditReconciliationClient(): Promise<CreditReconciliationReport> {
+  const response = await fetch('/api/credits/reconciliation');
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to load credit reconciliation');
+  }
+
+  return body.report as CreditReconciliationReport;
+}
+
+/**
+ * A client's credit ledger, newest first (client-side)
+ */
+export async function getClientCreditLedgerClient(clientId: string): Promise<CreditLedgerEntry[]> {
+  const response = await fetch(`/api/clients/${clientId}/credits/ledger`);
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to load credit ledger');
+  }
+
+  return body.entries as CreditLedgerEntry[];
+}
@@ -0,0 +1,372 @@
+/**
+ * Credit Ledger Service
+ *
+ * Every change to a client's credits is an entry in ta_credit_usage: grants,
+ * uses, refunds, expiries and manual adjustments, for both package
+ * allocations (ta_client_packages.sessions_remaining) and simple credits
+ * (fc_clients.credits). A pool's balance is the sum of its entries; the
+ * stored balances are a cache that the apply_*_credit_entry functions change
+ * together with the entry. The reconciliation report finds pools where the
+ * two have drifted apart.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type {
+  CreditEntryType,
+  CreditLedgerEntry,
+  CreditReconciliationMismatch,
+  CreditReconciliationReport,
+} from '@/lib/types/credit-ledger';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface CreditEntryInput {
+  entryType: CreditEntryType;
+  /** Credits added (+) or taken (-) */
+  credits: number;
+  reason: string;
+  bookingId?: string | null;
+  notes?: string | null;
+  createdBy?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+interface LedgerRow {
+  id: string;
+  client_id: string;
+  client_package_id: string | null;
+  booking_id: string | null;
+  entry_type: CreditEntryType;
+  credits_used: number;
+  balance_after: number | null;
+  reason: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface LedgerBalanceRow {
+  client_id: string;
+  client_package_id: string | null;
+  balance: number;
+  entry_count: number;
+  last_entry_at: string | null;
+}
+
+/** Keeps .in() filters to a sensible URL length */
+const CHUNK_SIZE = 200;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toEntryParams(entry: CreditEntryInput) {
+  return {
+    p_credits: entry.credits,
+    p_entry_type: entry.entryType,
+    p_reason: entry.reason,
+    p_booking_id: entry.bookingId ?? null,
+    p_notes: entry.notes ?? null,
+    p_created_by: entry.createdBy ?? null,
+    p_metadata: entry.metadata ?? null,
+  };
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// ── Entries ──────────────────────────────────────────────────────────────────
+
+/**
+ * Change a client's simple credits and record the entry. Returns the new
+ * balance. Fails with 'Insufficient credits' rather than going negative.
+ */
+export async function applySimpleCreditEntry(
+  clientId: string,
+  entry: CreditEntryInput
+): Promise<{ data: number | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase.rpc('apply_simple_credit_entry', {
+      p_client_id: clientId,
+      ...toEntryParams(entry),
+    });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as number, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Change one package allocation's remaining credits and record the entry.
+ * Returns the new balance. Fails with 'Insufficient credits' rather than
+ * going negative.
+ */
+export async function applyPackageCreditEntry(
+  clientPackageId: string,
+  entry: CreditEntryInput
+): Promise<{ data: number | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase.rpc('apply_package_credit_entry', {
+      p_client_package_id: clientPackageId,
+      ...toEntryParams(entry),
+    });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as number, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Give credits back for a booking: to the package the booking used, or to
+ * the client's simple credits when it used none or the package is gone.
+ * Returns the credits refunded.
+ */
+export async function refundBookingCredits(params: {
+  bookingId: string;
+  clientId: string;
+  credits: number;
+  notes: string;
+  createdBy?: string | null;
+}): Promise<{ data: number | null; error: Error | null }> {
+  if (params.credits <= 0) return { data: 0, error: null };
+
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: usage } = await supabase
+      .from('ta_credit_usage')
+      .select('client_package_id')
+      .eq('booking_id', params.bookingId)
+      .eq('entry_type', 'use')
+      .not('client_package_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const entry: CreditEntryInput = {
+      entryType: 'refund',
+      credits: params.credits,
+      reason: 'refund',
+      bookingId: params.bookingId,
+      notes: params.notes,
+      createdBy: params.createdBy,
+    };
+
+    if (usage?.client_package_id) {
+      const { error } = await applyPackageCreditEntry(usage.client_package_id as string, entry);
+      if (!error) return { data: params.credits, error: null };
+      if (!error.message.includes('not found')) return { data: null, error };
+    }
+
+    const { error } = await applySimpleCreditEntry(params.clientId, entry);
+    if (error) return { data: null, error };
+
+    return { data: params.credits, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Re-point a client's entries at a new client record, e.g. when a guest
+ * signs up and their record is replaced.
+ */
+export async function moveClientLedger(fromClientId: string, toClientId: string): Promise<{ error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { error } = await supabase
+      .from('ta_credit_usage')
+      .update({ client_id: toClientId })
+      .eq('client_id', fromClientId);
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+// ── Reads ────────────────────────────────────────────────────────────────────
+
+/**
+ * A client's ledger, newest first, for staff in the client's studio.
+ */
+export async function getClientCreditLedger(params: {
+  clientId: string;
+  studioId: string;
+}): Promise<{ data: CreditLedgerEntry[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: client } = await supabase
+      .from('fc_clients')
+      .select('id, studio_id')
+      .eq('id', params.clientId)
+      .maybeSingle();
+
+    if (!client || client.studio_id !== params.studioId) {
+      return { data: null, error: new Error('Client not found') };
+    }
+
+    const { data, error } = await supabase
+      .from('ta_credit_usage')
+      .select('id, client_id, client_package_id, booking_id, entry_type, credits_used, balance_after, reason, notes, created_by, created_at')
+      .eq('client_id', params.clientId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const entries: CreditLedgerEntry[] = ((data || []) as LedgerRow[]).map((row) => ({
+      id: row.id,
+      clientId: row.client_id,
+      clientPackageId: row.client_package_id,
+      bookingId: row.booking_id,
+      entryType: row.entry_type,
+      credits: -row.credits_used,
+      balanceAfter: row.balance_after,
+      reason: row.reason,
+      notes: row.notes,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    }));
+
+    return { data: entries, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Compare every stored balance in the studio with the sum of its ledger
+ * entries: each client's simple credits and each of their packages.
+ */
+export async function getCreditReconciliation(
+  studioId: string
+): Promise<{ data: CreditReconciliationReport | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: clients, error: clientsError } = await supabase
+      .from('fc_clients')
+      .select('id, first_name, last_name, name, email, credits')
+      .eq('studio_id', studioId);
+
+    if (clientsError) {
+      return { data: null, error: new Error(clientsError.message) };
+    }
+
+    const clientRows = (clients || []) as Array<{
+      id: string;
+      first_name: string | null;
+      last_name: string | null;
+      name: string | null;
+      email: string | null;
+      credits: number | null;
+    }>;
+
+    const packages: Array<{
+      id: string;
+      client_id: string;
+      sessions_remaining: number | null;
+      ta_packages: { name?: string } | null;
+    }> = [];
+    const ledger = new Map<string, LedgerBalanceRow>();
+    const poolKey = (clientId: string, clientPackageId: string | null) => `${clientId}:${clientPackageId || 'simple'}`;
+
+    for (const ids of chunk(clientRows.map((c) => c.id))) {
+      const [{ data: packageRows, error: packagesError }, { data: balanceRows, error: balancesError }] = await Promise.all([
+        supabase
+          .from('ta_client_packages')
+          .select('id, client_id, sessions_remaining, ta_packages(name)')
+          .in('client_id', ids),
+        supabase
+          .from('ta_credit_ledger_balances')
+          .select('client_id, client_package_id, balance, entry_count, last_entry_at')
+          .in('client_id', ids),
+      ]);
+
+      if (packagesError || balancesError) {
+        return { data: null, error: new Error((packagesError || balancesError)!.message) };
+      }
+
+      packages.push(...(packageRows || []));
+      for (const row of (balanceRows || []) as LedgerBalanceRow[]) {
+        ledger.set(poolKey(row.client_id, row.client_package_id), row);
+      }
+    }
+
+    const clientsById = new Map(clientRows.map((c) => [c.id, c]));
+    const mismatches: CreditReconciliationMismatch[] = [];
+
+    const check = (
+      clientId: string,
+      clientPackageId: string | null,
+      packageName: string | null,
+      storedBalance: number
+    ) => {
+      const entries = ledger.get(poolKey(clientId, clientPackageId));
+      const ledgerBalance = entries?.balance ?? 0;
+      if (storedBalance === ledgerBalance) return;
+
+      const client = clientsById.get(clientId);
+      mismatches.push({
+        clientId,
+        clientName:
+          `${client?.first_name || ''} ${client?.last_name || ''}`.trim() || client?.name || 'Client',
+        clientEmail: client?.email || null,
+        pool: clientPackageId ? 'package' : 'simple',
+        clientPackageId,
+        packageName,
+        storedBalance,
+        ledgerBalance,
+        difference: storedBalance - ledgerBalance,
+        entryCount: entries?.entry_count ?? 0,
+        lastEntryAt: entries?.last_entry_at ?? null,
+      });
+    };
+
+    for (const client of clientRows) {
+      check(client.id, null, null, client.credits || 0);
+    }
+    for (const pkg of packages) {
+      check(pkg.client_id, pkg.id, pkg.ta_packages?.name || null, pkg.sessions_remaining || 0);
+    }
+
+    mismatches.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+    return {
+      data: {
+        clientsChecked: clientRows.length,
+        poolsChecked: clientRows.length + packages.length,
+        mismatches,
+        generatedAt: new Date().toISOString(),
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
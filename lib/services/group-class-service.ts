@@ -0,0 +1,276 @@
+/**
+ * Group Class Service
+ *
+ * Group and duet services (ta_services.max_capacity > 1) are booked as one
+ * ta_bookings row per attendee. Rows with the same trainer, service and start
+ * time form one class instance; they share the slot up to max_capacity
+ * instead of conflicting with each other.
+ *
+ * Slot checks also keep the service buffers, the studio's minimum gap and the
+ * trainer's travel time free around every other booking, and make sure the
+ * rooms and equipment the service needs are free across all trainers, and
+ * that the trainer isn't busy in a connected external calendar.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getTrainerBufferRules } from '@/lib/services/studio-service';
+import { checkResourceConflicts } from '@/lib/services/resource-service';
+import { getImportedBusyIntervals } from '@/lib/services/calendar-sync-service';
+import { MAX_BUFFER_MINUTES, getServiceBuffers, violatesBuffers } from '@/lib/utils/booking-buffers';
+import { unexpiredHoldFilter } from '@/lib/utils/soft-holds';
+import type { ClassRoster, ClassRosterAttendee } from '@/lib/types/group-class';
+import type { ResourceConflict } from '@/lib/types/resource';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Booking statuses that occupy a place in a slot or class. */
+export const ACTIVE_BOOKING_STATUSES = ['confirmed', 'soft-hold', 'checked-in'];
+
+export interface SlotCapacityResult {
+  hasConflict: boolean;
+  /** Places taken in the matching class instance (0 for 1-2-1 services) */
+  attendeeCount: number;
+  /** max_capacity of the service being booked (1 for 1-2-1) */
+  capacity: number;
+  /** The slot only conflicts because of buffer or travel time, not a direct overlap */
+  bufferConflict: boolean;
+  /** Required resources with no free unit; blocking ones also set hasConflict */
+  resourceConflicts: ResourceConflict[];
+  /** Overlaps busy time imported from the trainer's external calendar */
+  calendarBusy: boolean;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Two bookings belong to the same class instance. */
+export function isSameClass(
+  a: { service_id: string | null; scheduled_at: string },
+  b: { service_id: string | null; scheduled_at: string }
+): boolean {
+  return (
+    !!a.service_id &&
+    a.service_id === b.service_id &&
+    new Date(a.scheduled_at).getTime() === new Date(b.scheduled_at).getTime()
+  );
+}
+
+/** max_capacity of a service, treating unknown or missing services as 1-2-1. */
+export async function getServiceCapacity(serviceId: string | null | undefined): Promise<number> {
+  if (!serviceId) return 1;
+
+  const supabase = createServiceRoleClient();
+  const { data: service } = await supabase
+    .from('ta_services')
+    .select('max_capacity')
+    .eq('id', serviceId)
+    .maybeSingle();
+
+  return Math.max(1, (service?.max_capacity as number) || 1);
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Check whether a booking fits the trainer's schedule. For a group service,
+ * joining an existing instance of the same class is allowed until it is full;
+ * any other overlapping booking is a conflict.
+ */
+export async function checkSlotCapacity(params: {
+  trainerId: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  serviceId?: string | null;
+  excludeBookingId?: string;
+  /** Location of the booking being made; defaults to the service's, then the trainer's studio */
+  locationId?: string | null;
+}): Promise<{ data: SlotCapacityResult | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const scheduledDate = new Date(params.scheduledAt);
+    const endTime = new Date(scheduledDate.getTime() + params.durationMinutes * 60 * 1000);
+
+    const { data: service } = params.serviceId
+      ? await supabase
+          .from('ta_services')
+          .select('max_capacity, booking_buffer_minutes, booking_buffer_before_minutes, location_id')
+          .eq('id', params.serviceId)
+          .maybeSingle()
+      : { data: null };
+    const capacity = Math.max(1, (service?.max_capacity as number) || 1);
+    const rules = await getTrainerBufferRules(params.trainerId);
+
+    // Widest gap any neighbouring booking can require (buffer plus travel)
+    const lookaroundMs = MAX_BUFFER_MINUTES * 2 * 60 * 1000;
+
+    const { data: existingBookings, error } = await supabase
+      .from('ta_bookings')
+      .select('id, service_id, studio_id, location_id, scheduled_at, duration, service:ta_services(booking_buffer_minutes, booking_buffer_before_minutes)')
+      .eq('trainer_id', params.trainerId)
+      .in('status', ACTIVE_BOOKING_STATUSES)
+      .or(unexpiredHoldFilter())
+      .gte('scheduled_at', new Date(scheduledDate.getTime() - 120 * 60 * 1000 - lookaroundMs).toISOString())
+      .lte('scheduled_at', new Date(endTime.getTime() + lookaroundMs).toISOString());
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const candidate = { service_id: params.serviceId ?? null, scheduled_at: params.scheduledAt };
+    const bufferedCandidate = {
+      start: scheduledDate,
+      end: endTime,
+      buffers: getServiceBuffers(service),
+      locationId: params.locationId || (service?.location_id as string) || rules.studioId,
+    };
+    let attendeeCount = 0;
+    let hasConflict = false;
+    let bufferConflict = false;
+
+    for (const existing of existingBookings || []) {
+      if (existing.id === params.excludeBookingId) continue;
+
+      const existingStart = new Date(existing.scheduled_at as string);
+      const existingEnd = new Date(existingStart.getTime() + (existing.duration as number) * 60 * 1000);
+
+      if (!(scheduledDate < existingEnd && endTime > existingStart)) {
+        const bufferedExisting = {
+          start: existingStart,
+          end: existingEnd,
+          buffers: getServiceBuffers(existing.service),
+          locationId: (existing.location_id as string) || (existing.studio_id as string) || null,
+        };
+        if (violatesBuffers(bufferedCandidate, bufferedExisting, rules)) {
+          bufferConflict = true;
+        }
+        continue;
+      }
+
+      if (capacity > 1 && isSameClass(candidate, existing as { service_id: string | null; scheduled_at: string })) {
+        attendeeCount++;
+      } else {
+        hasConflict = true;
+      }
+    }
+
+    if (attendeeCount >= capacity) {
+      hasConflict = true;
+    }
+
+    const { data: resourceConflicts, error: resourceError } = await checkResourceConflicts({
+      serviceId: params.serviceId,
+      trainerId: params.trainerId,
+      scheduledAt: params.scheduledAt,
+      durationMinutes: params.durationMinutes,
+      excludeBookingId: params.excludeBookingId,
+      activeStatuses: ACTIVE_BOOKING_STATUSES,
+    });
+
+    if (resourceError) {
+      return { data: null, error: resourceError };
+    }
+
+    const resourceBlocked = resourceConflicts.some((conflict) => conflict.blocking);
+
+    const { data: busyIntervals, error: busyError } = await getImportedBusyIntervals(
+      params.trainerId,
+      scheduledDate,
+      endTime
+    );
+
+    if (busyError) {
+      return { data: null, error: busyError };
+    }
+
+    const calendarBusy = busyIntervals.length > 0;
+
+    return {
+      data: {
+        hasConflict: hasConflict || bufferConflict || resourceBlocked || calendarBusy,
+        attendeeCount,
+        capacity,
+        bufferConflict: bufferConflict && !hasConflict,
+        resourceConflicts,
+        calendarBusy,
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Fetch the roster for the class instance a booking belongs to.
+ * For a 1-2-1 booking the roster is just that booking.
+ */
+export async function getClassRoster(
+  bookingId: string
+): Promise<{ data: ClassRoster | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('ta_bookings')
+      .select('id, trainer_id, service_id, scheduled_at, duration, service:ta_services(name, max_capacity)')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (bookingError) {
+      return { data: null, error: new Error(bookingError.message) };
+    }
+    if (!booking) {
+      return { data: null, error: new Error('Booking not found') };
+    }
+
+    const service = booking.service as { name?: string; max_capacity?: number } | null;
+
+    let query = supabase
+      .from('ta_bookings')
+      .select('id, client_id, status, hold_expiry, created_at, client:fc_clients(first_name, last_name, credits)')
+      .eq('trainer_id', booking.trainer_id)
+      .eq('scheduled_at', booking.scheduled_at)
+      .in('status', [...ACTIVE_BOOKING_STATUSES, 'completed', 'no-show'])
+      .or(unexpiredHoldFilter())
+      .order('created_at', { ascending: true });
+
+    query = booking.service_id
+      ? query.eq('service_id', booking.service_id)
+      : query.eq('id', booking.id);
+
+    const { data: rows, error: rosterError } = await query;
+
+    if (rosterError) {
+      return { data: null, error: new Error(rosterError.message) };
+    }
+
+    const attendees: ClassRosterAttendee[] = (rows || []).map((row: Record<string, unknown>) => {
+      const client = row.client as { first_name?: string; last_name?: string; credits?: number } | null;
+      return {
+        bookingId: row.id as string,
+        clientId: (row.client_id as string) || null,
+        clientName: client
+          ? `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Client'
+          : 'Client',
+        credits: client?.credits ?? null,
+        status: row.status as string,
+        holdExpiry: (row.hold_expiry as string) || null,
+      };
+    });
+
+    return {
+      data: {
+        trainerId: booking.trainer_id as string,
+        serviceId: (booking.service_id as string) || '',
+        serviceName: service?.name || 'Session',
+        scheduledAt: booking.scheduled_at as string,
+        duration: booking.duration as number,
+        capacity: Math.max(1, service?.max_capacity || 1),
+        attendees,
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
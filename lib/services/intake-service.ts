@@ -0,0 +1,359 @@
+/**
+ * Intake Service
+ *
+ * Business logic for the intake questions a studio asks per service
+ * (ta_service_intake_questions) and the answers clients give when booking
+ * (ta_booking_intake_answers). Answers given with a booking request or a
+ * waitlist place move to the booking once it is created.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type {
+  BookingIntakeAnswer,
+  IntakeAnswerInput,
+  IntakeQuestion,
+  IntakeQuestionInput,
+  IntakeQuestionType,
+} from '@/lib/types/intake';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface IntakeQuestionRow {
+  id: string;
+  service_id: string;
+  label: string;
+  type: IntakeQuestionType;
+  options: string[] | null;
+  required: boolean;
+  position: number;
+}
+
+interface IntakeAnswerRow {
+  id: string;
+  question_id: string | null;
+  question_label: string;
+  question_type: IntakeQuestionType;
+  answer: string;
+  position: number;
+}
+
+/** An answer checked against its question, ready to store */
+export interface ValidIntakeAnswer {
+  questionId: string;
+  questionLabel: string;
+  questionType: IntakeQuestionType;
+  answer: string;
+  position: number;
+}
+
+/** What the answers are stored against */
+export type IntakeAnswerTarget =
+  | { bookingId: string }
+  | { bookingRequestId: string }
+  | { waitlistEntryId: string };
+
+const QUESTION_TYPES: IntakeQuestionType[] = ['text', 'choice', 'yes_no'];
+const MAX_QUESTIONS = 20;
+const MAX_LABEL_LENGTH = 200;
+const MAX_ANSWER_LENGTH = 2000;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toQuestion(row: IntakeQuestionRow): IntakeQuestion {
+  return {
+    id: row.id,
+    serviceId: row.service_id,
+    label: row.label,
+    type: row.type,
+    options: row.options || [],
+    required: row.required,
+    position: row.position,
+  };
+}
+
+function cleanOptions(options: string[] | undefined): string[] {
+  return [...new Set((options || []).map((o) => o.trim()).filter(Boolean))];
+}
+
+function targetColumn(target: IntakeAnswerTarget): { column: string; id: string } {
+  if ('bookingId' in target) return { column: 'booking_id', id: target.bookingId };
+  if ('bookingRequestId' in target) return { column: 'booking_request_id', id: target.bookingRequestId };
+  return { column: 'waitlist_entry_id', id: target.waitlistEntryId };
+}
+
+// ── Questions ────────────────────────────────────────────────────────────────
+
+/**
+ * A service's intake questions, in the order they are asked.
+ */
+export async function getServiceIntakeQuestions(
+  serviceId: string
+): Promise<{ data: IntakeQuestion[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('ta_service_intake_questions')
+      .select('*')
+      .eq('service_id', serviceId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: ((data || []) as IntakeQuestionRow[]).map(toQuestion), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Replace a service's intake questions. Questions keep their id when edited
+ * so earlier answers stay linked; questions left out are removed.
+ */
+export async function setServiceIntakeQuestions(
+  serviceId: string,
+  questions: IntakeQuestionInput[]
+): Promise<{ data: IntakeQuestion[] | null; error: Error | null }> {
+  try {
+    if (questions.length > MAX_QUESTIONS) {
+      return { data: null, error: new Error(`A service can have at most ${MAX_QUESTIONS} intake questions`) };
+    }
+
+    const cleaned: IntakeQuestionInput[] = [];
+    for (const question of questions) {
+      const label = (question.label || '').trim();
+      if (!label) {
+        return { data: null, error: new Error('Intake questions need a question') };
+      }
+      if (label.length > MAX_LABEL_LENGTH) {
+        return { data: null, error: new Error(`Intake questions must be ${MAX_LABEL_LENGTH} characters or fewer`) };
+      }
+      if (!QUESTION_TYPES.includes(question.type)) {
+        return { data: null, error: new Error(`Invalid intake question type: ${question.type}`) };
+      }
+      const options = question.type === 'choice' ? cleanOptions(question.options) : [];
+      if (question.type === 'choice' && options.length < 2) {
+        return { data: null, error: new Error(`"${label}" needs at least two choices`) };
+      }
+      cleaned.push({ id: question.id, label, type: question.type, options, required: !!question.required });
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: existing, error: existingError } = await supabase
+      .from('ta_service_intake_questions')
+      .select('id')
+      .eq('service_id', serviceId);
+
+    if (existingError) {
+      return { data: null, error: new Error(existingError.message) };
+    }
+
+    const existingIds = new Set<string>((existing || []).map((row: { id: string }) => row.id));
+    const keptIds = new Set(cleaned.map((q) => q.id).filter((id): id is string => !!id && existingIds.has(id)));
+    const removedIds = [...existingIds].filter((id) => !keptIds.has(id));
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('ta_service_intake_questions')
+        .delete()
+        .in('id', removedIds);
+
+      if (deleteError) {
+        return { data: null, error: new Error(deleteError.message) };
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const [position, question] of cleaned.entries()) {
+      const row = {
+        service_id: serviceId,
+        label: question.label,
+        type: question.type,
+        options: question.options,
+        required: question.required,
+        position,
+        updated_at: now,
+      };
+
+      const { error } =
+        question.id && keptIds.has(question.id)
+          ? await supabase.from('ta_service_intake_questions').update(row).eq('id', question.id)
+          : await supabase.from('ta_service_intake_questions').insert(row);
+
+      if (error) {
+        return { data: null, error: new Error(error.message) };
+      }
+    }
+
+    return getServiceIntakeQuestions(serviceId);
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+// ── Answers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Check a client's answers against the questions asked. Every required
+ * question needs an answer, choices must be one of the options and yes/no
+ * answers 'yes' or 'no'. Unanswered optional questions are left out.
+ */
+export function validateIntakeAnswers(
+  questions: IntakeQuestion[],
+  answers: IntakeAnswerInput[] | undefined
+): { data: ValidIntakeAnswer[] | null; error: Error | null } {
+  const given = new Map((answers || []).map((a) => [a.questionId, (a.answer ?? '').toString().trim()]));
+  const valid: ValidIntakeAnswer[] = [];
+
+  for (const question of questions) {
+    const answer = given.get(question.id) || '';
+
+    if (!answer) {
+      if (question.required) {
+        return { data: null, error: new Error(`Please answer: ${question.label}`) };
+      }
+      continue;
+    }
+
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      return { data: null, error: new Error(`Please shorten your answer to: ${question.label}`) };
+    }
+    if (question.type === 'choice' && !question.options.includes(answer)) {
+      return { data: null, error: new Error(`Please choose one of the options for: ${question.label}`) };
+    }
+    if (question.type === 'yes_no' && answer !== 'yes' && answer !== 'no') {
+      return { data: null, error: new Error(`Please answer yes or no: ${question.label}`) };
+    }
+
+    valid.push({
+      questionId: question.id,
+      questionLabel: question.label,
+      questionType: question.type,
+      answer,
+      position: question.position,
+    });
+  }
+
+  return { data: valid, error: null };
+}
+
+/**
+ * Load a service's questions and check a client's answers against them.
+ */
+export async function checkServiceIntakeAnswers(
+  serviceId: string,
+  answers: IntakeAnswerInput[] | undefined
+): Promise<{ data: ValidIntakeAnswer[] | null; error: Error | null }> {
+  const { data: questions, error } = await getServiceIntakeQuestions(serviceId);
+  if (error || !questions) {
+    return { data: null, error: error || new Error('Failed to load intake questions') };
+  }
+
+  return validateIntakeAnswers(questions, answers);
+}
+
+/**
+ * Store checked answers against a booking, booking request or waitlist place.
+ */
+export async function saveIntakeAnswers(
+  target: IntakeAnswerTarget,
+  answers: ValidIntakeAnswer[]
+): Promise<{ error: Error | null }> {
+  if (answers.length === 0) return { error: null };
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { column, id } = targetColumn(target);
+
+    const { error } = await supabase.from('ta_booking_intake_answers').insert(
+      answers.map((answer) => ({
+        [column]: id,
+        question_id: answer.questionId,
+        question_label: answer.questionLabel,
+        question_type: answer.questionType,
+        answer: answer.answer,
+        position: answer.position,
+      }))
+    );
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Move the answers given with a booking request or waitlist place onto the
+ * booking made from it. A failure is logged and never fails the booking.
+ */
+export async function attachIntakeAnswersToBooking(
+  source: { bookingRequestId: string } | { waitlistEntryId: string },
+  bookingId: string
+): Promise<void> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { column, id } = targetColumn(source);
+
+    const { error } = await supabase
+      .from('ta_booking_intake_answers')
+      .update({ booking_id: bookingId })
+      .eq(column, id);
+
+    if (error) {
+      console.error('Error attaching intake answers to booking:', error);
+    }
+  } catch (err) {
+    console.error('Error attaching intake answers to booking:', err);
+  }
+}
+
+/**
+ * A booking's intake answers, for staff in the booking's studio.
+ */
+export async function getBookingIntakeAnswers(params: {
+  bookingId: string;
+  studioId: string;
+}): Promise<{ data: BookingIntakeAnswer[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: booking } = await supabase
+      .from('ta_bookings')
+      .select('id, studio_id')
+      .eq('id', params.bookingId)
+      .maybeSingle();
+
+    if (!booking || booking.studio_id !== params.studioId) {
+      return { data: null, error: new Error('Booking not found') };
+    }
+
+    const { data, error } = await supabase
+      .from('ta_booking_intake_answers')
+      .select('id, question_id, question_label, question_type, answer, position')
+      .eq('booking_id', params.bookingId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const answers: BookingIntakeAnswer[] = ((data || []) as IntakeAnswerRow[]).map((row) => ({
+      id: row.id,
+      questionId: row.question_id,
+      questionLabel: row.question_label,
+      questionType: row.question_type,
+      answer: row.answer,
+    }));
+
+    return { data: answers, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Client-side Leave Service
+ *
+ * Uses API routes for trainer leave requests and the bookings they affect
+ */
+
+import type {
+  LeaveAffectedBooking,
+  LeaveBookingActionInput,
+  LeaveBookingActionResult,
+  LeaveRequest,
+  LeaveRequestInput,
+  LeaveReviewInput,
+  LeaveStatus,
+} from '@/lib/types/leave';
+
+/**
+ * Get leave requests (client-side). Owners and managers get the whole
+ * studio's; trainers get their own.
+ */
+export async function getLeaveRequestsClient(status?: LeaveStatus): Promise<LeaveRequest[]> {
+  try {
+    const params = new URLSearchParams();
+    if (status) {
+      params.set('status', status);
+    }
+
+    const response = await fetch(`/api/leave-requests?${params.toString()}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching leave requests:', error);
+      return [];
+    }
+
+    const { leaveRequests } = await response.json();
+    return leaveRequests as LeaveRequest[];
+  } catch (error) {
+    console.error('Error fetching leave requests:', error);
+    return [];
+  }
+}
+
+/**
+ * Request days off (client-side)
+ */
+export async function createLeaveRequestClient(input: LeaveRequestInput): Promise<LeaveRequest> {
+  const response = await fetch('/api/leave-requests', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to request leave');
+  }
+
+  return body.leaveRequest as LeaveRequest;
+}
+
+/**
+ * Approve or decline a leave request (client-side)
+ */
+export async function reviewLeaveRequestClient(id: string, input: LeaveReviewInput): Promise<LeaveRequest> {
+  const response = await fetch(`/api/leave-requests/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to review leave request');
+  }
+
+  return body.leaveRequest as LeaveRequest;
+}
+
+/**
+ * Withdraw a leave request (client-side)
+ */
+export async function cancelLeaveRequestClient(id: string): Promise<LeaveRequest> {
+  const response = await fetch(`/api/leave-requests/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'cancelled' }),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to cancel leave request');
+  }
+
+  return body.leaveRequest as LeaveRequest;
+}
+
+/**
+ * Get the bookings that fall inside a leave (client-side)
+ */
+export async function getLeaveImpactClient(id: string): Promise<LeaveAffectedBooking[]> {
+  const response = await fetch(`/api/leave-requests/${id}/impact`);
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to load affected bookings');
+  }
+
+  return body.bookings as LeaveAffectedBooking[];
+}
+
+/**
+ * Reassign, offer new times for, or cancel bookings inside a leave (client-side)
+ */
+export async function applyLeaveActionClient(
+  id: string,
+  input: LeaveBookingActionInput
+): Promise<LeaveBookingActionResult> {
+  const response = await fetch(`/api/leave-requests/${id}/actions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to update bookings');
+  }
+
+  return body.result as LeaveBookingActionResult;
+}
@@ -0,0 +1,752 @@
+/**
+ * Leave Service
+ *
+ * Trainer time off. A trainer requests whole days off and a studio owner or
+ * manager approves or declines. Approved days are blocked in ta_availability
+ * (source 'leave') so nothing new can be booked, and the bookings already in
+ * those days are listed so they can be reassigned to another trainer, offered
+ * new times with the same trainer, or cancelled with a full credit refund.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { sendBookingCancelledEmail, sendBookingTimeProposalEmail } from '@/lib/notifications/email-service';
+import { deleteBooking, reassignBookingTrainer } from '@/lib/services/booking-service';
+import { getBookableSlots } from '@/lib/services/slot-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import { refundBookingCredits } from '@/lib/services/credit-ledger-service';
+import {
+  addDaysToDateKey,
+  getDateKeyDayOfWeek,
+  getZonedDateKey,
+  parseDateKey,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
+import type {
+  LeaveAffectedBooking,
+  LeaveBookingActionInput,
+  LeaveBookingActionResult,
+  LeaveRequest,
+  LeaveRequestInput,
+  LeaveReviewInput,
+  LeaveStatus,
+} from '@/lib/types/leave';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+interface LeaveRequestRow {
+  id: string;
+  studio_id: string;
+  trainer_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+interface AffectedBookingRow {
+  id: string;
+  scheduled_at: string;
+  duration: number | null;
+  status: string;
+  client_id: string | null;
+  service_id: string | null;
+  client: { first_name: string | null; last_name: string | null; email: string | null } | null;
+  service: { name: string | null } | null;
+}
+
+/** Longest leave that can be requested in one go */
+const MAX_LEAVE_DAYS = 90;
+
+/** Bookings in these statuses still need dealing with */
+const AFFECTED_STATUSES = ['confirmed', 'soft-hold'];
+
+/** How many new times a client is offered, and how far after the leave we look */
+const PROPOSAL_COUNT = 3;
+const PROPOSAL_SEARCH_DAYS = 14;
+const PROPOSAL_EXPIRY_HOURS = 72;
+
+const LEAVE_BLOCK_REASON = 'Leave';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function fullName(person: { first_name: string | null; last_name: string | null } | null | undefined, fallback: string): string {
+  if (!person) return fallback;
+  return `${person.first_name || ''} ${person.last_name || ''}`.trim() || fallback;
+}
+
+async function getTrainerNames(supabase: ServiceClient, trainerIds: string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(trainerIds)];
+  if (ids.length === 0) return new Map();
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, first_name, last_name')
+    .in('id', ids);
+
+  return new Map<string, string>(
+    (profiles || []).map((p: { id: string; first_name: string | null; last_name: string | null }) => [
+      p.id,
+      fullName(p, 'Trainer'),
+    ])
+  );
+}
+
+function toLeaveRequest(row: LeaveRequestRow, trainerName: string): LeaveRequest {
+  return {
+    id: row.id,
+    studioId: row.studio_id,
+    trainerId: row.trainer_id,
+    trainerName,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    reason: row.reason,
+    status: row.status,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    reviewNote: row.review_note,
+    createdAt: row.created_at,
+  };
+}
+
+async function getLeaveRow(
+  supabase: ServiceClient,
+  studioId: string,
+  leaveRequestId: string
+): Promise<LeaveRequestRow | null> {
+  const { data, error } = await supabase
+    .from('ta_leave_requests')
+    .select('*')
+    .eq('id', leaveRequestId)
+    .eq('studio_id', studioId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data as LeaveRequestRow | null) || null;
+}
+
+/** One whole-day blocked row per day of the leave, in the trainer's zone */
+function leaveToAvailabilityRows(leave: LeaveRequestRow): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  for (let dateKey = leave.start_date; dateKey <= leave.end_date; dateKey = addDaysToDateKey(dateKey, 1)) {
+    rows.push({
+      trainer_id: leave.trainer_id,
+      studio_id: leave.studio_id,
+      block_type: 'blocked',
+      recurrence: 'once',
+      day_of_week: getDateKeyDayOfWeek(dateKey),
+      specific_date: dateKey,
+      start_hour: 0,
+      start_minute: 0,
+      end_hour: 23,
+      end_minute: 59,
+      reason: LEAVE_BLOCK_REASON,
+      source: 'leave',
+      leave_request_id: leave.id,
+    });
+  }
+  return rows;
+}
+
+/** Upcoming bookings of the trainer that fall inside the leave */
+async function getAffectedBookingRows(
+  supabase: ServiceClient,
+  leave: LeaveRequestRow
+): Promise<AffectedBookingRow[]> {
+  const timezone = await getTrainerTimezone(leave.trainer_id);
+  const from = zonedTimeToUtc(parseDateKey(leave.start_date), timezone);
+  const to = zonedTimeToUtc(parseDateKey(addDaysToDateKey(leave.end_date, 1)), timezone);
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from('ta_bookings')
+    .select(`
+      id,
+      scheduled_at,
+      duration,
+      status,
+      client_id,
+      service_id,
+      client:fc_clients(first_name, last_name, email),
+      service:ta_services(name)
+    `)
+    .eq('trainer_id', leave.trainer_id)
+    .in('status', AFFECTED_STATUSES)
+    .gte('scheduled_at', (from > now ? from : now).toISOString())
+    .lt('scheduled_at', to.toISOString())
+    .order('scheduled_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as AffectedBookingRow[];
+}
+
+async function withdrawPendingProposals(supabase: ServiceClient, bookingId: string): Promise<void> {
+  await supabase
+    .from('ta_booking_time_proposals')
+    .update({ status: 'withdrawn' })
+    .eq('booking_id', bookingId)
+    .eq('status', 'pending');
+}
+
+/**
+ * Return everything the booking took from the client's credits: to the
+ * package it came from, else to their simple credit balance. Works from the
+ * booking's net usage, so running it again after a refund returns nothing.
+ */
+async function refundLeaveBookingCredits(
+  supabase: ServiceClient,
+  booking: { id: string; client_id: string | null }
+): Promise<{ data: number; error: Error | null }> {
+  if (!booking.client_id) return { data: 0, error: null };
+
+  const { data: usage, error: usageError } = await supabase
+    .from('ta_credit_usage')
+    .select('credits_used')
+    .eq('booking_id', booking.id);
+
+  if (usageError) {
+    return { data: 0, error: new Error(usageError.message) };
+  }
+
+  const credits = (usage || []).reduce(
+    (sum: number, row: Record<string, unknown>) => sum + ((row.credits_used as number) || 0),
+    0
+  );
+  if (credits <= 0) return { data: 0, error: null };
+
+  const { data: refunded, error } = await refundBookingCredits({
+    bookingId: booking.id,
+    clientId: booking.client_id,
+    credits,
+    notes: 'Credit refund for session cancelled due to trainer leave',
+  });
+
+  if (error) {
+    console.error('Error refunding credits for leave cancellation:', error);
+    return { data: 0, error: new Error(`Credits could not be refunded: ${error.message}`) };
+  }
+  return { data: refunded || 0, error: null };
+}
+
+/**
+ * Up to PROPOSAL_COUNT free times with the same trainer after the leave,
+ * spread over different days where possible.
+ */
+async function findProposedTimes(
+  leave: LeaveRequestRow,
+  booking: AffectedBookingRow,
+  timezone: string
+): Promise<{ data: string[] | null; error: Error | null }> {
+  if (!booking.service_id) {
+    return { data: null, error: new Error('Booking has no service to find new times for') };
+  }
+
+  const today = getZonedDateKey(new Date(), timezone);
+  const dayAfterLeave = addDaysToDateKey(leave.end_date, 1);
+  const from = dayAfterLeave > today ? dayAfterLeave : today;
+
+  const { data: slots, error } = await getBookableSlots({
+    serviceId: booking.service_id,
+    trainerIds: [leave.trainer_id],
+    from,
+    to: addDaysToDateKey(from, PROPOSAL_SEARCH_DAYS - 1),
+    excludeBookingId: booking.id,
+  });
+
+  if (error) return { data: null, error };
+
+  const available = (slots?.slots || []).filter((slot) => new Date(slot.startsAt) > new Date());
+  const chosen: string[] = [];
+  const days = new Set<string>();
+
+  for (const slot of available) {
+    if (chosen.length >= PROPOSAL_COUNT) break;
+    const day = getZonedDateKey(slot.startsAt, timezone);
+    if (days.has(day)) continue;
+    days.add(day);
+    chosen.push(slot.startsAt);
+  }
+  for (const slot of available) {
+    if (chosen.length >= PROPOSAL_COUNT) break;
+    if (!chosen.includes(slot.startsAt)) chosen.push(slot.startsAt);
+  }
+
+  if (chosen.length === 0) {
+    return { data: null, error: new Error(`No free times in the ${PROPOSAL_SEARCH_DAYS} days after the leave`) };
+  }
+
+  return { data: chosen.sort(), error: null };
+}
+
+// ── Leave requests ───────────────────────────────────────────────────────────
+
+/**
+ * List a studio's leave requests, newest first. Pass trainerId to see one
+ * trainer's requests only.
+ */
+export async function getLeaveRequests(params: {
+  studioId: string;
+  trainerId?: string;
+  status?: LeaveStatus;
+}): Promise<{ data: LeaveRequest[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    let query = supabase
+      .from('ta_leave_requests')
+      .select('*')
+      .eq('studio_id', params.studioId)
+      .order('start_date', { ascending: false });
+
+    if (params.trainerId) query = query.eq('trainer_id', params.trainerId);
+    if (params.status) query = query.eq('status', params.status);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching leave requests:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const rows = (data || []) as LeaveRequestRow[];
+    const names = await getTrainerNames(supabase, rows.map((row) => row.trainer_id));
+
+    return {
+      data: rows.map((row) => toLeaveRequest(row, names.get(row.trainer_id) || 'Trainer')),
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Request days off. Owners, managers and solo practitioners have no one to
+ * ask, so their leave is approved straight away (autoApprove).
+ */
+export async function createLeaveRequest(params: {
+  studioId: string;
+  trainerId: string;
+  input: LeaveRequestInput;
+  autoApprove: boolean;
+}): Promise<{ data: LeaveRequest | null; error: Error | null }> {
+  try {
+    const { startDate, endDate } = params.input;
+    if (!startDate || !endDate || !DATE_KEY_PATTERN.test(startDate) || !DATE_KEY_PATTERN.test(endDate)) {
+      return { data: null, error: new Error('Start and end dates are required (YYYY-MM-DD)') };
+    }
+    if (endDate < startDate) {
+      return { data: null, error: new Error('End date must be on or after the start date') };
+    }
+    if (addDaysToDateKey(startDate, MAX_LEAVE_DAYS - 1) < endDate) {
+      return { data: null, error: new Error(`Leave must be ${MAX_LEAVE_DAYS} days or fewer`) };
+    }
+
+    const timezone = await getTrainerTimezone(params.trainerId);
+    if (endDate < getZonedDateKey(new Date(), timezone)) {
+      return { data: null, error: new Error('Leave must end today or later') };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: overlapping } = await supabase
+      .from('ta_leave_requests')
+      .select('id')
+      .eq('trainer_id', params.trainerId)
+      .in('status', ['pending', 'approved'])
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .limit(1);
+
+    if (overlapping && overlapping.length > 0) {
+      return { data: null, error: new Error('These dates overlap leave you have already requested') };
+    }
+
+    const { data, error } = await supabase
+      .from('ta_leave_requests')
+      .insert({
+        studio_id: params.studioId,
+        trainer_id: params.trainerId,
+        start_date: startDate,
+        end_date: endDate,
+        reason: params.input.reason?.trim() || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating leave request:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    if (params.autoApprove) {
+      return reviewLeaveRequest({
+        studioId: params.studioId,
+        leaveRequestId: data.id as string,
+        reviewerId: params.trainerId,
+        input: { status: 'approved' },
+      });
+    }
+
+    const names = await getTrainerNames(supabase, [params.trainerId]);
+    return { data: toLeaveRequest(data as LeaveRequestRow, names.get(params.trainerId) || 'Trainer'), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Approve or decline a pending request. Approval blocks the days in the
+ * trainer's availability; the bookings already in them are left for the
+ * reviewer to deal with (see getLeaveImpact).
+ */
+export async function reviewLeaveRequest(params: {
+  studioId: string;
+  leaveRequestId: string;
+  reviewerId: string;
+  input: LeaveReviewInput;
+}): Promise<{ data: LeaveRequest | null; error: Error | null }> {
+  try {
+    if (params.input.status !== 'approved' && params.input.status !== 'declined') {
+      return { data: null, error: new Error("Status must be 'approved' or 'declined'") };
+    }
+
+    const supabase = createServiceRoleClient();
+    const leave = await getLeaveRow(supabase, params.studioId, params.leaveRequestId);
+    if (!leave) {
+      return { data: null, error: new Error('Leave request not found') };
+    }
+    if (leave.status !== 'pending') {
+      return { data: null, error: new Error(`Cannot review a leave request that is already ${leave.status}`) };
+    }
+
+    const { data, error } = await supabase
+      .from('ta_leave_requests')
+      .update({
+        status: params.input.status,
+        reviewed_by: params.reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_note: params.input.note?.trim() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', leave.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reviewing leave request:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+    if (!data) {
+      return { data: null, error: new Error('Leave request was changed by someone else. Refresh and try again.') };
+    }
+
+    if (params.input.status === 'approved') {
+      const { error: blockError } = await supabase
+        .from('ta_availability')
+        .insert(leaveToAvailabilityRows(leave));
+
+      if (blockError) {
+        console.error('Error blocking leave days:', blockError);
+        await supabase
+          .from('ta_leave_requests')
+          .update({ status: 'pending', reviewed_by: null, reviewed_at: null, review_note: null })
+          .eq('id', leave.id);
+        return { data: null, error: new Error('Failed to block the leave days in the trainer\'s availability') };
+      }
+    }
+
+    const names = await getTrainerNames(supabase, [leave.trainer_id]);
+    return { data: toLeaveRequest(data as LeaveRequestRow, names.get(leave.trainer_id) || 'Trainer'), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Withdraw a pending or approved request. The blocked days are freed again;
+ * bookings already moved or cancelled stay as they are.
+ * Trainers may only cancel their own requests; pass canManage for reviewers.
+ */
+export async function cancelLeaveRequest(params: {
+  studioId: string;
+  leaveRequestId: string;
+  userId: string;
+  canManage: boolean;
+}): Promise<{ data: LeaveRequest | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const leave = await getLeaveRow(supabase, params.studioId, params.leaveRequestId);
+    if (!leave || (!params.canManage && leave.trainer_id !== params.userId)) {
+      return { data: null, error: new Error('Leave request not found') };
+    }
+    if (leave.status !== 'pending' && leave.status !== 'approved') {
+      return { data: null, error: new Error(`Cannot cancel a leave request that is already ${leave.status}`) };
+    }
+
+    const { data, error } = await supabase
+      .from('ta_leave_requests')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', leave.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error cancelling leave request:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    await supabase
+      .from('ta_availability')
+      .delete()
+      .eq('leave_request_id', leave.id);
+
+    await supabase
+      .from('ta_booking_time_proposals')
+      .update({ status: 'withdrawn' })
+      .eq('leave_request_id', leave.id)
+      .eq('status', 'pending');
+
+    const names = await getTrainerNames(supabase, [leave.trainer_id]);
+    return { data: toLeaveRequest(data as LeaveRequestRow, names.get(leave.trainer_id) || 'Trainer'), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+// ── Booking impact ───────────────────────────────────────────────────────────
+
+/**
+ * The trainer's upcoming bookings inside the leave, with any new times the
+ * client has been offered but not yet picked.
+ */
+export async function getLeaveImpact(
+  studioId: string,
+  leaveRequestId: string
+): Promise<{ data: LeaveAffectedBooking[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const leave = await getLeaveRow(supabase, studioId, leaveRequestId);
+    if (!leave) {
+      return { data: null, error: new Error('Leave request not found') };
+    }
+
+    const bookings = await getAffectedBookingRows(supabase, leave);
+
+    const { data: proposals } = bookings.length > 0
+      ? await supabase
+          .from('ta_booking_time_proposals')
+          .select('booking_id, proposed_times')
+          .in('booking_id', bookings.map((booking) => booking.id))
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+      : { data: [] };
+
+    const proposedTimes = new Map<string, string[]>(
+      (proposals || []).map((p: { booking_id: string; proposed_times: string[] }) => [p.booking_id, p.proposed_times])
+    );
+
+    return {
+      data: bookings.map((booking) => ({
+        id: booking.id,
+        scheduledAt: booking.scheduled_at,
+        duration: booking.duration || 60,
+        status: booking.status,
+        clientId: booking.client_id,
+        clientName: fullName(booking.client, 'Client'),
+        serviceId: booking.service_id,
+        serviceName: booking.service?.name || 'Session',
+        proposedTimes: proposedTimes.get(booking.id) || null,
+      })),
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Deal with bookings inside an approved leave in bulk. Each booking is
+ * handled on its own, so one failure doesn't stop the rest; the client is
+ * notified of whatever happened to their session.
+ */
+export async function applyLeaveAction(params: {
+  studioId: string;
+  leaveRequestId: string;
+  actorId: string;
+  input: LeaveBookingActionInput;
+}): Promise<{ data: LeaveBookingActionResult | null; error: Error | null }> {
+  try {
+    const { action, bookingIds, trainerId } = params.input;
+    if (!['reassign', 'propose', 'cancel'].includes(action)) {
+      return { data: null, error: new Error("Action must be 'reassign', 'propose' or 'cancel'") };
+    }
+    if (!Array.isArray(bookingIds) || bookingIds.length === 0) {
+      return { data: null, error: new Error('At least one booking is required') };
+    }
+    if (action === 'reassign' && !trainerId) {
+      return { data: null, error: new Error('A trainer to reassign to is required') };
+    }
+
+    const supabase = createServiceRoleClient();
+    const leave = await getLeaveRow(supabase, params.studioId, params.leaveRequestId);
+    if (!leave) {
+      return { data: null, error: new Error('Leave request not found') };
+    }
+    if (leave.status !== 'approved') {
+      return { data: null, error: new Error('Leave must be approved before its bookings can be changed') };
+    }
+    if (action === 'reassign' && trainerId === leave.trainer_id) {
+      return { data: null, error: new Error('Cannot reassign bookings to the trainer who is on leave') };
+    }
+
+    const affected = new Map(
+      (await getAffectedBookingRows(supabase, leave)).map((booking) => [booking.id, booking])
+    );
+    const timezone = await getTrainerTimezone(leave.trainer_id);
+    const trainerName = (await getTrainerNames(supabase, [leave.trainer_id])).get(leave.trainer_id) || 'Your Trainer';
+
+    const result: LeaveBookingActionResult = { succeeded: [], failed: [] };
+
+    for (const bookingId of [...new Set(bookingIds)]) {
+      const booking = affected.get(bookingId);
+      if (!booking) {
+        result.failed.push({ bookingId, error: 'Booking is not affected by this leave' });
+        continue;
+      }
+
+      let error: Error | null = null;
+      if (action === 'reassign') {
+        ({ error } = await reassignBookingTrainer({ bookingId, trainerId: trainerId!, actorId: params.actorId }));
+        if (!error) await withdrawPendingProposals(supabase, bookingId);
+      } else if (action === 'propose') {
+        error = await proposeNewTimes(supabase, leave, booking, { actorId: params.actorId, trainerName, timezone });
+      } else {
+        error = await cancelForLeave(supabase, leave, booking, { actorId: params.actorId, trainerName, timezone });
+      }
+
+      if (error) {
+        result.failed.push({ bookingId, error: error.message });
+      } else {
+        result.succeeded.push(bookingId);
+      }
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+async function proposeNewTimes(
+  supabase: ServiceClient,
+  leave: LeaveRequestRow,
+  booking: AffectedBookingRow,
+  context: { actorId: string; trainerName: string; timezone: string }
+): Promise<Error | null> {
+  const { data: times, error: timesError } = await findProposedTimes(leave, booking, context.timezone);
+  if (timesError || !times) return timesError;
+
+  // A fresh offer replaces any earlier one
+  await withdrawPendingProposals(supabase, booking.id);
+
+  const expiresAt = new Date(Date.now() + PROPOSAL_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
+  const { data: proposal, error } = await supabase
+    .from('ta_booking_time_proposals')
+    .insert({
+      booking_id: booking.id,
+      leave_request_id: leave.id,
+      proposed_times: times,
+      expires_at: expiresAt,
+      created_by: context.actorId,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error saving proposed times:', error);
+    return new Error(error.message);
+  }
+
+  if (booking.client?.email) {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    try {
+      await sendBookingTimeProposalEmail({
+        clientEmail: booking.client.email,
+        clientName: fullName(booking.client, 'there'),
+        trainerName: context.trainerName,
+        serviceName: booking.service?.name || 'Session',
+        currentTime: booking.scheduled_at,
+        proposedTimes: times,
+        chooseLink: `${appUrl}/client/bookings?proposal=${proposal.id}`,
+        expiresAt,
+        bookingId: booking.id,
+        timezone: context.timezone,
+      });
+    } catch (emailError) {
+      console.error('Error sending booking time proposal email:', emailError);
+    }
+  }
+
+  return null;
+}
+
+async function cancelForLeave(
+  supabase: ServiceClient,
+  leave: LeaveRequestRow,
+  booking: AffectedBookingRow,
+  context: { actorId: string; trainerName: string; timezone: string }
+): Promise<Error | null> {
+  // Refund first: if it fails the booking stays affected and can be retried
+  const { data: creditsRefunded, error: refundError } = await refundLeaveBookingCredits(supabase, booking);
+  if (refundError) return refundError;
+
+  if (creditsRefunded > 0) {
+    await recordBookingEvent({
+      bookingId: booking.id,
+      eventType: 'credits_refunded',
+      source: 'trainer',
+      actorId: context.actorId,
+      creditsDelta: creditsRefunded,
+      metadata: { leave_request_id: leave.id },
+    });
+  }
+
+  // Cancelling also drops the booking's reminders and calendar copies
+  const { error } = await deleteBooking(booking.id, false, {
+    source: 'trainer',
+    actorId: context.actorId,
+    metadata: { leave_request_id: leave.id },
+  });
+  if (error) return error;
+
+  await withdrawPendingProposals(supabase, booking.id);
+
+  if (booking.client?.email) {
+    try {
+      await sendBookingCancelledEmail({
+        clientEmail: booking.client.email,
+        clientName: fullName(booking.client, 'there'),
+        trainerName: context.trainerName,
+        serviceName: booking.service?.name || 'Session',
+        scheduledAt: booking.scheduled_at,
+        reason: `${context.trainerName} is away on this day`,
+        creditsRefunded,
+        bookingId: booking.id,
+        timezone: context.timezone,
+      });
+    } catch (emailError) {
+      console.error('Error sending booking cancelled email:', emailError);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Client-side Location Service
+ *
+ * Uses API routes for location CRUD operations (bypasses RLS via service role)
+ */
+
+import type { Location, LocationInput, PublicLocation } from '@/lib/types/location';
+import type { OpeningHours } from '@/lib/types/availability';
+
+/**
+ * Database location shape (snake_case)
+ */
+interface DbLocation {
+  id: string;
+  studio_id: string;
+  name: string;
+  address: string | null;
+  opening_hours: OpeningHours | null;
+  rooms: string[] | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Convert database location to frontend format
+ */
+function dbToLocation(db: DbLocation): Location {
+  return {
+    id: db.id,
+    studioId: db.studio_id,
+    name: db.name,
+    address: db.address,
+    openingHours: db.opening_hours || {},
+    rooms: db.rooms || [],
+    isActive: db.is_active,
+    createdAt: db.created_at,
+    updatedAt: db.updated_at,
+  };
+}
+
+/**
+ * Get the studio's locations (client-side)
+ */
+export async function getLocationsClient(activeOnly = true): Promise<Location[]> {
+  try {
+    const params = new URLSearchParams();
+    if (activeOnly) {
+      params.set('activeOnly', 'true');
+    }
+
+    const response = await fetch(`/api/locations?${params.toString()}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching locations:', error);
+      return [];
+    }
+
+    const { locations } = await response.json();
+    return (locations as DbLocation[]).map(dbToLocation);
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a location (client-side)
+ */
+export async function createLocationClient(input: LocationInput): Promise<Location> {
+  const response = await fetch('/api/locations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to create location');
+  }
+
+  return dbToLocation(body.location as DbLocation);
+}
+
+/**
+ * Update a location (client-side)
+ */
+export async function updateLocationClient(
+  locationId: string,
+  updates: Partial<LocationInput>
+): Promise<Location> {
+  const response = await fetch(`/api/locations/${locationId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to update location');
+  }
+
+  return dbToLocation(body.location as DbLocation);
+}
+
+/**
+ * Remove a location (client-side, soft delete)
+ */
+export async function deleteLocationClient(locationId: string): Promise<void> {
+  const response = await fetch(`/api/locations/${locationId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const body = await response.json();
+    throw new Error(body.error || 'Failed to remove location');
+  }
+}
+
+/**
+ * Get a trainer's studio locations for the public booking page
+ */
+export async function getPublicLocationsClient(trainerId: string): Promise<PublicLocation[]> {
+  try {
+    const response = await fetch(`/api/public/locations/${trainerId}`);
+    if (!response.ok) return [];
+    return (await response.json()) as PublicLocation[];
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    return [];
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Location Service
+ *
+ * Business logic for bs_locations — the sites a studio runs from. Each
+ * location can override the studio's opening hours and lists its rooms.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { OpeningHours } from '@/lib/services/studio-service';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface LocationRow {
+  id: string;
+  studio_id: string;
+  name: string;
+  address: string | null;
+  opening_hours: OpeningHours | null;
+  rooms: string[] | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LocationInput {
+  name?: string;
+  address?: string | null;
+  openingHours?: OpeningHours;
+  rooms?: string[];
+}
+
+const MAX_ROOMS = 50;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function cleanRooms(rooms: string[]): string[] {
+  return [...new Set(rooms.map((r) => r.trim()).filter(Boolean))].slice(0, MAX_ROOMS);
+}
+
+/**
+ * Opening hours that apply at a location: its own when configured, else the studio's.
+ */
+export function getEffectiveOpeningHours(
+  studioHours: OpeningHours | null | undefined,
+  location: Pick<LocationRow, 'opening_hours'> | null | undefined
+): OpeningHours {
+  const own = location?.opening_hours;
+  if (own && Object.keys(own).length > 0) return own;
+  return studioHours || {};
+}
+
+/** One-line label for emails and calendars, e.g. "Soho Studio, 12 Dean St" */
+export function formatLocationLabel(
+  location: { name: string; address?: string | null } | null | undefined
+): string | undefined {
+  if (!location) return undefined;
+  return location.address ? `${location.name}, ${location.address}` : location.name;
+}
+
+// ── Service functions ────────────────────────────────────────────────────────
+
+/**
+ * List a studio's locations, active ones first by name.
+ */
+export async function getLocations(
+  studioId: string,
+  options?: { activeOnly?: boolean }
+): Promise<{ data: LocationRow[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    let query = supabase
+      .from('bs_locations')
+      .select('*')
+      .eq('studio_id', studioId)
+      .order('is_active', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (options?.activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as LocationRow[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Fetch a single location (active or not).
+ */
+export async function getLocation(
+  locationId: string
+): Promise<{ data: LocationRow | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_locations')
+      .select('*')
+      .eq('id', locationId)
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data as LocationRow) || null, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Create a location for a studio.
+ */
+export async function createLocation(
+  studioId: string,
+  input: LocationInput
+): Promise<{ data: LocationRow | null; error: Error | null }> {
+  try {
+    const name = input.name?.trim();
+    if (!name) {
+      return { data: null, error: new Error('name is required') };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_locations')
+      .insert({
+        studio_id: studioId,
+        name,
+        address: input.address?.trim() || null,
+        opening_hours: input.openingHours || {},
+        rooms: cleanRooms(input.rooms || []),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as LocationRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Update one of a studio's locations.
+ */
+export async function updateLocation(
+  studioId: string,
+  locationId: string,
+  input: LocationInput
+): Promise<{ data: LocationRow | null; error: Error | null }> {
+  try {
+    const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (input.name !== undefined) {
+      const name = input.name.trim();
+      if (!name) {
+        return { data: null, error: new Error('name is required') };
+      }
+      updateData.name = name;
+    }
+    if (input.address !== undefined) updateData.address = input.address?.trim() || null;
+    if (input.openingHours !== undefined) updateData.opening_hours = input.openingHours || {};
+    if (input.rooms !== undefined) updateData.rooms = cleanRooms(input.rooms || []);
+
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_locations')
+      .update(updateData)
+      .eq('id', locationId)
+      .eq('studio_id', studioId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+    if (!data) {
+      return { data: null, error: new Error('Location not found') };
+    }
+
+    return { data: data as LocationRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Soft-delete a location (sets is_active = false). Services, availability and
+ * bookings keep their location_id so history still shows where they were.
+ */
+export async function deleteLocation(
+  studioId: string,
+  locationId: string
+): Promise<{ data: LocationRow | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_locations')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', locationId)
+      .eq('studio_id', studioId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+    if (!data) {
+      return { data: null, error: new Error('Location not found') };
+    }
+
+    return { data: data as LocationRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Active locations of the studio a trainer works at, for the public booking page.
+ */
+export async function getTrainerStudioLocations(
+  trainerId: string
+): Promise<{ data: LocationRow[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: staff } = await supabase
+      .from('bs_staff')
+      .select('studio_id')
+      .eq('id', trainerId)
+      .maybeSingle();
+
+    let studioId = (staff?.studio_id as string) || null;
+    if (!studioId) {
+      const { data: ownedStudio } = await supabase
+        .from('bs_studios')
+        .select('id')
+        .eq('owner_id', trainerId)
+        .maybeSingle();
+      studioId = (ownedStudio?.id as string) || null;
+    }
+
+    if (!studioId) {
+      return { data: [], error: null };
+    }
+
+    return getLocations(studioId, { activeOnly: true });
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
@@ -0,0 +1,913 @@
+/**
+ * Membership Service
+ *
+ * Recurring membership plans ("£X per month for N sessions") sold as Stripe
+ * Billing subscriptions paid into the studio's connected account. Every paid
+ * invoice issues the period's credits as a ta_client_packages allocation;
+ * the previous allocation expires and its unused credits roll over, up to
+ * the plan's cap. While a renewal is failing the membership is past_due,
+ * which pauses self-booking, and the client is emailed for each failed
+ * attempt.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { stripe, calculateFees, PLATFORM_FEE_PERCENT } from '@/lib/stripe/config';
+import { findStudioStripeAccount, getStripeAccountCurrency } from '@/lib/services/client-shop-service';
+import { applyPackageCreditEntry } from '@/lib/services/credit-ledger-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { sendMembershipPaymentFailedEmail, sendPaymentReceiptEmail } from '@/lib/notifications/email-service';
+import type Stripe from 'stripe';
+import type {
+  ClientMembership,
+  MembershipInterval,
+  MembershipPlan,
+  MembershipPlanInput,
+  MembershipStatus,
+  ShopMembershipPlan,
+} from '@/lib/types/membership';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+interface PlanRow {
+  id: string;
+  studio_id: string;
+  name: string;
+  description: string | null;
+  price_cents: number;
+  currency: string;
+  billing_interval: MembershipInterval;
+  credits_per_period: number;
+  rollover_cap: number | null;
+  stripe_product_id: string | null;
+  stripe_price_id: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface MembershipRow {
+  id: string;
+  client_id: string;
+  plan_id: string;
+  studio_id: string;
+  trainer_id: string;
+  stripe_subscription_id: string;
+  status: MembershipStatus;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  latest_invoice_url: string | null;
+  dunning_attempt: number;
+  plan: PlanRow | null;
+}
+
+interface MembershipClientRow {
+  id: string;
+  studio_id: string | null;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+/** Subscriptions still billing (or trying to), which hold the client's place */
+const RUNNING_STATUSES: MembershipStatus[] = ['incomplete', 'trialing', 'active', 'past_due', 'unpaid', 'paused'];
+
+/** A renewal is failing: self-booking waits until it's paid */
+const PAYMENT_FAILING_STATUSES: MembershipStatus[] = ['past_due', 'unpaid'];
+
+/** Days a period's credits outlive it, so a late renewal doesn't strand bookings */
+const ALLOCATION_GRACE_DAYS = 3;
+
+const MEMBERSHIP_SELECT = `
+  id, client_id, plan_id, studio_id, trainer_id, stripe_subscription_id, status,
+  current_period_end, cancel_at_period_end, latest_invoice_url, dunning_attempt,
+  plan:ta_membership_plans(*)
+`;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function fromUnix(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function toPlan(row: PlanRow, activeMembers: number): MembershipPlan {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    priceCents: row.price_cents,
+    currency: row.currency,
+    interval: row.billing_interval,
+    creditsPerPeriod: row.credits_per_period,
+    rolloverCap: row.rollover_cap,
+    isActive: row.is_active,
+    activeMembers,
+    createdAt: row.created_at,
+  };
+}
+
+function toShopPlan(row: PlanRow): ShopMembershipPlan {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    priceCents: row.price_cents,
+    currency: row.currency,
+    interval: row.billing_interval,
+    creditsPerPeriod: row.credits_per_period,
+    rolloverCap: row.rollover_cap,
+  };
+}
+
+function toClientMembership(row: MembershipRow): ClientMembership {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    planName: row.plan?.name || 'Membership',
+    priceCents: row.plan?.price_cents || 0,
+    currency: row.plan?.currency || 'gbp',
+    interval: row.plan?.billing_interval || 'month',
+    creditsPerPeriod: row.plan?.credits_per_period || 0,
+    status: row.status,
+    currentPeriodEnd: row.current_period_end,
+    cancelAtPeriodEnd: row.cancel_at_period_end,
+    latestInvoiceUrl: PAYMENT_FAILING_STATUSES.includes(row.status) ? row.latest_invoice_url : null,
+  };
+}
+
+function clientName(client: Pick<MembershipClientRow, 'first_name' | 'last_name'> | null): string {
+  return `${client?.first_name || ''} ${client?.last_name || ''}`.trim() || 'Client';
+}
+
+/** Returns a message for the first invalid field, or null */
+function validatePlanInput(input: Partial<MembershipPlanInput>, partial: boolean): string | null {
+  if ((!partial || input.name !== undefined) && !input.name?.trim()) {
+    return 'Name is required';
+  }
+  if ((!partial || input.priceCents !== undefined) && !(Number.isInteger(input.priceCents) && input.priceCents! >= 100)) {
+    return 'Price must be at least £1.00';
+  }
+  if ((!partial || input.interval !== undefined) && !['week', 'month', 'year'].includes(input.interval as string)) {
+    return 'Interval must be week, month or year';
+  }
+  if (
+    (!partial || input.creditsPerPeriod !== undefined) &&
+    !(Number.isInteger(input.creditsPerPeriod) && input.creditsPerPeriod! > 0)
+  ) {
+    return 'Credits per period must be a positive whole number';
+  }
+  if (
+    input.rolloverCap !== undefined &&
+    input.rolloverCap !== null &&
+    !(Number.isInteger(input.rolloverCap) && input.rolloverCap >= 0)
+  ) {
+    return 'Rollover cap must be zero or more';
+  }
+  return null;
+}
+
+async function findClientByEmail(supabase: ServiceClient, userEmail: string): Promise<MembershipClientRow | null> {
+  const { data } = await supabase
+    .from('fc_clients')
+    .select('id, studio_id, email, first_name, last_name')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  return data as MembershipClientRow | null;
+}
+
+async function findMembershipBySubscription(
+  supabase: ServiceClient,
+  subscriptionId: string
+): Promise<MembershipRow | null> {
+  const { data } = await supabase
+    .from('ta_client_memberships')
+    .select(MEMBERSHIP_SELECT)
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle();
+
+  return data as MembershipRow | null;
+}
+
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  if (!invoice.subscription) return null;
+  return typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+}
+
+/**
+ * Record the invoice's payment once; a replayed event gets the existing row.
+ */
+async function recordInvoicePayment(
+  supabase: ServiceClient,
+  membership: MembershipRow,
+  invoice: Stripe.Invoice
+): Promise<string> {
+  const { data: existing } = await supabase
+    .from('ta_payments')
+    .select('id')
+    .eq('stripe_invoice_id', invoice.id)
+    .maybeSingle();
+
+  if (existing) return existing.id as string;
+
+  const amountCents = invoice.amount_paid || 0;
+  const { platformFeeCents, trainerAmountCents } = calculateFees(amountCents);
+
+  const { data: payment, error } = await supabase
+    .from('ta_payments')
+    .insert({
+      trainer_id: membership.trainer_id,
+      client_id: membership.client_id,
+      membership_id: membership.id,
+      stripe_invoice_id: invoice.id,
+      stripe_payment_intent_id: (invoice.payment_intent as string | null) || null,
+      stripe_charge_id: (invoice.charge as string | null) || null,
+      amount_cents: amountCents,
+      platform_fee_cents: platformFeeCents,
+      trainer_amount_cents: trainerAmountCents,
+      currency: invoice.currency,
+      status: 'succeeded',
+      payment_type: 'membership',
+      description: `${membership.plan?.name || 'Membership'} membership`,
+      receipt_url: invoice.hosted_invoice_url || null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // Unique on stripe_invoice_id: a concurrent delivery recorded it first
+    if (error.code === '23505') {
+      const { data: raced } = await supabase
+        .from('ta_payments')
+        .select('id')
+        .eq('stripe_invoice_id', invoice.id)
+        .single();
+      return raced!.id as string;
+    }
+    throw new Error(`Failed to record membership payment: ${error.message}`);
+  }
+
+  return payment.id as string;
+}
+
+/**
+ * Expire the membership's earlier allocations and return how many credits
+ * they still held.
+ */
+async function expirePreviousAllocations(
+  supabase: ServiceClient,
+  membershipId: string,
+  currentAllocationId: string
+): Promise<number> {
+  const { data: previous } = await supabase
+    .from('ta_client_packages')
+    .select('id')
+    .eq('membership_id', membershipId)
+    .eq('status', 'active')
+    .neq('id', currentAllocationId);
+
+  let unused = 0;
+  const now = new Date().toISOString();
+
+  for (const row of (previous || []) as Array<{ id: string }>) {
+    // Same claim as the expiry cron, so only one of them writes the credits off
+    const { data: claimed } = await supabase
+      .from('ta_client_packages')
+      .update({ status: 'expired', expired_at: now })
+      .eq('id', row.id)
+      .eq('status', 'active')
+      .select('id, sessions_remaining')
+      .maybeSingle();
+
+    const remaining = (claimed?.sessions_remaining as number | null) || 0;
+    if (!claimed || remaining <= 0) continue;
+
+    const { error } = await applyPackageCreditEntry(row.id, {
+      entryType: 'expiry',
+      credits: -remaining,
+      reason: 'membership_renewal',
+      notes: 'Replaced by the next membership period',
+      metadata: { membership_id: membershipId, next_client_package_id: currentAllocationId },
+    });
+
+    if (error) {
+      console.error('Error expiring previous membership credits:', error);
+      continue;
+    }
+    unused += remaining;
+  }
+
+  return unused;
+}
+
+// ── Plans (studio staff) ────────────────────────────────────────────
+
+/**
+ * A studio's membership plans, with how many members each has.
+ */
+export async function getMembershipPlans(
+  studioId: string
+): Promise<{ data: MembershipPlan[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: plans, error } = await supabase
+      .from('ta_membership_plans')
+      .select('*')
+      .eq('studio_id', studioId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const { data: members } = await supabase
+      .from('ta_client_memberships')
+      .select('plan_id')
+      .eq('studio_id', studioId)
+      .in('status', RUNNING_STATUSES);
+
+    const counts = new Map<string, number>();
+    for (const m of (members || []) as Array<{ plan_id: string }>) {
+      counts.set(m.plan_id, (counts.get(m.plan_id) || 0) + 1);
+    }
+
+    return {
+      data: ((plans || []) as PlanRow[]).map((p) => toPlan(p, counts.get(p.id) || 0)),
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Create a plan along with its Stripe product and recurring price, in the
+ * currency of the studio's connected account.
+ */
+export async function createMembershipPlan(params: {
+  studioId: string;
+  actorId: string;
+  input: MembershipPlanInput;
+}): Promise<{ data: MembershipPlan | null; error: Error | null }> {
+  try {
+    const { input } = params;
+    const invalid = validatePlanInput(input, false);
+    if (invalid) {
+      return { data: null, error: new Error(invalid) };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    // Plans are priced in the currency of the account members pay into
+    const { data: account, error: accountError } = await findStudioStripeAccount(supabase, params.studioId);
+    if (accountError || !account) {
+      return { data: null, error: accountError || new Error('Your studio is not set up to take online payments yet') };
+    }
+    const currency = await getStripeAccountCurrency(account.stripeAccountId);
+
+    const product = await stripe.products.create({
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      metadata: { studio_id: params.studioId, platform: 'trainer_aide' },
+    });
+
+    const price = await stripe.prices.create({
+      product: product.id,
+      currency,
+      unit_amount: input.priceCents,
+      recurring: { interval: input.interval },
+    });
+
+    const { data, error } = await supabase
+      .from('ta_membership_plans')
+      .insert({
+        studio_id: params.studioId,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        price_cents: input.priceCents,
+        currency,
+        billing_interval: input.interval,
+        credits_per_period: input.creditsPerPeriod,
+        rollover_cap: input.rolloverCap,
+        stripe_product_id: product.id,
+        stripe_price_id: price.id,
+        is_active: input.isActive ?? true,
+        created_by: params.actorId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await stripe.products.update(product.id, { active: false }).catch(() => undefined);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: toPlan(data as PlanRow, 0), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Update a plan. A new price or interval creates a new Stripe price for new
+ * members; existing members stay on the one they signed up to. Deactivating
+ * a plan takes it out of the shop without ending anyone's membership.
+ */
+export async function updateMembershipPlan(params: {
+  planId: string;
+  studioId: string;
+  input: Partial<MembershipPlanInput>;
+}): Promise<{ data: MembershipPlan | null; error: Error | null }> {
+  try {
+    const { input } = params;
+    const invalid = validatePlanInput(input, true);
+    if (invalid) {
+      return { data: null, error: new Error(invalid) };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: existing } = await supabase
+      .from('ta_membership_plans')
+      .select('*')
+      .eq('id', params.planId)
+      .eq('studio_id', params.studioId)
+      .maybeSingle();
+
+    if (!existing) {
+      return { data: null, error: new Error('Membership plan not found') };
+    }
+
+    const plan = existing as PlanRow;
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (input.name !== undefined) updates.name = input.name.trim();
+    if (input.description !== undefined) updates.description = input.description?.trim() || null;
+    if (input.creditsPerPeriod !== undefined) updates.credits_per_period = input.creditsPerPeriod;
+    if (input.rolloverCap !== undefined) updates.rollover_cap = input.rolloverCap;
+    if (input.isActive !== undefined) updates.is_active = input.isActive;
+
+    if (plan.stripe_product_id && (input.name !== undefined || input.description !== undefined || input.isActive !== undefined)) {
+      await stripe.products.update(plan.stripe_product_id, {
+        name: (updates.name as string | undefined) ?? plan.name,
+        description: ((updates.description as string | null | undefined) ?? plan.description) || '',
+        active: input.isActive ?? plan.is_active,
+      });
+    }
+
+    const priceCents = input.priceCents ?? plan.price_cents;
+    const interval = input.interval ?? plan.billing_interval;
+    if (plan.stripe_product_id && (priceCents !== plan.price_cents || interval !== plan.billing_interval)) {
+      const price = await stripe.prices.create({
+        product: plan.stripe_product_id,
+        currency: plan.currency,
+        unit_amount: priceCents,
+        recurring: { interval },
+      });
+      if (plan.stripe_price_id) {
+        await stripe.prices.update(plan.stripe_price_id, { active: false });
+      }
+      updates.price_cents = priceCents;
+      updates.billing_interval = interval;
+      updates.stripe_price_id = price.id;
+    }
+
+    const { data, error } = await supabase
+      .from('ta_membership_plans')
+      .update(updates)
+      .eq('id', plan.id)
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const { count } = await supabase
+      .from('ta_client_memberships')
+      .select('id', { count: 'exact', head: true })
+      .eq('plan_id', plan.id)
+      .in('status', RUNNING_STATUSES);
+
+    return { data: toPlan(data as PlanRow, count || 0), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+// ── Memberships (clients) ───────────────────────────────────────────
+
+/**
+ * The plans a client can join and the memberships they hold.
+ */
+export async function getClientMemberships(
+  userEmail: string
+): Promise<{
+  data: { plans: ShopMembershipPlan[]; memberships: ClientMembership[] } | null;
+  error: Error | null;
+  status?: number;
+}> {
+  try {
+    const supabase = createServiceRoleClient();
+    const client = await findClientByEmail(supabase, userEmail);
+
+    if (!client) {
+      return { data: null, error: new Error('Client not found'), status: 404 };
+    }
+
+    const { data: memberships, error } = await supabase
+      .from('ta_client_memberships')
+      .select(MEMBERSHIP_SELECT)
+      .eq('client_id', client.id)
+      .in('status', RUNNING_STATUSES)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: null, error: new Error(error.message), status: 500 };
+    }
+
+    let plans: PlanRow[] = [];
+    if (client.studio_id) {
+      const { data: rawPlans } = await supabase
+        .from('ta_membership_plans')
+        .select('*')
+        .eq('studio_id', client.studio_id)
+        .eq('is_active', true)
+        .not('stripe_price_id', 'is', null)
+        .order('price_cents', { ascending: true });
+      plans = (rawPlans || []) as PlanRow[];
+    }
+
+    return {
+      data: {
+        plans: plans.map(toShopPlan),
+        memberships: ((memberships || []) as MembershipRow[]).map(toClientMembership),
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)), status: 500 };
+  }
+}
+
+/**
+ * Start a Stripe Checkout session that subscribes the client to a plan.
+ * The membership is recorded once Stripe creates the subscription, and the
+ * first period's credits are issued when its invoice is paid.
+ */
+export async function createMembershipCheckout(
+  userEmail: string,
+  planId: string,
+  origin: string
+): Promise<{ data: { sessionId: string; url: string | null } | null; error: Error | null; status?: number }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const client = await findClientByEmail(supabase, userEmail);
+
+    if (!client || !client.studio_id) {
+      return {
+        data: null,
+        error: new Error('Client not found or not associated with a studio'),
+        status: 404,
+      };
+    }
+
+    const { data: rawPlan } = await supabase
+      .from('ta_membership_plans')
+      .select('*')
+      .eq('id', planId)
+      .maybeSingle();
+
+    const plan = rawPlan as PlanRow | null;
+    if (!plan || plan.studio_id !== client.studio_id) {
+      return { data: null, error: new Error('Membership plan not found'), status: 404 };
+    }
+    if (!plan.is_active || !plan.stripe_price_id) {
+      return { data: null, error: new Error('Membership plan is not available'), status: 400 };
+    }
+
+    const { data: running } = await supabase
+      .from('ta_client_memberships')
+      .select('id')
+      .eq('client_id', client.id)
+      .eq('plan_id', plan.id)
+      .in('status', RUNNING_STATUSES)
+      .limit(1);
+
+    if (running && running.length > 0) {
+      return { data: null, error: new Error('You already have this membership'), status: 409 };
+    }
+
+    const { data: account, error: accountError, status: accountStatus } = await findStudioStripeAccount(
+      supabase,
+      client.studio_id
+    );
+    if (accountError || !account) {
+      return { data: null, error: accountError, status: accountStatus };
+    }
+
+    const metadata = {
+      membership_plan_id: plan.id,
+      client_id: client.id,
+      studio_id: client.studio_id,
+      trainer_id: account.payeeId,
+      platform: 'trainer_aide',
+    };
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      payment_method_types: ['card'],
+      line_items: [{ price: plan.stripe_price_id, quantity: 1 }],
+      subscription_data: {
+        application_fee_percent: PLATFORM_FEE_PERCENT,
+        transfer_data: {
+          destination: account.stripeAccountId,
+        },
+        metadata,
+      },
+      customer_email: userEmail,
+      success_url: `${origin}/client/shop?membership=success`,
+      cancel_url: `${origin}/client/shop?membership=cancelled`,
+      metadata,
+    });
+
+    return { data: { sessionId: session.id, url: session.url }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)), status: 500 };
+  }
+}
+
+/**
+ * Cancel a client's membership at the end of the period they've paid for.
+ */
+export async function cancelClientMembership(
+  userEmail: string,
+  membershipId: string
+): Promise<{ data: ClientMembership | null; error: Error | null; status?: number }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const client = await findClientByEmail(supabase, userEmail);
+
+    if (!client) {
+      return { data: null, error: new Error('Client not found'), status: 404 };
+    }
+
+    const { data: rawMembership } = await supabase
+      .from('ta_client_memberships')
+      .select(MEMBERSHIP_SELECT)
+      .eq('id', membershipId)
+      .eq('client_id', client.id)
+      .maybeSingle();
+
+    const membership = rawMembership as MembershipRow | null;
+    if (!membership) {
+      return { data: null, error: new Error('Membership not found'), status: 404 };
+    }
+    if (!RUNNING_STATUSES.includes(membership.status)) {
+      return { data: null, error: new Error('This membership has already ended'), status: 400 };
+    }
+
+    const subscription = await stripe.subscriptions.update(membership.stripe_subscription_id, {
+      cancel_at_period_end: true,
+    });
+
+    const { data: updated, error } = await supabase
+      .from('ta_client_memberships')
+      .update({
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        status: subscription.status,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', membership.id)
+      .select(MEMBERSHIP_SELECT)
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message), status: 500 };
+    }
+
+    return { data: toClientMembership(updated as MembershipRow), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)), status: 500 };
+  }
+}
+
+/**
+ * Whether the client has a membership whose renewal is failing, which
+ * pauses self-booking until it's paid.
+ */
+export async function hasFailingMembership(clientId: string): Promise<boolean> {
+  const supabase = createServiceRoleClient();
+
+  const { data } = await supabase
+    .from('ta_client_memberships')
+    .select('id')
+    .eq('client_id', clientId)
+    .in('status', PAYMENT_FAILING_STATUSES)
+    .limit(1);
+
+  return !!data && data.length > 0;
+}
+
+// ── Stripe events ───────────────────────────────────────────────────
+
+/**
+ * Bring the membership in line with its Stripe subscription, creating it
+ * the first time. The subscription is fetched afresh so events arriving out
+ * of order can't leave a stale status behind. Returns null for
+ * subscriptions that aren't memberships.
+ */
+export async function syncMembershipSubscription(subscriptionId: string): Promise<MembershipRow | null> {
+  const supabase = createServiceRoleClient();
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const metadata = subscription.metadata || {};
+
+  if (!metadata.membership_plan_id || !metadata.client_id) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('ta_client_memberships')
+    .upsert(
+      {
+        client_id: metadata.client_id,
+        plan_id: metadata.membership_plan_id,
+        studio_id: metadata.studio_id,
+        trainer_id: metadata.trainer_id,
+        stripe_subscription_id: subscription.id,
+        stripe_customer_id: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+        status: subscription.status,
+        current_period_start: fromUnix(subscription.current_period_start),
+        current_period_end: fromUnix(subscription.current_period_end),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        canceled_at: fromUnix(subscription.canceled_at),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'stripe_subscription_id' }
+    )
+    .select(MEMBERSHIP_SELECT)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to sync membership ${subscription.id}: ${error.message}`);
+  }
+
+  return data as MembershipRow;
+}
+
+/**
+ * A membership invoice was paid: record the payment and issue the period's
+ * credits, rolling over what's left of the last period up to the plan's
+ * cap. One allocation per invoice, so a replayed event never credits twice.
+ */
+export async function handleMembershipInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionId = invoiceSubscriptionId(invoice);
+  if (!subscriptionId) return;
+
+  const membership = await syncMembershipSubscription(subscriptionId);
+  if (!membership?.plan) return;
+
+  const supabase = createServiceRoleClient();
+  const plan = membership.plan;
+  const paymentId = await recordInvoicePayment(supabase, membership, invoice);
+
+  const line = invoice.lines?.data?.[0];
+  const periodEnd = line?.period?.end ? new Date(line.period.end * 1000) : new Date(membership.current_period_end || Date.now());
+  const expiresAt = new Date(periodEnd.getTime() + ALLOCATION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data: allocation, error: insertError } = await supabase
+    .from('ta_client_packages')
+    .insert({
+      client_id: membership.client_id,
+      trainer_id: membership.trainer_id,
+      membership_id: membership.id,
+      stripe_invoice_id: invoice.id,
+      sessions_total: plan.credits_per_period,
+      sessions_used: 0,
+      sessions_remaining: plan.credits_per_period,
+      purchased_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+      status: 'active',
+      payment_id: paymentId,
+      notes: `${plan.name} membership`,
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    // Unique on stripe_invoice_id: this period was already issued
+    if (insertError.code === '23505') return;
+    throw new Error(`Failed to issue membership credits: ${insertError.message}`);
+  }
+
+  const allocationId = allocation.id as string;
+  const unused = await expirePreviousAllocations(supabase, membership.id, allocationId);
+  const rollover = plan.rollover_cap === null ? unused : Math.min(unused, plan.rollover_cap);
+
+  if (rollover > 0) {
+    const { error: rolloverError } = await applyPackageCreditEntry(allocationId, {
+      entryType: 'adjustment',
+      credits: rollover,
+      reason: 'membership_rollover',
+      notes: `${rollover} unused credit${rollover !== 1 ? 's' : ''} carried over`,
+      metadata: { membership_id: membership.id },
+    });
+
+    if (rolloverError) {
+      console.error('Error rolling over membership credits:', rolloverError);
+    } else {
+      await supabase
+        .from('ta_client_packages')
+        .update({ sessions_total: plan.credits_per_period + rollover })
+        .eq('id', allocationId);
+    }
+  }
+
+  // The renewal went through, so booking is open again
+  await supabase
+    .from('ta_client_memberships')
+    .update({ payment_failed_at: null, latest_invoice_url: null, dunning_attempt: 0 })
+    .eq('id', membership.id);
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('first_name, last_name, email')
+    .eq('id', membership.client_id)
+    .maybeSingle();
+
+  if (client?.email && (invoice.amount_paid || 0) > 0) {
+    await sendPaymentReceiptEmail({
+      clientEmail: client.email as string,
+      clientName: clientName(client as MembershipClientRow),
+      amount: invoice.amount_paid,
+      packageName: `${plan.name} membership`,
+      paymentId,
+    });
+  }
+}
+
+/**
+ * A renewal payment failed or needs the client to authenticate. The
+ * membership goes past_due (pausing self-booking) and the client is sent a
+ * dunning email once for each failed attempt, with a link to pay.
+ */
+export async function handleMembershipInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionId = invoiceSubscriptionId(invoice);
+  if (!subscriptionId) return;
+
+  const membership = await syncMembershipSubscription(subscriptionId);
+  if (!membership?.plan) return;
+
+  const supabase = createServiceRoleClient();
+  const attempt = invoice.attempt_count || 1;
+  const payLink = invoice.hosted_invoice_url || `${getAppUrl()}/client/shop`;
+
+  await supabase
+    .from('ta_client_memberships')
+    .update({
+      payment_failed_at: new Date().toISOString(),
+      latest_invoice_url: invoice.hosted_invoice_url || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', membership.id);
+
+  // Claim this attempt's email, so replays and payment_action_required don't send it again
+  const { data: claimed } = await supabase
+    .from('ta_client_memberships')
+    .update({ dunning_attempt: attempt })
+    .eq('id', membership.id)
+    .lt('dunning_attempt', attempt)
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) return;
+
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('first_name, last_name, email')
+    .eq('id', membership.client_id)
+    .maybeSingle();
+
+  if (!client?.email) return;
+
+  try {
+    await sendMembershipPaymentFailedEmail({
+      clientEmail: client.email as string,
+      clientName: clientName(client as MembershipClientRow),
+      planName: membership.plan.name,
+      amount: invoice.amount_due,
+      attempt,
+      nextAttemptAt: fromUnix(invoice.next_payment_attempt),
+      payLink,
+      clientId: membership.client_id,
+      timezone: await getTrainerTimezone(membership.trainer_id),
+    });
+  } catch (notifyError) {
+    console.error('Error sending membership dunning email:', notifyError);
+    // Don't fail the webhook; the attempt is claimed and won't be retried
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * No-Show Service
+ *
+ * Enforces cancellation_policy.no_show_action. Confirmed bookings that are
+ * still not checked in once scheduled_at + duration + grace_period_minutes has
+ * passed are marked no-show and a pending charge is recorded. The trainer can
+ * undo it until undo_until; after that the charge is settled against the
+ * client's credits through the credit ledger.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getStudioConfig, getTrainerTimezone } from '@/lib/services/studio-service';
+import type { StudioConfig } from '@/lib/services/studio-service';
+import { sendNoShowEmail } from '@/lib/notifications/email-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import { applySimpleCreditEntry, refundBookingCredits } from '@/lib/services/credit-ledger-service';
+import type { NoShowAction, NoShowCharge, NoShowProcessResult } from '@/lib/types/no-show';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+interface NoShowCandidate {
+  id: string;
+  studio_id: string | null;
+  trainer_id: string;
+  client_id: string | null;
+  scheduled_at: string;
+  duration: number;
+  service: { name?: string; credits_required?: number } | null;
+}
+
+/** Matches the settings page default */
+const DEFAULT_GRACE_PERIOD_MINUTES = 10;
+const DEFAULT_UNDO_HOURS = 24;
+/**
+ * charge_partial charges this share of the session's credits, rounded down,
+ * so the client is never charged more than the share; a 1-credit session
+ * costs nothing
+ */
+const PARTIAL_CHARGE_PERCENT = 50;
+/** Bookings older than this are left alone so enabling the job doesn't back-charge history */
+const MAX_LOOKBACK_HOURS = 48;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Credits the policy charges for a missed session. */
+export function getNoShowCredits(action: NoShowAction, creditsRequired: number): number {
+  if (action === 'charge_full') return creditsRequired;
+  if (action === 'charge_partial') return Math.floor(creditsRequired * PARTIAL_CHARGE_PERCENT / 100);
+  return 0;
+}
+
+/** Email the client that the session was marked as a no-show. */
+async function notifyNoShow(
+  supabase: ServiceClient,
+  booking: NoShowCandidate,
+  creditsToCharge: number
+): Promise<void> {
+  try {
+    if (!booking.client_id) return;
+
+    const [{ data: client }, { data: trainer }] = await Promise.all([
+      supabase
+        .from('fc_clients')
+        .select('first_name, last_name, email')
+        .eq('id', booking.client_id)
+        .single(),
+      supabase
+        .from('profiles')
+        .select('first_name, last_name')
+        .eq('id', booking.trainer_id)
+        .single(),
+    ]);
+
+    if (!client?.email) return;
+
+    await sendNoShowEmail({
+      clientEmail: client.email,
+      clientName: `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Client',
+      trainerName: trainer
+        ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer'
+        : 'Your Trainer',
+      serviceName: booking.service?.name || 'Session',
+      scheduledAt: booking.scheduled_at,
+      creditsToCharge,
+      bookingId: booking.id,
+      timezone: await getTrainerTimezone(booking.trainer_id),
+    });
+  } catch (notifyError) {
+    console.error('Error sending no-show notification:', notifyError);
+    // Don't fail the no-show if the email fails
+  }
+}
+
+/**
+ * Settle a charge against what the booking already took from the ledger.
+ * Client-booked sessions are paid up front, so a smaller charge refunds the
+ * difference; trainer-booked sessions are paid on completion, so the charge is
+ * deducted now. creditsDelta is what settling gave back (+) or took (-).
+ */
+async function settleNoShowCharge(
+  supabase: ServiceClient,
+  charge: NoShowCharge
+): Promise<{ creditsCharged: number; creditsDelta: number; error: Error | null }> {
+  if (!charge.client_id) {
+    return { creditsCharged: 0, creditsDelta: 0, error: null };
+  }
+
+  const { data: usage } = await supabase
+    .from('ta_credit_usage')
+    .select('credits_used')
+    .eq('booking_id', charge.booking_id);
+
+  const alreadyPaid = (usage || []).reduce(
+    (sum: number, row: Record<string, unknown>) => sum + ((row.credits_used as number) || 0),
+    0
+  );
+  const difference = charge.credits_to_charge - alreadyPaid;
+
+  if (difference < 0) {
+    const { error: refundError } = await refundBookingCredits({
+      bookingId: charge.booking_id,
+      clientId: charge.client_id,
+      credits: -difference,
+      notes: `Partial credit refund for no-show (${charge.no_show_action})`,
+    });
+
+    if (refundError) {
+      return { creditsCharged: alreadyPaid, creditsDelta: 0, error: refundError };
+    }
+    return { creditsCharged: charge.credits_to_charge, creditsDelta: -difference, error: null };
+  }
+
+  if (difference === 0) {
+    return { creditsCharged: charge.credits_to_charge, creditsDelta: 0, error: null };
+  }
+
+  const { data: packages } = await supabase
+    .from('ta_client_packages')
+    .select('id')
+    .eq('client_id', charge.client_id)
+    .eq('status', 'active')
+    .gt('sessions_remaining', 0)
+    .gt('expires_at', new Date().toISOString())
+    .limit(1);
+
+  if (packages && packages.length > 0) {
+    // deduct_client_credit logs its own ta_credit_usage rows
+    const { error: deductError } = await supabase.rpc('deduct_client_credit', {
+      p_client_id: charge.client_id,
+      p_trainer_id: charge.trainer_id,
+      p_booking_id: charge.booking_id,
+      p_credits: difference,
+    });
+
+    if (deductError) {
+      return { creditsCharged: alreadyPaid, creditsDelta: 0, error: new Error(deductError.message) };
+    }
+    return { creditsCharged: charge.credits_to_charge, creditsDelta: -difference, error: null };
+  }
+
+  const { error: simpleError } = await applySimpleCreditEntry(charge.client_id, {
+    entryType: 'use',
+    credits: -difference,
+    reason: 'no_show',
+    bookingId: charge.booking_id,
+    notes: `No-show charge (${charge.no_show_action})`,
+  });
+
+  if (simpleError) {
+    return { creditsCharged: alreadyPaid, creditsDelta: 0, error: simpleError };
+  }
+
+  return { creditsCharged: charge.credits_to_charge, creditsDelta: -difference, error: null };
+}
+
+/** Mark overdue confirmed bookings as no-show and record their pending charges. */
+async function markOverdueBookings(supabase: ServiceClient, now: Date, batchSize: number): Promise<number> {
+  const lookbackStart = new Date(now.getTime() - MAX_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+  // A booking whose no-show was undone keeps its charge row and is not re-marked.
+  // They're left out before the limit, so a run of undone bookings can't fill every batch.
+  // Charges are recorded after the session, so only those since the lookback can match.
+  const { data: existingCharges, error: chargesError } = await supabase
+    .from('ta_no_show_charges')
+    .select('booking_id')
+    .gte('created_at', lookbackStart);
+
+  if (chargesError) {
+    throw new Error(chargesError.message);
+  }
+  const handledIds = (existingCharges || []).map((c: { booking_id: string }) => c.booking_id);
+
+  let query = supabase
+    .from('ta_bookings')
+    .select('id, studio_id, trainer_id, client_id, scheduled_at, duration, service:ta_services(name, credits_required)')
+    .eq('status', 'confirmed')
+    .lt('scheduled_at', now.toISOString())
+    .gte('scheduled_at', lookbackStart);
+
+  if (handledIds.length > 0) {
+    query = query.not('id', 'in', `(${handledIds.join(',')})`);
+  }
+
+  const { data: candidates, error } = await query
+    .order('scheduled_at', { ascending: true })
+    .limit(batchSize);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!candidates || candidates.length === 0) return 0;
+
+  const studioConfigs = new Map<string, StudioConfig | null>();
+  let marked = 0;
+
+  for (const booking of candidates as unknown as NoShowCandidate[]) {
+    let config: StudioConfig | null = null;
+    if (booking.studio_id) {
+      if (!studioConfigs.has(booking.studio_id)) {
+        const { data } = await getStudioConfig(booking.studio_id);
+        studioConfigs.set(booking.studio_id, data);
+      }
+      config = studioConfigs.get(booking.studio_id) ?? null;
+    }
+
+    const policy = config?.cancellation_policy || {};
+    const graceMinutes = policy.grace_period_minutes ?? DEFAULT_GRACE_PERIOD_MINUTES;
+    const deadline = new Date(booking.scheduled_at).getTime() + (booking.duration + graceMinutes) * 60 * 1000;
+    if (deadline > now.getTime()) continue;
+
+    // Guard on status so a check-in that lands mid-run wins
+    const { data: updated } = await supabase
+      .from('ta_bookings')
+      .update({ status: 'no-show' })
+      .eq('id', booking.id)
+      .eq('status', 'confirmed')
+      .select('id')
+      .maybeSingle();
+
+    if (!updated) continue;
+
+    const action: NoShowAction = policy.no_show_action || 'no_charge';
+    const creditsToCharge = getNoShowCredits(action, booking.service?.credits_required || 1);
+    const undoHours = policy.no_show_undo_hours ?? DEFAULT_UNDO_HOURS;
+
+    // The charge itself is recorded when it settles
+    await recordBookingEvent({
+      bookingId: booking.id,
+      eventType: 'no_show',
+      source: 'job',
+      oldStatus: 'confirmed',
+      newStatus: 'no-show',
+      metadata: { no_show_action: action, credits_to_charge: creditsToCharge },
+    });
+
+    const { error: chargeError } = await supabase.from('ta_no_show_charges').insert({
+      booking_id: booking.id,
+      studio_id: booking.studio_id,
+      trainer_id: booking.trainer_id,
+      client_id: booking.client_id,
+      no_show_action: action,
+      credits_to_charge: creditsToCharge,
+      undo_until: new Date(now.getTime() + undoHours * 60 * 60 * 1000).toISOString(),
+    });
+
+    if (chargeError) {
+      console.error('Error recording no-show charge:', chargeError);
+    }
+
+    await notifyNoShow(supabase, booking, creditsToCharge);
+    marked++;
+  }
+
+  return marked;
+}
+
+/** Settle pending charges whose undo window has closed. */
+async function finaliseExpiredCharges(
+  supabase: ServiceClient,
+  now: Date,
+  batchSize: number
+): Promise<{ charged: number; failed: number }> {
+  const { data: pending, error } = await supabase
+    .from('ta_no_show_charges')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('undo_until', now.toISOString())
+    .order('undo_until', { ascending: true })
+    .limit(batchSize);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  let charged = 0;
+  let failed = 0;
+
+  for (const charge of (pending || []) as NoShowCharge[]) {
+    // Claim the row first so overlapping runs (or a late undo) can't settle it twice
+    const { data: claimed } = await supabase
+      .from('ta_no_show_charges')
+      .update({ status: 'charged', finalised_at: now.toISOString() })
+      .eq('id', charge.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) continue;
+
+    const { creditsCharged, creditsDelta, error: settleError } = await settleNoShowCharge(supabase, charge);
+
+    await supabase
+      .from('ta_no_show_charges')
+      .update({ credits_charged: creditsCharged })
+      .eq('id', charge.id);
+
+    if (settleError) {
+      console.error(`Error settling no-show charge ${charge.id}:`, settleError);
+      failed++;
+    } else {
+      if (creditsDelta !== 0) {
+        await recordBookingEvent({
+          bookingId: charge.booking_id,
+          eventType: 'no_show_charged',
+          source: 'job',
+          creditsDelta,
+          metadata: { no_show_action: charge.no_show_action, credits_charged: creditsCharged },
+        });
+      }
+      charged++;
+    }
+  }
+
+  return { charged, failed };
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Cron entry point: mark overdue bookings as no-show, then settle charges
+ * whose undo window has passed.
+ */
+export async function processNoShows(
+  batchSize = 50
+): Promise<{ data: NoShowProcessResult | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const now = new Date();
+
+    const markedNoShow = await markOverdueBookings(supabase, now, batchSize);
+    const { charged, failed } = await finaliseExpiredCharges(supabase, now, batchSize);
+
+    return { data: { markedNoShow, charged, failed }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Undo an automatic no-show while its charge is still pending.
+ * The booking goes back to confirmed so the trainer can check the client in.
+ */
+export async function undoNoShow(
+  bookingId: string,
+  userId: string
+): Promise<{ data: { bookingId: string } | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: charge, error: fetchError } = await supabase
+      .from('ta_no_show_charges')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return { data: null, error: new Error(fetchError.message) };
+    }
+    if (!charge) {
+      return { data: null, error: new Error('No-show charge not found') };
+    }
+
+    // User must be the trainer or in the same studio
+    if (charge.trainer_id !== userId) {
+      const { data: userStaff } = await supabase
+        .from('bs_staff')
+        .select('studio_id')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (!userStaff?.studio_id || userStaff.studio_id !== charge.studio_id) {
+        return { data: null, error: new Error('Forbidden') };
+      }
+    }
+
+    if (charge.status !== 'pending' || new Date(charge.undo_until as string) < new Date()) {
+      return { data: null, error: new Error('Cannot undo a no-show after its charge has been settled') };
+    }
+
+    const { data: undone } = await supabase
+      .from('ta_no_show_charges')
+      .update({ status: 'undone', undone_at: new Date().toISOString(), undone_by: userId })
+      .eq('id', charge.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (!undone) {
+      return { data: null, error: new Error('Cannot undo a no-show after its charge has been settled') };
+    }
+
+    const { error: updateError } = await supabase
+      .from('ta_bookings')
+      .update({ status: 'confirmed' })
+      .eq('id', bookingId)
+      .eq('status', 'no-show');
+
+    if (updateError) {
+      return { data: null, error: new Error(updateError.message) };
+    }
+
+    await recordBookingEvent({
+      bookingId,
+      eventType: 'no_show_undone',
+      source: 'trainer',
+      actorId: userId,
+      oldStatus: 'no-show',
+      newStatus: 'confirmed',
+    });
+
+    return { data: { bookingId }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
@@ -12,6 +12,9 @@ import {
   sendLowCreditsEmail,
   sendPaymentReceiptEmail,
 } from '@/lib/notifications/email-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { formatLocationLabel } from '@/lib/services/location-service';
+import { isBookingReminderCurrent } from '@/lib/services/booking-reminder-service';
 
 /**
  * Get booking data enriched with client, trainer, and service info for email templates.
@@ -22,6 +25,8 @@ export async function getBookingNotificationData(bookingId: string | null): Prom
   serviceName: string;
   scheduledAt: string;
   duration: number;
+  timezone: string;
+  location?: string;
 } | null> {
   if (!bookingId) return null;
 
@@ -34,6 +39,7 @@ export async function getBookingNotificationData(bookingId: string | null): Prom
       duration,
       ta_services(name),
       fc_clients(first_name, last_name, email),
+      bs_locations(name, address),
       trainer_id
     `)
     .eq('id', bookingId)
@@ -47,6 +53,8 @@ export async function getBookingNotificationData(bookingId: string | null): Prom
     .eq('id', booking.trainer_id)
     .single();
 
+  const timezone = await getTrainerTimezone(booking.trainer_id);
+
   const client = booking.fc_clients as { first_name?: string; last_name?: string; email?: string } | null;
   const service = booking.ta_services as { name?: string } | null;
 
@@ -56,17 +64,20 @@ export async function getBookingNotificationData(bookingId: string | null): Prom
     serviceName: service?.name || 'Session',
     scheduledAt: booking.scheduled_at,
     duration: booking.duration,
+    timezone,
+    location: formatLocationLabel(booking.bs_locations as { name: string; address: string | null } | null),
   };
 }
 
 /**
  * Process pending notifications from the queue.
+ * Reminders for bookings that were cancelled or moved are cancelled instead of sent.
  */
 export async function processNotificationQueue(
   batchSize: number = 10,
   type?: string
 ): Promise<{
-  data: { processed: number; sent: number; failed: number; errors: string[] } | null;
+  data: { processed: number; sent: number; failed: number; skipped: number; errors: string[] } | null;
   error: Error | null;
 }> {
   try {
@@ -93,13 +104,14 @@ export async function processNotificationQueue(
     }
 
     if (!notifications || notifications.length === 0) {
-      return { data: { processed: 0, sent: 0, failed: 0, errors: [] }, error: null };
+      return { data: { processed: 0, sent: 0, failed: 0, skipped: 0, errors: [] }, error: null };
     }
 
     const results = {
       processed: 0,
       sent: 0,
       failed: 0,
+      skipped: 0,
       errors: [] as string[],
     };
 
@@ -121,6 +133,8 @@ export async function processNotificationQueue(
                 scheduledAt: data.scheduledAt,
                 duration: data.duration,
                 bookingId: notification.booking_id,
+                timezone: data.timezone,
+                location: data.location,
               });
               success = result.success;
               if (!success) results.errors.push(result.error || 'Unknown error');
@@ -130,6 +144,16 @@ export async function processNotificationQueue(
 
           case 'reminder_24h':
           case 'reminder_2h': {
+            const templateData = notification.template_data as { scheduled_at?: string } | null;
+            if (!(await isBookingReminderCurrent(notification.booking_id, templateData?.scheduled_at))) {
+              await supabase
+                .from('ta_notifications')
+                .update({ status: 'cancelled' })
+                .eq('id', notification.id);
+              results.skipped++;
+              continue;
+            }
+
             const hours = notification.type === 'reminder_24h' ? 24 : 2;
             const data = await getBookingNotificationData(notification.booking_id);
             if (data) {
@@ -141,6 +165,8 @@ export async function processNotificationQueue(
                 scheduledAt: data.scheduledAt,
                 hours,
                 bookingId: notification.booking_id,
+                timezone: data.timezone,
+                location: data.location,
               });
               success = result.success;
               if (!success) results.errors.push(result.error || 'Unknown error');
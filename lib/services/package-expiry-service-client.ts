@@ -0,0 +1,44 @@
+/**
+ * Client-side Package Expiry Service
+ *
+ * Uses API routes for a client's packages and extending their expiry
+ */
+
+import type { ClientPackageExpiry } from '@/lib/types/package-expiry';
+
+/**
+ * A client's packages with their expiry dates (client-side)
+ */
+export async function getClientPackagesClient(clientId: string): Promise<ClientPackageExpiry[]> {
+  const response = await fetch(`/api/clients/${clientId}/packages`);
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to load packages');
+  }
+
+  return body.packages as ClientPackageExpiry[];
+}
+
+/**
+ * Move a package's expiry date later (client-side)
+ */
+export async function extendPackageExpiryClient(params: {
+  clientId: string;
+  clientPackageId: string;
+  expiresAt: string;
+  reason?: string;
+}): Promise<ClientPackageExpiry> {
+  const response = await fetch(`/api/clients/${params.clientId}/packages/${params.clientPackageId}/extend`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expiresAt: params.expiresAt, reason: params.reason }),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to extend package');
+  }
+
+  return body.package as ClientPackageExpiry;
+}
@@ -0,0 +1,508 @@
+/**
+ * Package Expiry Service
+ *
+ * Expires client packages once expires_at is reached and warns clients 14
+ * and 3 days before. The package expiry cron runs both. Expiring a package
+ * writes its unused credits off in the credit ledger; an owner can extend
+ * the expiry date, which is recorded in ta_package_expiry_extensions and
+ * gives back credits the package had already lost.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { applyPackageCreditEntry } from '@/lib/services/credit-ledger-service';
+import { sendPackageExpiryWarningEmail } from '@/lib/notifications/email-service';
+import { isSMSEnabled, queueSMS } from '@/lib/notifications/sms-service';
+import { getPackageExpiryWarningSMS } from '@/lib/notifications/sms-templates';
+import type {
+  ClientPackageExpiry,
+  PackageExpiryExtension,
+  PackageExpiryProcessResult,
+} from '@/lib/types/package-expiry';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+type WarningStage = 14 | 3;
+
+interface ExpiringPackageRow {
+  id: string;
+  client_id: string;
+  trainer_id: string;
+  sessions_remaining: number | null;
+  expires_at: string;
+  expiry_warning_14_sent_at: string | null;
+  package: { name: string | null } | null;
+  client: {
+    first_name: string | null;
+    last_name: string | null;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    sms_transactional_opt_in: boolean | null;
+  } | null;
+}
+
+interface ClientPackageRow {
+  id: string;
+  client_id: string;
+  sessions_total: number | null;
+  sessions_remaining: number | null;
+  purchased_at: string | null;
+  expires_at: string | null;
+  expired_at: string | null;
+  status: string;
+  notes: string | null;
+  ta_packages: { name?: string } | null;
+}
+
+interface ExtensionRow {
+  id: string;
+  client_package_id: string;
+  extended_by: string | null;
+  old_expires_at: string | null;
+  new_expires_at: string;
+  reason: string | null;
+  credits_reinstated: number;
+  created_at: string;
+}
+
+/** Days before expires_at that clients are warned */
+export const PACKAGE_EXPIRY_WARNING_DAYS: WarningStage[] = [14, 3];
+
+const DEFAULT_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRING_SELECT = `
+  id, client_id, trainer_id, sessions_remaining, expires_at, expiry_warning_14_sent_at,
+  package:ta_packages(name),
+  client:fc_clients(first_name, last_name, name, email, phone, sms_transactional_opt_in)
+`;
+
+const CLIENT_PACKAGE_SELECT = `
+  id, client_id, sessions_total, sessions_remaining, purchased_at, expires_at, expired_at, status, notes,
+  ta_packages(name)
+`;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function clientName(row: ExpiringPackageRow): string {
+  return `${row.client?.first_name || ''} ${row.client?.last_name || ''}`.trim() || row.client?.name || 'Client';
+}
+
+async function getTrainerName(supabase: ServiceClient, trainerId: string): Promise<string> {
+  const { data: trainer } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', trainerId)
+    .maybeSingle();
+
+  return trainer
+    ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer'
+    : 'Your Trainer';
+}
+
+function toExtension(row: ExtensionRow): PackageExpiryExtension {
+  return {
+    id: row.id,
+    clientPackageId: row.client_package_id,
+    extendedBy: row.extended_by,
+    oldExpiresAt: row.old_expires_at,
+    newExpiresAt: row.new_expires_at,
+    reason: row.reason,
+    creditsReinstated: row.credits_reinstated,
+    createdAt: row.created_at,
+  };
+}
+
+function toClientPackage(row: ClientPackageRow, extensions: PackageExpiryExtension[]): ClientPackageExpiry {
+  return {
+    id: row.id,
+    // Membership allocations have no package; they're named in their notes
+    packageName: row.ta_packages?.name || row.notes || 'Unknown Package',
+    sessionsTotal: row.sessions_total || 0,
+    sessionsRemaining: row.sessions_remaining || 0,
+    purchasedAt: row.purchased_at,
+    expiresAt: row.expires_at,
+    expiredAt: row.expired_at,
+    status: row.status,
+    extensions,
+  };
+}
+
+/** Email and text the client that a package's credits are about to expire. */
+async function notifyExpiryWarning(
+  supabase: ServiceClient,
+  row: ExpiringPackageRow,
+  daysLeft: number
+): Promise<boolean> {
+  const client = row.client;
+  if (!client) return false;
+
+  const timezone = await getTrainerTimezone(row.trainer_id);
+  const packageName = row.package?.name || 'package';
+  const credits = row.sessions_remaining || 0;
+  const bookLink = `${getAppUrl()}/client/book`;
+  let sent = false;
+
+  try {
+    if (client.email) {
+      const { success } = await sendPackageExpiryWarningEmail({
+        clientEmail: client.email,
+        clientName: clientName(row),
+        trainerName: await getTrainerName(supabase, row.trainer_id),
+        packageName,
+        creditsRemaining: credits,
+        expiresAt: row.expires_at,
+        daysLeft,
+        bookLink,
+        clientId: row.client_id,
+        timezone,
+      });
+      sent = success;
+    }
+
+    if (isSMSEnabled() && client.phone && client.sms_transactional_opt_in !== false) {
+      const { error } = await queueSMS({
+        phone: client.phone,
+        message: getPackageExpiryWarningSMS({
+          credits,
+          packageName,
+          date: new Date(row.expires_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', timeZone: timezone }),
+          bookLink,
+        }),
+        userId: row.client_id,
+      });
+      sent = sent || !error;
+    }
+  } catch (notifyError) {
+    console.error('Error sending package expiry warning:', notifyError);
+    // Don't fail the run; the warning is claimed and won't be retried
+  }
+
+  return sent;
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Move active packages that have reached expires_at to 'expired' and write
+ * their unused credits off with an expiry entry.
+ */
+export async function expireDuePackages(
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<{ data: { expired: number; creditsExpired: number } | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const result = { expired: 0, creditsExpired: 0 };
+    const now = new Date().toISOString();
+
+    const { data: due, error } = await supabase
+      .from('ta_client_packages')
+      .select('id')
+      .eq('status', 'active')
+      .lte('expires_at', now)
+      .order('expires_at', { ascending: true })
+      .limit(batchSize);
+
+    if (error) {
+      console.error('Error fetching expired packages:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    for (const row of (due || []) as Array<{ id: string }>) {
+      // Only packages still active are expired, so a concurrent run doesn't handle them twice
+      const { data: claimed } = await supabase
+        .from('ta_client_packages')
+        .update({ status: 'expired', expired_at: now })
+        .eq('id', row.id)
+        .eq('status', 'active')
+        .select('id, sessions_remaining')
+        .maybeSingle();
+
+      if (!claimed) continue;
+      result.expired++;
+
+      const remaining = (claimed.sessions_remaining as number | null) || 0;
+      if (remaining <= 0) continue;
+
+      const { error: entryError } = await applyPackageCreditEntry(row.id, {
+        entryType: 'expiry',
+        credits: -remaining,
+        reason: 'expiry',
+        notes: 'Package expired',
+      });
+
+      if (entryError) {
+        console.error('Error writing off expired package credits:', entryError);
+        continue;
+      }
+      result.creditsExpired += remaining;
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Warn clients whose package credits expire within 14 and 3 days. A package
+ * that reaches the 3-day window without its 14-day warning only gets the
+ * 3-day one. Packages with no credits left are skipped.
+ */
+export async function sendPackageExpiryWarnings(
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<{ data: { warned14: number; warned3: number } | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const now = new Date();
+    const result = { warned14: 0, warned3: 0 };
+
+    for (const stage of PACKAGE_EXPIRY_WARNING_DAYS) {
+      const column = stage === 14 ? 'expiry_warning_14_sent_at' : 'expiry_warning_3_sent_at';
+      let query = supabase
+        .from('ta_client_packages')
+        .select(EXPIRING_SELECT)
+        .eq('status', 'active')
+        .gt('sessions_remaining', 0)
+        .is(column, null)
+        // Membership credits are replaced every period rather than running out
+        .is('membership_id', null)
+        .gt('expires_at', now.toISOString())
+        .lte('expires_at', new Date(now.getTime() + stage * DAY_MS).toISOString());
+
+      // The 14-day window starts where the 3-day one ends
+      if (stage === 14) {
+        query = query.gt('expires_at', new Date(now.getTime() + 3 * DAY_MS).toISOString());
+      }
+
+      const { data: due, error } = await query.order('expires_at', { ascending: true }).limit(batchSize);
+
+      if (error) {
+        console.error('Error fetching packages to warn:', error);
+        return { data: null, error: new Error(error.message) };
+      }
+
+      for (const row of (due || []) as ExpiringPackageRow[]) {
+        const sentAt = new Date().toISOString();
+        const claim: Record<string, string> = { [column]: sentAt };
+        if (stage === 3 && !row.expiry_warning_14_sent_at) {
+          claim.expiry_warning_14_sent_at = sentAt;
+        }
+
+        // Claim the warning so overlapping runs send it once
+        const { data: claimed } = await supabase
+          .from('ta_client_packages')
+          .update(claim)
+          .eq('id', row.id)
+          .eq('status', 'active')
+          .is(column, null)
+          .select('id')
+          .maybeSingle();
+
+        if (!claimed) continue;
+
+        const daysLeft = Math.max(1, Math.ceil((new Date(row.expires_at).getTime() - now.getTime()) / DAY_MS));
+        if (await notifyExpiryWarning(supabase, row, daysLeft)) {
+          if (stage === 14) result.warned14++;
+          else result.warned3++;
+        }
+      }
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * One run of the package expiry processor: expire the packages that are
+ * due, then warn the clients whose credits are about to expire.
+ */
+export async function processPackageExpiry(
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<{ data: PackageExpiryProcessResult | null; error: Error | null }> {
+  const { data: expired, error: expireError } = await expireDuePackages(batchSize);
+  if (expireError || !expired) {
+    return { data: null, error: expireError || new Error('Failed to expire packages') };
+  }
+
+  const { data: warnings, error: warningError } = await sendPackageExpiryWarnings(batchSize);
+  if (warningError || !warnings) {
+    return { data: null, error: warningError || new Error('Failed to send package expiry warnings') };
+  }
+
+  return { data: { ...expired, ...warnings }, error: null };
+}
+
+/**
+ * A client's packages with their expiry and extension history, for staff in
+ * the client's studio.
+ */
+export async function getClientPackageExpiries(params: {
+  clientId: string;
+  studioId: string;
+}): Promise<{ data: ClientPackageExpiry[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: client } = await supabase
+      .from('fc_clients')
+      .select('id, studio_id')
+      .eq('id', params.clientId)
+      .maybeSingle();
+
+    if (!client || client.studio_id !== params.studioId) {
+      return { data: null, error: new Error('Client not found') };
+    }
+
+    const { data: packages, error } = await supabase
+      .from('ta_client_packages')
+      .select(CLIENT_PACKAGE_SELECT)
+      .eq('client_id', params.clientId)
+      .order('expires_at', { ascending: true });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const rows = (packages || []) as ClientPackageRow[];
+    const extensions = new Map<string, PackageExpiryExtension[]>();
+
+    if (rows.length > 0) {
+      const { data: extensionRows, error: extensionsError } = await supabase
+        .from('ta_package_expiry_extensions')
+        .select('*')
+        .in('client_package_id', rows.map((p) => p.id))
+        .order('created_at', { ascending: false });
+
+      if (extensionsError) {
+        return { data: null, error: new Error(extensionsError.message) };
+      }
+
+      for (const row of (extensionRows || []) as ExtensionRow[]) {
+        const list = extensions.get(row.client_package_id) || [];
+        list.push(toExtension(row));
+        extensions.set(row.client_package_id, list);
+      }
+    }
+
+    return {
+      data: rows.map((row) => toClientPackage(row, extensions.get(row.id) || [])),
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Move a package's expiry date later. A package that has already expired is
+ * made active again with the credits it lost. Warnings are sent again for
+ * the new date, and the change is recorded with who made it and why.
+ */
+export async function extendPackageExpiry(params: {
+  clientId: string;
+  clientPackageId: string;
+  studioId: string;
+  actorId: string;
+  expiresAt: string;
+  reason?: string | null;
+}): Promise<{ data: ClientPackageExpiry | null; error: Error | null }> {
+  try {
+    const newExpiry = new Date(params.expiresAt);
+    if (isNaN(newExpiry.getTime())) {
+      return { data: null, error: new Error('Invalid expiry date') };
+    }
+    if (newExpiry.getTime() <= Date.now()) {
+      return { data: null, error: new Error('The new expiry date must be in the future') };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: client } = await supabase
+      .from('fc_clients')
+      .select('id, studio_id')
+      .eq('id', params.clientId)
+      .maybeSingle();
+
+    if (!client || client.studio_id !== params.studioId) {
+      return { data: null, error: new Error('Client not found') };
+    }
+
+    const { data: pkg } = await supabase
+      .from('ta_client_packages')
+      .select(CLIENT_PACKAGE_SELECT)
+      .eq('id', params.clientPackageId)
+      .eq('client_id', params.clientId)
+      .maybeSingle();
+
+    if (!pkg) {
+      return { data: null, error: new Error('Package not found') };
+    }
+
+    const current = pkg as ClientPackageRow;
+    if (current.status !== 'active' && current.status !== 'expired') {
+      return { data: null, error: new Error('Only active or expired packages can be extended') };
+    }
+    if (current.expires_at && newExpiry.getTime() <= new Date(current.expires_at).getTime()) {
+      return { data: null, error: new Error('The new expiry date must be after the current one') };
+    }
+
+    // Credits the package lost when it expired
+    let creditsReinstated = 0;
+    if (current.status === 'expired') {
+      const { data: expiry } = await supabase
+        .from('ta_credit_usage')
+        .select('credits_used')
+        .eq('client_package_id', current.id)
+        .eq('entry_type', 'expiry')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      creditsReinstated = Math.max(0, (expiry?.credits_used as number | null) || 0);
+    }
+
+    // The new date, audit row and reinstated credits are written in one
+    // transaction, and only to a package still in the state it was read in
+    // so two owners can't both extend it
+    const { error: extendError } = await supabase.rpc('extend_package_expiry', {
+      p_client_package_id: current.id,
+      p_expected_status: current.status,
+      p_studio_id: params.studioId,
+      p_extended_by: params.actorId,
+      p_old_expires_at: current.expires_at,
+      p_new_expires_at: newExpiry.toISOString(),
+      p_reason: params.reason?.trim() || null,
+      p_credits_reinstated: creditsReinstated,
+    });
+
+    if (extendError) {
+      if (extendError.message?.includes('Package changed')) {
+        return { data: null, error: new Error('The package changed while it was being extended; please try again') };
+      }
+      console.error('Error extending package expiry:', extendError);
+      return { data: null, error: new Error(extendError.message) };
+    }
+
+    const { data: packages, error: listError } = await getClientPackageExpiries({
+      clientId: params.clientId,
+      studioId: params.studioId,
+    });
+    if (listError || !packages) {
+      return { data: null, error: listError || new Error('Failed to load package') };
+    }
+
+    return { data: packages.find((p) => p.id === current.id) || null, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
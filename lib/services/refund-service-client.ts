@@ -0,0 +1,48 @@
+/**
+ * Client-side Refund Service
+ *
+ * Uses API routes for a client's or booking's payments and refunding them
+ */
+
+import type { RefundablePayment, RefundPaymentInput } from '@/lib/types/refund';
+
+/**
+ * The payments taken from a client, or for a booking (client-side)
+ */
+export async function getRefundablePaymentsClient(params: {
+  clientId?: string;
+  bookingId?: string;
+}): Promise<RefundablePayment[]> {
+  const url = params.clientId
+    ? `/api/clients/${params.clientId}/payments`
+    : `/api/bookings/${params.bookingId}/payments`;
+  const response = await fetch(url);
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to load payments');
+  }
+
+  return body.payments as RefundablePayment[];
+}
+
+/**
+ * Refund all or part of a payment (client-side)
+ */
+export async function refundPaymentClient(
+  params: { paymentId: string } & RefundPaymentInput
+): Promise<{ payment: RefundablePayment; warnings: string[] }> {
+  const { paymentId, ...input } = params;
+  const response = await fetch(`/api/payments/${paymentId}/refund`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to refund payment');
+  }
+
+  return { payment: body.payment as RefundablePayment, warnings: body.warnings || [] };
+}
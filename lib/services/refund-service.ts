@@ -0,0 +1,486 @@
+/**
+ * Refund Service
+ *
+ * Full and partial refunds of booking payments and package purchases.
+ * Payments are destination charges, so the refund is made on the platform
+ * charge with the transfer reversed: the money comes back out of the
+ * studio's connected account, along with the matching share of the
+ * platform fee. Each refund is recorded in ta_refunds and against its
+ * ta_payments row, and can take back the bought package's unused credits
+ * in proportion. Refunds made directly in Stripe are picked up from the
+ * charge.refunded webhook.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { stripe } from '@/lib/stripe/config';
+import { applyPackageCreditEntry } from '@/lib/services/credit-ledger-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import type Stripe from 'stripe';
+import type { PaymentRefund, RefundablePayment, RefundPaymentInput, RefundSource } from '@/lib/types/refund';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+interface PaymentRow {
+  id: string;
+  client_id: string | null;
+  booking_id: string | null;
+  package_id: string | null;
+  stripe_payment_intent_id: string | null;
+  amount_cents: number;
+  refunded_amount_cents: number | null;
+  currency: string | null;
+  status: string;
+  payment_type: string | null;
+  description: string | null;
+  created_at: string;
+}
+
+interface RefundRow {
+  id: string;
+  payment_id: string;
+  amount_cents: number;
+  reason: string | null;
+  source: RefundSource;
+  credits_clawed_back: number;
+  refunded_by: string | null;
+  created_at: string;
+}
+
+interface AllocationRow {
+  id: string;
+  sessions_total: number | null;
+  sessions_remaining: number | null;
+}
+
+const PAYMENT_SELECT = `
+  id, client_id, booking_id, package_id, stripe_payment_intent_id, amount_cents, refunded_amount_cents,
+  currency, status, payment_type, description, created_at
+`;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function toRefund(row: RefundRow): PaymentRefund {
+  return {
+    id: row.id,
+    amountCents: row.amount_cents,
+    reason: row.reason,
+    source: row.source,
+    creditsClawedBack: row.credits_clawed_back,
+    refundedBy: row.refunded_by,
+    createdAt: row.created_at,
+  };
+}
+
+function toPayment(row: PaymentRow, allocation: AllocationRow | null, refunds: PaymentRefund[]): RefundablePayment {
+  return {
+    id: row.id,
+    description: row.description,
+    paymentType: row.payment_type,
+    bookingId: row.booking_id,
+    amountCents: row.amount_cents,
+    refundedAmountCents: row.refunded_amount_cents || 0,
+    currency: row.currency || 'gbp',
+    status: row.status,
+    createdAt: row.created_at,
+    allocation: allocation
+      ? {
+          id: allocation.id,
+          sessionsTotal: allocation.sessions_total || 0,
+          sessionsRemaining: allocation.sessions_remaining || 0,
+        }
+      : null,
+    refunds,
+  };
+}
+
+/**
+ * The package allocation a payment bought: issued against the payment, or,
+ * for package checkouts from before allocations carried their payment, the
+ * client's unlinked allocation of the catalogue package the payment was for
+ * (the first one issued after the payment, else the latest before it).
+ */
+async function findPaymentAllocation(supabase: ServiceClient, payment: PaymentRow): Promise<AllocationRow | null> {
+  const { data: issued } = await supabase
+    .from('ta_client_packages')
+    .select('id, sessions_total, sessions_remaining')
+    .eq('payment_id', payment.id)
+    .maybeSingle();
+
+  if (issued) return issued as AllocationRow;
+  if (!payment.package_id || !payment.client_id) return null;
+
+  const unlinked = () =>
+    supabase
+      .from('ta_client_packages')
+      .select('id, sessions_total, sessions_remaining')
+      .eq('client_id', payment.client_id as string)
+      .eq('package_id', payment.package_id as string)
+      .is('payment_id', null);
+
+  const { data: after } = await unlinked()
+    .gte('purchased_at', payment.created_at)
+    .order('purchased_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (after) return after as AllocationRow;
+
+  const { data: before } = await unlinked()
+    .lt('purchased_at', payment.created_at)
+    .order('purchased_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (before) return before as AllocationRow;
+
+  // Some older checkouts recorded the allocation itself as the package
+  const { data: linked } = await supabase
+    .from('ta_client_packages')
+    .select('id, sessions_total, sessions_remaining')
+    .eq('id', payment.package_id)
+    .eq('client_id', payment.client_id)
+    .maybeSingle();
+
+  return linked as AllocationRow | null;
+}
+
+/** Whether the payment belongs to a client or booking in the studio */
+async function paymentInStudio(supabase: ServiceClient, payment: PaymentRow, studioId: string): Promise<boolean> {
+  if (payment.client_id) {
+    const { data: client } = await supabase
+      .from('fc_clients')
+      .select('studio_id')
+      .eq('id', payment.client_id)
+      .maybeSingle();
+    if (client?.studio_id === studioId) return true;
+  }
+
+  if (payment.booking_id) {
+    const { data: booking } = await supabase
+      .from('ta_bookings')
+      .select('studio_id')
+      .eq('id', payment.booking_id)
+      .maybeSingle();
+    if (booking?.studio_id === studioId) return true;
+  }
+
+  return false;
+}
+
+async function loadPayments(supabase: ServiceClient, rows: PaymentRow[]): Promise<RefundablePayment[]> {
+  if (rows.length === 0) return [];
+
+  const { data: refundRows } = await supabase
+    .from('ta_refunds')
+    .select('*')
+    .in('payment_id', rows.map((p) => p.id))
+    .order('created_at', { ascending: false });
+
+  const refunds = new Map<string, PaymentRefund[]>();
+  for (const row of (refundRows || []) as RefundRow[]) {
+    const list = refunds.get(row.payment_id) || [];
+    list.push(toRefund(row));
+    refunds.set(row.payment_id, list);
+  }
+
+  return Promise.all(
+    rows.map(async (row) =>
+      toPayment(row, await findPaymentAllocation(supabase, row), refunds.get(row.id) || [])
+    )
+  );
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * The payments taken from a client, or for a booking, with what has been
+ * refunded so far. For staff in the client's studio.
+ */
+export async function getRefundablePayments(params: {
+  studioId: string;
+  clientId?: string;
+  bookingId?: string;
+}): Promise<{ data: RefundablePayment[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    if (params.clientId) {
+      const { data: client } = await supabase
+        .from('fc_clients')
+        .select('id, studio_id')
+        .eq('id', params.clientId)
+        .maybeSingle();
+
+      if (!client || client.studio_id !== params.studioId) {
+        return { data: null, error: new Error('Client not found') };
+      }
+    } else if (params.bookingId) {
+      const { data: booking } = await supabase
+        .from('ta_bookings')
+        .select('id, studio_id')
+        .eq('id', params.bookingId)
+        .maybeSingle();
+
+      if (!booking || booking.studio_id !== params.studioId) {
+        return { data: null, error: new Error('Booking not found') };
+      }
+    } else {
+      return { data: null, error: new Error('A client or booking is required') };
+    }
+
+    let query = supabase
+      .from('ta_payments')
+      .select(PAYMENT_SELECT)
+      .in('status', ['succeeded', 'refunded'])
+      .order('created_at', { ascending: false });
+
+    query = params.clientId ? query.eq('client_id', params.clientId) : query.eq('booking_id', params.bookingId!);
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: await loadPayments(supabase, (data || []) as PaymentRow[]), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Refund some or all of a payment through Stripe. The refunded amount is
+ * claimed on the payment first, so two refunds at once can't together
+ * exceed what was paid. Optionally takes back the bought package's unused
+ * credits in proportion to the refund (all of them for a full refund);
+ * warnings say when no credits could be taken back.
+ */
+export async function refundPayment(params: {
+  paymentId: string;
+  studioId: string;
+  actorId: string;
+  input: RefundPaymentInput;
+}): Promise<{ data: RefundablePayment | null; error: Error | null; warnings?: string[] }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const { input } = params;
+
+    const { data: rawPayment } = await supabase
+      .from('ta_payments')
+      .select(PAYMENT_SELECT)
+      .eq('id', params.paymentId)
+      .maybeSingle();
+
+    const payment = rawPayment as PaymentRow | null;
+    if (!payment || !(await paymentInStudio(supabase, payment, params.studioId))) {
+      return { data: null, error: new Error('Payment not found') };
+    }
+
+    if (payment.status === 'refunded') {
+      return { data: null, error: new Error('This payment has already been fully refunded') };
+    }
+    if (payment.status !== 'succeeded') {
+      return { data: null, error: new Error('Only completed payments can be refunded') };
+    }
+    if (!payment.stripe_payment_intent_id) {
+      return { data: null, error: new Error('This payment was not taken through Stripe, so it cannot be refunded here') };
+    }
+
+    const alreadyRefunded = payment.refunded_amount_cents || 0;
+    const refundable = payment.amount_cents - alreadyRefunded;
+    const amount = input.amountCents ?? refundable;
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return { data: null, error: new Error('Refund amount must be a positive number of pence') };
+    }
+    if (amount > refundable) {
+      return { data: null, error: new Error(`Refund amount must be no more than the £${(refundable / 100).toFixed(2)} left to refund`) };
+    }
+
+    const refundedTotal = alreadyRefunded + amount;
+    const fullyRefunded = refundedTotal >= payment.amount_cents;
+
+    // Claim the amount, so a concurrent refund of the same payment fails rather than over-refunding
+    const { data: claimed } = await supabase
+      .from('ta_payments')
+      .update({ refunded_amount_cents: refundedTotal, status: fullyRefunded ? 'refunded' : payment.status })
+      .eq('id', payment.id)
+      .eq('refunded_amount_cents', alreadyRefunded)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      return { data: null, error: new Error('The payment changed while it was being refunded; please try again') };
+    }
+
+    let stripeRefund: Stripe.Refund;
+    try {
+      stripeRefund = await stripe.refunds.create(
+        {
+          payment_intent: payment.stripe_payment_intent_id,
+          amount,
+          reverse_transfer: true,
+          refund_application_fee: true,
+          metadata: { source: 'dashboard', payment_id: payment.id, refunded_by: params.actorId },
+        },
+        { idempotencyKey: `refund_${payment.id}_${alreadyRefunded}_${amount}` }
+      );
+    } catch (stripeError) {
+      // Give the claim back so the refund can be tried again
+      await supabase
+        .from('ta_payments')
+        .update({ refunded_amount_cents: alreadyRefunded, status: payment.status })
+        .eq('id', payment.id)
+        .eq('refunded_amount_cents', refundedTotal);
+
+      const message = stripeError instanceof Error ? stripeError.message : String(stripeError);
+      return { data: null, error: new Error(`Stripe refused the refund: ${message}`) };
+    }
+
+    let creditsClawedBack = 0;
+    let allocationId: string | null = null;
+    const warnings: string[] = [];
+
+    if (input.clawBackCredits) {
+      const allocation = await findPaymentAllocation(supabase, payment);
+      const remaining = allocation?.sessions_remaining || 0;
+
+      if (!allocation) {
+        warnings.push('No package was found for this payment, so no credits were taken back.');
+      } else if (remaining <= 0) {
+        allocationId = allocation.id;
+        warnings.push('The package has no unused credits left, so none were taken back.');
+      } else {
+        allocationId = allocation.id;
+        const proportional = Math.round(((allocation.sessions_total || 0) * amount) / payment.amount_cents);
+        const credits = fullyRefunded ? remaining : Math.min(remaining, proportional);
+
+        if (credits <= 0) {
+          warnings.push('The refund is too small to take back a whole credit, so none were taken back.');
+        } else {
+          const { error: entryError } = await applyPackageCreditEntry(allocation.id, {
+            entryType: 'adjustment',
+            credits: -credits,
+            reason: 'payment_refund',
+            notes: `£${(amount / 100).toFixed(2)} refunded`,
+            createdBy: params.actorId,
+            metadata: { payment_id: payment.id, stripe_refund_id: stripeRefund.id },
+          });
+
+          if (entryError) {
+            // The money has gone back; the credits can be adjusted by hand
+            console.error('Error clawing back refunded credits:', entryError);
+            warnings.push(`The credits could not be taken back (${entryError.message}); adjust the package by hand.`);
+          } else {
+            creditsClawedBack = credits;
+          }
+        }
+      }
+    }
+
+    const { error: refundError } = await supabase.from('ta_refunds').insert({
+      payment_id: payment.id,
+      client_id: payment.client_id,
+      stripe_refund_id: stripeRefund.id,
+      amount_cents: amount,
+      currency: payment.currency || 'gbp',
+      reason: input.reason?.trim() || null,
+      source: 'dashboard',
+      client_package_id: allocationId,
+      credits_clawed_back: creditsClawedBack,
+      refunded_by: params.actorId,
+    });
+
+    if (refundError) {
+      console.error('Error recording refund:', refundError);
+    }
+
+    if (payment.booking_id) {
+      await recordBookingEvent({
+        bookingId: payment.booking_id,
+        eventType: 'payment_refunded',
+        source: 'trainer',
+        actorId: params.actorId,
+        metadata: {
+          payment_id: payment.id,
+          amount_cents: amount,
+          full_refund: fullyRefunded,
+          reason: input.reason?.trim() || null,
+        },
+      });
+    }
+
+    const { data: updated } = await supabase
+      .from('ta_payments')
+      .select(PAYMENT_SELECT)
+      .eq('id', payment.id)
+      .single();
+
+    const [result] = await loadPayments(supabase, [updated as PaymentRow]);
+    return { data: result, error: null, warnings };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Bring a payment in line with a refunded charge and record refunds that
+ * were made directly in Stripe (dashboard refunds are recorded when they're
+ * made). Returns whether the charge is now fully refunded and whether any
+ * of that came from Stripe, or null for charges with no payment recorded.
+ */
+export async function syncChargeRefunds(
+  charge: Stripe.Charge
+): Promise<{ paymentId: string; bookingId: string | null; fullyRefunded: boolean; refundedInStripe: boolean } | null> {
+  const supabase = createServiceRoleClient();
+  const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (!paymentIntentId) return null;
+
+  const { data: rawPayment } = await supabase
+    .from('ta_payments')
+    .select(PAYMENT_SELECT)
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  const payment = rawPayment as PaymentRow | null;
+  if (!payment) return null;
+
+  let refundedInStripe = false;
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+
+  for (const refund of refunds.data) {
+    if (refund.metadata?.source === 'dashboard' || refund.status === 'failed' || refund.status === 'canceled') continue;
+
+    const { error } = await supabase.from('ta_refunds').insert({
+      payment_id: payment.id,
+      client_id: payment.client_id,
+      stripe_refund_id: refund.id,
+      amount_cents: refund.amount,
+      currency: refund.currency,
+      reason: refund.reason,
+      source: 'stripe',
+    });
+
+    // Unique on stripe_refund_id: already recorded by an earlier event
+    if (!error) refundedInStripe = true;
+    else if (error.code !== '23505') console.error('Error recording Stripe refund:', error);
+  }
+
+  const refundedTotal = Math.max(payment.refunded_amount_cents || 0, charge.amount_refunded);
+  await supabase
+    .from('ta_payments')
+    .update({
+      refunded_amount_cents: refundedTotal,
+      status: charge.refunded ? 'refunded' : payment.status,
+    })
+    .eq('id', payment.id);
+
+  return {
+    paymentId: payment.id,
+    bookingId: payment.booking_id,
+    fullyRefunded: charge.refunded,
+    refundedInStripe,
+  };
+}
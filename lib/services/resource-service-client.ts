@@ -0,0 +1,146 @@
+/**
+ * Client-side Resource Service
+ *
+ * Uses API routes for resource CRUD and the resource calendar (bypasses RLS via service role)
+ */
+
+import type {
+  Resource,
+  ResourceConflictMode,
+  ResourceInput,
+  ResourceKind,
+  ResourceSchedule,
+} from '@/lib/types/resource';
+
+/**
+ * Database resource shape (snake_case)
+ */
+interface DbResource {
+  id: string;
+  studio_id: string;
+  location_id: string | null;
+  name: string;
+  kind: ResourceKind;
+  quantity: number;
+  conflict_mode: ResourceConflictMode;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Convert database resource to frontend format
+ */
+function dbToResource(db: DbResource): Resource {
+  return {
+    id: db.id,
+    studioId: db.studio_id,
+    locationId: db.location_id,
+    name: db.name,
+    kind: db.kind,
+    quantity: db.quantity,
+    conflictMode: db.conflict_mode,
+    isActive: db.is_active,
+    createdAt: db.created_at,
+    updatedAt: db.updated_at,
+  };
+}
+
+/**
+ * Get the studio's rooms and equipment (client-side)
+ */
+export async function getResourcesClient(activeOnly = true): Promise<Resource[]> {
+  try {
+    const params = new URLSearchParams();
+    if (activeOnly) {
+      params.set('activeOnly', 'true');
+    }
+
+    const response = await fetch(`/api/resources?${params.toString()}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching resources:', error);
+      return [];
+    }
+
+    const { resources } = await response.json();
+    return (resources as DbResource[]).map(dbToResource);
+  } catch (error) {
+    console.error('Error fetching resources:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a resource (client-side)
+ */
+export async function createResourceClient(input: ResourceInput): Promise<Resource> {
+  const response = await fetch('/api/resources', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to create resource');
+  }
+
+  return dbToResource(body.resource as DbResource);
+}
+
+/**
+ * Update a resource (client-side)
+ */
+export async function updateResourceClient(
+  resourceId: string,
+  updates: Partial<ResourceInput>
+): Promise<Resource> {
+  const response = await fetch(`/api/resources/${resourceId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to update resource');
+  }
+
+  return dbToResource(body.resource as DbResource);
+}
+
+/**
+ * Remove a resource (client-side, soft delete)
+ */
+export async function deleteResourceClient(resourceId: string): Promise<void> {
+  const response = await fetch(`/api/resources/${resourceId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const body = await response.json();
+    throw new Error(body.error || 'Failed to remove resource');
+  }
+}
+
+/**
+ * Sessions holding each resource between two instants (client-side)
+ */
+export async function getResourceScheduleClient(from: string, to: string): Promise<ResourceSchedule[]> {
+  try {
+    const params = new URLSearchParams({ from, to });
+    const response = await fetch(`/api/resources/schedule?${params.toString()}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching resource schedule:', error);
+      return [];
+    }
+
+    const { resources } = await response.json();
+    return resources as ResourceSchedule[];
+  } catch (error) {
+    console.error('Error fetching resource schedule:', error);
+    return [];
+  }
+}
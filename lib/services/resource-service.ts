@@ -0,0 +1,593 @@
+/**
+ * Resource Service
+ *
+ * Business logic for bs_resources — rooms and equipment a studio has a
+ * limited number of. Services list the resources they need in
+ * ta_service_resources; a booking of the service holds one unit of each for
+ * its duration, whichever trainer it is with. Attendees of the same class
+ * instance share the units their class holds.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { unexpiredHoldFilter } from '@/lib/utils/soft-holds';
+import type {
+  ResourceConflict,
+  ResourceConflictMode,
+  ResourceKind,
+  ResourceSchedule,
+  ResourceScheduleEntry,
+} from '@/lib/types/resource';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ResourceRow {
+  id: string;
+  studio_id: string;
+  location_id: string | null;
+  name: string;
+  kind: ResourceKind;
+  quantity: number;
+  conflict_mode: ResourceConflictMode;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ResourceInput {
+  name?: string;
+  kind?: ResourceKind;
+  quantity?: number;
+  conflictMode?: ResourceConflictMode;
+  locationId?: string | null;
+}
+
+interface UsageBooking {
+  id: string;
+  service_id: string;
+  trainer_id: string;
+  scheduled_at: string;
+  duration: number;
+}
+
+/** Required resources of a service and the sessions already holding them */
+export interface ResourceUsage {
+  required: { resource: ResourceRow; serviceIds: Set<string> }[];
+  usages: { key: string; serviceId: string; start: number; end: number }[];
+}
+
+const MAX_QUANTITY = 100;
+const RESOURCE_KINDS: ResourceKind[] = ['room', 'equipment'];
+const CONFLICT_MODES: ResourceConflictMode[] = ['block', 'warn'];
+
+/** Longest session we look back for when finding bookings that overlap a window. */
+const MAX_SESSION_LOOKBACK_MS = 12 * 60 * 60 * 1000;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function cleanQuantity(quantity: number | undefined): number {
+  return Math.min(MAX_QUANTITY, Math.max(1, Math.round(quantity || 1)));
+}
+
+/** One use of a resource: a 1-2-1 booking, or every attendee of one class instance. */
+function usageKey(booking: Pick<UsageBooking, 'service_id' | 'trainer_id' | 'scheduled_at'>): string {
+  return `${booking.service_id}|${booking.trainer_id}|${new Date(booking.scheduled_at).getTime()}`;
+}
+
+/** Most usages that are in progress at the same moment. */
+function maxConcurrent(intervals: { start: number; end: number }[]): number {
+  const edges = intervals.flatMap((i) => [
+    { at: i.start, delta: 1 },
+    { at: i.end, delta: -1 },
+  ]);
+  // Ends sort before starts at the same instant so back-to-back uses don't overlap
+  edges.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let current = 0;
+  let peak = 0;
+  for (const edge of edges) {
+    current += edge.delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+// ── Service functions ────────────────────────────────────────────────────────
+
+/**
+ * List a studio's resources, active ones first by name.
+ */
+export async function getResources(
+  studioId: string,
+  options?: { activeOnly?: boolean }
+): Promise<{ data: ResourceRow[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    let query = supabase
+      .from('bs_resources')
+      .select('*')
+      .eq('studio_id', studioId)
+      .order('is_active', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (options?.activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as ResourceRow[], error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Create a resource for a studio.
+ */
+export async function createResource(
+  studioId: string,
+  input: ResourceInput
+): Promise<{ data: ResourceRow | null; error: Error | null }> {
+  try {
+    const name = input.name?.trim();
+    if (!name) {
+      return { data: null, error: new Error('name is required') };
+    }
+    if (input.kind && !RESOURCE_KINDS.includes(input.kind)) {
+      return { data: null, error: new Error('kind must be room or equipment') };
+    }
+    if (input.conflictMode && !CONFLICT_MODES.includes(input.conflictMode)) {
+      return { data: null, error: new Error('conflictMode must be block or warn') };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_resources')
+      .insert({
+        studio_id: studioId,
+        name,
+        kind: input.kind || 'room',
+        quantity: cleanQuantity(input.quantity),
+        conflict_mode: input.conflictMode || 'block',
+        location_id: input.locationId || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as ResourceRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Update one of a studio's resources.
+ */
+export async function updateResource(
+  studioId: string,
+  resourceId: string,
+  input: ResourceInput
+): Promise<{ data: ResourceRow | null; error: Error | null }> {
+  try {
+    const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (input.name !== undefined) {
+      const name = input.name.trim();
+      if (!name) {
+        return { data: null, error: new Error('name is required') };
+      }
+      updateData.name = name;
+    }
+    if (input.kind !== undefined) {
+      if (!RESOURCE_KINDS.includes(input.kind)) {
+        return { data: null, error: new Error('kind must be room or equipment') };
+      }
+      updateData.kind = input.kind;
+    }
+    if (input.conflictMode !== undefined) {
+      if (!CONFLICT_MODES.includes(input.conflictMode)) {
+        return { data: null, error: new Error('conflictMode must be block or warn') };
+      }
+      updateData.conflict_mode = input.conflictMode;
+    }
+    if (input.quantity !== undefined) updateData.quantity = cleanQuantity(input.quantity);
+    if (input.locationId !== undefined) updateData.location_id = input.locationId || null;
+
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_resources')
+      .update(updateData)
+      .eq('id', resourceId)
+      .eq('studio_id', studioId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+    if (!data) {
+      return { data: null, error: new Error('Resource not found') };
+    }
+
+    return { data: data as ResourceRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Soft-delete a resource (sets is_active = false). Inactive resources are
+ * ignored by conflict checks but stay linked to their services.
+ */
+export async function deleteResource(
+  studioId: string,
+  resourceId: string
+): Promise<{ data: ResourceRow | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('bs_resources')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', resourceId)
+      .eq('studio_id', studioId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+    if (!data) {
+      return { data: null, error: new Error('Resource not found') };
+    }
+
+    return { data: data as ResourceRow, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Replace the set of resources a service requires.
+ */
+export async function setServiceResources(
+  serviceId: string,
+  resourceIds: string[]
+): Promise<{ error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { error: deleteError } = await supabase
+      .from('ta_service_resources')
+      .delete()
+      .eq('service_id', serviceId);
+
+    if (deleteError) {
+      return { error: new Error(deleteError.message) };
+    }
+
+    const uniqueIds = [...new Set(resourceIds.filter(Boolean))];
+    if (uniqueIds.length === 0) {
+      return { error: null };
+    }
+
+    const { error } = await supabase
+      .from('ta_service_resources')
+      .insert(uniqueIds.map((resourceId) => ({ service_id: serviceId, resource_id: resourceId })));
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Load the resources a service needs and every session holding one of them
+ * between `from` and `to`. Fetch once, then test candidate times with
+ * findResourceConflicts.
+ */
+export async function getResourceUsage(params: {
+  serviceId: string | null | undefined;
+  from: Date;
+  to: Date;
+  excludeBookingId?: string | null;
+  /** Booking statuses that hold a resource */
+  activeStatuses: string[];
+}): Promise<{ data: ResourceUsage; error: Error | null }> {
+  const empty: ResourceUsage = { required: [], usages: [] };
+
+  try {
+    if (!params.serviceId) {
+      return { data: empty, error: null };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: links, error: linksError } = await supabase
+      .from('ta_service_resources')
+      .select('resource:bs_resources(id, name, kind, quantity, conflict_mode, is_active)')
+      .eq('service_id', params.serviceId);
+
+    if (linksError) {
+      return { data: empty, error: new Error(linksError.message) };
+    }
+
+    const resources: ResourceRow[] = (links || [])
+      .map((link: { resource: unknown }) => link.resource as ResourceRow | null)
+      .filter((r: ResourceRow | null): r is ResourceRow => !!r && r.is_active);
+
+    if (resources.length === 0) {
+      return { data: empty, error: null };
+    }
+
+    // Every service that uses any of the required resources
+    const { data: sharing, error: sharingError } = await supabase
+      .from('ta_service_resources')
+      .select('service_id, resource_id')
+      .in('resource_id', resources.map((r) => r.id));
+
+    if (sharingError) {
+      return { data: empty, error: new Error(sharingError.message) };
+    }
+
+    const servicesByResource = new Map<string, Set<string>>();
+    for (const row of sharing || []) {
+      const set = servicesByResource.get(row.resource_id as string) || new Set<string>();
+      set.add(row.service_id as string);
+      servicesByResource.set(row.resource_id as string, set);
+    }
+    const serviceIds = [...new Set((sharing || []).map((row: { service_id: string }) => row.service_id))];
+
+    const { data: bookings, error: bookingsError } = await supabase
+      .from('ta_bookings')
+      .select('id, service_id, trainer_id, scheduled_at, duration')
+      .in('service_id', serviceIds)
+      .in('status', params.activeStatuses)
+      .or(unexpiredHoldFilter())
+      .gte('scheduled_at', new Date(params.from.getTime() - MAX_SESSION_LOOKBACK_MS).toISOString())
+      .lt('scheduled_at', params.to.toISOString());
+
+    if (bookingsError) {
+      return { data: empty, error: new Error(bookingsError.message) };
+    }
+
+    // Attendees of one class instance hold the resource once
+    const usages = new Map<string, ResourceUsage['usages'][number]>();
+    for (const booking of (bookings || []) as UsageBooking[]) {
+      if (booking.id === params.excludeBookingId) continue;
+
+      const key = usageKey(booking);
+      if (usages.has(key)) continue;
+
+      const start = new Date(booking.scheduled_at).getTime();
+      usages.set(key, {
+        key,
+        serviceId: booking.service_id,
+        start,
+        end: start + booking.duration * 60 * 1000,
+      });
+    }
+
+    return {
+      data: {
+        required: resources.map((resource) => ({
+          resource,
+          serviceIds: servicesByResource.get(resource.id) || new Set<string>(),
+        })),
+        usages: [...usages.values()],
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: empty, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Resources with no free unit for a session of `serviceId` with `trainerId`
+ * from `start` to `end`. Joining an existing class instance reuses the units
+ * that class already holds.
+ */
+export function findResourceConflicts(
+  usage: ResourceUsage,
+  candidate: { serviceId: string; trainerId: string; start: Date; end: Date }
+): ResourceConflict[] {
+  if (usage.required.length === 0) return [];
+
+  const ownKey = usageKey({
+    service_id: candidate.serviceId,
+    trainer_id: candidate.trainerId,
+    scheduled_at: candidate.start.toISOString(),
+  });
+  const startMs = candidate.start.getTime();
+  const endMs = candidate.end.getTime();
+  const overlapping = usage.usages.filter((u) => u.key !== ownKey && u.start < endMs && u.end > startMs);
+
+  const conflicts: ResourceConflict[] = [];
+  for (const { resource, serviceIds } of usage.required) {
+    const inUse = maxConcurrent(
+      overlapping
+        .filter((u) => serviceIds.has(u.serviceId))
+        .map((u) => ({ start: Math.max(u.start, startMs), end: Math.min(u.end, endMs) }))
+    );
+
+    if (inUse >= resource.quantity) {
+      conflicts.push({
+        resourceId: resource.id,
+        name: resource.name,
+        kind: resource.kind,
+        quantity: resource.quantity,
+        inUse,
+        blocking: resource.conflict_mode !== 'warn',
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Find the resources a booking of `serviceId` needs that have no free unit
+ * between `scheduledAt` and the end of the session. Warn-only resources are
+ * returned with `blocking: false`; the caller decides what to do with them.
+ */
+export async function checkResourceConflicts(params: {
+  serviceId: string | null | undefined;
+  trainerId: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  excludeBookingId?: string;
+  /** Booking statuses that hold a resource */
+  activeStatuses: string[];
+}): Promise<{ data: ResourceConflict[]; error: Error | null }> {
+  if (!params.serviceId) {
+    return { data: [], error: null };
+  }
+
+  const start = new Date(params.scheduledAt);
+  const end = new Date(start.getTime() + params.durationMinutes * 60 * 1000);
+
+  const { data: usage, error } = await getResourceUsage({
+    serviceId: params.serviceId,
+    from: start,
+    to: end,
+    excludeBookingId: params.excludeBookingId,
+    activeStatuses: params.activeStatuses,
+  });
+
+  if (error) {
+    return { data: [], error };
+  }
+
+  return {
+    data: findResourceConflicts(usage, { serviceId: params.serviceId, trainerId: params.trainerId, start, end }),
+    error: null,
+  };
+}
+
+/**
+ * Bookings holding each of a studio's active resources between two instants,
+ * for the studio-owner resource calendar.
+ */
+export async function getResourceSchedule(params: {
+  studioId: string;
+  from: string;
+  to: string;
+  activeStatuses: string[];
+}): Promise<{ data: ResourceSchedule[] | null; error: Error | null }> {
+  try {
+    const { data: resources, error: resourcesError } = await getResources(params.studioId, { activeOnly: true });
+    if (resourcesError || !resources) {
+      return { data: null, error: resourcesError };
+    }
+    if (resources.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: links, error: linksError } = await supabase
+      .from('ta_service_resources')
+      .select('service_id, resource_id')
+      .in('resource_id', resources.map((r) => r.id));
+
+    if (linksError) {
+      return { data: null, error: new Error(linksError.message) };
+    }
+
+    const serviceIds = [...new Set((links || []).map((link: { service_id: string }) => link.service_id))];
+
+    const { data: bookings, error: bookingsError } = serviceIds.length > 0
+      ? await supabase
+          .from('ta_bookings')
+          .select('id, service_id, trainer_id, scheduled_at, duration, status, service:ta_services(name, color), client:fc_clients(first_name, last_name)')
+          .in('service_id', serviceIds)
+          .in('status', params.activeStatuses)
+          .or(unexpiredHoldFilter())
+          .gte('scheduled_at', new Date(new Date(params.from).getTime() - MAX_SESSION_LOOKBACK_MS).toISOString())
+          .lt('scheduled_at', params.to)
+          .order('scheduled_at', { ascending: true })
+      : { data: [], error: null };
+
+    if (bookingsError) {
+      return { data: null, error: new Error(bookingsError.message) };
+    }
+
+    const trainerIds = [...new Set((bookings || []).map((b: { trainer_id: string }) => b.trainer_id))];
+    const { data: trainers } = trainerIds.length > 0
+      ? await supabase.from('profiles').select('id, first_name, last_name').in('id', trainerIds)
+      : { data: [] };
+    const trainerNames = new Map<string, string>(
+      (trainers || []).map((t: { id: string; first_name: string | null; last_name: string | null }) => [
+        t.id,
+        `${t.first_name || ''} ${t.last_name || ''}`.trim() || 'Trainer',
+      ])
+    );
+
+    // Group attendees of the same class instance into one entry
+    const fromMs = new Date(params.from).getTime();
+    const entries = new Map<string, ResourceScheduleEntry>();
+    const entryServiceIds = new Map<string, string>();
+    for (const booking of bookings || []) {
+      const startMs = new Date(booking.scheduled_at as string).getTime();
+      const endMs = startMs + (booking.duration as number) * 60 * 1000;
+      if (endMs <= fromMs) continue;
+
+      const key = usageKey(booking as UsageBooking);
+      const existing = entries.get(key);
+      if (existing) {
+        existing.bookingIds.push(booking.id as string);
+        continue;
+      }
+
+      const service = booking.service as { name?: string; color?: string } | null;
+      const client = booking.client as { first_name?: string; last_name?: string } | null;
+      entryServiceIds.set(key, booking.service_id as string);
+      entries.set(key, {
+        bookingIds: [booking.id as string],
+        trainerId: booking.trainer_id as string,
+        trainerName: trainerNames.get(booking.trainer_id as string) || 'Trainer',
+        serviceName: service?.name || 'Session',
+        color: service?.color || null,
+        clientName: client ? `${client.first_name || ''} ${client.last_name || ''}`.trim() || null : null,
+        startsAt: new Date(startMs).toISOString(),
+        endsAt: new Date(endMs).toISOString(),
+      });
+    }
+
+    const schedule: ResourceSchedule[] = resources.map((resource) => {
+      const services = new Set(
+        (links || [])
+          .filter((link: { resource_id: string }) => link.resource_id === resource.id)
+          .map((link: { service_id: string }) => link.service_id)
+      );
+      return {
+        resourceId: resource.id,
+        name: resource.name,
+        kind: resource.kind,
+        quantity: resource.quantity,
+        locationId: resource.location_id,
+        entries: [...entries.entries()]
+          .filter(([key]) => services.has(entryServiceIds.get(key) || ''))
+          .map(([, entry]) => entry),
+      };
+    });
+
+    return { data: schedule, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
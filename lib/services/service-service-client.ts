@@ -4,6 +4,8 @@
  * Uses API routes for service CRUD operations (bypasses RLS via service role)
  */
 
+import type { IntakeQuestion, IntakeQuestionInput } from '@/lib/types/intake';
+
 /**
  * Service type definition
  */
@@ -18,6 +20,12 @@ export interface Service {
   creditsRequired: number;
   color: string;
   isActive: boolean;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  locationId: string | null;
+  resourceIds: string[];
+  trainerIds: string[];
+  intakeQuestions: IntakeQuestion[];
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -35,6 +43,12 @@ export interface CreateServiceInput {
   creditsRequired?: number;
   color?: string;
   isActive?: boolean;
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  locationId?: string | null;
+  resourceIds?: string[];
+  trainerIds?: string[];
+  intakeQuestions?: IntakeQuestionInput[];
 }
 
 /**
@@ -49,6 +63,12 @@ export interface UpdateServiceInput {
   creditsRequired?: number;
   color?: string;
   isActive?: boolean;
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  locationId?: string | null;
+  resourceIds?: string[];
+  trainerIds?: string[];
+  intakeQuestions?: IntakeQuestionInput[];
 }
 
 /**
@@ -65,6 +85,12 @@ interface DbService {
   credits_required: number;
   color: string;
   is_active: boolean;
+  booking_buffer_before_minutes: number | null;
+  booking_buffer_minutes: number | null;
+  location_id: string | null;
+  service_resources?: { resource_id: string }[];
+  service_trainers?: { trainer_id: string }[];
+  intake_questions?: Omit<IntakeQuestion, 'serviceId'>[];
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -85,6 +111,14 @@ function dbToService(db: DbService): Service {
     creditsRequired: db.credits_required,
     color: db.color,
     isActive: db.is_active,
+    bufferBeforeMinutes: db.booking_buffer_before_minutes ?? 0,
+    bufferAfterMinutes: db.booking_buffer_minutes ?? 0,
+    locationId: db.location_id ?? null,
+    resourceIds: (db.service_resources || []).map((r) => r.resource_id),
+    trainerIds: (db.service_trainers || []).map((t) => t.trainer_id),
+    intakeQuestions: [...(db.intake_questions || [])]
+      .sort((a, b) => a.position - b.position)
+      .map((q) => ({ ...q, options: q.options || [], serviceId: db.id })),
     createdBy: db.created_by,
     createdAt: db.created_at,
     updatedAt: db.updated_at,
@@ -141,6 +175,12 @@ export async function createServiceClient(input: CreateServiceInput): Promise<Se
         creditsRequired: input.creditsRequired || 1,
         color: input.color || '#12229D',
         isActive: input.isActive !== undefined ? input.isActive : true,
+        bufferBeforeMinutes: input.bufferBeforeMinutes || 0,
+        bufferAfterMinutes: input.bufferAfterMinutes || 0,
+        locationId: input.locationId || null,
+        resourceIds: input.resourceIds || [],
+        trainerIds: input.trainerIds || [],
+        intakeQuestions: input.intakeQuestions || [],
       }),
     });
 
@@ -6,6 +6,10 @@
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { setServiceResources } from '@/lib/services/resource-service';
+import { setServiceIntakeQuestions } from '@/lib/services/intake-service';
+import type { IntakeQuestionInput, IntakeQuestionType } from '@/lib/types/intake';
+import { MAX_BUFFER_MINUTES } from '@/lib/utils/booking-buffers';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -21,8 +25,24 @@ interface ServiceRow {
   color: string;
   is_active: boolean;
   requires_approval: boolean;
+  booking_buffer_before_minutes: number | null;
+  booking_buffer_minutes: number | null;
+  location_id: string | null;
   created_by: string;
   created_at: string;
+  /** Rooms/equipment the service needs (ta_service_resources) */
+  service_resources?: { resource_id: string }[];
+  /** Trainers qualified to deliver the service (ta_service_trainers); none means any */
+  service_trainers?: { trainer_id: string }[];
+  /** Questions clients answer when booking (ta_service_intake_questions) */
+  intake_questions?: {
+    id: string;
+    label: string;
+    type: IntakeQuestionType;
+    options: string[];
+    required: boolean;
+    position: number;
+  }[];
 }
 
 export interface CreateServiceInput {
@@ -38,6 +58,16 @@ export interface CreateServiceInput {
   isActive?: boolean;
   requiresApproval?: boolean;
   requires_approval?: boolean;
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  /** Location the service is offered at; null for any location */
+  locationId?: string | null;
+  /** Rooms/equipment every booking of the service needs */
+  resourceIds?: string[];
+  /** Trainers qualified to deliver the service; empty for any trainer */
+  trainerIds?: string[];
+  /** Questions clients answer when booking, in order */
+  intakeQuestions?: IntakeQuestionInput[];
 }
 
 export interface UpdateServiceInput {
@@ -54,6 +84,16 @@ export interface UpdateServiceInput {
   is_active?: boolean;
   requiresApproval?: boolean;
   requires_approval?: boolean;
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  /** Location the service is offered at; null for any location */
+  locationId?: string | null;
+  /** Rooms/equipment every booking of the service needs */
+  resourceIds?: string[];
+  /** Trainers qualified to deliver the service; empty for any trainer */
+  trainerIds?: string[];
+  /** Questions clients answer when booking, in order */
+  intakeQuestions?: IntakeQuestionInput[];
 }
 
 // ── Default services seeded for new studios/practitioners ────────────────────
@@ -66,8 +106,15 @@ export const DEFAULT_SERVICES = [
   { name: '90min PT Session', duration: 90, credits_required: 3, color: '#12229D', type: '1-2-1' },
 ];
 
+const SERVICE_SELECT =
+  '*, service_resources:ta_service_resources(resource_id), service_trainers:ta_service_trainers(trainer_id), intake_questions:ta_service_intake_questions(id, label, type, options, required, position)';
+
 // ── Service functions ────────────────────────────────────────────────────────
 
+function clampBufferMinutes(minutes: number | undefined): number {
+  return Math.min(MAX_BUFFER_MINUTES, Math.max(0, Math.round(minutes || 0)));
+}
+
 /**
  * Fetch services for a studio/user. Seeds defaults when none exist.
  */
@@ -81,7 +128,7 @@ export async function getServices(
 
     let query = supabase
       .from('ta_services')
-      .select('*')
+      .select(SERVICE_SELECT)
       .or(`studio_id.eq.${studioId},created_by.eq.${userId}`)
       .order('duration', { ascending: true });
 
@@ -146,6 +193,9 @@ export async function createService(
       color: input.color || '#12229D',
       is_active: input.isActive !== undefined ? input.isActive : true,
       requires_approval: input.requiresApproval ?? input.requires_approval ?? false,
+      booking_buffer_before_minutes: clampBufferMinutes(input.bufferBeforeMinutes),
+      booking_buffer_minutes: clampBufferMinutes(input.bufferAfterMinutes),
+      location_id: input.locationId || null,
       created_by: userId,
     };
 
@@ -159,7 +209,38 @@ export async function createService(
       return { data: null, error: new Error(error.message) };
     }
 
-    return { data: data as ServiceRow, error: null };
+    if (input.resourceIds?.length) {
+      const { error: resourceError } = await setServiceResources(data.id, input.resourceIds);
+      if (resourceError) {
+        return { data: null, error: resourceError };
+      }
+    }
+
+    if (input.trainerIds?.length) {
+      const { error: trainerError } = await setServiceTrainers(data.id, input.trainerIds);
+      if (trainerError) {
+        return { data: null, error: trainerError };
+      }
+    }
+
+    let intakeQuestions: ServiceRow['intake_questions'] = [];
+    if (input.intakeQuestions?.length) {
+      const { data: questions, error: intakeError } = await setServiceIntakeQuestions(data.id, input.intakeQuestions);
+      if (intakeError) {
+        return { data: null, error: intakeError };
+      }
+      intakeQuestions = questions || [];
+    }
+
+    return {
+      data: {
+        ...data,
+        service_resources: (input.resourceIds || []).map((id) => ({ resource_id: id })),
+        service_trainers: (input.trainerIds || []).map((id) => ({ trainer_id: id })),
+        intake_questions: intakeQuestions,
+      } as ServiceRow,
+      error: null,
+    };
   } catch (err) {
     return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
   }
@@ -193,12 +274,40 @@ export async function updateService(
     if (input.requiresApproval !== undefined || input.requires_approval !== undefined) {
       updateData.requires_approval = input.requiresApproval !== undefined ? input.requiresApproval : input.requires_approval;
     }
+    if (input.bufferBeforeMinutes !== undefined) {
+      updateData.booking_buffer_before_minutes = clampBufferMinutes(input.bufferBeforeMinutes);
+    }
+    if (input.bufferAfterMinutes !== undefined) {
+      updateData.booking_buffer_minutes = clampBufferMinutes(input.bufferAfterMinutes);
+    }
+    if (input.locationId !== undefined) updateData.location_id = input.locationId || null;
+
+    if (input.resourceIds !== undefined) {
+      const { error: resourceError } = await setServiceResources(serviceId, input.resourceIds);
+      if (resourceError) {
+        return { data: null, error: resourceError };
+      }
+    }
+
+    if (input.trainerIds !== undefined) {
+      const { error: trainerError } = await setServiceTrainers(serviceId, input.trainerIds);
+      if (trainerError) {
+        return { data: null, error: trainerError };
+      }
+    }
+
+    if (input.intakeQuestions !== undefined) {
+      const { error: intakeError } = await setServiceIntakeQuestions(serviceId, input.intakeQuestions);
+      if (intakeError) {
+        return { data: null, error: intakeError };
+      }
+    }
 
     const { data, error } = await supabase
       .from('ta_services')
       .update(updateData)
       .eq('id', serviceId)
-      .select()
+      .select(SERVICE_SELECT)
       .single();
 
     if (error) {
@@ -236,3 +345,67 @@ export async function deleteService(
     return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
   }
 }
+
+/**
+ * Replace the trainers qualified to deliver a service. An empty list opens
+ * the service to every trainer in the studio.
+ */
+export async function setServiceTrainers(
+  serviceId: string,
+  trainerIds: string[]
+): Promise<{ error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { error: deleteError } = await supabase
+      .from('ta_service_trainers')
+      .delete()
+      .eq('service_id', serviceId);
+
+    if (deleteError) {
+      return { error: new Error(deleteError.message) };
+    }
+
+    const uniqueIds = [...new Set(trainerIds.filter(Boolean))];
+    if (uniqueIds.length === 0) {
+      return { error: null };
+    }
+
+    const { error } = await supabase
+      .from('ta_service_trainers')
+      .insert(uniqueIds.map((trainerId) => ({ service_id: serviceId, trainer_id: trainerId })));
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Trainers qualified to deliver a service, or null when any trainer can.
+ */
+export async function getServiceTrainerIds(
+  serviceId: string
+): Promise<{ data: string[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('ta_service_trainers')
+      .select('trainer_id')
+      .eq('service_id', serviceId);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const trainerIds = (data || []).map((row: { trainer_id: string }) => row.trainer_id);
+    return { data: trainerIds.length > 0 ? trainerIds : null, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
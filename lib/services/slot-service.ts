@@ -0,0 +1,519 @@
+/**
+ * Slot Service
+ *
+ * Works out bookable start times for a service on the server, so the public
+ * booking page, client booking and the trainer calendar all agree on what is
+ * free. A slot must sit inside one of the trainer's available blocks and the
+ * opening hours of the service's location (or the studio), avoid blocked time,
+ * respect the booking cutoff and keep buffer/travel time clear of existing
+ * bookings. A group class with places left stays bookable at its own start time.
+ *
+ * Available blocks tied to a location only count for services offered there
+ * (or offered at any location); blocked time applies wherever it was set.
+ * Times when a room or piece of equipment the service needs is fully booked
+ * by other trainers are left out, unless the resource only warns.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getStudioConfig, getTrainerBufferRules, getTrainerTimezone, isWithinOpeningHours } from '@/lib/services/studio-service';
+import { findClientStudioTrainers } from '@/lib/services/availability-service';
+import { ACTIVE_BOOKING_STATUSES, isSameClass } from '@/lib/services/group-class-service';
+import { unexpiredHoldFilter } from '@/lib/utils/soft-holds';
+import { getEffectiveOpeningHours, getLocation } from '@/lib/services/location-service';
+import { findResourceConflicts, getResourceUsage, type ResourceUsage } from '@/lib/services/resource-service';
+import { getServiceTrainerIds } from '@/lib/services/service-service';
+import { getServiceBuffers, violatesBuffers, MAX_BUFFER_MINUTES } from '@/lib/utils/booking-buffers';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getDateKeyDayOfWeek,
+  getZonedDateKey,
+  parseDateKey,
+  zonedTimeToUtc,
+} from '@/lib/utils/timezone';
+import type { BookableSlot, BookableSlotsQuery, BookableSlotsResult } from '@/lib/types/slots';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+interface AvailabilityRow {
+  block_type: string;
+  recurrence: string;
+  day_of_week: number | null;
+  specific_date: string | null;
+  end_date: string | null;
+  start_hour: number;
+  start_minute: number | null;
+  end_hour: number;
+  end_minute: number | null;
+  location_id: string | null;
+}
+
+interface BookingRow {
+  id: string;
+  service_id: string | null;
+  studio_id: string | null;
+  location_id: string | null;
+  scheduled_at: string;
+  duration: number;
+  service: { booking_buffer_minutes?: number | null; booking_buffer_before_minutes?: number | null } | null;
+}
+
+interface ServiceRow {
+  id: string;
+  duration: number;
+  max_capacity: number | null;
+  booking_buffer_minutes: number | null;
+  booking_buffer_before_minutes: number | null;
+  location_id: string | null;
+}
+
+/** Start times are offered on this grid within each availability block */
+export const SLOT_INTERVAL_MINUTES = 30;
+
+/** Longest date range one request may ask for */
+export const MAX_SLOT_RANGE_DAYS = 31;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Availability rows that apply on a calendar date (weekly by weekday, one-off by date range). */
+function getBlocksForDateKey(rows: AvailabilityRow[], dateKey: string): AvailabilityRow[] {
+  const dayOfWeek = getDateKeyDayOfWeek(dateKey);
+
+  return rows.filter((row) => {
+    if (row.recurrence === 'weekly') {
+      return row.day_of_week === dayOfWeek;
+    }
+    if (row.recurrence === 'once' && row.specific_date) {
+      const endDate = row.end_date || row.specific_date;
+      return dateKey >= row.specific_date && dateKey <= endDate;
+    }
+    return false;
+  });
+}
+
+function validateRange(from: string, to: string): Error | null {
+  if (!DATE_KEY_PATTERN.test(from) || !DATE_KEY_PATTERN.test(to)) {
+    return new Error('from and to are required as YYYY-MM-DD dates');
+  }
+  if (to < from) {
+    return new Error('to must not be before from');
+  }
+  if (addDaysToDateKey(from, MAX_SLOT_RANGE_DAYS - 1) < to) {
+    return new Error(`Date range is limited to ${MAX_SLOT_RANGE_DAYS} days`);
+  }
+  return null;
+}
+
+/**
+ * Bookable slots for one trainer over a range of calendar days in their zone.
+ * Throws if their availability or bookings can't be read, rather than
+ * offering times that may be taken.
+ */
+async function getTrainerSlots(params: {
+  trainerId: string;
+  trainerName: string;
+  service: ServiceRow;
+  from: string;
+  to: string;
+  excludeBookingId?: string | null;
+  resourceUsage: ResourceUsage;
+}): Promise<{ slots: BookableSlot[]; timezone: string }> {
+  const supabase = createServiceRoleClient();
+  const { service } = params;
+
+  const rules = await getTrainerBufferRules(params.trainerId);
+  const studioConfig = rules.studioId ? (await getStudioConfig(rules.studioId)).data : null;
+  const location = service.location_id ? (await getLocation(service.location_id)).data : null;
+  const openingHours = getEffectiveOpeningHours(studioConfig?.opening_hours, location);
+  const timezone = await getTrainerTimezone(params.trainerId);
+  const capacity = Math.max(1, service.max_capacity || 1);
+  const candidateBuffers = getServiceBuffers(service);
+
+  const { data: availability, error: availabilityError } = await supabase
+    .from('ta_availability')
+    .select('block_type, recurrence, day_of_week, specific_date, end_date, start_hour, start_minute, end_hour, end_minute, location_id')
+    .eq('trainer_id', params.trainerId);
+
+  if (availabilityError) {
+    throw new Error(`Failed to load availability: ${availabilityError.message}`);
+  }
+
+  // Bookings that could overlap, or need buffer time clear of, any slot in the range
+  const rangeStart = zonedTimeToUtc(parseDateKey(params.from), timezone);
+  const rangeEnd = zonedTimeToUtc(parseDateKey(addDaysToDateKey(params.to, 1)), timezone);
+  const lookaroundMs = (24 * 60 + MAX_BUFFER_MINUTES * 2) * 60 * 1000;
+
+  const { data: bookingRows, error: bookingsError } = await supabase
+    .from('ta_bookings')
+    .select('id, service_id, studio_id, location_id, scheduled_at, duration, service:ta_services(booking_buffer_minutes, booking_buffer_before_minutes)')
+    .eq('trainer_id', params.trainerId)
+    .in('status', ACTIVE_BOOKING_STATUSES)
+    .or(unexpiredHoldFilter())
+    .gte('scheduled_at', new Date(rangeStart.getTime() - lookaroundMs).toISOString())
+    .lte('scheduled_at', new Date(rangeEnd.getTime() + lookaroundMs).toISOString());
+
+  if (bookingsError) {
+    throw new Error(`Failed to load bookings: ${bookingsError.message}`);
+  }
+
+  const bookings = ((bookingRows || []) as BookingRow[])
+    .filter((b) => b.id !== params.excludeBookingId)
+    .map((b) => {
+      const start = new Date(b.scheduled_at);
+      return {
+        row: b,
+        buffered: {
+          start,
+          end: new Date(start.getTime() + b.duration * 60 * 1000),
+          buffers: getServiceBuffers(b.service),
+          locationId: b.location_id || b.studio_id,
+        },
+      };
+    });
+
+  const cutoffMinutes = studioConfig?.cancellation_policy?.booking_cutoff_minutes || 0;
+  const earliestStart = new Date(Date.now() + cutoffMinutes * 60 * 1000);
+  const rows = (availability || []) as AvailabilityRow[];
+  const slots: BookableSlot[] = [];
+  const seen = new Set<number>();
+
+  for (let dateKey = params.from; dateKey <= params.to; dateKey = addDaysToDateKey(dateKey, 1)) {
+    const blocks = getBlocksForDateKey(rows, dateKey);
+    const wallDate = parseDateKey(dateKey);
+    const toInstant = (minutes: number) =>
+      zonedTimeToUtc({ ...wallDate, hour: Math.floor(minutes / 60), minute: minutes % 60 }, timezone);
+
+    const blockedIntervals = blocks
+      .filter((b) => b.block_type === 'blocked')
+      .map((b) => ({
+        start: toInstant(b.start_hour * 60 + (b.start_minute || 0)),
+        end: toInstant(b.end_hour * 60 + (b.end_minute || 0)),
+      }));
+
+    const availableBlocks = blocks.filter(
+      (b) => b.block_type === 'available' &&
+        (!b.location_id || !service.location_id || b.location_id === service.location_id)
+    );
+
+    for (const block of availableBlocks) {
+      const slotLocationId = service.location_id || block.location_id || null;
+      const blockStart = block.start_hour * 60 + (block.start_minute || 0);
+      const blockEnd = block.end_hour * 60 + (block.end_minute || 0);
+
+      for (let minutes = blockStart; minutes + service.duration <= blockEnd; minutes += SLOT_INTERVAL_MINUTES) {
+        const start = toInstant(minutes);
+        const end = new Date(start.getTime() + service.duration * 60 * 1000);
+
+        if (seen.has(start.getTime()) || start < earliestStart) continue;
+
+        if (studioConfig) {
+          const hoursCheck = isWithinOpeningHours(
+            openingHours,
+            start.toISOString(),
+            service.duration,
+            studioConfig.timezone
+          );
+          if (!hoursCheck.valid) continue;
+        }
+
+        if (blockedIntervals.some((b) => start < b.end && end > b.start)) continue;
+
+        const candidate = {
+          start,
+          end,
+          buffers: candidateBuffers,
+          locationId: slotLocationId || rules.studioId,
+        };
+        const candidateClass = { service_id: service.id, scheduled_at: start.toISOString() };
+        let attendeeCount = 0;
+        let hasConflict = false;
+
+        for (const booking of bookings) {
+          const overlaps = start < booking.buffered.end && end > booking.buffered.start;
+          if (overlaps && capacity > 1 && isSameClass(candidateClass, booking.row)) {
+            attendeeCount++;
+          } else if (violatesBuffers(candidate, booking.buffered, rules)) {
+            hasConflict = true;
+            break;
+          }
+        }
+
+        if (hasConflict || attendeeCount >= capacity) continue;
+
+        const resourceConflicts = findResourceConflicts(params.resourceUsage, {
+          serviceId: service.id,
+          trainerId: params.trainerId,
+          start,
+          end,
+        });
+        if (resourceConflicts.some((conflict) => conflict.blocking)) continue;
+
+        seen.add(start.getTime());
+        slots.push({
+          trainerId: params.trainerId,
+          trainerName: params.trainerName,
+          startsAt: start.toISOString(),
+          endsAt: end.toISOString(),
+          spotsLeft: capacity - attendeeCount,
+          locationId: slotLocationId,
+        });
+      }
+    }
+  }
+
+  return { slots, timezone };
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Compute bookable slots for a service across one or more trainers.
+ * Dates are calendar days read in each trainer's own timezone.
+ */
+export async function getBookableSlots(params: {
+  serviceId: string;
+  trainerIds: string[];
+  from: string;
+  to: string;
+  excludeBookingId?: string | null;
+  /** Zone to label slots in when several trainers are included (e.g. the studio's) */
+  timezone?: string;
+}): Promise<{ data: BookableSlotsResult | null; error: Error | null }> {
+  try {
+    const rangeError = validateRange(params.from, params.to);
+    if (rangeError) {
+      return { data: null, error: rangeError };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: service, error: serviceError } = await supabase
+      .from('ta_services')
+      .select('id, duration, max_capacity, booking_buffer_minutes, booking_buffer_before_minutes, location_id')
+      .eq('id', params.serviceId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (serviceError) {
+      return { data: null, error: new Error(serviceError.message) };
+    }
+    if (!service) {
+      return { data: null, error: new Error('Service not found') };
+    }
+
+    const trainerIds = [...new Set(params.trainerIds)];
+    const { data: profiles } = trainerIds.length > 0
+      ? await supabase.from('profiles').select('id, first_name, last_name').in('id', trainerIds)
+      : { data: [] };
+
+    const trainerNames = new Map<string, string>(
+      (profiles || []).map((p: { id: string; first_name: string | null; last_name: string | null }) => [
+        p.id,
+        `${p.first_name || ''} ${p.last_name || ''}`.trim() || 'Trainer',
+      ])
+    );
+
+    // Rooms and equipment are shared by every trainer, so load their bookings once.
+    // Day keys are read in each trainer's zone, so pad the range by a day either side.
+    const { data: resourceUsage, error: resourceError } = await getResourceUsage({
+      serviceId: service.id as string,
+      from: new Date(`${addDaysToDateKey(params.from, -1)}T00:00:00Z`),
+      to: new Date(`${addDaysToDateKey(params.to, 2)}T00:00:00Z`),
+      excludeBookingId: params.excludeBookingId,
+      activeStatuses: ACTIVE_BOOKING_STATUSES,
+    });
+
+    if (resourceError) {
+      return { data: null, error: resourceError };
+    }
+
+    const slots: BookableSlot[] = [];
+    let timezone = params.timezone;
+
+    for (const trainerId of trainerIds) {
+      const result = await getTrainerSlots({
+        trainerId,
+        trainerName: trainerNames.get(trainerId) || 'Trainer',
+        service: service as ServiceRow,
+        from: params.from,
+        to: params.to,
+        excludeBookingId: params.excludeBookingId,
+        resourceUsage,
+      });
+      slots.push(...result.slots);
+      timezone = timezone || result.timezone;
+    }
+
+    slots.sort((a, b) => a.startsAt.localeCompare(b.startsAt) || a.trainerName.localeCompare(b.trainerName));
+
+    return {
+      data: {
+        serviceId: service.id as string,
+        duration: service.duration as number,
+        timezone: timezone || DEFAULT_TIMEZONE,
+        slots,
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Check a single booking time against the trainer's availability: it must sit
+ * inside an available block (if the trainer has set any) and clear of blocked
+ * time, including busy time imported from a connected calendar.
+ */
+export async function checkTrainerAvailability(params: {
+  trainerId: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  locationId?: string | null;
+}): Promise<{ data: { available: boolean; reason?: string } | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: availability, error } = await supabase
+      .from('ta_availability')
+      .select('block_type, recurrence, day_of_week, specific_date, end_date, start_hour, start_minute, end_hour, end_minute, location_id')
+      .eq('trainer_id', params.trainerId);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const timezone = await getTrainerTimezone(params.trainerId);
+    const start = new Date(params.scheduledAt);
+    const end = new Date(start.getTime() + params.durationMinutes * 60 * 1000);
+    const dateKey = getZonedDateKey(start, timezone);
+    const wallDate = parseDateKey(dateKey);
+    const toInstant = (hour: number, minute: number | null) =>
+      zonedTimeToUtc({ ...wallDate, hour, minute: minute || 0 }, timezone);
+
+    const rows = (availability || []) as AvailabilityRow[];
+    const blocks = getBlocksForDateKey(rows, dateKey);
+
+    const blocked = blocks.some(
+      (b) => b.block_type === 'blocked' &&
+        start < toInstant(b.end_hour, b.end_minute) &&
+        end > toInstant(b.start_hour, b.start_minute)
+    );
+    if (blocked) {
+      return { data: { available: false, reason: 'The trainer is unavailable at this time' }, error: null };
+    }
+
+    const hasAvailableHours = rows.some((row) => row.block_type === 'available');
+    const insideAvailableBlock = blocks.some(
+      (b) => b.block_type === 'available' &&
+        (!b.location_id || !params.locationId || b.location_id === params.locationId) &&
+        start >= toInstant(b.start_hour, b.start_minute) &&
+        end <= toInstant(b.end_hour, b.end_minute)
+    );
+    if (hasAvailableHours && !insideAvailableBlock) {
+      return { data: { available: false, reason: 'Outside the trainer\'s available hours' }, error: null };
+    }
+
+    return { data: { available: true }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Slots for the public booking page. The service must be public; it is booked
+ * with the trainer who created it unless another trainer is given, who must
+ * be one the service is assigned to (or, if it has none, one of its studio's).
+ */
+export async function getPublicBookableSlots(
+  query: BookableSlotsQuery
+): Promise<{ data: BookableSlotsResult | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: service } = await supabase
+      .from('ta_services')
+      .select('id, created_by, studio_id')
+      .eq('id', query.serviceId)
+      .eq('is_public', true)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!service) {
+      return { data: null, error: new Error('Service not found') };
+    }
+
+    const trainerId = query.trainerId && query.trainerId !== 'any' ? query.trainerId : (service.created_by as string);
+
+    if (trainerId !== service.created_by) {
+      const { data: qualifiedIds, error: qualifiedError } = await getServiceTrainerIds(query.serviceId);
+      if (qualifiedError) {
+        return { data: null, error: qualifiedError };
+      }
+
+      let qualified = !!qualifiedIds?.includes(trainerId);
+      if (!qualifiedIds && service.studio_id) {
+        const { data: staff } = await supabase
+          .from('bs_staff')
+          .select('id')
+          .eq('id', trainerId)
+          .eq('studio_id', service.studio_id as string)
+          .maybeSingle();
+        qualified = !!staff;
+      }
+
+      if (!qualified) {
+        return { data: null, error: new Error('Trainer not found for this service') };
+      }
+    }
+
+    return getBookableSlots({
+      serviceId: query.serviceId,
+      trainerIds: [trainerId],
+      from: query.from,
+      to: query.to,
+    });
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Slots for a signed-in client, across the trainers of their studio
+ * (or just the one they picked) who are qualified for the service.
+ * Labelled in the studio's timezone.
+ */
+export async function getClientBookableSlots(
+  userEmail: string,
+  query: BookableSlotsQuery
+): Promise<{ data: BookableSlotsResult | null; error: Error | null }> {
+  const trainerId = query.trainerId && query.trainerId !== 'any' ? query.trainerId : null;
+
+  const { data: found, error } = await findClientStudioTrainers(userEmail, trainerId);
+  if (error || !found) {
+    return { data: null, error: error || new Error('Client not found') };
+  }
+
+  const studioId = found.clientStudioId || found.lookupIds[0] || null;
+  const studioConfig = studioId ? (await getStudioConfig(studioId)).data : null;
+
+  const { data: qualifiedIds, error: qualifiedError } = await getServiceTrainerIds(query.serviceId);
+  if (qualifiedError) {
+    return { data: null, error: qualifiedError };
+  }
+
+  const trainerIds = qualifiedIds
+    ? found.trainerIds.filter((id) => qualifiedIds.includes(id))
+    : found.trainerIds;
+
+  return getBookableSlots({
+    serviceId: query.serviceId,
+    trainerIds,
+    from: query.from,
+    to: query.to,
+    excludeBookingId: query.excludeBookingId,
+    timezone: studioConfig?.timezone,
+  });
+}
@@ -0,0 +1,351 @@
+/**
+ * Soft-Hold Service
+ *
+ * Releases soft-holds once hold_expiry is reached and reminds clients
+ * shortly before. The soft-hold processor cron runs both; availability and
+ * conflict checks also release due holds first, so a lapsed hold never
+ * blocks a booking between runs. Releasing a hold cancels the booking,
+ * expires any open Stripe checkout for it so it can't be paid afterwards,
+ * offers the place to the waitlist and tells the client.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { stripe } from '@/lib/stripe/config';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { offerNextWaitlistPlace } from '@/lib/services/waitlist-service';
+import { cancelBookingReminders } from '@/lib/services/booking-reminder-service';
+import { queueBookingCalendarPush } from '@/lib/services/calendar-sync-service';
+import { recordBookingEvents } from '@/lib/services/booking-event-service';
+import { sendSoftHoldEmail, sendSoftHoldExpiredEmail } from '@/lib/notifications/email-service';
+import type { SoftHoldProcessResult, SoftHoldReleaseResult } from '@/lib/types/soft-hold';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+interface SoftHoldRow {
+  id: string;
+  trainer_id: string;
+  scheduled_at: string;
+  hold_expiry: string;
+  client: { first_name: string | null; last_name: string | null; email: string | null } | null;
+  service: { name: string | null; credits_required: number | null } | null;
+}
+
+interface PendingCheckout {
+  id: string;
+  booking_id: string;
+  stripe_checkout_session_id: string;
+  metadata: { slug?: string } | null;
+}
+
+/** Minutes before hold_expiry that the client is reminded */
+export const SOFT_HOLD_REMINDER_MINUTES = 30;
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const HOLD_SELECT = `
+  id, trainer_id, scheduled_at, hold_expiry,
+  client:fc_clients(first_name, last_name, email),
+  service:ta_services(name, credits_required)
+`;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function clientName(hold: SoftHoldRow): string {
+  return `${hold.client?.first_name || ''} ${hold.client?.last_name || ''}`.trim() || 'Client';
+}
+
+async function getTrainerName(supabase: ServiceClient, trainerId: string): Promise<string> {
+  const { data: trainer } = await supabase
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('id', trainerId)
+    .maybeSingle();
+
+  return trainer
+    ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer'
+    : 'Your Trainer';
+}
+
+/** Unpaid Stripe checkouts opened for the given bookings. */
+async function getPendingCheckouts(supabase: ServiceClient, bookingIds: string[]): Promise<PendingCheckout[]> {
+  const { data, error } = await supabase
+    .from('ta_payments')
+    .select('id, booking_id, stripe_checkout_session_id, metadata')
+    .in('booking_id', bookingIds)
+    .eq('status', 'pending')
+    .not('stripe_checkout_session_id', 'is', null);
+
+  if (error) {
+    console.error('Error fetching pending checkouts:', error);
+    return [];
+  }
+
+  return (data || []) as PendingCheckout[];
+}
+
+/**
+ * Close a hold's checkout so it can't be paid once the place is gone.
+ * 'paid' means the client got there first and the webhook will confirm it.
+ */
+async function expireCheckout(checkout: PendingCheckout): Promise<'paid' | 'expired' | 'closed'> {
+  try {
+    const session = await stripe.checkout.sessions.retrieve(checkout.stripe_checkout_session_id);
+    if (session.status === 'complete') return 'paid';
+    if (session.status === 'open') {
+      await stripe.checkout.sessions.expire(checkout.stripe_checkout_session_id);
+      return 'expired';
+    }
+    return 'closed';
+  } catch (stripeError) {
+    // Release the hold anyway; holding the place past its expiry is worse
+    console.error('Error expiring checkout session:', stripeError);
+    return 'closed';
+  }
+}
+
+/** Email the client that their held spot was released. */
+async function notifyHoldExpired(supabase: ServiceClient, hold: SoftHoldRow, slug?: string): Promise<void> {
+  try {
+    if (!hold.client?.email) return;
+
+    await sendSoftHoldExpiredEmail({
+      clientEmail: hold.client.email,
+      clientName: clientName(hold),
+      trainerName: await getTrainerName(supabase, hold.trainer_id),
+      serviceName: hold.service?.name || 'Session',
+      sessionDatetime: hold.scheduled_at,
+      bookLink: slug ? `${getAppUrl()}/book/${slug}` : `${getAppUrl()}/client/book`,
+      bookingId: hold.id,
+      timezone: await getTrainerTimezone(hold.trainer_id),
+    });
+  } catch (notifyError) {
+    console.error('Error sending hold expired email:', notifyError);
+    // The hold is released either way
+  }
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Cancel soft-holds that have reached hold_expiry and offer each freed slot
+ * to its waitlist. Waitlist offers that ran out are marked expired so the
+ * next person is offered.
+ */
+export async function releaseExpiredSoftHolds(
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<{ data: SoftHoldReleaseResult | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const result: SoftHoldReleaseResult = { released: 0, offered: 0, checkoutsExpired: 0, paid: 0 };
+
+    const { data: due, error } = await supabase
+      .from('ta_bookings')
+      .select(HOLD_SELECT)
+      .eq('status', 'soft-hold')
+      .lte('hold_expiry', new Date().toISOString())
+      .order('hold_expiry', { ascending: true })
+      .limit(batchSize);
+
+    if (error) {
+      console.error('Error fetching expired soft-holds:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const holds = (due || []) as SoftHoldRow[];
+    if (holds.length === 0) {
+      return { data: result, error: null };
+    }
+
+    // Close checkouts before releasing, so a payment that lands first wins
+    const paidIds = new Set<string>();
+    const slugs = new Map<string, string>();
+    for (const checkout of await getPendingCheckouts(supabase, holds.map((h) => h.id))) {
+      const outcome = await expireCheckout(checkout);
+      if (outcome === 'paid') {
+        paidIds.add(checkout.booking_id);
+        continue;
+      }
+      if (outcome === 'expired') result.checkoutsExpired++;
+      if (checkout.metadata?.slug) slugs.set(checkout.booking_id, checkout.metadata.slug);
+
+      await supabase.from('ta_payments').update({ status: 'expired' }).eq('id', checkout.id);
+    }
+    result.paid = paidIds.size;
+
+    const releasable = holds.filter((h) => !paidIds.has(h.id));
+    if (releasable.length === 0) {
+      return { data: result, error: null };
+    }
+
+    // Only rows still on hold are released, so a concurrent run doesn't handle them twice
+    const { data: released, error: releaseError } = await supabase
+      .from('ta_bookings')
+      .update({ status: 'cancelled' })
+      .in('id', releasable.map((h) => h.id))
+      .eq('status', 'soft-hold')
+      .select('id');
+
+    if (releaseError) {
+      console.error('Error releasing expired soft-holds:', releaseError);
+      return { data: null, error: new Error(releaseError.message) };
+    }
+
+    const releasedIds = new Set((released || []).map((b: { id: string }) => b.id));
+    const releasedHolds = releasable.filter((h) => releasedIds.has(h.id));
+    result.released = releasedHolds.length;
+    if (releasedHolds.length === 0) {
+      return { data: result, error: null };
+    }
+
+    await supabase
+      .from('ta_waitlist_entries')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .in('offered_booking_id', [...releasedIds])
+      .eq('status', 'offered');
+
+    await recordBookingEvents(
+      releasedHolds.map((hold) => ({
+        bookingId: hold.id,
+        eventType: 'hold_expired' as const,
+        source: 'job' as const,
+        oldStatus: 'soft-hold',
+        newStatus: 'cancelled',
+        metadata: { hold_expiry: hold.hold_expiry },
+      }))
+    );
+
+    for (const hold of releasedHolds) {
+      await cancelBookingReminders(hold.id);
+      await queueBookingCalendarPush(hold.id);
+      await notifyHoldExpired(supabase, hold, slugs.get(hold.id));
+    }
+
+    const slots = new Map<string, { trainerId: string; scheduledAt: string }>();
+    for (const hold of releasedHolds) {
+      const scheduledAt = new Date(hold.scheduled_at).toISOString();
+      slots.set(`${hold.trainer_id}|${scheduledAt}`, { trainerId: hold.trainer_id, scheduledAt });
+    }
+
+    for (const slot of slots.values()) {
+      const { data: offer } = await offerNextWaitlistPlace(slot.trainerId, slot.scheduledAt);
+      if (offer) result.offered++;
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Remind clients whose hold runs out within SOFT_HOLD_REMINDER_MINUTES.
+ * Holds placed less than that long ago are skipped; the client has only
+ * just been told about them.
+ */
+export async function sendSoftHoldReminders(
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<{ data: { reminded: number } | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const now = new Date();
+    const windowMs = SOFT_HOLD_REMINDER_MINUTES * 60 * 1000;
+
+    const { data: due, error } = await supabase
+      .from('ta_bookings')
+      .select(HOLD_SELECT)
+      .eq('status', 'soft-hold')
+      .is('hold_reminder_sent_at', null)
+      .gt('hold_expiry', now.toISOString())
+      .lte('hold_expiry', new Date(now.getTime() + windowMs).toISOString())
+      .lte('created_at', new Date(now.getTime() - windowMs).toISOString())
+      .limit(batchSize);
+
+    if (error) {
+      console.error('Error fetching soft-holds to remind:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const holds = ((due || []) as SoftHoldRow[]).filter((h) => h.client?.email);
+    if (holds.length === 0) {
+      return { data: { reminded: 0 }, error: null };
+    }
+
+    const checkouts = new Map(
+      (await getPendingCheckouts(supabase, holds.map((h) => h.id)))
+        .map((checkout) => [checkout.booking_id, checkout.stripe_checkout_session_id])
+    );
+
+    let reminded = 0;
+    for (const hold of holds) {
+      // Claim the reminder so overlapping runs send it once
+      const { data: claimed } = await supabase
+        .from('ta_bookings')
+        .update({ hold_reminder_sent_at: new Date().toISOString() })
+        .eq('id', hold.id)
+        .eq('status', 'soft-hold')
+        .is('hold_reminder_sent_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (!claimed) continue;
+
+      // Send them back to their open checkout, or to buy credits
+      let topUpLink = `${getAppUrl()}/client/packages`;
+      const checkoutSessionId = checkouts.get(hold.id);
+      if (checkoutSessionId) {
+        try {
+          const session = await stripe.checkout.sessions.retrieve(checkoutSessionId);
+          if (session.status === 'open' && session.url) topUpLink = session.url;
+        } catch (stripeError) {
+          console.error('Error fetching checkout session:', stripeError);
+        }
+      }
+
+      const { success } = await sendSoftHoldEmail({
+        clientEmail: hold.client!.email!,
+        clientName: clientName(hold),
+        trainerName: await getTrainerName(supabase, hold.trainer_id),
+        serviceName: hold.service?.name || 'Session',
+        sessionDatetime: hold.scheduled_at,
+        creditsRequired: hold.service?.credits_required || 1,
+        holdExpiry: hold.hold_expiry,
+        topUpLink,
+        timezone: await getTrainerTimezone(hold.trainer_id),
+        expiresInMinutes: Math.max(1, Math.ceil((new Date(hold.hold_expiry).getTime() - now.getTime()) / 60000)),
+        bookingId: hold.id,
+      });
+
+      if (success) reminded++;
+    }
+
+    return { data: { reminded }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * One run of the soft-hold processor: release the holds that are due,
+ * then remind the clients whose holds are about to run out.
+ */
+export async function processSoftHolds(
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<{ data: SoftHoldProcessResult | null; error: Error | null }> {
+  const { data: released, error: releaseError } = await releaseExpiredSoftHolds(batchSize);
+  if (releaseError || !released) {
+    return { data: null, error: releaseError || new Error('Failed to release soft-holds') };
+  }
+
+  const { data: reminders, error: reminderError } = await sendSoftHoldReminders(batchSize);
+  if (reminderError || !reminders) {
+    return { data: null, error: reminderError || new Error('Failed to send soft-hold reminders') };
+  }
+
+  return { data: { ...released, reminded: reminders.reminded }, error: null };
+}
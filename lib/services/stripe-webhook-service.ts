@@ -8,8 +8,48 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { stripe } from '@/lib/stripe/config';
 import { sendPaymentReceiptEmail, sendBookingConfirmationEmail } from '@/lib/notifications/email-service';
+import { getTrainerTimezone } from '@/lib/services/studio-service';
+import { formatLocationLabel } from '@/lib/services/location-service';
+import { cancelBookingReminders, syncBookingReminders } from '@/lib/services/booking-reminder-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import { fulfilShopCheckout } from '@/lib/services/client-shop-service';
+import {
+  syncMembershipSubscription,
+  handleMembershipInvoicePaid,
+  handleMembershipInvoicePaymentFailed,
+} from '@/lib/services/membership-service';
+import { syncChargeRefunds } from '@/lib/services/refund-service';
 import type Stripe from 'stripe';
 
+/** Cancel a booking whose payment failed or was refunded, and record why. */
+async function cancelBookingForPayment(bookingId: string, metadata: Record<string, unknown>): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { data: previous } = await supabase
+    .from('ta_bookings')
+    .select('status')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  await supabase
+    .from('ta_bookings')
+    .update({ status: 'cancelled' })
+    .eq('id', bookingId);
+
+  if (previous && previous.status !== 'cancelled') {
+    await recordBookingEvent({
+      bookingId,
+      eventType: 'cancelled',
+      source: 'webhook',
+      oldStatus: previous.status,
+      newStatus: 'cancelled',
+      metadata,
+    });
+  }
+
+  await cancelBookingReminders(bookingId);
+}
+
 export async function handleCheckoutComplete(session: Stripe.Checkout.Session): Promise<void> {
   const supabase = createServiceRoleClient();
   const bookingId = session.metadata?.booking_id;
@@ -20,17 +60,24 @@ export async function handleCheckoutComplete(session: Stripe.Checkout.Session):
     throw new Error('Missing trainer_id in checkout session metadata');
   }
 
-  // Update payment record
+  // Update payment record (a replayed event leaves a refunded payment refunded)
   await supabase
     .from('ta_payments')
     .update({
       status: 'succeeded',
       stripe_payment_intent_id: session.payment_intent as string,
     })
-    .eq('stripe_checkout_session_id', session.id);
+    .eq('stripe_checkout_session_id', session.id)
+    .neq('status', 'refunded');
 
   // Handle booking payment
   if (bookingId) {
+    const { data: previous } = await supabase
+      .from('ta_bookings')
+      .select('status')
+      .eq('id', bookingId)
+      .maybeSingle();
+
     await supabase
       .from('ta_bookings')
       .update({
@@ -39,13 +86,27 @@ export async function handleCheckoutComplete(session: Stripe.Checkout.Session):
       })
       .eq('id', bookingId);
 
+    if (previous?.status !== 'confirmed') {
+      await recordBookingEvent({
+        bookingId,
+        eventType: 'confirmed',
+        source: 'webhook',
+        oldStatus: previous?.status ?? null,
+        newStatus: 'confirmed',
+        metadata: { stripe_checkout_session_id: session.id, amount: session.amount_total },
+      });
+    }
+
+    await syncBookingReminders(bookingId);
+
     const { data: booking } = await supabase
       .from('ta_bookings')
       .select(`
         scheduled_at,
         duration,
         ta_services(name),
-        fc_clients(first_name, last_name, email)
+        fc_clients(first_name, last_name, email),
+        bs_locations(name, address)
       `)
       .eq('id', bookingId)
       .single();
@@ -73,6 +134,8 @@ export async function handleCheckoutComplete(session: Stripe.Checkout.Session):
         scheduledAt: booking.scheduled_at,
         duration: booking.duration,
         bookingId,
+        timezone: await getTrainerTimezone(trainerId),
+        location: formatLocationLabel(booking.bs_locations as { name: string; address: string | null } | null),
       });
 
       await sendPaymentReceiptEmail({
@@ -84,6 +147,18 @@ export async function handleCheckoutComplete(session: Stripe.Checkout.Session):
     }
   }
 
+  // Handle a package or offer bought in the client shop
+  if (session.metadata?.shop_item) {
+    await fulfilShopCheckout(session);
+  }
+
+  // Handle a membership subscription started from the client shop
+  if (session.mode === 'subscription' && session.subscription) {
+    await syncMembershipSubscription(
+      typeof session.subscription === 'string' ? session.subscription : session.subscription.id
+    );
+  }
+
   // Handle package purchase
   if (packageId) {
     const { data: clientPackage } = await supabase
@@ -161,10 +236,7 @@ export async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent):
     .single();
 
   if (payment?.booking_id) {
-    await supabase
-      .from('ta_bookings')
-      .update({ status: 'cancelled' })
-      .eq('id', payment.booking_id);
+    await cancelBookingForPayment(payment.booking_id, { reason: 'payment_failed', stripe_payment_intent_id: paymentIntent.id });
   }
 }
 
@@ -183,24 +255,23 @@ export async function handleAccountUpdated(account: Stripe.Account): Promise<voi
 }
 
 export async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
-  const supabase = createServiceRoleClient();
-  const paymentIntentId = charge.payment_intent as string;
+  const result = await syncChargeRefunds(charge);
 
-  await supabase
-    .from('ta_payments')
-    .update({ status: 'refunded' })
-    .eq('stripe_payment_intent_id', paymentIntentId);
+  // A full refund made in Stripe means the session isn't going ahead; after
+  // dashboard refunds (partial or full) the booking is left to the trainer
+  if (result?.bookingId && result.fullyRefunded && result.refundedInStripe) {
+    await cancelBookingForPayment(result.bookingId, { reason: 'refunded', stripe_charge_id: charge.id });
+  }
+}
 
-  const { data: payment } = await supabase
-    .from('ta_payments')
-    .select('booking_id, package_id')
-    .eq('stripe_payment_intent_id', paymentIntentId)
-    .single();
+export async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  await handleMembershipInvoicePaid(invoice);
+}
 
-  if (payment?.booking_id) {
-    await supabase
-      .from('ta_bookings')
-      .update({ status: 'cancelled' })
-      .eq('id', payment.booking_id);
-  }
+export async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  await handleMembershipInvoicePaymentFailed(invoice);
+}
+
+export async function handleSubscriptionChanged(subscription: Stripe.Subscription): Promise<void> {
+  await syncMembershipSubscription(subscription.id);
 }
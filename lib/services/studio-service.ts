@@ -6,6 +6,8 @@
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { DEFAULT_TIMEZONE, getZonedParts, resolveTimezone } from '@/lib/utils/timezone';
+import type { BufferRules } from '@/lib/utils/booking-buffers';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -37,6 +39,16 @@ export interface CancellationPolicy {
   late_cancel_fee_percent?: number;
   late_cancel_fee_amount?: number;
   grace_period_minutes?: number;
+  /** Hours the trainer has to undo an automatic no-show before its charge is settled */
+  no_show_undo_hours?: number;
+  /** Times a client may move the same booking themselves; 0 turns self-service rescheduling off */
+  max_reschedules?: number;
+}
+
+export interface WaitlistConfig {
+  enabled?: boolean;
+  /** Maximum number of people on the waitlist per session */
+  max_capacity?: number;
 }
 
 export interface StudioConfig {
@@ -46,7 +58,9 @@ export interface StudioConfig {
   cancellation_window_hours: number | null;
   cancellation_policy: CancellationPolicy;
   session_types: string[];
-  waitlist_config: Record<string, unknown> | null;
+  waitlist_config: WaitlistConfig | null;
+  /** IANA zone that opening hours and availability are expressed in */
+  timezone: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -65,7 +79,7 @@ export async function getStudioConfig(studioId: string): Promise<{
 
     const { data: studio, error } = await supabase
       .from('bs_studios')
-      .select('booking_model, soft_hold_length, opening_hours, cancellation_window_hours, cancellation_policy, session_types, waitlist_config')
+      .select('booking_model, soft_hold_length, opening_hours, cancellation_window_hours, cancellation_policy, session_types, waitlist_config, timezone')
       .eq('id', studioId)
       .maybeSingle();
 
@@ -86,7 +100,8 @@ export async function getStudioConfig(studioId: string): Promise<{
         cancellation_window_hours: (studio.cancellation_window_hours as number) ?? null,
         cancellation_policy: (studio.cancellation_policy as CancellationPolicy) || {},
         session_types: (studio.session_types as string[]) || [],
-        waitlist_config: (studio.waitlist_config as Record<string, unknown>) || null,
+        waitlist_config: (studio.waitlist_config as WaitlistConfig) || null,
+        timezone: resolveTimezone(studio.timezone as string | null),
       },
       error: null,
     };
@@ -96,18 +111,101 @@ export async function getStudioConfig(studioId: string): Promise<{
   }
 }
 
+/**
+ * Resolve the timezone a trainer works in: their own override, else their
+ * studio's (the one they own, for solo practitioners without a staff row).
+ */
+export async function getTrainerTimezone(trainerId: string): Promise<string> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: staff } = await supabase
+      .from('bs_staff')
+      .select('timezone, studio_id')
+      .eq('id', trainerId)
+      .maybeSingle();
+
+    let studioTimezone: string | null = null;
+    if (staff?.studio_id) {
+      const { data: studio } = await supabase
+        .from('bs_studios')
+        .select('timezone')
+        .eq('id', staff.studio_id)
+        .maybeSingle();
+      studioTimezone = (studio?.timezone as string) || null;
+    } else {
+      // Solo practitioners may only own a studio, without a staff row
+      const { data: ownedStudio } = await supabase
+        .from('bs_studios')
+        .select('timezone')
+        .eq('owner_id', trainerId)
+        .maybeSingle();
+      studioTimezone = (ownedStudio?.timezone as string) || null;
+    }
+
+    return resolveTimezone(staff?.timezone as string | null | undefined, studioTimezone);
+  } catch (err) {
+    console.error('Error in getTrainerTimezone:', err);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Resolve the gaps a trainer's bookings must keep: the studio's minimum gap
+ * between sessions and the trainer's own travel time between locations.
+ * studioId is the studio the trainer books into by default, which stands in
+ * for the location of bookings that have none.
+ */
+export async function getTrainerBufferRules(
+  trainerId: string
+): Promise<BufferRules & { studioId: string | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: staff } = await supabase
+      .from('bs_staff')
+      .select('studio_id, travel_buffer_minutes')
+      .eq('id', trainerId)
+      .maybeSingle();
+
+    let studioId = (staff?.studio_id as string) || null;
+    if (!studioId) {
+      // Solo practitioners may only own a studio, without a staff row
+      const { data: ownedStudio } = await supabase
+        .from('bs_studios')
+        .select('id')
+        .eq('owner_id', trainerId)
+        .maybeSingle();
+      studioId = (ownedStudio?.id as string) || null;
+    }
+
+    const policy = studioId ? (await getStudioConfig(studioId)).data?.cancellation_policy : null;
+
+    return {
+      minGapMinutes: policy?.buffer_minutes || 0,
+      travelMinutes: (staff?.travel_buffer_minutes as number) || 0,
+      studioId,
+    };
+  } catch (err) {
+    console.error('Error in getTrainerBufferRules:', err);
+    return { minGapMinutes: 0, travelMinutes: 0, studioId: null };
+  }
+}
+
 /**
  * Check whether a scheduled booking falls within the studio's opening hours.
  *
  * @param openingHours - The studio's opening hours config (keyed by day-of-week "0"-"6")
  * @param scheduledAt  - ISO 8601 datetime string for the booking start
  * @param durationMinutes - Duration of the booking in minutes
+ * @param timezone - IANA zone the opening hours are expressed in
  * @returns `{ valid: true }` or `{ valid: false, reason: "..." }`
  */
 export function isWithinOpeningHours(
   openingHours: OpeningHours,
   scheduledAt: string,
-  durationMinutes: number
+  durationMinutes: number,
+  timezone: string = DEFAULT_TIMEZONE
 ): { valid: boolean; reason?: string } {
   // If opening hours are empty / not configured, allow all bookings
   if (!openingHours || Object.keys(openingHours).length === 0) {
@@ -117,19 +215,26 @@ export function isWithinOpeningHours(
   const start = new Date(scheduledAt);
   const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
 
-  const dayOfWeek = String(start.getDay()); // "0"-"6"
+  // Read wall-clock fields in the studio's zone, not the server's
+  const zonedStart = getZonedParts(start, timezone);
+  const zonedEnd = getZonedParts(end, timezone);
+  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  const dayOfWeek = String(zonedStart.dayOfWeek); // "0"-"6"
   const dayConfig = openingHours[dayOfWeek];
 
   if (!dayConfig || !dayConfig.enabled) {
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
     return {
       valid: false,
-      reason: `The studio is closed on ${dayNames[start.getDay()]}`,
+      reason: `The studio is closed on ${dayNames[zonedStart.dayOfWeek]}`,
     };
   }
 
-  const startMinutes = start.getHours() * 60 + start.getMinutes();
-  const endMinutes = end.getHours() * 60 + end.getMinutes();
+  const startMinutes = zonedStart.hour * 60 + zonedStart.minute;
+  // A booking running past local midnight can never fit a same-day slot
+  const endMinutes = zonedEnd.day === zonedStart.day
+    ? zonedEnd.hour * 60 + zonedEnd.minute
+    : 24 * 60 + zonedEnd.hour * 60 + zonedEnd.minute;
 
   // Check if the booking fits within any of the day's slots
   for (const slot of dayConfig.slots) {
@@ -148,11 +253,9 @@ export function isWithinOpeningHours(
     .map((s: OpeningHoursSlot) => `${s.start}-${s.end}`)
     .join(', ');
 
-  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
   return {
     valid: false,
-    reason: `The selected time is outside studio operating hours (${dayNames[start.getDay()]} ${hoursStr})`,
+    reason: `The selected time is outside studio operating hours (${dayNames[zonedStart.dayOfWeek]} ${hoursStr})`,
   };
 }
 
@@ -0,0 +1,475 @@
+/**
+ * Waitlist Service
+ *
+ * Queues clients for slots that are already taken and offers freed places
+ * to the next person in line as a time-limited soft-hold.
+ * Enabled / max_capacity come from the studio's waitlist_config.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getStudioConfig, getTrainerTimezone } from '@/lib/services/studio-service';
+import type { WaitlistConfig } from '@/lib/services/studio-service';
+import { sendWaitlistOfferEmail } from '@/lib/notifications/email-service';
+import { isSMSEnabled, queueSMS } from '@/lib/notifications/sms-service';
+import { getWaitlistOfferSMS } from '@/lib/notifications/sms-templates';
+import { checkSlotCapacity } from '@/lib/services/group-class-service';
+import { recordBookingEvent } from '@/lib/services/booking-event-service';
+import { attachIntakeAnswersToBooking } from '@/lib/services/intake-service';
+import type { WaitlistEntry, ClientWaitlistEntry } from '@/lib/types/waitlist';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface JoinWaitlistParams {
+  studioId: string;
+  trainerId: string;
+  serviceId: string;
+  clientId: string;
+  scheduledAt: string;
+  duration: number;
+  waitlistConfig: WaitlistConfig | null;
+}
+
+/** Minutes an offer is held when the studio has no soft_hold_length configured */
+const DEFAULT_OFFER_MINUTES = 60;
+
+const LIVE_STATUSES = ['waiting', 'offered'];
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+export function isWaitlistEnabled(config: WaitlistConfig | null | undefined): boolean {
+  return config?.enabled === true;
+}
+
+/** Check whether the slot (or a place in the group class) is free for the entry. */
+async function isSlotFree(entry: WaitlistEntry): Promise<boolean> {
+  const { data } = await checkSlotCapacity({
+    trainerId: entry.trainer_id,
+    scheduledAt: entry.scheduled_at,
+    durationMinutes: entry.duration,
+    serviceId: entry.service_id,
+  });
+  return !!data && !data.hasConflict;
+}
+
+/** Resolve the fc_clients id for an authenticated client's email. */
+async function findClientId(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  userEmail: string
+): Promise<string | null> {
+  const { data: client } = await supabase
+    .from('fc_clients')
+    .select('id')
+    .ilike('email', userEmail)
+    .maybeSingle();
+
+  return (client?.id as string) || null;
+}
+
+/** 1-based position of a waiting entry in its slot's queue. */
+async function getQueuePosition(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  entry: Pick<WaitlistEntry, 'trainer_id' | 'scheduled_at' | 'created_at'>
+): Promise<number> {
+  const { count } = await supabase
+    .from('ta_waitlist_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('trainer_id', entry.trainer_id)
+    .eq('scheduled_at', entry.scheduled_at)
+    .eq('status', 'waiting')
+    .lt('created_at', entry.created_at);
+
+  return (count || 0) + 1;
+}
+
+/** Email + SMS the client that a place is being held for them. */
+async function notifyWaitlistOffer(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  entry: WaitlistEntry,
+  bookingId: string,
+  offerExpiresAt: Date
+): Promise<void> {
+  try {
+    const [{ data: client }, { data: trainer }, { data: service }] = await Promise.all([
+      supabase
+        .from('fc_clients')
+        .select('first_name, last_name, email, phone, sms_transactional_opt_in')
+        .eq('id', entry.client_id)
+        .single(),
+      supabase
+        .from('profiles')
+        .select('first_name, last_name')
+        .eq('id', entry.trainer_id)
+        .single(),
+      entry.service_id
+        ? supabase.from('ta_services').select('name').eq('id', entry.service_id).single()
+        : Promise.resolve({ data: null }),
+    ]);
+
+    if (!client) return;
+
+    const clientName = `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Client';
+    const trainerName = trainer
+      ? `${trainer.first_name || ''} ${trainer.last_name || ''}`.trim() || 'Your Trainer'
+      : 'Your Trainer';
+    const serviceName = (service as { name?: string } | null)?.name || 'Session';
+    const claimLink = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/client/bookings?waitlist=${entry.id}`;
+    const timezone = await getTrainerTimezone(entry.trainer_id);
+
+    if (client.email) {
+      await sendWaitlistOfferEmail({
+        clientEmail: client.email,
+        clientName,
+        trainerName,
+        serviceName,
+        scheduledAt: entry.scheduled_at,
+        offerExpiresAt,
+        claimLink,
+        bookingId,
+        timezone,
+      });
+    }
+
+    if (isSMSEnabled() && client.phone && client.sms_transactional_opt_in !== false) {
+      const scheduledAt = new Date(entry.scheduled_at);
+      await queueSMS({
+        phone: client.phone,
+        message: getWaitlistOfferSMS({
+          serviceName,
+          date: scheduledAt.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: timezone }),
+          time: scheduledAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: timezone }),
+          expiresAt: offerExpiresAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: timezone }),
+        }),
+        bookingId,
+        userId: entry.client_id,
+      });
+    }
+  } catch (notifyError) {
+    console.error('Error sending waitlist offer notification:', notifyError);
+    // Don't fail the offer if email/SMS fails
+  }
+}
+
+/** Map waitlist rows to the client-facing shape, resolving trainer names and queue positions. */
+async function toClientEntries(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  rows: Record<string, unknown>[]
+): Promise<ClientWaitlistEntry[]> {
+  const trainerIds = [...new Set(rows.map((r) => r.trainer_id as string))];
+  const { data: trainers } = trainerIds.length
+    ? await supabase.from('profiles').select('id, first_name, last_name').in('id', trainerIds)
+    : { data: [] };
+
+  const trainerNames = new Map<string, string>();
+  for (const t of (trainers || []) as { id: string; first_name: string | null; last_name: string | null }[]) {
+    trainerNames.set(t.id, `${t.first_name || ''} ${t.last_name || ''}`.trim() || 'Trainer');
+  }
+
+  return Promise.all(
+    rows.map(async (row) => {
+      const entry = row as unknown as WaitlistEntry;
+      return {
+        id: entry.id,
+        scheduledAt: entry.scheduled_at,
+        duration: entry.duration,
+        status: entry.status,
+        serviceName: (row.service as { name?: string } | null)?.name || 'Session',
+        trainerName: trainerNames.get(entry.trainer_id) || 'Trainer',
+        position: entry.status === 'waiting' ? await getQueuePosition(supabase, entry) : null,
+        offerExpiresAt: entry.offer_expires_at,
+      };
+    })
+  );
+}
+
+// ── Service functions ───────────────────────────────────────────────
+
+/**
+ * Add a client to the waitlist for a taken slot.
+ * Returns the existing entry if the client is already queued for this slot.
+ */
+export async function joinWaitlist(
+  params: JoinWaitlistParams
+): Promise<{ data: { entry: WaitlistEntry; position: number } | null; error: Error | null }> {
+  try {
+    if (!isWaitlistEnabled(params.waitlistConfig)) {
+      return { data: null, error: new Error('Waitlist is not enabled for this studio') };
+    }
+
+    const supabase = createServiceRoleClient();
+
+    const { data: existing } = await supabase
+      .from('ta_waitlist_entries')
+      .select('*')
+      .eq('trainer_id', params.trainerId)
+      .eq('scheduled_at', params.scheduledAt)
+      .eq('client_id', params.clientId)
+      .in('status', LIVE_STATUSES)
+      .maybeSingle();
+
+    if (existing) {
+      const entry = existing as WaitlistEntry;
+      return { data: { entry, position: await getQueuePosition(supabase, entry) }, error: null };
+    }
+
+    const maxCapacity = params.waitlistConfig?.max_capacity;
+    if (maxCapacity && maxCapacity > 0) {
+      const { count } = await supabase
+        .from('ta_waitlist_entries')
+        .select('id', { count: 'exact', head: true })
+        .eq('trainer_id', params.trainerId)
+        .eq('scheduled_at', params.scheduledAt)
+        .in('status', LIVE_STATUSES);
+
+      if ((count || 0) >= maxCapacity) {
+        return { data: null, error: new Error('The waitlist for this session is full') };
+      }
+    }
+
+    const { data: created, error } = await supabase
+      .from('ta_waitlist_entries')
+      .insert({
+        studio_id: params.studioId,
+        trainer_id: params.trainerId,
+        service_id: params.serviceId,
+        client_id: params.clientId,
+        scheduled_at: params.scheduledAt,
+        duration: params.duration,
+        status: 'waiting',
+      })
+      .select('*')
+      .single();
+
+    if (error || !created) {
+      console.error('Error joining waitlist:', error);
+      return { data: null, error: new Error(error?.message || 'Failed to join waitlist') };
+    }
+
+    const entry = created as WaitlistEntry;
+    return { data: { entry, position: await getQueuePosition(supabase, entry) }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Offer a freed slot to the next waiting client.
+ * Creates a soft-hold booking that expires after the studio's soft_hold_length
+ * (or at session start, whichever is sooner) and notifies the client.
+ * Returns null when nobody is waiting or the slot is still taken.
+ */
+export async function offerNextWaitlistPlace(
+  trainerId: string,
+  scheduledAt: string
+): Promise<{ data: WaitlistEntry | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+    const slotStart = new Date(scheduledAt);
+
+    if (slotStart.getTime() <= Date.now()) {
+      await supabase
+        .from('ta_waitlist_entries')
+        .update({ status: 'expired', updated_at: new Date().toISOString() })
+        .eq('trainer_id', trainerId)
+        .eq('scheduled_at', slotStart.toISOString())
+        .eq('status', 'waiting');
+      return { data: null, error: null };
+    }
+
+    const { data: next } = await supabase
+      .from('ta_waitlist_entries')
+      .select('*')
+      .eq('trainer_id', trainerId)
+      .eq('scheduled_at', slotStart.toISOString())
+      .eq('status', 'waiting')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (!next) {
+      return { data: null, error: null };
+    }
+
+    const entry = next as WaitlistEntry;
+
+    const { data: config } = await getStudioConfig(entry.studio_id);
+    if (!isWaitlistEnabled(config?.waitlist_config)) {
+      return { data: null, error: null };
+    }
+
+    if (!(await isSlotFree(entry))) {
+      return { data: null, error: null };
+    }
+
+    const offerMinutes = config?.soft_hold_length ?? DEFAULT_OFFER_MINUTES;
+    const offerExpiresAt = new Date(
+      Math.min(Date.now() + offerMinutes * 60 * 1000, slotStart.getTime())
+    );
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('ta_bookings')
+      .insert({
+        studio_id: entry.studio_id,
+        trainer_id: entry.trainer_id,
+        client_id: entry.client_id,
+        service_id: entry.service_id,
+        scheduled_at: entry.scheduled_at,
+        duration: entry.duration,
+        status: 'soft-hold',
+        hold_expiry: offerExpiresAt.toISOString(),
+        notes: 'Offered from waitlist',
+      })
+      .select('id')
+      .single();
+
+    if (bookingError || !booking) {
+      console.error('Error creating waitlist offer booking:', bookingError);
+      return { data: null, error: new Error(bookingError?.message || 'Failed to create waitlist offer') };
+    }
+
+    const now = new Date().toISOString();
+    const { data: offered, error: updateError } = await supabase
+      .from('ta_waitlist_entries')
+      .update({
+        status: 'offered',
+        offered_booking_id: booking.id,
+        offered_at: now,
+        offer_expires_at: offerExpiresAt.toISOString(),
+        updated_at: now,
+      })
+      .eq('id', entry.id)
+      .select('*')
+      .single();
+
+    if (updateError || !offered) {
+      await supabase.from('ta_bookings').delete().eq('id', booking.id);
+      return { data: null, error: new Error(updateError?.message || 'Failed to update waitlist entry') };
+    }
+
+    await attachIntakeAnswersToBooking({ waitlistEntryId: entry.id }, booking.id);
+
+    await recordBookingEvent({
+      bookingId: booking.id,
+      eventType: 'created',
+      source: 'job',
+      newStatus: 'soft-hold',
+      newScheduledAt: entry.scheduled_at,
+      newTrainerId: entry.trainer_id,
+      metadata: { waitlist_entry_id: entry.id },
+    });
+
+    await notifyWaitlistOffer(supabase, offered as WaitlistEntry, booking.id, offerExpiresAt);
+
+    return { data: offered as WaitlistEntry, error: null };
+  } catch (err) {
+    console.error('Error offering waitlist place:', err);
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * List a client's live waitlist entries with queue position.
+ */
+export async function getClientWaitlist(
+  userEmail: string
+): Promise<{ data: ClientWaitlistEntry[] | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const clientId = await findClientId(supabase, userEmail);
+    if (!clientId) {
+      return { data: null, error: new Error('Client not found') };
+    }
+
+    const { data: entries, error } = await supabase
+      .from('ta_waitlist_entries')
+      .select('*, service:ta_services(name)')
+      .eq('client_id', clientId)
+      .in('status', LIVE_STATUSES)
+      .gte('scheduled_at', new Date().toISOString())
+      .order('scheduled_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching client waitlist:', error);
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: await toClientEntries(supabase, entries || []), error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Remove a client from the waitlist. Declining an open offer releases the
+ * held place and offers it to the next person in line.
+ */
+export async function leaveWaitlist(
+  userEmail: string,
+  entryId: string,
+  actorId?: string
+): Promise<{ data: { success: boolean } | null; error: Error | null }> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const clientId = await findClientId(supabase, userEmail);
+    if (!clientId) {
+      return { data: null, error: new Error('Client not found') };
+    }
+
+    const { data: entry } = await supabase
+      .from('ta_waitlist_entries')
+      .select('*')
+      .eq('id', entryId)
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (!entry) {
+      return { data: null, error: new Error('Waitlist entry not found') };
+    }
+
+    const current = entry as WaitlistEntry;
+    if (!LIVE_STATUSES.includes(current.status)) {
+      return { data: null, error: new Error('You are no longer on this waitlist') };
+    }
+
+    const { error } = await supabase
+      .from('ta_waitlist_entries')
+      .update({
+        status: current.status === 'offered' ? 'declined' : 'cancelled',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', entryId);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    if (current.status === 'offered' && current.offered_booking_id) {
+      const { data: released } = await supabase
+        .from('ta_bookings')
+        .update({ status: 'cancelled' })
+        .eq('id', current.offered_booking_id)
+        .eq('status', 'soft-hold')
+        .select('id')
+        .maybeSingle();
+
+      if (released) {
+        await recordBookingEvent({
+          bookingId: current.offered_booking_id,
+          eventType: 'cancelled',
+          source: 'client',
+          actorId: actorId || null,
+          oldStatus: 'soft-hold',
+          newStatus: 'cancelled',
+          metadata: { waitlist_entry_id: entryId, declined: true },
+        });
+      }
+
+      await offerNextWaitlistPlace(current.trainer_id, current.scheduled_at);
+    }
+
+    return { data: { success: true }, error: null };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
@@ -17,6 +17,7 @@ export interface AvailabilityBlock {
   endDate?: string; // For multi-day blocks (YYYY-MM-DD format)
   reason?: BlockReasonType; // Why the time is blocked
   notes?: string; // Optional additional notes
+  locationId?: string; // Location the block applies at (unset = every location)
   isRecurring?: boolean; // DEPRECATED: Use recurrence instead (kept for backwards compatibility)
 }
 
@@ -0,0 +1,74 @@
+/**
+ * Booking event types
+ * The append-only history of a booking: who changed what, and when
+ */
+
+/** Who made the change: staff, the client, Stripe, or a scheduled job */
+export type BookingEventSource = 'trainer' | 'client' | 'webhook' | 'job';
+
+/** Who is changing a booking, recorded in its history */
+export interface BookingActor {
+  source: BookingEventSource;
+  actorId: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export type BookingEventType =
+  | 'created'
+  | 'confirmed'
+  | 'rescheduled'
+  | 'trainer_changed'
+  | 'checked_in'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show'
+  | 'no_show_charged'
+  | 'no_show_undone'
+  | 'hold_expired'
+  | 'credits_refunded'
+  | 'payment_refunded'
+  | 'status_changed';
+
+/** A ta_booking_events row with actor and trainer names resolved */
+export interface BookingEvent {
+  id: string;
+  bookingId: string;
+  eventType: BookingEventType;
+  source: BookingEventSource;
+  actorId: string | null;
+  actorName: string | null;
+  oldStatus: string | null;
+  newStatus: string | null;
+  oldScheduledAt: string | null;
+  newScheduledAt: string | null;
+  oldTrainerName: string | null;
+  newTrainerName: string | null;
+  /** Credits returned to (+) or taken from (-) the client */
+  creditsDelta: number | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export const BOOKING_EVENT_LABELS: Record<BookingEventType, string> = {
+  created: 'Booked',
+  confirmed: 'Confirmed',
+  rescheduled: 'Rescheduled',
+  trainer_changed: 'Trainer changed',
+  checked_in: 'Checked in',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'Marked no-show',
+  no_show_charged: 'No-show charged',
+  no_show_undone: 'No-show undone',
+  hold_expired: 'Hold expired',
+  credits_refunded: 'Credits refunded',
+  payment_refunded: 'Payment refunded',
+  status_changed: 'Status changed',
+};
+
+export const BOOKING_EVENT_SOURCE_LABELS: Record<BookingEventSource, string> = {
+  trainer: 'Staff',
+  client: 'Client',
+  webhook: 'Payment',
+  job: 'System',
+};
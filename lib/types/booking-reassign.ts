@@ -0,0 +1,32 @@
+/**
+ * Booking reassignment types
+ * Handing sessions to a substitute trainer in the same studio
+ */
+
+/** Why a trainer can't take one of the bookings */
+export interface ReassignUnavailable {
+  bookingId: string;
+  reason: string;
+}
+
+/** A studio trainer who could take over the selected bookings */
+export interface ReassignCandidate {
+  trainerId: string;
+  trainerName: string;
+  /** Qualified for every selected booking's service */
+  qualified: boolean;
+  /** Bookings the trainer is qualified for and free at */
+  availableBookingIds: string[];
+  unavailable: ReassignUnavailable[];
+}
+
+export interface ReassignBookingsInput {
+  bookingIds: string[];
+  trainerId: string;
+}
+
+export interface ReassignBookingsResult {
+  succeeded: string[];
+  failed: { bookingId: string; error: string }[];
+  warnings: string[];
+}
@@ -11,7 +11,7 @@ export interface BookingRequest {
   locationId?: string;
   preferredTimes: Date[]; // Array of time options client suggests
   notes?: string;
-  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'countered';
   createdAt: Date;
   expiresAt: Date; // Auto-expire after 7 days
 }
@@ -42,8 +42,19 @@ export interface BookingRequestResponse {
   service: BookingRequestService | null;
   preferred_times: string[];
   notes: string | null;
-  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'countered';
   created_at: string;
   expires_at: string;
   clientName?: string;
 }
+
+/** Client-facing view of a request the trainer answered with alternative times */
+export interface ClientBookingRequest {
+  id: string;
+  status: 'countered';
+  serviceName: string;
+  trainerName: string;
+  preferredTimes: string[];
+  suggestedTimes: string[];
+  expiresAt: string;
+}
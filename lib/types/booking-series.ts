@@ -0,0 +1,41 @@
+// Recurring booking series types
+
+export type SeriesFrequency = 'weekly' | 'fortnightly';
+export type SeriesScope = 'this' | 'following';
+export type SeriesStatus = 'active' | 'ended' | 'cancelled';
+export type SeriesExceptionType = 'skipped' | 'failed';
+
+export interface BookingSeries {
+  id: string;
+  studio_id: string;
+  trainer_id: string;
+  client_id: string | null;
+  service_id: string | null;
+  frequency: SeriesFrequency;
+  starts_at: string;
+  duration: number;
+  end_date: string | null; // YYYY-MM-DD
+  occurrence_count: number | null;
+  status: SeriesStatus;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookingSeriesException {
+  id: string;
+  series_id: string;
+  series_index: number;
+  occurrence_at: string;
+  type: SeriesExceptionType;
+  booking_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+/** An occurrence that could not be created or moved, with the validation message. */
+export interface SeriesOccurrenceFailure {
+  seriesIndex: number;
+  scheduledAt: string;
+  reason: string;
+}
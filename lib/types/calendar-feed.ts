@@ -0,0 +1,13 @@
+// iCalendar subscription feed types — private URLs calendar apps poll
+
+/** Whose bookings a feed lists */
+export type CalendarFeedOwnerType = 'trainer' | 'studio' | 'client';
+
+export interface CalendarFeed {
+  ownerType: CalendarFeedOwnerType;
+  /** Private https URL; anyone holding it can read the feed */
+  url: string;
+  /** Same feed as a webcal:// link, which opens the subscribe dialog */
+  webcalUrl: string;
+  createdAt: string;
+}
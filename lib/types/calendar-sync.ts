@@ -0,0 +1,41 @@
+// External calendar sync types — bookings pushed out, busy time pulled in
+
+/** Calendar systems a trainer can connect; CalDAV covers iCloud, Fastmail, Nextcloud, etc. */
+export type CalendarProviderId = 'caldav';
+
+export interface CalendarConnection {
+  id: string;
+  trainerId: string;
+  provider: CalendarProviderId;
+  displayName: string;
+  calendarUrl: string;
+  username: string;
+  /** Write bookings to the external calendar */
+  pushEnabled: boolean;
+  /** Import the external calendar's busy time as blocked availability */
+  pullEnabled: boolean;
+  isActive: boolean;
+  lastSyncedAt: string | null;
+  /** Error from the most recent sync, cleared once a sync succeeds */
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface CalendarConnectionInput {
+  provider?: CalendarProviderId;
+  displayName?: string;
+  calendarUrl: string;
+  username: string;
+  password: string;
+  pushEnabled?: boolean;
+  pullEnabled?: boolean;
+}
+
+export interface CalendarSyncResult {
+  /** Bookings created or updated in the external calendar */
+  pushed: number;
+  /** Cancelled bookings removed from the external calendar */
+  removed: number;
+  /** Busy periods imported as blocked time */
+  imported: number;
+}
@@ -35,6 +35,11 @@ export interface CalendarSession {
   signOffMode?: SignOffMode; // How to complete session: per_exercise, per_block, full_session
   notes?: string;
   holdExpiry?: Date | null; // For soft-hold sessions
+  seriesId?: string | null; // Set when the session is part of a recurring series
+  bufferBefore?: number; // Minutes kept free before the session (service buffer)
+  bufferAfter?: number; // Minutes kept free after the session (service buffer)
+  locationId?: string | null; // Studio location the session is at
+  locationName?: string | null;
 }
 
 export interface TimeSlot {
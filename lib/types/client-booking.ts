@@ -1,5 +1,7 @@
 // Client Booking Types - For clients booking sessions with trainers
 
+import type { IntakeAnswerInput } from '@/lib/types/intake';
+
 export interface ClientService {
   id: string;
   name: string;
@@ -31,6 +33,8 @@ export interface AvailabilitySlot {
   startMinute: number;
   endHour: number;
   endMinute: number;
+  /** IANA zone the start/end hours are wall-clock times in */
+  timezone?: string;
 }
 
 export interface ExistingBooking {
@@ -39,12 +43,17 @@ export interface ExistingBooking {
   scheduledAt: string;
   duration: number;
   status: string;
+  /** Time blocked around the booking once buffer and travel time are allowed for */
+  blockedFrom?: string;
+  blockedUntil?: string;
 }
 
 export interface CreateClientBookingInput {
   serviceId: string;
   trainerId: string;
   scheduledAt: string;
+  /** Answers to the service's intake questions */
+  intakeAnswers?: IntakeAnswerInput[];
 }
 
 export interface CreateClientBookingResponse {
@@ -0,0 +1,52 @@
+// Credit ledger types
+
+export type CreditEntryType = 'grant' | 'use' | 'refund' | 'expiry' | 'adjustment';
+
+/** Where a client's credits are held: a package allocation or their simple credits */
+export type CreditPool = 'package' | 'simple';
+
+export interface CreditLedgerEntry {
+  id: string;
+  clientId: string;
+  clientPackageId: string | null;
+  bookingId: string | null;
+  entryType: CreditEntryType;
+  /** Credits added (+) or taken (-) */
+  credits: number;
+  balanceAfter: number | null;
+  reason: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** A pool whose stored balance differs from the sum of its ledger entries */
+export interface CreditReconciliationMismatch {
+  clientId: string;
+  clientName: string;
+  clientEmail: string | null;
+  pool: CreditPool;
+  clientPackageId: string | null;
+  packageName: string | null;
+  storedBalance: number;
+  ledgerBalance: number;
+  /** storedBalance - ledgerBalance */
+  difference: number;
+  entryCount: number;
+  lastEntryAt: string | null;
+}
+
+export interface CreditReconciliationReport {
+  clientsChecked: number;
+  poolsChecked: number;
+  mismatches: CreditReconciliationMismatch[];
+  generatedAt: string;
+}
+
+export const CREDIT_ENTRY_TYPE_LABELS: Record<CreditEntryType, string> = {
+  grant: 'Granted',
+  use: 'Used',
+  refund: 'Refunded',
+  expiry: 'Expired',
+  adjustment: 'Adjusted',
+};
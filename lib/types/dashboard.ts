@@ -4,6 +4,9 @@ export interface TrainerDashboardStats {
   activeClients: number;
   softHoldsCount: number;
   pendingRequests: number;
+  packagesExpiringSoon: number;
+  creditsExpiringSoon: number;
+  creditsExpiredRecently: number;
 }
 
 export interface StudioOwnerDashboardStats {
@@ -0,0 +1,21 @@
+// Group class (max_capacity > 1) roster types
+
+export interface ClassRosterAttendee {
+  bookingId: string;
+  clientId: string | null;
+  clientName: string;
+  credits: number | null;
+  status: string;
+  holdExpiry: string | null;
+}
+
+/** All bookings sharing one class instance (trainer + service + start time). */
+export interface ClassRoster {
+  trainerId: string;
+  serviceId: string;
+  serviceName: string;
+  scheduledAt: string;
+  duration: number;
+  capacity: number;
+  attendees: ClassRosterAttendee[];
+}
@@ -0,0 +1,47 @@
+/**
+ * Booking intake types
+ * Questions a studio asks per service before the client's visit, and the answers
+ */
+
+export type IntakeQuestionType = 'text' | 'choice' | 'yes_no';
+
+export interface IntakeQuestion {
+  id: string;
+  serviceId: string;
+  label: string;
+  type: IntakeQuestionType;
+  /** Choices offered for 'choice' questions */
+  options: string[];
+  required: boolean;
+  position: number;
+}
+
+/** A question as edited on the service form; no id for new questions */
+export interface IntakeQuestionInput {
+  id?: string;
+  label: string;
+  type: IntakeQuestionType;
+  options?: string[];
+  required?: boolean;
+}
+
+/** A client's answer as submitted with a booking; 'yes'/'no' for yes/no questions */
+export interface IntakeAnswerInput {
+  questionId: string;
+  answer: string;
+}
+
+/** An answer stored against a booking, with the question as it was asked */
+export interface BookingIntakeAnswer {
+  id: string;
+  questionId: string | null;
+  questionLabel: string;
+  questionType: IntakeQuestionType;
+  answer: string;
+}
+
+export const INTAKE_QUESTION_TYPE_LABELS: Record<IntakeQuestionType, string> = {
+  text: 'Text',
+  choice: 'Choice',
+  yes_no: 'Yes / No',
+};
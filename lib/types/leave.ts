@@ -0,0 +1,72 @@
+// Trainer leave types — time off requested by a trainer and approved by the studio
+
+export type LeaveStatus = 'pending' | 'approved' | 'declined' | 'cancelled';
+
+export interface LeaveRequest {
+  id: string;
+  studioId: string;
+  trainerId: string;
+  trainerName: string;
+  startDate: string; // YYYY-MM-DD, trainer's timezone
+  endDate: string; // YYYY-MM-DD, inclusive
+  reason: string | null;
+  status: LeaveStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+export interface LeaveRequestInput {
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+export interface LeaveReviewInput {
+  status: 'approved' | 'declined';
+  note?: string;
+}
+
+/** A booking that falls inside a trainer's leave */
+export interface LeaveAffectedBooking {
+  id: string;
+  scheduledAt: string; // ISO string
+  duration: number;
+  status: string;
+  clientId: string | null;
+  clientName: string;
+  serviceId: string | null;
+  serviceName: string;
+  /** Times already offered to the client, if they haven't picked one yet */
+  proposedTimes: string[] | null;
+}
+
+/**
+ * What to do with the selected bookings: move them to another trainer, offer
+ * the client new times with the same trainer, or cancel with a full refund
+ */
+export type LeaveBookingAction = 'reassign' | 'propose' | 'cancel';
+
+export interface LeaveBookingActionInput {
+  action: LeaveBookingAction;
+  bookingIds: string[];
+  /** Trainer to move the bookings to ('reassign' only) */
+  trainerId?: string;
+}
+
+export interface LeaveBookingActionResult {
+  succeeded: string[];
+  failed: { bookingId: string; error: string }[];
+}
+
+/** Client-facing view of new times offered for a booking */
+export interface BookingTimeProposal {
+  id: string;
+  bookingId: string;
+  serviceName: string;
+  trainerName: string;
+  currentTime: string;
+  proposedTimes: string[];
+  expiresAt: string;
+}
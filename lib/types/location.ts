@@ -0,0 +1,30 @@
+// Studio location types — a studio can run from several sites
+
+import type { OpeningHours } from './availability';
+
+export interface Location {
+  id: string;
+  studioId: string;
+  name: string;
+  address: string | null;
+  /** Empty when the location uses the studio's opening hours */
+  openingHours: OpeningHours;
+  rooms: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationInput {
+  name: string;
+  address?: string | null;
+  openingHours?: OpeningHours;
+  rooms?: string[];
+}
+
+/** What a public booking page needs to label and filter by location */
+export interface PublicLocation {
+  id: string;
+  name: string;
+  address: string | null;
+}
@@ -0,0 +1,65 @@
+// Membership types
+
+export type MembershipInterval = 'week' | 'month' | 'year';
+
+/** Mirrors the Stripe subscription status */
+export type MembershipStatus =
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'unpaid'
+  | 'canceled'
+  | 'paused';
+
+export interface MembershipPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  priceCents: number;
+  currency: string;
+  interval: MembershipInterval;
+  creditsPerPeriod: number;
+  /** Unused credits carried into the next period: 0 none, null no limit */
+  rolloverCap: number | null;
+  isActive: boolean;
+  /** Members whose subscription is still running */
+  activeMembers: number;
+  createdAt: string;
+}
+
+export interface MembershipPlanInput {
+  name: string;
+  description?: string | null;
+  priceCents: number;
+  interval: MembershipInterval;
+  creditsPerPeriod: number;
+  rolloverCap: number | null;
+  isActive?: boolean;
+}
+
+/** A plan as it's offered in the client shop */
+export type ShopMembershipPlan = Omit<MembershipPlan, 'isActive' | 'activeMembers' | 'createdAt'>;
+
+/** A client's membership as the client sees it */
+export interface ClientMembership {
+  id: string;
+  planId: string;
+  planName: string;
+  priceCents: number;
+  currency: string;
+  interval: MembershipInterval;
+  creditsPerPeriod: number;
+  status: MembershipStatus;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  /** Where the client can pay a failing renewal */
+  latestInvoiceUrl: string | null;
+}
+
+export const MEMBERSHIP_INTERVAL_LABELS: Record<MembershipInterval, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+  year: 'Yearly',
+};
@@ -0,0 +1,28 @@
+// No-show enforcement types
+
+export type NoShowAction = 'charge_full' | 'charge_partial' | 'no_charge';
+export type NoShowChargeStatus = 'pending' | 'charged' | 'undone';
+
+export interface NoShowCharge {
+  id: string;
+  booking_id: string;
+  studio_id: string | null;
+  trainer_id: string;
+  client_id: string | null;
+  no_show_action: NoShowAction;
+  credits_to_charge: number;
+  credits_charged: number | null;
+  status: NoShowChargeStatus;
+  undo_until: string;
+  finalised_at: string | null;
+  undone_at: string | null;
+  undone_by: string | null;
+  created_at: string;
+}
+
+/** Summary returned by the no-show processor cron run */
+export interface NoShowProcessResult {
+  markedNoShow: number;
+  charged: number;
+  failed: number;
+}
@@ -0,0 +1,39 @@
+// Package expiry types
+
+/** Summary returned by the package expiry cron run */
+export interface PackageExpiryProcessResult {
+  /** Packages moved to 'expired' */
+  expired: number;
+  /** Unused credits written off with them */
+  creditsExpired: number;
+  /** "Expires in 14 days" warnings sent */
+  warned14: number;
+  /** "Expires in 3 days" warnings sent */
+  warned3: number;
+}
+
+/** A client's package as staff see it, with its expiry */
+export interface ClientPackageExpiry {
+  id: string;
+  packageName: string;
+  sessionsTotal: number;
+  sessionsRemaining: number;
+  purchasedAt: string | null;
+  expiresAt: string | null;
+  expiredAt: string | null;
+  status: string;
+  /** Changes to the expiry date, newest first */
+  extensions: PackageExpiryExtension[];
+}
+
+/** An owner's change to a package's expiry date */
+export interface PackageExpiryExtension {
+  id: string;
+  clientPackageId: string;
+  extendedBy: string | null;
+  oldExpiresAt: string | null;
+  newExpiresAt: string;
+  reason: string | null;
+  creditsReinstated: number;
+  createdAt: string;
+}
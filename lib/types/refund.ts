@@ -0,0 +1,44 @@
+// Refund types
+
+export type RefundSource = 'dashboard' | 'stripe';
+
+/** A refund against a payment, full or partial */
+export interface PaymentRefund {
+  id: string;
+  amountCents: number;
+  reason: string | null;
+  /** Issued from the dashboard, or directly in Stripe */
+  source: RefundSource;
+  creditsClawedBack: number;
+  refundedBy: string | null;
+  createdAt: string;
+}
+
+/** A payment as staff see it when refunding */
+export interface RefundablePayment {
+  id: string;
+  description: string | null;
+  paymentType: string | null;
+  bookingId: string | null;
+  amountCents: number;
+  refundedAmountCents: number;
+  currency: string;
+  status: string;
+  createdAt: string;
+  /** The package allocation the payment bought, if any */
+  allocation: {
+    id: string;
+    sessionsTotal: number;
+    sessionsRemaining: number;
+  } | null;
+  /** Newest first */
+  refunds: PaymentRefund[];
+}
+
+export interface RefundPaymentInput {
+  /** Defaults to everything not yet refunded */
+  amountCents?: number;
+  reason?: string | null;
+  /** Take back the bought package's unused credits in proportion to the refund */
+  clawBackCredits?: boolean;
+}
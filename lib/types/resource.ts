@@ -0,0 +1,62 @@
+// Bookable resource types — rooms and equipment shared across trainers
+
+export type ResourceKind = 'room' | 'equipment';
+
+/** 'block' rejects a booking when the resource is full; 'warn' allows it and flags it */
+export type ResourceConflictMode = 'block' | 'warn';
+
+export interface Resource {
+  id: string;
+  studioId: string;
+  locationId: string | null;
+  name: string;
+  kind: ResourceKind;
+  /** Identical units available at once, e.g. 2 squat racks */
+  quantity: number;
+  conflictMode: ResourceConflictMode;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResourceInput {
+  name: string;
+  kind?: ResourceKind;
+  quantity?: number;
+  conflictMode?: ResourceConflictMode;
+  locationId?: string | null;
+}
+
+/** A resource a booking needs that has no free unit at the requested time */
+export interface ResourceConflict {
+  resourceId: string;
+  name: string;
+  kind: ResourceKind;
+  quantity: number;
+  /** Units already held by other bookings at the busiest moment */
+  inUse: number;
+  /** false when the resource only warns about double-booking */
+  blocking: boolean;
+}
+
+/** One session holding a resource; a group class is a single entry */
+export interface ResourceScheduleEntry {
+  bookingIds: string[];
+  trainerId: string;
+  trainerName: string;
+  serviceName: string;
+  color: string | null;
+  /** Client of a 1-2-1 session (first attendee for a class) */
+  clientName: string | null;
+  startsAt: string; // ISO string
+  endsAt: string; // ISO string
+}
+
+export interface ResourceSchedule {
+  resourceId: string;
+  name: string;
+  kind: ResourceKind;
+  quantity: number;
+  locationId: string | null;
+  entries: ResourceScheduleEntry[];
+}
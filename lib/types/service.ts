@@ -1,6 +1,8 @@
 // Service Type - What the studio offers (PT sessions, group training, etc.)
 // This is SEPARATE from Workout Templates (which are exercise programs)
 
+import type { IntakeQuestionInput } from '@/lib/types/intake';
+
 export type ServiceType = '1-2-1' | 'duet' | 'group';
 
 export type ServiceDuration = 30 | 45 | 60 | 75 | 90; // Common durations in minutes
@@ -16,6 +18,12 @@ export interface Service {
   color: string; // For visual identification
   isActive: boolean;
   requiresApproval?: boolean; // When true, clients must submit a booking request (hybrid model)
+  bufferBeforeMinutes?: number; // Kept free before each session
+  bufferAfterMinutes?: number; // Kept free after each session
+  locationId?: string | null; // Location the service is offered at (null = any)
+  resourceIds?: string[]; // Rooms/equipment each booking needs
+  trainerIds?: string[]; // Trainers qualified to deliver it (empty = any)
+  intakeQuestions?: IntakeQuestionInput[]; // Asked when a client books it
   createdBy: string; // Studio owner ID
   assignedStudios: string[]; // Which studios offer this service
   createdAt: string;
@@ -0,0 +1,30 @@
+// Bookable slot types — computed server-side by slot-service
+
+export interface BookableSlot {
+  trainerId: string;
+  trainerName: string;
+  startsAt: string; // ISO string
+  endsAt: string; // ISO string
+  /** Places left in the slot (1 for 1-2-1 services, more for a group class with room) */
+  spotsLeft: number;
+  /** Location the session would take place at; null when the studio has no locations */
+  locationId: string | null;
+}
+
+export interface BookableSlotsResult {
+  serviceId: string;
+  duration: number;
+  /** IANA zone the date range was read in and slots should be labelled in */
+  timezone: string;
+  slots: BookableSlot[];
+}
+
+export interface BookableSlotsQuery {
+  serviceId: string;
+  /** Omit (or 'any') to include every trainer the caller may book with */
+  trainerId?: string | null;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  /** Ignore this booking when looking for conflicts (rescheduling it) */
+  excludeBookingId?: string | null;
+}
@@ -0,0 +1,18 @@
+// Soft-hold processor types
+
+/** Summary of releasing the soft-holds that have reached hold_expiry */
+export interface SoftHoldReleaseResult {
+  released: number;
+  /** Freed places offered to the next client on the waitlist */
+  offered: number;
+  /** Open Stripe checkouts cancelled with their hold */
+  checkoutsExpired: number;
+  /** Holds left for the webhook to confirm because their checkout was paid */
+  paid: number;
+}
+
+/** Summary returned by the soft-hold processor cron run */
+export interface SoftHoldProcessResult extends SoftHoldReleaseResult {
+  /** "Expires in N minutes" reminders sent */
+  reminded: number;
+}
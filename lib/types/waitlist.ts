@@ -0,0 +1,37 @@
+// Waitlist types
+
+export type WaitlistStatus =
+  | 'waiting'
+  | 'offered'
+  | 'accepted'
+  | 'declined'
+  | 'expired'
+  | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  studio_id: string;
+  trainer_id: string;
+  service_id: string | null;
+  client_id: string;
+  scheduled_at: string;
+  duration: number;
+  status: WaitlistStatus;
+  offered_booking_id: string | null;
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Client-facing view of a waitlist entry */
+export interface ClientWaitlistEntry {
+  id: string;
+  scheduledAt: string;
+  duration: number;
+  status: WaitlistStatus;
+  serviceName: string;
+  trainerName: string;
+  position: number | null;
+  offerExpiresAt: string | null;
+}
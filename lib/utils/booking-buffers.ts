@@ -0,0 +1,99 @@
+/**
+ * Buffer and travel time between bookings — pure helpers shared by the
+ * server-side conflict check and the client-side slot pickers.
+ *
+ * Each booking keeps its service's before/after buffer free. Between two
+ * consecutive bookings the required gap is the largest of the earlier
+ * booking's after-buffer, the later booking's before-buffer and the studio's
+ * minimum gap (cancellation_policy.buffer_minutes), plus the trainer's travel
+ * time when the two bookings are at different locations.
+ */
+
+/** Buffers are capped so conflict queries can use a bounded look-around window. */
+export const MAX_BUFFER_MINUTES = 120;
+
+export interface BufferMinutes {
+  before: number;
+  after: number;
+}
+
+export interface BufferedBooking {
+  start: Date;
+  end: Date;
+  buffers: BufferMinutes;
+  /** Studio/location the booking takes place at; null when unknown */
+  locationId?: string | null;
+}
+
+export interface BufferRules {
+  /** Studio-wide minimum gap between sessions */
+  minGapMinutes: number;
+  /** Added when consecutive bookings are at different locations */
+  travelMinutes: number;
+}
+
+export const NO_BUFFERS: BufferMinutes = { before: 0, after: 0 };
+
+function clampMinutes(value: number | null | undefined): number {
+  return Math.min(MAX_BUFFER_MINUTES, Math.max(0, Math.round(value || 0)));
+}
+
+/** Buffers of a ta_services row (booking_buffer_minutes is the after-buffer). */
+export function getServiceBuffers(
+  service: { booking_buffer_minutes?: number | null; booking_buffer_before_minutes?: number | null } | null | undefined
+): BufferMinutes {
+  if (!service) return NO_BUFFERS;
+  return {
+    before: clampMinutes(service.booking_buffer_before_minutes),
+    after: clampMinutes(service.booking_buffer_minutes),
+  };
+}
+
+/** Minutes that must separate `earlier` ending from `later` starting. */
+export function getRequiredGap(
+  earlier: BufferedBooking,
+  later: BufferedBooking,
+  rules: BufferRules
+): number {
+  const gap = Math.max(earlier.buffers.after, later.buffers.before, clampMinutes(rules.minGapMinutes));
+  const changesLocation =
+    !!earlier.locationId && !!later.locationId && earlier.locationId !== later.locationId;
+  return gap + (changesLocation ? clampMinutes(rules.travelMinutes) : 0);
+}
+
+/** Whether a candidate booking overlaps an existing one or eats into the gap around it. */
+export function violatesBuffers(
+  candidate: BufferedBooking,
+  existing: BufferedBooking,
+  rules: BufferRules
+): boolean {
+  if (candidate.start < existing.end && candidate.end > existing.start) return true;
+
+  if (existing.end <= candidate.start) {
+    const gapMinutes = (candidate.start.getTime() - existing.end.getTime()) / 60000;
+    return gapMinutes < getRequiredGap(existing, candidate, rules);
+  }
+
+  const gapMinutes = (existing.start.getTime() - candidate.end.getTime()) / 60000;
+  return gapMinutes < getRequiredGap(candidate, existing, rules);
+}
+
+/**
+ * The window an existing booking blocks for a candidate with the given
+ * buffers and location: any candidate that starts before `blockedUntil` and
+ * ends after `blockedFrom` conflicts. Lets slot pickers test plain overlap.
+ */
+export function getBlockedWindow(
+  existing: BufferedBooking,
+  candidate: { buffers: BufferMinutes; locationId?: string | null },
+  rules: BufferRules
+): { blockedFrom: Date; blockedUntil: Date } {
+  const probe = { ...candidate, start: existing.end, end: existing.end };
+  const gapBefore = getRequiredGap(probe, existing, rules);
+  const gapAfter = getRequiredGap(existing, probe, rules);
+
+  return {
+    blockedFrom: new Date(existing.start.getTime() - gapBefore * 60000),
+    blockedUntil: new Date(existing.end.getTime() + gapAfter * 60000),
+  };
+}
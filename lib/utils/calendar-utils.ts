@@ -1,6 +1,7 @@
 // Utility functions for calendar operations
 
 import { CalendarSession, ServiceType, TimeSlot } from '../types/calendar';
+import { BufferMinutes, NO_BUFFERS, violatesBuffers } from './booking-buffers';
 
 /**
  * Generate 15-minute time slots for a given date
@@ -29,25 +30,32 @@ export function generateTimeSlots(date: Date): TimeSlot[] {
 }
 
 /**
- * Check if a time slot is available (no conflicts with existing sessions)
+ * Check if a time slot is available (no conflicts with existing sessions,
+ * or with the buffer time kept free around them and around the new session)
  */
 export function isTimeAvailable(
   datetime: Date,
   durationMinutes: number,
   sessions: CalendarSession[],
-  excludeSessionId?: string
+  excludeSessionId?: string,
+  buffers: BufferMinutes = NO_BUFFERS
 ): boolean {
-  const proposedEnd = new Date(datetime.getTime() + durationMinutes * 60000);
+  const proposed = {
+    start: datetime,
+    end: new Date(datetime.getTime() + durationMinutes * 60000),
+    buffers,
+  };
 
   return !sessions.some((session) => {
     if (excludeSessionId && session.id === excludeSessionId) return false;
 
-    const sessionEnd = new Date(
-      session.datetime.getTime() + getSessionDuration(session) * 60000
-    );
+    const existing = {
+      start: session.datetime,
+      end: new Date(session.datetime.getTime() + getSessionDuration(session) * 60000),
+      buffers: { before: session.bufferBefore || 0, after: session.bufferAfter || 0 },
+    };
 
-    // Check for overlap
-    return datetime < sessionEnd && proposedEnd > session.datetime;
+    return violatesBuffers(proposed, existing, { minGapMinutes: 0, travelMinutes: 0 });
   });
 }
 
@@ -0,0 +1,262 @@
+/**
+ * iCalendar (RFC 5545) helpers — a builder shared by the subscription feeds,
+ * the .ics attachments on booking emails and calendar sync, plus a minimal
+ * parser for reading busy time back from external calendars.
+ *
+ * Every booking maps to one VEVENT whose UID is derived from the booking id,
+ * so a calendar that already holds the event updates it in place. Calendars
+ * only accept an update when its SEQUENCE is higher than the copy they hold,
+ * which is why reschedules and cancellations carry ta_bookings.ics_sequence.
+ */
+
+import { resolveTimezone, zonedTimeToUtc } from '@/lib/utils/timezone';
+
+export type IcsEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: IcsEventStatus;
+  sequence: number;
+  /** Last change to the event, when known */
+  updatedAt?: Date;
+}
+
+export interface IcsCalendar {
+  /** Shown by calendar apps as the subscription name */
+  name?: string;
+  events: IcsEvent[];
+}
+
+/** An event read from an external calendar; only what busy-time import needs */
+export interface ParsedIcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  status: string | null;
+  /** TRANSP:TRANSPARENT events don't make the calendar owner busy */
+  transparent: boolean;
+  allDay: boolean;
+}
+
+const PRODUCT_ID = '-//AllWondrous//Bookings//EN';
+const MAX_LINE_LENGTH = 75;
+
+/** Stable event UID for a booking, identical across feeds and emails */
+export function getBookingEventUid(bookingId: string): string {
+  return `booking-${bookingId}@allwondrous`;
+}
+
+/** Map a ta_bookings status onto the iCalendar event status */
+export function getBookingEventStatus(bookingStatus: string): IcsEventStatus {
+  if (bookingStatus === 'cancelled') return 'CANCELLED';
+  if (bookingStatus === 'soft-hold') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+/** UTC date-time in basic format, e.g. 20260315T090000Z */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11) */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1). Continuation lines start
+ * with a single space, which counts towards their length.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_LENGTH) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildEventLines(event: IcsEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/** Serialise a calendar; lines are CRLF-terminated as the spec requires */
+export function buildIcsCalendar(calendar: IcsCalendar): string {
+  const stamp = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    // PUBLISH lets clients add the event without an organiser/attendee exchange
+    'METHOD:PUBLISH',
+  ];
+  if (calendar.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(calendar.name)}`);
+  }
+  for (const event of calendar.events) {
+    lines.push(...buildEventLines(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** True for UIDs this app issued, so pushed bookings aren't re-imported as busy time */
+export function isBookingEventUid(uid: string): boolean {
+  return /^booking-.+@allwondrous$/.test(uid);
+}
+
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+function parseIcsDate(
+  value: string,
+  params: Record<string, string>,
+  fallbackTimezone: string
+): { date: Date; allDay: boolean } | null {
+  const match = DATE_VALUE_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall = { year: Number(year), month: Number(month), day: Number(day) };
+
+  if (hour === undefined) {
+    return { date: zonedTimeToUtc(wall, fallbackTimezone), allDay: true };
+  }
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(wall.year, wall.month - 1, wall.day, Number(hour), Number(minute), Number(second))),
+      allDay: false,
+    };
+  }
+  // Floating times and unknown TZIDs (e.g. Windows zone names) use the owner's zone
+  const timezone = resolveTimezone(params.TZID, fallbackTimezone);
+  return { date: zonedTimeToUtc({ ...wall, hour: Number(hour), minute: Number(minute) }, timezone), allDay: false };
+}
+
+function parseIcsDurationMs(value: string): number | null {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks || 0) * 7 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+}
+
+/** Split "NAME;PARAM=VALUE:content" into its parts */
+function parseContentLine(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  const colon = line.indexOf(':');
+  if (colon === -1) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, paramValue] = part.split('=');
+    if (key && paramValue !== undefined) params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Read the VEVENTs of an iCalendar document. Recurring events are returned
+ * as their first instance only; ask the server to expand them where the
+ * protocol allows (CalDAV does). Date-only and floating times are read in
+ * `fallbackTimezone`.
+ */
+export function parseIcsEvents(ics: string, fallbackTimezone: string): ParsedIcsEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+
+  let current: Record<string, { params: Record<string, string>; value: string }> | null = null;
+  // Nested components (VALARM) carry their own properties, which must be ignored
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = {};
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) continue;
+    if (upper === 'END:VEVENT') {
+      const start = current.DTSTART && parseIcsDate(current.DTSTART.value, current.DTSTART.params, fallbackTimezone);
+      if (start) {
+        let end = current.DTEND
+          ? parseIcsDate(current.DTEND.value, current.DTEND.params, fallbackTimezone)?.date
+          : undefined;
+        if (!end && current.DURATION) {
+          const durationMs = parseIcsDurationMs(current.DURATION.value);
+          if (durationMs !== null) end = new Date(start.date.getTime() + durationMs);
+        }
+        if (!end) {
+          end = start.allDay ? new Date(start.date.getTime() + 24 * 60 * 60 * 1000) : start.date;
+        }
+        events.push({
+          uid: current.UID?.value || '',
+          start: start.date,
+          end,
+          status: current.STATUS?.value.toUpperCase() || null,
+          transparent: current.TRANSP?.value.toUpperCase() === 'TRANSPARENT',
+          allDay: start.allDay,
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (upper.startsWith('BEGIN:')) {
+      nestedDepth++;
+      continue;
+    }
+    if (upper.startsWith('END:')) {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    const property = parseContentLine(line);
+    if (property && !current[property.name]) {
+      current[property.name] = { params: property.params, value: property.value };
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,12 @@
+/**
+ * Soft-hold helpers shared by the booking read paths
+ */
+
+/**
+ * PostgREST `or` filter that drops soft-holds past hold_expiry. Releasing
+ * them, with the checkout, email and waitlist side effects, is left to the
+ * soft-hold processor; reads just stop counting them.
+ */
+export function unexpiredHoldFilter(now = new Date()): string {
+  return `status.neq.soft-hold,hold_expiry.is.null,hold_expiry.gt."${now.toISOString()}"`;
+}
@@ -0,0 +1,168 @@
+/**
+ * Timezone helpers built on Intl — no external tz database needed.
+ *
+ * Studios and trainers store an IANA zone (e.g. "Europe/London"). Opening hours,
+ * ta_availability hour/minute fields and notification copy are wall-clock times
+ * in that zone, so they must never be read with Date.getHours() on the server
+ * (which runs in UTC).
+ */
+
+import { format } from 'date-fns';
+
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = Sunday .. 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** First valid IANA zone from the candidates (e.g. trainer, then studio), else the default. */
+export function resolveTimezone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find(isValidTimezone) || DEFAULT_TIMEZONE;
+}
+
+/** Wall-clock fields of an instant in the given zone. */
+export function getZonedParts(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): ZonedParts {
+  const parts = getFormatter(resolveTimezone(timeZone)).formatToParts(new Date(date));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '0';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/** Offset of the zone from UTC at the given instant, in minutes (BST = +60). */
+export function getTimezoneOffsetMinutes(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): number {
+  const instant = new Date(date);
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in the zone to a UTC instant.
+ *
+ * DST: a time skipped by spring-forward (e.g. 01:30 on the last Sunday of March
+ * in London) is moved forward by the gap; a time repeated by fall-back resolves
+ * to its first occurrence.
+ */
+export function zonedTimeToUtc(
+  wall: { year: number; month: number; day: number; hour?: number; minute?: number },
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  const hour = wall.hour ?? 0;
+  const minute = wall.minute ?? 0;
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, hour, minute);
+  const day = 24 * 60 * 60 * 1000;
+
+  const offsetBefore = getTimezoneOffsetMinutes(new Date(naive - day), timeZone);
+  const offsetAfter = getTimezoneOffsetMinutes(new Date(naive + day), timeZone);
+
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map((offset) => new Date(naive - offset * 60000))
+    .filter((candidate) => {
+      const p = getZonedParts(candidate, timeZone);
+      return p.year === wall.year && p.month === wall.month && p.day === wall.day && p.hour === hour && p.minute === minute;
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  // Wall time falls in a spring-forward gap
+  return new Date(naive - offsetBefore * 60000);
+}
+
+/** "YYYY-MM-DD" of the instant's calendar day in the zone. */
+export function getZonedDateKey(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/** Parse a "YYYY-MM-DD" key into its numeric parts. */
+export function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+}
+
+/** Day of week (0 = Sunday) of a "YYYY-MM-DD" calendar date, independent of any zone. */
+export function getDateKeyDayOfWeek(dateKey: string): number {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Shift a "YYYY-MM-DD" calendar date by whole days. */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/** UTC instant of local midnight for the zoned calendar day containing `date`. */
+export function startOfZonedDay(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): Date {
+  return zonedTimeToUtc(parseDateKey(getZonedDateKey(date, timeZone)), timeZone);
+}
+
+/** UTC instant of local midnight on the Monday of the zoned week containing `date`. */
+export function startOfZonedWeek(date: Date | string, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const dateKey = getZonedDateKey(date, timeZone);
+  const daysSinceMonday = (getDateKeyDayOfWeek(dateKey) + 6) % 7;
+  return zonedTimeToUtc(parseDateKey(addDaysToDateKey(dateKey, -daysSinceMonday)), timeZone);
+}
+
+/**
+ * Format an instant as wall-clock time in the zone using a date-fns pattern.
+ * Patterns must not include zone tokens (the shifted Date carries the runtime's zone).
+ */
+export function formatInTimeZone(
+  date: Date | string,
+  timeZone: string | null | undefined,
+  pattern: string
+): string {
+  const p = getZonedParts(date, resolveTimezone(timeZone));
+  return format(new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second), pattern);
+}
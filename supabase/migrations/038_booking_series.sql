@@ -0,0 +1,58 @@
+-- Recurring booking series (weekly / fortnightly sessions at the same slot)
+-- Occurrences are materialised as ordinary ta_bookings rows linked by series_id,
+-- so every occurrence can be cancelled, rescheduled or skipped on its own.
+
+CREATE TABLE IF NOT EXISTS ta_booking_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  studio_id UUID NOT NULL,
+  trainer_id UUID NOT NULL,
+  client_id UUID REFERENCES fc_clients(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES ta_services(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'fortnightly')),
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  end_date DATE,
+  occurrence_count INTEGER,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended', 'cancelled')),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_trainer ON ta_booking_series(trainer_id);
+CREATE INDEX IF NOT EXISTS idx_booking_series_client ON ta_booking_series(client_id);
+
+ALTER TABLE ta_bookings ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES ta_booking_series(id) ON DELETE SET NULL;
+ALTER TABLE ta_bookings ADD COLUMN IF NOT EXISTS series_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series ON ta_bookings(series_id, series_index) WHERE series_id IS NOT NULL;
+
+-- Occurrences that have no live booking: skipped by the trainer, or never
+-- created because they failed conflict / opening-hours validation.
+CREATE TABLE IF NOT EXISTS ta_booking_series_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES ta_booking_series(id) ON DELETE CASCADE,
+  series_index INTEGER NOT NULL,
+  occurrence_at TIMESTAMPTZ NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('skipped', 'failed')),
+  booking_id UUID REFERENCES ta_bookings(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (series_id, series_index)
+);
+
+-- RLS
+ALTER TABLE ta_booking_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ta_booking_series_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_booking_series"
+  ON ta_booking_series FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access on ta_booking_series_exceptions"
+  ON ta_booking_series_exceptions FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,41 @@
+-- Waitlist for full slots and group classes
+-- Clients join when a slot is taken; when a place frees up (cancellation or an
+-- expired soft-hold) the next waiting client is offered a time-limited soft-hold.
+
+CREATE TABLE IF NOT EXISTS ta_waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  studio_id UUID NOT NULL,
+  trainer_id UUID NOT NULL,
+  service_id UUID REFERENCES ta_services(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES fc_clients(id) ON DELETE CASCADE,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'accepted', 'declined', 'expired', 'cancelled')),
+  offered_booking_id UUID REFERENCES ta_bookings(id) ON DELETE SET NULL,
+  offered_at TIMESTAMPTZ,
+  offer_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Queue order per slot
+CREATE INDEX IF NOT EXISTS idx_waitlist_slot ON ta_waitlist_entries(trainer_id, scheduled_at, created_at)
+  WHERE status IN ('waiting', 'offered');
+CREATE INDEX IF NOT EXISTS idx_waitlist_client ON ta_waitlist_entries(client_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offered_booking ON ta_waitlist_entries(offered_booking_id)
+  WHERE offered_booking_id IS NOT NULL;
+
+-- A client can only hold one live place in a given slot's queue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_unique_live
+  ON ta_waitlist_entries(trainer_id, scheduled_at, client_id)
+  WHERE status IN ('waiting', 'offered');
+
+-- RLS
+ALTER TABLE ta_waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_waitlist_entries"
+  ON ta_waitlist_entries FOR ALL
+  USING (true)
+  WITH CHECK (true);
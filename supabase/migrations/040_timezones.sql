@@ -0,0 +1,10 @@
+-- IANA timezone for studios and trainers
+-- Opening hours, availability windows, analytics day/week boundaries and
+-- notification copy are all wall-clock times in this zone. A trainer's zone
+-- overrides the studio's when set (e.g. a remote trainer).
+
+ALTER TABLE bs_studios
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Europe/London';
+
+ALTER TABLE bs_staff
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
@@ -0,0 +1,38 @@
+-- Automated no-show enforcement
+-- Confirmed bookings that pass scheduled_at + duration + grace_period_minutes
+-- without a check-in are marked no-show. The credit charge from
+-- cancellation_policy.no_show_action is recorded here as 'pending' and only
+-- settled against the credit ledger once the trainer's undo window has passed.
+
+CREATE TABLE IF NOT EXISTS ta_no_show_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES ta_bookings(id) ON DELETE CASCADE,
+  studio_id UUID,
+  trainer_id UUID NOT NULL,
+  client_id UUID REFERENCES fc_clients(id) ON DELETE SET NULL,
+  no_show_action TEXT NOT NULL
+    CHECK (no_show_action IN ('charge_full', 'charge_partial', 'no_charge')),
+  credits_to_charge INTEGER NOT NULL DEFAULT 0,
+  credits_charged INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'charged', 'undone')),
+  undo_until TIMESTAMPTZ NOT NULL,
+  finalised_at TIMESTAMPTZ,
+  undone_at TIMESTAMPTZ,
+  undone_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One charge per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_no_show_charges_booking ON ta_no_show_charges(booking_id);
+CREATE INDEX IF NOT EXISTS idx_no_show_charges_pending ON ta_no_show_charges(undo_until)
+  WHERE status = 'pending';
+
+-- RLS
+ALTER TABLE ta_no_show_charges ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_no_show_charges"
+  ON ta_no_show_charges FOR ALL
+  USING (true)
+  WITH CHECK (true);
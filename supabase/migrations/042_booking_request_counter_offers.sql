@@ -0,0 +1,14 @@
+-- "Suggest alternative" for booking requests
+-- A trainer who can't make any of the client's preferred times sends back up to
+-- three alternatives; the request moves to 'countered' until the client picks one.
+
+ALTER TABLE ta_booking_requests ADD COLUMN IF NOT EXISTS suggested_times TIMESTAMPTZ[];
+ALTER TABLE ta_booking_requests ADD COLUMN IF NOT EXISTS countered_at TIMESTAMPTZ;
+
+ALTER TABLE ta_booking_requests DROP CONSTRAINT IF EXISTS ta_booking_requests_status_check;
+ALTER TABLE ta_booking_requests ADD CONSTRAINT ta_booking_requests_status_check
+  CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'countered'));
+
+CREATE INDEX IF NOT EXISTS idx_booking_requests_client_countered
+  ON ta_booking_requests(client_id)
+  WHERE status = 'countered';
@@ -0,0 +1,10 @@
+-- Buffer and travel time between bookings
+-- booking_buffer_minutes (already on ta_services) is the gap kept free after a
+-- session; booking_buffer_before_minutes is the gap kept free before it.
+-- travel_buffer_minutes is added on top when a trainer's consecutive bookings
+-- are at different locations.
+
+ALTER TABLE ta_services ADD COLUMN IF NOT EXISTS booking_buffer_minutes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ta_services ADD COLUMN IF NOT EXISTS booking_buffer_before_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE bs_staff ADD COLUMN IF NOT EXISTS travel_buffer_minutes INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,36 @@
+-- Studio locations
+-- A studio can run from several sites, each with its own opening hours and
+-- rooms. Services, availability blocks and bookings can be tied to a location;
+-- a NULL location_id means "any location" (or the studio itself for bookings).
+
+CREATE TABLE IF NOT EXISTS bs_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  studio_id UUID NOT NULL REFERENCES bs_studios(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  address TEXT,
+  -- Same shape as bs_studios.opening_hours; empty falls back to the studio's hours
+  opening_hours JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rooms TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_locations_studio ON bs_locations(studio_id) WHERE is_active;
+
+ALTER TABLE ta_services ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES bs_locations(id) ON DELETE SET NULL;
+ALTER TABLE ta_availability ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES bs_locations(id) ON DELETE SET NULL;
+ALTER TABLE ta_bookings ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES bs_locations(id) ON DELETE SET NULL;
+ALTER TABLE ta_booking_requests ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES bs_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_location ON ta_bookings(location_id, scheduled_at)
+  WHERE location_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE bs_locations ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on bs_locations"
+  ON bs_locations FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,45 @@
+-- Bookable resources (rooms and equipment)
+-- A service can require resources; a booking of that service uses them for
+-- its duration. Bookings by different trainers conflict when a required
+-- resource has no free unit left. conflict_mode 'warn' lets the booking
+-- through and flags it instead of rejecting it.
+
+CREATE TABLE IF NOT EXISTS bs_resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  studio_id UUID NOT NULL REFERENCES bs_studios(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES bs_locations(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'room' CHECK (kind IN ('room', 'equipment')),
+  -- Number of identical units, e.g. 2 squat racks
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1),
+  conflict_mode TEXT NOT NULL DEFAULT 'block' CHECK (conflict_mode IN ('block', 'warn')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resources_studio ON bs_resources(studio_id) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS ta_service_resources (
+  service_id UUID NOT NULL REFERENCES ta_services(id) ON DELETE CASCADE,
+  resource_id UUID NOT NULL REFERENCES bs_resources(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (service_id, resource_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_resources_resource ON ta_service_resources(resource_id);
+
+-- RLS
+ALTER TABLE bs_resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ta_service_resources ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on bs_resources"
+  ON bs_resources FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access on ta_service_resources"
+  ON ta_service_resources FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,51 @@
+-- iCalendar subscription feeds
+-- Each trainer, studio and client can have one active private feed URL,
+-- identified by an unguessable token. Rotating a feed revokes the old token.
+-- ta_bookings.ics_sequence is the iCalendar SEQUENCE of the booking's event:
+-- it increases whenever the time moves or the booking is cancelled so that
+-- subscribed calendars replace the old copy instead of keeping both.
+
+CREATE TABLE IF NOT EXISTS ta_calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_type TEXT NOT NULL CHECK (owner_type IN ('trainer', 'studio', 'client')),
+  -- profiles.id for trainers, bs_studios.id for studios, auth user id for clients
+  owner_id UUID NOT NULL,
+  -- Client bookings are matched on email across every studio they belong to
+  owner_email TEXT,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_active_owner
+  ON ta_calendar_feeds(owner_type, owner_id) WHERE revoked_at IS NULL;
+
+ALTER TABLE ta_bookings ADD COLUMN IF NOT EXISTS ics_sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION bump_booking_ics_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at
+    OR NEW.duration IS DISTINCT FROM OLD.duration
+    OR (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled') THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_bookings_ics_sequence ON ta_bookings;
+CREATE TRIGGER trg_bookings_ics_sequence
+  BEFORE UPDATE ON ta_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_booking_ics_sequence();
+
+-- RLS
+ALTER TABLE ta_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Service role only: feed tokens are credentials, so no other role may read them
+CREATE POLICY "Service role full access on ta_calendar_feeds"
+  ON ta_calendar_feeds FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,67 @@
+-- Two-way external calendar sync
+-- A trainer connects an external calendar (CalDAV to start with). Bookings
+-- are pushed to it as events, and its busy time is pulled back in as
+-- one-off 'blocked' ta_availability rows so clients can't book over
+-- personal appointments.
+
+CREATE TABLE IF NOT EXISTS ta_calendar_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trainer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Studio the imported availability blocks are filed under
+  studio_id UUID NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('caldav')),
+  display_name TEXT NOT NULL,
+  calendar_url TEXT NOT NULL,
+  username TEXT NOT NULL,
+  -- Only ever read with the service role; never returned by the API
+  password TEXT NOT NULL,
+  push_enabled BOOLEAN NOT NULL DEFAULT true,
+  pull_enabled BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_synced_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_connections_trainer ON ta_calendar_connections(trainer_id) WHERE is_active;
+
+-- Bookings pushed to each connection and the version last sent
+CREATE TABLE IF NOT EXISTS ta_calendar_sync_events (
+  connection_id UUID NOT NULL REFERENCES ta_calendar_connections(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES ta_bookings(id) ON DELETE CASCADE,
+  external_id TEXT NOT NULL,
+  etag TEXT,
+  synced_sequence INTEGER NOT NULL DEFAULT 0,
+  synced_status TEXT NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (connection_id, booking_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_events_booking ON ta_calendar_sync_events(booking_id);
+
+-- Imported busy time is owned by its connection and replaced on every pull
+ALTER TABLE ta_availability ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual'
+  CHECK (source IN ('manual', 'calendar_sync'));
+ALTER TABLE ta_availability ADD COLUMN IF NOT EXISTS calendar_connection_id UUID
+  REFERENCES ta_calendar_connections(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_availability_calendar_connection
+  ON ta_availability(calendar_connection_id) WHERE calendar_connection_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE ta_calendar_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ta_calendar_sync_events ENABLE ROW LEVEL SECURITY;
+
+-- Service role only: connections hold calendar passwords
+CREATE POLICY "Service role full access on ta_calendar_connections"
+  ON ta_calendar_connections FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access on ta_calendar_sync_events"
+  ON ta_calendar_sync_events FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
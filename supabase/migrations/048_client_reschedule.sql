@@ -0,0 +1,7 @@
+-- Client self-service rescheduling
+-- A client can move their own booking to another free slot instead of
+-- cancelling and re-booking. reschedule_count is checked against
+-- cancellation_policy.max_reschedules and only increases when the client
+-- moves the booking; trainer reschedules don't count towards the limit.
+
+ALTER TABLE ta_bookings ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
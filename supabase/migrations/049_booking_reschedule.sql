@@ -0,0 +1,92 @@
+-- Server-side booking reschedule
+-- reschedule_booking() moves a booking, swaps its pending reminders for ones
+-- at the new time and records the move in ta_booking_events in a single
+-- transaction, so a failed move never leaves reminders or history behind.
+-- Availability and conflicts are checked by the caller beforehand; the
+-- expected current time guards against two people moving the same booking.
+
+CREATE TABLE IF NOT EXISTS ta_booking_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES ta_bookings(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('trainer', 'client', 'webhook', 'job')),
+  -- profiles.id for staff, auth user id for clients; null for jobs and webhooks
+  actor_id UUID,
+  old_scheduled_at TIMESTAMPTZ,
+  new_scheduled_at TIMESTAMPTZ,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking ON ta_booking_events(booking_id, created_at);
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id UUID,
+  p_expected_scheduled_at TIMESTAMPTZ,
+  p_new_scheduled_at TIMESTAMPTZ,
+  p_source TEXT,
+  p_actor_id UUID,
+  -- Client moves count towards this limit; NULL means no limit
+  p_max_reschedules INTEGER,
+  -- [{ type, recipient_email, client_id, scheduled_for, template_data }]
+  p_email_reminders JSONB,
+  -- [{ phone_number, message, send_at }]
+  p_sms_messages JSONB
+)
+RETURNS SETOF ta_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking ta_bookings;
+BEGIN
+  UPDATE ta_bookings
+  SET scheduled_at = p_new_scheduled_at,
+      reschedule_count = reschedule_count + CASE WHEN p_source = 'client' THEN 1 ELSE 0 END
+  WHERE id = p_booking_id
+    AND scheduled_at = p_expected_scheduled_at
+    AND status IN ('confirmed', 'soft-hold')
+    AND (p_max_reschedules IS NULL OR reschedule_count < p_max_reschedules)
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking was changed before it could be rescheduled' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Reminders for the old time
+  UPDATE ta_notifications
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status = 'pending'
+    AND type IN ('reminder_24h', 'reminder_2h');
+
+  UPDATE sms_queue
+  SET status = 'cancelled', updated_at = now()
+  WHERE booking_id = p_booking_id
+    AND status = 'pending'
+    AND send_at > now();
+
+  INSERT INTO ta_notifications (type, channel, recipient_email, booking_id, client_id, status, scheduled_for, template_data)
+  SELECT r.type, 'email', r.recipient_email, p_booking_id, r.client_id, 'pending', r.scheduled_for, COALESCE(r.template_data, '{}'::jsonb)
+  FROM jsonb_to_recordset(COALESCE(p_email_reminders, '[]'::jsonb))
+    AS r(type TEXT, recipient_email TEXT, client_id UUID, scheduled_for TIMESTAMPTZ, template_data JSONB);
+
+  INSERT INTO sms_queue (phone_number, message, type, booking_id, send_at)
+  SELECT s.phone_number, s.message, 'transactional', p_booking_id, COALESCE(s.send_at, now())
+  FROM jsonb_to_recordset(COALESCE(p_sms_messages, '[]'::jsonb))
+    AS s(phone_number TEXT, message TEXT, send_at TIMESTAMPTZ);
+
+  INSERT INTO ta_booking_events (booking_id, event_type, source, actor_id, old_scheduled_at, new_scheduled_at)
+  VALUES (p_booking_id, 'rescheduled', p_source, p_actor_id, p_expected_scheduled_at, p_new_scheduled_at);
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+-- RLS
+ALTER TABLE ta_booking_events ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_booking_events"
+  ON ta_booking_events FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,13 @@
+-- Booking reminder lifecycle
+-- Reminder SMS rows are tagged with the reminder type and the booking time
+-- their text was written for, so they can be cancelled when the booking is
+-- cancelled or moved, and skipped at send time if the booking changed
+-- anyway. sms_queue.status gains 'cancelled' alongside pending | sent | failed,
+-- as ta_notifications.status already has for email reminders.
+-- reschedule_booking() uses the tags from 065_reschedule_booking_limit.sql.
+
+ALTER TABLE sms_queue ADD COLUMN IF NOT EXISTS notification_type TEXT; -- reminder_24h | reminder_2h
+ALTER TABLE sms_queue ADD COLUMN IF NOT EXISTS booking_scheduled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sms_queue_booking_pending ON sms_queue(booking_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notifications_booking_pending ON ta_notifications(booking_id) WHERE status = 'pending';
@@ -0,0 +1,84 @@
+-- Trainer leave requests
+-- A trainer asks for whole days off; a studio owner or manager approves or
+-- declines. Approval blocks the days in ta_availability (source 'leave') so
+-- nothing new can be booked, and the bookings already in those days can be
+-- reassigned, offered new times or cancelled with a full credit refund.
+-- Accepting an offered time doesn't count towards the client's reschedule
+-- limit; see reschedule_booking() in 065_reschedule_booking_limit.sql.
+
+CREATE TABLE IF NOT EXISTS ta_leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  studio_id UUID NOT NULL,
+  trainer_id UUID NOT NULL,
+  -- Calendar days in the trainer's timezone, inclusive
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined', 'cancelled')),
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_studio ON ta_leave_requests(studio_id, status);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_trainer ON ta_leave_requests(trainer_id, start_date);
+
+-- The blocked days of approved leave go with the request
+ALTER TABLE ta_availability DROP CONSTRAINT IF EXISTS ta_availability_source_check;
+ALTER TABLE ta_availability ADD CONSTRAINT ta_availability_source_check
+  CHECK (source IN ('manual', 'calendar_sync', 'leave'));
+ALTER TABLE ta_availability ADD COLUMN IF NOT EXISTS leave_request_id UUID
+  REFERENCES ta_leave_requests(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_availability_leave_request
+  ON ta_availability(leave_request_id) WHERE leave_request_id IS NOT NULL;
+
+-- New times offered to a client whose booking falls in a trainer's leave.
+-- The client picks one and the booking moves; nothing is charged again.
+CREATE TABLE IF NOT EXISTS ta_booking_time_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES ta_bookings(id) ON DELETE CASCADE,
+  leave_request_id UUID REFERENCES ta_leave_requests(id) ON DELETE SET NULL,
+  proposed_times TIMESTAMPTZ[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'withdrawn')),
+  accepted_time TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_time_proposals_booking
+  ON ta_booking_time_proposals(booking_id) WHERE status = 'pending';
+
+-- The event summary names the trainer, so a reassigned booking needs a new
+-- SEQUENCE for calendars to pick up the change
+CREATE OR REPLACE FUNCTION bump_booking_ics_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at
+    OR NEW.duration IS DISTINCT FROM OLD.duration
+    OR NEW.trainer_id IS DISTINCT FROM OLD.trainer_id
+    OR (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled') THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS
+ALTER TABLE ta_leave_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ta_booking_time_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_leave_requests"
+  ON ta_leave_requests FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access on ta_booking_time_proposals"
+  ON ta_booking_time_proposals FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,30 @@
+-- Substitute trainers
+-- A service can be limited to the trainers qualified to deliver it; a service
+-- with no rows here can be delivered by any trainer in its studio. Bookings
+-- can be handed to another qualified trainer who is free at the time.
+
+CREATE TABLE IF NOT EXISTS ta_service_trainers (
+  service_id UUID NOT NULL REFERENCES ta_services(id) ON DELETE CASCADE,
+  trainer_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (service_id, trainer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_trainers_trainer ON ta_service_trainers(trainer_id);
+
+-- The session payment goes to the trainer the client booked with, but the
+-- earnings are attributed to whoever delivered the session. Set when the
+-- booking is completed; NULL means the payee delivered it.
+ALTER TABLE ta_payments ADD COLUMN IF NOT EXISTS delivered_by UUID;
+
+CREATE INDEX IF NOT EXISTS idx_payments_delivered_by
+  ON ta_payments(delivered_by) WHERE delivered_by IS NOT NULL;
+
+-- RLS
+ALTER TABLE ta_service_trainers ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_service_trainers"
+  ON ta_service_trainers FOR ALL
+  USING (true)
+  WITH CHECK (true);
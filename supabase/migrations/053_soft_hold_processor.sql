@@ -0,0 +1,9 @@
+-- Soft-hold processor
+-- A scheduled job releases soft-holds at hold_expiry (cancelling any open
+-- Stripe checkout for them and telling the client) and reminds the client
+-- shortly before. hold_reminder_sent_at makes sure the reminder goes once.
+
+ALTER TABLE ta_bookings ADD COLUMN IF NOT EXISTS hold_reminder_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_soft_hold_expiry
+  ON ta_bookings(hold_expiry) WHERE status = 'soft-hold';
@@ -0,0 +1,47 @@
+-- Booking audit trail
+-- ta_booking_events becomes the full history of a booking: every status,
+-- time and trainer change with its credit effect, who made it and from
+-- where. Events are never edited once written.
+
+ALTER TABLE ta_booking_events
+  ADD COLUMN IF NOT EXISTS old_status TEXT,
+  ADD COLUMN IF NOT EXISTS new_status TEXT,
+  ADD COLUMN IF NOT EXISTS old_trainer_id UUID,
+  ADD COLUMN IF NOT EXISTS new_trainer_id UUID,
+  -- Credits returned to (+) or taken from (-) the client
+  ADD COLUMN IF NOT EXISTS credits_delta INTEGER;
+
+-- Trainer changes and cancellations so far kept these in metadata
+UPDATE ta_booking_events
+SET old_trainer_id = (metadata->>'old_trainer_id')::uuid,
+    new_trainer_id = (metadata->>'new_trainer_id')::uuid
+WHERE event_type = 'trainer_changed'
+  AND old_trainer_id IS NULL
+  AND metadata ? 'old_trainer_id';
+
+UPDATE ta_booking_events
+SET new_status = 'cancelled',
+    credits_delta = NULLIF((metadata->>'credits_refunded')::integer, 0)
+WHERE event_type = 'cancelled'
+  AND new_status IS NULL;
+
+UPDATE ta_booking_events
+SET old_status = 'soft-hold',
+    new_status = 'cancelled'
+WHERE event_type = 'hold_expired'
+  AND new_status IS NULL;
+
+-- Append-only: rows go with their booking but are never changed
+CREATE OR REPLACE FUNCTION prevent_booking_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Booking events cannot be changed' USING ERRCODE = 'P0001';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS booking_events_append_only ON ta_booking_events;
+CREATE TRIGGER booking_events_append_only
+  BEFORE UPDATE ON ta_booking_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_booking_event_update();
@@ -0,0 +1,57 @@
+-- Booking intake questions
+-- Studios can ask clients questions per service before their first visit
+-- (goals, injuries, how they heard about us). Answers are kept against the
+-- booking, or the request or waitlist place that becomes one, along with the
+-- question as it was asked.
+
+CREATE TABLE IF NOT EXISTS ta_service_intake_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id UUID NOT NULL REFERENCES ta_services(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'choice', 'yes_no')),
+  -- Choices offered for 'choice' questions
+  options JSONB NOT NULL DEFAULT '[]',
+  required BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_intake_questions_service
+  ON ta_service_intake_questions(service_id, position);
+
+CREATE TABLE IF NOT EXISTS ta_booking_intake_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES ta_bookings(id) ON DELETE CASCADE,
+  booking_request_id UUID REFERENCES ta_booking_requests(id) ON DELETE SET NULL,
+  waitlist_entry_id UUID REFERENCES ta_waitlist_entries(id) ON DELETE SET NULL,
+  question_id UUID REFERENCES ta_service_intake_questions(id) ON DELETE SET NULL,
+  -- The question as the client saw it, kept if it is later edited or removed
+  question_label TEXT NOT NULL,
+  question_type TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_intake_answers_booking
+  ON ta_booking_intake_answers(booking_id) WHERE booking_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_booking_intake_answers_request
+  ON ta_booking_intake_answers(booking_request_id) WHERE booking_request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_booking_intake_answers_waitlist
+  ON ta_booking_intake_answers(waitlist_entry_id) WHERE waitlist_entry_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE ta_service_intake_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ta_booking_intake_answers ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_service_intake_questions"
+  ON ta_service_intake_questions FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access on ta_booking_intake_answers"
+  ON ta_booking_intake_answers FOR ALL
+  USING (true)
+  WITH CHECK (true);
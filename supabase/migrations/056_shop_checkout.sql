@@ -0,0 +1,12 @@
+-- Paid shop purchases
+-- Clients can buy priced credit bundles and paid offers from the shop through
+-- Stripe Checkout. Credits are issued from the checkout.session.completed
+-- webhook into ta_client_packages, one allocation per payment.
+
+-- Offers bought in the shop are issued as a package allocation too
+ALTER TABLE ta_client_packages
+  ADD COLUMN IF NOT EXISTS offer_id UUID REFERENCES referral_signup_links(id) ON DELETE SET NULL;
+
+-- A replayed webhook must never issue the same payment's credits twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_packages_payment
+  ON ta_client_packages(payment_id) WHERE payment_id IS NOT NULL;
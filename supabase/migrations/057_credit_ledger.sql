@@ -0,0 +1,242 @@
+-- Unified credit ledger
+-- ta_credit_usage becomes the ledger for both places credits live: package
+-- allocations (ta_client_packages.sessions_remaining) and simple credits
+-- (fc_clients.credits). Every grant, use, refund, expiry and adjustment is an
+-- entry, and a pool's balance is the sum of its entries. The stored balances
+-- are kept as a cache, changed only together with their entry by the
+-- functions below, and checked against the ledger by the reconciliation report.
+--
+-- credits_used keeps its meaning: positive takes credits, negative adds them.
+-- Entries with a client_package_id belong to that package; entries without
+-- one belong to the client's simple credits.
+
+ALTER TABLE ta_credit_usage
+  ADD COLUMN IF NOT EXISTS client_id UUID,
+  ADD COLUMN IF NOT EXISTS entry_type TEXT
+    CHECK (entry_type IN ('grant', 'use', 'refund', 'expiry', 'adjustment'));
+
+CREATE INDEX IF NOT EXISTS idx_credit_usage_client ON ta_credit_usage(client_id, client_package_id);
+CREATE INDEX IF NOT EXISTS idx_credit_usage_booking ON ta_credit_usage(booking_id);
+
+-- Entry type for the reasons written so far
+CREATE OR REPLACE FUNCTION credit_entry_type(p_reason TEXT, p_credits_used INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_reason IN ('booking', 'no_show') THEN 'use'
+    WHEN p_reason = 'refund' THEN 'refund'
+    WHEN p_reason = 'expiry' THEN 'expiry'
+    WHEN p_reason IN ('manual_addition', 'package_grant', 'purchase', 'offer_claim', 'reward') THEN 'grant'
+    WHEN p_credits_used > 0 THEN 'use'
+    ELSE 'adjustment'
+  END;
+$$;
+
+-- Older writers (deduct_client_credit among them) only set the package or
+-- booking; fill in whose credits they are and what kind of entry it is
+CREATE OR REPLACE FUNCTION fill_credit_ledger_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.client_id IS NULL AND NEW.client_package_id IS NOT NULL THEN
+    SELECT client_id INTO NEW.client_id FROM ta_client_packages WHERE id = NEW.client_package_id;
+  END IF;
+  IF NEW.client_id IS NULL AND NEW.booking_id IS NOT NULL THEN
+    SELECT client_id INTO NEW.client_id FROM ta_bookings WHERE id = NEW.booking_id;
+  END IF;
+  IF NEW.entry_type IS NULL THEN
+    NEW.entry_type := credit_entry_type(NEW.reason, NEW.credits_used);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_ledger_fill ON ta_credit_usage;
+CREATE TRIGGER credit_ledger_fill
+  BEFORE INSERT ON ta_credit_usage
+  FOR EACH ROW EXECUTE FUNCTION fill_credit_ledger_entry();
+
+-- Backfill entries written before this migration
+UPDATE ta_credit_usage u
+SET client_id = p.client_id
+FROM ta_client_packages p
+WHERE u.client_id IS NULL
+  AND u.client_package_id = p.id;
+
+UPDATE ta_credit_usage u
+SET client_id = b.client_id
+FROM ta_bookings b
+WHERE u.client_id IS NULL
+  AND u.booking_id = b.id;
+
+UPDATE ta_credit_usage
+SET entry_type = credit_entry_type(reason, credits_used)
+WHERE entry_type IS NULL;
+
+-- Every package allocation starts with a grant, whichever path created it
+CREATE OR REPLACE FUNCTION record_client_package_grant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_credits INTEGER := COALESCE(NEW.sessions_remaining, NEW.sessions_total - COALESCE(NEW.sessions_used, 0), 0);
+BEGIN
+  IF v_credits > 0 THEN
+    INSERT INTO ta_credit_usage (
+      client_id, client_package_id, credits_used, balance_after, reason, entry_type, notes
+    ) VALUES (
+      NEW.client_id,
+      NEW.id,
+      -v_credits,
+      v_credits,
+      CASE WHEN NEW.payment_id IS NOT NULL THEN 'purchase' ELSE 'package_grant' END,
+      'grant',
+      NEW.notes
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS client_package_grant ON ta_client_packages;
+CREATE TRIGGER client_package_grant
+  AFTER INSERT ON ta_client_packages
+  FOR EACH ROW EXECUTE FUNCTION record_client_package_grant();
+
+-- Change a client's simple credits and write the entry in one statement.
+-- p_credits is the change (+ adds, - takes); the balance never goes negative.
+CREATE OR REPLACE FUNCTION apply_simple_credit_entry(
+  p_client_id UUID,
+  p_credits INTEGER,
+  p_entry_type TEXT,
+  p_reason TEXT,
+  p_booking_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance INTEGER;
+BEGIN
+  UPDATE fc_clients
+  SET credits = COALESCE(credits, 0) + p_credits
+  WHERE id = p_client_id
+    AND COALESCE(credits, 0) + p_credits >= 0
+  RETURNING credits INTO v_balance;
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM fc_clients WHERE id = p_client_id) THEN
+      RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'Client not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO ta_credit_usage (
+    client_id, client_package_id, booking_id, credits_used, balance_after,
+    reason, entry_type, notes, created_by, metadata
+  ) VALUES (
+    p_client_id, NULL, p_booking_id, -p_credits, v_balance,
+    p_reason, p_entry_type, p_notes, p_created_by, p_metadata
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+-- The same for one package allocation
+CREATE OR REPLACE FUNCTION apply_package_credit_entry(
+  p_client_package_id UUID,
+  p_credits INTEGER,
+  p_entry_type TEXT,
+  p_reason TEXT,
+  p_booking_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_client_id UUID;
+  v_balance INTEGER;
+BEGIN
+  UPDATE ta_client_packages
+  SET sessions_remaining = COALESCE(sessions_remaining, 0) + p_credits
+  WHERE id = p_client_package_id
+    AND COALESCE(sessions_remaining, 0) + p_credits >= 0
+  RETURNING client_id, sessions_remaining INTO v_client_id, v_balance;
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM ta_client_packages WHERE id = p_client_package_id) THEN
+      RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'Package not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO ta_credit_usage (
+    client_id, client_package_id, booking_id, credits_used, balance_after,
+    reason, entry_type, notes, created_by, metadata
+  ) VALUES (
+    v_client_id, p_client_package_id, p_booking_id, -p_credits, v_balance,
+    p_reason, p_entry_type, p_notes, p_created_by, p_metadata
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Opening balances: credits granted before the ledger (simple credits set
+-- directly, packages issued without an entry) are brought in as one
+-- adjustment per pool, so every pool starts out matching its ledger
+INSERT INTO ta_credit_usage (client_id, client_package_id, credits_used, balance_after, reason, entry_type, notes)
+SELECT p.client_id,
+       p.id,
+       -(COALESCE(p.sessions_remaining, 0) + COALESCE(l.used, 0)),
+       COALESCE(p.sessions_remaining, 0),
+       'opening_balance',
+       'adjustment',
+       'Balance carried into the credit ledger'
+FROM ta_client_packages p
+LEFT JOIN (
+  SELECT client_package_id, SUM(credits_used) AS used
+  FROM ta_credit_usage
+  WHERE client_package_id IS NOT NULL
+  GROUP BY client_package_id
+) l ON l.client_package_id = p.id
+WHERE COALESCE(p.sessions_remaining, 0) + COALESCE(l.used, 0) <> 0;
+
+INSERT INTO ta_credit_usage (client_id, client_package_id, credits_used, balance_after, reason, entry_type, notes)
+SELECT c.id,
+       NULL,
+       -(COALESCE(c.credits, 0) + COALESCE(l.used, 0)),
+       COALESCE(c.credits, 0),
+       'opening_balance',
+       'adjustment',
+       'Balance carried into the credit ledger'
+FROM fc_clients c
+LEFT JOIN (
+  SELECT client_id, SUM(credits_used) AS used
+  FROM ta_credit_usage
+  WHERE client_package_id IS NULL
+    AND client_id IS NOT NULL
+  GROUP BY client_id
+) l ON l.client_id = c.id
+WHERE COALESCE(c.credits, 0) + COALESCE(l.used, 0) <> 0;
+
+-- Balance of each pool as the ledger has it
+CREATE OR REPLACE VIEW ta_credit_ledger_balances AS
+SELECT client_id,
+       client_package_id,
+       -SUM(credits_used)::INTEGER AS balance,
+       COUNT(*)::INTEGER AS entry_count,
+       MAX(created_at) AS last_entry_at
+FROM ta_credit_usage
+WHERE client_id IS NOT NULL
+GROUP BY client_id, client_package_id;
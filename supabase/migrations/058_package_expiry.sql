@@ -0,0 +1,38 @@
+-- Package expiry
+-- A scheduled job moves active packages past expires_at to 'expired', writing
+-- the unused credits off in the credit ledger, and warns clients 14 and 3 days
+-- before. The *_sent_at columns make sure each warning goes once per expiry
+-- date; extending a package clears them so the new date is warned about too.
+
+ALTER TABLE ta_client_packages
+  ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS expiry_warning_14_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS expiry_warning_3_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_client_packages_active_expiry
+  ON ta_client_packages(expires_at) WHERE status = 'active';
+
+-- Owner extensions of a package's expiry date
+CREATE TABLE IF NOT EXISTS ta_package_expiry_extensions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_package_id UUID NOT NULL REFERENCES ta_client_packages(id) ON DELETE CASCADE,
+  studio_id UUID NOT NULL,
+  extended_by UUID,
+  old_expires_at TIMESTAMPTZ,
+  new_expires_at TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  -- Credits given back when the package had already expired
+  credits_reinstated INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_expiry_extensions_package
+  ON ta_package_expiry_extensions(client_package_id, created_at DESC);
+
+ALTER TABLE ta_package_expiry_extensions ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_package_expiry_extensions"
+  ON ta_package_expiry_extensions FOR ALL
+  USING (true)
+  WITH CHECK (true);
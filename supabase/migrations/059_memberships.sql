@@ -0,0 +1,88 @@
+-- Memberships
+-- Studios sell recurring plans ("£X per month for N sessions") as Stripe
+-- Billing subscriptions paid into their connected account. Every paid
+-- invoice issues a fresh ta_client_packages allocation for the period;
+-- unused credits from the last one roll into it up to the plan's cap. While
+-- a renewal is failing the membership is past_due, self-booking is paused
+-- and the client is sent a dunning email for each failed attempt.
+
+CREATE TABLE IF NOT EXISTS ta_membership_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  studio_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'gbp',
+  billing_interval TEXT NOT NULL DEFAULT 'month' CHECK (billing_interval IN ('week', 'month', 'year')),
+  credits_per_period INTEGER NOT NULL CHECK (credits_per_period > 0),
+  -- Unused credits carried into the next period: 0 none, NULL no limit
+  rollover_cap INTEGER DEFAULT 0 CHECK (rollover_cap IS NULL OR rollover_cap >= 0),
+  stripe_product_id TEXT,
+  stripe_price_id TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_plans_studio ON ta_membership_plans(studio_id, is_active);
+
+CREATE TABLE IF NOT EXISTS ta_client_memberships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES fc_clients(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES ta_membership_plans(id),
+  studio_id UUID NOT NULL,
+  -- Who the payments go to (the studio owner, or the solo trainer)
+  trainer_id UUID NOT NULL,
+  stripe_subscription_id TEXT NOT NULL UNIQUE,
+  stripe_customer_id TEXT,
+  -- Mirrors the Stripe subscription status
+  status TEXT NOT NULL DEFAULT 'incomplete'
+    CHECK (status IN ('incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'unpaid', 'canceled', 'paused')),
+  current_period_start TIMESTAMPTZ,
+  current_period_end TIMESTAMPTZ,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  canceled_at TIMESTAMPTZ,
+  -- The failing renewal, while there is one
+  payment_failed_at TIMESTAMPTZ,
+  latest_invoice_url TEXT,
+  -- Failed attempt the last dunning email was sent for
+  dunning_attempt INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_memberships_client ON ta_client_memberships(client_id, status);
+CREATE INDEX IF NOT EXISTS idx_client_memberships_studio ON ta_client_memberships(studio_id);
+
+-- Each renewal's allocation, issued once per invoice
+ALTER TABLE ta_client_packages
+  ADD COLUMN IF NOT EXISTS membership_id UUID REFERENCES ta_client_memberships(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS stripe_invoice_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_packages_invoice
+  ON ta_client_packages(stripe_invoice_id) WHERE stripe_invoice_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_client_packages_membership
+  ON ta_client_packages(membership_id) WHERE membership_id IS NOT NULL;
+
+ALTER TABLE ta_payments
+  ADD COLUMN IF NOT EXISTS membership_id UUID REFERENCES ta_client_memberships(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS stripe_invoice_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_invoice
+  ON ta_payments(stripe_invoice_id) WHERE stripe_invoice_id IS NOT NULL;
+
+ALTER TABLE ta_membership_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ta_client_memberships ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_membership_plans"
+  ON ta_membership_plans FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access on ta_client_memberships"
+  ON ta_client_memberships FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,37 @@
+-- Refunds
+-- Staff can refund a booking payment or package purchase, in full or in
+-- part, from the dashboard. Each refund is recorded against its ta_payments
+-- row; unused package credits can be clawed back in proportion.
+
+-- Running total of what's been refunded; the payment only becomes
+-- 'refunded' once all of it has
+ALTER TABLE ta_payments
+  ADD COLUMN IF NOT EXISTS refunded_amount_cents INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS ta_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES ta_payments(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES fc_clients(id) ON DELETE SET NULL,
+  stripe_refund_id TEXT UNIQUE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'gbp',
+  reason TEXT,
+  -- Where it was issued: the dashboard, or directly in Stripe
+  source TEXT NOT NULL DEFAULT 'dashboard' CHECK (source IN ('dashboard', 'stripe')),
+  -- The package allocation credits were taken back from, if any
+  client_package_id UUID REFERENCES ta_client_packages(id) ON DELETE SET NULL,
+  credits_clawed_back INTEGER NOT NULL DEFAULT 0,
+  refunded_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment ON ta_refunds(payment_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refunds_client ON ta_refunds(client_id) WHERE client_id IS NOT NULL;
+
+ALTER TABLE ta_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access (API routes use service role)
+CREATE POLICY "Service role full access on ta_refunds"
+  ON ta_refunds FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,13 @@
+-- Encrypt calendar credentials at rest
+-- CalDAV passwords are now sealed by the app (AES-256-GCM under
+-- CALENDAR_SYNC_ENCRYPTION_KEY) and stored in password_encrypted. The
+-- plaintext column stays only for rows saved before this migration: the app
+-- encrypts each one the next time it reads it (the scheduled sync reads them
+-- all) and clears the plaintext.
+
+ALTER TABLE ta_calendar_connections ADD COLUMN IF NOT EXISTS password_encrypted TEXT;
+ALTER TABLE ta_calendar_connections ALTER COLUMN password DROP NOT NULL;
+
+ALTER TABLE ta_calendar_connections DROP CONSTRAINT IF EXISTS ta_calendar_connections_credential_check;
+ALTER TABLE ta_calendar_connections ADD CONSTRAINT ta_calendar_connections_credential_check
+  CHECK (password_encrypted IS NOT NULL OR password IS NOT NULL);
@@ -0,0 +1,40 @@
+-- Calendar sync queue
+-- Booking changes no longer call external calendars inline: they queue a
+-- push (or, for bookings about to be hard-deleted, a removal of each pushed
+-- event) and the /api/calendar/sync/queue job works through the queue. A
+-- slow or dead calendar server then can't stall booking mutations.
+
+CREATE TABLE IF NOT EXISTS ta_calendar_sync_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action TEXT NOT NULL CHECK (action IN ('push', 'remove')),
+  -- No foreign key: removals outlive the booking they belong to
+  booking_id UUID NOT NULL,
+  -- Removals only: the pushed event to delete
+  connection_id UUID REFERENCES ta_calendar_connections(id) ON DELETE CASCADE,
+  external_id TEXT,
+  etag TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'failed')),
+  attempt_count INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 5,
+  error_message TEXT,
+  -- Bumped when the same booking is queued again, so a push that read the
+  -- booking before the newer change doesn't clear it from the queue
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (action = 'push' OR (connection_id IS NOT NULL AND external_id IS NOT NULL))
+);
+
+-- One pending push per booking; it always sends the booking's latest state
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_sync_queue_pending_push
+  ON ta_calendar_sync_queue(booking_id) WHERE action = 'push' AND status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_queue_pending
+  ON ta_calendar_sync_queue(created_at) WHERE status = 'pending';
+
+ALTER TABLE ta_calendar_sync_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on ta_calendar_sync_queue"
+  ON ta_calendar_sync_queue FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
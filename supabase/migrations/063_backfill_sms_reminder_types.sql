@@ -0,0 +1,25 @@
+-- Backfill reminder tags on SMS queued before 050
+-- Reminder SMS queued before notification_type existed have no tag, so
+-- cancelBookingReminders, reschedule_booking and the send-time stale check
+-- all passed them over and clients were texted about cancelled or moved
+-- sessions. Those rows are recognised by the reminder templates' wording;
+-- send_at was always the booking time less 24h or 2h, which gives the
+-- booking time the text was written for.
+
+UPDATE sms_queue
+SET notification_type = 'reminder_2h',
+    booking_scheduled_at = send_at + INTERVAL '2 hours',
+    updated_at = now()
+WHERE notification_type IS NULL
+  AND booking_id IS NOT NULL
+  AND status = 'pending'
+  AND message LIKE 'Reminder: % in 2 hours at %';
+
+UPDATE sms_queue
+SET notification_type = 'reminder_24h',
+    booking_scheduled_at = send_at + INTERVAL '24 hours',
+    updated_at = now()
+WHERE notification_type IS NULL
+  AND booking_id IS NOT NULL
+  AND status = 'pending'
+  AND message LIKE 'Reminder: % tomorrow at %';
@@ -0,0 +1,59 @@
+-- Extend a package's expiry in one transaction
+-- The new date, the audit row in ta_package_expiry_extensions and any
+-- credits given back for an already-expired package are written together,
+-- so an extension can't go through without its audit record.
+
+CREATE OR REPLACE FUNCTION extend_package_expiry(
+  p_client_package_id UUID,
+  -- The status the package was read in; a package that changed since isn't touched
+  p_expected_status TEXT,
+  p_studio_id UUID,
+  p_extended_by UUID,
+  p_old_expires_at TIMESTAMPTZ,
+  p_new_expires_at TIMESTAMPTZ,
+  p_reason TEXT,
+  p_credits_reinstated INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_extension_id UUID;
+BEGIN
+  UPDATE ta_client_packages
+  SET expires_at = p_new_expires_at,
+      status = 'active',
+      expired_at = NULL,
+      expiry_warning_14_sent_at = NULL,
+      expiry_warning_3_sent_at = NULL
+  WHERE id = p_client_package_id
+    AND status = p_expected_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Package changed while it was being extended' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO ta_package_expiry_extensions (
+    client_package_id, studio_id, extended_by, old_expires_at, new_expires_at, reason, credits_reinstated
+  ) VALUES (
+    p_client_package_id, p_studio_id, p_extended_by, p_old_expires_at, p_new_expires_at, p_reason,
+    COALESCE(p_credits_reinstated, 0)
+  )
+  RETURNING id INTO v_extension_id;
+
+  IF COALESCE(p_credits_reinstated, 0) > 0 THEN
+    PERFORM apply_package_credit_entry(
+      p_client_package_id,
+      p_credits_reinstated,
+      'adjustment',
+      'expiry_reversed',
+      NULL,
+      COALESCE(p_reason, 'Package expiry extended'),
+      p_extended_by,
+      jsonb_build_object('extension_id', v_extension_id)
+    );
+  END IF;
+
+  RETURN v_extension_id;
+END;
+$$;
@@ -0,0 +1,96 @@
+-- reschedule_booking(): final definition
+-- Replaces the 049 version in one place:
+--   * reminder SMS are tagged (050), and only tagged reminders are cancelled
+--     on a move, so other messages such as the reschedule notice still go
+--   * client moves count towards the limit only when they are limit-checked,
+--     so accepting a time offered for trainer leave (051) is free
+--   * a client at the limit gets 'Reschedule limit reached' rather than the
+--     stale-time error, so the app can tell them why
+-- The reminder swap lives in its own function so later changes to reminders
+-- don't have to restate the move.
+
+CREATE OR REPLACE FUNCTION replace_booking_reminders(
+  p_booking_id UUID,
+  p_scheduled_at TIMESTAMPTZ,
+  -- [{ type, recipient_email, client_id, scheduled_for, template_data }]
+  p_email_reminders JSONB,
+  -- [{ phone_number, message, send_at, notification_type }]
+  p_sms_messages JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE ta_notifications
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status = 'pending'
+    AND type IN ('reminder_24h', 'reminder_2h');
+
+  UPDATE sms_queue
+  SET status = 'cancelled', updated_at = now()
+  WHERE booking_id = p_booking_id
+    AND status = 'pending'
+    AND notification_type IN ('reminder_24h', 'reminder_2h');
+
+  INSERT INTO ta_notifications (type, channel, recipient_email, booking_id, client_id, status, scheduled_for, template_data)
+  SELECT r.type, 'email', r.recipient_email, p_booking_id, r.client_id, 'pending', r.scheduled_for, COALESCE(r.template_data, '{}'::jsonb)
+  FROM jsonb_to_recordset(COALESCE(p_email_reminders, '[]'::jsonb))
+    AS r(type TEXT, recipient_email TEXT, client_id UUID, scheduled_for TIMESTAMPTZ, template_data JSONB);
+
+  INSERT INTO sms_queue (phone_number, message, type, booking_id, send_at, notification_type, booking_scheduled_at)
+  SELECT s.phone_number, s.message, 'transactional', p_booking_id, COALESCE(s.send_at, now()), s.notification_type, p_scheduled_at
+  FROM jsonb_to_recordset(COALESCE(p_sms_messages, '[]'::jsonb))
+    AS s(phone_number TEXT, message TEXT, send_at TIMESTAMPTZ, notification_type TEXT);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id UUID,
+  p_expected_scheduled_at TIMESTAMPTZ,
+  p_new_scheduled_at TIMESTAMPTZ,
+  p_source TEXT,
+  p_actor_id UUID,
+  -- Client moves count towards this limit; NULL means no limit
+  p_max_reschedules INTEGER,
+  p_email_reminders JSONB,
+  p_sms_messages JSONB
+)
+RETURNS SETOF ta_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking ta_bookings;
+BEGIN
+  UPDATE ta_bookings
+  SET scheduled_at = p_new_scheduled_at,
+      reschedule_count = reschedule_count
+        + CASE WHEN p_source = 'client' AND p_max_reschedules IS NOT NULL THEN 1 ELSE 0 END
+  WHERE id = p_booking_id
+    AND scheduled_at = p_expected_scheduled_at
+    AND status IN ('confirmed', 'soft-hold')
+    AND (p_max_reschedules IS NULL OR reschedule_count < p_max_reschedules)
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    -- Unchanged booking that only failed the limit
+    IF p_max_reschedules IS NOT NULL AND EXISTS (
+      SELECT 1 FROM ta_bookings
+      WHERE id = p_booking_id
+        AND scheduled_at = p_expected_scheduled_at
+        AND status IN ('confirmed', 'soft-hold')
+        AND reschedule_count >= p_max_reschedules
+    ) THEN
+      RAISE EXCEPTION 'Reschedule limit reached' USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'Booking was changed before it could be rescheduled' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM replace_booking_reminders(p_booking_id, p_new_scheduled_at, p_email_reminders, p_sms_messages);
+
+  INSERT INTO ta_booking_events (booking_id, event_type, source, actor_id, old_scheduled_at, new_scheduled_at)
+  VALUES (p_booking_id, 'rescheduled', p_source, p_actor_id, p_expected_scheduled_at, p_new_scheduled_at);
+
+  RETURN NEXT v_booking;
+END;
+$$;
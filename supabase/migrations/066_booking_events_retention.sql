@@ -0,0 +1,22 @@
+-- Keep booking history when a booking is deleted
+-- ta_booking_events was append-only for updates but still went with its
+-- booking on a hard delete. Events now block the delete instead (bookings
+-- with history are cancelled, not deleted) and can't be deleted themselves.
+
+ALTER TABLE ta_booking_events DROP CONSTRAINT IF EXISTS ta_booking_events_booking_id_fkey;
+ALTER TABLE ta_booking_events ADD CONSTRAINT ta_booking_events_booking_id_fkey
+  FOREIGN KEY (booking_id) REFERENCES ta_bookings(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION prevent_booking_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Booking events cannot be changed or deleted' USING ERRCODE = 'P0001';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS booking_events_no_delete ON ta_booking_events;
+CREATE TRIGGER booking_events_no_delete
+  BEFORE DELETE ON ta_booking_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_booking_event_update();
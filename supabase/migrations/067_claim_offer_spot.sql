@@ -0,0 +1,30 @@
+-- Count a claim or purchase against an offer's spots in one statement
+-- Reading current_referrals and writing it back let two claims at once
+-- count as one and take a capped offer past max_referrals. Returns false
+-- when the offer is full (a max_referrals of null or 0 means no cap).
+
+CREATE OR REPLACE FUNCTION claim_offer_spot(p_offer_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE referral_signup_links
+  SET current_referrals = COALESCE(current_referrals, 0) + 1
+  WHERE id = p_offer_id
+    AND (COALESCE(max_referrals, 0) = 0 OR COALESCE(current_referrals, 0) < max_referrals);
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Give a spot back when the claim it was taken for didn't go through
+CREATE OR REPLACE FUNCTION release_offer_spot(p_offer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE referral_signup_links
+  SET current_referrals = GREATEST(COALESCE(current_referrals, 0) - 1, 0)
+  WHERE id = p_offer_id;
+END;
+$$;